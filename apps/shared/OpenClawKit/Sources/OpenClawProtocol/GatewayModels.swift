@@ -1268,6 +1268,50 @@ public struct SessionsCompactParams: Codable, Sendable {
     }
 }
 
+public struct SessionsRollbackParams: Codable, Sendable {
+    public let key: String
+    public let turns: Int?
+
+    public init(
+        key: String,
+        turns: Int?)
+    {
+        self.key = key
+        self.turns = turns
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case turns
+    }
+}
+
+public struct SessionsReplayParams: Codable, Sendable {
+    public let key: String
+    public let model: String?
+    public let fromturn: Int?
+    public let maxturns: Int?
+
+    public init(
+        key: String,
+        model: String?,
+        fromturn: Int?,
+        maxturns: Int?)
+    {
+        self.key = key
+        self.model = model
+        self.fromturn = fromturn
+        self.maxturns = maxturns
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case model
+        case fromturn = "fromTurn"
+        case maxturns = "maxTurns"
+    }
+}
+
 public struct SessionsUsageParams: Codable, Sendable {
     public let key: String?
     public let startdate: String?
@@ -2383,6 +2427,7 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2400,6 +2445,7 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: AnyCodable?,
+        retry: [String: AnyCodable]?,
         state: [String: AnyCodable])
     {
         self.id = id
@@ -2416,6 +2462,7 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
         self.state = state
     }
 
@@ -2434,6 +2481,7 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
         case state
     }
 }
@@ -2490,6 +2538,7 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
 
     public init(
         name: String,
@@ -2502,7 +2551,8 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: AnyCodable?)
+        delivery: AnyCodable?,
+        retry: [String: AnyCodable]?)
     {
         self.name = name
         self.agentid = agentid
@@ -2515,6 +2565,7 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
     }
 
     private enum CodingKeys: String, CodingKey {
@@ -2529,6 +2580,7 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
     }
 }
 
@@ -2544,6 +2596,7 @@ public struct CronRunsParams: Codable, Sendable {
     public let deliverystatus: AnyCodable?
     public let query: String?
     public let sortdir: AnyCodable?
+    public let chainrunid: String?
 
     public init(
         scope: AnyCodable?,
@@ -2556,7 +2609,8 @@ public struct CronRunsParams: Codable, Sendable {
         deliverystatuses: [AnyCodable]?,
         deliverystatus: AnyCodable?,
         query: String?,
-        sortdir: AnyCodable?)
+        sortdir: AnyCodable?,
+        chainrunid: String?)
     {
         self.scope = scope
         self.id = id
@@ -2569,6 +2623,7 @@ public struct CronRunsParams: Codable, Sendable {
         self.deliverystatus = deliverystatus
         self.query = query
         self.sortdir = sortdir
+        self.chainrunid = chainrunid
     }
 
     private enum CodingKeys: String, CodingKey {
@@ -2583,6 +2638,117 @@ public struct CronRunsParams: Codable, Sendable {
         case deliverystatus = "deliveryStatus"
         case query
         case sortdir = "sortDir"
+        case chainrunid = "chainRunId"
+    }
+}
+
+public struct CronGraphParams: Codable, Sendable {
+    public let id: String?
+
+    public init(
+        id: String?)
+    {
+        self.id = id
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct CronReplayParams: Codable, Sendable {
+    public let chainrunid: String
+
+    public init(
+        chainrunid: String)
+    {
+        self.chainrunid = chainrunid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case chainrunid = "chainRunId"
+    }
+}
+
+public struct CronDeadLettersParams: Codable, Sendable {
+    public let id: String?
+    public let limit: Int?
+    public let offset: Int?
+
+    public init(
+        id: String?,
+        limit: Int?,
+        offset: Int?)
+    {
+        self.id = id
+        self.limit = limit
+        self.offset = offset
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case limit
+        case offset
+    }
+}
+
+public struct CronRedriveParams: Codable, Sendable {
+    public let deadletterid: String
+
+    public init(
+        deadletterid: String)
+    {
+        self.deadletterid = deadletterid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case deadletterid = "deadLetterId"
+    }
+}
+
+public struct CronDeadLetter: Codable, Sendable {
+    public let id: String
+    public let jobid: String
+    public let jobname: String?
+    public let ts: Int
+    public let runatms: Int?
+    public let attempts: Int
+    public let error: String?
+    public let errorclass: AnyCodable
+    public let chainrunid: String?
+
+    public init(
+        id: String,
+        jobid: String,
+        jobname: String?,
+        ts: Int,
+        runatms: Int?,
+        attempts: Int,
+        error: String?,
+        errorclass: AnyCodable,
+        chainrunid: String?)
+    {
+        self.id = id
+        self.jobid = jobid
+        self.jobname = jobname
+        self.ts = ts
+        self.runatms = runatms
+        self.attempts = attempts
+        self.error = error
+        self.errorclass = errorclass
+        self.chainrunid = chainrunid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case jobid = "jobId"
+        case jobname = "jobName"
+        case ts
+        case runatms = "runAtMs"
+        case attempts
+        case error
+        case errorclass = "errorClass"
+        case chainrunid = "chainRunId"
     }
 }
 
@@ -2604,6 +2770,9 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let model: String?
     public let provider: String?
     public let usage: [String: AnyCodable]?
+    public let chainrunid: String?
+    public let triggeredby: String?
+    public let retry: [String: AnyCodable]?
     public let jobname: String?
 
     public init(
@@ -2624,6 +2793,9 @@ public struct CronRunLogEntry: Codable, Sendable {
         model: String?,
         provider: String?,
         usage: [String: AnyCodable]?,
+        chainrunid: String?,
+        triggeredby: String?,
+        retry: [String: AnyCodable]?,
         jobname: String?)
     {
         self.ts = ts
@@ -2643,6 +2815,9 @@ public struct CronRunLogEntry: Codable, Sendable {
         self.model = model
         self.provider = provider
         self.usage = usage
+        self.chainrunid = chainrunid
+        self.triggeredby = triggeredby
+        self.retry = retry
         self.jobname = jobname
     }
 
@@ -2664,6 +2839,9 @@ public struct CronRunLogEntry: Codable, Sendable {
         case model
         case provider
         case usage
+        case chainrunid = "chainRunId"
+        case triggeredby = "triggeredBy"
+        case retry
         case jobname = "jobName"
     }
 }
@@ -2910,6 +3088,30 @@ public struct ExecApprovalResolveParams: Codable, Sendable {
     }
 }
 
+public struct OutboundApprovalListParams: Codable, Sendable {}
+
+public struct OutboundApprovalResolveParams: Codable, Sendable {
+    public let id: String
+    public let decision: AnyCodable
+    public let text: String?
+
+    public init(
+        id: String,
+        decision: AnyCodable,
+        text: String?)
+    {
+        self.id = id
+        self.decision = decision
+        self.text = text
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case decision
+        case text
+    }
+}
+
 public struct DevicePairListParams: Codable, Sendable {}
 
 public struct DevicePairApproveParams: Codable, Sendable {
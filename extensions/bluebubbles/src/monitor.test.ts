@@ -122,6 +122,7 @@ function createMockRuntime(): PluginRuntime {
     },
     tools: {
       createMemoryGetTool: vi.fn() as unknown as PluginRuntime["tools"]["createMemoryGetTool"],
+      createMemoryGraphTool: vi.fn() as unknown as PluginRuntime["tools"]["createMemoryGraphTool"],
       createMemorySearchTool:
         vi.fn() as unknown as PluginRuntime["tools"]["createMemorySearchTool"],
       registerMemoryCli: vi.fn() as unknown as PluginRuntime["tools"]["registerMemoryCli"],
@@ -40,6 +40,7 @@ function fakeApi(overrides: Partial<OpenClawPluginApi> = {}): OpenClawPluginApi
     registerCli() {},
     registerService() {},
     registerProvider() {},
+    registerCompactionStrategy() {},
     registerHook() {},
     registerHttpRoute() {},
     registerCommand() {},
@@ -21,9 +21,16 @@ const memoryCorePlugin = {
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        // Only offered when memorySearch.graph.enabled is set.
+        const memoryGraphTool = api.runtime.tools.createMemoryGraphTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        return memoryGraphTool
+          ? [memorySearchTool, memoryGetTool, memoryGraphTool]
+          : [memorySearchTool, memoryGetTool];
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "memory_graph"] },
     );
 
     api.registerCli(
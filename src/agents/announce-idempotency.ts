@@ -7,6 +7,13 @@ export function buildAnnounceIdFromChildRun(params: AnnounceIdFromChildRunParams
   return `v1:${params.childSessionKey}:${params.childRunId}`;
 }
 
+export function buildAnnounceIdFromGroup(params: {
+  requesterSessionKey: string;
+  groupId: string;
+}): string {
+  return `v1:group:${params.requesterSessionKey}:${params.groupId}`;
+}
+
 export function buildAnnounceIdempotencyKey(announceId: string): string {
   return `announce:${announceId}`;
 }
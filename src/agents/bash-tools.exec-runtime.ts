@@ -377,18 +377,19 @@ export async function runExecProcess(opts: {
         stdinMode: "pipe-open";
       } = (() => {
     if (opts.sandbox) {
+      const shellParams = {
+        command: execCommand,
+        workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
+        env: opts.env,
+        tty: opts.usePty,
+      };
+      const sandboxCommand = opts.sandbox.buildExecCommand?.(shellParams) ?? {
+        command: "docker",
+        args: buildDockerExecArgs({ containerName: opts.sandbox.containerName, ...shellParams }),
+      };
       return {
         mode: "child" as const,
-        argv: [
-          "docker",
-          ...buildDockerExecArgs({
-            containerName: opts.sandbox.containerName,
-            command: execCommand,
-            workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
-            env: opts.env,
-            tty: opts.usePty,
-          }),
-        ],
+        argv: [sandboxCommand.command, ...sandboxCommand.args],
         env: process.env,
         stdinMode: opts.usePty ? ("pipe-open" as const) : ("pipe-closed" as const),
       };
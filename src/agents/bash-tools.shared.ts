@@ -4,6 +4,7 @@ import { homedir } from "node:os";
 import path from "node:path";
 import { sliceUtf16Safe } from "../utils.js";
 import { assertSandboxPath } from "./sandbox-paths.js";
+import type { SandboxProcessCommand, SandboxShellCommandParams } from "./sandbox/backend.js";
 
 const CHUNK_LIMIT = 8 * 1024;
 
@@ -12,6 +13,8 @@ export type BashSandboxConfig = {
   workspaceDir: string;
   containerWorkdir: string;
   env?: Record<string, string>;
+  /** Builds the host command for the sandbox backend; defaults to `docker exec`. */
+  buildExecCommand?: (params: SandboxShellCommandParams) => SandboxProcessCommand;
 };
 
 export function buildSandboxEnv(params: {
@@ -46,6 +49,27 @@ export function coerceEnv(env?: NodeJS.ProcessEnv | Record<string, string>) {
   return record;
 }
 
+/** Login-shell argv plus the env it expects, shared by every sandbox backend. */
+export function buildSandboxLoginShell(params: { command: string; env: Record<string, string> }): {
+  env: Record<string, string>;
+  argv: string[];
+} {
+  const env = { ...params.env };
+  const hasCustomPath = typeof params.env.PATH === "string" && params.env.PATH.length > 0;
+  if (hasCustomPath) {
+    // Avoid interpolating PATH into the shell command; pass it via env instead.
+    env.OPENCLAW_PREPEND_PATH = params.env.PATH;
+  }
+  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
+  // overriding both Docker ENV and -e PATH=... environment variables.
+  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
+  // while preserving system paths that /etc/profile may have added.
+  const pathExport = hasCustomPath
+    ? 'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; '
+    : "";
+  return { env, argv: ["sh", "-lc", `${pathExport}${params.command}`] };
+}
+
 export function buildDockerExecArgs(params: {
   containerName: string;
   command: string;
@@ -60,22 +84,11 @@ export function buildDockerExecArgs(params: {
   if (params.workdir) {
     args.push("-w", params.workdir);
   }
-  for (const [key, value] of Object.entries(params.env)) {
+  const shell = buildSandboxLoginShell(params);
+  for (const [key, value] of Object.entries(shell.env)) {
     args.push("-e", `${key}=${value}`);
   }
-  const hasCustomPath = typeof params.env.PATH === "string" && params.env.PATH.length > 0;
-  if (hasCustomPath) {
-    // Avoid interpolating PATH into the shell command; pass it via env instead.
-    args.push("-e", `OPENCLAW_PREPEND_PATH=${params.env.PATH}`);
-  }
-  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
-  // overriding both Docker ENV and -e PATH=... environment variables.
-  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
-  // while preserving system paths that /etc/profile may have added.
-  const pathExport = hasCustomPath
-    ? 'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; '
-    : "";
-  args.push(params.containerName, "sh", "-lc", `${pathExport}${params.command}`);
+  args.push(params.containerName, ...shell.argv);
   return args;
 }
 
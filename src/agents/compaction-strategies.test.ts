@@ -0,0 +1,151 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import * as piAi from "@mariozechner/pi-ai";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  initializeGlobalHookRunner,
+  resetGlobalHookRunner,
+} from "../plugins/hook-runner-global.js";
+import { createEmptyPluginRegistry } from "../plugins/registry.js";
+import {
+  type CompactionStrategy,
+  type CompactionStrategyParams,
+  parseCompactionNotesReply,
+  renderCompactionNotesLedger,
+  resolveCompactionStrategy,
+  resolveCompactionStrategyId,
+} from "./compaction-strategies.js";
+
+vi.mock("@mariozechner/pi-ai", async (importOriginal) => {
+  const actual = await importOriginal<typeof piAi>();
+  return { ...actual, completeSimple: vi.fn() };
+});
+
+const mockCompleteSimple = vi.mocked(piAi.completeSimple);
+
+function reply(text: string): AssistantMessage {
+  return {
+    role: "assistant",
+    content: [{ type: "text", text }],
+    api: "anthropic-messages",
+    provider: "anthropic",
+    model: "claude-opus-4-6",
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "stop",
+    timestamp: 0,
+  };
+}
+
+function strategyParams(overrides: Partial<CompactionStrategyParams>): CompactionStrategyParams {
+  return {
+    messages: [{ role: "user", content: "switch the API to pnpm", timestamp: 0 }] as AgentMessage[],
+    turnPrefixMessages: [],
+    isSplitTurn: false,
+    model: { id: "claude-opus-4-6", provider: "anthropic" } as NonNullable<
+      ExtensionContext["model"]
+    >,
+    apiKey: "sk-test",
+    signal: new AbortController().signal,
+    reserveTokens: 4000,
+    maxChunkTokens: 50_000,
+    contextWindow: 200_000,
+    readFiles: ["README.md"],
+    modifiedFiles: ["package.json"],
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  mockCompleteSimple.mockReset();
+  resetGlobalHookRunner();
+});
+
+describe("compaction strategies", () => {
+  it("resolves per-agent strategies over defaults", () => {
+    const cfg = {
+      agents: {
+        defaults: { compaction: { strategy: "structured-notes" } },
+        list: [{ id: "ops", compaction: { strategy: "Summary" } }, { id: "main" }],
+      },
+    } as OpenClawConfig;
+    expect(resolveCompactionStrategyId(cfg, "ops")).toBe("summary");
+    expect(resolveCompactionStrategyId(cfg, "main")).toBe("structured-notes");
+    expect(resolveCompactionStrategyId(undefined)).toBe("summary");
+  });
+
+  it("finds plugin strategies and falls back to summary for unknown ids", () => {
+    const custom: CompactionStrategy = {
+      id: "tickets",
+      summarize: async () => ({ summary: "tickets" }),
+    };
+    const registry = createEmptyPluginRegistry();
+    registry.compactionStrategies.push({ pluginId: "demo", strategy: custom, source: "test" });
+    initializeGlobalHookRunner(registry);
+
+    expect(resolveCompactionStrategy("tickets")).toBe(custom);
+    expect(resolveCompactionStrategy("structured-notes").id).toBe("structured-notes");
+    expect(resolveCompactionStrategy("missing").id).toBe("summary");
+  });
+
+  it("parses and renders the notes ledger", () => {
+    const ledger = parseCompactionNotesReply(
+      '```json\n{"decisions": ["Use pnpm", "Use pnpm", " "], "openTasks": "nope", "facts": ["Node 22"]}\n```',
+    );
+    expect(ledger).toEqual({
+      decisions: ["Use pnpm"],
+      openTasks: [],
+      facts: ["Node 22"],
+      files: [],
+    });
+    expect(renderCompactionNotesLedger(ledger)).toBe(
+      "## Decisions\n- Use pnpm\n\n## Open Tasks\n- (none)\n\n## Facts\n- Node 22\n\n## Files\n- (none)",
+    );
+    expect(() => parseCompactionNotesReply("no json here")).toThrow(/JSON object/);
+  });
+
+  it("updates the previous ledger instead of re-summarizing the summary", async () => {
+    mockCompleteSimple.mockResolvedValue(
+      reply(
+        JSON.stringify({
+          decisions: ["Ship on Friday", "Use pnpm"],
+          openTasks: ["Update CI"],
+          facts: [],
+          files: ["package.json (scripts changed)"],
+        }),
+      ),
+    );
+
+    const result = await resolveCompactionStrategy("structured-notes").summarize(
+      strategyParams({
+        previousSummary: "## Decisions\n- Ship on Friday",
+        previousDetails: {
+          notes: { decisions: ["Ship on Friday"], openTasks: [], facts: [], files: [] },
+        },
+      }),
+    );
+
+    expect(mockCompleteSimple).toHaveBeenCalledTimes(1);
+    const prompt = JSON.stringify(mockCompleteSimple.mock.calls[0]?.[1]);
+    expect(prompt).toContain("Ship on Friday");
+    expect(prompt).toContain("switch the API to pnpm");
+    expect(prompt).not.toContain("earlier-context");
+    expect(result.details).toEqual({
+      notes: {
+        decisions: ["Ship on Friday", "Use pnpm"],
+        openTasks: ["Update CI"],
+        facts: [],
+        files: ["package.json (scripts changed)", "README.md"],
+      },
+    });
+    expect(result.summary).toContain("## Open Tasks\n- Update CI");
+  });
+});
@@ -0,0 +1,316 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { completeSimple } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { convertToLlm, serializeConversation } from "@mariozechner/pi-coding-agent";
+import type { OpenClawConfig } from "../config/config.js";
+import { retryAsync } from "../infra/retry.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { getGlobalPluginRegistry } from "../plugins/hook-runner-global.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import {
+  buildCompactionSummarizationInstructions,
+  chunkMessagesByMaxTokens,
+  summarizeInStages,
+  type CompactionSummarizationInstructions,
+} from "./compaction.js";
+import { stripToolResultDetails } from "./session-transcript-repair.js";
+
+const log = createSubsystemLogger("compaction");
+
+export const DEFAULT_COMPACTION_STRATEGY = "summary";
+export const STRUCTURED_NOTES_COMPACTION_STRATEGY = "structured-notes";
+
+const TURN_PREFIX_INSTRUCTIONS =
+  "This summary covers the prefix of a split turn. Focus on the original request," +
+  " early progress, and any details needed to understand the retained suffix.";
+const MAX_NOTES_PER_SECTION = 40;
+const NOTES_SYSTEM_PROMPT =
+  "You maintain a compact project ledger for an AI agent whose older conversation is being" +
+  " discarded. Reply with JSON only.";
+const NOTES_UPDATE_INSTRUCTIONS = [
+  "Update the ledger with everything from the conversation that the agent will still need.",
+  'Return the complete updated ledger as JSON: {"decisions": string[], "openTasks": string[], "facts": string[], "files": string[]}.',
+  "- decisions: choices that were made and why, one line each.",
+  "- openTasks: work that is requested or in progress; drop tasks that were completed.",
+  "- facts: durable facts (preferences, constraints, environment details, results).",
+  "- files: file paths that matter, optionally followed by a short note.",
+  "Keep existing entries unless the conversation supersedes them. Do not invent entries.",
+].join("\n");
+
+export type CompactionStrategyParams = {
+  /** Messages being discarded (after safeguard pruning). */
+  messages: AgentMessage[];
+  /** Prefix of a turn that was split by the cut point. */
+  turnPrefixMessages: AgentMessage[];
+  isSplitTurn: boolean;
+  /** Summary stored on the previous compaction entry. */
+  previousSummary?: string;
+  /** `details` stored on the previous compaction entry. */
+  previousDetails?: unknown;
+  /** Summary of older history that safeguard pruning dropped before this pass. */
+  droppedSummary?: string;
+  model: NonNullable<ExtensionContext["model"]>;
+  apiKey: string;
+  signal: AbortSignal;
+  reserveTokens: number;
+  maxChunkTokens: number;
+  contextWindow: number;
+  customInstructions?: string;
+  summarizationInstructions?: CompactionSummarizationInstructions;
+  readFiles: string[];
+  modifiedFiles: string[];
+};
+
+export type CompactionStrategyResult = {
+  summary: string;
+  /** Stored on the compaction entry and handed back as `previousDetails` next time. */
+  details?: Record<string, unknown>;
+};
+
+export type CompactionStrategy = {
+  id: string;
+  description?: string;
+  summarize: (params: CompactionStrategyParams) => Promise<CompactionStrategyResult>;
+};
+
+export type CompactionNotesLedger = {
+  decisions: string[];
+  openTasks: string[];
+  facts: string[];
+  files: string[];
+};
+
+const NOTES_SECTIONS: Array<{ key: keyof CompactionNotesLedger; title: string }> = [
+  { key: "decisions", title: "Decisions" },
+  { key: "openTasks", title: "Open Tasks" },
+  { key: "facts", title: "Facts" },
+  { key: "files", title: "Files" },
+];
+
+function normalizeNotesList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const entries: string[] = [];
+  for (const item of value) {
+    const text = typeof item === "string" ? item.replace(/\s+/g, " ").trim() : "";
+    if (text && !seen.has(text)) {
+      seen.add(text);
+      entries.push(text);
+    }
+  }
+  // Keep the newest entries when a section overflows.
+  return entries.slice(-MAX_NOTES_PER_SECTION);
+}
+
+export function normalizeCompactionNotesLedger(value: unknown): CompactionNotesLedger | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  return {
+    decisions: normalizeNotesList(record.decisions),
+    openTasks: normalizeNotesList(record.openTasks),
+    facts: normalizeNotesList(record.facts),
+    files: normalizeNotesList(record.files),
+  };
+}
+
+export function parseCompactionNotesReply(text: string): CompactionNotesLedger {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("structured notes reply did not contain a JSON object");
+  }
+  const ledger = normalizeCompactionNotesLedger(JSON.parse(text.slice(start, end + 1)));
+  if (!ledger) {
+    throw new Error("structured notes reply was not a JSON object");
+  }
+  return ledger;
+}
+
+/** Adds file paths the transcript touched that the ledger does not mention yet. */
+export function mergeCompactionNotesFiles(
+  ledger: CompactionNotesLedger,
+  paths: string[],
+): CompactionNotesLedger {
+  const files = [...ledger.files];
+  for (const file of paths) {
+    if (!files.some((entry) => entry === file || entry.startsWith(`${file} `))) {
+      files.push(file);
+    }
+  }
+  return { ...ledger, files: normalizeNotesList(files) };
+}
+
+export function renderCompactionNotesLedger(ledger: CompactionNotesLedger): string {
+  const blocks = NOTES_SECTIONS.map(({ key, title }) => {
+    const entries = ledger[key];
+    const body = entries.length > 0 ? entries.map((entry) => `- ${entry}`).join("\n") : "- (none)";
+    return `## ${title}\n${body}`;
+  });
+  return blocks.join("\n\n");
+}
+
+function emptyNotesLedger(): CompactionNotesLedger {
+  return { decisions: [], openTasks: [], facts: [], files: [] };
+}
+
+async function updateNotesLedger(params: {
+  ledger: CompactionNotesLedger;
+  conversation: string;
+  context?: string;
+  strategy: CompactionStrategyParams;
+}): Promise<CompactionNotesLedger> {
+  const { strategy } = params;
+  const instructions = buildCompactionSummarizationInstructions(
+    strategy.customInstructions,
+    strategy.summarizationInstructions,
+  );
+  const prompt = [
+    `<ledger>\n${JSON.stringify(params.ledger, null, 2)}\n</ledger>`,
+    params.context ? `<earlier-context>\n${params.context}\n</earlier-context>` : "",
+    `<conversation>\n${params.conversation}\n</conversation>`,
+    NOTES_UPDATE_INSTRUCTIONS,
+    instructions ?? "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  return await retryAsync(
+    async () => {
+      const response = await completeSimple(
+        strategy.model,
+        {
+          systemPrompt: NOTES_SYSTEM_PROMPT,
+          messages: [{ role: "user", content: [{ type: "text", text: prompt }], timestamp: 0 }],
+        },
+        {
+          maxTokens: Math.max(1, Math.floor(0.8 * strategy.reserveTokens)),
+          signal: strategy.signal,
+          apiKey: strategy.apiKey,
+        },
+      );
+      if (response.stopReason === "error") {
+        throw new Error(`Structured notes failed: ${response.errorMessage || "Unknown error"}`);
+      }
+      return parseCompactionNotesReply(
+        response.content
+          .filter((block) => block.type === "text")
+          .map((block) => block.text)
+          .join("\n"),
+      );
+    },
+    {
+      attempts: 3,
+      minDelayMs: 500,
+      maxDelayMs: 5000,
+      jitter: 0.2,
+      label: "compaction/structuredNotes",
+      shouldRetry: (err) => !(err instanceof Error && err.name === "AbortError"),
+    },
+  );
+}
+
+const summaryStrategy: CompactionStrategy = {
+  id: DEFAULT_COMPACTION_STRATEGY,
+  description: "Free-text summary, updated from the previous summary on each compaction.",
+  summarize: async (params) => {
+    const stageParams = {
+      model: params.model,
+      apiKey: params.apiKey,
+      signal: params.signal,
+      reserveTokens: params.reserveTokens,
+      maxChunkTokens: params.maxChunkTokens,
+      contextWindow: params.contextWindow,
+      summarizationInstructions: params.summarizationInstructions,
+    };
+    // Feed dropped-messages summary as previousSummary so the main summarization
+    // incorporates context from pruned messages instead of losing it entirely.
+    const historySummary = await summarizeInStages({
+      ...stageParams,
+      messages: params.messages,
+      customInstructions: params.customInstructions,
+      previousSummary: params.droppedSummary ?? params.previousSummary,
+    });
+    if (!params.isSplitTurn || params.turnPrefixMessages.length === 0) {
+      return { summary: historySummary };
+    }
+    const prefixSummary = await summarizeInStages({
+      ...stageParams,
+      messages: params.turnPrefixMessages,
+      customInstructions: TURN_PREFIX_INSTRUCTIONS,
+      previousSummary: undefined,
+    });
+    return {
+      summary: `${historySummary}\n\n---\n\n**Turn Context (split turn):**\n\n${prefixSummary}`,
+    };
+  },
+};
+
+const structuredNotesStrategy: CompactionStrategy = {
+  id: STRUCTURED_NOTES_COMPACTION_STRATEGY,
+  description:
+    "Typed ledger of decisions, open tasks, facts and files that is updated, not re-summarized.",
+  summarize: async (params) => {
+    const previous =
+      params.previousDetails && typeof params.previousDetails === "object"
+        ? normalizeCompactionNotesLedger((params.previousDetails as { notes?: unknown }).notes)
+        : undefined;
+    // The first notes pass after a free-text compaction seeds the ledger from that summary.
+    const context =
+      [previous ? undefined : params.previousSummary, params.droppedSummary]
+        .filter(Boolean)
+        .join("\n\n") || undefined;
+
+    // SECURITY: never feed toolResult.details into summarization prompts.
+    const safeMessages = stripToolResultDetails([...params.messages, ...params.turnPrefixMessages]);
+    const chunks = chunkMessagesByMaxTokens(safeMessages, params.maxChunkTokens);
+    let ledger = previous ?? emptyNotesLedger();
+    for (const [index, chunk] of chunks.entries()) {
+      ledger = await updateNotesLedger({
+        ledger,
+        conversation: serializeConversation(convertToLlm(chunk)),
+        context: index === 0 ? context : undefined,
+        strategy: params,
+      });
+    }
+    ledger = mergeCompactionNotesFiles(ledger, [...params.modifiedFiles, ...params.readFiles]);
+    return {
+      summary: renderCompactionNotesLedger(ledger),
+      details: { notes: ledger },
+    };
+  },
+};
+
+const BUILTIN_COMPACTION_STRATEGIES: CompactionStrategy[] = [
+  summaryStrategy,
+  structuredNotesStrategy,
+];
+
+export function listCompactionStrategies(): CompactionStrategy[] {
+  const pluginStrategies =
+    getGlobalPluginRegistry()?.compactionStrategies.map((entry) => entry.strategy) ?? [];
+  return [...BUILTIN_COMPACTION_STRATEGIES, ...pluginStrategies];
+}
+
+/** Per-agent `compaction.strategy` wins over `agents.defaults.compaction.strategy`. */
+export function resolveCompactionStrategyId(
+  cfg: OpenClawConfig | undefined,
+  agentId?: string,
+): string {
+  const agentStrategy =
+    cfg && agentId ? resolveAgentConfig(cfg, agentId)?.compaction?.strategy : undefined;
+  const raw = agentStrategy ?? cfg?.agents?.defaults?.compaction?.strategy;
+  return raw?.trim().toLowerCase() || DEFAULT_COMPACTION_STRATEGY;
+}
+
+export function resolveCompactionStrategy(id?: string): CompactionStrategy {
+  const normalized = id?.trim().toLowerCase() || DEFAULT_COMPACTION_STRATEGY;
+  const strategy = listCompactionStrategies().find((entry) => entry.id === normalized);
+  if (strategy) {
+    return strategy;
+  }
+  log.warn(`Unknown compaction strategy "${normalized}"; falling back to summary.`);
+  return summaryStrategy;
+}
@@ -72,6 +72,10 @@ export type ResolvedMemorySearchConfig = {
       };
     };
   };
+  graph: {
+    enabled: boolean;
+    weight: number;
+  };
   cache: {
     enabled: boolean;
     maxEntries?: number;
@@ -97,6 +101,8 @@ const DEFAULT_MMR_ENABLED = false;
 const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
+const DEFAULT_GRAPH_ENABLED = false;
+const DEFAULT_GRAPH_WEIGHT = 0.2;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -273,6 +279,10 @@ function mergeConfig(
         DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS,
     },
   };
+  const graph = {
+    enabled: overrides?.graph?.enabled ?? defaults?.graph?.enabled ?? DEFAULT_GRAPH_ENABLED,
+    weight: overrides?.graph?.weight ?? defaults?.graph?.weight ?? DEFAULT_GRAPH_WEIGHT,
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -337,6 +347,10 @@ function mergeConfig(
         },
       },
     },
+    graph: {
+      enabled: Boolean(graph.enabled),
+      weight: clampNumber(graph.weight, 0, 1),
+    },
     cache: {
       enabled: Boolean(cache.enabled),
       maxEntries:
@@ -1,6 +1,10 @@
 import type { Api, Model } from "@mariozechner/pi-ai";
 import type { ExtensionFactory, SessionManager } from "@mariozechner/pi-coding-agent";
 import type { OpenClawConfig } from "../../config/config.js";
+import {
+  DEFAULT_COMPACTION_STRATEGY,
+  resolveCompactionStrategyId,
+} from "../compaction-strategies.js";
 import { resolveContextWindowInfo } from "../context-window-guard.js";
 import { DEFAULT_CONTEXT_TOKENS } from "../defaults.js";
 import { setCompactionSafeguardRuntime } from "../pi-extensions/compaction-safeguard-runtime.js";
@@ -57,7 +61,14 @@ function buildContextPruningFactory(params: {
   return contextPruningExtension;
 }
 
-function resolveCompactionMode(cfg?: OpenClawConfig): "default" | "safeguard" {
+function resolveCompactionMode(
+  cfg: OpenClawConfig | undefined,
+  strategy: string,
+): "default" | "safeguard" {
+  // Strategies run inside the safeguard extension, so picking one implies safeguard mode.
+  if (strategy !== DEFAULT_COMPACTION_STRATEGY) {
+    return "safeguard";
+  }
   return cfg?.agents?.defaults?.compaction?.mode === "safeguard" ? "safeguard" : "default";
 }
 
@@ -67,9 +78,11 @@ export function buildEmbeddedExtensionFactories(params: {
   provider: string;
   modelId: string;
   model: Model<Api> | undefined;
+  agentId?: string;
 }): ExtensionFactory[] {
   const factories: ExtensionFactory[] = [];
-  if (resolveCompactionMode(params.cfg) === "safeguard") {
+  const strategy = resolveCompactionStrategyId(params.cfg, params.agentId);
+  if (resolveCompactionMode(params.cfg, strategy) === "safeguard") {
     const compactionCfg = params.cfg?.agents?.defaults?.compaction;
     const contextWindowInfo = resolveContextWindowInfo({
       cfg: params.cfg,
@@ -83,6 +96,7 @@ export function buildEmbeddedExtensionFactories(params: {
       contextWindowTokens: contextWindowInfo.tokens,
       identifierPolicy: compactionCfg?.identifierPolicy,
       identifierInstructions: compactionCfg?.identifierInstructions,
+      strategy,
       model: params.model,
     });
     factories.push(compactionSafeguardExtension);
@@ -54,7 +54,7 @@ import { subscribeEmbeddedPiSession } from "../../pi-embedded-subscribe.js";
 import { createPreparedEmbeddedPiSettingsManager } from "../../pi-project-settings.js";
 import { toClientToolDefinitions } from "../../pi-tool-definition-adapter.js";
 import { createOpenClawCodingTools, resolveToolLoopDetectionConfig } from "../../pi-tools.js";
-import { resolveSandboxContext } from "../../sandbox.js";
+import { captureSandboxWorkspaceSnapshot, resolveSandboxContext } from "../../sandbox.js";
 import { resolveSandboxRuntimeStatus } from "../../sandbox/runtime-status.js";
 import { repairSessionFileIfNeeded } from "../../session-file-repair.js";
 import { guardSessionManager } from "../../session-tool-result-guard-wrapper.js";
@@ -345,6 +345,21 @@ export async function runEmbeddedAttempt(
     sessionKey: sandboxSessionKey,
     workspaceDir: resolvedWorkspace,
   });
+  if (sandbox?.enabled && sandbox.snapshots) {
+    // Taken before any tool runs so /rollback can undo this turn; retries of the run reuse it.
+    try {
+      await captureSandboxWorkspaceSnapshot({
+        workspaceDir: sandbox.workspaceDir,
+        sessionKey: sandboxSessionKey,
+        runId: params.runId,
+        config: sandbox.snapshots,
+      });
+    } catch (err) {
+      log.warn(
+        `sandbox workspace snapshot failed: runId=${params.runId} sessionId=${params.sessionId} error=${String(err)}`,
+      );
+    }
+  }
   const effectiveWorkspace = sandbox?.enabled
     ? sandbox.workspaceAccess === "rw"
       ? resolvedWorkspace
@@ -664,6 +679,7 @@ export async function runEmbeddedAttempt(
         provider: params.provider,
         modelId: params.modelId,
         model: params.model,
+        agentId: sessionAgentId,
       });
       // Only create an explicit resource loader when there are extension factories
       // to register; otherwise let createAgentSession use its built-in default.
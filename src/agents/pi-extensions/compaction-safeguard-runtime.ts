@@ -7,6 +7,8 @@ export type CompactionSafeguardRuntimeValue = {
   contextWindowTokens?: number;
   identifierPolicy?: AgentCompactionIdentifierPolicy;
   identifierInstructions?: string;
+  /** Compaction strategy id (built-in or plugin-registered). */
+  strategy?: string;
   /**
    * Model to use for compaction summarization.
    * Passed through runtime because `ctx.model` is undefined in the compact.ts workflow
@@ -1,9 +1,10 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
-import type { ExtensionAPI, FileOperations } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext, FileOperations } from "@mariozechner/pi-coding-agent";
 import { extractSections } from "../../auto-reply/reply/post-compaction-context.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { resolveCompactionStrategy } from "../compaction-strategies.js";
 import {
   BASE_CHUNK_RATIO,
   MIN_CHUNK_RATIO,
@@ -23,9 +24,6 @@ const log = createSubsystemLogger("compaction-safeguard");
 
 // Track session managers that have already logged the missing-model warning to avoid log spam.
 const missedModelWarningSessions = new WeakSet<object>();
-const TURN_PREFIX_INSTRUCTIONS =
-  "This summary covers the prefix of a split turn. Focus on the original request," +
-  " early progress, and any details needed to understand the retained suffix.";
 const MAX_TOOL_FAILURES = 8;
 const MAX_TOOL_FAILURE_CHARS = 240;
 
@@ -158,6 +156,19 @@ function formatFileOperations(readFiles: string[], modifiedFiles: string[]): str
   return `\n\n${sections.join("\n\n")}`;
 }
 
+function findPreviousCompactionDetails(
+  sessionManager: ExtensionContext["sessionManager"],
+): unknown {
+  const branch = sessionManager.getBranch();
+  for (let i = branch.length - 1; i >= 0; i -= 1) {
+    const entry = branch[i];
+    if (entry?.type === "compaction") {
+      return entry.details;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Read and format critical workspace context for compaction summary.
  * Extracts "Session Startup" and "Red Lines" from AGENTS.md.
@@ -325,12 +336,14 @@ export default function compactionSafeguardExtension(api: ExtensionAPI): void {
       );
       const reserveTokens = Math.max(1, Math.floor(preparation.settings.reserveTokens));
 
-      // Feed dropped-messages summary as previousSummary so the main summarization
-      // incorporates context from pruned messages instead of losing it entirely.
-      const effectivePreviousSummary = droppedSummary ?? preparation.previousSummary;
-
-      const historySummary = await summarizeInStages({
+      const strategy = resolveCompactionStrategy(runtime?.strategy);
+      const result = await strategy.summarize({
         messages: messagesToSummarize,
+        turnPrefixMessages,
+        isSplitTurn: preparation.isSplitTurn,
+        previousSummary: preparation.previousSummary,
+        previousDetails: findPreviousCompactionDetails(ctx.sessionManager),
+        droppedSummary,
         model,
         apiKey,
         signal,
@@ -339,26 +352,11 @@ export default function compactionSafeguardExtension(api: ExtensionAPI): void {
         contextWindow: contextWindowTokens,
         customInstructions,
         summarizationInstructions,
-        previousSummary: effectivePreviousSummary,
+        readFiles,
+        modifiedFiles,
       });
 
-      let summary = historySummary;
-      if (preparation.isSplitTurn && turnPrefixMessages.length > 0) {
-        const prefixSummary = await summarizeInStages({
-          messages: turnPrefixMessages,
-          model,
-          apiKey,
-          signal,
-          reserveTokens,
-          maxChunkTokens,
-          contextWindow: contextWindowTokens,
-          customInstructions: TURN_PREFIX_INSTRUCTIONS,
-          summarizationInstructions,
-          previousSummary: undefined,
-        });
-        summary = `${historySummary}\n\n---\n\n**Turn Context (split turn):**\n\n${prefixSummary}`;
-      }
-
+      let summary = result.summary;
       summary += toolFailureSection;
       summary += fileOpsSummary;
 
@@ -373,7 +371,7 @@ export default function compactionSafeguardExtension(api: ExtensionAPI): void {
           summary,
           firstKeptEntryId: preparation.firstKeptEntryId,
           tokensBefore: preparation.tokensBefore,
-          details: { readFiles, modifiedFiles },
+          details: { ...result.details, readFiles, modifiedFiles, strategy: strategy.id },
         },
       };
     } catch (error) {
@@ -55,6 +55,7 @@ const SUBAGENT_TOOL_DENY_ALWAYS = [
   // Memory - pass relevant info in spawn prompt instead
   "memory_search",
   "memory_get",
+  "memory_graph",
   // Direct session sends - subagents communicate through announce chain
   "sessions_send",
 ];
@@ -1,9 +1,18 @@
+export {
+  buildSandboxShellCommand,
+  resolveSandboxBackend,
+  type SandboxBackend,
+  type SandboxBackendCapabilities,
+} from "./sandbox/backend.js";
 export {
   resolveSandboxBrowserConfig,
+  resolveSandboxBwrapConfig,
   resolveSandboxConfigForAgent,
   resolveSandboxDockerConfig,
+  resolveSandboxEgressConfig,
   resolveSandboxPruneConfig,
   resolveSandboxScope,
+  resolveSandboxSnapshotConfig,
 } from "./sandbox/config.js";
 export {
   DEFAULT_SANDBOX_BROWSER_IMAGE,
@@ -21,21 +30,39 @@ export {
   type SandboxBrowserInfo,
   type SandboxContainerInfo,
 } from "./sandbox/manage.js";
+export {
+  rollbackSandboxSession,
+  SANDBOX_ROLLBACK_CUSTOM_TYPE,
+  type SandboxSessionRollback,
+} from "./sandbox/rollback.js";
 export {
   formatSandboxToolPolicyBlockedMessage,
   resolveSandboxRuntimeStatus,
 } from "./sandbox/runtime-status.js";
 
+export {
+  captureSandboxWorkspaceSnapshot,
+  listSandboxWorkspaceSnapshots,
+  type SandboxSnapshotEntry,
+} from "./sandbox/snapshots.js";
 export { resolveSandboxToolPolicyForAgent } from "./sandbox/tool-policy.js";
+export {
+  validateSandboxBackendSupport,
+  type SandboxBackendSupportReport,
+} from "./sandbox/validate-sandbox-security.js";
 
 export type {
+  SandboxBackendId,
   SandboxBrowserConfig,
+  SandboxBwrapConfig,
   SandboxBrowserContext,
   SandboxConfig,
   SandboxContext,
   SandboxDockerConfig,
+  SandboxEgressConfig,
   SandboxPruneConfig,
   SandboxScope,
+  SandboxSnapshotConfig,
   SandboxToolPolicy,
   SandboxToolPolicyResolved,
   SandboxToolPolicySource,
@@ -0,0 +1,69 @@
+import type { SandboxBackendId } from "../../config/types.sandbox.js";
+
+export type SandboxBackendCapabilities = {
+  /** Runs without a root-owned daemon. */
+  rootless: boolean;
+  /** `network: "none"` removes all network access. */
+  networkIsolation: boolean;
+  /** Non-"none" networks get their own namespace instead of sharing the host stack. */
+  privateNetworks: boolean;
+  /** The sandbox root filesystem can be mounted read-only. */
+  readOnlyRoot: boolean;
+  /** A long-lived container keeps state between commands (setupCommand, installed packages). */
+  persistentContainer: boolean;
+  /** pidsLimit, memory, memorySwap, cpus and ulimits. */
+  resourceLimits: boolean;
+  /** seccompProfile and apparmorProfile. */
+  securityProfiles: boolean;
+  /** dns and extraHosts overrides. */
+  dnsOverrides: boolean;
+  /** `docker.user` picks the uid:gid inside the sandbox. */
+  userMapping: boolean;
+  /** Sandboxed browser containers. */
+  browser: boolean;
+};
+
+export const SANDBOX_BACKEND_CAPABILITIES: Record<SandboxBackendId, SandboxBackendCapabilities> = {
+  docker: {
+    rootless: false,
+    networkIsolation: true,
+    privateNetworks: true,
+    readOnlyRoot: true,
+    persistentContainer: true,
+    resourceLimits: true,
+    securityProfiles: true,
+    dnsOverrides: true,
+    userMapping: true,
+    browser: true,
+  },
+  podman: {
+    rootless: true,
+    networkIsolation: true,
+    privateNetworks: true,
+    readOnlyRoot: true,
+    persistentContainer: true,
+    resourceLimits: true,
+    securityProfiles: true,
+    dnsOverrides: true,
+    userMapping: true,
+    browser: false,
+  },
+  bwrap: {
+    rootless: true,
+    networkIsolation: true,
+    privateNetworks: false,
+    readOnlyRoot: true,
+    persistentContainer: false,
+    resourceLimits: false,
+    securityProfiles: false,
+    dnsOverrides: false,
+    userMapping: false,
+    browser: false,
+  },
+};
+
+export function resolveSandboxBackendCapabilities(
+  backend: SandboxBackendId | undefined,
+): SandboxBackendCapabilities {
+  return SANDBOX_BACKEND_CAPABILITIES[backend ?? "docker"];
+}
@@ -0,0 +1,153 @@
+import type { SandboxBackendId } from "../../config/types.sandbox.js";
+import { buildSandboxLoginShell } from "../bash-tools.shared.js";
+import {
+  resolveSandboxBackendCapabilities,
+  type SandboxBackendCapabilities,
+} from "./backend-capabilities.js";
+import { BWRAP_SANDBOX_IMAGE, buildBwrapArgs, ensureBwrapSandbox } from "./bwrap.js";
+import { DEFAULT_SANDBOX_BWRAP_COMMAND } from "./constants.js";
+import {
+  dockerContainerState,
+  ensureSandboxContainer,
+  execDocker,
+  type SandboxContainerCli,
+} from "./docker.js";
+import { buildSandboxEgressEnv } from "./egress-proxy.js";
+import type { SandboxConfig, SandboxContext } from "./types.js";
+
+export type { SandboxBackendCapabilities } from "./backend-capabilities.js";
+
+/** A host command (binary plus args) that runs something inside a sandbox. */
+export type SandboxProcessCommand = {
+  command: string;
+  args: string[];
+};
+
+export type SandboxCommandParams = {
+  argv: string[];
+  workdir?: string;
+  env?: Record<string, string>;
+  tty?: boolean;
+};
+
+export type SandboxShellCommandParams = {
+  command: string;
+  workdir?: string;
+  env: Record<string, string>;
+  tty: boolean;
+};
+
+/** What a backend needs to reach a sandbox; a `SandboxContext` satisfies it. */
+export type SandboxExecTarget = Pick<
+  SandboxContext,
+  | "backend"
+  | "containerName"
+  | "containerWorkdir"
+  | "workspaceDir"
+  | "agentWorkspaceDir"
+  | "workspaceAccess"
+  | "docker"
+  | "bwrap"
+  | "egress"
+>;
+
+export type SandboxBackendStatus = {
+  exists: boolean;
+  running: boolean;
+  /** Image the sandbox actually runs, when the backend can tell. */
+  image?: string;
+};
+
+export type SandboxBackend = {
+  id: SandboxBackendId;
+  capabilities: SandboxBackendCapabilities;
+  /** Creates or reuses the sandbox for a session; returns its registry name. */
+  ensure: (params: {
+    sessionKey: string;
+    workspaceDir: string;
+    agentWorkspaceDir: string;
+    cfg: SandboxConfig;
+  }) => Promise<string>;
+  buildCommand: (target: SandboxExecTarget, params: SandboxCommandParams) => SandboxProcessCommand;
+  status: (containerName: string) => Promise<SandboxBackendStatus>;
+  remove: (containerName: string) => Promise<void>;
+};
+
+function createContainerBackend(cli: SandboxContainerCli): SandboxBackend {
+  return {
+    id: cli,
+    capabilities: resolveSandboxBackendCapabilities(cli),
+    ensure: (params) => ensureSandboxContainer({ ...params, cli }),
+    buildCommand: (target, params) => {
+      const args = ["exec", "-i"];
+      if (params.tty) {
+        args.push("-t");
+      }
+      if (params.workdir) {
+        args.push("-w", params.workdir);
+      }
+      for (const [key, value] of Object.entries(params.env ?? {})) {
+        args.push("-e", `${key}=${value}`);
+      }
+      args.push(target.containerName, ...params.argv);
+      return { command: cli, args };
+    },
+    status: async (containerName) => {
+      const state = await dockerContainerState(containerName, cli);
+      if (!state.exists) {
+        return state;
+      }
+      const result = await execDocker(["inspect", "-f", "{{.Config.Image}}", containerName], {
+        allowFailure: true,
+        command: cli,
+      }).catch(() => null);
+      const image = result?.code === 0 ? result.stdout.trim() : "";
+      // Podman qualifies locally built images as localhost/<name>.
+      const normalized = cli === "podman" ? image.replace(/^localhost\//, "") : image;
+      return normalized ? { ...state, image: normalized } : state;
+    },
+    remove: async (containerName) => {
+      await execDocker(["rm", "-f", containerName], { allowFailure: true, command: cli });
+    },
+  };
+}
+
+const bwrapBackend: SandboxBackend = {
+  id: "bwrap",
+  capabilities: resolveSandboxBackendCapabilities("bwrap"),
+  ensure: ensureBwrapSandbox,
+  buildCommand: (target, params) => ({
+    command: target.bwrap?.command || DEFAULT_SANDBOX_BWRAP_COMMAND,
+    args: buildBwrapArgs(target, params),
+  }),
+  // Each command spawns its own sandbox, so a registered bwrap sandbox is always ready.
+  status: async () => ({ exists: true, running: true, image: BWRAP_SANDBOX_IMAGE }),
+  remove: async () => {},
+};
+
+const SANDBOX_BACKENDS: Record<SandboxBackendId, SandboxBackend> = {
+  docker: createContainerBackend("docker"),
+  podman: createContainerBackend("podman"),
+  bwrap: bwrapBackend,
+};
+
+export function resolveSandboxBackend(id: SandboxBackendId | undefined): SandboxBackend {
+  return SANDBOX_BACKENDS[id ?? "docker"];
+}
+
+/** Runs a shell command in the sandbox through a login shell, like an interactive session. */
+export function buildSandboxShellCommand(
+  target: SandboxExecTarget,
+  params: SandboxShellCommandParams,
+): SandboxProcessCommand {
+  const env = target.egress
+    ? { ...buildSandboxEgressEnv(target.egress.proxyUrl), ...params.env }
+    : params.env;
+  const shell = buildSandboxLoginShell({ ...params, env });
+  return resolveSandboxBackend(target.backend).buildCommand(target, {
+    argv: shell.argv,
+    workdir: params.workdir,
+    env: shell.env,
+    tty: params.tty,
+  });
+}
@@ -0,0 +1,121 @@
+import type { SandboxCommandParams, SandboxExecTarget } from "./backend.js";
+import { splitSandboxBindSpec } from "./bind-spec.js";
+import { DEFAULT_SANDBOX_BWRAP_COMMAND, SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
+import { execDocker, resolveSandboxContainerName } from "./docker.js";
+import { updateRegistry } from "./registry.js";
+import { sanitizeEnvVars } from "./sanitize-env-vars.js";
+import type { SandboxConfig } from "./types.js";
+import { validateSandboxSecurity } from "./validate-sandbox-security.js";
+
+/** Registry "image" for bwrap sandboxes, which run from host directories instead of an image. */
+export const BWRAP_SANDBOX_IMAGE = "bwrap";
+
+const BWRAP_DEFAULT_PATH = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+const checkedCommands = new Set<string>();
+
+/**
+ * bubblewrap argv (without the binary) that runs `params.argv` in a fresh set of
+ * namespaces. Every command gets its own sandbox, so mounts mirror what the
+ * container backends set up once at create time.
+ */
+export function buildBwrapArgs(target: SandboxExecTarget, params: SandboxCommandParams): string[] {
+  const { docker } = target;
+  const args = ["--die-with-parent", "--new-session", "--unshare-all"];
+  if ((docker.network?.trim() || "none") !== "none") {
+    args.push("--share-net");
+  }
+  for (const root of target.bwrap?.hostRoots ?? []) {
+    args.push("--ro-bind-try", root, root);
+  }
+  args.push("--proc", "/proc", "--dev", "/dev");
+  for (const entry of docker.tmpfs) {
+    // Docker tmpfs specs may carry mount options (`/tmp:size=64m`); bwrap only takes the path.
+    const mountPath = entry.split(":")[0]?.trim();
+    if (mountPath) {
+      args.push("--tmpfs", mountPath);
+    }
+  }
+  const mainReadOnly =
+    target.workspaceAccess === "ro" && target.workspaceDir === target.agentWorkspaceDir;
+  args.push(mainReadOnly ? "--ro-bind" : "--bind", target.workspaceDir, docker.workdir);
+  if (target.workspaceAccess !== "none" && target.workspaceDir !== target.agentWorkspaceDir) {
+    args.push(
+      target.workspaceAccess === "ro" ? "--ro-bind" : "--bind",
+      target.agentWorkspaceDir,
+      SANDBOX_AGENT_WORKSPACE_MOUNT,
+    );
+  }
+  for (const bind of docker.binds ?? []) {
+    const parsed = splitSandboxBindSpec(bind.trim());
+    if (!parsed) {
+      continue;
+    }
+    const readOnly = parsed.options.split(",").includes("ro");
+    args.push(readOnly ? "--ro-bind" : "--bind", parsed.host, parsed.container);
+  }
+  if (docker.readOnlyRoot) {
+    args.push("--remount-ro", "/");
+  }
+  args.push("--clearenv");
+  const env: Record<string, string> = {
+    PATH: BWRAP_DEFAULT_PATH,
+    HOME: docker.workdir,
+    ...sanitizeEnvVars(docker.env ?? {}).allowed,
+    ...params.env,
+  };
+  for (const [key, value] of Object.entries(env)) {
+    args.push("--setenv", key, value);
+  }
+  args.push("--chdir", params.workdir ?? target.containerWorkdir, ...params.argv);
+  return args;
+}
+
+async function assertBwrapAvailable(command: string): Promise<void> {
+  if (checkedCommands.has(command)) {
+    return;
+  }
+  try {
+    await execDocker(["--version"], { command });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Sandbox backend "bwrap" is unavailable (${command}: ${message}). ` +
+        "Install bubblewrap or set agents.defaults.sandbox.bwrap.command.",
+      { cause: error },
+    );
+  }
+  checkedCommands.add(command);
+}
+
+/**
+ * bwrap has no long-lived container: "ensuring" the sandbox validates the config,
+ * checks the binary, and records a registry entry so list/prune see the session.
+ */
+export async function ensureBwrapSandbox(params: {
+  sessionKey: string;
+  workspaceDir: string;
+  agentWorkspaceDir: string;
+  cfg: SandboxConfig;
+}): Promise<string> {
+  const { scopeKey, containerName } = resolveSandboxContainerName(params);
+  const docker = params.cfg.docker;
+  validateSandboxSecurity({
+    ...docker,
+    allowedSourceRoots: [params.workspaceDir, params.agentWorkspaceDir],
+    allowSourcesOutsideAllowedRoots: docker.dangerouslyAllowExternalBindSources === true,
+    allowReservedContainerTargets: docker.dangerouslyAllowReservedContainerTargets === true,
+    dangerouslyAllowContainerNamespaceJoin: docker.dangerouslyAllowContainerNamespaceJoin === true,
+  });
+  await assertBwrapAvailable(params.cfg.bwrap.command || DEFAULT_SANDBOX_BWRAP_COMMAND);
+  const now = Date.now();
+  await updateRegistry({
+    containerName,
+    sessionKey: scopeKey,
+    createdAtMs: now,
+    lastUsedAtMs: now,
+    image: BWRAP_SANDBOX_IMAGE,
+    backend: "bwrap",
+  });
+  return containerName;
+}
@@ -8,20 +8,28 @@ import {
   DEFAULT_SANDBOX_BROWSER_NOVNC_PORT,
   DEFAULT_SANDBOX_BROWSER_PREFIX,
   DEFAULT_SANDBOX_BROWSER_VNC_PORT,
+  DEFAULT_SANDBOX_BWRAP_COMMAND,
+  DEFAULT_SANDBOX_BWRAP_HOST_ROOTS,
   DEFAULT_SANDBOX_CONTAINER_PREFIX,
+  DEFAULT_SANDBOX_EGRESS_NETWORK,
   DEFAULT_SANDBOX_IDLE_HOURS,
   DEFAULT_SANDBOX_IMAGE,
   DEFAULT_SANDBOX_MAX_AGE_DAYS,
+  DEFAULT_SANDBOX_SNAPSHOT_KEEP,
+  DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES,
   DEFAULT_SANDBOX_WORKDIR,
   DEFAULT_SANDBOX_WORKSPACE_ROOT,
 } from "./constants.js";
 import { resolveSandboxToolPolicyForAgent } from "./tool-policy.js";
 import type {
   SandboxBrowserConfig,
+  SandboxBwrapConfig,
   SandboxConfig,
   SandboxDockerConfig,
+  SandboxEgressConfig,
   SandboxPruneConfig,
   SandboxScope,
+  SandboxSnapshotConfig,
 } from "./types.js";
 
 export const DANGEROUS_SANDBOX_DOCKER_BOOLEAN_KEYS = [
@@ -154,6 +162,42 @@ export function resolveSandboxBrowserConfig(params: {
   };
 }
 
+export function resolveSandboxBwrapConfig(params: {
+  scope: SandboxScope;
+  globalBwrap?: Partial<SandboxBwrapConfig>;
+  agentBwrap?: Partial<SandboxBwrapConfig>;
+}): SandboxBwrapConfig {
+  const agentBwrap = params.scope === "shared" ? undefined : params.agentBwrap;
+  const globalBwrap = params.globalBwrap;
+  return {
+    command:
+      agentBwrap?.command?.trim() || globalBwrap?.command?.trim() || DEFAULT_SANDBOX_BWRAP_COMMAND,
+    hostRoots: agentBwrap?.hostRoots ??
+      globalBwrap?.hostRoots ?? [...DEFAULT_SANDBOX_BWRAP_HOST_ROOTS],
+  };
+}
+
+export function resolveSandboxEgressConfig(params: {
+  scope: SandboxScope;
+  globalEgress?: Partial<SandboxEgressConfig>;
+  agentEgress?: Partial<SandboxEgressConfig>;
+}): SandboxEgressConfig {
+  const agentEgress = params.scope === "shared" ? undefined : params.agentEgress;
+  const globalEgress = params.globalEgress;
+  return {
+    enabled: agentEgress?.enabled ?? globalEgress?.enabled ?? false,
+    // Per-agent allowlists replace the global one, like tool policies.
+    allow: agentEgress?.allow ?? globalEgress?.allow ?? [],
+    allowPrivateNetwork:
+      agentEgress?.allowPrivateNetwork ?? globalEgress?.allowPrivateNetwork ?? false,
+    network:
+      agentEgress?.network?.trim() ||
+      globalEgress?.network?.trim() ||
+      DEFAULT_SANDBOX_EGRESS_NETWORK,
+    port: agentEgress?.port ?? globalEgress?.port ?? 0,
+  };
+}
+
 export function resolveSandboxPruneConfig(params: {
   scope: SandboxScope;
   globalPrune?: Partial<SandboxPruneConfig>;
@@ -167,6 +211,22 @@ export function resolveSandboxPruneConfig(params: {
   };
 }
 
+export function resolveSandboxSnapshotConfig(params: {
+  scope: SandboxScope;
+  globalSnapshots?: Partial<SandboxSnapshotConfig>;
+  agentSnapshots?: Partial<SandboxSnapshotConfig>;
+}): SandboxSnapshotConfig {
+  const agentSnapshots = params.scope === "shared" ? undefined : params.agentSnapshots;
+  const globalSnapshots = params.globalSnapshots;
+  return {
+    enabled: agentSnapshots?.enabled ?? globalSnapshots?.enabled ?? false,
+    keep: agentSnapshots?.keep ?? globalSnapshots?.keep ?? DEFAULT_SANDBOX_SNAPSHOT_KEEP,
+    maxBytes:
+      agentSnapshots?.maxBytes ?? globalSnapshots?.maxBytes ?? DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES,
+    method: agentSnapshots?.method ?? globalSnapshots?.method ?? "auto",
+  };
+}
+
 export function resolveSandboxConfigForAgent(
   cfg?: OpenClawConfig,
   agentId?: string,
@@ -193,11 +253,23 @@ export function resolveSandboxConfigForAgent(
     workspaceAccess: agentSandbox?.workspaceAccess ?? agent?.workspaceAccess ?? "none",
     workspaceRoot:
       agentSandbox?.workspaceRoot ?? agent?.workspaceRoot ?? DEFAULT_SANDBOX_WORKSPACE_ROOT,
+    // Shared sandboxes serve every agent, so only the global backend applies.
+    backend: (scope === "shared" ? undefined : agentSandbox?.backend) ?? agent?.backend ?? "docker",
     docker: resolveSandboxDockerConfig({
       scope,
       globalDocker: agent?.docker,
       agentDocker: agentSandbox?.docker,
     }),
+    bwrap: resolveSandboxBwrapConfig({
+      scope,
+      globalBwrap: agent?.bwrap,
+      agentBwrap: agentSandbox?.bwrap,
+    }),
+    egress: resolveSandboxEgressConfig({
+      scope,
+      globalEgress: agent?.egress,
+      agentEgress: agentSandbox?.egress,
+    }),
     browser: resolveSandboxBrowserConfig({
       scope,
       globalBrowser: agent?.browser,
@@ -212,5 +284,10 @@ export function resolveSandboxConfigForAgent(
       globalPrune: agent?.prune,
       agentPrune: agentSandbox?.prune,
     }),
+    snapshots: resolveSandboxSnapshotConfig({
+      scope,
+      globalSnapshots: agent?.snapshots,
+      agentSnapshots: agentSandbox?.snapshots,
+    }),
   };
 }
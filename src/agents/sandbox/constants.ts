@@ -7,8 +7,29 @@ export const DEFAULT_SANDBOX_WORKSPACE_ROOT = path.join(STATE_DIR, "sandboxes");
 export const DEFAULT_SANDBOX_IMAGE = "openclaw-sandbox:bookworm-slim";
 export const DEFAULT_SANDBOX_CONTAINER_PREFIX = "openclaw-sbx-";
 export const DEFAULT_SANDBOX_WORKDIR = "/workspace";
+export const DEFAULT_SANDBOX_BWRAP_COMMAND = "bwrap";
+/** The only /etc entries bwrap sandboxes may see: name resolution, users, TLS roots, linker cache. */
+export const SANDBOX_BWRAP_ETC_HOST_ROOTS = [
+  "/etc/resolv.conf",
+  "/etc/hosts",
+  "/etc/passwd",
+  "/etc/ssl/certs",
+  "/etc/ld.so.cache",
+];
+export const DEFAULT_SANDBOX_BWRAP_HOST_ROOTS = [
+  "/usr",
+  "/bin",
+  "/sbin",
+  "/lib",
+  "/lib32",
+  "/lib64",
+  ...SANDBOX_BWRAP_ETC_HOST_ROOTS,
+];
+export const DEFAULT_SANDBOX_EGRESS_NETWORK = "openclaw-sandbox-egress";
 export const DEFAULT_SANDBOX_IDLE_HOURS = 24;
 export const DEFAULT_SANDBOX_MAX_AGE_DAYS = 7;
+export const DEFAULT_SANDBOX_SNAPSHOT_KEEP = 10;
+export const DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES = 256 * 1024 * 1024;
 
 export const DEFAULT_TOOL_ALLOW = [
   "exec",
@@ -52,3 +73,4 @@ export const SANDBOX_AGENT_WORKSPACE_MOUNT = "/agent";
 export const SANDBOX_STATE_DIR = path.join(STATE_DIR, "sandbox");
 export const SANDBOX_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "containers.json");
 export const SANDBOX_BROWSER_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "browsers.json");
+export const SANDBOX_SNAPSHOTS_DIR = path.join(SANDBOX_STATE_DIR, "snapshots");
@@ -3,20 +3,33 @@ import { DEFAULT_BROWSER_EVALUATE_ENABLED } from "../../browser/constants.js";
 import { ensureBrowserControlAuth, resolveBrowserControlAuth } from "../../browser/control-auth.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import { loadConfig } from "../../config/config.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { defaultRuntime } from "../../runtime.js";
 import { resolveUserPath } from "../../utils.js";
 import { syncSkillsToWorkspace } from "../skills.js";
 import { DEFAULT_AGENT_WORKSPACE_DIR } from "../workspace.js";
+import { resolveSandboxBackend } from "./backend.js";
 import { ensureSandboxBrowser } from "./browser.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
-import { ensureSandboxContainer } from "./docker.js";
+import { ensureSandboxEgressNetwork } from "./docker.js";
+import { ensureSandboxEgressProxy } from "./egress-proxy.js";
 import { createSandboxFsBridge } from "./fs-bridge.js";
 import { maybePruneSandboxes } from "./prune.js";
 import { resolveSandboxRuntimeStatus } from "./runtime-status.js";
 import { resolveSandboxScopeKey, resolveSandboxWorkspaceDir } from "./shared.js";
-import type { SandboxContext, SandboxDockerConfig, SandboxWorkspaceInfo } from "./types.js";
+import type {
+  SandboxConfig,
+  SandboxContext,
+  SandboxDockerConfig,
+  SandboxEgressContext,
+  SandboxWorkspaceInfo,
+} from "./types.js";
+import { validateSandboxBackendSupport } from "./validate-sandbox-security.js";
 import { ensureSandboxWorkspace } from "./workspace.js";
 
+const log = createSubsystemLogger("sandbox");
+const warnedIgnoredSettings = new Set<string>();
+
 async function ensureSandboxWorkspaceLayout(params: {
   cfg: ReturnType<typeof resolveSandboxConfigForAgent>;
   rawSessionKey: string;
@@ -87,6 +100,28 @@ export async function resolveSandboxDockerUser(params: {
   }
 }
 
+async function prepareSandboxEgress(params: {
+  cfg: SandboxConfig;
+  sessionKey: string;
+  agentId?: string;
+}): Promise<SandboxEgressContext | undefined> {
+  const { cfg } = params;
+  // validateSandboxBackendSupport rejects egress for backends without private networks.
+  if (!cfg.egress.enabled || cfg.backend === "bwrap") {
+    return undefined;
+  }
+  const gateway = await ensureSandboxEgressNetwork(cfg.egress.network, cfg.backend);
+  const proxy = await ensureSandboxEgressProxy({ host: gateway, port: cfg.egress.port });
+  return {
+    proxyUrl: proxy.register({
+      sessionKey: params.sessionKey,
+      agentId: params.agentId,
+      allow: cfg.egress.allow,
+      allowPrivateNetwork: cfg.egress.allowPrivateNetwork,
+    }),
+  };
+}
+
 function resolveSandboxSession(params: { config?: OpenClawConfig; sessionKey?: string }) {
   const rawSessionKey = params.sessionKey?.trim();
   if (!rawSessionKey) {
@@ -114,10 +149,26 @@ export async function resolveSandboxContext(params: {
   if (!resolved) {
     return null;
   }
-  const { rawSessionKey, cfg } = resolved;
+  const { rawSessionKey, runtime, cfg } = resolved;
 
   await maybePruneSandboxes(cfg);
 
+  const backend = resolveSandboxBackend(cfg.backend);
+  const support = validateSandboxBackendSupport({
+    backend: backend.id,
+    docker: cfg.docker,
+    browserEnabled: cfg.browser.enabled,
+    hostRoots: cfg.bwrap.hostRoots,
+    egressEnabled: cfg.egress.enabled,
+  });
+  for (const key of support.ignored) {
+    const warningKey = `${backend.id}:${key}`;
+    if (!warnedIgnoredSettings.has(warningKey)) {
+      warnedIgnoredSettings.add(warningKey);
+      log.warn(`Sandbox backend "${backend.id}" does not support ${key}; ignoring it.`);
+    }
+  }
+
   const { agentWorkspaceDir, scopeKey, workspaceDir } = await ensureSandboxWorkspaceLayout({
     cfg,
     rawSessionKey,
@@ -125,13 +176,23 @@ export async function resolveSandboxContext(params: {
     workspaceDir: params.workspaceDir,
   });
 
-  const docker = await resolveSandboxDockerUser({
-    docker: cfg.docker,
-    workspaceDir,
+  const egress = await prepareSandboxEgress({
+    cfg,
+    sessionKey: rawSessionKey,
+    agentId: runtime.agentId,
   });
+  // Proxied sandboxes sit on the internal egress network instead of docker.network.
+  const networkDocker = egress ? { ...cfg.docker, network: cfg.egress.network } : cfg.docker;
+  // bwrap always runs as the invoking user, so there is no uid to pick.
+  const docker = backend.capabilities.userMapping
+    ? await resolveSandboxDockerUser({
+        docker: networkDocker,
+        workspaceDir,
+      })
+    : networkDocker;
   const resolvedCfg = docker === cfg.docker ? cfg : { ...cfg, docker };
 
-  const containerName = await ensureSandboxContainer({
+  const containerName = await backend.ensure({
     sessionKey: rawSessionKey,
     workspaceDir,
     agentWorkspaceDir,
@@ -141,7 +202,8 @@ export async function resolveSandboxContext(params: {
   const evaluateEnabled =
     params.config?.browser?.evaluateEnabled ?? DEFAULT_BROWSER_EVALUATE_ENABLED;
 
-  const bridgeAuth = cfg.browser.enabled
+  const browserEnabled = cfg.browser.enabled && backend.capabilities.browser;
+  const bridgeAuth = browserEnabled
     ? await (async () => {
         // Sandbox browser bridge server runs on a loopback TCP port; always wire up
         // the same auth that loopback browser clients will send (token/password).
@@ -157,14 +219,16 @@ export async function resolveSandboxContext(params: {
         return browserAuth;
       })()
     : undefined;
-  const browser = await ensureSandboxBrowser({
-    scopeKey,
-    workspaceDir,
-    agentWorkspaceDir,
-    cfg: resolvedCfg,
-    evaluateEnabled,
-    bridgeAuth,
-  });
+  const browser = browserEnabled
+    ? await ensureSandboxBrowser({
+        scopeKey,
+        workspaceDir,
+        agentWorkspaceDir,
+        cfg: resolvedCfg,
+        evaluateEnabled,
+        bridgeAuth,
+      })
+    : null;
 
   const sandboxContext: SandboxContext = {
     enabled: true,
@@ -174,9 +238,13 @@ export async function resolveSandboxContext(params: {
     workspaceAccess: resolvedCfg.workspaceAccess,
     containerName,
     containerWorkdir: resolvedCfg.docker.workdir,
+    backend: backend.id,
     docker: resolvedCfg.docker,
+    bwrap: resolvedCfg.bwrap,
+    egress,
     tools: resolvedCfg.tools,
     browserAllowHostControl: resolvedCfg.browser.allowHostControl,
+    snapshots: resolvedCfg.snapshots.enabled ? resolvedCfg.snapshots : undefined,
     browser: browser ?? undefined,
   };
 
@@ -89,6 +89,7 @@ function createSandboxConfig(dns: string[], binds?: string[]): SandboxConfig {
     scope: "shared",
     workspaceAccess: "rw",
     workspaceRoot: "~/.openclaw/sandboxes",
+    backend: "docker",
     docker: {
       image: "openclaw-sandbox:test",
       containerPrefix: "oc-test-",
@@ -117,8 +118,17 @@ function createSandboxConfig(dns: string[], binds?: string[]): SandboxConfig {
       autoStart: false,
       autoStartTimeoutMs: 5000,
     },
+    bwrap: { command: "bwrap", hostRoots: [] },
+    egress: {
+      enabled: false,
+      allow: [],
+      allowPrivateNetwork: false,
+      network: "openclaw-sandbox-egress",
+      port: 0,
+    },
     tools: { allow: [], deny: [] },
     prune: { idleHours: 24, maxAgeDays: 7 },
+    snapshots: { enabled: false, keep: 10, maxBytes: 1024, method: "auto" },
   };
 }
 
@@ -2,7 +2,12 @@ import { spawn } from "node:child_process";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { sanitizeEnvVars } from "./sanitize-env-vars.js";
 
+/** Container CLIs that accept Docker's command line (podman mirrors it). */
+export type SandboxContainerCli = "docker" | "podman";
+
 type ExecDockerRawOptions = {
+  /** CLI binary to run (default: docker). */
+  command?: string;
   allowFailure?: boolean;
   input?: Buffer | string;
   signal?: AbortSignal;
@@ -31,7 +36,8 @@ export function execDockerRaw(
   opts?: ExecDockerRawOptions,
 ): Promise<ExecDockerRawResult> {
   return new Promise<ExecDockerRawResult>((resolve, reject) => {
-    const child = spawn("docker", args, {
+    const command = opts?.command ?? "docker";
+    const child = spawn(command, args, {
       stdio: ["pipe", "pipe", "pipe"],
     });
     const stdoutChunks: Buffer[] = [];
@@ -82,7 +88,7 @@ export function execDockerRaw(
       if (exitCode !== 0 && !opts?.allowFailure) {
         const message = stderr.length > 0 ? stderr.toString("utf8").trim() : "";
         const error: ExecDockerRawError = Object.assign(
-          new Error(message || `docker ${args.join(" ")} failed`),
+          new Error(message || `${command} ${args.join(" ")} failed`),
           {
             code: exitCode,
             stdout,
@@ -133,10 +139,11 @@ export async function execDocker(args: string[], opts?: ExecDockerOptions) {
 export async function readDockerContainerLabel(
   containerName: string,
   label: string,
+  cli: SandboxContainerCli = "docker",
 ): Promise<string | null> {
   const result = await execDocker(
     ["inspect", "-f", `{{ index .Config.Labels "${label}" }}`, containerName],
-    { allowFailure: true },
+    { allowFailure: true, command: cli },
   );
   if (result.code !== 0) {
     return null;
@@ -183,36 +190,78 @@ export async function readDockerPort(containerName: string, port: number) {
   return Number.isFinite(mapped) ? mapped : null;
 }
 
-async function dockerImageExists(image: string) {
+async function dockerImageExists(image: string, cli: SandboxContainerCli) {
   const result = await execDocker(["image", "inspect", image], {
     allowFailure: true,
+    command: cli,
   });
   if (result.code === 0) {
     return true;
   }
   const stderr = result.stderr.trim();
-  if (stderr.includes("No such image")) {
+  // Podman reports missing images as "image not known".
+  if (stderr.includes("No such image") || stderr.includes("image not known")) {
     return false;
   }
   throw new Error(`Failed to inspect sandbox image: ${stderr}`);
 }
 
-export async function ensureDockerImage(image: string) {
-  const exists = await dockerImageExists(image);
+export async function ensureDockerImage(image: string, cli: SandboxContainerCli = "docker") {
+  const exists = await dockerImageExists(image, cli);
   if (exists) {
     return;
   }
   if (image === DEFAULT_SANDBOX_IMAGE) {
-    await execDocker(["pull", "debian:bookworm-slim"]);
-    await execDocker(["tag", "debian:bookworm-slim", DEFAULT_SANDBOX_IMAGE]);
+    // Podman does not resolve short names without registries.conf aliases.
+    const base =
+      cli === "podman" ? "docker.io/library/debian:bookworm-slim" : "debian:bookworm-slim";
+    await execDocker(["pull", base], { command: cli });
+    await execDocker(["tag", base, DEFAULT_SANDBOX_IMAGE], { command: cli });
     return;
   }
   throw new Error(`Sandbox image not found: ${image}. Build or pull it first.`);
 }
 
-export async function dockerContainerState(name: string) {
+function readNetworkGateway(inspectJson: string): string | undefined {
+  const [network] = JSON.parse(inspectJson) as Array<{
+    IPAM?: { Config?: Array<{ Gateway?: string }> };
+    subnets?: Array<{ gateway?: string }>;
+  }>;
+  // Docker reports IPAM.Config[].Gateway; Podman (netavark) reports subnets[].gateway.
+  const gateways = [
+    ...(network?.IPAM?.Config ?? []).map((entry) => entry.Gateway),
+    ...(network?.subnets ?? []).map((entry) => entry.gateway),
+  ].filter((gateway): gateway is string => Boolean(gateway?.trim()));
+  return gateways.find((gateway) => !gateway.includes(":")) ?? gateways[0];
+}
+
+/**
+ * Creates (if needed) an internal network with no route off the host and
+ * returns its gateway address, where the host-side egress proxy listens.
+ */
+export async function ensureSandboxEgressNetwork(
+  name: string,
+  cli: SandboxContainerCli = "docker",
+): Promise<string> {
+  let inspect = await execDocker(["network", "inspect", name], {
+    allowFailure: true,
+    command: cli,
+  });
+  if (inspect.code !== 0) {
+    await execDocker(["network", "create", "--internal", name], { command: cli });
+    inspect = await execDocker(["network", "inspect", name], { command: cli });
+  }
+  const gateway = readNetworkGateway(inspect.stdout);
+  if (!gateway) {
+    throw new Error(`Sandbox egress network ${name} has no gateway address.`);
+  }
+  return gateway;
+}
+
+export async function dockerContainerState(name: string, cli: SandboxContainerCli = "docker") {
   const result = await execDocker(["inspect", "-f", "{{.State.Running}}", name], {
     allowFailure: true,
+    command: cli,
   });
   if (result.code !== 0) {
     return { exists: false, running: false };
@@ -268,6 +317,7 @@ export function buildSandboxCreateArgs(params: {
   allowSourcesOutsideAllowedRoots?: boolean;
   allowReservedContainerTargets?: boolean;
   allowContainerNamespaceJoin?: boolean;
+  cli?: SandboxContainerCli;
 }) {
   // Runtime security validation: blocks dangerous bind mounts, network modes, and profiles.
   validateSandboxSecurity({
@@ -306,6 +356,10 @@ export function buildSandboxCreateArgs(params: {
   if (params.cfg.network) {
     args.push("--network", params.cfg.network);
   }
+  if (params.cli === "podman") {
+    // Rootless podman: map the host user to the same uid so workspace files keep their owner.
+    args.push("--userns=keep-id");
+  }
   if (params.cfg.user) {
     args.push("--user", params.cfg.user);
   }
@@ -384,9 +438,10 @@ async function createSandboxContainer(params: {
   agentWorkspaceDir: string;
   scopeKey: string;
   configHash?: string;
+  cli: SandboxContainerCli;
 }) {
-  const { name, cfg, workspaceDir, scopeKey } = params;
-  await ensureDockerImage(cfg.image);
+  const { name, cfg, workspaceDir, scopeKey, cli } = params;
+  await ensureDockerImage(cfg.image, cli);
 
   const args = buildSandboxCreateArgs({
     name,
@@ -395,6 +450,7 @@ async function createSandboxContainer(params: {
     configHash: params.configHash,
     includeBinds: false,
     bindSourceRoots: [workspaceDir, params.agentWorkspaceDir],
+    cli,
   });
   args.push("--workdir", cfg.workdir);
   const mainMountSuffix =
@@ -410,16 +466,19 @@ async function createSandboxContainer(params: {
   appendCustomBinds(args, cfg);
   args.push(cfg.image, "sleep", "infinity");
 
-  await execDocker(args);
-  await execDocker(["start", name]);
+  await execDocker(args, { command: cli });
+  await execDocker(["start", name], { command: cli });
 
   if (cfg.setupCommand?.trim()) {
-    await execDocker(["exec", "-i", name, "sh", "-lc", cfg.setupCommand]);
+    await execDocker(["exec", "-i", name, "sh", "-lc", cfg.setupCommand], { command: cli });
   }
 }
 
-async function readContainerConfigHash(containerName: string): Promise<string | null> {
-  return await readDockerContainerLabel(containerName, "openclaw.configHash");
+async function readContainerConfigHash(
+  containerName: string,
+  cli: SandboxContainerCli,
+): Promise<string | null> {
+  return await readDockerContainerLabel(containerName, "openclaw.configHash", cli);
 }
 
 function formatSandboxRecreateHint(params: { scope: SandboxConfig["scope"]; sessionKey: string }) {
@@ -433,16 +492,25 @@ function formatSandboxRecreateHint(params: { scope: SandboxConfig["scope"]; sess
   return formatCliCommand("openclaw sandbox recreate --all");
 }
 
+export function resolveSandboxContainerName(params: { sessionKey: string; cfg: SandboxConfig }): {
+  scopeKey: string;
+  containerName: string;
+} {
+  const scopeKey = resolveSandboxScopeKey(params.cfg.scope, params.sessionKey);
+  const slug = params.cfg.scope === "shared" ? "shared" : slugifySessionKey(scopeKey);
+  const name = `${params.cfg.docker.containerPrefix}${slug}`;
+  return { scopeKey, containerName: name.slice(0, 63) };
+}
+
 export async function ensureSandboxContainer(params: {
   sessionKey: string;
   workspaceDir: string;
   agentWorkspaceDir: string;
   cfg: SandboxConfig;
+  cli?: SandboxContainerCli;
 }) {
-  const scopeKey = resolveSandboxScopeKey(params.cfg.scope, params.sessionKey);
-  const slug = params.cfg.scope === "shared" ? "shared" : slugifySessionKey(scopeKey);
-  const name = `${params.cfg.docker.containerPrefix}${slug}`;
-  const containerName = name.slice(0, 63);
+  const cli = params.cli ?? "docker";
+  const { scopeKey, containerName } = resolveSandboxContainerName(params);
   const expectedHash = computeSandboxConfigHash({
     docker: params.cfg.docker,
     workspaceAccess: params.cfg.workspaceAccess,
@@ -450,7 +518,7 @@ export async function ensureSandboxContainer(params: {
     agentWorkspaceDir: params.agentWorkspaceDir,
   });
   const now = Date.now();
-  const state = await dockerContainerState(containerName);
+  const state = await dockerContainerState(containerName, cli);
   let hasContainer = state.exists;
   let running = state.running;
   let currentHash: string | null = null;
@@ -464,7 +532,7 @@ export async function ensureSandboxContainer(params: {
   if (hasContainer) {
     const registry = await readRegistry();
     registryEntry = registry.entries.find((entry) => entry.containerName === containerName);
-    currentHash = await readContainerConfigHash(containerName);
+    currentHash = await readContainerConfigHash(containerName, cli);
     if (!currentHash) {
       currentHash = registryEntry?.configHash ?? null;
     }
@@ -480,7 +548,7 @@ export async function ensureSandboxContainer(params: {
           `Sandbox config changed for ${containerName} (recently used). Recreate to apply: ${hint}`,
         );
       } else {
-        await execDocker(["rm", "-f", containerName], { allowFailure: true });
+        await execDocker(["rm", "-f", containerName], { allowFailure: true, command: cli });
         hasContainer = false;
         running = false;
       }
@@ -495,9 +563,10 @@ export async function ensureSandboxContainer(params: {
       agentWorkspaceDir: params.agentWorkspaceDir,
       scopeKey,
       configHash: expectedHash,
+      cli,
     });
   } else if (!running) {
-    await execDocker(["start", containerName]);
+    await execDocker(["start", containerName], { command: cli });
   }
   await updateRegistry({
     containerName,
@@ -505,6 +574,7 @@ export async function ensureSandboxContainer(params: {
     createdAtMs: now,
     lastUsedAtMs: now,
     image: params.cfg.docker.image,
+    backend: cli,
     configHash: hashMismatch && running ? (currentHash ?? undefined) : expectedHash,
   });
   return containerName;
@@ -0,0 +1,140 @@
+import http from "node:http";
+import net from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { onDiagnosticEvent, type DiagnosticEventPayload } from "../../infra/diagnostic-events.js";
+import type { LookupFn } from "../../infra/net/ssrf.js";
+import { type SandboxEgressProxy, startSandboxEgressProxy } from "./egress-proxy.js";
+
+const lookupFn = (async () => [{ address: "127.0.0.1", family: 4 }]) as unknown as LookupFn;
+
+let upstream: http.Server;
+let upstreamPort = 0;
+let proxy: SandboxEgressProxy;
+
+function proxyAuth(proxyUrl: string): string {
+  const url = new URL(proxyUrl);
+  return `Basic ${Buffer.from(`${url.username}:${url.password}`).toString("base64")}`;
+}
+
+function proxiedGet(url: string, auth?: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host: proxy.host,
+        port: proxy.port,
+        method: "GET",
+        path: url,
+        headers: auth ? { "proxy-authorization": auth } : {},
+      },
+      (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+function connectThroughProxy(target: string, auth: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: proxy.host, port: proxy.port }, () => {
+      socket.write(
+        `CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\nProxy-Authorization: ${auth}\r\n\r\n`,
+      );
+    });
+    socket.setEncoding("utf8");
+    let received = "";
+    socket.on("data", (chunk: string) => {
+      received += chunk;
+      if (received.includes("\r\n\r\n")) {
+        resolve(received.split("\r\n")[0] ?? "");
+        socket.destroy();
+      }
+    });
+    socket.on("error", reject);
+  });
+}
+
+beforeAll(async () => {
+  upstream = http.createServer((req, res) => {
+    res.end(`host=${req.headers.host} auth=${req.headers["proxy-authorization"] ?? "none"}`);
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  upstreamPort = (upstream.address() as net.AddressInfo).port;
+  proxy = await startSandboxEgressProxy({ host: "127.0.0.1", lookupFn });
+});
+
+afterAll(async () => {
+  await proxy.close();
+  await new Promise<void>((resolve) => upstream.close(() => resolve()));
+});
+
+describe("sandbox egress proxy", () => {
+  it("forwards allowlisted hosts and logs every decision", async () => {
+    const events: DiagnosticEventPayload[] = [];
+    const unsubscribe = onDiagnosticEvent((evt) => events.push(evt));
+    const auth = proxyAuth(
+      proxy.register({
+        sessionKey: "agent:main:main",
+        agentId: "main",
+        allow: ["registry.npmjs.org"],
+        // The test upstream lives on loopback.
+        allowPrivateNetwork: true,
+      }),
+    );
+
+    const allowed = await proxiedGet(`http://registry.npmjs.org:${upstreamPort}/left-pad`, auth);
+    expect(allowed).toEqual({
+      status: 200,
+      body: `host=registry.npmjs.org:${upstreamPort} auth=none`,
+    });
+    const denied = await proxiedGet(`http://attacker.example:${upstreamPort}/`, auth);
+    expect(denied.status).toBe(403);
+    expect(await connectThroughProxy(`registry.npmjs.org:${upstreamPort}`, auth)).toBe(
+      "HTTP/1.1 200 Connection Established",
+    );
+    expect(await connectThroughProxy("attacker.example:443", auth)).toBe("HTTP/1.1 403 Forbidden");
+    unsubscribe();
+
+    expect(
+      events
+        .filter((evt) => evt.type === "sandbox.egress")
+        .map((evt) => [evt.sessionKey, evt.method, evt.host, evt.allowed]),
+    ).toEqual([
+      ["agent:main:main", "GET", "registry.npmjs.org", true],
+      ["agent:main:main", "GET", "attacker.example", false],
+      ["agent:main:main", "CONNECT", "registry.npmjs.org", true],
+      ["agent:main:main", "CONNECT", "attacker.example", false],
+    ]);
+  });
+
+  it("keeps private addresses blocked and requires session credentials", async () => {
+    const auth = proxyAuth(
+      proxy.register({
+        sessionKey: "agent:ops:main",
+        allow: ["*.internal.example"],
+        allowPrivateNetwork: false,
+      }),
+    );
+    const privateTarget = await proxiedGet(`http://db.internal.example:${upstreamPort}/`, auth);
+    expect(privateTarget.status).toBe(403);
+    expect(privateTarget.body).toContain("private/internal");
+
+    expect((await proxiedGet(`http://registry.npmjs.org:${upstreamPort}/`)).status).toBe(407);
+    const forged = `Basic ${Buffer.from("sandbox:not-a-token").toString("base64")}`;
+    expect((await proxiedGet(`http://registry.npmjs.org:${upstreamPort}/`, forged)).status).toBe(
+      407,
+    );
+  });
+
+  it("denies everything when the allowlist is empty", async () => {
+    const auth = proxyAuth(
+      proxy.register({ sessionKey: "agent:empty:main", allow: [], allowPrivateNetwork: true }),
+    );
+    const result = await proxiedGet(`http://registry.npmjs.org:${upstreamPort}/`, auth);
+    expect(result).toMatchObject({ status: 403, body: expect.stringContaining("allowlist") });
+  });
+});
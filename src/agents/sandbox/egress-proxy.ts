@@ -0,0 +1,286 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import net from "node:net";
+import type { Duplex } from "node:stream";
+import {
+  type LookupFn,
+  resolvePinnedHostnameWithPolicy,
+  SsrFBlockedError,
+} from "../../infra/net/ssrf.js";
+import { logSandboxEgress } from "../../logging/diagnostic.js";
+
+const PROXY_USER = "sandbox";
+const PROXY_REALM = "openclaw-sandbox-egress";
+const CONNECT_TIMEOUT_MS = 15_000;
+
+/** Who a proxied connection belongs to and what it may reach. */
+export type SandboxEgressClient = {
+  sessionKey: string;
+  agentId?: string;
+  allow: string[];
+  allowPrivateNetwork: boolean;
+};
+
+export type SandboxEgressProxy = {
+  host: string;
+  port: number;
+  /** Registers (or updates) a session and returns the proxy URL carrying its credentials. */
+  register: (client: SandboxEgressClient) => string;
+  close: () => Promise<void>;
+};
+
+type EgressDecision =
+  | { allowed: true; address: string }
+  | { allowed: false; status: number; reason: string };
+
+function formatHostForUrl(host: string): string {
+  return host.includes(":") ? `[${host}]` : host;
+}
+
+function parseConnectTarget(target: string | undefined): { host: string; port: number } | null {
+  const match = /^(?:\[([^\]]+)\]|([^:]+)):(\d+)$/.exec(target?.trim() ?? "");
+  const host = match?.[1] ?? match?.[2];
+  const port = Number(match?.[3]);
+  if (!host || !Number.isInteger(port) || port < 1 || port > 65_535) {
+    return null;
+  }
+  return { host, port };
+}
+
+function readProxyToken(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = /^Basic\s+(\S+)$/i.exec(value?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+  const decoded = Buffer.from(match[1], "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  return separator >= 0 ? decoded.slice(separator + 1) : null;
+}
+
+function writeSocketStatus(socket: Duplex, status: number, message: string, extra = ""): void {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\n${extra}Connection: close\r\n\r\n`);
+}
+
+/**
+ * HTTP proxy for sandboxed commands. HTTPS goes through CONNECT tunnels and
+ * plain HTTP through absolute-form requests; both are checked against the
+ * session's hostname allowlist and the SSRF private-address rules, and every
+ * decision is logged as a `sandbox.egress` diagnostic event.
+ */
+export async function startSandboxEgressProxy(params: {
+  host: string;
+  port?: number;
+  lookupFn?: LookupFn;
+}): Promise<SandboxEgressProxy> {
+  const clientsByToken = new Map<string, SandboxEgressClient>();
+  const tokensBySession = new Map<string, string>();
+  const sockets = new Set<Duplex>();
+
+  const authorize = (header: string | string[] | undefined): SandboxEgressClient | null => {
+    const token = readProxyToken(header);
+    return token ? (clientsByToken.get(token) ?? null) : null;
+  };
+
+  const decide = async (
+    client: SandboxEgressClient,
+    method: string,
+    host: string,
+    port: number,
+  ): Promise<EgressDecision> => {
+    let decision: EgressDecision;
+    if (client.allow.length === 0) {
+      decision = { allowed: false, status: 403, reason: "egress allowlist is empty" };
+    } else {
+      try {
+        const pinned = await resolvePinnedHostnameWithPolicy(host, {
+          lookupFn: params.lookupFn,
+          policy: {
+            hostnameAllowlist: client.allow,
+            allowPrivateNetwork: client.allowPrivateNetwork,
+          },
+        });
+        decision = { allowed: true, address: pinned.addresses[0] };
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        decision = { allowed: false, status: err instanceof SsrFBlockedError ? 403 : 502, reason };
+      }
+    }
+    logSandboxEgress({
+      sessionKey: client.sessionKey,
+      agentId: client.agentId,
+      method,
+      host,
+      port,
+      allowed: decision.allowed,
+      reason: decision.allowed ? undefined : decision.reason,
+    });
+    return decision;
+  };
+
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      let target: URL;
+      try {
+        target = new URL(req.url ?? "");
+      } catch {
+        res.writeHead(400).end("Proxy requests must use an absolute http:// URL.\n");
+        return;
+      }
+      if (target.protocol !== "http:") {
+        res.writeHead(400).end("Use CONNECT for HTTPS.\n");
+        return;
+      }
+      const client = authorize(req.headers["proxy-authorization"]);
+      if (!client) {
+        res
+          .writeHead(407, { "Proxy-Authenticate": `Basic realm="${PROXY_REALM}"` })
+          .end("Proxy authentication required.\n");
+        return;
+      }
+      const host = target.hostname.replace(/^\[|\]$/g, "");
+      const port = Number(target.port || 80);
+      const decision = await decide(client, req.method ?? "GET", host, port);
+      if (!decision.allowed) {
+        res.writeHead(decision.status).end(`Egress denied: ${decision.reason}\n`);
+        return;
+      }
+      const headers = { ...req.headers };
+      delete headers["proxy-authorization"];
+      delete headers["proxy-connection"];
+      const upstream = http.request(
+        {
+          host: decision.address,
+          port,
+          method: req.method,
+          path: `${target.pathname}${target.search}`,
+          headers: { ...headers, host: target.host },
+          timeout: CONNECT_TIMEOUT_MS,
+        },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+          upstreamRes.pipe(res);
+        },
+      );
+      upstream.on("timeout", () => upstream.destroy(new Error("upstream timeout")));
+      upstream.on("error", (err) => {
+        if (!res.headersSent) {
+          res.writeHead(502).end(`Upstream error: ${err.message}\n`);
+        } else {
+          res.destroy();
+        }
+      });
+      req.pipe(upstream);
+    })();
+  });
+
+  server.on("connect", (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+    void (async () => {
+      const target = parseConnectTarget(req.url);
+      if (!target) {
+        writeSocketStatus(socket, 400, "Bad Request");
+        return;
+      }
+      const client = authorize(req.headers["proxy-authorization"]);
+      if (!client) {
+        writeSocketStatus(
+          socket,
+          407,
+          "Proxy Authentication Required",
+          `Proxy-Authenticate: Basic realm="${PROXY_REALM}"\r\n`,
+        );
+        return;
+      }
+      const decision = await decide(client, "CONNECT", target.host, target.port);
+      if (!decision.allowed) {
+        writeSocketStatus(
+          socket,
+          decision.status,
+          decision.status === 403 ? "Forbidden" : "Bad Gateway",
+        );
+        return;
+      }
+      const upstream = net.connect({ host: decision.address, port: target.port });
+      upstream.setTimeout(CONNECT_TIMEOUT_MS, () => upstream.destroy());
+      upstream.once("connect", () => {
+        upstream.setTimeout(0);
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        if (head.length > 0) {
+          upstream.write(head);
+        }
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+      upstream.on("error", () => {
+        if (upstream.connecting) {
+          writeSocketStatus(socket, 502, "Bad Gateway");
+        } else {
+          socket.destroy();
+        }
+      });
+      upstream.on("close", () => socket.destroy());
+      socket.on("close", () => upstream.destroy());
+    })();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(params.port ?? 0, params.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : (params.port ?? 0);
+
+  return {
+    host: params.host,
+    port,
+    register: (client) => {
+      let token = tokensBySession.get(client.sessionKey);
+      if (!token) {
+        token = crypto.randomBytes(18).toString("base64url");
+        tokensBySession.set(client.sessionKey, token);
+      }
+      clientsByToken.set(token, client);
+      return `http://${PROXY_USER}:${token}@${formatHostForUrl(params.host)}:${port}`;
+    },
+    close: async () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+const proxies = new Map<string, Promise<SandboxEgressProxy>>();
+
+/** One proxy per listen address, shared by every sandbox on that network. */
+export async function ensureSandboxEgressProxy(params: {
+  host: string;
+  port: number;
+}): Promise<SandboxEgressProxy> {
+  const key = `${params.host}:${params.port}`;
+  let proxy = proxies.get(key);
+  if (!proxy) {
+    proxy = startSandboxEgressProxy(params);
+    proxies.set(key, proxy);
+    proxy.catch(() => proxies.delete(key));
+  }
+  return await proxy;
+}
+
+/** Environment that points common HTTP clients (curl, npm, pip, git) at the proxy. */
+export function buildSandboxEgressEnv(proxyUrl: string): Record<string, string> {
+  return {
+    HTTP_PROXY: proxyUrl,
+    HTTPS_PROXY: proxyUrl,
+    http_proxy: proxyUrl,
+    https_proxy: proxyUrl,
+  };
+}
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import { openBoundaryFile } from "../../infra/boundary-file-read.js";
 import { PATH_ALIAS_POLICIES, type PathAliasPolicy } from "../../infra/path-alias-guards.js";
+import { resolveSandboxBackend } from "./backend.js";
 import { execDockerRaw, type ExecDockerRawResult } from "./docker.js";
 import {
   buildSandboxFsMounts,
@@ -226,19 +227,12 @@ class SandboxFsBridgeImpl implements SandboxFsBridge {
     script: string,
     options: RunCommandOptions = {},
   ): Promise<ExecDockerRawResult> {
-    const dockerArgs = [
-      "exec",
-      "-i",
-      this.sandbox.containerName,
-      "sh",
-      "-c",
-      script,
-      "moltbot-sandbox-fs",
-    ];
-    if (options.args?.length) {
-      dockerArgs.push(...options.args);
-    }
-    return execDockerRaw(dockerArgs, {
+    const { command, args } = resolveSandboxBackend(this.sandbox.backend).buildCommand(
+      this.sandbox,
+      { argv: ["sh", "-c", script, "moltbot-sandbox-fs", ...(options.args ?? [])] },
+    );
+    return execDockerRaw(args, {
+      command,
       input: options.stdin,
       allowFailure: options.allowFailure,
       signal: options.signal,
@@ -1,8 +1,11 @@
 import { stopBrowserBridgeServer } from "../../browser/bridge-server.js";
 import { loadConfig } from "../../config/config.js";
+import type { SandboxBackendId } from "../../config/types.sandbox.js";
+import { resolveSandboxBackend } from "./backend.js";
 import { BROWSER_BRIDGES } from "./browser-bridges.js";
+import { BWRAP_SANDBOX_IMAGE } from "./bwrap.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
-import { dockerContainerState, execDocker } from "./docker.js";
+import { execDocker } from "./docker.js";
 import {
   readBrowserRegistry,
   readRegistry,
@@ -13,48 +16,41 @@ import {
 } from "./registry.js";
 import { resolveSandboxAgentId } from "./shared.js";
 
-export type SandboxContainerInfo = SandboxRegistryEntry & {
+type SandboxItemStatus = {
+  backend: SandboxBackendId;
   running: boolean;
   imageMatch: boolean;
 };
 
-export type SandboxBrowserInfo = SandboxBrowserRegistryEntry & {
-  running: boolean;
-  imageMatch: boolean;
-};
+export type SandboxContainerInfo = SandboxRegistryEntry & SandboxItemStatus;
+
+export type SandboxBrowserInfo = SandboxBrowserRegistryEntry & SandboxItemStatus;
 
 async function listSandboxRegistryItems<
-  TEntry extends { containerName: string; image: string; sessionKey: string },
+  TEntry extends {
+    containerName: string;
+    image: string;
+    sessionKey: string;
+    backend?: SandboxBackendId;
+  },
 >(params: {
   read: () => Promise<{ entries: TEntry[] }>;
   resolveConfiguredImage: (agentId?: string) => string;
-}): Promise<Array<TEntry & { running: boolean; imageMatch: boolean }>> {
+}): Promise<Array<TEntry & SandboxItemStatus>> {
   const registry = await params.read();
-  const results: Array<TEntry & { running: boolean; imageMatch: boolean }> = [];
+  const results: Array<TEntry & SandboxItemStatus> = [];
 
   for (const entry of registry.entries) {
-    const state = await dockerContainerState(entry.containerName);
-    // Get actual image from container.
-    let actualImage = entry.image;
-    if (state.exists) {
-      try {
-        const result = await execDocker(
-          ["inspect", "-f", "{{.Config.Image}}", entry.containerName],
-          { allowFailure: true },
-        );
-        if (result.code === 0) {
-          actualImage = result.stdout.trim();
-        }
-      } catch {
-        // ignore
-      }
-    }
+    const backend = resolveSandboxBackend(entry.backend);
+    const status = await backend.status(entry.containerName);
+    const actualImage = status.image ?? entry.image;
     const agentId = resolveSandboxAgentId(entry.sessionKey);
     const configuredImage = params.resolveConfiguredImage(agentId);
     results.push({
       ...entry,
+      backend: backend.id,
       image: actualImage,
-      running: state.running,
+      running: status.running,
       imageMatch: actualImage === configuredImage,
     });
   }
@@ -66,7 +62,10 @@ export async function listSandboxContainers(): Promise<SandboxContainerInfo[]> {
   const config = loadConfig();
   return listSandboxRegistryItems<SandboxRegistryEntry>({
     read: readRegistry,
-    resolveConfiguredImage: (agentId) => resolveSandboxConfigForAgent(config, agentId).docker.image,
+    resolveConfiguredImage: (agentId) => {
+      const sandboxCfg = resolveSandboxConfigForAgent(config, agentId);
+      return sandboxCfg.backend === "bwrap" ? BWRAP_SANDBOX_IMAGE : sandboxCfg.docker.image;
+    },
   });
 }
 
@@ -80,8 +79,10 @@ export async function listSandboxBrowsers(): Promise<SandboxBrowserInfo[]> {
 }
 
 export async function removeSandboxContainer(containerName: string): Promise<void> {
+  const registry = await readRegistry();
+  const entry = registry.entries.find((item) => item.containerName === containerName);
   try {
-    await execDocker(["rm", "-f", containerName], { allowFailure: true });
+    await resolveSandboxBackend(entry?.backend).remove(containerName);
   } catch {
     // ignore removal failures
   }
@@ -1,5 +1,6 @@
 import { stopBrowserBridgeServer } from "../../browser/bridge-server.js";
 import { defaultRuntime } from "../../runtime.js";
+import { resolveSandboxBackend } from "./backend.js";
 import { BROWSER_BRIDGES } from "./browser-bridges.js";
 import { dockerContainerState, execDocker } from "./docker.js";
 import {
@@ -16,7 +17,7 @@ let lastPruneAtMs = 0;
 
 type PruneableRegistryEntry = Pick<
   SandboxRegistryEntry,
-  "containerName" | "createdAtMs" | "lastUsedAtMs"
+  "containerName" | "createdAtMs" | "lastUsedAtMs" | "backend"
 >;
 
 function shouldPruneSandboxEntry(cfg: SandboxConfig, now: number, entry: PruneableRegistryEntry) {
@@ -49,9 +50,7 @@ async function pruneSandboxRegistryEntries<TEntry extends PruneableRegistryEntry
       continue;
     }
     try {
-      await execDocker(["rm", "-f", entry.containerName], {
-        allowFailure: true,
-      });
+      await resolveSandboxBackend(entry.backend).remove(entry.containerName);
     } catch {
       // ignore prune failures
     } finally {
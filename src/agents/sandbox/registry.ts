@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { SandboxBackendId } from "../../config/types.sandbox.js";
 import { acquireSessionWriteLock } from "../session-write-lock.js";
 import {
   SANDBOX_BROWSER_REGISTRY_PATH,
@@ -14,6 +15,8 @@ export type SandboxRegistryEntry = {
   createdAtMs: number;
   lastUsedAtMs: number;
   image: string;
+  /** Runtime that owns the entry; entries written before backends existed are docker. */
+  backend?: SandboxBackendId;
   configHash?: string;
 };
 
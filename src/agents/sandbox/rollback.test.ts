@@ -0,0 +1,62 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+
+const { TEST_ROOT } = vi.hoisted(() => {
+  const path = require("node:path");
+  const { mkdtempSync } = require("node:fs");
+  const { tmpdir } = require("node:os");
+  return { TEST_ROOT: mkdtempSync(path.join(tmpdir(), "openclaw-sandbox-rollback-")) };
+});
+
+vi.mock("./constants.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./constants.js")>()),
+  SANDBOX_SNAPSHOTS_DIR: path.join(TEST_ROOT, "snapshots"),
+}));
+
+vi.mock("./context.js", () => ({
+  ensureSandboxWorkspaceForSession: async () => ({
+    workspaceDir: path.join(TEST_ROOT, "workspace"),
+    containerWorkdir: "/workspace",
+  }),
+}));
+
+import { rollbackSandboxSession } from "./rollback.js";
+
+function sandboxConfig(snapshotsEnabled?: boolean): OpenClawConfig {
+  return {
+    agents: {
+      defaults: {
+        sandbox: {
+          mode: "all",
+          ...(snapshotsEnabled === undefined ? {} : { snapshots: { enabled: snapshotsEnabled } }),
+        },
+      },
+    },
+  } as OpenClawConfig;
+}
+
+afterAll(async () => {
+  await fs.rm(TEST_ROOT, { recursive: true, force: true });
+});
+
+describe("rollbackSandboxSession", () => {
+  it("explains how to enable snapshots when they are off", async () => {
+    await expect(
+      rollbackSandboxSession({ config: sandboxConfig(), sessionKey: "agent:main:main", steps: 1 }),
+    ).rejects.toThrow(
+      "Turn snapshots are off, so there is nothing to roll back. Set agents.defaults.sandbox.snapshots.enabled",
+    );
+  });
+
+  it("reports missing snapshots when they are on", async () => {
+    await expect(
+      rollbackSandboxSession({
+        config: sandboxConfig(true),
+        sessionKey: "agent:main:main",
+        steps: 1,
+      }),
+    ).rejects.toThrow("No workspace snapshots recorded yet.");
+  });
+});
@@ -0,0 +1,89 @@
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import type { OpenClawConfig } from "../../config/config.js";
+import { emitSessionTranscriptUpdate } from "../../sessions/transcript-events.js";
+import { resolveSandboxConfigForAgent } from "./config.js";
+import { ensureSandboxWorkspaceForSession } from "./context.js";
+import { resolveSandboxRuntimeStatus } from "./runtime-status.js";
+import {
+  listSandboxWorkspaceSnapshots,
+  rollbackSandboxWorkspace,
+  type SandboxWorkspaceRollback,
+} from "./snapshots.js";
+
+export const SANDBOX_ROLLBACK_CUSTOM_TYPE = "openclaw:sandbox-rollback";
+
+export type SandboxSessionRollback = SandboxWorkspaceRollback & {
+  workspaceDir: string;
+  /** Transcript entry recording the rollback, when a session file was given. */
+  transcriptEntryId?: string;
+};
+
+function formatRollbackNote(rollback: SandboxWorkspaceRollback): string {
+  const turns = rollback.turns === 1 ? "the last turn" : `the last ${rollback.turns} turns`;
+  const at = new Date(rollback.snapshot.createdAtMs).toISOString();
+  return (
+    `Sandbox workspace rolled back to its state before ${turns} (snapshot from ${at}). ` +
+    "File changes made since then are gone."
+  );
+}
+
+/**
+ * Restores a session's sandbox workspace to before the Nth previous turn and
+ * notes the rollback in the transcript so the model knows its edits were undone.
+ * Callers stop any active run for the session first.
+ */
+export async function rollbackSandboxSession(params: {
+  config: OpenClawConfig;
+  sessionKey: string;
+  /** Agent workspace the session runs in (used for `workspaceAccess: "rw"`). */
+  workspaceDir?: string;
+  steps: number;
+  sessionFile?: string;
+}): Promise<SandboxSessionRollback> {
+  const workspace = await ensureSandboxWorkspaceForSession({
+    config: params.config,
+    sessionKey: params.sessionKey,
+    workspaceDir: params.workspaceDir,
+  });
+  if (!workspace) {
+    throw new Error("This session is not sandboxed, so there are no workspace snapshots.");
+  }
+  // Snapshots are opt-in; say how to turn them on instead of "no snapshots recorded".
+  const { agentId } = resolveSandboxRuntimeStatus({
+    cfg: params.config,
+    sessionKey: params.sessionKey,
+  });
+  if (
+    !resolveSandboxConfigForAgent(params.config, agentId).snapshots.enabled &&
+    (await listSandboxWorkspaceSnapshots(workspace.workspaceDir)).length === 0
+  ) {
+    throw new Error(
+      "Turn snapshots are off, so there is nothing to roll back. Set " +
+        "agents.defaults.sandbox.snapshots.enabled (or the agent's sandbox.snapshots.enabled) " +
+        "to true; turns that start after that can be rolled back.",
+    );
+  }
+  const rollback = await rollbackSandboxWorkspace({
+    workspaceDir: workspace.workspaceDir,
+    steps: params.steps,
+  });
+
+  let transcriptEntryId: string | undefined;
+  if (params.sessionFile) {
+    const sessionManager = SessionManager.open(params.sessionFile);
+    transcriptEntryId = sessionManager.appendCustomMessageEntry(
+      SANDBOX_ROLLBACK_CUSTOM_TYPE,
+      formatRollbackNote(rollback),
+      true,
+      {
+        snapshotId: rollback.snapshot.id,
+        runId: rollback.snapshot.runId,
+        turns: rollback.turns,
+        snapshotCreatedAt: rollback.snapshot.createdAtMs,
+      },
+    );
+    emitSessionTranscriptUpdate(params.sessionFile);
+  }
+
+  return { ...rollback, workspaceDir: workspace.workspaceDir, transcriptEntryId };
+}
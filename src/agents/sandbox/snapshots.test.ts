@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const { TEST_ROOT } = vi.hoisted(() => {
+  const path = require("node:path");
+  const { mkdtempSync } = require("node:fs");
+  const { tmpdir } = require("node:os");
+  return { TEST_ROOT: mkdtempSync(path.join(tmpdir(), "openclaw-sandbox-snapshots-")) };
+});
+
+vi.mock("./constants.js", () => ({
+  SANDBOX_SNAPSHOTS_DIR: path.join(TEST_ROOT, "snapshots"),
+}));
+
+import {
+  captureSandboxWorkspaceSnapshot,
+  listSandboxWorkspaceSnapshots,
+  resolveSandboxSnapshotsDir,
+  rollbackSandboxWorkspace,
+} from "./snapshots.js";
+import type { SandboxSnapshotConfig } from "./types.js";
+
+let workspaceCounter = 0;
+
+async function makeWorkspace(files: Record<string, string>): Promise<string> {
+  workspaceCounter += 1;
+  const dir = path.join(TEST_ROOT, `workspace-${workspaceCounter}`);
+  for (const [rel, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+    await fs.writeFile(path.join(dir, rel), content, "utf-8");
+  }
+  return dir;
+}
+
+async function readWorkspace(dir: string): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isFile()) {
+      const full = path.join(entry.parentPath, entry.name);
+      files[path.relative(dir, full)] = await fs.readFile(full, "utf-8");
+    }
+  }
+  return files;
+}
+
+function snapshotConfig(overrides?: Partial<SandboxSnapshotConfig>): SandboxSnapshotConfig {
+  return { enabled: true, keep: 10, maxBytes: 1024 * 1024, method: "auto", ...overrides };
+}
+
+afterAll(async () => {
+  await fs.rm(TEST_ROOT, { recursive: true, force: true });
+});
+
+describe("sandbox workspace snapshots", () => {
+  it.each(["clone", "tar", "auto"] as const)(
+    "restores the workspace from before the last turn (%s)",
+    async (method) => {
+      const workspaceDir = await makeWorkspace({ "notes.md": "v1", "src/app.ts": "one" });
+      const config = snapshotConfig({ method });
+
+      const first = await captureSandboxWorkspaceSnapshot({
+        workspaceDir,
+        sessionKey: "agent:main:main",
+        runId: "run-1",
+        config,
+      });
+      expect(first.storage).toBeDefined();
+      await fs.writeFile(path.join(workspaceDir, "notes.md"), "trashed", "utf-8");
+      await fs.rm(path.join(workspaceDir, "src"), { recursive: true });
+      await fs.writeFile(path.join(workspaceDir, "junk.txt"), "junk", "utf-8");
+
+      const rollback = await rollbackSandboxWorkspace({ workspaceDir, steps: 1 });
+      expect(rollback.snapshot.runId).toBe("run-1");
+      expect(await readWorkspace(workspaceDir)).toEqual({
+        "notes.md": "v1",
+        [path.join("src", "app.ts")]: "one",
+      });
+      expect(await listSandboxWorkspaceSnapshots(workspaceDir)).toEqual([]);
+    },
+  );
+
+  it("reuses snapshots for retries and unchanged workspaces", async () => {
+    const workspaceDir = await makeWorkspace({ "a.txt": "a" });
+    const config = snapshotConfig({ method: "clone" });
+    const capture = (runId: string) =>
+      captureSandboxWorkspaceSnapshot({ workspaceDir, sessionKey: "s", runId, config });
+
+    const first = await capture("run-1");
+    expect(await capture("run-1")).toEqual(first);
+    const second = await capture("run-2");
+    expect(second.id).not.toBe(first.id);
+    expect(second.dataId).toBe(first.dataId);
+
+    await fs.writeFile(path.join(workspaceDir, "a.txt"), "changed", "utf-8");
+    const third = await capture("run-3");
+    expect(third.dataId).toBe(third.id);
+    expect((await listSandboxWorkspaceSnapshots(workspaceDir)).map((entry) => entry.runId)).toEqual(
+      ["run-3", "run-2", "run-1"],
+    );
+  });
+
+  it("rolls back several turns and prunes to the configured count", async () => {
+    const workspaceDir = await makeWorkspace({ "state.txt": "0" });
+    const config = snapshotConfig({ method: "tar", keep: 3 });
+    for (let turn = 1; turn <= 4; turn += 1) {
+      await captureSandboxWorkspaceSnapshot({
+        workspaceDir,
+        sessionKey: "s",
+        runId: `run-${turn}`,
+        config,
+      });
+      await fs.writeFile(path.join(workspaceDir, "state.txt"), String(turn), "utf-8");
+    }
+    expect(await listSandboxWorkspaceSnapshots(workspaceDir)).toHaveLength(3);
+
+    await expect(rollbackSandboxWorkspace({ workspaceDir, steps: 4 })).rejects.toThrow(
+      "Only 3 turn snapshots available.",
+    );
+    const rollback = await rollbackSandboxWorkspace({ workspaceDir, steps: 2 });
+    expect(rollback).toMatchObject({ turns: 2, snapshot: { runId: "run-3" } });
+    expect(await readWorkspace(workspaceDir)).toEqual({ "state.txt": "2" });
+    expect((await listSandboxWorkspaceSnapshots(workspaceDir)).map((entry) => entry.runId)).toEqual(
+      ["run-2"],
+    );
+  });
+
+  it("leaves the workspace untouched when the restore fails", async () => {
+    const workspaceDir = await makeWorkspace({ "state.txt": "before" });
+    const entry = await captureSandboxWorkspaceSnapshot({
+      workspaceDir,
+      sessionKey: "s",
+      runId: "run-1",
+      config: snapshotConfig({ method: "tar" }),
+    });
+    await fs.writeFile(
+      path.join(resolveSandboxSnapshotsDir(workspaceDir), entry.dataId ?? "", "workspace.tar"),
+      "not a tar archive",
+      "utf-8",
+    );
+    await fs.writeFile(path.join(workspaceDir, "state.txt"), "after", "utf-8");
+
+    await expect(rollbackSandboxWorkspace({ workspaceDir, steps: 1 })).rejects.toThrow();
+    expect(await readWorkspace(workspaceDir)).toEqual({ "state.txt": "after" });
+    expect(await listSandboxWorkspaceSnapshots(workspaceDir)).toHaveLength(1);
+    const siblings = await fs.readdir(path.dirname(workspaceDir));
+    expect(siblings.filter((name) => name.includes(".rollback-"))).toEqual([]);
+  });
+
+  it("skips workspaces over maxBytes and refuses to roll back across them", async () => {
+    const workspaceDir = await makeWorkspace({ "big.bin": "x".repeat(64) });
+    const entry = await captureSandboxWorkspaceSnapshot({
+      workspaceDir,
+      sessionKey: "s",
+      runId: "run-1",
+      config: snapshotConfig({ maxBytes: 16 }),
+    });
+    expect(entry).toMatchObject({ skipped: "too-large", bytes: 64 });
+    expect(entry.dataId).toBeUndefined();
+    await expect(rollbackSandboxWorkspace({ workspaceDir, steps: 1 })).rejects.toThrow(
+      "not snapshotted",
+    );
+    expect(await readWorkspace(workspaceDir)).toEqual({ "big.bin": "x".repeat(64) });
+  });
+});
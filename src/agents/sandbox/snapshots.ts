@@ -0,0 +1,360 @@
+import crypto from "node:crypto";
+import { constants as fsConstants } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../../infra/json-files.js";
+import { runExec } from "../../process/exec.js";
+import { SANDBOX_SNAPSHOTS_DIR } from "./constants.js";
+import { hashTextSha256 } from "./hash.js";
+import type { SandboxSnapshotConfig } from "./types.js";
+
+export type SandboxSnapshotStorage = "clone" | "tar";
+
+export type SandboxSnapshotEntry = {
+  id: string;
+  /** Agent run (turn) the snapshot was taken for. */
+  runId: string;
+  sessionKey: string;
+  createdAtMs: number;
+  files: number;
+  bytes: number;
+  /** Absent when the turn was not snapshotted (see `skipped`). */
+  storage?: SandboxSnapshotStorage;
+  /** Snapshot directory holding the data; unchanged workspaces share an earlier one. */
+  dataId?: string;
+  fingerprint?: string;
+  skipped?: "too-large";
+};
+
+type SandboxSnapshotIndex = {
+  workspaceDir: string;
+  /** Oldest first. */
+  entries: SandboxSnapshotEntry[];
+};
+
+type WorkspaceItem = {
+  rel: string;
+  kind: "dir" | "file" | "symlink";
+  size: number;
+  mtimeMs: number;
+  mode: number;
+};
+
+const TAR_ARCHIVE_NAME = "workspace.tar";
+const CLONE_DATA_DIR = "files";
+const TAR_TIMEOUT_MS = 5 * 60_000;
+// Errors that mean the filesystem cannot reflink, as opposed to a real copy failure.
+const CLONE_UNSUPPORTED_CODES = new Set(["ENOTSUP", "EOPNOTSUPP", "EXDEV", "EINVAL", "ENOSYS"]);
+
+const workspaceLocks = new Map<string, ReturnType<typeof createAsyncLock>>();
+const cloneUnsupported = new Set<string>();
+
+function withWorkspaceLock<T>(workspaceDir: string, fn: () => Promise<T>): Promise<T> {
+  let lock = workspaceLocks.get(workspaceDir);
+  if (!lock) {
+    lock = createAsyncLock();
+    workspaceLocks.set(workspaceDir, lock);
+  }
+  return lock(fn);
+}
+
+export function resolveSandboxSnapshotsDir(workspaceDir: string): string {
+  return path.join(SANDBOX_SNAPSHOTS_DIR, hashTextSha256(path.resolve(workspaceDir)).slice(0, 16));
+}
+
+function resolveIndexPath(workspaceDir: string): string {
+  return path.join(resolveSandboxSnapshotsDir(workspaceDir), "index.json");
+}
+
+async function readIndex(workspaceDir: string): Promise<SandboxSnapshotIndex> {
+  const parsed = await readJsonFile<SandboxSnapshotIndex>(resolveIndexPath(workspaceDir));
+  return {
+    workspaceDir,
+    entries: Array.isArray(parsed?.entries) ? parsed.entries : [],
+  };
+}
+
+async function walkWorkspace(root: string): Promise<WorkspaceItem[]> {
+  const items: WorkspaceItem[] = [];
+  const visit = async (rel: string) => {
+    const dirents = await fs.readdir(path.join(root, rel), { withFileTypes: true });
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+    for (const dirent of dirents) {
+      const childRel = rel ? path.join(rel, dirent.name) : dirent.name;
+      const kind = dirent.isDirectory()
+        ? "dir"
+        : dirent.isFile()
+          ? "file"
+          : dirent.isSymbolicLink()
+            ? "symlink"
+            : null;
+      // Sockets and FIFOs cannot be restored meaningfully; leave them out.
+      if (!kind) {
+        continue;
+      }
+      const stat = await fs.lstat(path.join(root, childRel));
+      items.push({
+        rel: childRel,
+        kind,
+        size: kind === "file" ? stat.size : 0,
+        mtimeMs: Math.trunc(stat.mtimeMs),
+        mode: stat.mode & 0o7777,
+      });
+      if (kind === "dir") {
+        await visit(childRel);
+      }
+    }
+  };
+  await visit("");
+  return items;
+}
+
+function fingerprintWorkspace(items: WorkspaceItem[]): string {
+  const lines = items.map((item) =>
+    [item.rel, item.kind, item.size, item.mtimeMs, item.mode.toString(8)].join("\t"),
+  );
+  return hashTextSha256(lines.join("\n"));
+}
+
+async function copyItems(params: {
+  items: WorkspaceItem[];
+  from: string;
+  to: string;
+  copyMode: number;
+}): Promise<void> {
+  await fs.mkdir(params.to, { recursive: true });
+  for (const item of params.items) {
+    const src = path.join(params.from, item.rel);
+    const dest = path.join(params.to, item.rel);
+    if (item.kind === "dir") {
+      await fs.mkdir(dest, { recursive: true, mode: item.mode });
+    } else if (item.kind === "symlink") {
+      await fs.symlink(await fs.readlink(src), dest);
+    } else {
+      await fs.copyFile(src, dest, params.copyMode);
+    }
+  }
+}
+
+async function writeSnapshotData(params: {
+  workspaceDir: string;
+  dataDir: string;
+  items: WorkspaceItem[];
+  method: SandboxSnapshotConfig["method"];
+}): Promise<SandboxSnapshotStorage> {
+  const { workspaceDir, dataDir, items, method } = params;
+  const cloneDir = path.join(dataDir, CLONE_DATA_DIR);
+  if (method === "clone") {
+    // FICLONE reflinks where supported and quietly falls back to a full copy.
+    await copyItems({
+      items,
+      from: workspaceDir,
+      to: cloneDir,
+      copyMode: fsConstants.COPYFILE_FICLONE,
+    });
+    return "clone";
+  }
+  if (method === "auto" && !cloneUnsupported.has(workspaceDir)) {
+    try {
+      await copyItems({
+        items,
+        from: workspaceDir,
+        to: cloneDir,
+        copyMode: fsConstants.COPYFILE_FICLONE_FORCE,
+      });
+      return "clone";
+    } catch (error) {
+      const code = (error as { code?: string } | null)?.code;
+      if (!code || !CLONE_UNSUPPORTED_CODES.has(code)) {
+        throw error;
+      }
+      // No copy-on-write here (or the state dir is on another filesystem); use tar from now on.
+      cloneUnsupported.add(workspaceDir);
+      await fs.rm(cloneDir, { recursive: true, force: true });
+    }
+  }
+  await fs.mkdir(dataDir, { recursive: true });
+  await runExec("tar", ["-C", workspaceDir, "-cf", path.join(dataDir, TAR_ARCHIVE_NAME), "."], {
+    timeoutMs: TAR_TIMEOUT_MS,
+  });
+  return "tar";
+}
+
+async function pruneSnapshotData(
+  workspaceDir: string,
+  entries: SandboxSnapshotEntry[],
+): Promise<void> {
+  const snapshotsDir = resolveSandboxSnapshotsDir(workspaceDir);
+  const referenced = new Set(entries.map((entry) => entry.dataId).filter(Boolean));
+  const dirents = await fs.readdir(snapshotsDir, { withFileTypes: true }).catch(() => []);
+  for (const dirent of dirents) {
+    if (dirent.isDirectory() && !referenced.has(dirent.name)) {
+      await fs.rm(path.join(snapshotsDir, dirent.name), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Records the workspace state at the start of a turn. Retried attempts of the
+ * same run reuse the first snapshot, and unchanged workspaces share data with
+ * the previous one.
+ */
+export async function captureSandboxWorkspaceSnapshot(params: {
+  workspaceDir: string;
+  sessionKey: string;
+  runId: string;
+  config: SandboxSnapshotConfig;
+  now?: number;
+}): Promise<SandboxSnapshotEntry> {
+  const workspaceDir = path.resolve(params.workspaceDir);
+  return await withWorkspaceLock(workspaceDir, async () => {
+    const index = await readIndex(workspaceDir);
+    const latest = index.entries.at(-1);
+    if (latest?.runId === params.runId) {
+      return latest;
+    }
+
+    const items = await walkWorkspace(workspaceDir);
+    const bytes = items.reduce((total, item) => total + item.size, 0);
+    const createdAtMs = params.now ?? Date.now();
+    const base = {
+      id: `${createdAtMs}-${crypto.randomUUID().slice(0, 8)}`,
+      runId: params.runId,
+      sessionKey: params.sessionKey,
+      createdAtMs,
+      files: items.filter((item) => item.kind !== "dir").length,
+      bytes,
+    };
+
+    let entry: SandboxSnapshotEntry;
+    if (bytes > params.config.maxBytes) {
+      entry = { ...base, skipped: "too-large" };
+    } else {
+      const fingerprint = fingerprintWorkspace(items);
+      const previous = index.entries.findLast((candidate) => candidate.dataId);
+      if (previous?.fingerprint === fingerprint && previous.storage && previous.dataId) {
+        entry = { ...base, fingerprint, storage: previous.storage, dataId: previous.dataId };
+      } else {
+        const dataDir = path.join(resolveSandboxSnapshotsDir(workspaceDir), base.id);
+        try {
+          const storage = await writeSnapshotData({
+            workspaceDir,
+            dataDir,
+            items,
+            method: params.config.method,
+          });
+          entry = { ...base, fingerprint, storage, dataId: base.id };
+        } catch (error) {
+          await fs.rm(dataDir, { recursive: true, force: true });
+          throw error;
+        }
+      }
+    }
+
+    const entries = [...index.entries, entry].slice(-Math.max(1, params.config.keep));
+    await writeJsonAtomic(resolveIndexPath(workspaceDir), { workspaceDir, entries });
+    await pruneSnapshotData(workspaceDir, entries);
+    return entry;
+  });
+}
+
+/** Snapshots for a workspace, newest first (index 0 is the start of the latest turn). */
+export async function listSandboxWorkspaceSnapshots(
+  workspaceDir: string,
+): Promise<SandboxSnapshotEntry[]> {
+  const index = await readIndex(path.resolve(workspaceDir));
+  return index.entries.toReversed();
+}
+
+async function moveDirectoryEntries(from: string, to: string): Promise<void> {
+  for (const name of await fs.readdir(from)) {
+    await fs.rename(path.join(from, name), path.join(to, name));
+  }
+}
+
+/**
+ * Replaces the workspace contents with a fully restored staging directory. The
+ * workspace directory itself stays in place (containers bind-mount it); its old
+ * entries are parked next to it and moved back if the swap fails.
+ */
+async function swapInRestoredWorkspace(workspaceDir: string, stagingDir: string): Promise<void> {
+  const parkedDir = await fs.mkdtemp(`${workspaceDir}.previous-`);
+  try {
+    await moveDirectoryEntries(workspaceDir, parkedDir);
+    await moveDirectoryEntries(stagingDir, workspaceDir);
+  } catch (error) {
+    for (const name of await fs.readdir(workspaceDir)) {
+      await fs.rm(path.join(workspaceDir, name), { recursive: true, force: true });
+    }
+    await moveDirectoryEntries(parkedDir, workspaceDir);
+    await fs.rm(parkedDir, { recursive: true, force: true });
+    throw error;
+  }
+  await fs.rm(parkedDir, { recursive: true, force: true });
+}
+
+export type SandboxWorkspaceRollback = {
+  /** Snapshot the workspace was restored from. */
+  snapshot: SandboxSnapshotEntry;
+  /** Turns undone, including the restored one. */
+  turns: number;
+};
+
+/**
+ * Restores the workspace to how it was before the `steps`-th most recent turn
+ * (1 = the latest turn) and drops that snapshot and every newer one.
+ */
+export async function rollbackSandboxWorkspace(params: {
+  workspaceDir: string;
+  steps: number;
+}): Promise<SandboxWorkspaceRollback> {
+  const workspaceDir = path.resolve(params.workspaceDir);
+  const steps = Math.max(1, Math.floor(params.steps));
+  return await withWorkspaceLock(workspaceDir, async () => {
+    const index = await readIndex(workspaceDir);
+    const targetIndex = index.entries.length - steps;
+    const snapshot = index.entries[targetIndex];
+    if (!snapshot) {
+      const available = index.entries.length;
+      throw new Error(
+        available === 0
+          ? "No workspace snapshots recorded yet."
+          : `Only ${available} turn snapshot${available === 1 ? "" : "s"} available.`,
+      );
+    }
+    if (!snapshot.storage || !snapshot.dataId) {
+      throw new Error(
+        `The workspace was not snapshotted before that turn (${snapshot.skipped ?? "no data"}).`,
+      );
+    }
+
+    const dataDir = path.join(resolveSandboxSnapshotsDir(workspaceDir), snapshot.dataId);
+    await fs.mkdir(workspaceDir, { recursive: true });
+    // Restore next to the workspace (same filesystem, so the swap is renames only)
+    // and leave the workspace untouched unless the restore completes.
+    const stagingDir = await fs.mkdtemp(`${workspaceDir}.rollback-`);
+    try {
+      if (snapshot.storage === "clone") {
+        const cloneDir = path.join(dataDir, CLONE_DATA_DIR);
+        await copyItems({
+          items: await walkWorkspace(cloneDir),
+          from: cloneDir,
+          to: stagingDir,
+          copyMode: fsConstants.COPYFILE_FICLONE,
+        });
+      } else {
+        await runExec("tar", ["-C", stagingDir, "-xf", path.join(dataDir, TAR_ARCHIVE_NAME)], {
+          timeoutMs: TAR_TIMEOUT_MS,
+        });
+      }
+      await swapInRestoredWorkspace(workspaceDir, stagingDir);
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+
+    const entries = index.entries.slice(0, targetIndex);
+    await writeJsonAtomic(resolveIndexPath(workspaceDir), { workspaceDir, entries });
+    await pruneSnapshotData(workspaceDir, entries);
+    return { snapshot, turns: steps };
+  });
+}
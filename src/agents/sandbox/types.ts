@@ -1,6 +1,8 @@
+import type { SandboxBackendId, SandboxSnapshotMethod } from "../../config/types.sandbox.js";
 import type { SandboxFsBridge } from "./fs-bridge.js";
 import type { SandboxDockerConfig } from "./types.docker.js";
 
+export type { SandboxBackendId, SandboxSnapshotMethod } from "../../config/types.sandbox.js";
 export type { SandboxDockerConfig } from "./types.docker.js";
 
 export type SandboxToolPolicy = {
@@ -45,11 +47,31 @@ export type SandboxBrowserConfig = {
   binds?: string[];
 };
 
+export type SandboxBwrapConfig = {
+  command: string;
+  hostRoots: string[];
+};
+
 export type SandboxPruneConfig = {
   idleHours: number;
   maxAgeDays: number;
 };
 
+export type SandboxEgressConfig = {
+  enabled: boolean;
+  allow: string[];
+  allowPrivateNetwork: boolean;
+  network: string;
+  port: number;
+};
+
+export type SandboxSnapshotConfig = {
+  enabled: boolean;
+  keep: number;
+  maxBytes: number;
+  method: SandboxSnapshotMethod;
+};
+
 export type SandboxScope = "session" | "agent" | "shared";
 
 export type SandboxConfig = {
@@ -57,10 +79,14 @@ export type SandboxConfig = {
   scope: SandboxScope;
   workspaceAccess: SandboxWorkspaceAccess;
   workspaceRoot: string;
+  backend: SandboxBackendId;
   docker: SandboxDockerConfig;
+  bwrap: SandboxBwrapConfig;
+  egress: SandboxEgressConfig;
   browser: SandboxBrowserConfig;
   tools: SandboxToolPolicy;
   prune: SandboxPruneConfig;
+  snapshots: SandboxSnapshotConfig;
 };
 
 export type SandboxBrowserContext = {
@@ -69,6 +95,11 @@ export type SandboxBrowserContext = {
   containerName: string;
 };
 
+export type SandboxEgressContext = {
+  /** Proxy URL (with this session's credentials) exported to sandboxed commands. */
+  proxyUrl: string;
+};
+
 export type SandboxContext = {
   enabled: boolean;
   sessionKey: string;
@@ -77,9 +108,16 @@ export type SandboxContext = {
   workspaceAccess: SandboxWorkspaceAccess;
   containerName: string;
   containerWorkdir: string;
+  /** Runtime hosting the sandbox (default: docker). */
+  backend?: SandboxBackendId;
   docker: SandboxDockerConfig;
+  bwrap?: SandboxBwrapConfig;
+  /** Set when HTTP(S) egress goes through the allowlist proxy. */
+  egress?: SandboxEgressContext;
   tools: SandboxToolPolicy;
   browserAllowHostControl: boolean;
+  /** Per-turn workspace snapshot settings (absent: snapshots disabled). */
+  snapshots?: SandboxSnapshotConfig;
   browser?: SandboxBrowserContext;
   fsBridge?: SandboxFsBridge;
 };
@@ -8,6 +8,7 @@ import {
   validateNetworkMode,
   validateSeccompProfile,
   validateApparmorProfile,
+  validateSandboxBackendSupport,
   validateSandboxSecurity,
 } from "./validate-sandbox-security.js";
 
@@ -292,3 +293,57 @@ describe("validateSandboxSecurity", () => {
     ).not.toThrow();
   });
 });
+
+describe("validateSandboxBackendSupport", () => {
+  it("reports capabilities and settings the backend ignores", () => {
+    const podman = validateSandboxBackendSupport({
+      backend: "podman",
+      docker: { network: "bridge", readOnlyRoot: true, memory: "1g" },
+      browserEnabled: true,
+    });
+    expect(podman).toMatchObject({
+      network: "private",
+      readOnlyRoot: true,
+      ignored: ["browser.enabled"],
+    });
+    expect(podman.capabilities.rootless).toBe(true);
+
+    const bwrap = validateSandboxBackendSupport({
+      backend: "bwrap",
+      docker: { network: "bridge", memory: "1g", setupCommand: "apt-get install -y git" },
+      hostRoots: ["/usr", "/etc/resolv.conf", "/etc/ssl/certs"],
+    });
+    expect(bwrap).toMatchObject({
+      network: "host",
+      readOnlyRoot: false,
+      ignored: ["docker.setupCommand", "docker.memory"],
+    });
+  });
+
+  it("rejects bwrap settings it cannot enforce", () => {
+    expect(() =>
+      validateSandboxBackendSupport({
+        backend: "bwrap",
+        docker: { seccompProfile: "/tmp/seccomp.json" },
+      }),
+    ).toThrow(/seccompProfile is not supported by the bwrap backend/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: { network: "isolated-net" } }),
+    ).toThrow(/network "isolated-net" is not supported/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: {}, hostRoots: ["/"] }),
+    ).toThrow(/bwrap host root "\/" is blocked/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: {}, hostRoots: ["/root"] }),
+    ).toThrow(/is blocked/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: {}, hostRoots: ["/etc"] }),
+    ).toThrow(/bwrap host root "\/etc" is blocked/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: {}, hostRoots: ["/etc/shadow"] }),
+    ).toThrow(/is blocked/);
+    expect(() =>
+      validateSandboxBackendSupport({ backend: "bwrap", docker: {}, egressEnabled: true }),
+    ).toThrow(/egress.enabled needs a private network/);
+  });
+});
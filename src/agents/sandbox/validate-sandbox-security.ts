@@ -1,12 +1,18 @@
 /**
- * Sandbox security validation — blocks dangerous Docker configurations.
+ * Sandbox security validation — blocks dangerous Docker configurations and
+ * settings a sandbox backend cannot enforce.
  *
  * Threat model: local-trusted config, but protect against foot-guns and config injection.
  * Enforced at runtime when creating sandbox containers.
  */
 
+import type { SandboxBackendId } from "../../config/types.sandbox.js";
+import {
+  resolveSandboxBackendCapabilities,
+  type SandboxBackendCapabilities,
+} from "./backend-capabilities.js";
 import { splitSandboxBindSpec } from "./bind-spec.js";
-import { SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
+import { SANDBOX_AGENT_WORKSPACE_MOUNT, SANDBOX_BWRAP_ETC_HOST_ROOTS } from "./constants.js";
 import {
   normalizeSandboxHostPath,
   resolveSandboxHostPathViaExistingAncestor,
@@ -341,3 +347,124 @@ export function validateSandboxSecurity(
   validateSeccompProfile(cfg.seccompProfile);
   validateApparmorProfile(cfg.apparmorProfile);
 }
+
+export type SandboxBackendSupportReport = {
+  backend: SandboxBackendId;
+  capabilities: SandboxBackendCapabilities;
+  /** Effective network posture: none, a private namespace, or the host network stack. */
+  network: "none" | "private" | "host";
+  /** Whether the root filesystem is actually read-only with this config. */
+  readOnlyRoot: boolean;
+  /** Configured settings the backend ignores. */
+  ignored: string[];
+};
+
+type SandboxBackendSettings = {
+  network?: string;
+  readOnlyRoot?: boolean;
+  user?: string;
+  setupCommand?: string;
+  pidsLimit?: number;
+  memory?: string | number;
+  memorySwap?: string | number;
+  cpus?: number;
+  ulimits?: Record<string, unknown>;
+  seccompProfile?: string;
+  apparmorProfile?: string;
+  dns?: string[];
+  extraHosts?: string[];
+};
+
+function validateBwrapHostRoots(hostRoots: string[]): void {
+  for (const root of hostRoots) {
+    const trimmed = root.trim();
+    if (!trimmed.startsWith("/")) {
+      throw new Error(`Sandbox security: bwrap host root "${root}" must be an absolute path.`);
+    }
+    const normalized = normalizeHostPath(trimmed);
+    // A few /etc entries are bound read-only on purpose; the rest of /etc (shadow, ssh host
+    // keys, credentials) and everything else on the denylist stays blocked.
+    const blocked = SANDBOX_BWRAP_ETC_HOST_ROOTS.includes(normalized)
+      ? null
+      : getBlockedReasonForSourcePath(normalized);
+    if (blocked) {
+      const blockedPath = "blockedPath" in blocked ? blocked.blockedPath : normalized;
+      throw new Error(
+        `Sandbox security: bwrap host root "${root}" is blocked (covers or targets "${blockedPath}").`,
+      );
+    }
+  }
+}
+
+/**
+ * Checks sandbox settings against what the selected backend can enforce.
+ * Throws when a security setting would be silently dropped; settings that only
+ * tune resources or convenience are reported in `ignored`.
+ */
+export function validateSandboxBackendSupport(params: {
+  backend?: SandboxBackendId;
+  docker: SandboxBackendSettings;
+  browserEnabled?: boolean;
+  hostRoots?: string[];
+  egressEnabled?: boolean;
+}): SandboxBackendSupportReport {
+  const backend = params.backend ?? "docker";
+  const capabilities = resolveSandboxBackendCapabilities(backend);
+  const { docker } = params;
+  const network = docker.network?.trim() || "none";
+
+  if (!capabilities.securityProfiles) {
+    for (const key of ["seccompProfile", "apparmorProfile"] as const) {
+      if (docker[key]?.trim()) {
+        throw new Error(
+          `Sandbox security: docker.${key} is not supported by the ${backend} backend. ` +
+            'Remove it or use the "docker" or "podman" backend.',
+        );
+      }
+    }
+  }
+  if (!capabilities.privateNetworks && network !== "none" && network !== "bridge") {
+    throw new Error(
+      `Sandbox security: network "${network}" is not supported by the ${backend} backend. ` +
+        'Use "none", or "bridge" to share the host network.',
+    );
+  }
+  if (!capabilities.privateNetworks && params.egressEnabled) {
+    throw new Error(
+      `Sandbox security: egress.enabled needs a private network, which the ${backend} backend ` +
+        'cannot provide. Use the "docker" or "podman" backend.',
+    );
+  }
+  if (backend === "bwrap") {
+    validateBwrapHostRoots(params.hostRoots ?? []);
+  }
+
+  const ignored: string[] = [];
+  const flag = (supported: boolean, key: string, configured: boolean) => {
+    if (!supported && configured) {
+      ignored.push(key);
+    }
+  };
+  flag(capabilities.userMapping, "docker.user", Boolean(docker.user?.trim()));
+  flag(
+    capabilities.persistentContainer,
+    "docker.setupCommand",
+    Boolean(docker.setupCommand?.trim()),
+  );
+  flag(capabilities.resourceLimits, "docker.pidsLimit", (docker.pidsLimit ?? 0) > 0);
+  flag(capabilities.resourceLimits, "docker.memory", docker.memory !== undefined);
+  flag(capabilities.resourceLimits, "docker.memorySwap", docker.memorySwap !== undefined);
+  flag(capabilities.resourceLimits, "docker.cpus", (docker.cpus ?? 0) > 0);
+  flag(capabilities.resourceLimits, "docker.ulimits", Object.keys(docker.ulimits ?? {}).length > 0);
+  flag(capabilities.dnsOverrides, "docker.dns", (docker.dns?.length ?? 0) > 0);
+  flag(capabilities.dnsOverrides, "docker.extraHosts", (docker.extraHosts?.length ?? 0) > 0);
+  flag(capabilities.browser, "browser.enabled", params.browserEnabled === true);
+
+  return {
+    backend,
+    capabilities,
+    network: network === "none" ? "none" : capabilities.privateNetworks ? "private" : "host",
+    readOnlyRoot: capabilities.readOnlyRoot && docker.readOnlyRoot === true,
+    ignored,
+  };
+}
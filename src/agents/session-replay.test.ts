@@ -0,0 +1,136 @@
+import type { AssistantMessage, Context, Message } from "@mariozechner/pi-ai";
+import { describe, expect, it } from "vitest";
+import {
+  diffSessionReplayText,
+  replaySessionTurns,
+  splitSessionReplayTurns,
+} from "./session-replay.js";
+
+function user(text: string): Message {
+  return { role: "user", content: text, timestamp: 0 };
+}
+
+function assistant(content: AssistantMessage["content"]): AssistantMessage {
+  return {
+    role: "assistant",
+    content,
+    api: "anthropic-messages",
+    provider: "anthropic",
+    model: "claude-opus-4-6",
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: content.some((block) => block.type === "toolCall") ? "toolUse" : "stop",
+    timestamp: 0,
+  };
+}
+
+function toolResult(toolCallId: string, toolName: string, text: string): Message {
+  return {
+    role: "toolResult",
+    toolCallId,
+    toolName,
+    content: [{ type: "text", text }],
+    isError: false,
+    timestamp: 0,
+  };
+}
+
+const transcript: Message[] = [
+  user("what is in notes.txt?"),
+  assistant([{ type: "toolCall", id: "call-1", name: "read", arguments: { path: "notes.txt" } }]),
+  toolResult("call-1", "read", "buy milk"),
+  assistant([{ type: "text", text: "It says:\nbuy milk" }]),
+  user("thanks"),
+  assistant([{ type: "text", text: "You're welcome!" }]),
+];
+
+describe("session replay", () => {
+  it("splits a transcript into user turns with their history", () => {
+    const turns = splitSessionReplayTurns(transcript);
+    expect(turns.map((turn) => [turn.index, turn.history.length, turn.recorded.length])).toEqual([
+      [1, 0, 3],
+      [2, 4, 1],
+    ]);
+  });
+
+  it("diffs answers line by line", () => {
+    expect(diffSessionReplayText("a\nb\nc", "a\nx\nc")).toEqual([
+      { op: "same", text: "a" },
+      { op: "removed", text: "b" },
+      { op: "added", text: "x" },
+      { op: "same", text: "c" },
+    ]);
+  });
+
+  it("answers replayed tool calls from the recording and diffs the final text", async () => {
+    const contexts: Context[] = [];
+    const replies = [
+      assistant([
+        { type: "toolCall", id: "new-1", name: "read", arguments: { path: "notes.txt" } },
+        { type: "toolCall", id: "new-2", name: "exec", arguments: { command: "ls" } },
+      ]),
+      assistant([{ type: "text", text: "It says:\nbuy oat milk" }]),
+      assistant([{ type: "text", text: "You're welcome!" }]),
+    ];
+    const results = await replaySessionTurns({
+      turns: splitSessionReplayTurns(transcript),
+      systemPrompt: "system",
+      tools: [],
+      complete: async (context) => {
+        contexts.push(structuredClone(context));
+        const reply = replies.shift();
+        if (!reply) {
+          throw new Error("unexpected model call");
+        }
+        return reply;
+      },
+    });
+
+    expect(contexts[1]?.messages.slice(-2)).toMatchObject([
+      { role: "toolResult", toolCallId: "new-1", toolName: "read", isError: false },
+      { role: "toolResult", toolCallId: "new-2", toolName: "exec", isError: true },
+    ]);
+    // Turn 2 starts from the recorded history, not the replayed answer.
+    expect(contexts[2]?.messages).toEqual(transcript.slice(0, 5));
+    expect(results).toMatchObject([
+      {
+        index: 1,
+        changed: true,
+        original: "It says:\nbuy milk",
+        replayed: "It says:\nbuy oat milk",
+        originalToolCalls: ["read"],
+        replayedToolCalls: ["read", "exec"],
+        stubbedToolResults: 1,
+        missingToolResults: ["exec"],
+        diff: [
+          { op: "same", text: "It says:" },
+          { op: "removed", text: "buy milk" },
+          { op: "added", text: "buy oat milk" },
+        ],
+      },
+      { index: 2, changed: false, replayed: "You're welcome!" },
+    ]);
+  });
+
+  it("records model errors per turn and honours the turn range", async () => {
+    const results = await replaySessionTurns({
+      turns: splitSessionReplayTurns(transcript),
+      systemPrompt: "system",
+      tools: [],
+      fromTurn: 2,
+      maxTurns: 1,
+      complete: async () => {
+        throw new Error("rate limited");
+      },
+    });
+    expect(results).toEqual([
+      expect.objectContaining({ index: 2, changed: true, replayed: "", error: "rate limited" }),
+    ]);
+  });
+});
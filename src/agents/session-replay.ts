@@ -0,0 +1,457 @@
+import os from "node:os";
+import type {
+  AssistantMessage,
+  Context,
+  Message,
+  TextContent,
+  Tool,
+  ToolCall,
+  ToolResultMessage,
+} from "@mariozechner/pi-ai";
+import { completeSimple } from "@mariozechner/pi-ai";
+import { convertToLlm, SessionManager } from "@mariozechner/pi-coding-agent";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SessionEntry } from "../config/sessions.js";
+import { getRemoteSkillEligibility } from "../infra/skills-remote.js";
+import { isSubagentSessionKey } from "../routing/session-key.js";
+import { buildTtsSystemPromptHint } from "../tts/tts.js";
+import { resolveAgentDir, resolveAgentWorkspaceDir } from "./agent-scope.js";
+import { resolveBootstrapContextForRun } from "./bootstrap-files.js";
+import { DEFAULT_PROVIDER } from "./defaults.js";
+import { buildModelAliasLines } from "./model-alias-lines.js";
+import { getApiKeyForModel, requireApiKey } from "./model-auth.js";
+import { parseModelRef, resolveDefaultModelForAgent } from "./model-selection.js";
+import { ensureOpenClawModelsJson } from "./models-config.js";
+import { resolveModel } from "./pi-embedded-runner/model.js";
+import { buildEmbeddedSystemPrompt } from "./pi-embedded-runner/system-prompt.js";
+import { createOpenClawCodingTools } from "./pi-tools.js";
+import { buildWorkspaceSkillSnapshot } from "./skills.js";
+import { getSkillsSnapshotVersion } from "./skills/refresh.js";
+import { buildSystemPromptParams } from "./system-prompt-params.js";
+
+const DEFAULT_MAX_TURNS = 20;
+/** Tool-call rounds per turn before the replay gives up on a final answer. */
+const MAX_TOOL_ROUNDS = 12;
+const MISSING_TOOL_RESULT_TEXT =
+  "No recorded result for this tool call; tools are not executed during replay.";
+
+/** One recorded user turn: the prompt, what came back, and the history before it. */
+export type SessionReplayTranscriptTurn = {
+  /** 1-based position among the transcript's user messages. */
+  index: number;
+  history: Message[];
+  user: Message;
+  /** Assistant and tool result messages recorded for this turn. */
+  recorded: Message[];
+};
+
+export type SessionReplayDiffLine = { op: "same" | "removed" | "added"; text: string };
+
+export type SessionReplayTurnResult = {
+  index: number;
+  prompt: string;
+  original: string;
+  replayed: string;
+  changed: boolean;
+  diff: SessionReplayDiffLine[];
+  originalToolCalls: string[];
+  replayedToolCalls: string[];
+  /** Replayed tool calls answered from the recorded transcript. */
+  stubbedToolResults: number;
+  /** Replayed tool calls that had no recorded counterpart. */
+  missingToolResults: string[];
+  error?: string;
+};
+
+export type SessionReplayResult = {
+  sessionKey: string;
+  sessionId?: string;
+  provider: string;
+  model: string;
+  totalTurns: number;
+  changedTurns: number;
+  turns: SessionReplayTurnResult[];
+};
+
+export type SessionReplayCompleteFn = (
+  context: Context,
+  signal?: AbortSignal,
+) => Promise<AssistantMessage>;
+
+function messageText(message: Message | undefined): string {
+  if (!message) {
+    return "";
+  }
+  if (typeof message.content === "string") {
+    return message.content.trim();
+  }
+  return message.content
+    .filter((block): block is TextContent => block.type === "text")
+    .map((block) => block.text)
+    .join("\n")
+    .trim();
+}
+
+function toolCallsOf(message: Message): ToolCall[] {
+  if (message.role !== "assistant") {
+    return [];
+  }
+  return message.content.filter((block): block is ToolCall => block.type === "toolCall");
+}
+
+/** Final assistant text of a turn: the last assistant message that said anything. */
+function finalAssistantText(messages: Message[]): string {
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    const message = messages[i];
+    if (message?.role === "assistant") {
+      const text = messageText(message);
+      if (text) {
+        return text;
+      }
+    }
+  }
+  return "";
+}
+
+/** Splits an LLM-facing transcript into user turns, each with its preceding history. */
+export function splitSessionReplayTurns(messages: Message[]): SessionReplayTranscriptTurn[] {
+  const turns: SessionReplayTranscriptTurn[] = [];
+  messages.forEach((message, position) => {
+    if (message.role === "user") {
+      turns.push({
+        index: turns.length + 1,
+        history: messages.slice(0, position),
+        user: message,
+        recorded: [],
+      });
+      return;
+    }
+    turns.at(-1)?.recorded.push(message);
+  });
+  return turns;
+}
+
+/** Line-level LCS diff between the original and replayed answers. */
+export function diffSessionReplayText(before: string, after: string): SessionReplayDiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const table: number[][] = Array.from({ length: a.length + 1 }, () =>
+    Array.from({ length: b.length + 1 }, () => 0),
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] =
+        a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const diff: SessionReplayDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ op: "same", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      diff.push({ op: "removed", text: a[i] });
+      i += 1;
+    } else {
+      diff.push({ op: "added", text: b[j] });
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) {
+    diff.push({ op: "removed", text: a[i] });
+  }
+  for (; j < b.length; j += 1) {
+    diff.push({ op: "added", text: b[j] });
+  }
+  return diff;
+}
+
+/**
+ * Hands out recorded tool results for replayed tool calls: an exact
+ * name + arguments match first, then the next unused result for that tool.
+ */
+function createRecordedToolResultStubs(recorded: Message[]) {
+  const pending: Array<{ call: ToolCall; result: ToolResultMessage }> = [];
+  const calls = new Map(recorded.flatMap(toolCallsOf).map((call) => [call.id, call]));
+  for (const message of recorded) {
+    if (message.role === "toolResult") {
+      const call = calls.get(message.toolCallId);
+      if (call) {
+        pending.push({ call, result: message });
+      }
+    }
+  }
+  return (call: ToolCall): ToolResultMessage | null => {
+    const args = JSON.stringify(call.arguments ?? {});
+    let index = pending.findIndex(
+      (entry) =>
+        entry.call.name === call.name && JSON.stringify(entry.call.arguments ?? {}) === args,
+    );
+    if (index < 0) {
+      index = pending.findIndex((entry) => entry.call.name === call.name);
+    }
+    if (index < 0) {
+      return null;
+    }
+    const [entry] = pending.splice(index, 1);
+    return { ...entry.result, toolCallId: call.id, toolName: call.name, timestamp: Date.now() };
+  };
+}
+
+/**
+ * Re-runs each selected turn against `complete`, starting from the recorded
+ * history (not the replayed one) so one divergent answer does not cascade
+ * into every later turn. Tool calls are answered from the recorded results.
+ */
+export async function replaySessionTurns(params: {
+  turns: SessionReplayTranscriptTurn[];
+  systemPrompt: string;
+  tools: Tool[];
+  complete: SessionReplayCompleteFn;
+  fromTurn?: number;
+  maxTurns?: number;
+  signal?: AbortSignal;
+}): Promise<SessionReplayTurnResult[]> {
+  const fromTurn = Math.max(1, params.fromTurn ?? 1);
+  const maxTurns = Math.max(1, params.maxTurns ?? DEFAULT_MAX_TURNS);
+  const selected = params.turns.filter((turn) => turn.index >= fromTurn).slice(0, maxTurns);
+  const results: SessionReplayTurnResult[] = [];
+
+  for (const turn of selected) {
+    params.signal?.throwIfAborted();
+    const original = finalAssistantText(turn.recorded);
+    const takeStub = createRecordedToolResultStubs(turn.recorded);
+    const messages: Message[] = [...turn.history, turn.user];
+    const replayedToolCalls: string[] = [];
+    const missingToolResults: string[] = [];
+    let stubbedToolResults = 0;
+    let error: string | undefined;
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round += 1) {
+        const reply = await params.complete(
+          { systemPrompt: params.systemPrompt, messages, tools: params.tools },
+          params.signal,
+        );
+        messages.push(reply);
+        if (reply.stopReason === "error" || reply.stopReason === "aborted") {
+          error = reply.errorMessage ?? `model stopped: ${reply.stopReason}`;
+          break;
+        }
+        const calls = toolCallsOf(reply);
+        if (calls.length === 0) {
+          break;
+        }
+        for (const call of calls) {
+          replayedToolCalls.push(call.name);
+          const stub = takeStub(call);
+          if (stub) {
+            stubbedToolResults += 1;
+            messages.push(stub);
+            continue;
+          }
+          missingToolResults.push(call.name);
+          messages.push({
+            role: "toolResult",
+            toolCallId: call.id,
+            toolName: call.name,
+            content: [{ type: "text", text: MISSING_TOOL_RESULT_TEXT }],
+            isError: true,
+            timestamp: Date.now(),
+          });
+        }
+      }
+    } catch (err) {
+      if (params.signal?.aborted) {
+        throw err;
+      }
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const replayed = finalAssistantText(messages.slice(turn.history.length + 1));
+    results.push({
+      index: turn.index,
+      prompt: messageText(turn.user),
+      original,
+      replayed,
+      changed: original !== replayed,
+      diff: diffSessionReplayText(original, replayed),
+      originalToolCalls: turn.recorded.flatMap(toolCallsOf).map((call) => call.name),
+      replayedToolCalls,
+      stubbedToolResults,
+      missingToolResults,
+      ...(error ? { error } : {}),
+    });
+  }
+  return results;
+}
+
+function buildReplaySystemPrompt(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey: string;
+  sessionEntry?: SessionEntry;
+  workspaceDir: string;
+  provider: string;
+  modelId: string;
+  tools: ReturnType<typeof createOpenClawCodingTools>;
+  contextFiles: Awaited<ReturnType<typeof resolveBootstrapContextForRun>>["contextFiles"];
+}): string {
+  const skillsPrompt = (() => {
+    try {
+      return (
+        buildWorkspaceSkillSnapshot(params.workspaceDir, {
+          config: params.cfg,
+          eligibility: { remote: getRemoteSkillEligibility() },
+          snapshotVersion: getSkillsSnapshotVersion(params.workspaceDir),
+        }).prompt ?? ""
+      );
+    } catch {
+      return "";
+    }
+  })();
+  const defaultModelRef = resolveDefaultModelForAgent({ cfg: params.cfg, agentId: params.agentId });
+  const { runtimeInfo, userTimezone, userTime, userTimeFormat } = buildSystemPromptParams({
+    config: params.cfg,
+    agentId: params.agentId,
+    workspaceDir: params.workspaceDir,
+    cwd: process.cwd(),
+    runtime: {
+      host: os.hostname(),
+      os: `${os.type()} ${os.release()}`,
+      arch: os.arch(),
+      node: process.version,
+      model: `${params.provider}/${params.modelId}`,
+      defaultModel: `${defaultModelRef.provider}/${defaultModelRef.model}`,
+      channel: params.sessionEntry?.lastChannel ?? params.sessionEntry?.channel,
+    },
+  });
+  return buildEmbeddedSystemPrompt({
+    workspaceDir: params.workspaceDir,
+    reasoningTagHint: false,
+    skillsPrompt,
+    ttsHint: buildTtsSystemPromptHint(params.cfg),
+    promptMode: isSubagentSessionKey(params.sessionKey) ? "minimal" : "full",
+    acpEnabled: params.cfg.acp?.enabled !== false,
+    runtimeInfo,
+    tools: params.tools,
+    modelAliasLines: buildModelAliasLines(params.cfg),
+    userTimezone,
+    userTime,
+    userTimeFormat,
+    contextFiles: params.contextFiles,
+    memoryCitationsMode: params.cfg.memory?.citations,
+  });
+}
+
+/**
+ * Replays a stored session transcript turn by turn against `model` (default:
+ * the model recorded on the session). The system prompt is rebuilt from the
+ * agent's current workspace and config; tools are offered to the model but
+ * never executed.
+ */
+export async function replaySession(params: {
+  cfg: OpenClawConfig;
+  sessionKey: string;
+  sessionFile: string;
+  agentId: string;
+  sessionEntry?: SessionEntry;
+  /** `provider/model` to replay against. */
+  model?: string;
+  fromTurn?: number;
+  maxTurns?: number;
+  signal?: AbortSignal;
+  /** Overrides the model call (tests). */
+  complete?: SessionReplayCompleteFn;
+}): Promise<SessionReplayResult> {
+  const { cfg, agentId, sessionEntry } = params;
+  const defaultRef = resolveDefaultModelForAgent({ cfg, agentId });
+  const recordedProvider = sessionEntry?.modelProvider?.trim() || defaultRef.provider;
+  const recordedModel = sessionEntry?.model?.trim();
+  const ref = params.model?.trim()
+    ? parseModelRef(params.model, recordedProvider || DEFAULT_PROVIDER)
+    : { provider: recordedProvider, model: recordedModel || defaultRef.model };
+  if (!ref) {
+    throw new Error(`Invalid model reference: ${params.model}`);
+  }
+
+  const messages = convertToLlm(
+    SessionManager.open(params.sessionFile).buildSessionContext().messages,
+  );
+  const turns = splitSessionReplayTurns(messages);
+
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+  const agentDir = resolveAgentDir(cfg, agentId);
+  const codingTools = (() => {
+    try {
+      return createOpenClawCodingTools({
+        config: cfg,
+        agentId,
+        agentDir,
+        workspaceDir,
+        sessionKey: params.sessionKey,
+        modelProvider: ref.provider,
+        modelId: ref.model,
+      });
+    } catch {
+      return [];
+    }
+  })();
+  const { contextFiles } = await resolveBootstrapContextForRun({
+    workspaceDir,
+    config: cfg,
+    sessionKey: params.sessionKey,
+    sessionId: sessionEntry?.sessionId,
+    agentId,
+  });
+  const systemPrompt = buildReplaySystemPrompt({
+    cfg,
+    agentId,
+    sessionKey: params.sessionKey,
+    sessionEntry,
+    workspaceDir,
+    provider: ref.provider,
+    modelId: ref.model,
+    tools: codingTools,
+    contextFiles,
+  });
+  const tools: Tool[] = codingTools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  }));
+
+  let complete = params.complete;
+  if (!complete) {
+    await ensureOpenClawModelsJson(cfg, agentDir);
+    const resolved = resolveModel(ref.provider, ref.model, agentDir, cfg);
+    const model = resolved.model;
+    if (!model) {
+      throw new Error(resolved.error ?? `Unknown model: ${ref.provider}/${ref.model}`);
+    }
+    const apiKey = requireApiKey(await getApiKeyForModel({ model, cfg, agentDir }), ref.provider);
+    complete = (context, signal) => completeSimple(model, context, { apiKey, signal });
+  }
+
+  const results = await replaySessionTurns({
+    turns,
+    systemPrompt,
+    tools,
+    complete,
+    fromTurn: params.fromTurn,
+    maxTurns: params.maxTurns,
+    signal: params.signal,
+  });
+  return {
+    sessionKey: params.sessionKey,
+    sessionId: sessionEntry?.sessionId,
+    provider: ref.provider,
+    model: ref.model,
+    totalTurns: turns.length,
+    changedTurns: results.filter((turn) => turn.changed).length,
+    turns: results,
+  };
+}
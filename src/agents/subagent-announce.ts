@@ -24,6 +24,7 @@ import {
 import { isDeliverableMessageChannel, isInternalMessageChannel } from "../utils/message-channel.js";
 import {
   buildAnnounceIdFromChildRun,
+  buildAnnounceIdFromGroup,
   buildAnnounceIdempotencyKey,
   resolveQueueAnnounceId,
 } from "./announce-idempotency.js";
@@ -316,7 +317,7 @@ async function readLatestSubagentOutput(sessionKey: string): Promise<string | un
   return undefined;
 }
 
-async function readLatestSubagentOutputWithRetry(params: {
+export async function readLatestSubagentOutputWithRetry(params: {
   sessionKey: string;
   maxWaitMs: number;
 }): Promise<string | undefined> {
@@ -679,7 +680,8 @@ async function maybeQueueSubagentAnnounce(params: {
     queueSettings.mode === "followup" ||
     queueSettings.mode === "collect" ||
     queueSettings.mode === "steer-backlog" ||
-    queueSettings.mode === "interrupt";
+    queueSettings.mode === "interrupt" ||
+    queueSettings.mode === "priority";
   if (isActive && (shouldFollowup || queueSettings.mode === "steer")) {
     const origin = resolveAnnounceOrigin(entry, params.requesterOrigin);
     enqueueAnnounce({
@@ -1380,3 +1382,65 @@ export async function runSubagentAnnounceFlow(params: {
   }
   return didAnnounce;
 }
+
+/**
+ * Announces a settled fan-out group to its requester as one aggregate instead
+ * of one message per member.
+ */
+export async function runSubagentGroupAnnounceFlow(params: {
+  groupId: string;
+  requesterSessionKey: string;
+  requesterOrigin?: DeliveryContext;
+  label?: string;
+  statusLine: string;
+  aggregate: unknown;
+  signal?: AbortSignal;
+}): Promise<boolean> {
+  try {
+    const requesterIsSubagent = getSubagentDepthFromSessionStore(params.requesterSessionKey) >= 1;
+    const requesterOrigin = normalizeDeliveryContext(params.requesterOrigin);
+    let directOrigin = requesterOrigin;
+    if (!requesterIsSubagent) {
+      const { entry } = loadRequesterSessionEntry(params.requesterSessionKey);
+      directOrigin = resolveAnnounceOrigin(entry, requesterOrigin);
+    }
+    const groupLabel = params.label || params.groupId;
+    const replyInstruction = requesterIsSubagent
+      ? `Use this aggregate to continue your task or to report to your parent agent. Keep this internal context private. If no update is needed, reply ONLY: ${SILENT_REPLY_TOKEN}.`
+      : "Every result from this fan-out is in. Use the aggregate to continue the task and send the user-facing update in your normal assistant voice. Keep this internal context private (don't mention system/log/stats/session details).";
+    const triggerMessage = [
+      `[System Message] Subagent group "${groupLabel}" ${params.statusLine}.`,
+      "",
+      "Aggregate (each result was validated against the group result schema):",
+      JSON.stringify(params.aggregate, null, 2),
+      "",
+      replyInstruction,
+    ].join("\n");
+    const announceId = buildAnnounceIdFromGroup({
+      requesterSessionKey: params.requesterSessionKey,
+      groupId: params.groupId,
+    });
+    const delivery = await deliverSubagentAnnouncement({
+      requesterSessionKey: params.requesterSessionKey,
+      announceId,
+      triggerMessage,
+      summaryLine: groupLabel,
+      requesterOrigin,
+      directOrigin,
+      targetRequesterSessionKey: params.requesterSessionKey,
+      requesterIsSubagent,
+      expectsCompletionMessage: false,
+      directIdempotencyKey: buildAnnounceIdempotencyKey(announceId),
+      signal: params.signal,
+    });
+    if (!delivery.delivered && delivery.path === "direct" && delivery.error) {
+      defaultRuntime.error?.(
+        `Subagent group announce failed for group ${params.groupId}: ${delivery.error}`,
+      );
+    }
+    return delivery.delivered;
+  } catch (err) {
+    defaultRuntime.error?.(`Subagent group announce failed: ${String(err)}`);
+    return false;
+  }
+}
@@ -0,0 +1,210 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+const noop = () => {};
+let lifecycleHandler:
+  | ((evt: { stream?: string; runId: string; data?: { phase?: string } }) => void)
+  | undefined;
+const childOutputs = new Map<string, string>();
+
+vi.mock("../gateway/call.js", () => ({
+  callGateway: vi.fn(async (opts: unknown) => {
+    const request = opts as { method?: string; params?: { sessionKey?: string } };
+    if (request.method === "agent.wait") {
+      return new Promise<unknown>(() => undefined);
+    }
+    if (request.method === "agent") {
+      return { runId: `retry:${request.params?.sessionKey}` };
+    }
+    return {};
+  }),
+}));
+
+vi.mock("../infra/agent-events.js", () => ({
+  onAgentEvent: vi.fn((handler: typeof lifecycleHandler) => {
+    lifecycleHandler = handler;
+    return noop;
+  }),
+}));
+
+vi.mock("../config/config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config/config.js")>()),
+  loadConfig: vi.fn(() => ({
+    agents: { defaults: { subagents: { archiveAfterMinutes: 0 } } },
+  })),
+}));
+
+vi.mock("../config/sessions.js", () => ({
+  loadSessionStore: vi.fn(() => ({})),
+  resolveAgentIdFromSessionKey: () => "main",
+  resolveMainSessionKey: () => "agent:main:main",
+  resolveStorePath: () => "/tmp/test-store",
+  updateSessionStore: vi.fn(),
+}));
+
+vi.mock("../plugins/hook-runner-global.js", () => ({
+  getGlobalHookRunner: vi.fn(() => ({ hasHooks: () => false })),
+}));
+
+vi.mock("../auto-reply/reply/queue.js", () => ({
+  clearSessionQueues: vi.fn(() => ({ followupCleared: 0, laneCleared: 0, keys: [] })),
+}));
+
+vi.mock("./pi-embedded.js", () => ({
+  abortEmbeddedPiRun: vi.fn(() => false),
+}));
+
+const groupAnnounceSpy = vi.fn(async (_params: unknown) => true);
+vi.mock("./subagent-announce.js", () => ({
+  runSubagentAnnounceFlow: vi.fn(async () => true),
+  runSubagentGroupAnnounceFlow: groupAnnounceSpy,
+  readLatestSubagentOutputWithRetry: vi.fn(async (params: { sessionKey: string }) =>
+    childOutputs.get(params.sessionKey),
+  ),
+}));
+
+vi.mock("./subagent-spawn.js", () => ({
+  spawnSubagentDirect: vi.fn(
+    async (params: { task: string; group?: { groupId: string; index: number } }) => {
+      const { registerSubagentRun } = await import("./subagent-registry.js");
+      const index = params.group?.index ?? 0;
+      const childSessionKey = `agent:main:subagent:${index}`;
+      registerSubagentRun({
+        runId: `run-${index}`,
+        childSessionKey,
+        requesterSessionKey: "agent:main:main",
+        requesterDisplayKey: "main",
+        task: params.task,
+        cleanup: "keep",
+        expectsCompletionMessage: true,
+        groupId: params.group?.groupId,
+        groupIndex: params.group?.index,
+      });
+      return { status: "accepted", childSessionKey, runId: `run-${index}` };
+    },
+  ),
+}));
+
+vi.mock("./subagent-registry.store.js", () => ({
+  loadSubagentRegistryFromDisk: vi.fn(() => new Map()),
+  saveSubagentRegistryToDisk: vi.fn(() => {}),
+}));
+
+const scoreSchema = {
+  type: "object",
+  required: ["score"],
+  properties: { score: { type: "number" } },
+};
+
+describe("subagent groups", () => {
+  let registry: typeof import("./subagent-registry.js");
+  let groups: typeof import("./subagent-group.js");
+
+  beforeAll(async () => {
+    registry = await import("./subagent-registry.js");
+    groups = await import("./subagent-group.js");
+  });
+
+  afterEach(() => {
+    groups.resetSubagentGroupTimersForTests();
+    registry.resetSubagentRegistryForTests({ persist: false });
+    childOutputs.clear();
+    groupAnnounceSpy.mockClear();
+  });
+
+  const endRun = (runId: string) => {
+    lifecycleHandler?.({ stream: "lifecycle", runId, data: { phase: "end" } });
+  };
+
+  it("validates replies, retries schema violations, and announces one aggregate", async () => {
+    const spawned = await groups.spawnSubagentGroup(
+      {
+        tasks: [{ task: "rate a", label: "alpha" }, { task: "rate b" }],
+        resultSchema: scoreSchema,
+      },
+      { agentSessionKey: "agent:main:main" },
+    );
+    expect(spawned).toMatchObject({ status: "accepted", quorum: 2 });
+
+    childOutputs.set("agent:main:subagent:0", '{"score": 1}');
+    childOutputs.set("agent:main:subagent:1", "looks good to me");
+    endRun("run-0");
+    endRun("run-1");
+    const callGateway = vi.mocked((await import("../gateway/call.js")).callGateway);
+    await vi.waitFor(() =>
+      expect(callGateway).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: "agent",
+          params: expect.objectContaining({
+            sessionKey: "agent:main:subagent:1",
+            message: expect.stringContaining("reply is not valid JSON"),
+          }),
+        }),
+      ),
+    );
+    expect(groupAnnounceSpy).not.toHaveBeenCalled();
+
+    childOutputs.set("agent:main:subagent:1", '```json\n{"score": 2}\n```');
+    endRun("retry:agent:main:subagent:1");
+    await vi.waitFor(() => expect(groupAnnounceSpy).toHaveBeenCalledTimes(1));
+    expect(groupAnnounceSpy.mock.calls[0]?.[0]).toMatchObject({
+      requesterSessionKey: "agent:main:main",
+      aggregate: {
+        status: "all",
+        succeeded: 2,
+        results: [
+          { index: 0, label: "alpha", result: { score: 1 } },
+          { index: 1, result: { score: 2 } },
+        ],
+        failures: [],
+      },
+    });
+  });
+
+  it("settles at quorum and stops the remaining members", async () => {
+    await groups.spawnSubagentGroup(
+      {
+        tasks: [{ task: "a" }, { task: "b" }, { task: "c" }],
+        resultSchema: scoreSchema,
+        quorum: 2,
+        label: "reviews",
+      },
+      { agentSessionKey: "agent:main:main" },
+    );
+    childOutputs.set("agent:main:subagent:0", '{"score": 3}');
+    childOutputs.set("agent:main:subagent:1", '{"score": 4}');
+    endRun("run-0");
+    endRun("run-1");
+
+    await vi.waitFor(() => expect(groupAnnounceSpy).toHaveBeenCalledTimes(1));
+    expect(groupAnnounceSpy.mock.calls[0]?.[0]).toMatchObject({
+      label: "reviews",
+      aggregate: {
+        status: "quorum",
+        succeeded: 2,
+        failures: [{ index: 2, status: "cancelled", attempts: 1 }],
+      },
+    });
+    const stopped = registry
+      .listSubagentRunsForRequester("agent:main:main")
+      .find((entry) => entry.runId === "run-2");
+    expect(stopped?.endedReason).toBe("subagent-killed");
+  });
+
+  it("rejects replies that still violate the schema after the retry budget", async () => {
+    await groups.spawnSubagentGroup(
+      { tasks: [{ task: "a" }], resultSchema: scoreSchema, maxRetries: 0 },
+      { agentSessionKey: "agent:main:main" },
+    );
+    childOutputs.set("agent:main:subagent:0", '{"score": "high"}');
+    endRun("run-0");
+
+    await vi.waitFor(() => expect(groupAnnounceSpy).toHaveBeenCalledTimes(1));
+    expect(groupAnnounceSpy.mock.calls[0]?.[0]).toMatchObject({
+      aggregate: {
+        status: "failed",
+        succeeded: 0,
+        failures: [{ index: 0, status: "invalid", error: "score: must be number" }],
+      },
+    });
+  });
+});
@@ -0,0 +1,528 @@
+import crypto from "node:crypto";
+import { clearSessionQueues } from "../auto-reply/reply/queue.js";
+import { loadConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentIdFromSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { callGateway } from "../gateway/call.js";
+import { validateJsonSchemaValue } from "../plugins/schema-validator.js";
+import { defaultRuntime } from "../runtime.js";
+import { normalizeDeliveryContext } from "../utils/delivery-context.js";
+import { INTERNAL_MESSAGE_CHANNEL } from "../utils/message-channel.js";
+import { AGENT_LANE_SUBAGENT } from "./lanes.js";
+import { abortEmbeddedPiRun } from "./pi-embedded.js";
+import {
+  readLatestSubagentOutputWithRetry,
+  runSubagentGroupAnnounceFlow,
+} from "./subagent-announce.js";
+import { SUBAGENT_ENDED_REASON_KILLED } from "./subagent-lifecycle-events.js";
+import {
+  archiveSubagentGroup,
+  countActiveRunsForSession,
+  getSubagentGroup,
+  markSubagentRunTerminated,
+  registerSubagentGroup,
+  releaseSubagentGroup,
+  replaceSubagentRunAfterSteer,
+  type SubagentGroupMemberRecord,
+  type SubagentGroupRecord,
+  type SubagentRunRecord,
+} from "./subagent-registry.js";
+import type { SubagentGroupSettledReason } from "./subagent-registry.types.js";
+import { type SpawnSubagentContext, spawnSubagentDirect } from "./subagent-spawn.js";
+import {
+  resolveDisplaySessionKey,
+  resolveInternalSessionKey,
+  resolveMainSessionAlias,
+} from "./tools/sessions-helpers.js";
+
+const DEFAULT_GROUP_MAX_RETRIES = 1;
+const MAX_GROUP_MAX_RETRIES = 3;
+const GROUP_OUTPUT_READ_WAIT_MS = 15_000;
+const GROUP_RETRY_SPAWN_TIMEOUT_MS = 10_000;
+
+const groupDeadlineTimers = new Map<string, NodeJS.Timeout>();
+
+export type SubagentGroupTask = {
+  task: string;
+  label?: string;
+  agentId?: string;
+  model?: string;
+};
+
+export type SpawnSubagentGroupParams = {
+  tasks: SubagentGroupTask[];
+  /** JSON Schema each member's final reply must satisfy. */
+  resultSchema: Record<string, unknown>;
+  label?: string;
+  /** Valid results to wait for (default: every task). */
+  quorum?: number;
+  /** Announce whatever has arrived after this many seconds (default: no limit). */
+  timeoutSeconds?: number;
+  /** Follow-ups per member after a schema violation (default: 1). */
+  maxRetries?: number;
+  model?: string;
+  thinking?: string;
+  runTimeoutSeconds?: number;
+  cleanup?: "delete" | "keep";
+};
+
+export type SpawnSubagentGroupResult = {
+  status: "accepted" | "forbidden" | "error";
+  groupId?: string;
+  quorum?: number;
+  members?: Array<{ index: number; label?: string; childSessionKey?: string; runId?: string }>;
+  note?: string;
+  error?: string;
+};
+
+export type SubagentGroupAggregate = {
+  groupId: string;
+  label?: string;
+  status: SubagentGroupSettledReason;
+  quorum: number;
+  total: number;
+  succeeded: number;
+  results: Array<{ index: number; label?: string; result: unknown }>;
+  failures: Array<{
+    index: number;
+    label?: string;
+    status: SubagentGroupMemberRecord["status"];
+    attempts: number;
+    error?: string;
+  }>;
+};
+
+function isMemberOpen(member: SubagentGroupMemberRecord) {
+  return member.status === "pending" || member.status === "running";
+}
+
+function resolveSchemaCacheKey(schema: Record<string, unknown>) {
+  const digest = crypto.createHash("sha256").update(JSON.stringify(schema)).digest("hex");
+  return `subagent-group:${digest.slice(0, 16)}`;
+}
+
+/** Parses a member's final reply as JSON and checks it against the group schema. */
+export function parseSubagentGroupResult(params: {
+  text?: string;
+  schema: Record<string, unknown>;
+}): { ok: true; value: unknown } | { ok: false; error: string } {
+  const raw = params.text?.trim();
+  if (!raw) {
+    return { ok: false, error: "reply was empty" };
+  }
+  const fenced = raw.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  let value: unknown;
+  try {
+    value = JSON.parse(fenced ? (fenced[1] ?? "") : raw);
+  } catch {
+    return { ok: false, error: "reply is not valid JSON" };
+  }
+  const validation = validateJsonSchemaValue({
+    schema: params.schema,
+    cacheKey: resolveSchemaCacheKey(params.schema),
+    value,
+  });
+  if (!validation.ok) {
+    return { ok: false, error: validation.errors.join("; ") };
+  }
+  return { ok: true, value };
+}
+
+export function buildSubagentGroupAggregate(group: SubagentGroupRecord): SubagentGroupAggregate {
+  const results = group.members
+    .filter((member) => member.status === "ok")
+    .map((member) => ({ index: member.index, label: member.label, result: member.result }));
+  return {
+    groupId: group.groupId,
+    label: group.label,
+    status: group.settledReason ?? "failed",
+    quorum: group.quorum,
+    total: group.members.length,
+    succeeded: results.length,
+    results,
+    failures: group.members
+      .filter((member) => member.status !== "ok")
+      .map((member) => ({
+        index: member.index,
+        label: member.label,
+        status: member.status,
+        attempts: member.attempts,
+        error: member.error,
+      })),
+  };
+}
+
+function formatGroupStatusLine(aggregate: SubagentGroupAggregate): string {
+  const counts = `${aggregate.succeeded}/${aggregate.total} valid results`;
+  switch (aggregate.status) {
+    case "all":
+      return `finished (${counts})`;
+    case "quorum":
+      return `reached its quorum (${counts}, quorum ${aggregate.quorum})`;
+    case "timeout":
+      return `timed out (${counts}, quorum ${aggregate.quorum} not met)`;
+    default:
+      return `failed (${counts}, quorum ${aggregate.quorum} not met)`;
+  }
+}
+
+function resolveChildSessionId(childSessionKey: string): string | undefined {
+  try {
+    const cfg = loadConfig();
+    const agentId = resolveAgentIdFromSessionKey(childSessionKey);
+    const store = loadSessionStore(resolveStorePath(cfg.session?.store, { agentId }));
+    const sessionId = store[childSessionKey]?.sessionId;
+    return typeof sessionId === "string" && sessionId.trim() ? sessionId.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stopSubagentGroupMember(member: SubagentGroupMemberRecord) {
+  const childSessionKey = member.childSessionKey;
+  if (!childSessionKey) {
+    return;
+  }
+  const sessionId = resolveChildSessionId(childSessionKey);
+  if (sessionId) {
+    abortEmbeddedPiRun(sessionId);
+  }
+  clearSessionQueues([childSessionKey, sessionId]);
+  markSubagentRunTerminated({
+    runId: member.runId,
+    childSessionKey,
+    reason: "subagent group settled",
+  });
+}
+
+async function settleSubagentGroup(
+  group: SubagentGroupRecord,
+  reason: SubagentGroupSettledReason,
+): Promise<void> {
+  if (group.settledAt) {
+    return;
+  }
+  const now = Date.now();
+  group.settledAt = now;
+  group.settledReason = reason;
+  const timer = groupDeadlineTimers.get(group.groupId);
+  if (timer) {
+    clearTimeout(timer);
+    groupDeadlineTimers.delete(group.groupId);
+  }
+  const openMembers = group.members.filter(isMemberOpen);
+  for (const member of openMembers) {
+    member.status = reason === "timeout" ? "timeout" : "cancelled";
+    member.endedAt = now;
+  }
+  for (const member of openMembers) {
+    stopSubagentGroupMember(member);
+  }
+
+  const aggregate = buildSubagentGroupAggregate(group);
+  const delivered = await runSubagentGroupAnnounceFlow({
+    groupId: group.groupId,
+    requesterSessionKey: group.requesterSessionKey,
+    requesterOrigin: group.requesterOrigin,
+    label: group.label,
+    statusLine: formatGroupStatusLine(aggregate),
+    aggregate,
+  });
+  if (!delivered) {
+    defaultRuntime.log(
+      `[warn] Subagent group announce was not delivered group=${group.groupId} requester=${group.requesterSessionKey}`,
+    );
+  }
+  if (group.cleanup === "delete") {
+    for (const member of group.members) {
+      if (!member.childSessionKey) {
+        continue;
+      }
+      try {
+        await callGateway({
+          method: "sessions.delete",
+          params: {
+            key: member.childSessionKey,
+            deleteTranscript: true,
+            emitLifecycleHooks: false,
+          },
+          timeoutMs: 10_000,
+        });
+      } catch {
+        // Best-effort cleanup only.
+      }
+    }
+  }
+  archiveSubagentGroup(group.groupId);
+}
+
+async function maybeSettleSubagentGroup(group: SubagentGroupRecord): Promise<void> {
+  if (group.settledAt || group.spawning) {
+    return;
+  }
+  const succeeded = group.members.filter((member) => member.status === "ok").length;
+  const open = group.members.filter(isMemberOpen).length;
+  if (succeeded === group.members.length) {
+    await settleSubagentGroup(group, "all");
+  } else if (succeeded >= group.quorum) {
+    await settleSubagentGroup(group, "quorum");
+  } else if (succeeded + open < group.quorum) {
+    await settleSubagentGroup(group, "failed");
+  }
+}
+
+async function retrySubagentGroupMember(params: {
+  group: SubagentGroupRecord;
+  member: SubagentGroupMemberRecord;
+  entry: SubagentRunRecord;
+  violation: string;
+}): Promise<boolean> {
+  const { group, member, entry } = params;
+  const message = [
+    `[Subagent Result Rejected] Your last reply did not match the required result schema: ${params.violation}.`,
+    `Reply again with ONLY a JSON value (no prose, no markdown fences) matching this JSON Schema:\n${JSON.stringify(group.resultSchema)}`,
+  ].join("\n\n");
+  const idempotencyKey = crypto.randomUUID();
+  let runId: string = idempotencyKey;
+  try {
+    const response = await callGateway<{ runId: string }>({
+      method: "agent",
+      params: {
+        message,
+        sessionKey: entry.childSessionKey,
+        idempotencyKey,
+        deliver: false,
+        channel: INTERNAL_MESSAGE_CHANNEL,
+        lane: AGENT_LANE_SUBAGENT,
+        timeout: entry.runTimeoutSeconds ?? 0,
+      },
+      timeoutMs: GROUP_RETRY_SPAWN_TIMEOUT_MS,
+    });
+    if (typeof response?.runId === "string" && response.runId) {
+      runId = response.runId;
+    }
+  } catch (err) {
+    defaultRuntime.log(
+      `[warn] Subagent group retry failed group=${group.groupId} child=${entry.childSessionKey}: ${String(err)}`,
+    );
+    return false;
+  }
+  member.attempts += 1;
+  member.runId = runId;
+  member.status = "running";
+  member.error = params.violation;
+  replaceSubagentRunAfterSteer({
+    previousRunId: entry.runId,
+    nextRunId: runId,
+    fallback: entry,
+    runTimeoutSeconds: entry.runTimeoutSeconds ?? 0,
+  });
+  return true;
+}
+
+async function resolveSubagentGroupMemberOutcome(params: {
+  group: SubagentGroupRecord;
+  member: SubagentGroupMemberRecord;
+  entry: SubagentRunRecord;
+}): Promise<void> {
+  const { group, member, entry } = params;
+  if (entry.endedReason === SUBAGENT_ENDED_REASON_KILLED) {
+    member.status = "cancelled";
+    member.error = entry.outcome?.error;
+  } else if (entry.outcome?.status === "error" || entry.outcome?.status === "timeout") {
+    member.status = entry.outcome.status;
+    member.error = entry.outcome.error;
+  } else {
+    const reply = await readLatestSubagentOutputWithRetry({
+      sessionKey: entry.childSessionKey,
+      maxWaitMs: GROUP_OUTPUT_READ_WAIT_MS,
+    });
+    const parsed = parseSubagentGroupResult({ text: reply, schema: group.resultSchema });
+    if (parsed.ok) {
+      member.status = "ok";
+      member.result = parsed.value;
+      member.error = undefined;
+    } else if (
+      member.attempts <= group.maxRetries &&
+      !group.settledAt &&
+      (await retrySubagentGroupMember({ group, member, entry, violation: parsed.error }))
+    ) {
+      return;
+    } else {
+      member.status = "invalid";
+      member.error = parsed.error;
+    }
+  }
+  member.endedAt = entry.endedAt ?? Date.now();
+}
+
+/**
+ * Called by the registry when a grouped run ends. Returns false when the group
+ * is unknown (for example after a gateway restart) so the run announces alone.
+ */
+export async function settleSubagentGroupMember(entry: SubagentRunRecord): Promise<boolean> {
+  const group = entry.groupId ? getSubagentGroup(entry.groupId) : undefined;
+  const member = group?.members[entry.groupIndex ?? -1];
+  if (!group || !member) {
+    return false;
+  }
+  // The run can end before spawnSubagentDirect returns its ids to the group.
+  member.runId ??= entry.runId;
+  member.childSessionKey ??= entry.childSessionKey;
+  if (group.settledAt || member.runId !== entry.runId || !isMemberOpen(member)) {
+    return true;
+  }
+  await resolveSubagentGroupMemberOutcome({ group, member, entry });
+  await maybeSettleSubagentGroup(group);
+  return true;
+}
+
+/**
+ * Fans one task list out to subagents that share a JSON result schema. The
+ * requester gets a single aggregate once the quorum is met, every member has
+ * finished, or the group times out.
+ */
+export async function spawnSubagentGroup(
+  params: SpawnSubagentGroupParams,
+  ctx: SpawnSubagentContext,
+): Promise<SpawnSubagentGroupResult> {
+  const tasks = params.tasks.filter((entry) => entry.task.trim());
+  if (tasks.length === 0) {
+    return { status: "error", error: "tasks must contain at least one task." };
+  }
+  try {
+    parseSubagentGroupResult({ text: "null", schema: params.resultSchema });
+  } catch (err) {
+    return {
+      status: "error",
+      error: `Invalid resultSchema: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  const cfg = loadConfig();
+  const { mainKey, alias } = resolveMainSessionAlias(cfg);
+  const requesterInternalKey = ctx.agentSessionKey
+    ? resolveInternalSessionKey({ key: ctx.agentSessionKey, alias, mainKey })
+    : alias;
+  const maxChildren = cfg.agents?.defaults?.subagents?.maxChildrenPerAgent ?? 5;
+  const activeChildren = countActiveRunsForSession(requesterInternalKey);
+  if (activeChildren + tasks.length > maxChildren) {
+    return {
+      status: "forbidden",
+      error: `sessions_spawn group of ${tasks.length} would exceed max active children for this session (${activeChildren}/${maxChildren})`,
+    };
+  }
+
+  const quorum =
+    typeof params.quorum === "number" && Number.isFinite(params.quorum)
+      ? Math.min(tasks.length, Math.max(1, Math.floor(params.quorum)))
+      : tasks.length;
+  const maxRetries =
+    typeof params.maxRetries === "number" && Number.isFinite(params.maxRetries)
+      ? Math.min(MAX_GROUP_MAX_RETRIES, Math.max(0, Math.floor(params.maxRetries)))
+      : DEFAULT_GROUP_MAX_RETRIES;
+  const timeoutSeconds =
+    typeof params.timeoutSeconds === "number" && Number.isFinite(params.timeoutSeconds)
+      ? Math.max(0, Math.floor(params.timeoutSeconds))
+      : 0;
+  const label = params.label?.trim() || undefined;
+  const groupId = crypto.randomUUID();
+  const group: SubagentGroupRecord = {
+    groupId,
+    requesterSessionKey: requesterInternalKey,
+    requesterOrigin: normalizeDeliveryContext({
+      channel: ctx.agentChannel,
+      accountId: ctx.agentAccountId,
+      to: ctx.agentTo,
+      threadId: ctx.agentThreadId,
+    }),
+    requesterDisplayKey: resolveDisplaySessionKey({ key: requesterInternalKey, alias, mainKey }),
+    label,
+    resultSchema: params.resultSchema,
+    quorum,
+    maxRetries,
+    cleanup: params.cleanup === "delete" ? "delete" : "keep",
+    createdAt: Date.now(),
+    spawning: true,
+    members: tasks.map((entry, index) => ({
+      index,
+      task: entry.task,
+      label: entry.label?.trim() || undefined,
+      status: "pending",
+      attempts: 1,
+    })),
+  };
+  registerSubagentGroup(group);
+
+  for (const [index, entry] of tasks.entries()) {
+    const member = group.members[index];
+    const result = await spawnSubagentDirect(
+      {
+        task: entry.task,
+        label: member.label ?? (label ? `${label} #${index + 1}` : undefined),
+        agentId: entry.agentId,
+        model: entry.model ?? params.model,
+        thinking: params.thinking,
+        runTimeoutSeconds: params.runTimeoutSeconds,
+        mode: "run",
+        // Child sessions are removed with the group, after the aggregate is announced.
+        cleanup: "keep",
+        expectsCompletionMessage: true,
+        group: { groupId, index, resultSchema: params.resultSchema },
+      },
+      ctx,
+    );
+    if (result.status !== "accepted") {
+      releaseSubagentGroup(groupId);
+      for (const spawned of group.members.slice(0, index)) {
+        stopSubagentGroupMember(spawned);
+      }
+      return {
+        status: result.status,
+        groupId,
+        error: `task ${index + 1}: ${result.error ?? "spawn failed"}`,
+      };
+    }
+    member.childSessionKey ??= result.childSessionKey;
+    member.runId ??= result.runId;
+    if (member.status === "pending") {
+      member.status = "running";
+    }
+  }
+
+  group.spawning = false;
+  if (timeoutSeconds > 0) {
+    group.deadlineAt = group.createdAt + timeoutSeconds * 1000;
+    const timer = setTimeout(() => {
+      groupDeadlineTimers.delete(groupId);
+      void settleSubagentGroup(group, "timeout");
+    }, timeoutSeconds * 1000);
+    timer.unref?.();
+    groupDeadlineTimers.set(groupId, timer);
+  }
+  await maybeSettleSubagentGroup(group);
+
+  const waitFor = quorum === tasks.length ? "all of them finish" : `${quorum} succeed`;
+  return {
+    status: "accepted",
+    groupId,
+    quorum,
+    members: group.members.map((member) => ({
+      index: member.index,
+      label: member.label,
+      childSessionKey: member.childSessionKey,
+      runId: member.runId,
+    })),
+    note: `${tasks.length} subagents spawned. Each reply is validated against resultSchema (invalid replies are retried) and one aggregate is announced when ${waitFor}${timeoutSeconds > 0 ? ` or after ${timeoutSeconds}s` : ""}; do not poll/sleep.`,
+  };
+}
+
+export function resetSubagentGroupTimersForTests() {
+  for (const timer of groupDeadlineTimers.values()) {
+    clearTimeout(timer);
+  }
+  groupDeadlineTimers.clear();
+}
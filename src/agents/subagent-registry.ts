@@ -40,12 +40,18 @@ import {
   persistSubagentRunsToDisk,
   restoreSubagentRunsFromDisk,
 } from "./subagent-registry-state.js";
-import type { SubagentRunRecord } from "./subagent-registry.types.js";
+import type { SubagentGroupRecord, SubagentRunRecord } from "./subagent-registry.types.js";
 import { resolveAgentTimeoutMs } from "./timeout.js";
 
-export type { SubagentRunRecord } from "./subagent-registry.types.js";
+export type {
+  SubagentGroupMemberRecord,
+  SubagentGroupRecord,
+  SubagentRunRecord,
+} from "./subagent-registry.types.js";
 
 const subagentRuns = new Map<string, SubagentRunRecord>();
+// Groups are in-memory only; after a restart their members announce individually.
+const subagentGroups = new Map<string, SubagentGroupRecord>();
 let sweeper: NodeJS.Timeout | null = null;
 let listenerStarted = false;
 let listenerStop: (() => void) | null = null;
@@ -382,23 +388,31 @@ function startSubagentAnnounceCleanupFlow(runId: string, entry: SubagentRunRecor
     return false;
   }
   const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
-  void runSubagentAnnounceFlow({
-    childSessionKey: entry.childSessionKey,
-    childRunId: entry.runId,
-    requesterSessionKey: entry.requesterSessionKey,
-    requesterOrigin,
-    requesterDisplayKey: entry.requesterDisplayKey,
-    task: entry.task,
-    timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
-    cleanup: entry.cleanup,
-    waitForCompletion: false,
-    startedAt: entry.startedAt,
-    endedAt: entry.endedAt,
-    label: entry.label,
-    outcome: entry.outcome,
-    spawnMode: entry.spawnMode,
-    expectsCompletionMessage: entry.expectsCompletionMessage,
-  })
+  const announce = () =>
+    runSubagentAnnounceFlow({
+      childSessionKey: entry.childSessionKey,
+      childRunId: entry.runId,
+      requesterSessionKey: entry.requesterSessionKey,
+      requesterOrigin,
+      requesterDisplayKey: entry.requesterDisplayKey,
+      task: entry.task,
+      timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
+      cleanup: entry.cleanup,
+      waitForCompletion: false,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
+      label: entry.label,
+      outcome: entry.outcome,
+      spawnMode: entry.spawnMode,
+      expectsCompletionMessage: entry.expectsCompletionMessage,
+    });
+  // Grouped runs report to their group, which announces one aggregate instead.
+  const flow = entry.groupId
+    ? import("./subagent-group.js").then(async ({ settleSubagentGroupMember }) =>
+        (await settleSubagentGroupMember(entry)) ? true : await announce(),
+      )
+    : announce();
+  void flow
     .then((didAnnounce) => {
       void finalizeSubagentCleanup(runId, entry.cleanup, didAnnounce);
     })
@@ -575,10 +589,15 @@ async function sweepSubagentRuns() {
       // ignore
     }
   }
+  for (const [groupId, group] of subagentGroups.entries()) {
+    if (group.archiveAtMs && group.archiveAtMs <= now) {
+      subagentGroups.delete(groupId);
+    }
+  }
   if (mutated) {
     persistSubagentRuns();
   }
-  if (subagentRuns.size === 0) {
+  if (subagentRuns.size === 0 && subagentGroups.size === 0) {
     stopSweeper();
   }
 }
@@ -905,6 +924,8 @@ export function registerSubagentRun(params: {
   runTimeoutSeconds?: number;
   expectsCompletionMessage?: boolean;
   spawnMode?: "run" | "session";
+  groupId?: string;
+  groupIndex?: number;
 }) {
   const now = Date.now();
   const cfg = loadConfig();
@@ -917,6 +938,8 @@ export function registerSubagentRun(params: {
   const requesterOrigin = normalizeDeliveryContext(params.requesterOrigin);
   subagentRuns.set(params.runId, {
     runId: params.runId,
+    groupId: params.groupId,
+    groupIndex: params.groupIndex,
     childSessionKey: params.childSessionKey,
     requesterSessionKey: params.requesterSessionKey,
     requesterOrigin,
@@ -1010,6 +1033,7 @@ async function waitForSubagentCompletion(runId: string, waitTimeoutMs: number) {
 
 export function resetSubagentRegistryForTests(opts?: { persist?: boolean }) {
   subagentRuns.clear();
+  subagentGroups.clear();
   resumedRuns.clear();
   endedHookInFlightRunIds.clear();
   clearAllPendingLifecycleErrors();
@@ -1120,6 +1144,16 @@ export function markSubagentRunTerminated(params: {
   }
   if (updated > 0) {
     persistSubagentRuns();
+    const groupedEntries = [...runIds]
+      .map((runId) => subagentRuns.get(runId))
+      .filter((entry): entry is SubagentRunRecord => Boolean(entry?.groupId));
+    if (groupedEntries.length > 0) {
+      void import("./subagent-group.js").then(async ({ settleSubagentGroupMember }) => {
+        for (const entry of groupedEntries) {
+          await settleSubagentGroupMember(entry);
+        }
+      });
+    }
     for (const entry of entriesByChildSessionKey.values()) {
       void emitSubagentEndedHookOnce({
         entry,
@@ -1162,6 +1196,41 @@ export function listDescendantRunsForRequester(rootSessionKey: string): Subagent
   );
 }
 
+export function registerSubagentGroup(group: SubagentGroupRecord) {
+  subagentGroups.set(group.groupId, group);
+}
+
+export function getSubagentGroup(groupId: string): SubagentGroupRecord | undefined {
+  return subagentGroups.get(groupId);
+}
+
+/** Marks a settled group for removal with the same retention as its runs. */
+export function archiveSubagentGroup(groupId: string) {
+  const group = subagentGroups.get(groupId);
+  if (!group) {
+    return;
+  }
+  const archiveAfterMs = resolveArchiveAfterMs();
+  if (!archiveAfterMs) {
+    subagentGroups.delete(groupId);
+    return;
+  }
+  group.archiveAtMs = Date.now() + archiveAfterMs;
+  startSweeper();
+}
+
+export function releaseSubagentGroup(groupId: string) {
+  subagentGroups.delete(groupId);
+}
+
+export function listSubagentGroupsForRequester(requesterSessionKey: string): SubagentGroupRecord[] {
+  const key = requesterSessionKey.trim();
+  if (!key) {
+    return [];
+  }
+  return [...subagentGroups.values()].filter((group) => group.requesterSessionKey === key);
+}
+
 export function initSubagentRegistry() {
   restoreSubagentRunsOnce();
 }
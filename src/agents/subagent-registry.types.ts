@@ -32,4 +32,56 @@ export type SubagentRunRecord = {
   endedReason?: SubagentLifecycleEndedReason;
   /** Set after the subagent_ended hook has been emitted successfully once. */
   endedHookEmittedAt?: number;
+  /** Fan-out group this run belongs to (see subagent-group.ts). */
+  groupId?: string;
+  /** Position of this run's task within its group. */
+  groupIndex?: number;
+};
+
+export type SubagentGroupMemberStatus =
+  | "pending"
+  | "running"
+  | "ok"
+  | "invalid"
+  | "error"
+  | "timeout"
+  | "cancelled";
+
+export type SubagentGroupMemberRecord = {
+  index: number;
+  task: string;
+  label?: string;
+  childSessionKey?: string;
+  runId?: string;
+  status: SubagentGroupMemberStatus;
+  /** Runs started for this member (1 + schema-violation retries). */
+  attempts: number;
+  result?: unknown;
+  error?: string;
+  endedAt?: number;
+};
+
+export type SubagentGroupSettledReason = "all" | "quorum" | "timeout" | "failed";
+
+export type SubagentGroupRecord = {
+  groupId: string;
+  requesterSessionKey: string;
+  requesterOrigin?: DeliveryContext;
+  requesterDisplayKey: string;
+  label?: string;
+  /** JSON Schema every member result must satisfy. */
+  resultSchema: Record<string, unknown>;
+  /** Valid results needed before the aggregate is announced. */
+  quorum: number;
+  /** Follow-up attempts per member after a schema violation. */
+  maxRetries: number;
+  cleanup: "delete" | "keep";
+  createdAt: number;
+  deadlineAt?: number;
+  /** True while members are still being spawned; the group cannot settle yet. */
+  spawning?: boolean;
+  settledAt?: number;
+  settledReason?: SubagentGroupSettledReason;
+  archiveAtMs?: number;
+  members: SubagentGroupMemberRecord[];
 };
@@ -37,6 +37,12 @@ export type SpawnSubagentParams = {
   mode?: SpawnSubagentMode;
   cleanup?: "delete" | "keep";
   expectsCompletionMessage?: boolean;
+  /** Set when the run is one member of a fan-out group (see subagent-group.ts). */
+  group?: {
+    groupId: string;
+    index: number;
+    resultSchema: Record<string, unknown>;
+  };
 };
 
 export type SpawnSubagentContext = {
@@ -399,6 +405,9 @@ export async function spawnSubagentDirect(
       ? "[Subagent Context] This subagent session is persistent and remains available for thread follow-up messages."
       : undefined,
     `[Subagent Task]: ${task}`,
+    params.group
+      ? `[Subagent Result Format] Your final reply must be ONLY a JSON value (no prose, no markdown fences) matching this JSON Schema:\n${JSON.stringify(params.group.resultSchema)}`
+      : undefined,
   ]
     .filter((line): line is string => Boolean(line))
     .join("\n\n");
@@ -498,6 +507,8 @@ export async function spawnSubagentDirect(
     runTimeoutSeconds,
     expectsCompletionMessage,
     spawnMode,
+    groupId: params.group?.groupId,
+    groupIndex: params.group?.index,
   });
 
   if (hookRunner?.hasHooks("subagent_spawned")) {
@@ -113,6 +113,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "memory_graph",
+    label: "memory_graph",
+    description: "Walk memory entity graph",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
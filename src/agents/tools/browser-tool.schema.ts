@@ -32,8 +32,15 @@ const BROWSER_TOOL_ACTIONS = [
   "upload",
   "dialog",
   "act",
+  "macro",
+  "network",
+  "har",
 ] as const;
 
+const BROWSER_MACRO_OPS = ["list", "start", "stop", "run", "delete"] as const;
+const BROWSER_NETWORK_OPS = ["list", "block", "mock", "rewrite", "clear"] as const;
+const BROWSER_HAR_OPS = ["start", "stop"] as const;
+
 const BROWSER_TARGETS = ["sandbox", "host", "node"] as const;
 
 const BROWSER_SNAPSHOT_FORMATS = ["aria", "ai"] as const;
@@ -77,6 +84,44 @@ const BrowserActSchema = Type.Object({
   fn: Type.Optional(Type.String()),
 });
 
+const BrowserMacroSchema = Type.Object({
+  op: stringEnum(BROWSER_MACRO_OPS),
+  name: Type.Optional(Type.String()),
+  // stop
+  description: Type.Optional(Type.String()),
+  save: Type.Optional(Type.Boolean()),
+  // stop: param name -> recorded literal; run: param name -> value or SecretRef
+  params: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  // stop: param name -> default value or SecretRef
+  defaults: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  // stop: save typed text verbatim instead of generated inputN params
+  keepLiterals: Type.Optional(Type.Boolean()),
+});
+
+// Per-tab request interception; block/mock/rewrite add a rule, clear removes one (id) or all.
+const BrowserNetworkSchema = Type.Object({
+  op: stringEnum(BROWSER_NETWORK_OPS),
+  id: Type.Optional(Type.String()),
+  url: Type.Optional(Type.String()),
+  resourceTypes: Type.Optional(Type.Array(Type.String())),
+  // mock
+  status: Type.Optional(Type.Number()),
+  contentType: Type.Optional(Type.String()),
+  body: Type.Optional(Type.String()),
+  // mock: response headers; rewrite: request headers
+  headers: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  // rewrite
+  rewriteUrl: Type.Optional(Type.String()),
+});
+
+const BrowserHarSchema = Type.Object({
+  op: stringEnum(BROWSER_HAR_OPS),
+  // start: include response bodies
+  content: Type.Optional(Type.Boolean()),
+  // stop: output path within the browser temp dir
+  path: Type.Optional(Type.String()),
+});
+
 // IMPORTANT: OpenAI function tool schemas must have a top-level `type: "object"`.
 // A root-level `Type.Union([...])` compiles to `{ anyOf: [...] }` (no `type`),
 // which OpenAI rejects ("Invalid schema ... type: None"). Keep this schema an object.
@@ -109,4 +154,7 @@ export const BrowserToolSchema = Type.Object({
   accept: Type.Optional(Type.Boolean()),
   promptText: Type.Optional(Type.String()),
   request: Type.Optional(BrowserActSchema),
+  macro: Type.Optional(BrowserMacroSchema),
+  network: Type.Optional(BrowserNetworkSchema),
+  har: Type.Optional(BrowserHarSchema),
 });
@@ -5,7 +5,17 @@ import {
   browserArmDialog,
   browserArmFileChooser,
   browserConsoleMessages,
+  browserHarStart,
+  browserHarStop,
+  browserMacroDelete,
+  browserMacroRecordStart,
+  browserMacroRecordStop,
+  browserMacroRun,
+  browserMacros,
   browserNavigate,
+  browserNetworkRuleAdd,
+  browserNetworkRules,
+  browserNetworkRulesClear,
   browserPdfSave,
   browserScreenshotAction,
 } from "../../browser/client-actions.js";
@@ -275,6 +285,8 @@ export function createBrowserTool(opts?: {
       "Chrome extension relay needs an attached tab: user must click the OpenClaw Browser Relay toolbar icon on the tab (badge ON). If no tab is connected, ask them to attach it.",
       "When using refs from snapshot (e.g. e12), keep the same tab: prefer passing targetId from the snapshot response into subsequent actions (act/click/type/etc).",
       'For stable, self-resolving refs across calls, use snapshot with refs="aria" (Playwright aria-ref ids). Default refs="role" are role+name-based.',
+      'Repeated flows can be recorded as macros: macro.op="start" with a name, then act/navigate as usual, then macro.op="stop" (params maps a param name to the literal you typed, e.g. {"username":"alice"}; other typed text is saved as generated inputN params). macro.op="run" replays it with params; if it returns ok=false, snapshot and continue manually from failedStep.',
+      'network adds per-tab request rules (network.op="block"|"mock"|"rewrite" with a url pattern; "list"; "clear" with optional id). har.op="start"/"stop" records the tab traffic to a HAR file.',
       "Use snapshot+act for UI automation. Avoid act:wait by default; use only in exceptional cases when no reliable UI state exists.",
       `target selects browser location (sandbox|host|node). Default: ${targetDefault}.`,
       hostHint,
@@ -835,6 +847,182 @@ export function createBrowserTool(opts?: {
             throw err;
           }
         }
+        case "macro": {
+          const macro = params.macro as Record<string, unknown> | undefined;
+          if (!macro || typeof macro !== "object") {
+            throw new Error("macro required");
+          }
+          const op = readStringParam(macro, "op", { required: true });
+          const name = readStringParam(macro, "name");
+          const macroParams = macro.params as Record<string, string> | undefined;
+          const { targetId, timeoutMs } = readOptionalTargetAndTimeout(params);
+          const requireName = () => {
+            if (!name) {
+              throw new Error(`macro.name required for op=${op}`);
+            }
+            return name;
+          };
+          switch (op) {
+            case "list":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({ method: "GET", path: "/macros", profile })
+                  : await browserMacros(baseUrl, { profile }),
+              );
+            case "start":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/record/start",
+                      profile,
+                      body: { name: requireName() },
+                    })
+                  : await browserMacroRecordStart(baseUrl, { name: requireName(), profile }),
+              );
+            case "stop": {
+              const stopRequest = {
+                save: typeof macro.save === "boolean" ? macro.save : undefined,
+                description: readStringParam(macro, "description"),
+                params: macroParams,
+                defaults: macro.defaults as Parameters<
+                  typeof browserMacroRecordStop
+                >[1]["defaults"],
+                keepLiterals:
+                  typeof macro.keepLiterals === "boolean" ? macro.keepLiterals : undefined,
+              };
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/record/stop",
+                      profile,
+                      body: stopRequest,
+                    })
+                  : await browserMacroRecordStop(baseUrl, { ...stopRequest, profile }),
+              );
+            }
+            case "run": {
+              const runRequest = { name: requireName(), params: macroParams, targetId, timeoutMs };
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/run",
+                      profile,
+                      body: runRequest,
+                      timeoutMs: 120_000,
+                    })
+                  : await browserMacroRun(baseUrl, { ...runRequest, profile }),
+              );
+            }
+            case "delete":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "DELETE",
+                      path: `/macros/${encodeURIComponent(requireName())}`,
+                      profile,
+                    })
+                  : await browserMacroDelete(baseUrl, { name: requireName(), profile }),
+              );
+            default:
+              throw new Error(`Unknown macro op: ${op}`);
+          }
+        }
+        case "network": {
+          const network = params.network as Record<string, unknown> | undefined;
+          if (!network || typeof network !== "object") {
+            throw new Error("network required");
+          }
+          const op = readStringParam(network, "op", { required: true });
+          const { targetId } = readOptionalTargetAndTimeout(params);
+          if (op === "list") {
+            return jsonResult(
+              proxyRequest
+                ? await proxyRequest({
+                    method: "GET",
+                    path: "/network/rules",
+                    profile,
+                    query: { targetId },
+                  })
+                : await browserNetworkRules(baseUrl, { targetId, profile }),
+            );
+          }
+          if (op === "clear") {
+            const id = readStringParam(network, "id");
+            return jsonResult(
+              proxyRequest
+                ? await proxyRequest({
+                    method: "POST",
+                    path: "/network/rules/clear",
+                    profile,
+                    body: { id, targetId },
+                  })
+                : await browserNetworkRulesClear(baseUrl, { id, targetId, profile }),
+            );
+          }
+          if (op !== "block" && op !== "mock" && op !== "rewrite") {
+            throw new Error(`Unknown network op: ${op}`);
+          }
+          const rule = {
+            url: readStringParam(network, "url", { required: true }),
+            action: op,
+            resourceTypes: Array.isArray(network.resourceTypes)
+              ? (network.resourceTypes as string[])
+              : undefined,
+            status: typeof network.status === "number" ? network.status : undefined,
+            contentType: readStringParam(network, "contentType"),
+            body: readStringParam(network, "body", { trim: false, allowEmpty: true }),
+            headers: network.headers as Record<string, string> | undefined,
+            rewriteUrl: readStringParam(network, "rewriteUrl"),
+          } as const;
+          return jsonResult(
+            proxyRequest
+              ? await proxyRequest({
+                  method: "POST",
+                  path: "/network/rules",
+                  profile,
+                  body: { ...rule, targetId },
+                })
+              : await browserNetworkRuleAdd(baseUrl, { rule, targetId, profile }),
+          );
+        }
+        case "har": {
+          const har = params.har as Record<string, unknown> | undefined;
+          if (!har || typeof har !== "object") {
+            throw new Error("har required");
+          }
+          const op = readStringParam(har, "op", { required: true });
+          const { targetId } = readOptionalTargetAndTimeout(params);
+          if (op === "start") {
+            const content = typeof har.content === "boolean" ? har.content : undefined;
+            return jsonResult(
+              proxyRequest
+                ? await proxyRequest({
+                    method: "POST",
+                    path: "/har/start",
+                    profile,
+                    body: { content, targetId },
+                  })
+                : await browserHarStart(baseUrl, { content, targetId, profile }),
+            );
+          }
+          if (op === "stop") {
+            const harPath = readStringParam(har, "path");
+            return jsonResult(
+              proxyRequest
+                ? await proxyRequest({
+                    method: "POST",
+                    path: "/har/stop",
+                    profile,
+                    body: { path: harPath, targetId },
+                  })
+                : await browserHarStop(baseUrl, { path: harPath, targetId, profile }),
+            );
+          }
+          throw new Error(`Unknown har op: ${op}`);
+        }
         default:
           throw new Error(`Unknown action: ${action}`);
       }
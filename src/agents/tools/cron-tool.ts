@@ -228,6 +228,7 @@ JOB SCHEMA (for add action):
   "schedule": { ... },      // Required: when to run
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary or webhook POST
+  "retry": { ... },         // Optional: retry failed runs with backoff
   "sessionTarget": "main" | "isolated",  // Required
   "enabled": true | false   // Optional, default true
 }
@@ -239,9 +240,15 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Follow-up that runs when an upstream job finishes
+  { "kind": "after", "after": ["<upstream-jobId>"], "on": "ok|error|skipped|any", "summaryPattern": "<optional-regex>" }
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
+CALENDAR RULES ("every" and "cron" schedules, optional):
+  { "excludeDates": ["2026-12-25", "2026-12-28..2026-12-31"], "icsFile": "<local .ics path>", "businessDaysOnly": true }
+  - Runs falling on excluded dates, weekends (businessDaysOnly), ICS holidays or ICS blackout windows are skipped; dates use the schedule tz.
+
 PAYLOAD TYPES (payload.kind):
 - "systemEvent": Injects text as system event into session
   { "kind": "systemEvent", "text": "<message>" }
@@ -255,6 +262,10 @@ DELIVERY (top-level):
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
+RETRY (top-level, optional):
+  { "maxAttempts": <total-attempts>, "backoffBaseMs": <first-delay-ms>, "backoffCapMs": <max-delay-ms>, "retryOn": ["overloaded", "rate-limit", "timeout", "delivery-target", "other"] }
+  - Runs that still fail after maxAttempts are moved to the dead-letter list.
+
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
 - sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
@@ -306,6 +317,7 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "retry",
               "enabled",
               "description",
               "deleteAfterRun",
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it } from "vitest";
 import {
   resetMemoryToolMockState,
   setMemoryBackend,
+  setMemoryGetChunkImpl,
   setMemoryReadFileImpl,
   setMemorySearchImpl,
   type MemoryReadParams,
@@ -59,6 +60,32 @@ describe("memory search citations", () => {
     expect(details.results[0]?.citation).toBe("MEMORY.md#L5-L7");
   });
 
+  it("cites the stable chunk id when the backend provides one", async () => {
+    setMemorySearchImpl(async () => [
+      {
+        chunkId: "0123456789abcdef",
+        path: "memory/notes.md",
+        startLine: 3,
+        endLine: 3,
+        score: 0.8,
+        snippet: "Ship on Friday",
+        source: "memory" as const,
+      },
+    ]);
+    const cfg = asOpenClawConfig({
+      memory: { citations: "on" },
+      agents: { list: [{ id: "main", default: true }] },
+    });
+    const tool = createMemorySearchTool({ config: cfg });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+    const result = await tool.execute("call_chunk_citation", { query: "ship" });
+    const details = result.details as { results: Array<{ chunkId?: string; citation?: string }> };
+    expect(details.results[0]?.chunkId).toBe("0123456789abcdef");
+    expect(details.results[0]?.citation).toBe("memory/notes.md#L3 (chunk 0123456789abcdef)");
+  });
+
   it("leaves snippet untouched when citations are off", async () => {
     setMemoryBackend("builtin");
     const cfg = asOpenClawConfig({
@@ -180,4 +207,26 @@ describe("memory tools", () => {
       path: "memory/2026-02-19.md",
     });
   });
+
+  it("resolves memory_get by chunk id", async () => {
+    setMemoryGetChunkImpl(async (id) => ({
+      status: "stale",
+      id,
+      path: "memory/notes.md",
+      source: "memory",
+      startLine: 3,
+      endLine: 3,
+      text: "Ship on Friday",
+      reason: "text changed",
+    }));
+
+    const tool = createMemoryGetToolOrThrow();
+
+    const result = await tool.execute("call_chunk", { id: "0123456789abcdef" });
+    expect(result.details).toMatchObject({
+      status: "stale",
+      id: "0123456789abcdef",
+      text: "Ship on Friday",
+    });
+  });
 });
@@ -3,7 +3,7 @@ import {
   resetMemoryToolMockState,
   setMemorySearchImpl,
 } from "../../../test/helpers/memory-tool-manager-mock.js";
-import { createMemorySearchTool } from "./memory-tool.js";
+import { createMemoryGraphTool, createMemorySearchTool } from "./memory-tool.js";
 
 describe("memory_search unavailable payloads", () => {
   beforeEach(() => {
@@ -56,3 +56,47 @@ describe("memory_search unavailable payloads", () => {
     });
   });
 });
+
+describe("memory_graph", () => {
+  beforeEach(() => {
+    resetMemoryToolMockState();
+  });
+
+  it("is only offered when graph indexing is enabled", () => {
+    expect(
+      createMemoryGraphTool({ config: { agents: { list: [{ id: "main", default: true }] } } }),
+    ).toBeNull();
+    expect(
+      createMemoryGraphTool({
+        config: {
+          agents: {
+            defaults: { memorySearch: { graph: { enabled: true } } },
+            list: [{ id: "main", default: true }],
+          },
+        },
+      })?.name,
+    ).toBe("memory_graph");
+  });
+
+  it("reports backends without graph support as disabled", async () => {
+    const tool = createMemoryGraphTool({
+      config: {
+        agents: {
+          defaults: { memorySearch: { graph: { enabled: true } } },
+          list: [{ id: "main", default: true }],
+        },
+      },
+    });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+
+    const result = await tool.execute("graph", { entity: "Alice" });
+    expect(result.details).toEqual({
+      entity: "Alice",
+      neighbors: [],
+      disabled: true,
+      error: "memory graph unavailable for this backend",
+    });
+  });
+});
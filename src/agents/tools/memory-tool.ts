@@ -17,11 +17,18 @@ const MemorySearchSchema = Type.Object({
 });
 
 const MemoryGetSchema = Type.Object({
-  path: Type.String(),
+  path: Type.Optional(Type.String()),
+  id: Type.Optional(Type.String()),
   from: Type.Optional(Type.Number()),
   lines: Type.Optional(Type.Number()),
 });
 
+const MemoryGraphSchema = Type.Object({
+  entity: Type.String(),
+  depth: Type.Optional(Type.Number()),
+  limit: Type.Optional(Type.Number()),
+});
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -50,7 +57,7 @@ export function createMemorySearchTool(options: {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
+      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines and a stable chunkId to cite. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
     parameters: MemorySearchSchema,
     execute: async (_toolCallId, params) => {
       const query = readStringParam(params, "query", { required: true });
@@ -111,10 +118,11 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small. Pass id (a chunkId from memory_search) instead of path to fetch the exact cited chunk; status=stale means the file no longer contains that text.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
-      const relPath = readStringParam(params, "path", { required: true });
+      const chunkId = readStringParam(params, "id");
+      const relPath = readStringParam(params, "path", { required: !chunkId });
       const from = readNumberParam(params, "from", { integer: true });
       const lines = readNumberParam(params, "lines", { integer: true });
       const { manager, error } = await getMemorySearchManager({
@@ -122,11 +130,19 @@ export function createMemoryGetTool(options: {
         agentId,
       });
       if (!manager) {
-        return jsonResult({ path: relPath, text: "", disabled: true, error });
+        return jsonResult({ path: relPath, id: chunkId, text: "", disabled: true, error });
+      }
+      if (chunkId) {
+        try {
+          return jsonResult(await manager.getChunk(chunkId));
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          return jsonResult({ id: chunkId, text: "", disabled: true, error: message });
+        }
       }
       try {
         const result = await manager.readFile({
-          relPath,
+          relPath: relPath ?? "",
           from: from ?? undefined,
           lines: lines ?? undefined,
         });
@@ -139,6 +155,52 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryGraphTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx || !resolveMemorySearchConfig(ctx.cfg, ctx.agentId)?.graph.enabled) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Graph",
+    name: "memory_graph",
+    description:
+      "Walk the memory knowledge graph from a person, project, or other named entity: returns related entities (explicit relations like owns/leads/depends_on, plus co-mentions) with the chunkIds that support each link. Use to answer who/what is connected to something, then memory_get the chunkIds for detail.",
+    parameters: MemoryGraphSchema,
+    execute: async (_toolCallId, params) => {
+      const entity = readStringParam(params, "entity", { required: true });
+      const depth = readNumberParam(params, "depth", { integer: true });
+      const limit = readNumberParam(params, "limit", { integer: true });
+      const { manager, error } = await getMemorySearchManager({
+        cfg,
+        agentId,
+      });
+      if (!manager?.graphNeighbors) {
+        return jsonResult({
+          entity,
+          neighbors: [],
+          disabled: true,
+          error: error ?? "memory graph unavailable for this backend",
+        });
+      }
+      try {
+        return jsonResult(
+          await manager.graphNeighbors(entity, {
+            depth: depth ?? undefined,
+            limit: limit ?? undefined,
+          }),
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ entity, neighbors: [], disabled: true, error: message });
+      }
+    },
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -163,7 +225,8 @@ function formatCitation(entry: MemorySearchResult): string {
     entry.startLine === entry.endLine
       ? `#L${entry.startLine}`
       : `#L${entry.startLine}-L${entry.endLine}`;
-  return `${entry.path}${lineRange}`;
+  const chunkRef = entry.chunkId ? ` (chunk ${entry.chunkId})` : "";
+  return `${entry.path}${lineRange}${chunkRef}`;
 }
 
 function clampResultsByInjectedChars(
@@ -2,6 +2,7 @@ import { Type } from "@sinclair/typebox";
 import type { GatewayMessageChannel } from "../../utils/message-channel.js";
 import { ACP_SPAWN_MODES, spawnAcpDirect } from "../acp-spawn.js";
 import { optionalStringEnum } from "../schema/typebox.js";
+import { spawnSubagentGroup, type SubagentGroupTask } from "../subagent-group.js";
 import { SUBAGENT_SPAWN_MODES, spawnSubagentDirect } from "../subagent-spawn.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
@@ -9,7 +10,31 @@ import { jsonResult, readStringParam } from "./common.js";
 const SESSIONS_SPAWN_RUNTIMES = ["subagent", "acp"] as const;
 
 const SessionsSpawnToolSchema = Type.Object({
-  task: Type.String(),
+  task: Type.Optional(Type.String()),
+  // Fan-out: spawn one subagent per entry and announce a single aggregate.
+  tasks: Type.Optional(
+    Type.Array(
+      Type.Object({
+        task: Type.String(),
+        label: Type.Optional(Type.String()),
+        agentId: Type.Optional(Type.String()),
+        model: Type.Optional(Type.String()),
+      }),
+      { minItems: 1 },
+    ),
+  ),
+  resultSchema: Type.Optional(
+    Type.Object(
+      {},
+      {
+        additionalProperties: true,
+        description: "JSON Schema every fan-out result must match (required with tasks).",
+      },
+    ),
+  ),
+  quorum: Type.Optional(Type.Number({ minimum: 1 })),
+  groupTimeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
+  maxRetries: Type.Optional(Type.Number({ minimum: 0 })),
   label: Type.Optional(Type.String()),
   runtime: optionalStringEnum(SESSIONS_SPAWN_RUNTIMES),
   agentId: Type.Optional(Type.String()),
@@ -24,6 +49,23 @@ const SessionsSpawnToolSchema = Type.Object({
   cleanup: optionalStringEnum(["delete", "keep"] as const),
 });
 
+function readGroupTasks(value: unknown): SubagentGroupTask[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        Boolean(entry) && typeof entry === "object" && typeof entry.task === "string",
+    )
+    .map((entry) => ({
+      task: entry.task as string,
+      label: readStringParam(entry, "label"),
+      agentId: readStringParam(entry, "agentId"),
+      model: readStringParam(entry, "model"),
+    }));
+}
+
 export function createSessionsSpawnTool(opts?: {
   agentSessionKey?: string;
   agentChannel?: GatewayMessageChannel;
@@ -41,11 +83,11 @@ export function createSessionsSpawnTool(opts?: {
     label: "Sessions",
     name: "sessions_spawn",
     description:
-      'Spawn an isolated session (runtime="subagent" or runtime="acp"). mode="run" is one-shot and mode="session" is persistent/thread-bound.',
+      'Spawn an isolated session (runtime="subagent" or runtime="acp"). mode="run" is one-shot and mode="session" is persistent/thread-bound. Pass tasks + resultSchema instead of task to fan out one-shot subagents and receive one schema-validated aggregate (quorum and groupTimeoutSeconds control when it is announced).',
     parameters: SessionsSpawnToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
-      const task = readStringParam(params, "task", { required: true });
+      const groupTasks = readGroupTasks(params.tasks);
       const label = typeof params.label === "string" ? params.label.trim() : "";
       const runtime = params.runtime === "acp" ? "acp" : "subagent";
       const requestedAgentId = readStringParam(params, "agentId");
@@ -68,6 +110,50 @@ export function createSessionsSpawnTool(opts?: {
           : undefined;
       const thread = params.thread === true;
 
+      if (groupTasks) {
+        if (runtime === "acp" || thread || mode === "session") {
+          return jsonResult({
+            status: "error",
+            error:
+              'tasks fans out one-shot subagents; runtime="acp", thread, and mode="session" are not supported.',
+          });
+        }
+        const resultSchema = params.resultSchema;
+        if (!resultSchema || typeof resultSchema !== "object" || Array.isArray(resultSchema)) {
+          return jsonResult({ status: "error", error: "resultSchema is required with tasks." });
+        }
+        const result = await spawnSubagentGroup(
+          {
+            tasks: groupTasks,
+            resultSchema: resultSchema as Record<string, unknown>,
+            label: label || undefined,
+            quorum: typeof params.quorum === "number" ? params.quorum : undefined,
+            timeoutSeconds:
+              typeof params.groupTimeoutSeconds === "number"
+                ? params.groupTimeoutSeconds
+                : undefined,
+            maxRetries: typeof params.maxRetries === "number" ? params.maxRetries : undefined,
+            model: modelOverride,
+            thinking: thinkingOverrideRaw,
+            runTimeoutSeconds,
+            cleanup,
+          },
+          {
+            agentSessionKey: opts?.agentSessionKey,
+            agentChannel: opts?.agentChannel,
+            agentAccountId: opts?.agentAccountId,
+            agentTo: opts?.agentTo,
+            agentThreadId: opts?.agentThreadId,
+            agentGroupId: opts?.agentGroupId,
+            agentGroupChannel: opts?.agentGroupChannel,
+            agentGroupSpace: opts?.agentGroupSpace,
+            requesterAgentIdOverride: opts?.requesterAgentIdOverride,
+          },
+        );
+        return jsonResult(result);
+      }
+
+      const task = readStringParam(params, "task", { required: true });
       const result =
         runtime === "acp"
           ? await spawnAcpDirect(
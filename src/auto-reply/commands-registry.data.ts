@@ -199,11 +199,18 @@ function buildChatCommands(): ChatCommandDefinition[] {
     defineChatCommand({
       key: "export-session",
       nativeName: "export-session",
-      description: "Export current session to HTML file with full system prompt.",
+      description: "Export current session to HTML, Markdown, JSON or PDF.",
       textAliases: ["/export-session", "/export"],
       acceptsArgs: true,
       category: "status",
       args: [
+        {
+          name: "format",
+          description: "html | md | json | pdf (default: html)",
+          type: "string",
+          choices: ["html", "md", "json", "pdf"],
+          required: false,
+        },
         {
           name: "path",
           description: "Output path (default: workspace)",
@@ -563,6 +570,20 @@ function buildChatCommands(): ChatCommandDefinition[] {
         },
       ],
     }),
+    defineChatCommand({
+      key: "rollback",
+      nativeName: "rollback",
+      description: "Undo sandbox workspace changes from recent turns.",
+      textAlias: "/rollback",
+      category: "session",
+      args: [
+        {
+          name: "turns",
+          description: "Turns to undo (default 1)",
+          type: "number",
+        },
+      ],
+    }),
     defineChatCommand({
       key: "think",
       nativeName: "think",
@@ -695,7 +716,7 @@ function buildChatCommands(): ChatCommandDefinition[] {
           name: "mode",
           description: "queue mode",
           type: "string",
-          choices: ["steer", "interrupt", "followup", "collect", "steer-backlog"],
+          choices: ["steer", "interrupt", "followup", "collect", "steer-backlog", "priority"],
         },
         {
           name: "debounce",
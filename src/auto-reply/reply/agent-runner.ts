@@ -19,6 +19,12 @@ import { emitAgentEvent } from "../../infra/agent-events.js";
 import { emitDiagnosticEvent, isDiagnosticsEnabled } from "../../infra/diagnostic-events.js";
 import { generateSecureUuid } from "../../infra/secure-random.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
+import { trackUsageBudget } from "../../infra/usage-budget-warning.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStopMessage,
+  resolveUsageBudgetModel,
+} from "../../infra/usage-budgets.js";
 import { defaultRuntime } from "../../runtime.js";
 import { estimateUsageCost, resolveModelCostConfig } from "../../utils/usage-format.js";
 import {
@@ -255,6 +261,20 @@ export async function runReplyAgent(params: {
     return undefined;
   }
 
+  const budgetCheck = await checkUsageBudgets({
+    cfg,
+    agentId: followupRun.run.agentId,
+    channel: replyToChannel,
+    accountId: sessionCtx.AccountId,
+  });
+  const budgetModel = resolveUsageBudgetModel(budgetCheck, followupRun.run);
+  if (!budgetModel) {
+    typing.cleanup();
+    return { text: formatUsageBudgetStopMessage(budgetCheck) };
+  }
+  followupRun.run.provider = budgetModel.provider;
+  followupRun.run.model = budgetModel.model;
+
   await typingSignals.signalRunStart();
 
   activeSessionEntry = await runMemoryFlushIfNeeded({
@@ -505,6 +525,15 @@ export async function runReplyAgent(params: {
       systemPromptReport: runResult.meta?.systemPromptReport,
       cliSessionId,
     });
+    await trackUsageBudget({
+      cfg,
+      agentId: followupRun.run.agentId,
+      channel: replyToChannel,
+      accountId: sessionCtx.AccountId,
+      provider: providerUsed,
+      model: modelUsed,
+      usage,
+    });
 
     // Drain any late tool/block deliveries before deciding there's "nothing to send".
     // Otherwise, a late typing trigger (e.g. from a tool callback) can outlive the run and
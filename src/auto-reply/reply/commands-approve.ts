@@ -1,5 +1,9 @@
 import { callGateway } from "../../gateway/call.js";
 import { logVerbose } from "../../globals.js";
+import {
+  getOutboundApproval,
+  type OutboundApprovalDecision,
+} from "../../infra/outbound/outbound-approvals.js";
 import {
   GATEWAY_CLIENT_MODES,
   GATEWAY_CLIENT_NAMES,
@@ -60,6 +64,46 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
 }
 
+const OUTBOUND_DECISION_ALIASES: Record<string, OutboundApprovalDecision> = {
+  approve: "approve",
+  allow: "approve",
+  "allow-once": "approve",
+  send: "approve",
+  edit: "edit",
+  reject: "reject",
+  deny: "reject",
+  block: "reject",
+};
+
+type ParsedOutboundApproveCommand = {
+  id: string;
+  decision: OutboundApprovalDecision;
+  text?: string;
+};
+
+/**
+ * `/approve <id> approve|reject` or `/approve <id> edit <new text>` for held
+ * outbound messages. Edit text comes from the raw body to keep case and lines.
+ */
+function parseOutboundApproveCommand(
+  normalized: string,
+  rawBody: string,
+): ParsedOutboundApproveCommand | null {
+  const match = normalized.trim().match(/^\/approve\s+(\S+)\s+(\S+)/i);
+  if (!match) {
+    return null;
+  }
+  const decision = OUTBOUND_DECISION_ALIASES[match[2].toLowerCase()];
+  if (!decision) {
+    return null;
+  }
+  if (decision !== "edit") {
+    return { id: match[1], decision };
+  }
+  const text = rawBody.match(/\/approve\s+\S+\s+edit\s+([\s\S]*)$/i)?.[1]?.trim();
+  return { id: match[1], decision, ...(text ? { text } : {}) };
+}
+
 function buildResolvedByLabel(params: Parameters<CommandHandler>[0]): string {
   const channel = params.command.channel;
   const sender = params.command.senderId ?? "unknown";
@@ -82,10 +126,6 @@ export const handleApproveCommand: CommandHandler = async (params, allowTextComm
     return { shouldContinue: false };
   }
 
-  if (!parsed.ok) {
-    return { shouldContinue: false, reply: { text: parsed.error } };
-  }
-
   if (isInternalMessageChannel(params.command.channel)) {
     const scopes = params.ctx.GatewayClientScopes ?? [];
     const hasApprovals = scopes.includes("operator.approvals") || scopes.includes("operator.admin");
@@ -101,6 +141,47 @@ export const handleApproveCommand: CommandHandler = async (params, allowTextComm
   }
 
   const resolvedBy = buildResolvedByLabel(params);
+  const outbound = parseOutboundApproveCommand(
+    normalized,
+    params.ctx.CommandBody ?? params.ctx.RawBody ?? params.command.rawBodyNormalized,
+  );
+  if (outbound && (await getOutboundApproval(outbound.id))) {
+    if (outbound.decision === "edit" && !outbound.text) {
+      return {
+        shouldContinue: false,
+        reply: { text: "Usage: /approve <id> edit <new message text>" },
+      };
+    }
+    try {
+      await callGateway({
+        method: "outbound.approval.resolve",
+        params: outbound,
+        clientName: GATEWAY_CLIENT_NAMES.GATEWAY_CLIENT,
+        clientDisplayName: `Chat approval (${resolvedBy})`,
+        mode: GATEWAY_CLIENT_MODES.BACKEND,
+      });
+    } catch (err) {
+      return {
+        shouldContinue: false,
+        reply: { text: `❌ Failed to resolve outbound message: ${String(err)}` },
+      };
+    }
+    const verb =
+      outbound.decision === "reject"
+        ? "rejected"
+        : outbound.decision === "edit"
+          ? "edited and sent"
+          : "sent";
+    return {
+      shouldContinue: false,
+      reply: { text: `✅ Outbound message ${outbound.id} ${verb}.` },
+    };
+  }
+
+  if (!parsed.ok) {
+    return { shouldContinue: false, reply: { text: parsed.error } };
+  }
+
   try {
     await callGateway({
       method: "exec.approval.resolve",
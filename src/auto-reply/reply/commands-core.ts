@@ -20,6 +20,7 @@ import {
 } from "./commands-info.js";
 import { handleModelsCommand } from "./commands-models.js";
 import { handlePluginCommand } from "./commands-plugin.js";
+import { handleRollbackCommand } from "./commands-rollback.js";
 import {
   handleAbortTrigger,
   handleActivationCommand,
@@ -157,6 +158,7 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleModelsCommand,
       handleStopCommand,
       handleCompactCommand,
+      handleRollbackCommand,
       handleAbortTrigger,
     ];
   }
@@ -0,0 +1,75 @@
+import {
+  abortEmbeddedPiRun,
+  isEmbeddedPiRunActive,
+  waitForEmbeddedPiRunEnd,
+} from "../../agents/pi-embedded.js";
+import { rollbackSandboxSession } from "../../agents/sandbox.js";
+import { resolveSessionFilePath, resolveSessionFilePathOptions } from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import { enqueueSystemEvent } from "../../infra/system-events.js";
+import type { CommandHandler } from "./commands-types.js";
+
+function parseRollbackSteps(body: string): number | null {
+  const arg = body.slice("/rollback".length).trim();
+  if (!arg) {
+    return 1;
+  }
+  if (!/^\d+$/.test(arg)) {
+    return null;
+  }
+  const steps = Number.parseInt(arg, 10);
+  return steps >= 1 ? steps : null;
+}
+
+export const handleRollbackCommand: CommandHandler = async (params) => {
+  const body = params.command.commandBodyNormalized;
+  if (body !== "/rollback" && !body.startsWith("/rollback ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /rollback from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const steps = parseRollbackSteps(body);
+  if (steps === null) {
+    return {
+      shouldContinue: false,
+      reply: { text: "⚙️ Usage: /rollback [n] (n = turns to undo, default 1)." },
+    };
+  }
+
+  const sessionId = params.sessionEntry?.sessionId;
+  if (sessionId && isEmbeddedPiRunActive(sessionId)) {
+    abortEmbeddedPiRun(sessionId);
+    await waitForEmbeddedPiRunEnd(sessionId, 15_000);
+  }
+
+  try {
+    const result = await rollbackSandboxSession({
+      config: params.cfg,
+      sessionKey: params.sessionKey,
+      workspaceDir: params.workspaceDir,
+      steps,
+      sessionFile:
+        sessionId && params.sessionEntry
+          ? resolveSessionFilePath(
+              sessionId,
+              params.sessionEntry,
+              resolveSessionFilePathOptions({
+                agentId: params.agentId,
+                storePath: params.storePath,
+              }),
+            )
+          : undefined,
+    });
+    const undone = result.turns === 1 ? "last turn" : `last ${result.turns} turns`;
+    const line = `Sandbox workspace rolled back (${undone} undone).`;
+    enqueueSystemEvent(line, { sessionKey: params.sessionKey });
+    return { shouldContinue: false, reply: { text: `⚙️ ${line}` } };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { shouldContinue: false, reply: { text: `⚙️ Rollback failed: ${message}` } };
+  }
+};
@@ -1,4 +1,7 @@
-import { listSubagentRunsForRequester } from "../../agents/subagent-registry.js";
+import {
+  listSubagentGroupsForRequester,
+  listSubagentRunsForRequester,
+} from "../../agents/subagent-registry.js";
 import { logVerbose } from "../../globals.js";
 import { handleSubagentsAgentsAction } from "./commands-subagents/action-agents.js";
 import { handleSubagentsFocusAction } from "./commands-subagents/action-focus.js";
@@ -59,6 +62,7 @@ export const handleSubagentsCommand: CommandHandler = async (params, allowTextCo
     handledPrefix,
     requesterKey,
     runs: listSubagentRunsForRequester(requesterKey),
+    groups: listSubagentGroupsForRequester(requesterKey),
     restTokens,
   };
 
@@ -5,13 +5,14 @@ import {
   type SessionStoreCache,
   type SubagentsCommandContext,
   RECENT_WINDOW_MINUTES,
+  formatSubagentGroupLine,
   formatSubagentListLine,
   loadSubagentSessionEntry,
   stopWithText,
 } from "./shared.js";
 
 export function handleSubagentsListAction(ctx: SubagentsCommandContext): CommandHandlerResult {
-  const { params, runs } = ctx;
+  const { params, runs, groups } = ctx;
   const sorted = sortSubagentRuns(runs);
   const now = Date.now();
   const recentCutoff = now - RECENT_WINDOW_MINUTES * 60_000;
@@ -61,6 +62,18 @@ export function handleSubagentsListAction(ctx: SubagentsCommandContext): Command
   } else {
     lines.push(recentLines.join("\n"));
   }
+  if (groups.length > 0) {
+    const sortedGroups = groups.toSorted(
+      (a, b) =>
+        Number(Boolean(a.settledAt)) - Number(Boolean(b.settledAt)) || b.createdAt - a.createdAt,
+    );
+    lines.push(
+      "",
+      "subagent groups:",
+      "-----",
+      sortedGroups.map((group, i) => formatSubagentGroupLine({ group, index: i + 1 })).join("\n"),
+    );
+  }
 
   return stopWithText(lines.join("\n"));
 }
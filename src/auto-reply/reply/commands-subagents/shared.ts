@@ -1,4 +1,4 @@
-import type { SubagentRunRecord } from "../../../agents/subagent-registry.js";
+import type { SubagentGroupRecord, SubagentRunRecord } from "../../../agents/subagent-registry.js";
 import {
   extractAssistantText,
   resolveInternalSessionKey,
@@ -121,6 +121,19 @@ export function formatSubagentListLine(params: {
   return `${params.index}. ${label} (${resolveModelDisplay(params.sessionEntry, params.entry.model)}, ${runtime}${usageText ? `, ${usageText}` : ""}) ${status}${task.toLowerCase() !== label.toLowerCase() ? ` - ${task}` : ""}`;
 }
 
+export function formatSubagentGroupLine(params: { group: SubagentGroupRecord; index: number }) {
+  const { group } = params;
+  const label = truncateLine(group.label || group.groupId.slice(0, 8), 48);
+  const count = (statuses: string[]) =>
+    group.members.filter((member) => statuses.includes(member.status)).length;
+  const ok = count(["ok"]);
+  const running = count(["pending", "running"]);
+  const failed = group.members.length - ok - running;
+  const retried = group.members.filter((member) => member.attempts > 1).length;
+  const state = group.settledAt ? `settled (${group.settledReason ?? "done"})` : "running";
+  return `${params.index}. ${label} ${state} - ${ok} ok, ${running} running, ${failed} failed of ${group.members.length} (quorum ${group.quorum}${retried > 0 ? `, ${retried} retried` : ""})`;
+}
+
 function formatTimestamp(valueMs?: number) {
   if (!valueMs || !Number.isFinite(valueMs) || valueMs <= 0) {
     return "n/a";
@@ -155,6 +168,7 @@ export type SubagentsCommandContext = {
   handledPrefix: string;
   requesterKey: string;
   runs: SubagentRunRecord[];
+  groups: SubagentGroupRecord[];
   restTokens: string[];
 };
 
@@ -6,6 +6,7 @@ import { compactEmbeddedPiSession } from "../../agents/pi-embedded.js";
 import {
   addSubagentRunForTests,
   listSubagentRunsForRequester,
+  registerSubagentGroup,
   resetSubagentRegistryForTests,
 } from "../../agents/subagent-registry.js";
 import type { OpenClawConfig } from "../../config/config.js";
@@ -104,6 +105,11 @@ vi.mock("../../gateway/call.js", () => ({
   callGateway: (opts: unknown) => callGatewayMock(opts),
 }));
 
+const getOutboundApprovalMock = vi.fn(async (_id: string): Promise<unknown> => null);
+vi.mock("../../infra/outbound/outbound-approvals.js", () => ({
+  getOutboundApproval: (id: string) => getOutboundApprovalMock(id),
+}));
+
 import type { HandleCommandsParams } from "./commands-types.js";
 import { buildCommandContext, handleCommands } from "./commands.js";
 
@@ -289,6 +295,39 @@ describe("/approve command", () => {
     );
   });
 
+  it("resolves held outbound messages, including edits", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+    } as OpenClawConfig;
+    getOutboundApprovalMock
+      .mockResolvedValueOnce({ id: "held-1" })
+      .mockResolvedValueOnce({ id: "held-1" });
+    callGatewayMock.mockResolvedValue({ ok: true });
+
+    const edited = await handleCommands(
+      buildParams("/approve held-1 edit Hi Sam, see you at 3", cfg, { SenderId: "123" }),
+    );
+    expect(edited.reply?.text).toContain("Outbound message held-1 edited and sent");
+    expect(callGatewayMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        method: "outbound.approval.resolve",
+        params: { id: "held-1", decision: "edit", text: "Hi Sam, see you at 3" },
+      }),
+    );
+
+    const rejected = await handleCommands(
+      buildParams("/approve held-1 reject", cfg, { SenderId: "123" }),
+    );
+    expect(rejected.reply?.text).toContain("Outbound message held-1 rejected");
+    expect(callGatewayMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        method: "outbound.approval.resolve",
+        params: { id: "held-1", decision: "reject" },
+      }),
+    );
+  });
+
   it("rejects gateway clients without approvals scope", async () => {
     const cfg = {
       commands: { text: true },
@@ -1000,6 +1039,33 @@ describe("handleCommands subagents", () => {
     expect(result.reply?.text).not.toContain("after a short hard cutoff.");
   });
 
+  it("shows fan-out group progress in /subagents list", async () => {
+    registerSubagentGroup({
+      groupId: "5f0c2a9e-group",
+      requesterSessionKey: "agent:main:main",
+      requesterDisplayKey: "main",
+      label: "pr reviews",
+      resultSchema: { type: "object" },
+      quorum: 2,
+      maxRetries: 1,
+      cleanup: "keep",
+      createdAt: 1000,
+      members: [
+        { index: 0, task: "review a", status: "ok", attempts: 1 },
+        { index: 1, task: "review b", status: "running", attempts: 2 },
+        { index: 2, task: "review c", status: "error", attempts: 1 },
+      ],
+    });
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+    } as OpenClawConfig;
+    const result = await handleCommands(buildParams("/subagents list", cfg));
+    expect(result.reply?.text).toContain(
+      "subagent groups:\n-----\n1. pr reviews running - 1 ok, 1 running, 1 failed of 3 (quorum 2, 1 retried)",
+    );
+  });
+
   it("lists subagents for the current command session over the target session", async () => {
     addSubagentRunForTests({
       runId: "run-1",
@@ -9,6 +9,8 @@ import { createMockTypingController } from "./test-helpers.js";
 const runEmbeddedPiAgentMock = vi.fn();
 const routeReplyMock = vi.fn();
 const isRoutableChannelMock = vi.fn();
+const checkUsageBudgetsMock = vi.fn();
+const trackUsageBudgetMock = vi.fn();
 
 vi.mock(
   "../../agents/model-fallback.js",
@@ -19,6 +21,18 @@ vi.mock("../../agents/pi-embedded.js", () => ({
   runEmbeddedPiAgent: (params: unknown) => runEmbeddedPiAgentMock(params),
 }));
 
+vi.mock("../../infra/usage-budgets.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../infra/usage-budgets.js")>();
+  return {
+    ...actual,
+    checkUsageBudgets: (...args: unknown[]) => checkUsageBudgetsMock(...args),
+  };
+});
+
+vi.mock("../../infra/usage-budget-warning.js", () => ({
+  trackUsageBudget: (...args: unknown[]) => trackUsageBudgetMock(...args),
+}));
+
 vi.mock("./route-reply.js", async (importOriginal) => {
   const actual = await importOriginal<typeof import("./route-reply.js")>();
   return {
@@ -41,6 +55,10 @@ const ROUTABLE_TEST_CHANNELS = new Set([
 ]);
 
 beforeEach(() => {
+  checkUsageBudgetsMock.mockReset();
+  checkUsageBudgetsMock.mockResolvedValue({ state: "ok", crossings: [] });
+  trackUsageBudgetMock.mockReset();
+  trackUsageBudgetMock.mockResolvedValue(undefined);
   routeReplyMock.mockReset();
   routeReplyMock.mockResolvedValue({ ok: true });
   isRoutableChannelMock.mockReset();
@@ -539,3 +557,73 @@ describe("createFollowupRunner agentDir forwarding", () => {
     expect(call?.agentDir).toBe(agentDir);
   });
 });
+
+describe("createFollowupRunner usage budgets", () => {
+  const exhausted = {
+    state: "stop",
+    crossings: [
+      {
+        scope: "agent:main",
+        label: "agent main",
+        window: "daily",
+        metric: "tokens",
+        level: "stop",
+        used: 1_200,
+        limit: 1_000,
+      },
+    ],
+  };
+
+  it("refuses a queued turn once the budget is exhausted", async () => {
+    checkUsageBudgetsMock.mockResolvedValueOnce(exhausted);
+    runEmbeddedPiAgentMock.mockClear();
+    const onBlockReply = vi.fn(async () => {});
+    const runner = createFollowupRunner({
+      opts: { onBlockReply },
+      typing: createMockTypingController(),
+      typingMode: "instant",
+      defaultModel: "anthropic/claude-opus-4-5",
+    });
+
+    await runner(createQueuedRun({ run: { agentId: "main", messageProvider: "webchat" } }));
+
+    expect(checkUsageBudgetsMock).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId: "main", channel: "webchat", accountId: "primary" }),
+    );
+    expect(runEmbeddedPiAgentMock).not.toHaveBeenCalled();
+    expect(onBlockReply).toHaveBeenCalledWith({
+      text: expect.stringContaining("Usage budget exhausted (agent main: daily tokens"),
+    });
+  });
+
+  it("runs a queued turn on the fallback model and records its usage", async () => {
+    checkUsageBudgetsMock.mockResolvedValueOnce({ ...exhausted, fallbackModel: "openai/gpt-mini" });
+    runEmbeddedPiAgentMock.mockReset();
+    runEmbeddedPiAgentMock.mockResolvedValueOnce({
+      payloads: [{ text: "done" }],
+      meta: { agentMeta: { usage: { input: 10, output: 5 } } },
+    });
+    const onBlockReply = vi.fn(async () => {});
+    const runner = createFollowupRunner({
+      opts: { onBlockReply },
+      typing: createMockTypingController(),
+      typingMode: "instant",
+      defaultModel: "anthropic/claude-opus-4-5",
+    });
+
+    await runner(createQueuedRun({ run: { agentId: "main", messageProvider: "webchat" } }));
+
+    expect(runEmbeddedPiAgentMock).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "openai", model: "gpt-mini" }),
+    );
+    expect(trackUsageBudgetMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentId: "main",
+        provider: "openai",
+        model: "gpt-mini",
+        usage: { input: 10, output: 5 },
+      }),
+    );
+    expect(onBlockReply).toHaveBeenCalledWith(expect.objectContaining({ text: "done" }));
+  });
+});
@@ -8,6 +8,12 @@ import type { SessionEntry } from "../../config/sessions.js";
 import type { TypingMode } from "../../config/types.js";
 import { logVerbose } from "../../globals.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
+import { trackUsageBudget } from "../../infra/usage-budget-warning.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStopMessage,
+  resolveUsageBudgetModel,
+} from "../../infra/usage-budgets.js";
 import { defaultRuntime } from "../../runtime.js";
 import { stripHeartbeatToken } from "../heartbeat.js";
 import type { OriginatingChannelType } from "../templating.js";
@@ -136,15 +142,34 @@ export function createFollowupRunner(params: {
           verboseLevel: queued.run.verboseLevel,
         });
       }
+      const budgetChannel = resolveOriginMessageProvider({
+        originatingChannel: queued.originatingChannel,
+        provider: queued.run.messageProvider,
+      });
+      const budgetAccountId = resolveOriginAccountId({
+        originatingAccountId: queued.originatingAccountId,
+        accountId: queued.run.agentAccountId,
+      });
+      const budgetCheck = await checkUsageBudgets({
+        cfg: queued.run.config,
+        agentId: queued.run.agentId,
+        channel: budgetChannel,
+        accountId: budgetAccountId,
+      });
+      const budgetModel = resolveUsageBudgetModel(budgetCheck, queued.run);
+      if (!budgetModel) {
+        await sendFollowupPayloads([{ text: formatUsageBudgetStopMessage(budgetCheck) }], queued);
+        return;
+      }
       let autoCompactionCompleted = false;
       let runResult: Awaited<ReturnType<typeof runEmbeddedPiAgent>>;
-      let fallbackProvider = queued.run.provider;
-      let fallbackModel = queued.run.model;
+      let fallbackProvider = budgetModel.provider;
+      let fallbackModel = budgetModel.model;
       try {
         const fallbackResult = await runWithModelFallback({
           cfg: queued.run.config,
-          provider: queued.run.provider,
-          model: queued.run.model,
+          provider: budgetModel.provider,
+          model: budgetModel.model,
           agentDir: queued.run.agentDir,
           fallbacksOverride: resolveRunModelFallbacksOverride({
             cfg: queued.run.config,
@@ -233,6 +258,15 @@ export function createFollowupRunner(params: {
           logLabel: "followup",
         });
       }
+      await trackUsageBudget({
+        cfg: queued.run.config,
+        agentId: queued.run.agentId,
+        channel: budgetChannel,
+        accountId: budgetAccountId,
+        provider: fallbackProvider,
+        model: modelUsed,
+        usage,
+      });
 
       const payloadArray = runResult.payloads ?? [];
       if (payloadArray.length === 0) {
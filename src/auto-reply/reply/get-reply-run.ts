@@ -41,7 +41,7 @@ import { buildGroupChatContext, buildGroupIntro } from "./groups.js";
 import { buildInboundMetaSystemPrompt, buildInboundUserContextPrefix } from "./inbound-meta.js";
 import type { createModelSelectionState } from "./model-selection.js";
 import { resolveOriginMessageProvider } from "./origin-routing.js";
-import { resolveQueueSettings } from "./queue.js";
+import { resolveQueuePriority, resolveQueueSettings, shouldPreemptForPriority } from "./queue.js";
 import { routeReply } from "./route-reply.js";
 import { BARE_SESSION_RESET_PROMPT } from "./session-reset-prompt.js";
 import { ensureSkillSnapshot, prependSystemEvents } from "./session-updates.js";
@@ -430,7 +430,22 @@ export async function runPreparedReply(
   });
   const sessionLaneKey = resolveEmbeddedSessionLane(sessionKey ?? sessionIdFinal);
   const laneSize = getQueueSize(sessionLaneKey);
-  if (resolvedQueue.mode === "interrupt" && laneSize > 0) {
+  const priorityConfig = cfg.messages?.queue?.priority;
+  const queuePriority =
+    resolvedQueue.mode === "priority"
+      ? resolveQueuePriority({
+          config: priorityConfig,
+          text: baseBodyTrimmedRaw,
+          senderId: sessionCtx.SenderId?.trim() || undefined,
+          senderUsername: sessionCtx.SenderUsername?.trim() || undefined,
+          senderE164: sessionCtx.SenderE164?.trim() || undefined,
+          senderIsOwner: command.senderIsOwner,
+          wasMentioned: ctx.WasMentioned === true,
+        })
+      : undefined;
+  const shouldPreempt =
+    queuePriority !== undefined && shouldPreemptForPriority(queuePriority, priorityConfig);
+  if ((resolvedQueue.mode === "interrupt" || shouldPreempt) && laneSize > 0) {
     const cleared = clearCommandLane(sessionLaneKey);
     const aborted = abortEmbeddedPiRun(sessionIdFinal);
     logVerbose(`Interrupting ${sessionLaneKey} (cleared ${cleared}, aborted=${aborted})`);
@@ -442,7 +457,8 @@ export async function runPreparedReply(
   const shouldFollowup =
     resolvedQueue.mode === "followup" ||
     resolvedQueue.mode === "collect" ||
-    resolvedQueue.mode === "steer-backlog";
+    resolvedQueue.mode === "steer-backlog" ||
+    (resolvedQueue.mode === "priority" && !shouldPreempt);
   const authProfileId = await resolveSessionAuthProfileOverride({
     cfg,
     provider,
@@ -459,6 +475,7 @@ export async function runPreparedReply(
     messageId: sessionCtx.MessageSidFull ?? sessionCtx.MessageSid,
     summaryLine: baseBodyTrimmedRaw,
     enqueuedAt: Date.now(),
+    priority: queuePriority,
     // Originating channel for reply routing.
     originatingChannel: ctx.OriginatingChannel,
     originatingTo: ctx.OriginatingTo,
@@ -109,6 +109,34 @@ export function scheduleFollowupDrain(
           continue;
         }
 
+        if (queue.mode === "priority") {
+          // Items are kept sorted by priority. Overflow only ever drops the lowest
+          // level, so its summary waits until nothing higher-priority is queued.
+          const next = queue.items[0];
+          const summary =
+            next && (next.priority ?? 0) > 0
+              ? undefined
+              : previewQueueSummaryPrompt({ state: queue, noun: "lower-priority message" });
+          if (summary) {
+            const run = queue.lastRun;
+            if (!run) {
+              break;
+            }
+            await runFollowup({
+              prompt: summary,
+              run,
+              enqueuedAt: Date.now(),
+              ...resolveOriginRoutingMetadata(next ? [next] : []),
+            });
+            clearQueueSummaryState(queue);
+            continue;
+          }
+          if (!(await drainNextQueueItem(queue.items, runFollowup))) {
+            break;
+          }
+          continue;
+        }
+
         const summaryPrompt = previewQueueSummaryPrompt({ state: queue, noun: "message" });
         if (summaryPrompt) {
           const run = queue.lastRun;
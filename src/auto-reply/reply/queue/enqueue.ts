@@ -1,4 +1,5 @@
 import { applyQueueDropPolicy, shouldSkipQueueItem } from "../../../utils/queue-helpers.js";
+import { dropLowestPriority, insertByPriority } from "./priority.js";
 import { getExistingFollowupQueue, getFollowupQueue } from "./state.js";
 import type { FollowupRun, QueueDedupeMode, QueueSettings } from "./types.js";
 
@@ -44,15 +45,28 @@ export function enqueueFollowupRun(
   queue.lastEnqueuedAt = Date.now();
   queue.lastRun = run.run;
 
+  const byPriority = queue.mode === "priority";
+  let droppedIncoming = false;
   const shouldEnqueue = applyQueueDropPolicy({
     queue,
     summarize: (item) => item.summaryLine?.trim() || item.prompt.trim(),
+    drop: byPriority
+      ? (items, count) => {
+          const dropped = dropLowestPriority(items, count, run);
+          droppedIncoming = dropped.includes(run);
+          return dropped;
+        }
+      : undefined,
   });
-  if (!shouldEnqueue) {
+  if (!shouldEnqueue || droppedIncoming) {
     return false;
   }
 
-  queue.items.push(run);
+  if (byPriority) {
+    insertByPriority(queue.items, run);
+  } else {
+    queue.items.push(run);
+  }
   return true;
 }
 
@@ -23,6 +23,9 @@ export function normalizeQueueMode(raw?: string): QueueMode | undefined {
   if (cleaned === "steer+backlog" || cleaned === "steer-backlog" || cleaned === "steer_backlog") {
     return "steer-backlog";
   }
+  if (cleaned === "priority" || cleaned === "prio") {
+    return "priority";
+  }
   return undefined;
 }
 
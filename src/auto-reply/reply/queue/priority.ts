@@ -0,0 +1,118 @@
+import type { QueuePriorityConfig } from "../../../config/types.queue.js";
+import { stripSenderPrefix } from "../elevated-allowlist-matcher.js";
+import type { FollowupRun } from "./types.js";
+
+export const DEFAULT_QUEUE_PRIORITY_WEIGHTS = {
+  owner: 3,
+  sender: 2,
+  keyword: 2,
+  mention: 1,
+} as const;
+
+export const DEFAULT_QUEUE_PREEMPT_AT = 2;
+
+export type QueuePriorityParams = {
+  config?: QueuePriorityConfig;
+  text?: string;
+  senderId?: string;
+  senderUsername?: string;
+  senderE164?: string;
+  senderIsOwner?: boolean;
+  wasMentioned?: boolean;
+};
+
+function normalizeSenderToken(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  return stripSenderPrefix(String(value)).replace(/^@/, "").trim().toLowerCase();
+}
+
+function isPrioritySender(params: QueuePriorityParams): boolean {
+  const senders = params.config?.senders;
+  if (!senders || senders.length === 0) {
+    return false;
+  }
+  const allowed = new Set(senders.map(normalizeSenderToken).filter(Boolean));
+  return [params.senderId, params.senderUsername, params.senderE164].some((value) => {
+    const token = normalizeSenderToken(value);
+    return token ? allowed.has(token) : false;
+  });
+}
+
+function hasPriorityKeyword(params: QueuePriorityParams): boolean {
+  const text = params.text?.toLowerCase();
+  if (!text) {
+    return false;
+  }
+  return (params.config?.keywords ?? []).some((keyword) => {
+    const needle = keyword.trim().toLowerCase();
+    return needle ? text.includes(needle) : false;
+  });
+}
+
+/** Highest weight among the signals the message matches; 0 when none match. */
+export function resolveQueuePriority(params: QueuePriorityParams): number {
+  const weights = { ...DEFAULT_QUEUE_PRIORITY_WEIGHTS, ...params.config?.weights };
+  let priority = 0;
+  if (params.senderIsOwner) {
+    priority = Math.max(priority, weights.owner);
+  }
+  if (isPrioritySender(params)) {
+    priority = Math.max(priority, weights.sender);
+  }
+  if (hasPriorityKeyword(params)) {
+    priority = Math.max(priority, weights.keyword);
+  }
+  if (params.wasMentioned) {
+    priority = Math.max(priority, weights.mention);
+  }
+  return priority;
+}
+
+export function shouldPreemptForPriority(
+  priority: number,
+  config: QueuePriorityConfig | undefined,
+): boolean {
+  const preemptAt = config?.preemptAt ?? DEFAULT_QUEUE_PREEMPT_AT;
+  return preemptAt > 0 && priority >= preemptAt;
+}
+
+/** Inserts after every item of equal or higher priority so each level stays FIFO. */
+export function insertByPriority(items: FollowupRun[], run: FollowupRun): void {
+  const priority = run.priority ?? 0;
+  const index = items.findIndex((item) => (item.priority ?? 0) < priority);
+  if (index === -1) {
+    items.push(run);
+    return;
+  }
+  items.splice(index, 0, run);
+}
+
+/**
+ * Removes the oldest items of the lowest priority level first. The incoming run
+ * competes too: when it ranks below everything queued it is the one dropped.
+ */
+export function dropLowestPriority(
+  items: FollowupRun[],
+  count: number,
+  incoming?: FollowupRun,
+): FollowupRun[] {
+  const dropped: FollowupRun[] = [];
+  let candidate = incoming;
+  while (dropped.length < count && items.length > 0) {
+    let index = 0;
+    for (let i = 1; i < items.length; i += 1) {
+      if ((items[i]?.priority ?? 0) < (items[index]?.priority ?? 0)) {
+        index = i;
+      }
+    }
+    if (candidate && (candidate.priority ?? 0) < (items[index]?.priority ?? 0)) {
+      dropped.push(candidate);
+      candidate = undefined;
+      continue;
+    }
+    dropped.push(...items.splice(index, 1));
+  }
+  return dropped;
+}
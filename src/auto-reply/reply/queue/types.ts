@@ -5,7 +5,14 @@ import type { SessionEntry } from "../../../config/sessions.js";
 import type { OriginatingChannelType } from "../../templating.js";
 import type { ElevatedLevel, ReasoningLevel, ThinkLevel, VerboseLevel } from "../directives.js";
 
-export type QueueMode = "steer" | "followup" | "collect" | "steer-backlog" | "interrupt" | "queue";
+export type QueueMode =
+  | "steer"
+  | "followup"
+  | "collect"
+  | "steer-backlog"
+  | "interrupt"
+  | "queue"
+  | "priority";
 
 export type QueueDropPolicy = "old" | "new" | "summarize";
 
@@ -24,6 +31,8 @@ export type FollowupRun = {
   messageId?: string;
   summaryLine?: string;
   enqueuedAt: number;
+  /** Queue priority in `priority` mode (higher drains first; default 0). */
+  priority?: number;
   /**
    * Originating channel for reply routing.
    * When set, replies should be routed back to this provider
@@ -8,7 +8,12 @@ import { finalizeInboundContext } from "./inbound-context.js";
 import { normalizeInboundTextNewlines } from "./inbound-text.js";
 import { parseLineDirectives, hasLineDirectives } from "./line-directives.js";
 import type { FollowupRun, QueueSettings } from "./queue.js";
-import { enqueueFollowupRun, scheduleFollowupDrain } from "./queue.js";
+import {
+  enqueueFollowupRun,
+  resolveQueuePriority,
+  scheduleFollowupDrain,
+  shouldPreemptForPriority,
+} from "./queue.js";
 import { createReplyDispatcher } from "./reply-dispatcher.js";
 import { createReplyToModeFilter, resolveReplyToMode } from "./reply-threading.js";
 
@@ -1096,6 +1101,103 @@ describe("followup queue collect routing", () => {
   });
 });
 
+describe("followup queue priority mode", () => {
+  it("scores messages by owner, sender allowlist, keyword and mention", () => {
+    const config = { senders: ["@oncall", "+15550001"], keywords: ["outage"] };
+    expect(resolveQueuePriority({ config, text: "hi" })).toBe(0);
+    expect(resolveQueuePriority({ config, text: "hi", wasMentioned: true })).toBe(1);
+    expect(resolveQueuePriority({ config, text: "Big OUTAGE here" })).toBe(2);
+    expect(resolveQueuePriority({ config, senderUsername: "OnCall" })).toBe(2);
+    expect(resolveQueuePriority({ config, senderE164: "+15550001" })).toBe(2);
+    expect(resolveQueuePriority({ config, senderIsOwner: true, wasMentioned: true })).toBe(3);
+    expect(
+      resolveQueuePriority({ config: { weights: { mention: 5 } }, text: "hi", wasMentioned: true }),
+    ).toBe(5);
+    expect(shouldPreemptForPriority(2, undefined)).toBe(true);
+    expect(shouldPreemptForPriority(1, undefined)).toBe(false);
+    expect(shouldPreemptForPriority(3, { preemptAt: 0 })).toBe(false);
+  });
+
+  it("drains higher priorities first and summarizes the lowest-priority overflow", async () => {
+    const key = `test-priority-${Date.now()}`;
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      if (calls.length >= 4) {
+        done.resolve();
+      }
+    };
+    const settings: QueueSettings = {
+      mode: "priority",
+      debounceMs: 0,
+      cap: 3,
+      dropPolicy: "summarize",
+    };
+    const enqueue = (prompt: string, priority: number) =>
+      enqueueFollowupRun(
+        key,
+        { ...createRun({ prompt }), summaryLine: prompt, priority },
+        settings,
+      );
+
+    enqueue("chatty 1", 0);
+    enqueue("mention", 1);
+    enqueue("chatty 2", 0);
+    enqueue("oncall", 2);
+    enqueue("chatty 3", 0);
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done.promise;
+
+    expect(calls.map((call) => call.prompt)).toEqual([
+      "oncall",
+      "mention",
+      expect.stringContaining("[Queue overflow] Dropped 2 lower-priority messages due to cap."),
+      "chatty 3",
+    ]);
+    expect(calls[2]?.prompt).toContain("- chatty 1\n- chatty 2");
+  });
+
+  it("drops a low-priority arrival instead of queued higher-priority messages", async () => {
+    const key = `test-priority-arrival-${Date.now()}`;
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      if (calls.length >= 3) {
+        done.resolve();
+      }
+    };
+    const settings: QueueSettings = {
+      mode: "priority",
+      debounceMs: 0,
+      cap: 2,
+      dropPolicy: "summarize",
+    };
+    const enqueue = (prompt: string, priority: number) =>
+      enqueueFollowupRun(
+        key,
+        { ...createRun({ prompt }), summaryLine: prompt, priority },
+        settings,
+      );
+
+    expect(enqueue("mention", 1)).toBe(true);
+    expect(enqueue("oncall", 2)).toBe(true);
+    expect(enqueue("chatty", 0)).toBe(false);
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done.promise;
+
+    expect(calls.map((call) => call.prompt)).toEqual([
+      "oncall",
+      "mention",
+      expect.stringContaining("[Queue overflow] Dropped 1 lower-priority message due to cap."),
+    ]);
+    expect(calls[2]?.prompt).toContain("- chatty");
+  });
+});
+
 const emptyCfg = {} as OpenClawConfig;
 
 describe("createReplyDispatcher", () => {
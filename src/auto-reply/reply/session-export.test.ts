@@ -0,0 +1,194 @@
+import type { SessionEntry as PiSessionEntry, SessionHeader } from "@mariozechner/pi-coding-agent";
+import { describe, expect, it } from "vitest";
+import {
+  prepareSessionExport,
+  renderSessionExportJson,
+  renderSessionExportMarkdown,
+} from "./session-export.js";
+
+const header: SessionHeader = {
+  type: "session",
+  version: 3,
+  id: "sess-1234abcd",
+  timestamp: "2026-10-01T09:00:00.000Z",
+  cwd: "/work",
+};
+
+function message(
+  id: string,
+  parentId: string | null,
+  minute: number,
+  body: Record<string, unknown>,
+): PiSessionEntry {
+  return {
+    type: "message",
+    id,
+    parentId,
+    timestamp: `2026-10-01T09:${String(minute).padStart(2, "0")}:00.000Z`,
+    message: { timestamp: 0, ...body },
+  } as PiSessionEntry;
+}
+
+function assistant(text: string, extra: unknown[] = []) {
+  return {
+    role: "assistant",
+    content: [{ type: "text", text }, ...extra],
+    provider: "anthropic",
+    model: "claude-opus-4-6",
+    stopReason: "stop",
+  };
+}
+
+const entries: PiSessionEntry[] = [
+  message("u1", null, 1, {
+    role: "user",
+    content:
+      "Deploy with OPENAI_API_KEY=sk-abcdefghijklmnopqrstuvwx\n[media attached: /tmp/shot.png (image/png) | https://cdn.example/shot.png]",
+  }),
+  message(
+    "a1",
+    "u1",
+    2,
+    assistant("Running it.", [{ type: "toolCall", id: "c1", name: "exec", arguments: {} }]),
+  ),
+  message("t1", "a1", 3, {
+    role: "toolResult",
+    toolCallId: "c1",
+    toolName: "exec",
+    isError: false,
+    content: [
+      { type: "text", text: "deployed" },
+      { type: "image", data: Buffer.from("png-bytes").toString("base64"), mimeType: "image/png" },
+    ],
+    details: { stdout: "deployed" },
+  }),
+  message("a2", "t1", 4, assistant("Done.")),
+  message("u2", "a2", 30, { role: "user", content: "Now roll back." }),
+  message("a3", "u2", 31, assistant("Rolled back.")),
+  // Abandoned branch from the first answer.
+  message("x1", "a1", 5, assistant("Old branch.")),
+];
+
+describe("prepareSessionExport", () => {
+  it("redacts secrets and references media instead of embedding it", () => {
+    const data = prepareSessionExport({ header, entries, leafId: "a3" });
+
+    const json = renderSessionExportJson(data);
+    expect(json).not.toContain("sk-abcdefghijklmnopqrstuvwx");
+    expect(json).not.toContain(Buffer.from("png-bytes").toString("base64"));
+    expect(data.entries).toHaveLength(entries.length);
+    expect(data.attachments).toEqual([
+      {
+        entryId: "u1",
+        path: "/tmp/shot.png",
+        mimeType: "image/png",
+        url: "https://cdn.example/shot.png",
+      },
+      expect.objectContaining({ entryId: "t1", mimeType: "image/png", bytes: 9 }),
+    ]);
+  });
+
+  it("masks credential fields inside tool call arguments and tool result details", () => {
+    const data = prepareSessionExport({
+      header,
+      entries: [
+        message(
+          "a1",
+          null,
+          1,
+          assistant("Connecting.", [
+            {
+              type: "toolCall",
+              id: "c1",
+              name: "exec",
+              arguments: {
+                command: "psql",
+                password: "hunter2hunter2",
+                apiKey: "abcdefghijklmnopqrstuvwxyz",
+                env: { DB_PASSWORD: "s3cr3tvalue" },
+              },
+            },
+          ]),
+        ),
+        message("t1", "a1", 2, {
+          role: "toolResult",
+          toolCallId: "c1",
+          toolName: "exec",
+          isError: false,
+          content: [{ type: "text", text: "connected" }],
+          details: { session: { accessToken: "tok-0123456789abcdefghij" } },
+        }),
+      ],
+      leafId: "t1",
+    });
+
+    const json = renderSessionExportJson(data);
+    for (const secret of [
+      "hunter2hunter2",
+      "abcdefghijklmnopqrstuvwxyz",
+      "s3cr3tvalue",
+      "tok-0123456789abcdefghij",
+    ]) {
+      expect(json).not.toContain(secret);
+    }
+    expect(json).toContain('"command": "psql"');
+    expect(data.entries[0]?.type === "message" && data.entries[0].message).toMatchObject({
+      content: [
+        { type: "text" },
+        {
+          arguments: {
+            password: "***",
+            apiKey: "abcdef…wxyz",
+            env: { DB_PASSWORD: "***" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("filters by turn and time along the active branch and strips tool results", () => {
+    const data = prepareSessionExport({
+      header,
+      entries,
+      leafId: "a3",
+      options: { toTurn: 1, since: Date.parse("2026-10-01T09:02:00.000Z"), stripToolResults: true },
+    });
+
+    expect(data.entries.map((entry) => [entry.id, entry.parentId])).toEqual([
+      ["a1", null],
+      ["t1", "a1"],
+      ["a2", "t1"],
+    ]);
+    expect(data.leafId).toBe("a2");
+    const toolResult = data.entries[1];
+    expect(toolResult?.type === "message" && toolResult.message).toMatchObject({
+      content: [{ type: "text", text: "[tool result omitted from export]" }],
+      details: undefined,
+    });
+  });
+});
+
+describe("renderSessionExportMarkdown", () => {
+  it("renders the active branch with tool calls, results and attachments", () => {
+    const data = prepareSessionExport({
+      header,
+      entries,
+      leafId: "a3",
+      options: { redact: false },
+    });
+    const markdown = renderSessionExportMarkdown(data, { sessionKey: "agent:main:main" });
+
+    expect(markdown).toContain("# Session sess-1234abcd");
+    expect(markdown).toContain("- Session key: `agent:main:main`");
+    expect(markdown).toContain(
+      "### Assistant · 2026-10-01T09:02:00.000Z · anthropic/claude-opus-4-6",
+    );
+    expect(markdown).toContain("**Tool call:** `exec`");
+    expect(markdown).toContain("### Tool result · `exec` · 2026-10-01T09:03:00.000Z");
+    expect(markdown).toContain("Rolled back.");
+    expect(markdown).not.toContain("Old branch.");
+    expect(markdown).toContain(
+      "- `/tmp/shot.png` (image/png) | https://cdn.example/shot.png · entry `u1`",
+    );
+  });
+});
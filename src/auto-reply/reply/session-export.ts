@@ -0,0 +1,578 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { SessionEntry as PiSessionEntry, SessionHeader } from "@mariozechner/pi-coding-agent";
+import { isChromeReachable } from "../../browser/chrome.js";
+import { resolveBrowserConfig, resolveProfile } from "../../browser/config.js";
+import { getPwAiModule } from "../../browser/pw-ai-module.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import {
+  isSensitiveFieldName,
+  maskSensitiveValue,
+  redactSensitiveText,
+} from "../../logging/redact.js";
+
+// Export HTML templates are bundled with this module
+const EXPORT_HTML_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "export-html");
+
+export const SESSION_EXPORT_FORMATS = ["html", "md", "json", "pdf"] as const;
+
+export type SessionExportFormat = (typeof SESSION_EXPORT_FORMATS)[number];
+
+export type SessionExportFilter = {
+  /** Drop entries older than this (epoch ms). */
+  since?: number;
+  /** Drop entries newer than this (epoch ms). */
+  until?: number;
+  /** First user turn to keep (1-based). */
+  fromTurn?: number;
+  /** Last user turn to keep (1-based, inclusive). */
+  toTurn?: number;
+};
+
+export type SessionExportOptions = SessionExportFilter & {
+  /** Replace tool result bodies with a placeholder (default: keep them). */
+  stripToolResults?: boolean;
+  /** Mask secrets via the logging redaction patterns (default: true). */
+  redact?: boolean;
+  /** Extra patterns; defaults to `logging.redactPatterns` semantics (built-ins when empty). */
+  redactPatterns?: string[];
+};
+
+export type SessionExportTool = { name: string; description?: string; parameters?: unknown };
+
+export type SessionExportAttachment = {
+  entryId: string;
+  mimeType?: string;
+  /** Local path recorded by the `[media attached: ...]` note. */
+  path?: string;
+  url?: string;
+  /** Inline image payloads are not exported; their digest identifies them instead. */
+  sha256?: string;
+  bytes?: number;
+};
+
+export type SessionExportData = {
+  header: SessionHeader | null;
+  entries: PiSessionEntry[];
+  leafId: string | null;
+  systemPrompt?: string;
+  tools?: SessionExportTool[];
+  attachments: SessionExportAttachment[];
+  /** True when filters removed entries; the export then only covers the active branch. */
+  filtered: boolean;
+};
+
+const TOOL_RESULT_PLACEHOLDER = "[tool result omitted from export]";
+const MEDIA_ATTACHED_PATTERN = /\[media attached(?:\s+\d+\/\d+)?:\s*([^\]]+)\]/gi;
+
+export function isSessionExportFormat(value: string): value is SessionExportFormat {
+  return (SESSION_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function resolveSessionExportFileName(sessionId: string, format: SessionExportFormat) {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  return `openclaw-session-${sessionId.slice(0, 8)}-${timestamp}.${format}`;
+}
+
+function hasFilter(options: SessionExportFilter): boolean {
+  return (
+    options.since !== undefined ||
+    options.until !== undefined ||
+    options.fromTurn !== undefined ||
+    options.toTurn !== undefined
+  );
+}
+
+/** Walks parent links from the leaf so exports follow the conversation the agent saw. */
+function resolveActiveBranch(entries: PiSessionEntry[], leafId: string | null): PiSessionEntry[] {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const branch: PiSessionEntry[] = [];
+  const seen = new Set<string>();
+  let current = leafId ? byId.get(leafId) : entries.at(-1);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    branch.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch.toReversed();
+}
+
+function isUserTurnStart(entry: PiSessionEntry): boolean {
+  return entry.type === "message" && entry.message.role === "user";
+}
+
+function filterBranch(branch: PiSessionEntry[], options: SessionExportFilter): PiSessionEntry[] {
+  let turn = 0;
+  const kept: PiSessionEntry[] = [];
+  for (const entry of branch) {
+    if (isUserTurnStart(entry)) {
+      turn += 1;
+    }
+    if (options.fromTurn !== undefined && turn < options.fromTurn) {
+      continue;
+    }
+    if (options.toTurn !== undefined && turn > options.toTurn) {
+      break;
+    }
+    const ts = Date.parse(entry.timestamp);
+    if (Number.isFinite(ts)) {
+      if (options.since !== undefined && ts < options.since) {
+        continue;
+      }
+      if (options.until !== undefined && ts > options.until) {
+        continue;
+      }
+    }
+    kept.push(entry);
+  }
+  // Relink so the HTML viewer still sees a single connected path.
+  return kept.map((entry, index) => ({ ...entry, parentId: kept[index - 1]?.id ?? null }));
+}
+
+function collectMediaNotes(entryId: string, text: string, out: SessionExportAttachment[]) {
+  for (const match of text.matchAll(MEDIA_ATTACHED_PATTERN)) {
+    const content = match[1]?.trim() ?? "";
+    if (!content || /^\d+\s+files?$/i.test(content)) {
+      continue;
+    }
+    const [rawPath, rawUrl] = content.split(" | ");
+    const typed = /^(.*?)\s+\(([^()]+)\)$/.exec(rawPath?.trim() ?? "");
+    out.push({
+      entryId,
+      path: (typed?.[1] ?? rawPath)?.trim() || undefined,
+      mimeType: typed?.[2]?.trim(),
+      url: rawUrl?.trim() || undefined,
+    });
+  }
+}
+
+/** Swaps inline image payloads for a text reference and records every attachment. */
+function referenceMedia(
+  entryId: string,
+  content: unknown,
+  out: SessionExportAttachment[],
+): unknown {
+  if (typeof content === "string") {
+    collectMediaNotes(entryId, content, out);
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return content;
+  }
+  return content.map((block: unknown) => {
+    if (!block || typeof block !== "object") {
+      return block;
+    }
+    const record = block as { type?: unknown; text?: unknown; data?: unknown; mimeType?: unknown };
+    if (record.type === "text" && typeof record.text === "string") {
+      collectMediaNotes(entryId, record.text, out);
+      return block;
+    }
+    if (record.type !== "image" || typeof record.data !== "string") {
+      return block;
+    }
+    const bytes = Buffer.from(record.data, "base64");
+    const attachment: SessionExportAttachment = {
+      entryId,
+      mimeType: typeof record.mimeType === "string" ? record.mimeType : undefined,
+      sha256: crypto.createHash("sha256").update(bytes).digest("hex"),
+      bytes: bytes.length,
+    };
+    out.push(attachment);
+    return {
+      type: "text",
+      text: `[image: ${attachment.mimeType ?? "unknown type"}, ${attachment.bytes} bytes, sha256:${attachment.sha256?.slice(0, 16)}]`,
+    };
+  });
+}
+
+function transformEntry(
+  entry: PiSessionEntry,
+  options: SessionExportOptions,
+  attachments: SessionExportAttachment[],
+): PiSessionEntry {
+  if (entry.type === "custom_message") {
+    return {
+      ...entry,
+      content: referenceMedia(entry.id, entry.content, attachments) as typeof entry.content,
+    };
+  }
+  if (entry.type !== "message" || !("content" in entry.message)) {
+    return entry;
+  }
+  const message = entry.message;
+  if (message.role === "toolResult" && options.stripToolResults) {
+    return {
+      ...entry,
+      message: {
+        ...message,
+        content: [{ type: "text", text: TOOL_RESULT_PLACEHOLDER }],
+        details: undefined,
+      },
+    };
+  }
+  return {
+    ...entry,
+    message: {
+      ...message,
+      content: referenceMedia(entry.id, message.content, attachments),
+    } as typeof message,
+  };
+}
+
+function redactDeep<T>(value: T, patterns: string[] | undefined): T {
+  if (typeof value === "string") {
+    return redactSensitiveText(value, { mode: "tools", patterns }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => redactDeep(item, patterns)) as T;
+  }
+  if (value && typeof value === "object") {
+    // Structured values (tool arguments, result details, env maps) lose the key
+    // the text patterns match on, so mask credential fields by name instead.
+    const next: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      next[key] =
+        typeof item === "string" && isSensitiveFieldName(key)
+          ? maskSensitiveValue(item)
+          : redactDeep(item, patterns);
+    }
+    return next as T;
+  }
+  return value;
+}
+
+/**
+ * Applies filters, tool-result stripping, media references and redaction.
+ * Without filters the full entry tree is kept so the HTML viewer can still
+ * browse abandoned branches.
+ */
+export function prepareSessionExport(params: {
+  header: SessionHeader | null;
+  entries: PiSessionEntry[];
+  leafId: string | null;
+  systemPrompt?: string;
+  tools?: SessionExportTool[];
+  options?: SessionExportOptions;
+}): SessionExportData {
+  const options = params.options ?? {};
+  const filtered = hasFilter(options);
+  const selected = filtered
+    ? filterBranch(resolveActiveBranch(params.entries, params.leafId), options)
+    : params.entries;
+  const attachments: SessionExportAttachment[] = [];
+  const entries = selected.map((entry) => transformEntry(entry, options, attachments));
+  const data: SessionExportData = {
+    header: params.header,
+    entries,
+    leafId: filtered ? (entries.at(-1)?.id ?? null) : params.leafId,
+    systemPrompt: params.systemPrompt,
+    tools: params.tools,
+    attachments,
+    filtered,
+  };
+  return options.redact === false ? data : redactDeep(data, options.redactPatterns);
+}
+
+function loadTemplate(fileName: string): string {
+  return fs.readFileSync(path.join(EXPORT_HTML_DIR, fileName), "utf-8");
+}
+
+export function renderSessionExportHtml(data: SessionExportData): string {
+  const template = loadTemplate("template.html");
+  const templateCss = loadTemplate("template.css");
+  const templateJs = loadTemplate("template.js");
+  const markedJs = loadTemplate(path.join("vendor", "marked.min.js"));
+  const hljsJs = loadTemplate(path.join("vendor", "highlight.min.js"));
+
+  // Use pi-mono dark theme colors (matching their theme/dark.json)
+  const themeVars = `
+    --cyan: #00d7ff;
+    --blue: #5f87ff;
+    --green: #b5bd68;
+    --red: #cc6666;
+    --yellow: #ffff00;
+    --gray: #808080;
+    --dimGray: #666666;
+    --darkGray: #505050;
+    --accent: #8abeb7;
+    --selectedBg: #3a3a4a;
+    --userMsgBg: #343541;
+    --toolPendingBg: #282832;
+    --toolSuccessBg: #283228;
+    --toolErrorBg: #3c2828;
+    --customMsgBg: #2d2838;
+    --text: #e0e0e0;
+    --dim: #666666;
+    --muted: #808080;
+    --border: #5f87ff;
+    --borderAccent: #00d7ff;
+    --borderMuted: #505050;
+    --success: #b5bd68;
+    --error: #cc6666;
+    --warning: #ffff00;
+    --thinkingText: #808080;
+    --userMessageBg: #343541;
+    --userMessageText: #e0e0e0;
+    --customMessageBg: #2d2838;
+    --customMessageText: #e0e0e0;
+    --customMessageLabel: #9575cd;
+    --toolTitle: #e0e0e0;
+    --toolOutput: #808080;
+    --mdHeading: #f0c674;
+    --mdLink: #81a2be;
+    --mdLinkUrl: #666666;
+    --mdCode: #8abeb7;
+    --mdCodeBlock: #b5bd68;
+  `;
+  const bodyBg = "#1e1e28";
+  const containerBg = "#282832";
+  const infoBg = "#343541";
+
+  // Base64 encode session data
+  const sessionDataBase64 = Buffer.from(
+    JSON.stringify({
+      header: data.header,
+      entries: data.entries,
+      leafId: data.leafId,
+      systemPrompt: data.systemPrompt,
+      tools: data.tools,
+    }),
+  ).toString("base64");
+
+  // Build CSS with theme variables
+  const css = templateCss
+    .replace("/* {{THEME_VARS}} */", themeVars.trim())
+    .replace("/* {{BODY_BG_DECL}} */", `--body-bg: ${bodyBg};`)
+    .replace("/* {{CONTAINER_BG_DECL}} */", `--container-bg: ${containerBg};`)
+    .replace("/* {{INFO_BG_DECL}} */", `--info-bg: ${infoBg};`);
+
+  return template
+    .replace("{{CSS}}", css)
+    .replace("{{JS}}", templateJs)
+    .replace("{{SESSION_DATA}}", sessionDataBase64)
+    .replace("{{MARKED_JS}}", markedJs)
+    .replace("{{HIGHLIGHT_JS}}", hljsJs);
+}
+
+export function renderSessionExportJson(
+  data: SessionExportData,
+  meta: { sessionKey?: string; filter?: SessionExportFilter } = {},
+): string {
+  const payload = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    sessionKey: meta.sessionKey,
+    filter: meta.filter && hasFilter(meta.filter) ? meta.filter : undefined,
+    header: data.header,
+    leafId: data.leafId,
+    systemPrompt: data.systemPrompt,
+    tools: data.tools,
+    entries: data.entries,
+    attachments: data.attachments,
+  };
+  return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+/** Uses a fence longer than any backtick run in the text so content cannot break out. */
+function fenced(text: string, lang = ""): string {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function formatMarkdownArgs(args: unknown): string {
+  try {
+    return JSON.stringify(args ?? {}, null, 2);
+  } catch {
+    return String(args);
+  }
+}
+
+function renderMarkdownContent(content: unknown): string[] {
+  if (typeof content === "string") {
+    return content.trim() ? [content.trim()] : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  const parts: string[] = [];
+  for (const block of content as Array<Record<string, unknown>>) {
+    if (block?.type === "text" && typeof block.text === "string" && block.text.trim()) {
+      parts.push(block.text.trim());
+    } else if (block?.type === "thinking" && typeof block.thinking === "string") {
+      const thinking = block.thinking.trim();
+      if (thinking) {
+        parts.push(
+          thinking
+            .split("\n")
+            .map((line, index) => (index === 0 ? `> _Thinking:_ ${line}` : `> ${line}`))
+            .join("\n"),
+        );
+      }
+    } else if (block?.type === "toolCall") {
+      parts.push(
+        `**Tool call:** \`${String(block.name)}\`\n\n${fenced(formatMarkdownArgs(block.arguments), "json")}`,
+      );
+    }
+  }
+  return parts;
+}
+
+function formatEntryTime(timestamp: string): string {
+  const ts = Date.parse(timestamp);
+  return Number.isFinite(ts) ? new Date(ts).toISOString() : timestamp;
+}
+
+function renderMarkdownEntry(entry: PiSessionEntry): string | null {
+  const time = formatEntryTime(entry.timestamp);
+  switch (entry.type) {
+    case "message": {
+      const message = entry.message;
+      if (message.role === "user") {
+        return [`### User · ${time}`, ...renderMarkdownContent(message.content)].join("\n\n");
+      }
+      if (message.role === "assistant") {
+        const heading = `### Assistant · ${time} · ${message.provider}/${message.model}`;
+        const body = renderMarkdownContent(message.content);
+        if (message.stopReason === "error" && message.errorMessage) {
+          body.push(`_Error:_ ${message.errorMessage}`);
+        }
+        return [heading, ...body].join("\n\n");
+      }
+      if (message.role === "toolResult") {
+        const status = message.isError ? " (error)" : "";
+        const text = renderMarkdownContent(message.content).join("\n\n");
+        return `### Tool result · \`${message.toolName}\`${status} · ${time}\n\n${fenced(text, "text")}`;
+      }
+      return null;
+    }
+    case "compaction":
+      return `### Compaction summary · ${time}\n\n${entry.summary.trim()}`;
+    case "branch_summary":
+      return `### Branch summary · ${time}\n\n${entry.summary.trim()}`;
+    case "custom_message":
+      if (!entry.display) {
+        return null;
+      }
+      return [`### ${entry.customType} · ${time}`, ...renderMarkdownContent(entry.content)].join(
+        "\n\n",
+      );
+    case "model_change":
+      return `_Model changed to ${entry.provider}/${entry.modelId} · ${time}_`;
+    case "thinking_level_change":
+      return `_Thinking level set to ${entry.thinkingLevel} · ${time}_`;
+    default:
+      return null;
+  }
+}
+
+export function renderSessionExportMarkdown(
+  data: SessionExportData,
+  meta: { sessionKey?: string; filter?: SessionExportFilter } = {},
+): string {
+  const header = data.header;
+  const lines = [`# Session ${header?.id ?? "export"}`, ""];
+  if (meta.sessionKey) {
+    lines.push(`- Session key: \`${meta.sessionKey}\``);
+  }
+  if (header?.timestamp) {
+    lines.push(`- Started: ${formatEntryTime(header.timestamp)}`);
+  }
+  if (header?.cwd) {
+    lines.push(`- Working directory: \`${header.cwd}\``);
+  }
+  lines.push(`- Exported: ${new Date().toISOString()}`);
+  const filter = meta.filter;
+  if (filter && hasFilter(filter)) {
+    const parts = [
+      filter.since !== undefined ? `since ${new Date(filter.since).toISOString()}` : "",
+      filter.until !== undefined ? `until ${new Date(filter.until).toISOString()}` : "",
+      filter.fromTurn !== undefined ? `from turn ${filter.fromTurn}` : "",
+      filter.toTurn !== undefined ? `to turn ${filter.toTurn}` : "",
+    ].filter(Boolean);
+    lines.push(`- Filter: ${parts.join(", ")}`);
+  }
+
+  if (data.systemPrompt) {
+    lines.push("", "## System prompt", "", fenced(data.systemPrompt, "text"));
+  }
+  if (data.tools && data.tools.length > 0) {
+    lines.push("", "## Tools", "");
+    for (const tool of data.tools) {
+      const description = tool.description?.split("\n")[0]?.trim();
+      lines.push(`- \`${tool.name}\`${description ? `: ${description}` : ""}`);
+    }
+  }
+
+  // Markdown is linear, so it always follows the active branch.
+  const branch = data.filtered ? data.entries : resolveActiveBranch(data.entries, data.leafId);
+  lines.push("", "## Transcript");
+  for (const entry of branch) {
+    const rendered = renderMarkdownEntry(entry);
+    if (rendered) {
+      lines.push("", rendered);
+    }
+  }
+
+  if (data.attachments.length > 0) {
+    lines.push("", "## Attachments", "");
+    for (const attachment of data.attachments) {
+      const ref = attachment.path
+        ? `\`${attachment.path}\``
+        : `inline image sha256:${attachment.sha256} (${attachment.bytes} bytes)`;
+      const type = attachment.mimeType ? ` (${attachment.mimeType})` : "";
+      const url = attachment.url ? ` | ${attachment.url}` : "";
+      lines.push(`- ${ref}${type}${url} · entry \`${attachment.entryId}\``);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Prints the HTML export through the managed browser; throws when it is not running. */
+export async function renderSessionExportPdf(html: string, cfg: OpenClawConfig): Promise<Buffer> {
+  const resolved = resolveBrowserConfig(cfg.browser, cfg);
+  if (!resolved.enabled) {
+    throw new Error("PDF export needs the managed browser, but browser.enabled is false.");
+  }
+  const profile = resolveProfile(resolved, resolved.defaultProfile);
+  if (!profile || profile.driver === "extension") {
+    throw new Error(
+      `PDF export needs a managed browser profile; "${resolved.defaultProfile}" is not one.`,
+    );
+  }
+  if (!(await isChromeReachable(profile.cdpUrl))) {
+    throw new Error(
+      `PDF export needs the managed browser, which is not running (profile "${profile.name}"). Start it with \`openclaw browser start\` or export html instead.`,
+    );
+  }
+  const pw = await getPwAiModule();
+  if (!pw) {
+    throw new Error("PDF export needs Playwright, which is not available in this install.");
+  }
+  const { buffer } = await pw.renderHtmlPdfViaPlaywright({ cdpUrl: profile.cdpUrl, html });
+  return buffer;
+}
+
+/** Renders the prepared export; PDF goes through the HTML renderer. */
+export async function renderSessionExport(params: {
+  data: SessionExportData;
+  format: SessionExportFormat;
+  cfg: OpenClawConfig;
+  sessionKey?: string;
+  filter?: SessionExportFilter;
+}): Promise<string | Buffer> {
+  const meta = { sessionKey: params.sessionKey, filter: params.filter };
+  switch (params.format) {
+    case "md":
+      return renderSessionExportMarkdown(params.data, meta);
+    case "json":
+      return renderSessionExportJson(params.data, meta);
+    case "pdf":
+      return await renderSessionExportPdf(renderSessionExportHtml(params.data), params.cfg);
+    default:
+      return renderSessionExportHtml(params.data);
+  }
+}
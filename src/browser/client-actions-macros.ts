@@ -0,0 +1,129 @@
+import type { SecretInput } from "../config/types.secrets.js";
+import { buildProfileQuery, withBaseUrl } from "./client-actions-url.js";
+import { fetchBrowserJson } from "./client-fetch.js";
+
+export type BrowserMacroSummary = {
+  name: string;
+  description?: string;
+  steps: number;
+  params: string[];
+  defaults: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type BrowserMacroListResult = {
+  ok: true;
+  profile: string;
+  recording: { name: string; startedAt: number; steps: number } | null;
+  macros: BrowserMacroSummary[];
+};
+
+export type BrowserMacroRunResult = {
+  ok: boolean;
+  name: string;
+  targetId: string;
+  completed: number;
+  total: number;
+  failedStep?: { index: number; kind: string; error: string };
+};
+
+async function postMacroRequest<T>(
+  baseUrl: string | undefined,
+  route: string,
+  body: Record<string, unknown>,
+  opts: { profile?: string; timeoutMs?: number },
+): Promise<T> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<T>(withBaseUrl(baseUrl, `${route}${q}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    timeoutMs: opts.timeoutMs ?? 20000,
+  });
+}
+
+export async function browserMacros(
+  baseUrl: string | undefined,
+  opts: { profile?: string } = {},
+): Promise<BrowserMacroListResult> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<BrowserMacroListResult>(withBaseUrl(baseUrl, `/macros${q}`), {
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserMacroRecordStart(
+  baseUrl: string | undefined,
+  opts: { name: string; profile?: string },
+): Promise<{ ok: true; profile: string; name: string; recording: true }> {
+  return await postMacroRequest(baseUrl, "/macros/record/start", { name: opts.name }, opts);
+}
+
+export async function browserMacroRecordStop(
+  baseUrl: string | undefined,
+  opts: {
+    save?: boolean;
+    description?: string;
+    /** Param name -> literal typed while recording. */
+    params?: Record<string, string>;
+    defaults?: Record<string, SecretInput>;
+    /** Save typed text verbatim instead of turning it into generated `inputN` params. */
+    keepLiterals?: boolean;
+    profile?: string;
+  },
+): Promise<{
+  ok: true;
+  name?: string;
+  saved: boolean;
+  macro?: BrowserMacroSummary;
+  generatedParams?: string[];
+}> {
+  return await postMacroRequest(
+    baseUrl,
+    "/macros/record/stop",
+    {
+      save: opts.save,
+      description: opts.description,
+      params: opts.params,
+      defaults: opts.defaults,
+      keepLiterals: opts.keepLiterals,
+    },
+    opts,
+  );
+}
+
+export async function browserMacroRun(
+  baseUrl: string | undefined,
+  opts: {
+    name: string;
+    params?: Record<string, SecretInput>;
+    targetId?: string;
+    timeoutMs?: number;
+    profile?: string;
+  },
+): Promise<BrowserMacroRunResult> {
+  return await postMacroRequest(
+    baseUrl,
+    "/macros/run",
+    {
+      name: opts.name,
+      params: opts.params,
+      targetId: opts.targetId,
+      timeoutMs: opts.timeoutMs,
+    },
+    // Replays run many steps; give the whole macro more room than a single act.
+    { profile: opts.profile, timeoutMs: 120_000 },
+  );
+}
+
+export async function browserMacroDelete(
+  baseUrl: string | undefined,
+  opts: { name: string; profile?: string },
+): Promise<{ ok: true; name: string; deleted: true }> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson(
+    withBaseUrl(baseUrl, `/macros/${encodeURIComponent(opts.name)}${q}`),
+    { method: "DELETE", timeoutMs: 20000 },
+  );
+}
@@ -0,0 +1,86 @@
+import type { BrowserActionTargetOk } from "./client-actions-types.js";
+import { buildProfileQuery, withBaseUrl } from "./client-actions-url.js";
+import { fetchBrowserJson } from "./client-fetch.js";
+import type { BrowserNetworkRule, BrowserNetworkRuleInput } from "./pw-tools-core.network.js";
+
+export type { BrowserNetworkRule, BrowserNetworkRuleInput };
+
+async function postNetworkRequest<T>(
+  baseUrl: string | undefined,
+  route: string,
+  body: Record<string, unknown>,
+  profile?: string,
+): Promise<T> {
+  const q = buildProfileQuery(profile);
+  return await fetchBrowserJson<T>(withBaseUrl(baseUrl, `${route}${q}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserNetworkRules(
+  baseUrl: string | undefined,
+  opts: { targetId?: string; profile?: string } = {},
+): Promise<{ ok: true; targetId: string; rules: BrowserNetworkRule[] }> {
+  const q = new URLSearchParams();
+  if (opts.targetId) {
+    q.set("targetId", opts.targetId);
+  }
+  if (opts.profile) {
+    q.set("profile", opts.profile);
+  }
+  const suffix = q.toString() ? `?${q.toString()}` : "";
+  return await fetchBrowserJson(withBaseUrl(baseUrl, `/network/rules${suffix}`), {
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserNetworkRuleAdd(
+  baseUrl: string | undefined,
+  opts: { rule: BrowserNetworkRuleInput; targetId?: string; profile?: string },
+): Promise<{ ok: true; targetId: string; rule: BrowserNetworkRule }> {
+  return await postNetworkRequest(
+    baseUrl,
+    "/network/rules",
+    { ...opts.rule, targetId: opts.targetId },
+    opts.profile,
+  );
+}
+
+export async function browserNetworkRulesClear(
+  baseUrl: string | undefined,
+  opts: { id?: string; targetId?: string; profile?: string } = {},
+): Promise<{ ok: true; targetId: string; removed: number }> {
+  return await postNetworkRequest(
+    baseUrl,
+    "/network/rules/clear",
+    { id: opts.id, targetId: opts.targetId },
+    opts.profile,
+  );
+}
+
+export async function browserHarStart(
+  baseUrl: string | undefined,
+  opts: { content?: boolean; targetId?: string; profile?: string } = {},
+): Promise<BrowserActionTargetOk> {
+  return await postNetworkRequest(
+    baseUrl,
+    "/har/start",
+    { content: opts.content, targetId: opts.targetId },
+    opts.profile,
+  );
+}
+
+export async function browserHarStop(
+  baseUrl: string | undefined,
+  opts: { path?: string; targetId?: string; profile?: string } = {},
+): Promise<{ ok: true; targetId: string; path: string; entries: number; dropped: number }> {
+  return await postNetworkRequest(
+    baseUrl,
+    "/har/stop",
+    { path: opts.path, targetId: opts.targetId },
+    opts.profile,
+  );
+}
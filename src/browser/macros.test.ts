@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  appendBrowserMacroStep,
+  applyBrowserMacroParams,
+  deleteBrowserMacro,
+  getBrowserMacroRecording,
+  listBrowserMacroParams,
+  listBrowserMacros,
+  loadBrowserMacro,
+  normalizeBrowserMacroName,
+  parameterizeBrowserMacroSteps,
+  redactBrowserMacroTypedText,
+  resetBrowserMacroRecordingsForTest,
+  saveBrowserMacro,
+  startBrowserMacroRecording,
+  stopBrowserMacroRecording,
+  type BrowserMacro,
+  type BrowserMacroStep,
+} from "./macros.js";
+
+const loginSteps: BrowserMacroStep[] = [
+  { kind: "navigate", args: { url: "https://example.com/login?user=alice" } },
+  {
+    kind: "type",
+    args: { text: "alice" },
+    target: { role: "textbox", name: "Username", selectors: ['input[name="user"]'] },
+  },
+  {
+    kind: "fill",
+    args: { fields: [{ type: "text", value: "hunter2" }] },
+    fieldTargets: [{ selectors: ["#password"] }],
+  },
+];
+
+describe("browser macro params", () => {
+  it("replaces recorded literals with placeholders and reports unused params", () => {
+    const result = parameterizeBrowserMacroSteps(loginSteps, {
+      username: "alice",
+      password: "hunter2",
+      otp: "123456",
+    });
+    expect(result.unused).toEqual(["otp"]);
+    expect(result.steps[0].args.url).toBe("https://example.com/login?user={{username}}");
+    expect(result.steps[1].args.text).toBe("{{username}}");
+    expect(result.steps[2].args.fields).toEqual([{ type: "text", value: "{{password}}" }]);
+    expect(result.steps[1].target).toEqual(loginSteps[1].target);
+    expect(listBrowserMacroParams(result.steps).toSorted()).toEqual(["password", "username"]);
+  });
+
+  it("fills placeholders and rejects missing values", () => {
+    const { steps } = parameterizeBrowserMacroSteps(loginSteps, { username: "alice" });
+    expect(applyBrowserMacroParams(steps, { username: "bob" })[1].args.text).toBe("bob");
+    expect(() => applyBrowserMacroParams(steps, {})).toThrow("missing macro params: username");
+  });
+
+  it("turns typed text that is not a param into generated params", () => {
+    const { steps } = parameterizeBrowserMacroSteps(
+      [...loginSteps, { kind: "type", args: { text: "hunter2" }, target: { selectors: ["#pw"] } }],
+      { input1: "alice" },
+    );
+    const redacted = redactBrowserMacroTypedText(steps);
+    expect(redacted.params).toEqual(["input2"]);
+    expect(redacted.steps[1].args.text).toBe("{{input1}}");
+    expect(redacted.steps[2].args.fields).toEqual([{ type: "text", value: "{{input2}}" }]);
+    expect(redacted.steps[3].args.text).toBe("{{input2}}");
+    expect(JSON.stringify(redacted.steps)).not.toContain("hunter2");
+  });
+
+  it("validates macro names", () => {
+    expect(normalizeBrowserMacroName(" login-flow.v2 ")).toBe("login-flow.v2");
+    expect(normalizeBrowserMacroName("../etc")).toBeNull();
+    expect(normalizeBrowserMacroName("")).toBeNull();
+  });
+});
+
+describe("browser macro recording", () => {
+  beforeEach(() => {
+    resetBrowserMacroRecordingsForTest();
+  });
+
+  it("records steps per profile until stopped", () => {
+    expect(appendBrowserMacroStep("openclaw", loginSteps[0])).toBe(false);
+    startBrowserMacroRecording("openclaw", "login");
+    expect(appendBrowserMacroStep("openclaw", loginSteps[0])).toBe(true);
+    expect(getBrowserMacroRecording("chrome")).toBeNull();
+    const recording = stopBrowserMacroRecording("openclaw");
+    expect(recording).toMatchObject({ name: "login", steps: [loginSteps[0]] });
+    expect(getBrowserMacroRecording("openclaw")).toBeNull();
+  });
+});
+
+describe("browser macro store", () => {
+  let baseDir = "";
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-macros-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("saves, lists, overwrites and deletes macros per profile", async () => {
+    const macro: BrowserMacro = {
+      name: "login",
+      createdAt: 1,
+      updatedAt: 1,
+      steps: loginSteps,
+      params: [],
+    };
+    await saveBrowserMacro("openclaw", macro, baseDir);
+    await saveBrowserMacro("openclaw", { ...macro, createdAt: 5, updatedAt: 5 }, baseDir);
+    expect(await loadBrowserMacro("openclaw", "login", baseDir)).toMatchObject({
+      createdAt: 1,
+      updatedAt: 5,
+    });
+    expect(await listBrowserMacros("chrome", baseDir)).toEqual([]);
+    expect((await listBrowserMacros("openclaw", baseDir)).map((entry) => entry.name)).toEqual([
+      "login",
+    ]);
+    expect(await deleteBrowserMacro("openclaw", "login", baseDir)).toBe(true);
+    expect(await deleteBrowserMacro("openclaw", "login", baseDir)).toBe(false);
+  });
+});
@@ -0,0 +1,293 @@
+import path from "node:path";
+import type { SecretInput } from "../config/types.secrets.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { CONFIG_DIR } from "../utils.js";
+
+/**
+ * Stable description of an element captured while recording. Replay tries the
+ * role/name pair first, then each CSS selector, so the macro survives ref churn
+ * between snapshots.
+ */
+export type BrowserMacroTarget = {
+  role?: string;
+  name?: string;
+  nth?: number;
+  frameSelector?: string;
+  selectors: string[];
+};
+
+export const BROWSER_MACRO_STEP_KINDS = [
+  "navigate",
+  "click",
+  "type",
+  "press",
+  "hover",
+  "scrollIntoView",
+  "drag",
+  "select",
+  "fill",
+  "resize",
+  "wait",
+] as const;
+
+export type BrowserMacroStepKind = (typeof BROWSER_MACRO_STEP_KINDS)[number];
+
+export type BrowserMacroStep = {
+  kind: BrowserMacroStepKind;
+  /** Request fields minus refs and targetId; string values may hold `{{param}}` placeholders. */
+  args: Record<string, unknown>;
+  target?: BrowserMacroTarget;
+  /** Drop target for `drag`. */
+  endTarget?: BrowserMacroTarget;
+  /** One target per `args.fields` entry for `fill`. */
+  fieldTargets?: BrowserMacroTarget[];
+};
+
+export type BrowserMacro = {
+  name: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+  steps: BrowserMacroStep[];
+  params: string[];
+  /** Values used when a run omits a param; SecretRefs resolve at run time. */
+  defaults?: Record<string, SecretInput>;
+};
+
+type BrowserMacrosFile = {
+  version: 1;
+  macros: Record<string, BrowserMacro>;
+};
+
+type BrowserMacroRecording = {
+  name: string;
+  startedAt: number;
+  steps: BrowserMacroStep[];
+};
+
+const MACRO_NAME_RE = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const PARAM_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const PARAM_PLACEHOLDER_RE = /\{\{([A-Za-z_][A-Za-z0-9_]{0,63})\}\}/g;
+const MAX_RECORDED_STEPS = 200;
+
+const withMacrosLock = createAsyncLock();
+const recordings = new Map<string, BrowserMacroRecording>();
+
+export function normalizeBrowserMacroName(raw: unknown): string | null {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  return MACRO_NAME_RE.test(name) ? name : null;
+}
+
+export function isBrowserMacroParamName(value: string): boolean {
+  return PARAM_NAME_RE.test(value);
+}
+
+export function resolveBrowserMacrosPath(profile: string, baseDir?: string): string {
+  return path.join(baseDir ?? path.join(CONFIG_DIR, "browser"), profile, "macros.json");
+}
+
+async function loadMacrosFile(filePath: string): Promise<BrowserMacrosFile> {
+  const existing = await readJsonFile<BrowserMacrosFile>(filePath);
+  if (!existing || typeof existing.macros !== "object" || existing.macros === null) {
+    return { version: 1, macros: {} };
+  }
+  return existing;
+}
+
+export async function listBrowserMacros(
+  profile: string,
+  baseDir?: string,
+): Promise<BrowserMacro[]> {
+  const file = await loadMacrosFile(resolveBrowserMacrosPath(profile, baseDir));
+  return Object.values(file.macros).toSorted((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function loadBrowserMacro(
+  profile: string,
+  name: string,
+  baseDir?: string,
+): Promise<BrowserMacro | null> {
+  const file = await loadMacrosFile(resolveBrowserMacrosPath(profile, baseDir));
+  return file.macros[name] ?? null;
+}
+
+export async function saveBrowserMacro(
+  profile: string,
+  macro: BrowserMacro,
+  baseDir?: string,
+): Promise<void> {
+  const filePath = resolveBrowserMacrosPath(profile, baseDir);
+  await withMacrosLock(async () => {
+    const file = await loadMacrosFile(filePath);
+    const existing = file.macros[macro.name];
+    file.macros[macro.name] = existing ? { ...macro, createdAt: existing.createdAt } : macro;
+    await writeJsonAtomic(filePath, file);
+  });
+}
+
+export async function deleteBrowserMacro(
+  profile: string,
+  name: string,
+  baseDir?: string,
+): Promise<boolean> {
+  const filePath = resolveBrowserMacrosPath(profile, baseDir);
+  return await withMacrosLock(async () => {
+    const file = await loadMacrosFile(filePath);
+    if (!file.macros[name]) {
+      return false;
+    }
+    delete file.macros[name];
+    await writeJsonAtomic(filePath, file);
+    return true;
+  });
+}
+
+/** Starts (or restarts) recording for a profile; one recording per profile at a time. */
+export function startBrowserMacroRecording(profile: string, name: string): BrowserMacroRecording {
+  const recording = { name, startedAt: Date.now(), steps: [] };
+  recordings.set(profile, recording);
+  return recording;
+}
+
+export function getBrowserMacroRecording(profile: string): BrowserMacroRecording | null {
+  return recordings.get(profile) ?? null;
+}
+
+export function appendBrowserMacroStep(profile: string, step: BrowserMacroStep): boolean {
+  const recording = recordings.get(profile);
+  if (!recording || recording.steps.length >= MAX_RECORDED_STEPS) {
+    return false;
+  }
+  recording.steps.push(step);
+  return true;
+}
+
+export function stopBrowserMacroRecording(profile: string): BrowserMacroRecording | null {
+  const recording = recordings.get(profile) ?? null;
+  recordings.delete(profile);
+  return recording;
+}
+
+export function resetBrowserMacroRecordingsForTest() {
+  recordings.clear();
+}
+
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === "string") {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => mapStrings(entry, fn));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, fn)]),
+    );
+  }
+  return value;
+}
+
+function mapStepArgs(steps: BrowserMacroStep[], fn: (text: string) => string): BrowserMacroStep[] {
+  return steps.map((step) => ({
+    ...step,
+    args: mapStrings(step.args, fn) as Record<string, unknown>,
+  }));
+}
+
+/**
+ * Replaces recorded literals with `{{param}}` placeholders. `params` maps each
+ * param name to the literal typed while recording (e.g. `{ username: "alice" }`).
+ * Returns the rewritten steps and the params whose literal never appeared.
+ */
+export function parameterizeBrowserMacroSteps(
+  steps: BrowserMacroStep[],
+  params: Record<string, string>,
+): { steps: BrowserMacroStep[]; unused: string[] } {
+  const unused: string[] = [];
+  let next = steps;
+  // Longest literals first so "alice@example.com" wins over "alice".
+  const entries = Object.entries(params)
+    .filter(([, literal]) => literal.length > 0)
+    .toSorted((a, b) => b[1].length - a[1].length);
+  for (const [name, literal] of entries) {
+    let used = false;
+    next = mapStepArgs(next, (text) => {
+      if (!text.includes(literal)) {
+        return text;
+      }
+      used = true;
+      return text.replaceAll(literal, `{{${name}}}`);
+    });
+    if (!used) {
+      unused.push(name);
+    }
+  }
+  return { steps: next, unused };
+}
+
+/**
+ * Turns text typed by `type` and `fill` steps that is not already parameterized
+ * into generated `{{inputN}}` params, so passwords and other typed values never
+ * reach macros.json. Repeated values share one param.
+ */
+export function redactBrowserMacroTypedText(steps: BrowserMacroStep[]): {
+  steps: BrowserMacroStep[];
+  params: string[];
+} {
+  const taken = new Set(listBrowserMacroParams(steps));
+  const byLiteral = new Map<string, string>();
+  const redact = (value: unknown): unknown => {
+    if (typeof value !== "string" || !value || value.search(PARAM_PLACEHOLDER_RE) !== -1) {
+      return value;
+    }
+    let name = byLiteral.get(value);
+    if (!name) {
+      let index = byLiteral.size + 1;
+      while (taken.has(`input${index}`)) {
+        index += 1;
+      }
+      name = `input${index}`;
+      taken.add(name);
+      byLiteral.set(value, name);
+    }
+    return `{{${name}}}`;
+  };
+  const next = steps.map((step): BrowserMacroStep => {
+    if (step.kind === "type") {
+      return { ...step, args: { ...step.args, text: redact(step.args.text) } };
+    }
+    if (step.kind === "fill" && Array.isArray(step.args.fields)) {
+      const fields = step.args.fields.map((field) =>
+        field && typeof field === "object" ? { ...field, value: redact(field.value) } : field,
+      );
+      return { ...step, args: { ...step.args, fields } };
+    }
+    return step;
+  });
+  return { steps: next, params: [...byLiteral.values()] };
+}
+
+export function listBrowserMacroParams(steps: BrowserMacroStep[]): string[] {
+  const names = new Set<string>();
+  mapStepArgs(steps, (text) => {
+    for (const match of text.matchAll(PARAM_PLACEHOLDER_RE)) {
+      names.add(match[1]);
+    }
+    return text;
+  });
+  return [...names];
+}
+
+/** Fills `{{param}}` placeholders; throws when a referenced param has no value. */
+export function applyBrowserMacroParams(
+  steps: BrowserMacroStep[],
+  values: Record<string, string>,
+): BrowserMacroStep[] {
+  const missing = listBrowserMacroParams(steps).filter((name) => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`missing macro params: ${missing.join(", ")}`);
+  }
+  return mapStepArgs(steps, (text) =>
+    text.replace(PARAM_PLACEHOLDER_RE, (_match, name: string) => values[name]),
+  );
+}
@@ -13,17 +13,21 @@ export {
   getPageForTargetId,
   listPagesViaPlaywright,
   refLocator,
+  renderHtmlPdfViaPlaywright,
   type WithSnapshotForAI,
 } from "./pw-session.js";
 
 export {
+  addNetworkRuleViaPlaywright,
   armDialogViaPlaywright,
   armFileUploadViaPlaywright,
+  clearNetworkRulesViaPlaywright,
   clickViaPlaywright,
   closePageViaPlaywright,
   cookiesClearViaPlaywright,
   cookiesGetViaPlaywright,
   cookiesSetViaPlaywright,
+  describeMacroTargetViaPlaywright,
   downloadViaPlaywright,
   dragViaPlaywright,
   emulateMediaViaPlaywright,
@@ -32,13 +36,17 @@ export {
   getConsoleMessagesViaPlaywright,
   getNetworkRequestsViaPlaywright,
   getPageErrorsViaPlaywright,
+  harStartViaPlaywright,
+  harStopViaPlaywright,
   highlightViaPlaywright,
   hoverViaPlaywright,
+  listNetworkRulesViaPlaywright,
   navigateViaPlaywright,
   pdfViaPlaywright,
   pressKeyViaPlaywright,
   resizeViewportViaPlaywright,
   responseBodyViaPlaywright,
+  runMacroStepViaPlaywright,
   scrollIntoViewViaPlaywright,
   selectOptionViaPlaywright,
   setDeviceViaPlaywright,
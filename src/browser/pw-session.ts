@@ -770,6 +770,28 @@ export async function createPageViaPlaywright(opts: {
   };
 }
 
+/**
+ * Render standalone HTML to PDF in a scratch page of the connected browser.
+ * Network requests are blocked, so the document can only use what it inlines.
+ */
+export async function renderHtmlPdfViaPlaywright(opts: {
+  cdpUrl: string;
+  html: string;
+  timeoutMs?: number;
+}): Promise<{ buffer: Buffer }> {
+  const { browser } = await connectBrowser(opts.cdpUrl);
+  const context = browser.contexts()[0] ?? (await browser.newContext());
+  const page = await context.newPage();
+  try {
+    await page.route("**/*", (route) => route.abort());
+    await page.setContent(opts.html, { waitUntil: "load", timeout: opts.timeoutMs ?? 30_000 });
+    const buffer = await page.pdf({ printBackground: true });
+    return { buffer };
+  } finally {
+    await page.close().catch(() => {});
+  }
+}
+
 /**
  * Close a page/tab by targetId using the persistent Playwright connection.
  * Used for remote profiles where HTTP-based /json/close is ephemeral.
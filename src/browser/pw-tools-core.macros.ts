@@ -0,0 +1,256 @@
+import type { FrameLocator, Locator, Page } from "playwright-core";
+import type { BrowserMacroStep, BrowserMacroTarget } from "./macros.js";
+import {
+  ensurePageState,
+  getPageForTargetId,
+  refLocator,
+  restoreRoleRefsForTarget,
+} from "./pw-session.js";
+import { requireRef, toAIFriendlyError } from "./pw-tools-core.shared.js";
+
+const LOCATE_POLL_MS = 250;
+
+type ClickModifier = "Alt" | "Control" | "ControlOrMeta" | "Meta" | "Shift";
+
+function clampTimeout(timeoutMs: number | undefined) {
+  return Math.max(500, Math.min(60_000, Math.floor(timeoutMs ?? 8000)));
+}
+
+/**
+ * Runs in the page: CSS candidates that tend to survive re-renders (test ids,
+ * non-generated ids, form names, accessible labels, short button/link text).
+ */
+function collectStableSelectors(el: Element): string[] {
+  const selectors: string[] = [];
+  const tag = el.tagName.toLowerCase();
+  const attr = (name: string) => el.getAttribute(name)?.trim() ?? "";
+  for (const name of ["data-testid", "data-test", "data-qa", "data-cy"]) {
+    const value = attr(name);
+    if (value) {
+      selectors.push(`[${name}=${JSON.stringify(value)}]`);
+    }
+  }
+  if (el.id && !/\d{4,}/.test(el.id)) {
+    selectors.push(`#${CSS.escape(el.id)}`);
+  }
+  for (const name of ["name", "aria-label", "placeholder"]) {
+    const value = attr(name);
+    if (value) {
+      selectors.push(`${tag}[${name}=${JSON.stringify(value)}]`);
+    }
+  }
+  const text = (el.textContent ?? "").replace(/\s+/g, " ").trim();
+  if (text && text.length <= 80 && ["a", "button", "label", "summary", "option"].includes(tag)) {
+    selectors.push(`${tag}:has-text(${JSON.stringify(text)})`);
+  }
+  return selectors;
+}
+
+export function describeBrowserMacroTarget(target: BrowserMacroTarget): string {
+  if (target.role) {
+    return target.name ? `${target.role} "${target.name}"` : target.role;
+  }
+  return target.selectors[0] ?? "(no selector)";
+}
+
+/** Captures a snapshot ref as a role/name pair plus CSS fallbacks for macro replay. */
+export async function describeMacroTargetViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  ref: string;
+  timeoutMs?: number;
+}): Promise<BrowserMacroTarget> {
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  restoreRoleRefsForTarget({ cdpUrl: opts.cdpUrl, targetId: opts.targetId, page });
+  const ref = requireRef(opts.ref);
+  const locator = refLocator(page, ref);
+  const info = state.roleRefsMode === "aria" ? undefined : state.roleRefs?.[ref];
+  let selectors: string[];
+  try {
+    selectors = await locator.evaluate(collectStableSelectors, undefined, {
+      timeout: clampTimeout(opts.timeoutMs),
+    });
+  } catch (err) {
+    throw toAIFriendlyError(err, ref);
+  }
+  return {
+    ...(info ? { role: info.role } : {}),
+    ...(info?.name ? { name: info.name } : {}),
+    ...(info?.nth !== undefined ? { nth: info.nth } : {}),
+    ...(state.roleRefsFrameSelector ? { frameSelector: state.roleRefsFrameSelector } : {}),
+    selectors,
+  };
+}
+
+function roleLocator(scope: Page | FrameLocator, target: BrowserMacroTarget): Locator | null {
+  if (!target.role) {
+    return null;
+  }
+  const role = target.role as Parameters<Page["getByRole"]>[0];
+  return target.name
+    ? scope.getByRole(role, { name: target.name, exact: true })
+    : scope.getByRole(role);
+}
+
+/**
+ * Resolves a recorded target on the current page, polling until `timeoutMs`.
+ * Unique matches win (role first, then CSS); the recorded `nth` is only used
+ * when the role match is ambiguous and no selector is unique. Returns null
+ * when nothing matches so replay can hand control back to the agent.
+ */
+export async function locateBrowserMacroTarget(
+  page: Page,
+  target: BrowserMacroTarget,
+  timeoutMs: number,
+): Promise<Locator | null> {
+  const scope = target.frameSelector ? page.frameLocator(target.frameSelector) : page;
+  const byRole = roleLocator(scope, target);
+  const candidates = [
+    ...(byRole ? [byRole] : []),
+    ...target.selectors.map((selector) => scope.locator(selector)),
+  ];
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    for (const candidate of candidates) {
+      if ((await candidate.count().catch(() => 0)) === 1) {
+        return candidate;
+      }
+    }
+    if (byRole && target.nth !== undefined && (await byRole.count().catch(() => 0)) > target.nth) {
+      return byRole.nth(target.nth);
+    }
+    if (Date.now() >= deadline) {
+      return null;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCATE_POLL_MS));
+  }
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function readFieldValue(value: unknown): string {
+  return typeof value === "number" || typeof value === "boolean"
+    ? String(value)
+    : readString(value);
+}
+
+/**
+ * Replays one element/keyboard/viewport step of a saved macro. Navigation and
+ * waits go through the regular route helpers so their policies still apply.
+ */
+export async function runMacroStepViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  step: BrowserMacroStep;
+  timeoutMs?: number;
+}): Promise<void> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  const { step } = opts;
+  const args = step.args;
+  const timeout = clampTimeout(
+    opts.timeoutMs ?? (typeof args.timeoutMs === "number" ? args.timeoutMs : undefined),
+  );
+  const locate = async (target: BrowserMacroTarget | undefined): Promise<Locator> => {
+    if (!target) {
+      throw new Error(`${step.kind} step has no recorded element`);
+    }
+    const locator = await locateBrowserMacroTarget(page, target, timeout);
+    if (!locator) {
+      throw new Error(`No element matches ${describeBrowserMacroTarget(target)}`);
+    }
+    return locator;
+  };
+  const label = step.target ? describeBrowserMacroTarget(step.target) : step.kind;
+
+  switch (step.kind) {
+    case "press": {
+      await page.keyboard.press(readString(args.key), {
+        delay: Math.max(0, Math.floor(typeof args.delayMs === "number" ? args.delayMs : 0)),
+      });
+      return;
+    }
+    case "resize": {
+      await page.setViewportSize({
+        width: Math.max(1, Math.floor(Number(args.width))),
+        height: Math.max(1, Math.floor(Number(args.height))),
+      });
+      return;
+    }
+    case "fill": {
+      const fields = Array.isArray(args.fields) ? (args.fields as Record<string, unknown>[]) : [];
+      for (const [index, field] of fields.entries()) {
+        const target = step.fieldTargets?.[index];
+        const locator = await locate(target);
+        try {
+          if (field.type === "checkbox" || field.type === "radio") {
+            const raw = field.value;
+            await locator.setChecked(raw === true || raw === 1 || raw === "1" || raw === "true", {
+              timeout,
+            });
+          } else {
+            await locator.fill(readFieldValue(field.value), { timeout });
+          }
+        } catch (err) {
+          throw toAIFriendlyError(err, target ? describeBrowserMacroTarget(target) : "field");
+        }
+      }
+      return;
+    }
+    case "drag": {
+      const start = await locate(step.target);
+      const end = await locate(step.endTarget);
+      try {
+        await start.dragTo(end, { timeout });
+      } catch (err) {
+        throw toAIFriendlyError(err, label);
+      }
+      return;
+    }
+    case "click":
+    case "type":
+    case "hover":
+    case "scrollIntoView":
+    case "select": {
+      const locator = await locate(step.target);
+      try {
+        if (step.kind === "click") {
+          const clickOpts = {
+            timeout,
+            button: args.button as "left" | "right" | "middle" | undefined,
+            modifiers: args.modifiers as ClickModifier[] | undefined,
+          };
+          await (args.doubleClick === true
+            ? locator.dblclick(clickOpts)
+            : locator.click(clickOpts));
+        } else if (step.kind === "type") {
+          const text = readString(args.text);
+          if (args.slowly === true) {
+            await locator.click({ timeout });
+            await locator.type(text, { timeout, delay: 75 });
+          } else {
+            await locator.fill(text, { timeout });
+          }
+          if (args.submit === true) {
+            await locator.press("Enter", { timeout });
+          }
+        } else if (step.kind === "hover") {
+          await locator.hover({ timeout });
+        } else if (step.kind === "scrollIntoView") {
+          await locator.scrollIntoViewIfNeeded({ timeout });
+        } else {
+          const values = Array.isArray(args.values) ? args.values.map(readString) : [];
+          await locator.selectOption(values, { timeout });
+        }
+      } catch (err) {
+        throw toAIFriendlyError(err, label);
+      }
+      return;
+    }
+    default:
+      throw new Error(`macro step "${step.kind}" must be run by the route`);
+  }
+}
@@ -0,0 +1,226 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  installPwToolsCoreTestHooks,
+  setPwToolsCoreCurrentPage,
+} from "./pw-tools-core.test-harness.js";
+
+installPwToolsCoreTestHooks();
+const mod = await import("./pw-tools-core.js");
+
+type Handler = (route: unknown, request: unknown) => Promise<void>;
+
+function createFakePage() {
+  let routeHandler: Handler | null = null;
+  const listeners = new Map<string, (arg: unknown) => void>();
+  return {
+    page: {
+      route: vi.fn(async (_pattern: string, handler: Handler) => {
+        routeHandler = handler;
+      }),
+      unroute: vi.fn(async () => {
+        routeHandler = null;
+      }),
+      on: vi.fn((event: string, fn: (arg: unknown) => void) => {
+        listeners.set(event, fn);
+      }),
+      off: vi.fn((event: string) => {
+        listeners.delete(event);
+      }),
+    },
+    get routeHandler() {
+      return routeHandler;
+    },
+    emit(event: string, arg: unknown) {
+      listeners.get(event)?.(arg);
+    },
+  };
+}
+
+function createRoute() {
+  return {
+    abort: vi.fn(async () => {}),
+    fulfill: vi.fn(async () => {}),
+    continue: vi.fn(async () => {}),
+    fallback: vi.fn(async () => {}),
+  };
+}
+
+function createRequest(url: string, resourceType = "fetch") {
+  return {
+    url: () => url,
+    method: () => "GET",
+    resourceType: () => resourceType,
+    headers: () => ({ accept: "*/*" }),
+    allHeaders: async () => ({ accept: "*/*" }),
+    postData: () => null,
+    timing: () => ({
+      startTime: 0,
+      domainLookupStart: -1,
+      domainLookupEnd: -1,
+      connectStart: -1,
+      secureConnectionStart: -1,
+      connectEnd: -1,
+      requestStart: 1,
+      responseStart: 5,
+      responseEnd: 9,
+    }),
+    failure: () => null,
+    response: async () => ({
+      status: () => 200,
+      statusText: () => "OK",
+      headers: () => ({ "content-type": "application/json" }),
+      allHeaders: async () => ({ "content-type": "application/json" }),
+      body: async () => Buffer.from('{"ok":true}'),
+    }),
+  };
+}
+
+describe("pw-tools-core network rules", () => {
+  it("applies the first matching rule and falls back otherwise", async () => {
+    const fake = createFakePage();
+    setPwToolsCoreCurrentPage(fake.page);
+
+    const blocked = await mod.addNetworkRuleViaPlaywright({
+      cdpUrl: "http://127.0.0.1:18792",
+      rule: { url: "analytics", action: "block" },
+    });
+    await mod.addNetworkRuleViaPlaywright({
+      cdpUrl: "http://127.0.0.1:18792",
+      rule: { url: "https://api.example.com/*", action: "mock", body: "{}", status: 201 },
+    });
+    expect(fake.page.route).toHaveBeenCalledTimes(1);
+
+    const blockRoute = createRoute();
+    await fake.routeHandler?.(blockRoute, createRequest("https://cdn.analytics.io/t.js"));
+    expect(blockRoute.abort).toHaveBeenCalledWith("blockedbyclient");
+
+    const mockRoute = createRoute();
+    await fake.routeHandler?.(mockRoute, createRequest("https://api.example.com/users"));
+    expect(mockRoute.fulfill).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 201, body: "{}" }),
+    );
+
+    const passRoute = createRoute();
+    await fake.routeHandler?.(passRoute, createRequest("https://example.com/"));
+    expect(passRoute.fallback).toHaveBeenCalled();
+
+    const { rules } = await mod.listNetworkRulesViaPlaywright({ cdpUrl: "http://127.0.0.1:18792" });
+    expect(rules.map((rule) => [rule.id, rule.hits])).toEqual([
+      [blocked.id, 1],
+      ["n2", 1],
+    ]);
+  });
+
+  it("releases the request when a rule fails", async () => {
+    const fake = createFakePage();
+    setPwToolsCoreCurrentPage(fake.page);
+    await mod.addNetworkRuleViaPlaywright({
+      cdpUrl: "http://127.0.0.1:18792",
+      rule: { url: "https://api.example.com/*", action: "mock", body: "{}" },
+    });
+
+    const route = createRoute();
+    route.fulfill.mockRejectedValueOnce(new Error("invalid header value"));
+    await fake.routeHandler?.(route, createRequest("https://api.example.com/users"));
+    expect(route.fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("honors resource type filters and merges rewrite headers", async () => {
+    const fake = createFakePage();
+    setPwToolsCoreCurrentPage(fake.page);
+    await mod.addNetworkRuleViaPlaywright({
+      cdpUrl: "http://127.0.0.1:18792",
+      rule: {
+        url: "example.com",
+        action: "rewrite",
+        resourceTypes: ["xhr"],
+        rewriteUrl: "https://staging.example.com/",
+        headers: { "x-test": "1" },
+      },
+    });
+
+    const scriptRoute = createRoute();
+    await fake.routeHandler?.(scriptRoute, createRequest("https://example.com/a.js", "script"));
+    expect(scriptRoute.fallback).toHaveBeenCalled();
+
+    const xhrRoute = createRoute();
+    await fake.routeHandler?.(xhrRoute, createRequest("https://example.com/api", "xhr"));
+    expect(xhrRoute.continue).toHaveBeenCalledWith({
+      url: "https://staging.example.com/",
+      headers: { accept: "*/*", "x-test": "1" },
+    });
+  });
+
+  it("clears one rule by id and unroutes when none are left", async () => {
+    const fake = createFakePage();
+    setPwToolsCoreCurrentPage(fake.page);
+    const rule = await mod.addNetworkRuleViaPlaywright({
+      cdpUrl: "http://127.0.0.1:18792",
+      rule: { url: "ads", action: "block" },
+    });
+
+    await expect(
+      mod.clearNetworkRulesViaPlaywright({ cdpUrl: "http://127.0.0.1:18792", id: "n99" }),
+    ).resolves.toEqual({ removed: 0 });
+    expect(fake.page.unroute).not.toHaveBeenCalled();
+
+    await expect(
+      mod.clearNetworkRulesViaPlaywright({ cdpUrl: "http://127.0.0.1:18792", id: rule.id }),
+    ).resolves.toEqual({ removed: 1 });
+    expect(fake.page.unroute).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("pw-tools-core har", () => {
+  it("records finished and failed requests into a HAR file", async () => {
+    const fake = createFakePage();
+    setPwToolsCoreCurrentPage(fake.page);
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-har-"));
+    const out = path.join(dir, "run.har");
+
+    await mod.harStartViaPlaywright({ cdpUrl: "http://127.0.0.1:18792", content: true });
+    await expect(mod.harStartViaPlaywright({ cdpUrl: "http://127.0.0.1:18792" })).rejects.toThrow(
+      /already running/,
+    );
+
+    const ok = createRequest("https://api.example.com/users?page=2");
+    const failed = {
+      ...createRequest("https://ads.example.com/x"),
+      failure: () => ({ errorText: "net::ERR_BLOCKED_BY_CLIENT" }),
+    };
+    fake.emit("request", ok);
+    fake.emit("requestfinished", ok);
+    fake.emit("request", failed);
+    fake.emit("requestfailed", failed);
+
+    const result = await mod.harStopViaPlaywright({ cdpUrl: "http://127.0.0.1:18792", path: out });
+    expect(result).toEqual({ entries: 2, dropped: 0 });
+    expect(fake.page.off).toHaveBeenCalledTimes(3);
+
+    const har = JSON.parse(await fs.readFile(out, "utf8"));
+    expect(har.log.version).toBe("1.2");
+    const byUrl = (needle: string) =>
+      har.log.entries.find((entry: { request: { url: string } }) =>
+        entry.request.url.includes(needle),
+      );
+    const first = byUrl("api.example.com");
+    const second = byUrl("ads.example.com");
+    expect(first.request.queryString).toEqual([{ name: "page", value: "2" }]);
+    expect(first.response.status).toBe(200);
+    expect(first.response.content).toMatchObject({
+      text: '{"ok":true}',
+      mimeType: "application/json",
+    });
+    expect(first.timings.wait).toBe(4);
+    expect(second.response.status).toBe(0);
+    expect(second).toMatchObject({ _failureText: "net::ERR_BLOCKED_BY_CLIENT" });
+
+    await expect(
+      mod.harStopViaPlaywright({ cdpUrl: "http://127.0.0.1:18792", path: out }),
+    ).rejects.toThrow(/No active HAR recording/);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,378 @@
+import fs from "node:fs/promises";
+import type { Page, Request, Route } from "playwright-core";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { VERSION } from "../version.js";
+import { ensurePageState, getPageForTargetId } from "./pw-session.js";
+import { matchUrlPattern } from "./pw-tools-core.shared.js";
+
+const log = createSubsystemLogger("browser").child("network");
+
+export type BrowserNetworkRuleAction = "block" | "mock" | "rewrite";
+
+export type BrowserNetworkRuleInput = {
+  /** Exact URL, `*` glob, or substring (same matching as `/response/body`). */
+  url: string;
+  action: BrowserNetworkRuleAction;
+  /** Only intercept these Playwright resource types (document, xhr, fetch, script, image, ...). */
+  resourceTypes?: string[];
+  /** mock: response status (default 200). */
+  status?: number;
+  /** mock: response content type. */
+  contentType?: string;
+  /** mock: response body. */
+  body?: string;
+  /** mock: response headers; rewrite: request headers merged over the original. */
+  headers?: Record<string, string>;
+  /** rewrite: send the request to this URL instead. */
+  rewriteUrl?: string;
+};
+
+export type BrowserNetworkRule = BrowserNetworkRuleInput & {
+  id: string;
+  hits: number;
+  createdAt: string;
+};
+
+export type HarCapture = {
+  startedAt: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  body?: { text: string; encoding?: "base64"; size: number };
+  timing?: ReturnType<Request["timing"]>;
+  failureText?: string;
+};
+
+type HarRecorder = {
+  content: boolean;
+  startedAt: number;
+  captures: HarCapture[];
+  startTimes: WeakMap<Request, number>;
+  pending: Set<Promise<void>>;
+  dropped: number;
+  detach: () => void;
+};
+
+type PageNetworkState = {
+  rules: BrowserNetworkRule[];
+  nextRuleId: number;
+  routeHandler?: (route: Route, request: Request) => Promise<void>;
+  har?: HarRecorder;
+};
+
+const MAX_NETWORK_RULES = 100;
+const MAX_HAR_ENTRIES = 5000;
+const MAX_HAR_BODY_BYTES = 1024 * 1024;
+const TEXT_MIME_RE =
+  /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+
+const networkStates = new WeakMap<Page, PageNetworkState>();
+
+function ensureNetworkState(page: Page): PageNetworkState {
+  const existing = networkStates.get(page);
+  if (existing) {
+    return existing;
+  }
+  const state: PageNetworkState = { rules: [], nextRuleId: 0 };
+  networkStates.set(page, state);
+  return state;
+}
+
+function findRule(state: PageNetworkState, request: Request): BrowserNetworkRule | undefined {
+  const url = request.url();
+  const resourceType = request.resourceType();
+  return state.rules.find(
+    (rule) =>
+      matchUrlPattern(rule.url, url) &&
+      (!rule.resourceTypes?.length || rule.resourceTypes.includes(resourceType)),
+  );
+}
+
+async function applyRule(route: Route, request: Request, rule: BrowserNetworkRule) {
+  if (rule.action === "block") {
+    await route.abort("blockedbyclient");
+    return;
+  }
+  if (rule.action === "mock") {
+    await route.fulfill({
+      status: rule.status ?? 200,
+      contentType: rule.contentType,
+      headers: rule.headers,
+      body: rule.body ?? "",
+    });
+    return;
+  }
+  await route.continue({
+    url: rule.rewriteUrl,
+    headers: rule.headers ? { ...request.headers(), ...rule.headers } : undefined,
+  });
+}
+
+/** Adds a block/mock/rewrite rule to one tab. Rules are checked in insertion order. */
+export async function addNetworkRuleViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  rule: BrowserNetworkRuleInput;
+}): Promise<BrowserNetworkRule> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  const state = ensureNetworkState(page);
+  if (state.rules.length >= MAX_NETWORK_RULES) {
+    throw new Error(`Too many network rules on this tab (max ${MAX_NETWORK_RULES}).`);
+  }
+  state.nextRuleId += 1;
+  const rule: BrowserNetworkRule = {
+    ...opts.rule,
+    id: `n${state.nextRuleId}`,
+    hits: 0,
+    createdAt: new Date().toISOString(),
+  };
+  state.rules.push(rule);
+  if (!state.routeHandler) {
+    const handler = async (route: Route, request: Request) => {
+      const match = findRule(state, request);
+      try {
+        if (!match) {
+          await route.fallback();
+          return;
+        }
+        match.hits += 1;
+        await applyRule(route, request, match);
+      } catch (err) {
+        log.warn(
+          `network rule ${match?.id ?? "fallback"} failed for ${request.url()}: ${String(err)}`,
+        );
+        // Release the paused request; this fails too when the page already navigated or closed.
+        await route.fallback().catch(() => {});
+      }
+    };
+    state.routeHandler = handler;
+    await page.route("**/*", handler);
+  }
+  return rule;
+}
+
+export async function listNetworkRulesViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+}): Promise<{ rules: BrowserNetworkRule[] }> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  return { rules: [...ensureNetworkState(page).rules] };
+}
+
+/** Removes one rule by id, or every rule when `id` is omitted. */
+export async function clearNetworkRulesViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  id?: string;
+}): Promise<{ removed: number }> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  const state = ensureNetworkState(page);
+  const before = state.rules.length;
+  state.rules = opts.id ? state.rules.filter((rule) => rule.id !== opts.id) : [];
+  if (state.rules.length === 0 && state.routeHandler) {
+    await page.unroute("**/*", state.routeHandler);
+    state.routeHandler = undefined;
+  }
+  return { removed: before - state.rules.length };
+}
+
+function toHarHeaders(headers: Record<string, string> | undefined) {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }));
+}
+
+function toHarQueryString(url: string) {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function span(start: number | undefined, end: number | undefined): number {
+  return typeof start === "number" && typeof end === "number" && start >= 0 && end >= start
+    ? end - start
+    : -1;
+}
+
+function toHarTimings(timing: HarCapture["timing"]) {
+  const timings = {
+    blocked: -1,
+    dns: span(timing?.domainLookupStart, timing?.domainLookupEnd),
+    connect: span(timing?.connectStart, timing?.connectEnd),
+    ssl: span(timing?.secureConnectionStart, timing?.connectEnd),
+    send: 0,
+    wait: span(timing?.requestStart, timing?.responseStart),
+    receive: span(timing?.responseStart, timing?.responseEnd),
+  };
+  const time = [timings.dns, timings.connect, timings.wait, timings.receive]
+    .filter((value) => value > 0)
+    .reduce((sum, value) => sum + value, 0);
+  return { timings, time };
+}
+
+/** Serializes captured traffic as a HAR 1.2 log. */
+export function buildHarLog(captures: HarCapture[]) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "OpenClaw", version: VERSION },
+      pages: [],
+      entries: captures.map((capture) => {
+        const { timings, time } = toHarTimings(capture.timing);
+        const mimeType =
+          capture.responseHeaders?.["content-type"] ??
+          capture.responseHeaders?.["Content-Type"] ??
+          "";
+        const requestContentType = capture.requestHeaders["content-type"] ?? "";
+        // Playwright does not expose the negotiated protocol per request.
+        const httpVersion = "HTTP/1.1";
+        return {
+          startedDateTime: new Date(capture.startedAt).toISOString(),
+          time,
+          request: {
+            method: capture.method,
+            url: capture.url,
+            httpVersion,
+            cookies: [],
+            headers: toHarHeaders(capture.requestHeaders),
+            queryString: toHarQueryString(capture.url),
+            ...(capture.postData !== undefined
+              ? { postData: { mimeType: requestContentType, text: capture.postData } }
+              : {}),
+            headersSize: -1,
+            bodySize: capture.postData !== undefined ? Buffer.byteLength(capture.postData) : 0,
+          },
+          response: {
+            status: capture.status ?? 0,
+            statusText: capture.statusText ?? "",
+            httpVersion,
+            cookies: [],
+            headers: toHarHeaders(capture.responseHeaders),
+            content: {
+              size: capture.body?.size ?? -1,
+              mimeType,
+              ...(capture.body ? { text: capture.body.text } : {}),
+              ...(capture.body?.encoding ? { encoding: capture.body.encoding } : {}),
+            },
+            redirectURL: capture.responseHeaders?.location ?? "",
+            headersSize: -1,
+            bodySize: capture.body?.size ?? -1,
+          },
+          cache: {},
+          timings,
+          _resourceType: capture.resourceType,
+          ...(capture.failureText ? { _failureText: capture.failureText } : {}),
+        };
+      }),
+    },
+  };
+}
+
+async function captureRequest(
+  recorder: HarRecorder,
+  request: Request,
+  failureText?: string,
+): Promise<void> {
+  if (recorder.captures.length >= MAX_HAR_ENTRIES) {
+    recorder.dropped += 1;
+    return;
+  }
+  const capture: HarCapture = {
+    startedAt: recorder.startTimes.get(request) ?? Date.now(),
+    method: request.method(),
+    url: request.url(),
+    resourceType: request.resourceType(),
+    requestHeaders: await request.allHeaders().catch(() => request.headers()),
+    postData: request.postData() ?? undefined,
+    timing: request.timing(),
+    ...(failureText ? { failureText } : {}),
+  };
+  const response = failureText ? null : await request.response().catch(() => null);
+  if (response) {
+    capture.status = response.status();
+    capture.statusText = response.statusText();
+    capture.responseHeaders = await response.allHeaders().catch(() => response.headers());
+    if (recorder.content) {
+      const body = await response.body().catch(() => null);
+      if (body && body.byteLength <= MAX_HAR_BODY_BYTES) {
+        const isText = TEXT_MIME_RE.test(capture.responseHeaders["content-type"] ?? "");
+        capture.body = isText
+          ? { text: body.toString("utf8"), size: body.byteLength }
+          : { text: body.toString("base64"), encoding: "base64", size: body.byteLength };
+      }
+    }
+  }
+  recorder.captures.push(capture);
+}
+
+/** Starts recording this tab's traffic for a HAR export. */
+export async function harStartViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  /** Include response bodies (up to 1 MB each). */
+  content?: boolean;
+}): Promise<void> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  const state = ensureNetworkState(page);
+  if (state.har) {
+    throw new Error("HAR recording already running on this tab. Stop it before starting again.");
+  }
+  const recorder: HarRecorder = {
+    content: opts.content ?? false,
+    startedAt: Date.now(),
+    captures: [],
+    startTimes: new WeakMap(),
+    pending: new Set(),
+    dropped: 0,
+    detach: () => {},
+  };
+  const track = (work: Promise<void>) => {
+    const tracked = work.catch(() => {}).finally(() => recorder.pending.delete(tracked));
+    recorder.pending.add(tracked);
+  };
+  const onRequest = (request: Request) => {
+    recorder.startTimes.set(request, Date.now());
+  };
+  const onFinished = (request: Request) => track(captureRequest(recorder, request));
+  const onFailed = (request: Request) =>
+    track(captureRequest(recorder, request, request.failure()?.errorText ?? "failed"));
+  page.on("request", onRequest);
+  page.on("requestfinished", onFinished);
+  page.on("requestfailed", onFailed);
+  recorder.detach = () => {
+    page.off("request", onRequest);
+    page.off("requestfinished", onFinished);
+    page.off("requestfailed", onFailed);
+  };
+  state.har = recorder;
+}
+
+/** Stops HAR recording and writes the log to `path`. */
+export async function harStopViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  path: string;
+}): Promise<{ entries: number; dropped: number }> {
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  const state = ensureNetworkState(page);
+  const recorder = state.har;
+  if (!recorder) {
+    throw new Error("No active HAR recording. Start one before stopping it.");
+  }
+  recorder.detach();
+  state.har = undefined;
+  await Promise.all(recorder.pending);
+  const captures = recorder.captures.toSorted((a, b) => a.startedAt - b.startedAt);
+  await fs.writeFile(opts.path, JSON.stringify(buildHarLog(captures), null, 2), "utf8");
+  return { entries: captures.length, dropped: recorder.dropped };
+}
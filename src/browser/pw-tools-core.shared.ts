@@ -29,6 +29,23 @@ export function requireRef(value: unknown): string {
   return ref;
 }
 
+/** Exact URL, `*` glob over the whole URL, or substring match. */
+export function matchUrlPattern(pattern: string, url: string): boolean {
+  const p = pattern.trim();
+  if (!p) {
+    return false;
+  }
+  if (p === url) {
+    return true;
+  }
+  if (p.includes("*")) {
+    const escaped = p.replace(/[|\\{}()[\]^$+?.]/g, "\\$&");
+    const regex = new RegExp(`^${escaped.replace(/\*\*/g, ".*").replace(/\*/g, ".*")}$`);
+    return regex.test(url);
+  }
+  return url.includes(p);
+}
+
 export function normalizeTimeoutMs(timeoutMs: number | undefined, fallback: number) {
   return Math.max(500, Math.min(120_000, timeoutMs ?? fallback));
 }
@@ -9,6 +9,7 @@ import {
   parseClickButton,
   parseClickModifiers,
 } from "./agent.act.shared.js";
+import { buildActMacroStep, createMacroStepRecorder } from "./agent.macros.js";
 import {
   readBody,
   resolveTargetIdFromBody,
@@ -22,7 +23,9 @@ export function registerBrowserAgentActRoutes(
   app: BrowserRouteRegistrar,
   ctx: BrowserRouteContext,
 ) {
-  app.post("/act", async (req, res) => {
+  app.post("/act", async (req, routeRes) => {
+    const macroRecorder = createMacroStepRecorder(routeRes);
+    const res = macroRecorder.res;
     const body = readBody(req);
     const kindRaw = toStringOrEmpty(body.kind);
     if (!isActKind(kindRaw)) {
@@ -40,8 +43,21 @@ export function registerBrowserAgentActRoutes(
       ctx,
       targetId,
       feature: `act:${kind}`,
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ cdpUrl, tab, pw, profileCtx }) => {
         const evaluateEnabled = ctx.state().resolved.evaluateEnabled;
+        await macroRecorder.capture(profileCtx.profile.name, () =>
+          buildActMacroStep({
+            kind,
+            body,
+            describeRef: (ref) =>
+              pw.describeMacroTargetViaPlaywright({
+                cdpUrl,
+                targetId: tab.targetId,
+                ref,
+                timeoutMs: toNumber(body.timeoutMs),
+              }),
+          }),
+        );
 
         switch (kind) {
           case "click": {
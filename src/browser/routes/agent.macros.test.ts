@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getBrowserMacroRecording,
+  resetBrowserMacroRecordingsForTest,
+  startBrowserMacroRecording,
+} from "../macros.js";
+import { buildActMacroStep, createMacroStepRecorder } from "./agent.macros.js";
+import type { BrowserResponse } from "./types.js";
+
+function createResponse() {
+  const res: BrowserResponse & { statusCode: number; body?: unknown } = {
+    statusCode: 200,
+    status: (code) => {
+      res.statusCode = code;
+      return res;
+    },
+    json: (body) => {
+      res.body = body;
+    },
+  };
+  return res;
+}
+
+describe("buildActMacroStep", () => {
+  it("resolves refs to targets and strips them from args", async () => {
+    const describeRef = vi.fn(async (ref: string) => ({ selectors: [`#${ref}`] }));
+    expect(
+      await buildActMacroStep({
+        kind: "type",
+        body: { kind: "type", ref: "e3", targetId: "t1", text: "alice", submit: true },
+        describeRef,
+      }),
+    ).toEqual({
+      kind: "type",
+      args: { text: "alice", submit: true },
+      target: { selectors: ["#e3"] },
+    });
+
+    expect(
+      await buildActMacroStep({
+        kind: "fill",
+        body: { kind: "fill", fields: [{ ref: "e4", type: "checkbox", value: true }, {}] },
+        describeRef,
+      }),
+    ).toEqual({
+      kind: "fill",
+      args: { fields: [{ type: "checkbox", value: true }] },
+      fieldTargets: [{ selectors: ["#e4"] }],
+    });
+  });
+
+  it("does not record evaluate or close", async () => {
+    const describeRef = vi.fn();
+    expect(await buildActMacroStep({ kind: "evaluate", body: {}, describeRef })).toBeNull();
+    expect(await buildActMacroStep({ kind: "close", body: {}, describeRef })).toBeNull();
+    expect(describeRef).not.toHaveBeenCalled();
+  });
+});
+
+describe("createMacroStepRecorder", () => {
+  beforeEach(() => {
+    resetBrowserMacroRecordingsForTest();
+  });
+
+  it("appends the captured step only when the action succeeds", async () => {
+    startBrowserMacroRecording("openclaw", "login");
+    const step = { kind: "press" as const, args: { key: "Enter" } };
+
+    const failed = createMacroStepRecorder(createResponse());
+    await failed.capture("openclaw", async () => step);
+    failed.res.status(500).json({ error: "boom" });
+    expect(getBrowserMacroRecording("openclaw")?.steps).toEqual([]);
+
+    const raw = createResponse();
+    const ok = createMacroStepRecorder(raw);
+    await ok.capture("openclaw", async () => step);
+    ok.res.json({ ok: true });
+    expect(raw.body).toEqual({ ok: true });
+    expect(getBrowserMacroRecording("openclaw")?.steps).toEqual([step]);
+  });
+
+  it("lets the action proceed when a step cannot be described", async () => {
+    startBrowserMacroRecording("openclaw", "login");
+    const raw = createResponse();
+    const recorder = createMacroStepRecorder(raw);
+    await expect(
+      recorder.capture("openclaw", async () => {
+        throw new Error("element detached");
+      }),
+    ).resolves.toBeUndefined();
+    recorder.res.json({ ok: true });
+    expect(raw.body).toEqual({ ok: true });
+    expect(getBrowserMacroRecording("openclaw")?.steps).toEqual([]);
+  });
+
+  it("skips capture when the profile is not recording", async () => {
+    const build = vi.fn(async () => null);
+    await createMacroStepRecorder(createResponse()).capture("openclaw", build);
+    expect(build).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,433 @@
+import { loadConfig } from "../../config/config.js";
+import { coerceSecretRef, isSecretRef, type SecretInput } from "../../config/types.secrets.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { resolveSecretRefString } from "../../secrets/resolve.js";
+import type { BrowserFormField } from "../client-actions-core.js";
+import { normalizeBrowserFormField } from "../form-fields.js";
+import {
+  appendBrowserMacroStep,
+  applyBrowserMacroParams,
+  deleteBrowserMacro,
+  getBrowserMacroRecording,
+  isBrowserMacroParamName,
+  listBrowserMacroParams,
+  listBrowserMacros,
+  loadBrowserMacro,
+  normalizeBrowserMacroName,
+  parameterizeBrowserMacroSteps,
+  redactBrowserMacroTypedText,
+  saveBrowserMacro,
+  startBrowserMacroRecording,
+  stopBrowserMacroRecording,
+  type BrowserMacro,
+  type BrowserMacroStep,
+  type BrowserMacroTarget,
+} from "../macros.js";
+import { withBrowserNavigationPolicy } from "../navigation-guard.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import type { ActKind } from "./agent.act.shared.js";
+import {
+  readBody,
+  resolveProfileContext,
+  resolveTargetIdFromBody,
+  withPlaywrightRouteContext,
+} from "./agent.shared.js";
+import type { BrowserResponse, BrowserRouteRegistrar } from "./types.js";
+import { jsonError, toBoolean, toNumber, toStringOrEmpty } from "./utils.js";
+
+const log = createSubsystemLogger("browser").child("macros");
+
+const STEP_ARG_OMIT_KEYS = new Set([
+  "kind",
+  "targetId",
+  "profile",
+  "ref",
+  "startRef",
+  "endRef",
+  "fields",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function stepArgs(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(body).filter(([key]) => !STEP_ARG_OMIT_KEYS.has(key)));
+}
+
+/**
+ * Turns a validated `/act` body into a macro step. Refs are resolved to stable
+ * targets before the action runs, while the element is still on the page.
+ * `evaluate` and `close` are not recordable.
+ */
+export async function buildActMacroStep(params: {
+  kind: ActKind;
+  body: Record<string, unknown>;
+  describeRef: (ref: string) => Promise<BrowserMacroTarget>;
+}): Promise<BrowserMacroStep | null> {
+  const { kind, body, describeRef } = params;
+  const args = stepArgs(body);
+  switch (kind) {
+    case "click":
+    case "type":
+    case "hover":
+    case "scrollIntoView":
+    case "select":
+      return { kind, args, target: await describeRef(toStringOrEmpty(body.ref)) };
+    case "drag":
+      return {
+        kind,
+        args,
+        target: await describeRef(toStringOrEmpty(body.startRef)),
+        endTarget: await describeRef(toStringOrEmpty(body.endRef)),
+      };
+    case "fill": {
+      const fields = (Array.isArray(body.fields) ? body.fields : [])
+        .map((field) => (isRecord(field) ? normalizeBrowserFormField(field) : null))
+        .filter((field): field is BrowserFormField => field !== null);
+      const fieldTargets: BrowserMacroTarget[] = [];
+      for (const field of fields) {
+        fieldTargets.push(await describeRef(field.ref));
+      }
+      return {
+        kind,
+        args: { ...args, fields: fields.map(({ type, value }) => ({ type, value })) },
+        fieldTargets,
+      };
+    }
+    case "press":
+    case "resize":
+    case "wait":
+      return { kind, args };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Wraps a route response so a captured step is appended to the profile's
+ * recording only when the action replies successfully.
+ */
+export function createMacroStepRecorder(res: BrowserResponse) {
+  let status = 200;
+  let pending: { profile: string; step: BrowserMacroStep } | null = null;
+  const wrapped: BrowserResponse = {
+    status: (code) => {
+      status = code;
+      res.status(code);
+      return wrapped;
+    },
+    json: (body) => {
+      if (pending && status < 400) {
+        appendBrowserMacroStep(pending.profile, pending.step);
+      }
+      pending = null;
+      res.json(body);
+    },
+  };
+  return {
+    res: wrapped,
+    capture: async (profile: string, build: () => Promise<BrowserMacroStep | null>) => {
+      if (!getBrowserMacroRecording(profile)) {
+        return;
+      }
+      // Recording is best-effort: a target that cannot be described must not fail the action.
+      try {
+        const step = await build();
+        pending = step ? { profile, step } : null;
+      } catch (err) {
+        pending = null;
+        log.warn(`macro step not recorded: ${errorMessage(err)}`);
+      }
+    },
+  };
+}
+
+function summarizeMacro(macro: BrowserMacro) {
+  return {
+    name: macro.name,
+    ...(macro.description ? { description: macro.description } : {}),
+    steps: macro.steps.length,
+    params: macro.params,
+    defaults: Object.keys(macro.defaults ?? {}),
+    createdAt: macro.createdAt,
+    updatedAt: macro.updatedAt,
+  };
+}
+
+function parseDefaults(
+  raw: unknown,
+  params: string[],
+): { defaults?: Record<string, SecretInput>; error?: string } {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!isRecord(raw)) {
+    return { error: "defaults must be an object" };
+  }
+  const defaults: Record<string, SecretInput> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!params.includes(name)) {
+      return { error: `defaults.${name} is not a macro param` };
+    }
+    if (typeof value !== "string" && !isSecretRef(value)) {
+      return { error: `defaults.${name} must be a string or SecretRef` };
+    }
+    defaults[name] = value;
+  }
+  return Object.keys(defaults).length > 0 ? { defaults } : {};
+}
+
+/**
+ * Merges run params over saved defaults. SecretRefs only resolve through
+ * providers declared in `secrets.providers`, so a run cannot read arbitrary
+ * environment variables into a page.
+ */
+async function resolveMacroParamValues(
+  macro: BrowserMacro,
+  provided: unknown,
+): Promise<Record<string, string>> {
+  const inputs: Record<string, unknown> = {
+    ...macro.defaults,
+    ...(isRecord(provided) ? provided : {}),
+  };
+  const cfg = loadConfig();
+  const values: Record<string, string> = {};
+  for (const [name, input] of Object.entries(inputs)) {
+    if (typeof input === "string" || typeof input === "number" || typeof input === "boolean") {
+      values[name] = String(input);
+      continue;
+    }
+    const ref = coerceSecretRef(input, cfg.secrets?.defaults);
+    if (!ref) {
+      throw new Error(`param ${name} must be a string or SecretRef`);
+    }
+    if (!cfg.secrets?.providers?.[ref.provider]) {
+      throw new Error(
+        `param ${name}: secret provider "${ref.provider}" is not configured under secrets.providers`,
+      );
+    }
+    values[name] = await resolveSecretRefString(ref, { config: cfg });
+  }
+  return values;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function registerBrowserAgentMacroRoutes(
+  app: BrowserRouteRegistrar,
+  ctx: BrowserRouteContext,
+) {
+  app.get("/macros", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const profile = profileCtx.profile.name;
+    const recording = getBrowserMacroRecording(profile);
+    const macros = await listBrowserMacros(profile);
+    res.json({
+      ok: true,
+      profile,
+      recording: recording
+        ? { name: recording.name, startedAt: recording.startedAt, steps: recording.steps.length }
+        : null,
+      macros: macros.map(summarizeMacro),
+    });
+  });
+
+  app.post("/macros/record/start", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const name = normalizeBrowserMacroName(readBody(req).name);
+    if (!name) {
+      return jsonError(res, 400, "name is required (letters, digits, '.', '_' or '-')");
+    }
+    startBrowserMacroRecording(profileCtx.profile.name, name);
+    res.json({ ok: true, profile: profileCtx.profile.name, name, recording: true });
+  });
+
+  app.post("/macros/record/stop", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const profile = profileCtx.profile.name;
+    const body = readBody(req);
+    const recording = getBrowserMacroRecording(profile);
+    if (!recording) {
+      return jsonError(res, 400, "no macro recording in progress");
+    }
+    if (toBoolean(body.save) === false) {
+      stopBrowserMacroRecording(profile);
+      return res.json({ ok: true, name: recording.name, saved: false });
+    }
+    if (recording.steps.length === 0) {
+      return jsonError(res, 400, "recording has no steps yet");
+    }
+
+    const literals: Record<string, string> = {};
+    if (body.params !== undefined) {
+      if (!isRecord(body.params)) {
+        return jsonError(res, 400, "params must map param names to recorded values");
+      }
+      for (const [param, literal] of Object.entries(body.params)) {
+        if (!isBrowserMacroParamName(param) || typeof literal !== "string" || !literal) {
+          return jsonError(res, 400, `params.${param} must be a non-empty recorded value`);
+        }
+        literals[param] = literal;
+      }
+    }
+    const parameterized = parameterizeBrowserMacroSteps(recording.steps, literals);
+    if (parameterized.unused.length > 0) {
+      return jsonError(
+        res,
+        400,
+        `recorded steps do not contain the value for: ${parameterized.unused.join(", ")}`,
+      );
+    }
+    // Typed text is never saved as-is unless the caller opts in with keepLiterals.
+    const redacted =
+      toBoolean(body.keepLiterals) === true
+        ? { steps: parameterized.steps, params: [] }
+        : redactBrowserMacroTypedText(parameterized.steps);
+    const params = listBrowserMacroParams(redacted.steps);
+    const parsedDefaults = parseDefaults(body.defaults, params);
+    if (parsedDefaults.error) {
+      return jsonError(res, 400, parsedDefaults.error);
+    }
+
+    stopBrowserMacroRecording(profile);
+    const now = Date.now();
+    const description = toStringOrEmpty(body.description);
+    const macro: BrowserMacro = {
+      name: recording.name,
+      ...(description ? { description } : {}),
+      createdAt: now,
+      updatedAt: now,
+      steps: redacted.steps,
+      params,
+      ...(parsedDefaults.defaults ? { defaults: parsedDefaults.defaults } : {}),
+    };
+    await saveBrowserMacro(profile, macro);
+    res.json({
+      ok: true,
+      saved: true,
+      macro: summarizeMacro(macro),
+      ...(redacted.params.length > 0 ? { generatedParams: redacted.params } : {}),
+    });
+  });
+
+  app.post("/macros/run", async (req, res) => {
+    const body = readBody(req);
+    const name = normalizeBrowserMacroName(body.name);
+    if (!name) {
+      return jsonError(res, 400, "name is required");
+    }
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const macro = await loadBrowserMacro(profileCtx.profile.name, name);
+    if (!macro) {
+      return jsonError(res, 404, `macro "${name}" not found`);
+    }
+    let steps: BrowserMacroStep[];
+    try {
+      steps = applyBrowserMacroParams(
+        macro.steps,
+        await resolveMacroParamValues(macro, body.params),
+      );
+    } catch (err) {
+      return jsonError(res, 400, errorMessage(err));
+    }
+    const timeoutMs = toNumber(body.timeoutMs);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId: resolveTargetIdFromBody(body),
+      feature: "macro run",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const { evaluateEnabled, ssrfPolicy } = ctx.state().resolved;
+        for (const [index, step] of steps.entries()) {
+          try {
+            if (step.kind === "navigate") {
+              await pw.navigateViaPlaywright({
+                cdpUrl,
+                targetId: tab.targetId,
+                url: toStringOrEmpty(step.args.url),
+                ...withBrowserNavigationPolicy(ssrfPolicy),
+              });
+            } else if (step.kind === "wait") {
+              const fn = toStringOrEmpty(step.args.fn) || undefined;
+              if (fn && !evaluateEnabled) {
+                throw new Error("wait --fn is disabled by config (browser.evaluateEnabled=false)");
+              }
+              const loadState = toStringOrEmpty(step.args.loadState);
+              await pw.waitForViaPlaywright({
+                cdpUrl,
+                targetId: tab.targetId,
+                timeMs: toNumber(step.args.timeMs),
+                text: toStringOrEmpty(step.args.text) || undefined,
+                textGone: toStringOrEmpty(step.args.textGone) || undefined,
+                selector: toStringOrEmpty(step.args.selector) || undefined,
+                url: toStringOrEmpty(step.args.url) || undefined,
+                loadState:
+                  loadState === "load" ||
+                  loadState === "domcontentloaded" ||
+                  loadState === "networkidle"
+                    ? loadState
+                    : undefined,
+                fn,
+                timeoutMs: timeoutMs ?? toNumber(step.args.timeoutMs),
+              });
+            } else {
+              await pw.runMacroStepViaPlaywright({
+                cdpUrl,
+                targetId: tab.targetId,
+                step,
+                timeoutMs,
+              });
+            }
+          } catch (err) {
+            // A miss is an expected outcome: report where replay stopped so the
+            // agent can snapshot and take over from that step.
+            return res.json({
+              ok: false,
+              name,
+              targetId: tab.targetId,
+              completed: index,
+              total: steps.length,
+              failedStep: { index, kind: step.kind, error: errorMessage(err) },
+            });
+          }
+        }
+        res.json({
+          ok: true,
+          name,
+          targetId: tab.targetId,
+          completed: steps.length,
+          total: steps.length,
+        });
+      },
+    });
+  });
+
+  app.delete("/macros/:name", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const name = normalizeBrowserMacroName(req.params.name);
+    if (!name || !(await deleteBrowserMacro(profileCtx.profile.name, name))) {
+      return jsonError(res, 404, `macro "${req.params.name}" not found`);
+    }
+    res.json({ ok: true, name, deleted: true });
+  });
+}
@@ -0,0 +1,216 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import {
+  assertBrowserNavigationAllowed,
+  withBrowserNavigationPolicy,
+} from "../navigation-guard.js";
+import type { BrowserNetworkRuleInput } from "../pw-tools-core.network.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import {
+  readBody,
+  resolveTargetIdFromBody,
+  resolveTargetIdFromQuery,
+  withPlaywrightRouteContext,
+} from "./agent.shared.js";
+import { resolveWritableOutputPathOrRespond } from "./output-paths.js";
+import { DEFAULT_TRACE_DIR } from "./path-output.js";
+import type { BrowserRouteRegistrar } from "./types.js";
+import { jsonError, toBoolean, toNumber, toStringArray, toStringOrEmpty } from "./utils.js";
+
+function parseHeaders(value: unknown): Record<string, string> | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, raw] of Object.entries(value)) {
+    if (typeof raw !== "string" || !name.trim()) {
+      return null;
+    }
+    headers[name.trim()] = raw;
+  }
+  return headers;
+}
+
+export function parseNetworkRuleRequest(
+  body: Record<string, unknown>,
+): { rule: BrowserNetworkRuleInput } | { error: string } {
+  const url = toStringOrEmpty(body.url);
+  if (!url) {
+    return { error: "url is required" };
+  }
+  const action = toStringOrEmpty(body.action);
+  if (action !== "block" && action !== "mock" && action !== "rewrite") {
+    return { error: "action must be block|mock|rewrite" };
+  }
+  const headers = parseHeaders(body.headers);
+  if (headers === null) {
+    return { error: "headers must be an object of string values" };
+  }
+  const resourceTypes = toStringArray(body.resourceTypes);
+  const rule: BrowserNetworkRuleInput = {
+    url,
+    action,
+    ...(resourceTypes?.length ? { resourceTypes } : {}),
+  };
+  if (action === "mock") {
+    const status = toNumber(body.status);
+    if (status !== undefined && (!Number.isInteger(status) || status < 100 || status > 599)) {
+      return { error: "status must be an HTTP status code" };
+    }
+    if (body.body !== undefined && typeof body.body !== "string") {
+      return { error: "body must be a string" };
+    }
+    const contentType = toStringOrEmpty(body.contentType);
+    return {
+      rule: {
+        ...rule,
+        ...(status !== undefined ? { status } : {}),
+        ...(contentType ? { contentType } : {}),
+        ...(typeof body.body === "string" ? { body: body.body } : {}),
+        ...(headers ? { headers } : {}),
+      },
+    };
+  }
+  if (action === "rewrite") {
+    const rewriteUrl = toStringOrEmpty(body.rewriteUrl);
+    if (!rewriteUrl && !headers) {
+      return { error: "rewrite requires rewriteUrl and/or headers" };
+    }
+    return {
+      rule: {
+        ...rule,
+        ...(rewriteUrl ? { rewriteUrl } : {}),
+        ...(headers ? { headers } : {}),
+      },
+    };
+  }
+  return { rule };
+}
+
+export function registerBrowserAgentNetworkRoutes(
+  app: BrowserRouteRegistrar,
+  ctx: BrowserRouteContext,
+) {
+  app.get("/network/rules", async (req, res) => {
+    const targetId = resolveTargetIdFromQuery(req.query);
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network rules",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.listNetworkRulesViaPlaywright({ cdpUrl, targetId: tab.targetId });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.post("/network/rules", async (req, res) => {
+    const body = readBody(req);
+    const parsed = parseNetworkRuleRequest(body);
+    if ("error" in parsed) {
+      return jsonError(res, 400, parsed.error);
+    }
+    if (parsed.rule.rewriteUrl) {
+      // Rewrites send page traffic somewhere new, so hold them to the navigation policy.
+      try {
+        await assertBrowserNavigationAllowed({
+          url: parsed.rule.rewriteUrl,
+          ...withBrowserNavigationPolicy(ctx.state().resolved.ssrfPolicy),
+        });
+      } catch (err) {
+        return jsonError(res, 400, err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId: resolveTargetIdFromBody(body),
+      feature: "network rules",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const rule = await pw.addNetworkRuleViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          rule: parsed.rule,
+        });
+        res.json({ ok: true, targetId: tab.targetId, rule });
+      },
+    });
+  });
+
+  app.post("/network/rules/clear", async (req, res) => {
+    const body = readBody(req);
+    const id = toStringOrEmpty(body.id) || undefined;
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId: resolveTargetIdFromBody(body),
+      feature: "network rules",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.clearNetworkRulesViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          id,
+        });
+        if (id && result.removed === 0) {
+          return jsonError(res, 404, `network rule "${id}" not found`);
+        }
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.post("/har/start", async (req, res) => {
+    const body = readBody(req);
+    const content = toBoolean(body.content) ?? undefined;
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId: resolveTargetIdFromBody(body),
+      feature: "har start",
+      run: async ({ cdpUrl, tab, pw }) => {
+        await pw.harStartViaPlaywright({ cdpUrl, targetId: tab.targetId, content });
+        res.json({ ok: true, targetId: tab.targetId });
+      },
+    });
+  });
+
+  app.post("/har/stop", async (req, res) => {
+    const body = readBody(req);
+    const out = toStringOrEmpty(body.path) || "";
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId: resolveTargetIdFromBody(body),
+      feature: "har stop",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const harPath = await resolveWritableOutputPathOrRespond({
+          res,
+          rootDir: DEFAULT_TRACE_DIR,
+          requestedPath: out,
+          scopeLabel: "trace directory",
+          defaultFileName: `browser-${crypto.randomUUID()}.har`,
+          ensureRootDir: true,
+        });
+        if (!harPath) {
+          return;
+        }
+        const result = await pw.harStopViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          path: harPath,
+        });
+        res.json({ ok: true, targetId: tab.targetId, path: path.resolve(harPath), ...result });
+      },
+    });
+  });
+}
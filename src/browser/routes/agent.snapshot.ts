@@ -13,6 +13,7 @@ import {
   normalizeBrowserScreenshot,
 } from "../screenshot.js";
 import type { BrowserRouteContext } from "../server-context.js";
+import { createMacroStepRecorder } from "./agent.macros.js";
 import {
   getPwAiModule,
   handleRouteError,
@@ -52,7 +53,9 @@ export function registerBrowserAgentSnapshotRoutes(
   app: BrowserRouteRegistrar,
   ctx: BrowserRouteContext,
 ) {
-  app.post("/navigate", async (req, res) => {
+  app.post("/navigate", async (req, routeRes) => {
+    const macroRecorder = createMacroStepRecorder(routeRes);
+    const res = macroRecorder.res;
     const body = readBody(req);
     const url = toStringOrEmpty(body.url);
     const targetId = toStringOrEmpty(body.targetId) || undefined;
@@ -65,7 +68,11 @@ export function registerBrowserAgentSnapshotRoutes(
       ctx,
       targetId,
       feature: "navigate",
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ cdpUrl, tab, pw, profileCtx }) => {
+        await macroRecorder.capture(profileCtx.profile.name, async () => ({
+          kind: "navigate",
+          args: { url },
+        }));
         const result = await pw.navigateViaPlaywright({
           cdpUrl,
           targetId: tab.targetId,
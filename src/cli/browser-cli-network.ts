@@ -0,0 +1,267 @@
+import type { Command } from "commander";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { shortenHomePath } from "../utils.js";
+import { callBrowserRequest, type BrowserParentOpts } from "./browser-cli-shared.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+
+type NetworkRuleSummary = {
+  id: string;
+  url: string;
+  action: string;
+  hits: number;
+  status?: number;
+  rewriteUrl?: string;
+  resourceTypes?: string[];
+};
+
+function runBrowserNetwork(action: () => Promise<void>) {
+  return runCommandWithRuntime(defaultRuntime, action, (err) => {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  });
+}
+
+function collectOption(value: string, previous: string[] = []) {
+  return [...previous, value];
+}
+
+/** Parses repeated `--header "Name: value"` options. */
+export function parseHeaderOptions(
+  values: string[] | undefined,
+): Record<string, string> | undefined {
+  if (!values?.length) {
+    return undefined;
+  }
+  const headers: Record<string, string> = {};
+  for (const raw of values) {
+    const idx = raw.indexOf(":");
+    const name = idx > 0 ? raw.slice(0, idx).trim() : "";
+    if (!name) {
+      throw new Error(`Invalid --header "${raw}" (expected "Name: value")`);
+    }
+    headers[name] = raw.slice(idx + 1).trim();
+  }
+  return headers;
+}
+
+function formatRule(rule: NetworkRuleSummary): string {
+  const detail =
+    rule.action === "mock"
+      ? ` -> ${rule.status ?? 200}`
+      : rule.action === "rewrite" && rule.rewriteUrl
+        ? ` -> ${rule.rewriteUrl}`
+        : "";
+  const types = rule.resourceTypes?.length ? ` [${rule.resourceTypes.join(",")}]` : "";
+  return `${rule.id} ${rule.action} ${rule.url}${detail}${types} (hits: ${rule.hits})`;
+}
+
+export function registerBrowserNetworkCommands(
+  browser: Command,
+  parentOpts: (cmd: Command) => BrowserParentOpts,
+) {
+  const network = browser
+    .command("network")
+    .description("Block, mock or rewrite requests on a tab");
+
+  network
+    .command("rules")
+    .description("List network rules on a tab")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserNetwork(async () => {
+        const result = await callBrowserRequest<{ rules: NetworkRuleSummary[] }>(
+          parent,
+          {
+            method: "GET",
+            path: "/network/rules",
+            query: { targetId: opts.targetId?.trim() || undefined, profile },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (!result.rules.length) {
+          defaultRuntime.log("No network rules.");
+          return;
+        }
+        defaultRuntime.log(result.rules.map(formatRule).join("\n"));
+      });
+    });
+
+  const addRule = async (cmd: Command, body: Record<string, unknown>, targetId?: string) => {
+    const parent = parentOpts(cmd);
+    const profile = parent?.browserProfile;
+    await runBrowserNetwork(async () => {
+      const result = await callBrowserRequest<{ rule: NetworkRuleSummary }>(
+        parent,
+        {
+          method: "POST",
+          path: "/network/rules",
+          query: profile ? { profile } : undefined,
+          body: { ...body, targetId: targetId?.trim() || undefined },
+        },
+        { timeoutMs: 20000 },
+      );
+      if (parent?.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      defaultRuntime.log(`added ${formatRule(result.rule)}`);
+    });
+  };
+
+  network
+    .command("block")
+    .description("Abort requests matching a URL pattern (substring or * glob)")
+    .argument("<url>", "URL pattern")
+    .option("--type <type>", "Only this resource type (repeatable)", collectOption)
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (url: string, opts, cmd) => {
+      await addRule(cmd, { url, action: "block", resourceTypes: opts.type }, opts.targetId);
+    });
+
+  network
+    .command("mock")
+    .description("Answer requests matching a URL pattern with a canned response")
+    .argument("<url>", "URL pattern")
+    .option("--status <code>", "HTTP status (default 200)", (v: string) => Number(v))
+    .option("--body <text>", "Response body", "")
+    .option("--content-type <type>", "Response content type")
+    .option("--header <header>", "Response header 'Name: value' (repeatable)", collectOption)
+    .option("--type <type>", "Only this resource type (repeatable)", collectOption)
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (url: string, opts, cmd) => {
+      await addRule(
+        cmd,
+        {
+          url,
+          action: "mock",
+          status: opts.status,
+          body: opts.body,
+          contentType: opts.contentType,
+          headers: parseHeaderOptions(opts.header),
+          resourceTypes: opts.type,
+        },
+        opts.targetId,
+      );
+    });
+
+  network
+    .command("rewrite")
+    .description("Redirect or re-header requests matching a URL pattern")
+    .argument("<url>", "URL pattern")
+    .option("--to <url>", "Send matching requests to this URL")
+    .option("--header <header>", "Request header 'Name: value' (repeatable)", collectOption)
+    .option("--type <type>", "Only this resource type (repeatable)", collectOption)
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (url: string, opts, cmd) => {
+      await addRule(
+        cmd,
+        {
+          url,
+          action: "rewrite",
+          rewriteUrl: opts.to,
+          headers: parseHeaderOptions(opts.header),
+          resourceTypes: opts.type,
+        },
+        opts.targetId,
+      );
+    });
+
+  network
+    .command("clear")
+    .description("Remove one network rule, or all rules on the tab")
+    .argument("[id]", "Rule id (from `network rules`)")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (id: string | undefined, opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserNetwork(async () => {
+        const result = await callBrowserRequest<{ removed: number }>(
+          parent,
+          {
+            method: "POST",
+            path: "/network/rules/clear",
+            query: profile ? { profile } : undefined,
+            body: { id: id?.trim() || undefined, targetId: opts.targetId?.trim() || undefined },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(`removed ${result.removed} rule(s)`);
+      });
+    });
+
+  const har = browser.command("har").description("Record tab network traffic to a HAR file");
+
+  har
+    .command("start")
+    .description("Start HAR recording")
+    .option("--content", "Include response bodies (up to 1 MB each)", false)
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserNetwork(async () => {
+        const result = await callBrowserRequest(
+          parent,
+          {
+            method: "POST",
+            path: "/har/start",
+            query: profile ? { profile } : undefined,
+            body: {
+              targetId: opts.targetId?.trim() || undefined,
+              content: Boolean(opts.content),
+            },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log("har recording started");
+      });
+    });
+
+  har
+    .command("stop")
+    .description("Stop HAR recording and write a .har file")
+    .option(
+      "--out <path>",
+      "Output path within openclaw temp dir (e.g. run.har or /tmp/openclaw/run.har)",
+    )
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserNetwork(async () => {
+        const result = await callBrowserRequest<{ path: string; entries: number }>(
+          parent,
+          {
+            method: "POST",
+            path: "/har/stop",
+            query: profile ? { profile } : undefined,
+            body: {
+              targetId: opts.targetId?.trim() || undefined,
+              path: opts.out?.trim() || undefined,
+            },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(`HAR:${shortenHomePath(result.path)} (${result.entries} entries)`);
+      });
+    });
+}
@@ -10,6 +10,7 @@ import { browserActionExamples, browserCoreExamples } from "./browser-cli-exampl
 import { registerBrowserExtensionCommands } from "./browser-cli-extension.js";
 import { registerBrowserInspectCommands } from "./browser-cli-inspect.js";
 import { registerBrowserManageCommands } from "./browser-cli-manage.js";
+import { registerBrowserNetworkCommands } from "./browser-cli-network.js";
 import type { BrowserParentOpts } from "./browser-cli-shared.js";
 import { registerBrowserStateCommands } from "./browser-cli-state.js";
 import { formatCliCommand } from "./command-format.js";
@@ -51,5 +52,6 @@ export function registerBrowserCli(program: Command) {
   registerBrowserActionInputCommands(browser, parentOpts);
   registerBrowserActionObserveCommands(browser, parentOpts);
   registerBrowserDebugCommands(browser, parentOpts);
+  registerBrowserNetworkCommands(browser, parentOpts);
   registerBrowserStateCommands(browser, parentOpts);
 }
@@ -9,6 +9,9 @@ import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronAfterSchedule,
+  parseCronCalendarRules,
+  parseCronRetryPolicy,
   parseDurationMs,
   printCronList,
   warnIfCronSchedulerDisabled,
@@ -76,9 +79,18 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option("--after <ids>", "Run as a follow-up after these job ids finish (comma-separated)")
+      .option("--on <status>", "Follow-up trigger for --after (ok|error|skipped|any)", "ok")
+      .option("--summary-match <regex>", "Only follow up when the upstream summary matches")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
+      .option(
+        "--exclude-dates <dates>",
+        "Skip these local dates (YYYY-MM-DD or A..B, comma-separated)",
+      )
+      .option("--ics <path>", "Skip holidays and blackout windows from a local ICS file")
+      .option("--business-days", "Only run on weekdays in the schedule timezone", false)
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
@@ -93,6 +105,13 @@ export function registerCronAddCommand(cron: Command) {
         "Delivery destination (E.164, Telegram chatId, or Discord channel/user)",
       )
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option("--retry-max <n>", "Retry failed runs: total attempts per run (default 3)")
+      .option("--retry-backoff <duration>", "Delay before the first retry; doubles per attempt")
+      .option("--retry-cap <duration>", "Maximum delay between retries")
+      .option(
+        "--retry-on <classes>",
+        "Error classes to retry (overloaded,rate-limit,timeout,delivery-target,other)",
+      )
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -106,13 +125,23 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            const calendar = parseCronCalendarRules(opts);
+            if (calendar && !every && !cronExpr) {
+              throw new Error("--exclude-dates/--ics/--business-days need --every or --cron");
+            }
+            if (after) {
+              return parseCronAfterSchedule(opts);
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -125,7 +154,7 @@ export function registerCronAddCommand(cron: Command) {
               if (!everyMs) {
                 throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
               }
-              return { kind: "every" as const, everyMs };
+              return { kind: "every" as const, everyMs, ...calendar };
             }
             const staggerMs = (() => {
               if (useExact) {
@@ -145,6 +174,7 @@ export function registerCronAddCommand(cron: Command) {
               expr: cronExpr,
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
               staggerMs,
+              ...calendar,
             };
           })();
 
@@ -268,6 +298,7 @@ export function registerCronAddCommand(cron: Command) {
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
                 }
               : undefined,
+            retry: parseCronRetryPolicy(opts),
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
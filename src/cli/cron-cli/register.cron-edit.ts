@@ -7,6 +7,8 @@ import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronCalendarRules,
+  parseCronRetryPolicy,
   parseDurationMs,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -46,6 +48,13 @@ export function registerCronEditCommand(cron: Command) {
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
+      .option(
+        "--exclude-dates <dates>",
+        "Skip these local dates (YYYY-MM-DD or A..B, comma-separated)",
+      )
+      .option("--ics <path>", "Skip holidays and blackout windows from a local ICS file")
+      .option("--business-days", "Only run on weekdays in the schedule timezone")
+      .option("--clear-calendar", "Remove excluded dates, ICS file and business-day rules", false)
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
       .option("--thinking <level>", "Thinking level for agent jobs")
@@ -61,6 +70,11 @@ export function registerCronEditCommand(cron: Command) {
       )
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option("--retry-max <n>", "Retry failed runs: total attempts per run")
+      .option("--retry-backoff <duration>", "Delay before the first retry; doubles per attempt")
+      .option("--retry-cap <duration>", "Maximum delay between retries")
+      .option("--retry-on <classes>", "Error classes to retry (comma-separated)")
+      .option("--clear-retry", "Remove the retry policy", false)
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -155,6 +169,14 @@ export function registerCronEditCommand(cron: Command) {
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
+          const calendar = parseCronCalendarRules(opts);
+          if (calendar && opts.clearCalendar) {
+            throw new Error("Choose calendar options or --clear-calendar, not both");
+          }
+          const hasCalendarChange = Boolean(calendar) || Boolean(opts.clearCalendar);
+          if (hasCalendarChange && opts.at) {
+            throw new Error("Calendar rules are only valid for --every or --cron schedules");
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -166,15 +188,20 @@ export function registerCronEditCommand(cron: Command) {
             if (!everyMs) {
               throw new Error("Invalid --every");
             }
-            patch.schedule = { kind: "every", everyMs };
+            patch.schedule = { kind: "every", everyMs, ...calendar };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
               expr: String(opts.cron),
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
               staggerMs: requestedStaggerMs,
+              ...calendar,
             };
-          } else if (requestedStaggerMs !== undefined || typeof opts.tz === "string") {
+          } else if (
+            requestedStaggerMs !== undefined ||
+            typeof opts.tz === "string" ||
+            hasCalendarChange
+          ) {
             const listed = (await callGatewayFromCli("cron.list", opts, {
               includeDisabled: true,
             })) as { jobs?: CronJob[] } | null;
@@ -182,18 +209,43 @@ export function registerCronEditCommand(cron: Command) {
             if (!existing) {
               throw new Error(`unknown cron job id: ${id}`);
             }
-            if (existing.schedule.kind !== "cron") {
-              throw new Error("Current job is not a cron schedule; use --cron to convert first");
+            const calendarBase = (schedule: CronJob["schedule"]) =>
+              opts.clearCalendar || schedule.kind === "at" || schedule.kind === "after"
+                ? {}
+                : {
+                    excludeDates: schedule.excludeDates,
+                    icsFile: schedule.icsFile,
+                    businessDaysOnly: schedule.businessDaysOnly,
+                  };
+            if (existing.schedule.kind === "every" && hasCalendarChange) {
+              if (requestedStaggerMs !== undefined || typeof opts.tz === "string") {
+                throw new Error("Current job is not a cron schedule; use --cron to convert first");
+              }
+              patch.schedule = {
+                kind: "every",
+                everyMs: existing.schedule.everyMs,
+                anchorMs: existing.schedule.anchorMs,
+                ...calendarBase(existing.schedule),
+                ...calendar,
+              };
+            } else {
+              if (existing.schedule.kind !== "cron") {
+                throw new Error("Current job is not a cron schedule; use --cron to convert first");
+              }
+              const tz =
+                typeof opts.tz === "string" ? opts.tz.trim() || undefined : existing.schedule.tz;
+              patch.schedule = {
+                kind: "cron",
+                expr: existing.schedule.expr,
+                tz,
+                staggerMs:
+                  requestedStaggerMs !== undefined
+                    ? requestedStaggerMs
+                    : existing.schedule.staggerMs,
+                ...calendarBase(existing.schedule),
+                ...calendar,
+              };
             }
-            const tz =
-              typeof opts.tz === "string" ? opts.tz.trim() || undefined : existing.schedule.tz;
-            patch.schedule = {
-              kind: "cron",
-              expr: existing.schedule.expr,
-              tz,
-              staggerMs:
-                requestedStaggerMs !== undefined ? requestedStaggerMs : existing.schedule.staggerMs,
-            };
           }
 
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
@@ -257,6 +309,16 @@ export function registerCronEditCommand(cron: Command) {
             patch.delivery = delivery;
           }
 
+          const retry = parseCronRetryPolicy(opts);
+          if (retry && opts.clearRetry) {
+            throw new Error("Choose --retry-* options or --clear-retry, not both");
+          }
+          if (retry) {
+            patch.retry = retry;
+          } else if (opts.clearRetry) {
+            patch.retry = null;
+          }
+
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
             patch,
@@ -1,8 +1,9 @@
 import type { Command } from "commander";
+import type { CronChainGraph } from "../../cron/types.js";
 import { danger } from "../../globals.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { warnIfCronSchedulerDisabled } from "./shared.js";
+import { printCronChainGraph, warnIfCronSchedulerDisabled } from "./shared.js";
 
 function registerCronToggleCommand(params: {
   cron: Command;
@@ -68,15 +69,87 @@ export function registerCronSimpleCommands(cron: Command) {
     cron
       .command("runs")
       .description("Show cron run history (JSONL-backed)")
-      .requiredOption("--id <id>", "Job id")
+      .option("--id <id>", "Job id")
+      .option("--chain <chainRunId>", "Show every step of one chain run")
       .option("--limit <n>", "Max entries (default 50)", "50")
       .action(async (opts) => {
         try {
           const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
           const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
-          const id = String(opts.id);
-          const res = await callGatewayFromCli("cron.runs", opts, {
-            id,
+          const chainRunId = typeof opts.chain === "string" ? opts.chain.trim() : "";
+          if (!opts.id && !chainRunId) {
+            throw new Error("Pass --id <id> or --chain <chainRunId>");
+          }
+          const res = await callGatewayFromCli(
+            "cron.runs",
+            opts,
+            chainRunId
+              ? {
+                  scope: opts.id ? "job" : "all",
+                  id: opts.id ? String(opts.id) : undefined,
+                  chainRunId,
+                  limit,
+                  sortDir: "asc",
+                }
+              : { id: String(opts.id), limit },
+          );
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    cron
+      .command("graph")
+      .description("Show cron job chains (follow-up jobs declared with --after)")
+      .argument("[id]", "Only show the chain containing this job")
+      .option("--json", "Output JSON", false)
+      .action(async (id, opts) => {
+        try {
+          const res = await callGatewayFromCli("cron.graph", opts, id ? { id } : {});
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          printCronChainGraph(res as CronChainGraph, defaultRuntime);
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    cron
+      .command("replay")
+      .description("Replay a failed chain run from its failed step")
+      .argument("<chainRunId>", "Chain run id (see `cron runs`)")
+      .action(async (chainRunId, opts) => {
+        try {
+          const res = await callGatewayFromCli("cron.replay", opts, { chainRunId });
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    cron
+      .command("dead-letters")
+      .description("List runs that failed for good after exhausting their retries")
+      .option("--id <id>", "Job id")
+      .option("--limit <n>", "Max entries (default 50)", "50")
+      .action(async (opts) => {
+        try {
+          const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
+          const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
+          const res = await callGatewayFromCli("cron.deadLetters", opts, {
+            id: opts.id ? String(opts.id) : undefined,
             limit,
           });
           defaultRuntime.log(JSON.stringify(res, null, 2));
@@ -87,6 +160,22 @@ export function registerCronSimpleCommands(cron: Command) {
       }),
   );
 
+  addGatewayClientOptions(
+    cron
+      .command("redrive")
+      .description("Re-run a dead-lettered run and drop it from the dead-letter list")
+      .argument("<deadLetterId>", "Dead letter id (see `cron dead-letters`)")
+      .action(async (deadLetterId, opts) => {
+        try {
+          const res = await callGatewayFromCli("cron.redrive", opts, { deadLetterId });
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
   addGatewayClientOptions(
     cron
       .command("run")
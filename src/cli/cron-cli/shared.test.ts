@@ -89,4 +89,26 @@ describe("printCronList", () => {
     printCronList([job], runtime);
     expect(logs.some((line) => line.includes("(exact)"))).toBe(true);
   });
+
+  it("prints why calendar rules skipped runs", () => {
+    const { logs, runtime } = createRuntimeLogCapture();
+    const job = createBaseJob({
+      id: "calendar-job",
+      name: "Standup",
+      schedule: { kind: "every", everyMs: 3_600_000, businessDaysOnly: true },
+      sessionTarget: "main",
+      state: {
+        calendarSkip: {
+          skippedAtMs: Date.parse("2026-12-05T09:00:00.000Z"),
+          reason: "weekend (Sat)",
+          skippedRuns: 2,
+        },
+      },
+      payload: { kind: "systemEvent", text: "tick" },
+    });
+
+    printCronList([job], runtime);
+    expect(logs.some((line) => line.includes("every 1h [weekdays]"))).toBe(true);
+    expect(logs).toContain("  skipped 2 runs from 2026-12-05 09:00Z: weekend (Sat)");
+  });
 });
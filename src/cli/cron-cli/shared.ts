@@ -1,7 +1,15 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronCalendarRules,
+  CronChainCondition,
+  CronChainGraph,
+  CronJob,
+  CronRetryErrorClass,
+  CronRetryPolicy,
+  CronSchedule,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +86,112 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+const CRON_CHAIN_CONDITIONS: CronChainCondition[] = ["ok", "error", "skipped", "any"];
+
+export function parseCronAfterSchedule(
+  opts: Record<string, unknown>,
+): Extract<CronSchedule, { kind: "after" }> {
+  const after = (typeof opts.after === "string" ? opts.after : "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (after.length === 0) {
+    throw new Error("Invalid --after; pass one or more job ids (comma-separated)");
+  }
+  const onRaw = typeof opts.on === "string" ? opts.on.trim().toLowerCase() : "";
+  if (onRaw && !CRON_CHAIN_CONDITIONS.includes(onRaw as CronChainCondition)) {
+    throw new Error(`--on must be one of ${CRON_CHAIN_CONDITIONS.join("|")}`);
+  }
+  const summaryPattern =
+    typeof opts.summaryMatch === "string" && opts.summaryMatch.trim()
+      ? opts.summaryMatch.trim()
+      : undefined;
+  return {
+    kind: "after",
+    after,
+    on: onRaw ? (onRaw as CronChainCondition) : undefined,
+    summaryPattern,
+  };
+}
+
+const CRON_RETRY_ERROR_CLASSES: CronRetryErrorClass[] = [
+  "overloaded",
+  "rate-limit",
+  "timeout",
+  "delivery-target",
+  "other",
+];
+
+/** Build a retry policy from `--retry-*` options; undefined when none were given. */
+export function parseCronRetryPolicy(opts: Record<string, unknown>): CronRetryPolicy | undefined {
+  const retry: CronRetryPolicy = {};
+  if (opts.retryMax !== undefined) {
+    const maxAttempts = Number.parseInt(String(opts.retryMax), 10);
+    if (!Number.isFinite(maxAttempts) || maxAttempts < 1) {
+      throw new Error("Invalid --retry-max; use a positive integer");
+    }
+    retry.maxAttempts = maxAttempts;
+  }
+  if (typeof opts.retryBackoff === "string") {
+    const backoffBaseMs = parseDurationMs(opts.retryBackoff);
+    if (!backoffBaseMs) {
+      throw new Error("Invalid --retry-backoff; use e.g. 30s, 1m");
+    }
+    retry.backoffBaseMs = backoffBaseMs;
+  }
+  if (typeof opts.retryCap === "string") {
+    const backoffCapMs = parseDurationMs(opts.retryCap);
+    if (!backoffCapMs) {
+      throw new Error("Invalid --retry-cap; use e.g. 15m, 1h");
+    }
+    retry.backoffCapMs = backoffCapMs;
+  }
+  if (typeof opts.retryOn === "string") {
+    const classes = opts.retryOn
+      .split(",")
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean);
+    const invalid = classes.find(
+      (entry) => !CRON_RETRY_ERROR_CLASSES.includes(entry as CronRetryErrorClass),
+    );
+    if (classes.length === 0 || invalid) {
+      throw new Error(`--retry-on must list ${CRON_RETRY_ERROR_CLASSES.join("|")}`);
+    }
+    retry.retryOn = Array.from(new Set(classes)) as CronRetryErrorClass[];
+  }
+  return Object.keys(retry).length > 0 ? retry : undefined;
+}
+
+export function parseCronCalendarRules(
+  opts: Record<string, unknown>,
+): CronCalendarRules | undefined {
+  const calendar: CronCalendarRules = {};
+  if (typeof opts.excludeDates === "string") {
+    const dates = opts.excludeDates
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const invalid = dates.find(
+      (entry) => !/^\d{4}-\d{2}-\d{2}(\.\.\d{4}-\d{2}-\d{2})?$/.test(entry),
+    );
+    if (dates.length === 0 || invalid) {
+      throw new Error("Invalid --exclude-dates; use e.g. 2026-12-25,2026-12-28..2026-12-31");
+    }
+    calendar.excludeDates = Array.from(new Set(dates));
+  }
+  if (typeof opts.ics === "string") {
+    const icsFile = opts.ics.trim();
+    if (!icsFile) {
+      throw new Error("--ics requires a file path");
+    }
+    calendar.icsFile = icsFile;
+  }
+  if (opts.businessDays === true) {
+    calendar.businessDaysOnly = true;
+  }
+  return Object.keys(calendar).length > 0 ? calendar : undefined;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -131,19 +245,31 @@ const formatRelative = (ms: number | null | undefined, nowMs: number) => {
   return delta >= 0 ? `in ${label}` : `${label} ago`;
 };
 
+const formatCalendar = (calendar: CronCalendarRules) => {
+  const rules = [
+    calendar.businessDaysOnly ? "weekdays" : "",
+    calendar.excludeDates?.length ? `-${calendar.excludeDates.length}d` : "",
+    calendar.icsFile ? "ics" : "",
+  ].filter(Boolean);
+  return rules.length > 0 ? ` [${rules.join(" ")}]` : "";
+};
+
 const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "at") {
     return `at ${formatIsoMinute(schedule.at)}`;
   }
   if (schedule.kind === "every") {
-    return `every ${formatDurationHuman(schedule.everyMs)}`;
+    return `every ${formatDurationHuman(schedule.everyMs)}${formatCalendar(schedule)}`;
+  }
+  if (schedule.kind === "after") {
+    return `after ${schedule.after.join(",")} (${schedule.on ?? "ok"})`;
   }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
-    return `${base} (exact)`;
+    return `${base} (exact)${formatCalendar(schedule)}`;
   }
-  return `${base} (stagger ${formatDurationHuman(staggerMs)})`;
+  return `${base} (stagger ${formatDurationHuman(staggerMs)})${formatCalendar(schedule)}`;
 };
 
 const formatStatus = (job: CronJob) => {
@@ -230,5 +356,53 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
     ].join(" ");
 
     runtime.log(line.trimEnd());
+
+    const calendarSkip = job.enabled ? job.state.calendarSkip : undefined;
+    if (calendarSkip) {
+      const runs = calendarSkip.skippedRuns === 1 ? "run" : "runs";
+      const skipLine = `  skipped ${calendarSkip.skippedRuns} ${runs} from ${formatIsoMinute(new Date(calendarSkip.skippedAtMs).toISOString())}: ${calendarSkip.reason}`;
+      runtime.log(colorize(rich, theme.muted, skipLine));
+    }
+  }
+}
+
+export function printCronChainGraph(graph: CronChainGraph, runtime = defaultRuntime) {
+  if (graph.edges.length === 0) {
+    runtime.log("No cron job chains.");
+    return;
+  }
+
+  const rich = isRich();
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const downstreamIds = new Set(graph.edges.map((edge) => edge.to));
+  const roots = graph.nodes.filter((node) => !downstreamIds.has(node.id));
+  const formatNode = (id: string) => {
+    const node = nodesById.get(id);
+    if (!node) {
+      return colorize(rich, theme.error, `${id} (missing)`);
+    }
+    const status = node.enabled ? (node.lastStatus ?? "idle") : "disabled";
+    const statusColor =
+      status === "ok" ? theme.success : status === "error" ? theme.error : theme.muted;
+    return `${colorize(rich, theme.info, node.name)} ${colorize(rich, theme.muted, node.id)} ${colorize(rich, statusColor, status)}`;
+  };
+
+  const visit = (id: string, prefix: string, path: Set<string>) => {
+    const children = graph.edges.filter((edge) => edge.from === id);
+    children.forEach((edge, index) => {
+      const last = index === children.length - 1;
+      const condition = edge.summaryPattern ? `${edge.on} /${edge.summaryPattern}/` : edge.on;
+      runtime.log(
+        `${prefix}${last ? "└─" : "├─"} [${colorize(rich, theme.accent, condition)}] ${formatNode(edge.to)}`,
+      );
+      if (!path.has(edge.to)) {
+        visit(edge.to, `${prefix}${last ? "   " : "│  "}`, new Set([...path, edge.to]));
+      }
+    });
+  };
+
+  for (const root of roots) {
+    runtime.log(formatNode(root.id));
+    visit(root.id, "", new Set([root.id]));
   }
 }
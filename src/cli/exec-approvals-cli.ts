@@ -16,6 +16,7 @@ import { describeUnknownError } from "./gateway-cli/shared.js";
 import { callGatewayFromCli } from "./gateway-rpc.js";
 import { nodesCallOpts, resolveNodeId } from "./nodes-cli/rpc.js";
 import type { NodesRpcOpts } from "./nodes-cli/types.js";
+import { registerOutboundApprovalsCli } from "./outbound-approvals-cli.js";
 
 type ExecApprovalsSnapshot = {
   path: string;
@@ -479,4 +480,6 @@ export function registerExecApprovalsCli(program: Command) {
       return true;
     },
   });
+
+  registerOutboundApprovalsCli(approvals);
 }
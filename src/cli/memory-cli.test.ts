@@ -446,4 +446,80 @@ describe("memory cli", () => {
     expect(payload.results as unknown[]).toHaveLength(1);
     expect(close).toHaveBeenCalled();
   });
+
+  it("exports the index archive to a file", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-cli-export-"));
+    const archivePath = path.join(tmpDir, "index.json");
+    const archive = {
+      kind: "openclaw.memory-index",
+      version: 1,
+      exportedAt: 1,
+      agentId: "main",
+      fingerprint: { provider: "openai", model: "text-embedding-3-small", dims: 3 },
+      chunking: { tokens: 400, overlap: 80 },
+      sources: ["memory"],
+      files: [],
+      chunks: [],
+    };
+    try {
+      mockManager({ exportIndex: vi.fn(async () => archive), close: vi.fn(async () => {}) });
+      const log = spyRuntimeLogs();
+      await runMemoryCli(["export", archivePath]);
+
+      expect(JSON.parse(await fs.readFile(archivePath, "utf-8"))).toEqual(archive);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining("Exported 0 chunks from 0 files"));
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses to import a mismatched archive without --reembed", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-cli-import-"));
+    const archivePath = path.join(tmpDir, "index.json");
+    await fs.writeFile(
+      archivePath,
+      JSON.stringify({
+        kind: "openclaw.memory-index",
+        version: 1,
+        fingerprint: { provider: "gemini", model: "gemini-embedding-001" },
+        chunking: { tokens: 400, overlap: 80 },
+        sources: ["memory"],
+        files: [],
+        chunks: [],
+      }),
+    );
+    try {
+      const importIndex = vi.fn(async () => ({
+        files: 0,
+        chunks: 0,
+        reembedded: 0,
+        mismatches: [],
+      }));
+      mockManager({
+        status: () => makeMemoryStatus(),
+        importIndex,
+        close: vi.fn(async () => {}),
+      });
+      const error = spyRuntimeErrors();
+      await runMemoryCli(["import", archivePath]);
+
+      expect(importIndex).not.toHaveBeenCalled();
+      expect(error).toHaveBeenCalledWith(expect.stringContaining("Pass --reembed"));
+      expect(process.exitCode).toBe(1);
+
+      process.exitCode = undefined;
+      mockManager({
+        status: () => makeMemoryStatus(),
+        importIndex,
+        close: vi.fn(async () => {}),
+      });
+      spyRuntimeLogs();
+      await runMemoryCli(["import", archivePath, "--reembed"]);
+      expect(importIndex).toHaveBeenCalledWith(expect.objectContaining({ files: [] }), {
+        reembed: true,
+      });
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -8,12 +8,17 @@ import { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { setVerbose } from "../globals.js";
+import {
+  diffMemoryIndexFingerprint,
+  parseMemoryIndexArchive,
+  type MemoryIndexArchive,
+} from "../memory/index-archive.js";
 import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
 import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
-import { shortenHomeInString, shortenHomePath } from "../utils.js";
+import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatErrorMessage, withManager } from "./cli-utils.js";
 import { formatHelpExamples } from "./help-format.js";
 import { withProgress, withProgressTotals } from "./progress.js";
@@ -478,6 +483,14 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`${label("Vector error")} ${warn(status.vector.loadError)}`);
       }
     }
+    const remoteVectorStore = status.custom?.remoteVectorStore as
+      | { url: string; collection: string }
+      | undefined;
+    if (remoteVectorStore) {
+      lines.push(
+        `${label("Vector store")} ${info(remoteVectorStore.url)} ${muted(`(${remoteVectorStore.collection})`)}`,
+      );
+    }
     if (status.fts) {
       const ftsState = status.fts.enabled
         ? status.fts.available
@@ -547,6 +560,11 @@ export function registerMemoryCli(program: Command) {
           ["openclaw memory index --force", "Force a full reindex."],
           ['openclaw memory search --query "deployment notes"', "Search indexed memory entries."],
           ["openclaw memory status --json", "Output machine-readable JSON."],
+          ["openclaw memory export ~/memory-index.json", "Export the index for another host."],
+          [
+            "openclaw memory import ~/memory-index.json --reembed",
+            "Import, re-embedding on mismatch.",
+          ],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/memory", "docs.openclaw.ai/cli/memory")}\n`,
     );
 
@@ -699,6 +717,96 @@ export function registerMemoryCli(program: Command) {
       }
     });
 
+  memory
+    .command("export")
+    .description("Export the memory index (chunks, embeddings, fingerprint) to a file")
+    .argument("<file>", "Archive path to write")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .action(async (file: string, opts: MemoryCommandOptions) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const archivePath = resolveUserPath(file);
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          if (!manager.exportIndex) {
+            defaultRuntime.error("Memory backend does not support index export.");
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const archive = await manager.exportIndex();
+            await fs.mkdir(path.dirname(archivePath), { recursive: true });
+            await fs.writeFile(archivePath, JSON.stringify(archive), "utf-8");
+            const { provider, model, dims } = archive.fingerprint;
+            defaultRuntime.log(
+              `Exported ${archive.chunks.length} chunks from ${archive.files.length} files to ${shortenHomePath(archivePath)} (${provider}/${model}${dims ? `, ${dims} dims` : ""}).`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory export failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
+  memory
+    .command("import")
+    .description("Replace the memory index with an exported archive")
+    .argument("<file>", "Archive path to read")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--reembed", "Re-embed chunks when the provider/model/dims differ", false)
+    .option("--json", "Print JSON")
+    .action(async (file: string, opts: MemoryCommandOptions & { reembed?: boolean }) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const archivePath = resolveUserPath(file);
+      let archive: MemoryIndexArchive;
+      try {
+        archive = parseMemoryIndexArchive(JSON.parse(await fs.readFile(archivePath, "utf-8")));
+      } catch (err) {
+        defaultRuntime.error(`Memory import failed: ${formatErrorMessage(err)}`);
+        process.exitCode = 1;
+        return;
+      }
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          if (!manager.importIndex) {
+            defaultRuntime.error("Memory backend does not support index import.");
+            process.exitCode = 1;
+            return;
+          }
+          const mismatches = diffMemoryIndexFingerprint(archive.fingerprint, manager.status());
+          if (mismatches.length > 0 && !opts.reembed) {
+            defaultRuntime.error(
+              `Memory index archive does not match ${agentId} (${mismatches.join(", ")}). Pass --reembed to embed the archived chunks again.`,
+            );
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const result = await manager.importIndex(archive, { reembed: Boolean(opts.reembed) });
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify(result, null, 2));
+              return;
+            }
+            const reembedded = result.reembedded
+              ? ` (re-embedded: ${result.mismatches.join(", ")})`
+              : "";
+            defaultRuntime.log(
+              `Imported ${result.chunks} chunks from ${result.files} files into ${agentId}${reembedded}.`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory import failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
   memory
     .command("search")
     .description("Search memory files")
@@ -759,7 +867,7 @@ export function registerMemoryCli(program: Command) {
                   rich,
                   theme.accent,
                   `${shortenHomePath(result.path)}:${result.startLine}-${result.endLine}`,
-                )}`,
+                )}${result.chunkId ? ` ${colorize(rich, theme.muted, `#${result.chunkId}`)}` : ""}`,
               );
               lines.push(colorize(rich, theme.muted, result.snippet));
               lines.push("");
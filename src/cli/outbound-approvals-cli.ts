@@ -0,0 +1,133 @@
+import type { Command } from "commander";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
+import type { OutboundApproval } from "../infra/outbound/outbound-approvals.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { isRich, theme } from "../terminal/theme.js";
+import { describeUnknownError } from "./gateway-cli/shared.js";
+import { callGatewayFromCli } from "./gateway-rpc.js";
+import { nodesCallOpts } from "./nodes-cli/rpc.js";
+import type { NodesRpcOpts } from "./nodes-cli/types.js";
+
+type OutboundApprovalsCliOpts = NodesRpcOpts & { text?: string };
+
+const PREVIEW_CHARS = 60;
+
+function formatCliError(err: unknown): string {
+  const msg = describeUnknownError(err);
+  return msg.includes("\n") ? msg.split("\n")[0] : msg;
+}
+
+function renderOutboundApprovals(approvals: OutboundApproval[]) {
+  const muted = (text: string) => (isRich() ? theme.muted(text) : text);
+  if (approvals.length === 0) {
+    defaultRuntime.log(muted("No outbound messages awaiting approval."));
+    return;
+  }
+  const now = Date.now();
+  const rows = approvals.map((approval) => {
+    const text = approval.text.replace(/\s+/g, " ").trim();
+    return {
+      ID: approval.id,
+      To: `${approval.channel}:${approval.to}`,
+      Agent: approval.agentId ?? muted("-"),
+      Reason: approval.reason ?? muted(approval.heldBy),
+      Held: formatTimeAgo(Math.max(0, now - approval.heldAt)),
+      Message: text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text,
+    };
+  });
+  defaultRuntime.log(
+    renderTable({
+      width: Math.max(80, (process.stdout.columns ?? 120) - 1),
+      columns: [
+        { key: "ID", header: "ID", minWidth: 36 },
+        { key: "To", header: "To", minWidth: 12 },
+        { key: "Agent", header: "Agent", minWidth: 6 },
+        { key: "Reason", header: "Reason", minWidth: 10 },
+        { key: "Held", header: "Held", minWidth: 8 },
+        { key: "Message", header: "Message", minWidth: 20, flex: true },
+      ],
+      rows,
+    }).trimEnd(),
+  );
+}
+
+function registerResolveCommand(params: {
+  outbound: Command;
+  name: "approve" | "edit" | "reject";
+  description: string;
+}) {
+  const cmd = params.outbound
+    .command(`${params.name} <id>`)
+    .description(params.description)
+    .action(async (id: string, opts: OutboundApprovalsCliOpts) => {
+      try {
+        const text = opts.text?.trim();
+        if (params.name === "edit" && !text) {
+          throw new Error("Provide the replacement message with --text.");
+        }
+        const result = await callGatewayFromCli("outbound.approval.resolve", opts, {
+          id,
+          decision: params.name,
+          ...(params.name === "edit" ? { text } : {}),
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result));
+          return;
+        }
+        defaultRuntime.log(
+          params.name === "reject" ? `Rejected ${id}.` : `Sent ${id}${text ? " (edited)" : ""}.`,
+        );
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  if (params.name === "edit") {
+    cmd.requiredOption("--text <message>", "Replacement message text");
+  }
+  nodesCallOpts(cmd);
+}
+
+/** `openclaw approvals outbound …`: review messages held by `approvals.outbound`. */
+export function registerOutboundApprovalsCli(approvals: Command) {
+  const outbound = approvals
+    .command("outbound")
+    .description("Review outbound messages held for approval");
+
+  const listCmd = outbound
+    .command("list")
+    .description("List held outbound messages")
+    .action(async (opts: OutboundApprovalsCliOpts) => {
+      try {
+        const result = (await callGatewayFromCli("outbound.approval.list", opts, {})) as {
+          approvals?: OutboundApproval[];
+        };
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result));
+          return;
+        }
+        renderOutboundApprovals(result.approvals ?? []);
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(listCmd);
+
+  registerResolveCommand({
+    outbound,
+    name: "approve",
+    description: "Send a held message as written",
+  });
+  registerResolveCommand({
+    outbound,
+    name: "edit",
+    description: "Replace a held message's text and send it",
+  });
+  registerResolveCommand({
+    outbound,
+    name: "reject",
+    description: "Drop a held message without sending it",
+  });
+}
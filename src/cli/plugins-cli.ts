@@ -313,6 +313,11 @@ export function registerPluginsCli(program: Command) {
       if (plugin.providerIds.length > 0) {
         lines.push(`${theme.muted("Providers:")} ${plugin.providerIds.join(", ")}`);
       }
+      if (plugin.compactionStrategyIds.length > 0) {
+        lines.push(
+          `${theme.muted("Compaction strategies:")} ${plugin.compactionStrategyIds.join(", ")}`,
+        );
+      }
       if (plugin.cliCommands.length > 0) {
         lines.push(`${theme.muted("CLI commands:")} ${plugin.cliCommands.join(", ")}`);
       }
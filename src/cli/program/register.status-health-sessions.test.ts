@@ -5,6 +5,8 @@ const statusCommand = vi.fn();
 const healthCommand = vi.fn();
 const sessionsCommand = vi.fn();
 const sessionsCleanupCommand = vi.fn();
+const sessionsReplayCommand = vi.fn();
+const sessionsExportCommand = vi.fn();
 const setVerbose = vi.fn();
 
 const runtime = {
@@ -29,6 +31,14 @@ vi.mock("../../commands/sessions-cleanup.js", () => ({
   sessionsCleanupCommand,
 }));
 
+vi.mock("../../commands/sessions-replay.js", () => ({
+  sessionsReplayCommand,
+}));
+
+vi.mock("../../commands/sessions-export.js", () => ({
+  sessionsExportCommand,
+}));
+
 vi.mock("../../globals.js", () => ({
   setVerbose,
 }));
@@ -56,6 +66,8 @@ describe("registerStatusHealthSessionsCommands", () => {
     healthCommand.mockResolvedValue(undefined);
     sessionsCommand.mockResolvedValue(undefined);
     sessionsCleanupCommand.mockResolvedValue(undefined);
+    sessionsReplayCommand.mockResolvedValue(undefined);
+    sessionsExportCommand.mockResolvedValue(undefined);
   });
 
   it("runs status command with timeout and debug-derived verbose", async () => {
@@ -202,4 +214,66 @@ describe("registerStatusHealthSessionsCommands", () => {
       runtime,
     );
   });
+  it("runs sessions replay with model and turn range", async () => {
+    await runCli([
+      "sessions",
+      "--json",
+      "replay",
+      "agent:main:main",
+      "--model",
+      "openai/gpt-5.2",
+      "--from",
+      "3",
+      "--limit",
+      "2",
+      "--changed-only",
+    ]);
+
+    expect(sessionsReplayCommand).toHaveBeenCalledWith(
+      {
+        key: "agent:main:main",
+        store: undefined,
+        model: "openai/gpt-5.2",
+        from: "3",
+        limit: "2",
+        changedOnly: true,
+        json: true,
+      },
+      runtime,
+    );
+  });
+
+  it("runs sessions export with filters and opt-outs", async () => {
+    await runCli([
+      "sessions",
+      "export",
+      "agent:main:main",
+      "--format",
+      "json",
+      "--since",
+      "2h",
+      "--to",
+      "4",
+      "--no-tool-results",
+      "--no-redact",
+      "--output",
+      "-",
+    ]);
+
+    expect(sessionsExportCommand).toHaveBeenCalledWith(
+      {
+        key: "agent:main:main",
+        store: undefined,
+        format: "json",
+        output: "-",
+        since: "2h",
+        until: undefined,
+        from: undefined,
+        to: "4",
+        toolResults: false,
+        redact: false,
+      },
+      runtime,
+    );
+  });
 });
@@ -1,6 +1,8 @@
 import type { Command } from "commander";
 import { healthCommand } from "../../commands/health.js";
 import { sessionsCleanupCommand } from "../../commands/sessions-cleanup.js";
+import { sessionsExportCommand } from "../../commands/sessions-export.js";
+import { sessionsReplayCommand } from "../../commands/sessions-replay.js";
 import { sessionsCommand } from "../../commands/sessions.js";
 import { statusCommand } from "../../commands/status.js";
 import { setVerbose } from "../../globals.js";
@@ -213,4 +215,97 @@ export function registerStatusHealthSessionsCommands(program: Command) {
         );
       });
     });
+
+  sessionsCmd
+    .command("replay")
+    .description("Re-run a stored session against a model and diff the answers")
+    .argument("<key>", "Session key (see `openclaw sessions`)")
+    .option("--model <provider/model>", "Model to replay against (default: the session's model)")
+    .option("--from <turn>", "First user turn to replay (1-based)")
+    .option("--limit <turns>", "Max turns to replay (default: 20)")
+    .option("--changed-only", "Only show turns whose answer changed", false)
+    .option("--store <path>", "Path to session store (default: resolved from config)")
+    .option("--json", "Output JSON", false)
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw sessions replay agent:main:main", "Replay with the session's model."],
+          [
+            "openclaw sessions replay agent:main:main --model openai/gpt-5.2 --changed-only",
+            "Compare another model, showing only differences.",
+          ],
+          ["openclaw sessions replay agent:main:main --from 5 --limit 3", "Replay turns 5-7."],
+        ])}\n\n${theme.muted(
+          "Tools are not executed: tool calls are answered with the results recorded in the transcript.",
+        )}`,
+    )
+    .action(async (key: string, opts, command) => {
+      const parentOpts = command.parent?.opts() as { store?: string; json?: boolean } | undefined;
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await sessionsReplayCommand(
+          {
+            key,
+            store: (opts.store as string | undefined) ?? parentOpts?.store,
+            model: opts.model as string | undefined,
+            from: opts.from as string | undefined,
+            limit: opts.limit as string | undefined,
+            changedOnly: Boolean(opts.changedOnly),
+            json: Boolean(opts.json || parentOpts?.json),
+          },
+          defaultRuntime,
+        );
+      });
+    });
+
+  sessionsCmd
+    .command("export")
+    .description("Export a stored session to Markdown, JSON, HTML or PDF")
+    .argument("<key>", "Session key (see `openclaw sessions`)")
+    .option("--format <format>", "md | json | html | pdf", "md")
+    .option("--output <path>", "Output file, or - for stdout (default: ./openclaw-session-*)")
+    .option("--since <time>", "Only entries at/after this time (ISO date, epoch ms, or 2h/1d ago)")
+    .option("--until <time>", "Only entries at/before this time")
+    .option("--from <turn>", "First user turn to include (1-based)")
+    .option("--to <turn>", "Last user turn to include")
+    .option("--no-tool-results", "Replace tool result bodies with a placeholder")
+    .option("--no-redact", "Keep secrets instead of masking them")
+    .option("--store <path>", "Path to session store (default: resolved from config)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw sessions export agent:main:main", "Markdown export of the whole session."],
+          [
+            "openclaw sessions export agent:main:main --format json --since 2h --no-tool-results",
+            "Last two hours as JSON, without tool output.",
+          ],
+          [
+            "openclaw sessions export agent:main:main --format pdf --output incident.pdf",
+            "PDF via the managed browser (must be running).",
+          ],
+        ])}\n\n${theme.muted(
+          "Secrets are masked with the logging redaction patterns; media is listed by reference, not embedded.",
+        )}`,
+    )
+    .action(async (key: string, opts, command) => {
+      const parentOpts = command.parent?.opts() as { store?: string } | undefined;
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await sessionsExportCommand(
+          {
+            key,
+            store: (opts.store as string | undefined) ?? parentOpts?.store,
+            format: opts.format as string | undefined,
+            output: opts.output as string | undefined,
+            since: opts.since as string | undefined,
+            until: opts.until as string | undefined,
+            from: opts.from as string | undefined,
+            to: opts.to as string | undefined,
+            toolResults: opts.toolResults as boolean | undefined,
+            redact: opts.redact as boolean | undefined,
+          },
+          defaultRuntime,
+        );
+      });
+    });
 }
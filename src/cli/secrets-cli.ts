@@ -1,17 +1,29 @@
 import fs from "node:fs";
-import { confirm } from "@clack/prompts";
+import { confirm, password } from "@clack/prompts";
 import type { Command } from "commander";
+import type { SecretsStatusResult } from "../gateway/server-methods/secrets.js";
 import { danger } from "../globals.js";
+import { formatDurationHuman } from "../infra/format-time/format-duration.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.js";
 import { defaultRuntime } from "../runtime.js";
 import { runSecretsApply } from "../secrets/apply.js";
 import { resolveSecretsAuditExitCode, runSecretsAudit } from "../secrets/audit.js";
+import { createSecretsConfigIO } from "../secrets/config-io.js";
 import { runSecretsConfigureInteractive } from "../secrets/configure.js";
 import { isSecretsApplyPlan, type SecretsApplyPlan } from "../secrets/plan.js";
+import {
+  buildVaultMigrationPlan,
+  runSecretsVaultGet,
+  runSecretsVaultRotate,
+  runSecretsVaultSet,
+} from "../secrets/vault.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { theme } from "../terminal/theme.js";
+import { shortenHomePath } from "../utils.js";
 import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
 
 type SecretsReloadOptions = GatewayRpcOpts & { json?: boolean };
+type SecretsStatusOptions = GatewayRpcOpts & { json?: boolean };
 type SecretsAuditOptions = {
   check?: boolean;
   json?: boolean;
@@ -25,10 +37,26 @@ type SecretsConfigureOptions = {
   json?: boolean;
 };
 type SecretsApplyOptions = {
-  from: string;
+  from?: string;
+  toVault?: string | boolean;
   dryRun?: boolean;
   json?: boolean;
 };
+type SecretsVaultSetOptions = {
+  provider?: string;
+  stdin?: boolean;
+  json?: boolean;
+};
+type SecretsVaultGetOptions = {
+  provider?: string;
+  json?: boolean;
+};
+type SecretsVaultRotateOptions = {
+  provider?: string;
+  newKeyFile?: string;
+  newPassphraseEnv?: string;
+  json?: boolean;
+};
 
 function readPlanFile(pathname: string): SecretsApplyPlan {
   const raw = fs.readFileSync(pathname, "utf8");
@@ -39,6 +67,48 @@ function readPlanFile(pathname: string): SecretsApplyPlan {
   return parsed;
 }
 
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readSecretValue(opts: SecretsVaultSetOptions): Promise<string> {
+  if (opts.stdin) {
+    return (await readStdin()).replace(/\r?\n$/, "");
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error("No TTY for the value prompt; pipe the value with --stdin.");
+  }
+  const value = await password({ message: "Secret value" });
+  if (typeof value !== "string") {
+    throw new Error("Secrets set cancelled.");
+  }
+  return value;
+}
+
+async function resolveApplyPlan(opts: SecretsApplyOptions): Promise<SecretsApplyPlan> {
+  if (opts.from && opts.toVault) {
+    throw new Error("Use either --from or --to-vault, not both.");
+  }
+  if (opts.from) {
+    return readPlanFile(opts.from);
+  }
+  if (!opts.toVault) {
+    throw new Error("Pass --from <plan.json> or --to-vault [provider].");
+  }
+  const snapshot = await createSecretsConfigIO({ env: process.env }).readConfigFileSnapshot();
+  if (!snapshot.valid) {
+    throw new Error("Cannot build a vault migration plan: config is invalid.");
+  }
+  return buildVaultMigrationPlan({
+    config: snapshot.config,
+    provider: typeof opts.toVault === "string" ? opts.toVault : undefined,
+  });
+}
+
 export function registerSecretsCli(program: Command) {
   const secrets = program
     .command("secrets")
@@ -77,6 +147,56 @@ export function registerSecretsCli(program: Command) {
     }
   });
 
+  addGatewayClientOptions(
+    secrets
+      .command("status")
+      .description("Show resolved secret ref ages and upcoming refreshes")
+      .option("--json", "Output JSON", false),
+  ).action(async (opts: SecretsStatusOptions) => {
+    try {
+      const result = (await callGatewayFromCli("secrets.status", opts, undefined, {
+        expectFinal: false,
+      })) as SecretsStatusResult;
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      if (!result.active) {
+        defaultRuntime.log("Secrets runtime snapshot is not active.");
+        return;
+      }
+      if (result.degraded) {
+        defaultRuntime.log(theme.warn("Secrets runtime is degraded (last reload failed)."));
+      }
+      if (result.refs.length === 0) {
+        defaultRuntime.log("No secret refs in use.");
+      }
+      for (const ref of result.refs) {
+        const expiry =
+          ref.expiresInMs === undefined
+            ? "no expiry"
+            : ref.expiresInMs > 0
+              ? `expires in ${formatDurationHuman(ref.expiresInMs)}`
+              : theme.warn(`expired ${formatTimeAgo(-ref.expiresInMs)}`);
+        defaultRuntime.log(
+          `${ref.ref}  resolved ${formatTimeAgo(ref.ageMs)}, ${expiry} (${ref.paths.join(", ")})`,
+        );
+      }
+      if (result.lastError) {
+        defaultRuntime.log(
+          theme.warn(
+            `Last refresh failed: ${result.lastError.message} (retry in ${formatDurationHuman(
+              Math.max(0, result.lastError.retryAt - Date.now()),
+            )})`,
+          ),
+        );
+      }
+    } catch (err) {
+      defaultRuntime.error(danger(String(err)));
+      defaultRuntime.exit(1);
+    }
+  });
+
   secrets
     .command("audit")
     .description("Audit plaintext secrets, unresolved refs, and precedence drift")
@@ -101,6 +221,11 @@ export function registerSecretsCli(program: Command) {
               defaultRuntime.log(`... ${report.findings.length - 20} more finding(s).`);
             }
           }
+          if (report.summary.vaultCandidateCount > 0) {
+            defaultRuntime.log(
+              `${report.summary.vaultCandidateCount} plaintext secret(s) can move into the vault: openclaw secrets apply --to-vault`,
+            );
+          }
         }
         const exitCode = resolveSecretsAuditExitCode(report, Boolean(opts.check));
         if (exitCode !== 0) {
@@ -210,12 +335,24 @@ export function registerSecretsCli(program: Command) {
   secrets
     .command("apply")
     .description("Apply a previously generated secrets plan")
-    .requiredOption("--from <path>", "Path to plan JSON")
+    .option("--from <path>", "Path to plan JSON")
+    .option(
+      "--to-vault [provider]",
+      "Move plaintext config secrets into a vault-file provider (default: first configured)",
+    )
     .option("--dry-run", "Validate/preflight only", false)
     .option("--json", "Output JSON", false)
     .action(async (opts: SecretsApplyOptions) => {
       try {
-        const plan = readPlanFile(opts.from);
+        const plan = await resolveApplyPlan(opts);
+        if (plan.targets.length === 0 && opts.toVault) {
+          defaultRuntime.log(
+            opts.json
+              ? JSON.stringify({ changed: false, changedFiles: [] }, null, 2)
+              : "No plaintext secrets to move into the vault.",
+          );
+          return;
+        }
         const result = await runSecretsApply({
           plan,
           write: !opts.dryRun,
@@ -242,4 +379,77 @@ export function registerSecretsCli(program: Command) {
         defaultRuntime.exit(1);
       }
     });
+
+  secrets
+    .command("set")
+    .description("Store a secret in the encrypted vault-file provider")
+    .argument("<id>", "Vault secret id (e.g. openai/api-key)")
+    .option("--provider <alias>", "vault-file provider alias (default: first configured)")
+    .option("--stdin", "Read the value from stdin instead of prompting", false)
+    .option("--json", "Output JSON", false)
+    .action(async (id: string, opts: SecretsVaultSetOptions) => {
+      try {
+        const value = await readSecretValue(opts);
+        const result = await runSecretsVaultSet({ id, value, provider: opts.provider });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (result.keyFile) {
+          defaultRuntime.log(`Generated vault key file ${shortenHomePath(result.keyFile)}.`);
+        }
+        defaultRuntime.log(
+          `${result.created ? "Stored" : "Updated"} ${result.id} in ${shortenHomePath(result.path)}. Reference it as { source: "vault-file", provider: "${result.provider}", id: "${result.id}" }.`,
+        );
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+
+  secrets
+    .command("get")
+    .description("Print a secret from the encrypted vault-file provider")
+    .argument("<id>", "Vault secret id")
+    .option("--provider <alias>", "vault-file provider alias (default: first configured)")
+    .option("--json", "Output JSON", false)
+    .action(async (id: string, opts: SecretsVaultGetOptions) => {
+      try {
+        const result = await runSecretsVaultGet({ id, provider: opts.provider });
+        defaultRuntime.log(opts.json ? JSON.stringify(result, null, 2) : result.value);
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+
+  secrets
+    .command("rotate")
+    .description("Re-encrypt the vault, optionally under a new key file or passphrase")
+    .option("--provider <alias>", "vault-file provider alias (default: first configured)")
+    .option("--new-key-file <path>", "Switch to this key file (generated if missing)")
+    .option("--new-passphrase-env <name>", "Switch to the passphrase in this env var")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: SecretsVaultRotateOptions) => {
+      try {
+        const result = await runSecretsVaultRotate({
+          provider: opts.provider,
+          newKeyFile: opts.newKeyFile,
+          newPassphraseEnv: opts.newPassphraseEnv,
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (result.keyFile) {
+          defaultRuntime.log(`Generated vault key file ${shortenHomePath(result.keyFile)}.`);
+        }
+        defaultRuntime.log(
+          `Vault ${shortenHomePath(result.path)} re-encrypted (${result.secretCount} secret(s))${result.configUpdated ? "; provider config updated" : ""}.`,
+        );
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
 }
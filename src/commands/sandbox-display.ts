@@ -34,6 +34,7 @@ export function displayContainers(containers: SandboxContainerInfo[], runtime: R
       title: "📦 Sandbox Containers:",
       renderItem: (container, rt) => {
         rt.log(`  ${container.containerName}`);
+        rt.log(`    Backend: ${container.backend}`);
         rt.log(`    Status:  ${formatStatus(container.running)}`);
         rt.log(`    Image:   ${container.image} ${formatImageMatch(container.imageMatch)}`);
         rt.log(
@@ -2,6 +2,9 @@ import { resolveAgentConfig } from "../agents/agent-scope.js";
 import {
   resolveSandboxConfigForAgent,
   resolveSandboxToolPolicyForAgent,
+  validateSandboxBackendSupport,
+  type SandboxBackendCapabilities,
+  type SandboxConfig,
 } from "../agents/sandbox.js";
 import { normalizeAnyChannelId } from "../channels/registry.js";
 import type { OpenClawConfig } from "../config/config.js";
@@ -126,6 +129,37 @@ function resolveActiveChannel(params: {
   });
 }
 
+function describeSandboxBackend(sandboxCfg: SandboxConfig) {
+  try {
+    const report = validateSandboxBackendSupport({
+      backend: sandboxCfg.backend,
+      docker: sandboxCfg.docker,
+      browserEnabled: sandboxCfg.browser.enabled,
+      hostRoots: sandboxCfg.bwrap.hostRoots,
+      egressEnabled: sandboxCfg.egress.enabled,
+    });
+    return { id: report.backend, ...report, error: undefined };
+  } catch (err) {
+    return {
+      id: sandboxCfg.backend,
+      capabilities: undefined,
+      network: undefined,
+      readOnlyRoot: undefined,
+      ignored: [] as string[],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+function listCapabilities(
+  capabilities: SandboxBackendCapabilities | undefined,
+  enabled: boolean,
+): string[] {
+  return Object.entries(capabilities ?? {})
+    .filter(([, value]) => value === enabled)
+    .map(([name]) => name);
+}
+
 export async function sandboxExplainCommand(
   opts: SandboxExplainOptions,
   runtime: RuntimeEnv,
@@ -148,6 +182,7 @@ export async function sandboxExplainCommand(
   });
 
   const sandboxCfg = resolveSandboxConfigForAgent(cfg, resolvedAgentId);
+  const backend = describeSandboxBackend(sandboxCfg);
   const toolPolicy = resolveSandboxToolPolicyForAgent(cfg, resolvedAgentId);
   const mainSessionKey = resolveAgentMainSessionKey({
     cfg,
@@ -241,6 +276,18 @@ export async function sandboxExplainCommand(
       workspaceAccess: sandboxCfg.workspaceAccess,
       workspaceRoot: sandboxCfg.workspaceRoot,
       sessionIsSandboxed,
+      backend: {
+        id: backend.id,
+        capabilities: backend.capabilities,
+        network: backend.network,
+        readOnlyRoot: backend.readOnlyRoot,
+        ignored: backend.ignored,
+        error: backend.error,
+      },
+      egress: {
+        enabled: sandboxCfg.egress.enabled,
+        allow: sandboxCfg.egress.allow,
+      },
       tools: {
         allow: toolPolicy.allow,
         deny: toolPolicy.deny,
@@ -294,6 +341,36 @@ export async function sandboxExplainCommand(
     )} ${key("workspaceRoot:")} ${value(payload.sandbox.workspaceRoot)}`,
   );
   lines.push("");
+  lines.push(heading("Sandbox backend:"));
+  const backendInfo = payload.sandbox.backend;
+  lines.push(`  ${key("backend:")} ${value(backendInfo.id)}`);
+  if (backendInfo.error) {
+    lines.push(`  ${key("error:")} ${err(backendInfo.error)}`);
+  } else {
+    lines.push(
+      `  ${key("network:")} ${value(backendInfo.network ?? "none")} ${key("readOnlyRoot:")} ${bool(
+        backendInfo.readOnlyRoot === true,
+      )}`,
+    );
+    lines.push(
+      `  ${key("supports:")} ${value(listCapabilities(backendInfo.capabilities, true).join(", ") || "(none)")}`,
+    );
+    lines.push(
+      `  ${key("unsupported:")} ${value(listCapabilities(backendInfo.capabilities, false).join(", ") || "(none)")}`,
+    );
+  }
+  if (backendInfo.ignored.length > 0) {
+    lines.push(`  ${key("ignored settings:")} ${warn(backendInfo.ignored.join(", "))}`);
+  }
+  const egressInfo = payload.sandbox.egress;
+  lines.push(
+    `  ${key("egress proxy:")} ${
+      egressInfo.enabled
+        ? value(`allow ${egressInfo.allow.join(", ") || "(nothing)"}`)
+        : value("off")
+    }`,
+  );
+  lines.push("");
   lines.push(heading("Sandbox tool policy:"));
   lines.push(
     `  ${key(`allow (${payload.sandbox.tools.sources.allow.source}):`)} ${value(
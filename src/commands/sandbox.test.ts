@@ -33,6 +33,7 @@ function createContainer(overrides: Partial<SandboxContainerInfo> = {}): Sandbox
     containerName: "openclaw-sandbox-test",
     sessionKey: "test-session",
     image: "openclaw/sandbox:latest",
+    backend: "docker",
     imageMatch: true,
     running: true,
     createdAtMs: NOW - 3600000,
@@ -46,6 +47,7 @@ function createBrowser(overrides: Partial<SandboxBrowserInfo> = {}): SandboxBrow
     containerName: "openclaw-browser-test",
     sessionKey: "test-session",
     image: "openclaw/browser:latest",
+    backend: "docker",
     imageMatch: true,
     running: true,
     createdAtMs: NOW - 3600000,
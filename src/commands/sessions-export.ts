@@ -0,0 +1,136 @@
+import fs from "node:fs";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import {
+  isSessionExportFormat,
+  prepareSessionExport,
+  renderSessionExport,
+  resolveSessionExportFileName,
+  type SessionExportFilter,
+} from "../auto-reply/reply/session-export.js";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import { loadConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { resolveUserPath } from "../utils.js";
+
+export type SessionsExportOptions = {
+  key: string;
+  store?: string;
+  format?: string;
+  output?: string;
+  since?: string;
+  until?: string;
+  from?: string;
+  to?: string;
+  /** `--no-tool-results` sets this to false. */
+  toolResults?: boolean;
+  /** `--no-redact` sets this to false. */
+  redact?: boolean;
+};
+
+function parsePositiveInt(raw: string | undefined, flag: string): number | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return value;
+}
+
+/** Accepts an ISO date/time, epoch milliseconds, or a duration ago ("2h", "1d"). */
+export function parseSessionExportTime(
+  raw: string | undefined,
+  flag: string,
+  now = Date.now(),
+): number | undefined {
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (/^\d{12,}$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  if (/^\d+(?:\.\d+)?(?:ms|s|m|h|d)/i.test(trimmed)) {
+    try {
+      return now - parseDurationMs(trimmed);
+    } catch {
+      // Fall through to date parsing.
+    }
+  }
+  const parsed = Date.parse(trimmed);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${flag} must be an ISO date, epoch ms, or a duration like 2h`);
+  }
+  return parsed;
+}
+
+export async function sessionsExportCommand(opts: SessionsExportOptions, runtime: RuntimeEnv) {
+  const format = (opts.format ?? "md").trim().toLowerCase();
+  if (!isSessionExportFormat(format)) {
+    throw new Error("--format must be one of: html, md, json, pdf");
+  }
+  const filter: SessionExportFilter = {
+    since: parseSessionExportTime(opts.since, "--since"),
+    until: parseSessionExportTime(opts.until, "--until"),
+    fromTurn: parsePositiveInt(opts.from, "--from"),
+    toTurn: parsePositiveInt(opts.to, "--to"),
+  };
+  const toStdout = opts.output === "-";
+  if (toStdout && format === "pdf") {
+    throw new Error("PDF exports need --output <path>");
+  }
+
+  const cfg = loadConfig();
+  const key = opts.key.trim();
+  const agentId = resolveAgentIdFromSessionKey(key);
+  const storePath = resolveStorePath(opts.store ?? cfg.session?.store, { agentId });
+  const store = loadSessionStore(storePath);
+  const entry = store[key] ?? store[key.toLowerCase()];
+  if (!entry?.sessionId) {
+    throw new Error(`Session not found: ${key} (store: ${storePath})`);
+  }
+  const sessionFile = resolveSessionFilePath(
+    entry.sessionId,
+    entry,
+    resolveSessionFilePathOptions({ agentId, storePath }),
+  );
+  if (!fs.existsSync(sessionFile)) {
+    throw new Error(`Transcript not found for ${key}: ${sessionFile}`);
+  }
+
+  const sessionManager = SessionManager.open(sessionFile);
+  const data = prepareSessionExport({
+    header: sessionManager.getHeader(),
+    entries: sessionManager.getEntries(),
+    leafId: sessionManager.getLeafId(),
+    options: {
+      ...filter,
+      stripToolResults: opts.toolResults === false,
+      redact: opts.redact !== false,
+      redactPatterns: cfg.logging?.redactPatterns,
+    },
+  });
+  const rendered = await renderSessionExport({ data, format, cfg, sessionKey: key, filter });
+
+  if (toStdout) {
+    runtime.log(String(rendered).trimEnd());
+    return;
+  }
+  const outputPath = opts.output
+    ? resolveUserPath(opts.output)
+    : path.resolve(resolveSessionExportFileName(entry.sessionId, format));
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, rendered);
+  runtime.log(
+    `Exported ${data.entries.length} entries (${data.attachments.length} attachments) to ${outputPath}`,
+  );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { buildSessionReplaySideBySideRows } from "./sessions-replay.js";
+
+describe("buildSessionReplaySideBySideRows", () => {
+  it("pairs removed lines with their replacements", () => {
+    expect(
+      buildSessionReplaySideBySideRows(
+        [
+          { op: "same", text: "Hi" },
+          { op: "removed", text: "old one" },
+          { op: "removed", text: "old two" },
+          { op: "added", text: "new one" },
+          { op: "same", text: "Bye" },
+          { op: "added", text: "P.S." },
+        ],
+        false,
+      ),
+    ).toEqual([
+      { original: "  Hi", replayed: "  Hi" },
+      { original: "- old one", replayed: "+ new one" },
+      { original: "- old two", replayed: "" },
+      { original: "  Bye", replayed: "  Bye" },
+      { original: "", replayed: "+ P.S." },
+    ]);
+  });
+});
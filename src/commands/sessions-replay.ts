@@ -0,0 +1,160 @@
+import fs from "node:fs";
+import {
+  replaySession,
+  type SessionReplayDiffLine,
+  type SessionReplayResult,
+  type SessionReplayTurnResult,
+} from "../agents/session-replay.js";
+import { loadConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { isRich, theme } from "../terminal/theme.js";
+
+export type SessionsReplayOptions = {
+  key: string;
+  store?: string;
+  model?: string;
+  from?: string;
+  limit?: string;
+  json?: boolean;
+  /** Only print turns whose replayed answer differs. */
+  changedOnly?: boolean;
+};
+
+function parsePositiveInt(raw: string | undefined, flag: string): number | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return value;
+}
+
+/** Pairs removed/added runs so a changed line sits next to its replacement. */
+export function buildSessionReplaySideBySideRows(
+  diff: SessionReplayDiffLine[],
+  rich: boolean,
+): Array<{ original: string; replayed: string }> {
+  const rows: Array<{ original: string; replayed: string }> = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i += 1) {
+      const left = removed[i] ?? "";
+      const right = added[i] ?? "";
+      rows.push({
+        original: left && rich ? theme.error(left) : left ? `- ${left}` : "",
+        replayed: right && rich ? theme.success(right) : right ? `+ ${right}` : "",
+      });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of diff) {
+    if (line.op === "removed") {
+      removed.push(line.text);
+    } else if (line.op === "added") {
+      added.push(line.text);
+    } else {
+      flush();
+      const text = rich ? theme.muted(line.text) : `  ${line.text}`;
+      rows.push({ original: text, replayed: text });
+    }
+  }
+  flush();
+  return rows;
+}
+
+function formatTurn(turn: SessionReplayTurnResult, rich: boolean): string[] {
+  const status = turn.error ? "error" : turn.changed ? "changed" : "same";
+  const label = `Turn ${turn.index} (${status})`;
+  const prompt = turn.prompt.replace(/\s+/g, " ").slice(0, 120);
+  const lines = [
+    rich ? theme.heading(label) : label,
+    `${rich ? theme.muted("User:") : "User:"} ${prompt}`,
+  ];
+  if (turn.originalToolCalls.length > 0 || turn.replayedToolCalls.length > 0) {
+    lines.push(
+      `Tools: ${turn.originalToolCalls.join(", ") || "none"} -> ${turn.replayedToolCalls.join(", ") || "none"}` +
+        (turn.missingToolResults.length > 0
+          ? ` (no recorded result: ${turn.missingToolResults.join(", ")})`
+          : ""),
+    );
+  }
+  if (turn.error) {
+    lines.push(rich ? theme.error(`Replay failed: ${turn.error}`) : `Replay failed: ${turn.error}`);
+  }
+  lines.push(
+    renderTable({
+      width: process.stdout.columns,
+      columns: [
+        { key: "original", header: "Original", flex: true, minWidth: 20 },
+        { key: "replayed", header: "Replayed", flex: true, minWidth: 20 },
+      ],
+      rows: buildSessionReplaySideBySideRows(turn.diff, rich),
+    }).trimEnd(),
+  );
+  return lines;
+}
+
+function formatReplay(result: SessionReplayResult, changedOnly: boolean, rich: boolean): string[] {
+  const lines = [
+    `Session: ${result.sessionKey}`,
+    `Model: ${result.provider}/${result.model}`,
+    `Replayed ${result.turns.length} of ${result.totalTurns} turns; ${result.changedTurns} changed.`,
+  ];
+  for (const turn of result.turns) {
+    if (changedOnly && !turn.changed && !turn.error) {
+      continue;
+    }
+    lines.push("", ...formatTurn(turn, rich));
+  }
+  return lines;
+}
+
+export async function sessionsReplayCommand(opts: SessionsReplayOptions, runtime: RuntimeEnv) {
+  const cfg = loadConfig();
+  const key = opts.key.trim();
+  const agentId = resolveAgentIdFromSessionKey(key);
+  const storePath = resolveStorePath(opts.store ?? cfg.session?.store, { agentId });
+  const store = loadSessionStore(storePath);
+  const entry = store[key] ?? store[key.toLowerCase()];
+  if (!entry?.sessionId) {
+    throw new Error(`Session not found: ${key} (store: ${storePath})`);
+  }
+  const sessionFile = resolveSessionFilePath(
+    entry.sessionId,
+    entry,
+    resolveSessionFilePathOptions({ agentId, storePath }),
+  );
+  if (!fs.existsSync(sessionFile)) {
+    throw new Error(`Transcript not found for ${key}: ${sessionFile}`);
+  }
+
+  const result = await replaySession({
+    cfg,
+    sessionKey: key,
+    sessionFile,
+    agentId,
+    sessionEntry: entry,
+    model: opts.model,
+    fromTurn: parsePositiveInt(opts.from, "--from"),
+    maxTurns: parsePositiveInt(opts.limit, "--limit"),
+  });
+  if (opts.json) {
+    runtime.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  for (const line of formatReplay(result, opts.changedOnly === true, isRich())) {
+    runtime.log(line);
+  }
+}
@@ -23,6 +23,7 @@ const ROOT_SECTIONS = [
   "messages",
   "commands",
   "approvals",
+  "budgets",
   "session",
   "cron",
   "hooks",
@@ -41,6 +42,8 @@ const TARGET_KEYS = [
   "memory.backend",
   "memory.qmd.searchMode",
   "memory.qmd.scope",
+  "memory.remote.url",
+  "memory.remote.collection",
   "memory.qmd.includeDefaultMemory",
   "memory.qmd.mcporter.enabled",
   "memory.qmd.mcporter.serverName",
@@ -91,6 +94,17 @@ const TARGET_KEYS = [
   "agents.defaults.memorySearch.query.hybrid.mmr.lambda",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays",
+  "agents.defaults.memorySearch.graph.enabled",
+  "agents.defaults.memorySearch.graph.weight",
+  "budgets.enabled",
+  "budgets.warnAt",
+  "budgets.stopAt",
+  "budgets.fallbackModel",
+  "budgets.notify",
+  "budgets.notify.enabled",
+  "budgets.notify.target",
+  "budgets.agents",
+  "budgets.accounts",
   "agents.defaults.memorySearch.cache.enabled",
   "agents.defaults.memorySearch.cache.maxEntries",
   "agents.defaults.memorySearch.sync.onSearch",
@@ -169,6 +183,13 @@ const TARGET_KEYS = [
   "approvals.exec.targets[].to",
   "approvals.exec.targets[].accountId",
   "approvals.exec.targets[].threadId",
+  "approvals.outbound",
+  "approvals.outbound.enabled",
+  "approvals.outbound.firstContact",
+  "approvals.outbound.groupMemberThreshold",
+  "approvals.outbound.allowlist",
+  "approvals.outbound.agentFilter",
+  "approvals.outbound.targets",
   "nodeHost",
   "nodeHost.browserProxy",
   "nodeHost.browserProxy.enabled",
@@ -372,7 +393,7 @@ const TARGET_KEYS = [
 
 const ENUM_EXPECTATIONS: Record<string, string[]> = {
   "memory.citations": ['"auto"', '"on"', '"off"'],
-  "memory.backend": ['"builtin"', '"qmd"'],
+  "memory.backend": ['"builtin"', '"qmd"', '"remote"'],
   "memory.qmd.searchMode": ['"query"', '"search"', '"vsearch"'],
   "models.mode": ['"merge"', '"replace"'],
   "models.providers.*.auth": ['"api-key"', '"token"', '"oauth"', '"aws-sdk"'],
@@ -185,6 +185,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Shared default settings inherited by agents unless overridden per entry in agents.list. Use defaults to enforce consistent baseline behavior and reduce duplicated per-agent configuration.",
   "agents.list":
     "Explicit list of configured agents with IDs and optional overrides for model, tools, identity, and workspace. Keep IDs stable over time so bindings, approvals, and session routing remain deterministic.",
+  "agents.list[].compaction.strategy":
+    "Per-agent compaction strategy override (for example structured-notes for long-running project agents). Falls back to agents.defaults.compaction.strategy.",
   "agents.list[].identity.avatar":
     "Avatar image path (relative to the agent workspace only) or a remote URL/data URL.",
   "agents.defaults.heartbeat.suppressToolErrorWarnings":
@@ -318,6 +320,33 @@ export const FIELD_HELP: Record<string, string> = {
   "gateway.auth.token":
     "Required by default for gateway access (unless using Tailscale Serve identity); required for non-loopback binds.",
   "gateway.auth.password": "Required for Tailscale funnel.",
+  "agents.defaults.sandbox.backend":
+    'Sandbox runtime: "docker" (default), rootless "podman", or unprivileged "bwrap" (bubblewrap). Podman and bwrap read the same sandbox.docker settings where the runtime supports them.',
+  "agents.list[].sandbox.backend": "Per-agent override for the sandbox runtime backend.",
+  "agents.defaults.sandbox.bwrap.command":
+    "bubblewrap binary used by the bwrap backend (default: bwrap on PATH).",
+  "agents.defaults.sandbox.bwrap.hostRoots":
+    "Host directories bound read-only into bwrap sandboxes to provide the root filesystem (default: /usr, /bin, /sbin, /lib, /lib32, /lib64, plus /etc/resolv.conf, /etc/hosts, /etc/passwd, /etc/ssl/certs and /etc/ld.so.cache; the rest of /etc is never bound).",
+  "agents.defaults.sandbox.egress.enabled":
+    "Routes sandbox HTTP(S) traffic through the gateway egress proxy and moves the container onto an internal network, so only allowlisted hosts are reachable. Requires the docker or podman backend.",
+  "agents.defaults.sandbox.egress.allow":
+    'Hostnames sandboxed commands may reach through the egress proxy, for example "registry.npmjs.org" or "*.githubusercontent.com". An empty list denies all egress; private/internal addresses stay blocked.',
+  "agents.list[].sandbox.egress.allow":
+    "Per-agent egress allowlist; replaces agents.defaults.sandbox.egress.allow for this agent.",
+  "agents.defaults.sandbox.egress.allowPrivateNetwork":
+    "Lets allowlisted hosts resolve to private or internal addresses (for example an internal package mirror). Keep disabled unless you need it.",
+  "agents.defaults.sandbox.egress.network":
+    "Internal container network used for proxied sandboxes (default: openclaw-sandbox-egress). Created with --internal when missing.",
+  "agents.defaults.sandbox.egress.port":
+    "Port the egress proxy listens on at the network gateway address (default: 0, any free port).",
+  "agents.defaults.sandbox.snapshots.enabled":
+    "Snapshots the sandbox workspace at the start of every agent turn so /rollback can undo a bad turn (default: false).",
+  "agents.defaults.sandbox.snapshots.keep":
+    "Number of turn snapshots kept per sandbox workspace; /rollback can reach back this many turns (default: 10).",
+  "agents.defaults.sandbox.snapshots.maxBytes":
+    "Workspaces larger than this many bytes are not snapshotted, and rollback cannot cross those turns (default: 268435456, 256 MiB).",
+  "agents.defaults.sandbox.snapshots.method":
+    'Snapshot storage: "auto" (default) uses copy-on-write clones where the filesystem supports them and tar otherwise, "clone" always copies files, "tar" always archives.',
   "agents.defaults.sandbox.browser.network":
     "Docker network for sandbox browser containers (default: openclaw-sandbox-browser). Avoid bridge if you need stricter isolation.",
   "agents.list[].sandbox.browser.network": "Per-agent override for sandbox browser Docker network.",
@@ -343,6 +372,16 @@ export const FIELD_HELP: Record<string, string> = {
     "Disables Control UI device identity checks and relies on token/password only. Use only for short-lived debugging on trusted networks, then turn it off immediately.",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.http.endpoints.models.enabled":
+    "Enable the OpenAI-compatible `GET /v1/models` endpoint listing agents as models (default: false).",
+  "gateway.http.endpoints.embeddings.enabled":
+    "Enable the OpenAI-compatible `POST /v1/embeddings` endpoint backed by the agent's memory search embedding provider (default: false).",
+  "gateway.http.endpoints.embeddings.maxBodyBytes":
+    "Max request body size in bytes for `POST /v1/embeddings` (default: 4MB).",
+  "gateway.http.endpoints.embeddings.maxInputs":
+    "Max number of inputs embedded per `POST /v1/embeddings` request (default: 2048).",
+  "gateway.http.endpoints.metrics.enabled":
+    "Enable the Prometheus `GET /metrics` endpoint built from diagnostic events; requires gateway auth (default: false).",
   "gateway.reload.mode":
     'Controls how config edits are applied: "off" ignores live edits, "restart" always restarts, "hot" applies in-process, and "hybrid" tries hot then restarts if required. Keep "hybrid" for safest routine updates.',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
@@ -568,6 +607,40 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional account selector for multi-account channel setups when approvals must route through a specific account context. Use this only when the target channel has multiple configured identities.",
   "approvals.exec.targets[].threadId":
     "Optional thread/topic target for channels that support threaded delivery of forwarded approvals. Use this to keep approval traffic contained in operational threads instead of main channels.",
+  "approvals.outbound":
+    "Human-in-the-loop review for agent-initiated outbound messages: matching sends are held in a persisted queue until an operator approves, edits, or rejects them. Use this when agents may reach recipients you have not vetted.",
+  "approvals.outbound.enabled":
+    "Enables the outbound approval policy for message-tool sends (default: false). Keep disabled unless someone watches the queue, because held messages wait indefinitely.",
+  "approvals.outbound.firstContact":
+    "Holds the first message to a recipient the agent has never messaged (default: true when the policy is enabled). Replies in the current conversation are never held.",
+  "approvals.outbound.groupMemberThreshold":
+    "Holds messages to groups or channels with more members than this count, using the channel directory when it can list members. Leave unset to disable the group-size rule.",
+  "approvals.outbound.allowlist":
+    'Message-tool targets that never need approval, as `"<channel>:<target>"` or `"<channel>:*"` entries. Use this to pin the agent to vetted destinations; when set, message-tool sends to any other target are held for review.',
+  "approvals.outbound.agentFilter":
+    'Optional list of agent IDs the outbound policy applies to, for example `["support"]`. Use this to review only agents that talk to external recipients.',
+  "approvals.outbound.targets":
+    "Destinations that receive held-message notices with the approval ID and reply commands. Leave unset to use the agent main session's last route instead.",
+  budgets:
+    "Token and estimated-cost ceilings per agent and per channel account, enforced before each agent reply and isolated cron run. Use this to stop runaway group chats or cron jobs from exhausting monthly provider quota.",
+  "budgets.enabled":
+    "Enables budget enforcement (default: true when budgets.agents or budgets.accounts has entries). Set false to keep tracking config in place while temporarily disabling warnings and hard stops.",
+  "budgets.warnAt":
+    "Default warn threshold as a fraction of each daily/monthly ceiling (default: 0.8). A warning is posted to the owner once per window when usage first crosses this fraction.",
+  "budgets.stopAt":
+    "Default hard-stop threshold as a fraction of each ceiling (default: 1). Once crossed, runs switch to the fallback model or are refused when no fallback is configured.",
+  "budgets.fallbackModel":
+    'Default cheaper model (provider/model, for example "openai/gpt-4.1-mini") used after a hard stop. Leave unset to refuse runs past the hard stop instead of degrading.',
+  "budgets.notify":
+    "Owner notification settings for budget threshold crossings. Keep enabled so operators learn about spend spikes before the hard stop changes model behavior.",
+  "budgets.notify.enabled":
+    "Posts a warning to the owner when a warn or stop threshold is crossed (default: true). Disable only when another alerting path already watches usage.",
+  "budgets.notify.target":
+    "Explicit delivery target for budget warnings with channel, to, and optional accountId/threadId. When unset, warnings use the agent main session's last route and fall back to a system event.",
+  "budgets.agents":
+    'Budgets keyed by agent ID; use "*" for a default that applies to every agent without its own entry. Each entry sets daily/monthly tokens and costUsd ceilings plus optional thresholds and fallback model.',
+  "budgets.accounts":
+    'Budgets keyed by "<channel>:<accountId>" or "<channel>" for all accounts of a channel. Use this to cap spend from a specific bot identity independently of which agent handles the message.',
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
   "tools.sessions.visibility":
@@ -767,13 +840,29 @@ export const FIELD_HELP: Record<string, string> = {
     "Applies recency decay so newer memory can outrank older memory when scores are close. Enable when timeliness matters; keep off for timeless reference knowledge.",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Controls how fast older memory loses rank when temporal decay is enabled (half-life in days, default: 30). Lower values prioritize recent context more aggressively.",
+  "agents.defaults.memorySearch.graph.enabled":
+    "Extracts entities and relations from indexed memory and session chunks into graph tables beside the index, feeding hybrid ranking and the memory_graph tool (default: false). Toggling this triggers a full reindex.",
+  "agents.defaults.memorySearch.graph.weight":
+    "Sets how much the knowledge-graph signal adds to hybrid scores when graph indexing is enabled (0-1, default: 0.2). Raise it when questions are mostly about people, projects, and how they relate.",
   "agents.defaults.memorySearch.cache.enabled":
     "Caches computed chunk embeddings in SQLite so reindexing and incremental updates run faster (default: true). Keep this enabled unless investigating cache correctness or minimizing disk usage.",
   memory: "Memory backend configuration (global).",
   "memory.backend":
-    'Selects the global memory engine: "builtin" uses OpenClaw memory internals, while "qmd" uses the QMD sidecar pipeline. Keep "builtin" unless you intentionally operate QMD.',
+    'Selects the global memory engine: "builtin" uses OpenClaw memory internals, "qmd" uses the QMD sidecar pipeline, and "remote" keeps the builtin index but stores vectors in an HTTP vector store (memory.remote). Keep "builtin" unless you intentionally operate QMD or a vector store.',
   "memory.citations":
     'Controls citation visibility in replies: "auto" shows citations when useful, "on" always shows them, and "off" hides them. Keep "auto" for a balanced signal-to-noise default.',
+  "memory.remote":
+    'HTTP vector store used when memory.backend is "remote". Chunking, full-text search, and hybrid ranking stay local; only embeddings are upserted, queried, and deleted remotely by chunk id.',
+  "memory.remote.url":
+    "Sets the base URL of the vector store; OpenClaw POSTs JSON to `<url>/upsert`, `<url>/query`, and `<url>/delete`. Point this at your own store adapter or a local stand-in.",
+  "memory.remote.apiKey":
+    "Bearer token sent as the Authorization header on vector store requests. Leave unset for unauthenticated local stand-ins.",
+  "memory.remote.headers":
+    "Extra HTTP headers sent with every vector store request, such as tenant or routing headers required by your store.",
+  "memory.remote.collection":
+    "Collection name sent with every vector store request (default: `openclaw-<agentId>`). Set a stable name when several hosts share one store.",
+  "memory.remote.timeoutMs":
+    "Per-request timeout for vector store calls in milliseconds (default: 10000). Raise it for slow stores; failed queries fall back to keyword results.",
   "memory.qmd.command":
     "Sets the executable path for the `qmd` binary used by the QMD backend (default: resolved from PATH). Use an explicit absolute path when multiple qmd installs exist or PATH differs across environments.",
   "memory.qmd.mcporter":
@@ -912,6 +1001,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Compaction tuning for when context nears token limits, including history share, reserve headroom, and pre-compaction memory flush behavior. Use this when long-running sessions need stable continuity under tight context windows.",
   "agents.defaults.compaction.mode":
     'Compaction strategy mode: "default" uses baseline behavior, while "safeguard" applies stricter guardrails to preserve recent context. Keep "default" unless you observe aggressive history loss near limit boundaries.',
+  "agents.defaults.compaction.strategy":
+    'Compaction summarizer: "summary" (default free-text summary), "structured-notes" (a ledger of decisions, open tasks, facts, and files carried across compactions), or an id registered by a plugin. Strategies other than "summary" run through safeguard mode.',
   "agents.defaults.compaction.reserveTokens":
     "Token headroom reserved for reply generation and tool output after compaction runs. Use higher reserves for verbose/tool-heavy sessions, and lower reserves when maximizing retained history matters more.",
   "agents.defaults.compaction.keepRecentTokens":
@@ -1217,7 +1308,7 @@ export const FIELD_HELP: Record<string, string> = {
   "messages.queue":
     "Inbound message queue strategy used to buffer bursts before processing turns. Tune this for busy channels where sequential processing or batching behavior matters.",
   "messages.queue.mode":
-    'Queue behavior mode: "steer", "followup", "collect", "steer-backlog", "steer+backlog", "queue", or "interrupt". Keep conservative modes unless you intentionally need aggressive interruption/backlog semantics.',
+    'Queue behavior mode: "steer", "followup", "collect", "steer-backlog", "steer+backlog", "queue", "interrupt", or "priority". Keep conservative modes unless you intentionally need aggressive interruption/backlog semantics.',
   "messages.queue.byChannel":
     "Per-channel queue mode overrides keyed by provider id (for example telegram, discord, slack). Use this when one channel’s traffic pattern needs different queue behavior than global defaults.",
   "messages.queue.debounceMs":
@@ -1228,6 +1319,16 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum number of queued inbound items retained before drop policy applies. Keep caps bounded in noisy channels so memory usage remains predictable.",
   "messages.queue.drop":
     'Drop strategy when queue cap is exceeded: "old", "new", or "summarize". Use summarize when preserving intent matters, or old/new when deterministic dropping is preferred.',
+  "messages.queue.priority":
+    'Priority rules used when queue mode is "priority". Each message takes the highest weight it matches (owner, listed sender, keyword, mention); higher-priority messages drain first and low-priority overflow is summarized first.',
+  "messages.queue.priority.senders":
+    "Sender ids, usernames, or E.164 numbers whose messages receive the sender weight. Use this for on-call staff or escalation contacts in busy groups.",
+  "messages.queue.priority.keywords":
+    "Case-insensitive words or phrases that receive the keyword weight when found in the message body, for example urgent or outage.",
+  "messages.queue.priority.weights":
+    "Priority weights per signal: owner (default 3), sender (default 2), keyword (default 2), mention (default 1). Unmatched messages have priority 0.",
+  "messages.queue.priority.preemptAt":
+    "Minimum priority that aborts the active run the way interrupt mode does (default 2). Set 0 to never preempt and only reorder the backlog.",
   "messages.inbound":
     "Direct inbound debounce settings used before queue/turn processing starts. Configure this for provider-specific rapid message bursts from the same sender.",
   "messages.inbound.byChannel":
@@ -198,6 +198,23 @@ export const FIELD_LABELS: Record<string, string> = {
   "approvals.exec.targets[].to": "Approval Target Destination",
   "approvals.exec.targets[].accountId": "Approval Target Account ID",
   "approvals.exec.targets[].threadId": "Approval Target Thread ID",
+  "approvals.outbound": "Outbound Message Approvals",
+  "approvals.outbound.enabled": "Hold Outbound Messages",
+  "approvals.outbound.firstContact": "Hold First Contact",
+  "approvals.outbound.groupMemberThreshold": "Group Member Threshold",
+  "approvals.outbound.allowlist": "Outbound Target Allowlist",
+  "approvals.outbound.agentFilter": "Outbound Approval Agent Filter",
+  "approvals.outbound.targets": "Outbound Approval Notify Targets",
+  budgets: "Budgets",
+  "budgets.enabled": "Budget Enforcement Enabled",
+  "budgets.warnAt": "Budget Warn Threshold",
+  "budgets.stopAt": "Budget Hard-Stop Threshold",
+  "budgets.fallbackModel": "Budget Fallback Model",
+  "budgets.notify": "Budget Notifications",
+  "budgets.notify.enabled": "Budget Notifications Enabled",
+  "budgets.notify.target": "Budget Notification Target",
+  "budgets.agents": "Agent Budgets",
+  "budgets.accounts": "Channel Account Budgets",
   "tools.message.allowCrossContextSend": "Allow Cross-Context Messaging",
   "tools.message.crossContext.allowWithinProvider": "Allow Cross-Context (Same Provider)",
   "tools.message.crossContext.allowAcrossProviders": "Allow Cross-Context (Across Providers)",
@@ -243,6 +260,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Insecure Control UI Auth Toggle",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.http.endpoints.models.enabled": "OpenAI Models Endpoint",
+  "gateway.http.endpoints.embeddings.enabled": "OpenAI Embeddings Endpoint",
+  "gateway.http.endpoints.embeddings.maxBodyBytes": "OpenAI Embeddings Max Body Bytes",
+  "gateway.http.endpoints.embeddings.maxInputs": "OpenAI Embeddings Max Inputs",
+  "gateway.http.endpoints.metrics.enabled": "Prometheus Metrics Endpoint",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -323,11 +345,19 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled": "Memory Search Temporal Decay",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Memory Search Temporal Decay Half-life (Days)",
+  "agents.defaults.memorySearch.graph.enabled": "Memory Search Knowledge Graph",
+  "agents.defaults.memorySearch.graph.weight": "Memory Search Knowledge Graph Weight",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
   "memory.backend": "Memory Backend",
   "memory.citations": "Memory Citations Mode",
+  "memory.remote": "Remote Vector Store",
+  "memory.remote.url": "Remote Vector Store URL",
+  "memory.remote.apiKey": "Remote Vector Store API Key",
+  "memory.remote.headers": "Remote Vector Store Headers",
+  "memory.remote.collection": "Remote Vector Store Collection",
+  "memory.remote.timeoutMs": "Remote Vector Store Timeout (ms)",
   "memory.qmd.command": "QMD Binary",
   "memory.qmd.mcporter": "QMD MCPorter",
   "memory.qmd.mcporter.enabled": "QMD MCPorter Enabled",
@@ -404,6 +434,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.cliBackends": "CLI Backends",
   "agents.defaults.compaction": "Compaction",
   "agents.defaults.compaction.mode": "Compaction Mode",
+  "agents.defaults.compaction.strategy": "Compaction Strategy",
   "agents.defaults.compaction.reserveTokens": "Compaction Reserve Tokens",
   "agents.defaults.compaction.keepRecentTokens": "Compaction Keep Recent Tokens",
   "agents.defaults.compaction.reserveTokensFloor": "Compaction Reserve Token Floor",
@@ -421,6 +452,18 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.heartbeat.directPolicy": "Heartbeat Direct Policy",
   "agents.list.*.heartbeat.directPolicy": "Heartbeat Direct Policy",
   "agents.defaults.heartbeat.suppressToolErrorWarnings": "Heartbeat Suppress Tool Error Warnings",
+  "agents.defaults.sandbox.backend": "Sandbox Backend",
+  "agents.defaults.sandbox.bwrap.command": "Sandbox bwrap Command",
+  "agents.defaults.sandbox.bwrap.hostRoots": "Sandbox bwrap Host Roots",
+  "agents.defaults.sandbox.egress.enabled": "Sandbox Egress Proxy Enabled",
+  "agents.defaults.sandbox.egress.allow": "Sandbox Egress Allowlist",
+  "agents.defaults.sandbox.egress.allowPrivateNetwork": "Sandbox Egress Allow Private Network",
+  "agents.defaults.sandbox.egress.network": "Sandbox Egress Network",
+  "agents.defaults.sandbox.egress.port": "Sandbox Egress Proxy Port",
+  "agents.defaults.sandbox.snapshots.enabled": "Sandbox Turn Snapshots Enabled",
+  "agents.defaults.sandbox.snapshots.keep": "Sandbox Turn Snapshots Kept",
+  "agents.defaults.sandbox.snapshots.maxBytes": "Sandbox Snapshot Max Bytes",
+  "agents.defaults.sandbox.snapshots.method": "Sandbox Snapshot Method",
   "agents.defaults.sandbox.browser.network": "Sandbox Browser Network",
   "agents.defaults.sandbox.browser.cdpSourceRange": "Sandbox Browser CDP Source Port Range",
   "agents.defaults.sandbox.docker.dangerouslyAllowContainerNamespaceJoin":
@@ -610,6 +653,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "messages.queue.debounceMsByChannel": "Queue Debounce by Channel (ms)",
   "messages.queue.cap": "Queue Capacity",
   "messages.queue.drop": "Queue Drop Strategy",
+  "messages.queue.priority": "Queue Priority",
+  "messages.queue.priority.senders": "Priority Senders",
+  "messages.queue.priority.keywords": "Priority Keywords",
+  "messages.queue.priority.weights": "Priority Weights",
+  "messages.queue.priority.preemptAt": "Priority Preempt Threshold",
   "messages.inbound": "Inbound Debounce",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
@@ -735,8 +783,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "channels.imessage.cliPath": "iMessage CLI Path",
   "agents.list[].skills": "Agent Skill Filter",
   "agents.list[].identity.avatar": "Agent Avatar",
+  "agents.list[].compaction.strategy": "Agent Compaction Strategy",
   "agents.list[].heartbeat.suppressToolErrorWarnings":
     "Agent Heartbeat Suppress Tool Error Warnings",
+  "agents.list[].sandbox.backend": "Agent Sandbox Backend",
+  "agents.list[].sandbox.egress.allow": "Agent Sandbox Egress Allowlist",
   "agents.list[].sandbox.browser.network": "Agent Sandbox Browser Network",
   "agents.list[].sandbox.browser.cdpSourceRange": "Agent Sandbox Browser CDP Source Port Range",
   "agents.list[].sandbox.docker.dangerouslyAllowContainerNamespaceJoin":
@@ -118,7 +118,8 @@ export type SessionEntry = {
     | "steer-backlog"
     | "steer+backlog"
     | "queue"
-    | "interrupt";
+    | "interrupt"
+    | "priority";
   queueDebounceMs?: number;
   queueCap?: number;
   queueDrop?: "old" | "new" | "summarize";
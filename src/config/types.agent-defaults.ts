@@ -274,6 +274,11 @@ export type AgentCompactionIdentifierPolicy = "strict" | "off" | "custom";
 export type AgentCompactionConfig = {
   /** Compaction summarization mode. */
   mode?: AgentCompactionMode;
+  /**
+   * Compaction strategy: "summary" (default), "structured-notes", or a plugin-registered id.
+   * Any strategy other than "summary" runs through safeguard mode.
+   */
+  strategy?: string;
   /** Pi reserve tokens target before floor enforcement. */
   reserveTokens?: number;
   /** Pi keepRecentTokens budget used for cut-point selection. */
@@ -1,7 +1,11 @@
 import type {
+  SandboxBackendId,
   SandboxBrowserSettings,
+  SandboxBwrapSettings,
   SandboxDockerSettings,
+  SandboxEgressSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 
 export type AgentModelConfig =
@@ -28,10 +32,18 @@ export type AgentSandboxConfig = {
   /** Legacy alias for scope ("session" when true, "shared" when false). */
   perSession?: boolean;
   workspaceRoot?: string;
-  /** Docker-specific sandbox settings. */
+  /** Sandbox runtime (default: docker). */
+  backend?: SandboxBackendId;
+  /** Container settings; also read by the podman and bwrap backends where supported. */
   docker?: SandboxDockerSettings;
+  /** bubblewrap-specific settings (backend: "bwrap"). */
+  bwrap?: SandboxBwrapSettings;
+  /** Allowlisted HTTP(S) egress through the gateway proxy. */
+  egress?: SandboxEgressSettings;
   /** Optional sandboxed browser settings. */
   browser?: SandboxBrowserSettings;
   /** Auto-prune sandbox settings. */
   prune?: SandboxPruneSettings;
+  /** Per-turn workspace snapshots used by /rollback. */
+  snapshots?: SandboxSnapshotSettings;
 };
@@ -24,6 +24,25 @@ export type ExecApprovalForwardingConfig = {
   targets?: ExecApprovalForwardTarget[];
 };
 
+export type OutboundApprovalConfig = {
+  /** Hold agent-initiated outbound messages that match the rules below for operator review. Default: false. */
+  enabled?: boolean;
+  /** Hold the first message to a recipient the agent has never messaged before. Default: true. */
+  firstContact?: boolean;
+  /** Hold messages to groups/channels with more members than this. Omit = no size rule. */
+  groupMemberThreshold?: number;
+  /**
+   * Message-tool targets that never need approval ("<channel>:<target>" or "<channel>:*").
+   * When set, message-tool sends to any other target are held.
+   */
+  allowlist?: string[];
+  /** Only apply the policy to these agent IDs. Omit = all agents. */
+  agentFilter?: string[];
+  /** Where held-message notices go. Omit = the agent main session's last route. */
+  targets?: ExecApprovalForwardTarget[];
+};
+
 export type ApprovalsConfig = {
   exec?: ExecApprovalForwardingConfig;
+  outbound?: OutboundApprovalConfig;
 };
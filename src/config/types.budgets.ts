@@ -0,0 +1,55 @@
+export type BudgetWindowConfig = {
+  /** Token ceiling for the window (input + output + cache read/write). */
+  tokens?: number;
+  /** Estimated cost ceiling for the window, in USD (uses models.providers.*.models[].cost). */
+  costUsd?: number;
+};
+
+export type BudgetLimitConfig = {
+  /** Ceiling for the current calendar day (user timezone). */
+  daily?: BudgetWindowConfig;
+  /** Ceiling for the current calendar month (user timezone). */
+  monthly?: BudgetWindowConfig;
+  /** Fraction of a ceiling that triggers a warning (0-1). Overrides budgets.warnAt. */
+  warnAt?: number;
+  /** Fraction of a ceiling that triggers the hard stop. Overrides budgets.stopAt. */
+  stopAt?: number;
+  /** Model (provider/model) used once the hard stop is reached. Overrides budgets.fallbackModel. */
+  fallbackModel?: string;
+};
+
+export type BudgetNotifyTarget = {
+  /** Channel id (e.g. "telegram", "slack", or plugin channel id). */
+  channel: string;
+  /** Destination id (chat id, user id, etc. depending on channel). */
+  to: string;
+  /** Optional account id for multi-account channels. */
+  accountId?: string;
+  /** Optional thread id to post inside a thread. */
+  threadId?: string | number;
+};
+
+export type BudgetsConfig = {
+  /** Enforce configured budgets. Default: true when any budget is configured. */
+  enabled?: boolean;
+  /** Default warn threshold as a fraction of each ceiling. Default: 0.8. */
+  warnAt?: number;
+  /** Default hard-stop threshold as a fraction of each ceiling. Default: 1. */
+  stopAt?: number;
+  /**
+   * Default model (provider/model) used once a hard stop is reached.
+   * When unset, runs past the hard stop are refused.
+   */
+  fallbackModel?: string;
+  /** Owner notifications when a threshold is crossed. */
+  notify?: {
+    /** Post threshold warnings. Default: true. */
+    enabled?: boolean;
+    /** Explicit destination; defaults to the agent main session's last route. */
+    target?: BudgetNotifyTarget;
+  };
+  /** Budgets keyed by agent id ("*" applies to every agent without its own entry). */
+  agents?: Record<string, BudgetLimitConfig>;
+  /** Budgets keyed by "<channel>:<accountId>" or "<channel>" (all accounts of that channel). */
+  accounts?: Record<string, BudgetLimitConfig>;
+};
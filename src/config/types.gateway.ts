@@ -274,9 +274,46 @@ export type GatewayHttpResponsesImagesConfig = {
   timeoutMs?: number;
 };
 
+export type GatewayHttpModelsConfig = {
+  /**
+   * If false, the Gateway will not serve `GET /v1/models`.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+};
+
+export type GatewayHttpEmbeddingsConfig = {
+  /**
+   * If false, the Gateway will not serve `POST /v1/embeddings`.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+  /**
+   * Max request body size in bytes for `/v1/embeddings`.
+   * Default: 4MB.
+   */
+  maxBodyBytes?: number;
+  /**
+   * Max number of inputs embedded per request.
+   * Default: 2048.
+   */
+  maxInputs?: number;
+};
+
+export type GatewayHttpMetricsConfig = {
+  /**
+   * If false, the Gateway will not serve `GET /metrics`.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+};
+
 export type GatewayHttpEndpointsConfig = {
   chatCompletions?: GatewayHttpChatCompletionsConfig;
   responses?: GatewayHttpResponsesConfig;
+  models?: GatewayHttpModelsConfig;
+  embeddings?: GatewayHttpEmbeddingsConfig;
+  metrics?: GatewayHttpMetricsConfig;
 };
 
 export type GatewayHttpSecurityHeadersConfig = {
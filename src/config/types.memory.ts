@@ -1,6 +1,6 @@
 import type { SessionSendPolicyConfig } from "./types.base.js";
 
-export type MemoryBackend = "builtin" | "qmd";
+export type MemoryBackend = "builtin" | "qmd" | "remote";
 export type MemoryCitationsMode = "auto" | "on" | "off";
 export type MemoryQmdSearchMode = "query" | "search" | "vsearch";
 
@@ -8,6 +8,22 @@ export type MemoryConfig = {
   backend?: MemoryBackend;
   citations?: MemoryCitationsMode;
   qmd?: MemoryQmdConfig;
+  remote?: MemoryRemoteVectorStoreConfig;
+};
+
+/**
+ * HTTP vector store used by the "remote" backend. Chunking, FTS and hybrid
+ * ranking stay in the builtin SQLite index; only vectors live remotely.
+ */
+export type MemoryRemoteVectorStoreConfig = {
+  /** Base URL; the backend POSTs to `<url>/upsert`, `<url>/query` and `<url>/delete`. */
+  url?: string;
+  /** Sent as `Authorization: Bearer <apiKey>`. */
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /** Collection name sent with every request (default: `openclaw-<agentId>`). */
+  collection?: string;
+  timeoutMs?: number;
 };
 
 export type MemoryQmdConfig = {
@@ -1,4 +1,9 @@
-import type { QueueDropPolicy, QueueMode, QueueModeByProvider } from "./types.queue.js";
+import type {
+  QueueDropPolicy,
+  QueueMode,
+  QueueModeByProvider,
+  QueuePriorityConfig,
+} from "./types.queue.js";
 import type { TtsConfig } from "./types.tts.js";
 
 export type GroupChatConfig = {
@@ -18,6 +23,8 @@ export type QueueConfig = {
   debounceMsByChannel?: InboundDebounceByProvider;
   cap?: number;
   drop?: QueueDropPolicy;
+  /** Priority rules for `mode: "priority"`. */
+  priority?: QueuePriorityConfig;
 };
 
 export type InboundDebounceByProvider = Record<string, number>;
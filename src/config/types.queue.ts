@@ -5,9 +5,31 @@ export type QueueMode =
   | "steer-backlog"
   | "steer+backlog"
   | "queue"
-  | "interrupt";
+  | "interrupt"
+  | "priority";
 export type QueueDropPolicy = "old" | "new" | "summarize";
 
+export type QueuePriorityWeights = {
+  /** Priority for messages from owners (default: 3). */
+  owner?: number;
+  /** Priority for senders listed in `senders` (default: 2). */
+  sender?: number;
+  /** Priority for messages matching one of `keywords` (default: 2). */
+  keyword?: number;
+  /** Priority for messages that mention the agent (default: 1). */
+  mention?: number;
+};
+
+export type QueuePriorityConfig = {
+  /** Sender ids, usernames or E.164 numbers whose messages get the `sender` weight. */
+  senders?: Array<string | number>;
+  /** Case-insensitive words or phrases that give a message the `keyword` weight. */
+  keywords?: string[];
+  weights?: QueuePriorityWeights;
+  /** Minimum priority that aborts the active run like `interrupt` (default: 2; 0 disables). */
+  preemptAt?: number;
+};
+
 export type QueueModeByProvider = {
   whatsapp?: QueueMode;
   telegram?: QueueMode;
@@ -1,3 +1,6 @@
+/** Runtime that hosts sandboxed exec: Docker, rootless Podman, or bubblewrap. */
+export type SandboxBackendId = "docker" | "podman" | "bwrap";
+
 export type SandboxDockerSettings = {
   /** Docker image to use for sandbox containers. */
   image?: string;
@@ -94,3 +97,44 @@ export type SandboxPruneSettings = {
   /** Prune if older than N days (0 disables). */
   maxAgeDays?: number;
 };
+
+export type SandboxSnapshotMethod = "auto" | "clone" | "tar";
+
+export type SandboxSnapshotSettings = {
+  /** Snapshot the sandbox workspace at the start of every agent turn (default: true). */
+  enabled?: boolean;
+  /** Snapshots kept per workspace; older ones are pruned (default: 10). */
+  keep?: number;
+  /** Skip the snapshot when the workspace is larger than this many bytes (default: 256 MiB). */
+  maxBytes?: number;
+  /**
+   * How snapshots are stored (default: auto).
+   * - "auto": copy-on-write clones where the filesystem supports them, tar otherwise
+   * - "clone": file copies (copy-on-write when available, full copies otherwise)
+   * - "tar": uncompressed tar archives
+   */
+  method?: SandboxSnapshotMethod;
+};
+
+export type SandboxEgressSettings = {
+  /**
+   * Route sandbox HTTP(S) traffic through the gateway's egress proxy and put the
+   * container on an internal network with no other way out (default: false).
+   */
+  enabled?: boolean;
+  /** Hostnames the sandbox may reach; `*.example.com` matches subdomains. Empty denies all. */
+  allow?: string[];
+  /** Allow allowlisted hosts that resolve to private/internal addresses (default: false). */
+  allowPrivateNetwork?: boolean;
+  /** Internal Docker/Podman network for proxied sandboxes (default: openclaw-sandbox-egress). */
+  network?: string;
+  /** Proxy listen port on the network gateway address (default: 0, any free port). */
+  port?: number;
+};
+
+export type SandboxBwrapSettings = {
+  /** bubblewrap binary (default: bwrap on PATH). */
+  command?: string;
+  /** Host directories bound read-only to form the sandbox root filesystem. */
+  hostRoots?: string[];
+};
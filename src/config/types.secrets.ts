@@ -1,4 +1,4 @@
-export type SecretRefSource = "env" | "file" | "exec";
+export type SecretRefSource = "env" | "file" | "exec" | "vault-file";
 
 /**
  * Stable identifier for a secret in a configured source.
@@ -6,6 +6,7 @@ export type SecretRefSource = "env" | "file" | "exec";
  * - env source: provider "default", id "OPENAI_API_KEY"
  * - file source: provider "mounted-json", id "/providers/openai/apiKey"
  * - exec source: provider "vault", id "openai/api-key"
+ * - vault-file source: provider "local", id "openai/api-key"
  */
 export type SecretRef = {
   source: SecretRefSource;
@@ -21,6 +22,10 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+function isSecretRefSource(value: unknown): value is SecretRefSource {
+  return value === "env" || value === "file" || value === "exec" || value === "vault-file";
+}
+
 export function isSecretRef(value: unknown): value is SecretRef {
   if (!isRecord(value)) {
     return false;
@@ -29,7 +34,7 @@ export function isSecretRef(value: unknown): value is SecretRef {
     return false;
   }
   return (
-    (value.source === "env" || value.source === "file" || value.source === "exec") &&
+    isSecretRefSource(value.source) &&
     typeof value.provider === "string" &&
     value.provider.trim().length > 0 &&
     typeof value.id === "string" &&
@@ -44,7 +49,7 @@ function isLegacySecretRefWithoutProvider(
     return false;
   }
   return (
-    (value.source === "env" || value.source === "file" || value.source === "exec") &&
+    isSecretRefSource(value.source) &&
     typeof value.id === "string" &&
     value.id.trim().length > 0 &&
     value.provider === undefined
@@ -86,7 +91,9 @@ export function coerceSecretRef(
         ? (defaults?.env ?? DEFAULT_SECRET_PROVIDER_ALIAS)
         : value.source === "file"
           ? (defaults?.file ?? DEFAULT_SECRET_PROVIDER_ALIAS)
-          : (defaults?.exec ?? DEFAULT_SECRET_PROVIDER_ALIAS);
+          : value.source === "exec"
+            ? (defaults?.exec ?? DEFAULT_SECRET_PROVIDER_ALIAS)
+            : DEFAULT_SECRET_PROVIDER_ALIAS;
     return {
       source: value.source,
       provider,
@@ -129,12 +136,29 @@ export type ExecSecretProviderConfig = {
   trustedDirs?: string[];
   allowInsecurePath?: boolean;
   allowSymlinkCommand?: boolean;
+  /**
+   * Refresh resolved values after this many seconds. A response's per-id
+   * `ttlSeconds` overrides it.
+   */
+  ttlSeconds?: number;
+};
+
+/**
+ * Encrypted local vault (AES-256-GCM). Unlocked by exactly one of `keyFile`
+ * or a passphrase read from the `passphraseEnv` environment variable.
+ */
+export type VaultFileSecretProviderConfig = {
+  source: "vault-file";
+  path: string;
+  keyFile?: string;
+  passphraseEnv?: string;
 };
 
 export type SecretProviderConfig =
   | EnvSecretProviderConfig
   | FileSecretProviderConfig
-  | ExecSecretProviderConfig;
+  | ExecSecretProviderConfig
+  | VaultFileSecretProviderConfig;
 
 export type SecretsConfig = {
   providers?: Record<string, SecretProviderConfig>;
@@ -147,5 +171,9 @@ export type SecretsConfig = {
     maxProviderConcurrency?: number;
     maxRefsPerProvider?: number;
     maxBatchBytes?: number;
+    /** Refresh expiring refs this many seconds before they expire (default: 30). */
+    refreshLeadSeconds?: number;
+    /** Retry a failed refresh after this many seconds (default: 30). */
+    refreshRetrySeconds?: number;
   };
 };
@@ -408,6 +408,13 @@ export type MemorySearchConfig = {
       };
     };
   };
+  /** Knowledge-graph indexing over memory chunks. */
+  graph?: {
+    /** Extract entities and relations while indexing (default: false). */
+    enabled?: boolean;
+    /** Weight of the graph signal added to hybrid scores (0-1, default: 0.2). */
+    weight?: number;
+  };
   /** Index cache behavior. */
   cache?: {
     /** Cache chunk embeddings in SQLite (default: true). */
@@ -236,6 +236,27 @@ export const SandboxPruneSchema = z
   .strict()
   .optional();
 
+export const SandboxEgressSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    allow: z.array(z.string()).optional(),
+    allowPrivateNetwork: z.boolean().optional(),
+    network: z.string().optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+  })
+  .strict()
+  .optional();
+
+export const SandboxSnapshotsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    keep: z.number().int().positive().optional(),
+    maxBytes: z.number().int().positive().optional(),
+    method: z.union([z.literal("auto"), z.literal("clone"), z.literal("tar")]).optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolPolicyBaseSchema = z
   .object({
     allow: z.array(z.string()).optional(),
@@ -467,6 +488,14 @@ const ToolLoopDetectionSchema = z
   })
   .optional();
 
+export const SandboxBwrapSchema = z
+  .object({
+    command: z.string().optional(),
+    hostRoots: z.array(z.string()).optional(),
+  })
+  .strict()
+  .optional();
+
 export const AgentSandboxSchema = z
   .object({
     mode: z.union([z.literal("off"), z.literal("non-main"), z.literal("all")]).optional(),
@@ -475,9 +504,13 @@ export const AgentSandboxSchema = z
     scope: z.union([z.literal("session"), z.literal("agent"), z.literal("shared")]).optional(),
     perSession: z.boolean().optional(),
     workspaceRoot: z.string().optional(),
+    backend: z.union([z.literal("docker"), z.literal("podman"), z.literal("bwrap")]).optional(),
     docker: SandboxDockerSchema,
+    bwrap: SandboxBwrapSchema,
+    egress: SandboxEgressSchema,
     browser: SandboxBrowserSchema,
     prune: SandboxPruneSchema,
+    snapshots: SandboxSnapshotsSchema,
   })
   .strict()
   .superRefine((data, ctx) => {
@@ -659,6 +692,13 @@ export const MemorySearchSchema = z
       })
       .strict()
       .optional(),
+    graph: z
+      .object({
+        enabled: z.boolean().optional(),
+        weight: z.number().min(0).max(1).optional(),
+      })
+      .strict()
+      .optional(),
     cache: z
       .object({
         enabled: z.boolean().optional(),
@@ -702,6 +742,12 @@ export const AgentEntrySchema = z
       })
       .strict()
       .optional(),
+    compaction: z
+      .object({
+        strategy: z.string().optional(),
+      })
+      .strict()
+      .optional(),
     sandbox: AgentSandboxSchema,
     tools: AgentToolsSchema,
   })
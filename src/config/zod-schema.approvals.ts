@@ -20,9 +20,22 @@ const ExecApprovalForwardingSchema = z
   .strict()
   .optional();
 
+const OutboundApprovalSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    firstContact: z.boolean().optional(),
+    groupMemberThreshold: z.number().int().positive().optional(),
+    allowlist: z.array(z.string()).optional(),
+    agentFilter: z.array(z.string()).optional(),
+    targets: z.array(ExecApprovalForwardTargetSchema).optional(),
+  })
+  .strict()
+  .optional();
+
 export const ApprovalsSchema = z
   .object({
     exec: ExecApprovalForwardingSchema,
+    outbound: OutboundApprovalSchema,
   })
   .strict()
   .optional();
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const BudgetFractionSchema = z.number().gt(0).max(2);
+
+const BudgetWindowSchema = z
+  .object({
+    tokens: z.number().int().positive().optional(),
+    costUsd: z.number().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+const BudgetLimitSchema = z
+  .object({
+    daily: BudgetWindowSchema,
+    monthly: BudgetWindowSchema,
+    warnAt: BudgetFractionSchema.optional(),
+    stopAt: BudgetFractionSchema.optional(),
+    fallbackModel: z.string().min(1).optional(),
+  })
+  .strict();
+
+const BudgetNotifyTargetSchema = z
+  .object({
+    channel: z.string().min(1),
+    to: z.string().min(1),
+    accountId: z.string().optional(),
+    threadId: z.union([z.string(), z.number()]).optional(),
+  })
+  .strict();
+
+export const BudgetsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    warnAt: BudgetFractionSchema.optional(),
+    stopAt: BudgetFractionSchema.optional(),
+    fallbackModel: z.string().min(1).optional(),
+    notify: z
+      .object({
+        enabled: z.boolean().optional(),
+        target: BudgetNotifyTargetSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    agents: z.record(z.string(), BudgetLimitSchema).optional(),
+    accounts: z.record(z.string(), BudgetLimitSchema).optional(),
+  })
+  .strict()
+  .optional();
@@ -1,7 +1,10 @@
 import path from "node:path";
 import { z } from "zod";
 import { isSafeExecutableValue } from "../infra/exec-safety.js";
-import { isValidFileSecretRefId } from "../secrets/ref-contract.js";
+import {
+  isValidFileSecretRefId,
+  VAULT_FILE_SECRET_REF_ID_PATTERN,
+} from "../secrets/ref-contract.js";
 import { MODEL_APIS } from "./types.models.js";
 import { createAllowDenyChannelRulesSchema } from "./zod-schema.allowdeny.js";
 import { sensitive } from "./zod-schema.sensitive.js";
@@ -74,10 +77,29 @@ const ExecSecretRefSchema = z
   })
   .strict();
 
+const VaultFileSecretRefSchema = z
+  .object({
+    source: z.literal("vault-file"),
+    provider: z
+      .string()
+      .regex(
+        SECRET_PROVIDER_ALIAS_PATTERN,
+        'Secret reference provider must match /^[a-z][a-z0-9_-]{0,63}$/ (example: "default").',
+      ),
+    id: z
+      .string()
+      .regex(
+        VAULT_FILE_SECRET_REF_ID_PATTERN,
+        'Vault secret reference id must match /^[A-Za-z0-9][A-Za-z0-9._:/-]{0,255}$/ (example: "openai/api-key").',
+      ),
+  })
+  .strict();
+
 export const SecretRefSchema = z.discriminatedUnion("source", [
   EnvSecretRefSchema,
   FileSecretRefSchema,
   ExecSecretRefSchema,
+  VaultFileSecretRefSchema,
 ]);
 
 export const SecretInputSchema = z.union([z.string(), SecretRefSchema]);
@@ -138,13 +160,38 @@ const SecretsExecProviderSchema = z
       .optional(),
     allowInsecurePath: z.boolean().optional(),
     allowSymlinkCommand: z.boolean().optional(),
+    ttlSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(7 * 24 * 60 * 60)
+      .optional(),
   })
   .strict();
 
+const SecretsVaultFileProviderSchema = z
+  .object({
+    source: z.literal("vault-file"),
+    path: z.string().min(1),
+    keyFile: z.string().min(1).optional(),
+    passphraseEnv: z.string().regex(ENV_SECRET_REF_ID_PATTERN).optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (Boolean(value.keyFile) === Boolean(value.passphraseEnv)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "vault-file providers need exactly one of keyFile or passphraseEnv.",
+        path: ["keyFile"],
+      });
+    }
+  });
+
 export const SecretProviderSchema = z.discriminatedUnion("source", [
   SecretsEnvProviderSchema,
   SecretsFileProviderSchema,
   SecretsExecProviderSchema,
+  SecretsVaultFileProviderSchema,
 ]);
 
 export const SecretsConfigSchema = z
@@ -173,6 +220,8 @@ export const SecretsConfigSchema = z
           .positive()
           .max(5 * 1024 * 1024)
           .optional(),
+        refreshLeadSeconds: z.number().int().nonnegative().max(3600).optional(),
+        refreshRetrySeconds: z.number().int().positive().max(3600).optional(),
       })
       .strict()
       .optional(),
@@ -291,6 +340,7 @@ export const QueueModeSchema = z.union([
   z.literal("steer+backlog"),
   z.literal("queue"),
   z.literal("interrupt"),
+  z.literal("priority"),
 ]);
 export const QueueDropSchema = z.union([
   z.literal("old"),
@@ -569,6 +619,24 @@ export const DebounceMsBySurfaceSchema = z
   .record(z.string(), z.number().int().nonnegative())
   .optional();
 
+export const QueuePrioritySchema = z
+  .object({
+    senders: z.array(z.union([z.string(), z.number()])).optional(),
+    keywords: z.array(z.string()).optional(),
+    weights: z
+      .object({
+        owner: z.number().int().nonnegative().optional(),
+        sender: z.number().int().nonnegative().optional(),
+        keyword: z.number().int().nonnegative().optional(),
+        mention: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    preemptAt: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .optional();
+
 export const QueueSchema = z
   .object({
     mode: QueueModeSchema.optional(),
@@ -577,6 +645,7 @@ export const QueueSchema = z
     debounceMsByChannel: DebounceMsBySurfaceSchema,
     cap: z.number().int().positive().optional(),
     drop: QueueDropSchema.optional(),
+    priority: QueuePrioritySchema,
   })
   .strict()
   .optional();
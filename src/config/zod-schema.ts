@@ -4,6 +4,7 @@ import { parseDurationMs } from "../cli/parse-duration.js";
 import { ToolsSchema } from "./zod-schema.agent-runtime.js";
 import { AgentsSchema, AudioSchema, BindingsSchema, BroadcastSchema } from "./zod-schema.agents.js";
 import { ApprovalsSchema } from "./zod-schema.approvals.js";
+import { BudgetsSchema } from "./zod-schema.budgets.js";
 import {
   HexColorSchema,
   ModelsConfigSchema,
@@ -111,11 +112,22 @@ const MemoryQmdSchema = z
   })
   .strict();
 
+const MemoryRemoteVectorStoreSchema = z
+  .object({
+    url: z.string().optional(),
+    apiKey: z.string().optional().register(sensitive),
+    headers: z.record(z.string(), z.string()).optional(),
+    collection: z.string().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
 const MemorySchema = z
   .object({
-    backend: z.union([z.literal("builtin"), z.literal("qmd")]).optional(),
+    backend: z.union([z.literal("builtin"), z.literal("qmd"), z.literal("remote")]).optional(),
     citations: z.union([z.literal("auto"), z.literal("on"), z.literal("off")]).optional(),
     qmd: MemoryQmdSchema.optional(),
+    remote: MemoryRemoteVectorStoreSchema.optional(),
   })
   .strict()
   .optional();
@@ -368,6 +380,7 @@ export const OpenClawSchema = z
     messages: MessagesSchema,
     commands: CommandsSchema,
     approvals: ApprovalsSchema,
+    budgets: BudgetsSchema,
     session: SessionSchema,
     cron: z
       .object({
@@ -659,6 +672,26 @@ export const OpenClawSchema = z
                   })
                   .strict()
                   .optional(),
+                models: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                embeddings: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                    maxBodyBytes: z.number().int().positive().optional(),
+                    maxInputs: z.number().int().positive().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                metrics: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
               })
               .strict()
               .optional(),
@@ -0,0 +1,151 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  assertValidCronCalendar,
+  findCronCalendarSkip,
+  parseCronExcludeDate,
+  parseCronIcsEvents,
+} from "./calendar.js";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20261225",
+  "DTEND;VALUE=DATE:20261227",
+  "SUMMARY:Christmas",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=Europe/Berlin:20261110T220000",
+  "DTEND;TZID=Europe/Berlin:20261111T020000",
+  "SUMMARY:Maintenance\\, db",
+  " migration",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("cron calendar", () => {
+  it("parses exclude dates and ranges", () => {
+    expect(parseCronExcludeDate("2026-12-24")).toEqual({
+      startKey: "2026-12-24",
+      endKey: "2026-12-24",
+    });
+    expect(parseCronExcludeDate("2026-12-24..2026-12-31")).toEqual({
+      startKey: "2026-12-24",
+      endKey: "2026-12-31",
+    });
+    expect(parseCronExcludeDate("2026-02-30")).toBeNull();
+    expect(parseCronExcludeDate("2026-12-31..2026-12-24")).toBeNull();
+    expect(() =>
+      assertValidCronCalendar({ kind: "every", everyMs: 1_000, excludeDates: ["tomorrow"] }),
+    ).toThrow('invalid cron excludeDates entry "tomorrow"');
+  });
+
+  it("parses all-day holidays and timed blackout windows from ICS", () => {
+    expect(parseCronIcsEvents(ICS, "UTC")).toEqual([
+      { kind: "day", startKey: "2026-12-25", endKey: "2026-12-26", summary: "Christmas" },
+      {
+        kind: "window",
+        startMs: Date.parse("2026-11-10T21:00:00.000Z"),
+        endMs: Date.parse("2026-11-11T01:00:00.000Z"),
+        summary: "Maintenance, dbmigration",
+      },
+    ]);
+  });
+
+  it("expands simple recurring events and honours EXDATE, RDATE, COUNT and UNTIL", () => {
+    const unsupported: string[] = [];
+    const events = parseCronIcsEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20261225",
+        "RRULE:FREQ=YEARLY;COUNT=3",
+        "EXDATE;VALUE=DATE:20271225",
+        "SUMMARY:Christmas",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART;TZID=Europe/Berlin:20261022T090000",
+        "DTEND;TZID=Europe/Berlin:20261022T100000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20261106T000000Z",
+        "RDATE;TZID=Europe/Berlin:20261110T090000",
+        "SUMMARY:Standup",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20261201",
+        "RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15",
+        "SUMMARY:Payroll",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+      "UTC",
+      {
+        nowMs: Date.parse("2026-10-19T00:00:00.000Z"),
+        onUnsupportedRule: (summary, rule) => unsupported.push(`${summary}: ${rule}`),
+      },
+    );
+
+    expect(
+      events.flatMap((event) =>
+        event.kind === "day" ? [`${event.summary} ${event.startKey}`] : [],
+      ),
+    ).toEqual(["Christmas 2026-12-25", "Christmas 2028-12-25", "Payroll 2026-12-01"]);
+    expect(
+      events.flatMap((event) =>
+        event.kind === "window" ? [new Date(event.startMs).toISOString()] : [],
+      ),
+    ).toEqual([
+      // 09:00 Berlin keeps its wall time across the DST change on Oct 25.
+      "2026-10-22T07:00:00.000Z",
+      "2026-10-26T08:00:00.000Z",
+      "2026-10-29T08:00:00.000Z",
+      "2026-11-02T08:00:00.000Z",
+      "2026-11-05T08:00:00.000Z",
+      "2026-11-10T08:00:00.000Z",
+    ]);
+    expect(unsupported).toEqual(["Payroll: FREQ=MONTHLY;BYMONTHDAY=1,15"]);
+  });
+
+  it("explains skips and where runs resume", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-calendar-"));
+    try {
+      const icsFile = path.join(dir, "holidays.ics");
+      await fs.writeFile(icsFile, ICS, "utf-8");
+      const calendar = {
+        excludeDates: ["2026-12-01"],
+        icsFile,
+        businessDaysOnly: true,
+      };
+      const tz = "America/New_York";
+
+      expect(findCronCalendarSkip(calendar, Date.parse("2026-12-01T15:00:00.000Z"), tz)).toEqual({
+        reason: "excluded date 2026-12-01",
+        resumeAtMs: Date.parse("2026-12-02T05:00:00.000Z"),
+      });
+      // Saturday 2026-12-05 in New York.
+      expect(findCronCalendarSkip(calendar, Date.parse("2026-12-05T15:00:00.000Z"), tz)).toEqual({
+        reason: "weekend (Sat)",
+        resumeAtMs: Date.parse("2026-12-06T05:00:00.000Z"),
+      });
+      expect(findCronCalendarSkip(calendar, Date.parse("2026-12-25T15:00:00.000Z"), tz)).toEqual({
+        reason: "holiday: Christmas",
+        resumeAtMs: Date.parse("2026-12-27T05:00:00.000Z"),
+      });
+      expect(
+        findCronCalendarSkip(calendar, Date.parse("2026-11-10T23:00:00.000Z"), tz),
+      ).toMatchObject({ reason: "blackout: Maintenance, dbmigration" });
+      expect(
+        findCronCalendarSkip(calendar, Date.parse("2026-12-02T15:00:00.000Z"), tz),
+      ).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails loudly when the ICS file is missing", () => {
+    expect(() =>
+      findCronCalendarSkip({ icsFile: "/nonexistent/holidays.ics" }, Date.now(), "UTC"),
+    ).toThrow("cron calendar file not readable");
+  });
+});
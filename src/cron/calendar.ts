@@ -0,0 +1,579 @@
+import fs from "node:fs";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveUserPath } from "../utils.js";
+import type { CronCalendarRules, CronCalendarSkip, CronSchedule } from "./types.js";
+
+const DATE_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const log = createSubsystemLogger("cron").child("calendar");
+
+type CalendarEvent =
+  | { kind: "day"; startKey: string; endKey: string; summary: string }
+  | { kind: "window"; startMs: number; endMs: number; summary: string };
+
+type ParsedCalendarFile = {
+  mtimeMs: number;
+  size: number;
+  events: CalendarEvent[];
+};
+
+const calendarFileCache = new Map<string, ParsedCalendarFile>();
+
+export function resolveScheduleCalendar(schedule: CronSchedule): CronCalendarRules | undefined {
+  if (schedule.kind !== "cron" && schedule.kind !== "every") {
+    return undefined;
+  }
+  const hasExcludeDates = Array.isArray(schedule.excludeDates) && schedule.excludeDates.length > 0;
+  const hasIcsFile = typeof schedule.icsFile === "string" && schedule.icsFile.trim().length > 0;
+  if (!hasExcludeDates && !hasIcsFile && schedule.businessDaysOnly !== true) {
+    return undefined;
+  }
+  return {
+    excludeDates: hasExcludeDates ? schedule.excludeDates : undefined,
+    icsFile: hasIcsFile ? schedule.icsFile?.trim() : undefined,
+    businessDaysOnly: schedule.businessDaysOnly === true ? true : undefined,
+  };
+}
+
+/** Reject malformed `excludeDates` entries up front instead of silently ignoring them. */
+export function assertValidCronCalendar(schedule: CronSchedule) {
+  if (schedule.kind !== "every" && schedule.kind !== "cron") {
+    return;
+  }
+  for (const raw of schedule.excludeDates ?? []) {
+    if (!parseCronExcludeDate(raw)) {
+      throw new Error(
+        `invalid cron excludeDates entry "${raw}" (expected YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD)`,
+      );
+    }
+  }
+}
+
+function readZonedParts(tz: string, ms: number) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+  }).formatToParts(new Date(ms));
+  const pick = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    year: Number(pick("year")),
+    month: Number(pick("month")),
+    day: Number(pick("day")),
+    hour: Number(pick("hour")),
+    minute: Number(pick("minute")),
+    second: Number(pick("second")),
+    weekday: pick("weekday"),
+  };
+}
+
+function zonedWallTimeToUtcMs(
+  tz: string,
+  wall: {
+    year: number;
+    month: number;
+    day: number;
+    hour?: number;
+    minute?: number;
+    second?: number;
+  },
+) {
+  const guess = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour ?? 0,
+    wall.minute ?? 0,
+    wall.second ?? 0,
+  );
+  const offsetAt = (ms: number) => {
+    const parts = readZonedParts(tz, ms);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+    return asUtc - Math.floor(ms / 1000) * 1000;
+  };
+  // Two passes settle the offset for wall times next to a DST transition.
+  const first = guess - offsetAt(guess);
+  return guess - offsetAt(first);
+}
+
+function toDateKey(parts: { year: number; month: number; day: number }) {
+  return `${String(parts.year).padStart(4, "0")}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+}
+
+function parseDateKey(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return { year, month, day };
+}
+
+function addDaysToKey(key: string, days: number) {
+  const { year, month, day } = parseDateKey(key);
+  const date = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return toDateKey({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  });
+}
+
+function startOfDateKeyMs(tz: string, key: string) {
+  return zonedWallTimeToUtcMs(tz, parseDateKey(key));
+}
+
+/** Parse `YYYY-MM-DD` or an inclusive `YYYY-MM-DD..YYYY-MM-DD` range. */
+export function parseCronExcludeDate(raw: string): { startKey: string; endKey: string } | null {
+  const [startRaw, endRaw] = raw.split("..").map((part) => part.trim());
+  const startKey = startRaw ?? "";
+  const endKey = endRaw ?? startKey;
+  if (!DATE_KEY_RE.test(startKey) || !DATE_KEY_RE.test(endKey) || endKey < startKey) {
+    return null;
+  }
+  const { year, month, day } = parseDateKey(startKey);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return { startKey, endKey };
+}
+
+function unfoldIcsLines(raw: string) {
+  const lines: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+type IcsField = { params: Record<string, string>; value: string };
+
+type IcsDateValue =
+  | { kind: "date"; key: string }
+  | {
+      kind: "time";
+      key: string;
+      ms: number;
+      zone: string;
+      hour: number;
+      minute: number;
+      second: number;
+    };
+
+function parseIcsDateValue(
+  params: Record<string, string>,
+  value: string,
+  tz: string,
+): IcsDateValue | null {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === "DATE") {
+    if (!dateOnly) {
+      return null;
+    }
+    return { kind: "date", key: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = dateTime.slice(1, 7).map(Number);
+  const key = toDateKey({ year, month, day });
+  if (dateTime[7] === "Z") {
+    const ms = Date.UTC(year, month - 1, day, hour, minute, second);
+    return { kind: "time", key, ms, zone: "UTC", hour, minute, second };
+  }
+  const zone = params.TZID?.trim() || tz;
+  return {
+    kind: "time",
+    key,
+    ms: zonedWallTimeToUtcMs(zone, { year, month, day, hour, minute, second }),
+    zone,
+    hour,
+    minute,
+    second,
+  };
+}
+
+function unescapeIcsText(value: string) {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+/** Recurring events are expanded up to this far past the current time. */
+const ICS_RECURRENCE_HORIZON_MS = 10 * 366 * DAY_MS;
+/** Upper bound on occurrences per recurring event. */
+const MAX_ICS_OCCURRENCES = 5_000;
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ICS_RRULE_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "WKST", "BYDAY"]);
+
+type IcsRecurrenceRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: string;
+  /** Days after Monday (0 = Monday) for weekly rules. */
+  byDay?: number[];
+};
+
+/**
+ * Parse the RRULE subset OpenClaw expands: FREQ with INTERVAL, COUNT, UNTIL and
+ * plain weekly BYDAY lists. Returns null for anything else.
+ */
+function parseIcsRecurrenceRule(value: string): IcsRecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0) {
+      parts.set(
+        part.slice(0, eq).trim().toUpperCase(),
+        part
+          .slice(eq + 1)
+          .trim()
+          .toUpperCase(),
+      );
+    }
+  }
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+  if ([...parts.keys()].some((key) => !ICS_RRULE_PARTS.has(key))) {
+    return null;
+  }
+  const interval = Number(parts.get("INTERVAL") ?? "1");
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : undefined;
+  if (!Number.isInteger(interval) || interval < 1) {
+    return null;
+  }
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+    return null;
+  }
+  let byDay: number[] | undefined;
+  const byDayRaw = parts.get("BYDAY");
+  if (byDayRaw !== undefined) {
+    const days = byDayRaw.split(",").map((day) => ICS_WEEKDAYS.indexOf(day.trim()));
+    // Ordinal forms like 1MO or -1FR only make sense for monthly/yearly rules.
+    if (freq !== "WEEKLY" || days.some((day) => day < 0)) {
+      return null;
+    }
+    byDay = [...new Set(days.map((day) => (day + 6) % 7))].toSorted((a, b) => a - b);
+  }
+  return { freq, interval, count, until: parts.get("UNTIL"), byDay };
+}
+
+function isValidDateKey(key: string) {
+  const { year, month, day } = parseDateKey(key);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+}
+
+/** Occurrence dates of a rule, starting with DTSTART itself; never ends on its own. */
+function* iterateIcsRecurrenceKeys(startKey: string, rule: IcsRecurrenceRule) {
+  yield startKey;
+  if (rule.freq === "WEEKLY" && rule.byDay) {
+    const { year, month, day } = parseDateKey(startKey);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const weekStart = addDaysToKey(startKey, -((weekday + 6) % 7));
+    for (let week = 0; ; week += rule.interval) {
+      for (const offset of rule.byDay) {
+        const key = addDaysToKey(weekStart, week * 7 + offset);
+        if (key > startKey) {
+          yield key;
+        }
+      }
+    }
+  }
+  if (rule.freq === "DAILY" || rule.freq === "WEEKLY") {
+    const stepDays = rule.freq === "DAILY" ? rule.interval : rule.interval * 7;
+    for (let n = 1; ; n += 1) {
+      yield addDaysToKey(startKey, n * stepDays);
+    }
+  }
+  // Monthly and yearly rules skip periods without that day (31st, Feb 29).
+  const start = parseDateKey(startKey);
+  const stepMonths = rule.freq === "MONTHLY" ? rule.interval : rule.interval * 12;
+  for (let n = 1; ; n += 1) {
+    const monthIndex = start.month - 1 + n * stepMonths;
+    const key = toDateKey({
+      year: start.year + Math.floor(monthIndex / 12),
+      month: (monthIndex % 12) + 1,
+      day: start.day,
+    });
+    if (isValidDateKey(key)) {
+      yield key;
+    }
+  }
+}
+
+function parseIcsDateList(fields: IcsField[] | undefined, tz: string): IcsDateValue[] {
+  const values: IcsDateValue[] = [];
+  for (const field of fields ?? []) {
+    for (const raw of field.value.split(",")) {
+      const parsed = parseIcsDateValue(field.params, raw.trim(), tz);
+      if (parsed) {
+        values.push(parsed);
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse the VEVENTs of an ICS file. All-day events become holidays; timed
+ * events become blackout windows. Floating times use the schedule timezone.
+ * Recurring events (RRULE/RDATE/EXDATE) are expanded; RRULEs outside the
+ * supported subset only block their first occurrence and are reported.
+ */
+export function parseCronIcsEvents(
+  raw: string,
+  tz: string,
+  opts?: { nowMs?: number; onUnsupportedRule?: (summary: string, rule: string) => void },
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: Record<string, IcsField[]> | null = null;
+  for (const line of unfoldIcsLines(raw)) {
+    const trimmed = line.trim();
+    if (trimmed === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (trimmed === "END:VEVENT") {
+      if (current) {
+        events.push(...toCalendarEvents(current, tz, opts));
+      }
+      current = null;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const [name, ...paramParts] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const eq = part.indexOf("=");
+      if (eq > 0) {
+        params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+    }
+    const key = name.toUpperCase();
+    (current[key] ??= []).push({ params, value: line.slice(colon + 1).trim() });
+  }
+  return events;
+}
+
+function toCalendarEvents(
+  fields: Record<string, IcsField[]>,
+  tz: string,
+  opts?: { nowMs?: number; onUnsupportedRule?: (summary: string, rule: string) => void },
+): CalendarEvent[] {
+  const startField = fields.DTSTART?.[0];
+  if (!startField) {
+    return [];
+  }
+  const summary = unescapeIcsText(fields.SUMMARY?.[0]?.value ?? "") || "calendar event";
+  const start = parseIcsDateValue(startField.params, startField.value, tz);
+  const endField = fields.DTEND?.[0];
+  const end = endField ? parseIcsDateValue(endField.params, endField.value, tz) : null;
+
+  let build: (occurrence: IcsDateValue) => CalendarEvent;
+  let occurrenceAt: (key: string) => IcsDateValue;
+  if (start?.kind === "date") {
+    // DTEND is exclusive for all-day events; a missing DTEND means one day.
+    const extraDays =
+      end?.kind === "date" && end.key > start.key
+        ? Math.round((Date.parse(end.key) - Date.parse(start.key)) / DAY_MS) - 1
+        : 0;
+    build = (occurrence) => ({
+      kind: "day",
+      startKey: occurrence.key,
+      endKey: addDaysToKey(occurrence.key, extraDays),
+      summary,
+    });
+    occurrenceAt = (key) => ({ kind: "date", key });
+  } else if (start?.kind === "time" && end?.kind === "time" && end.ms > start.ms) {
+    const durationMs = end.ms - start.ms;
+    build = (occurrence) => {
+      const startMs =
+        occurrence.kind === "time" ? occurrence.ms : startOfDateKeyMs(tz, occurrence.key);
+      return { kind: "window", startMs, endMs: startMs + durationMs, summary };
+    };
+    occurrenceAt = (key) => ({
+      ...start,
+      key,
+      ms: zonedWallTimeToUtcMs(start.zone, {
+        ...parseDateKey(key),
+        hour: start.hour,
+        minute: start.minute,
+        second: start.second,
+      }),
+    });
+  } else {
+    return [];
+  }
+
+  const occurrences: IcsDateValue[] = [start];
+  const rruleValue = fields.RRULE?.[0]?.value;
+  const rule = rruleValue ? parseIcsRecurrenceRule(rruleValue) : null;
+  if (rruleValue && !rule) {
+    opts?.onUnsupportedRule?.(summary, rruleValue);
+  }
+  if (rule) {
+    const occurrenceMs = (occurrence: IcsDateValue) =>
+      occurrence.kind === "time" ? occurrence.ms : startOfDateKeyMs(tz, occurrence.key);
+    const until = rule.until
+      ? parseIcsDateValue({}, rule.until, start.kind === "time" ? start.zone : tz)
+      : null;
+    const untilMs =
+      until?.kind === "date"
+        ? startOfDateKeyMs(tz, addDaysToKey(until.key, 1)) - 1
+        : (until?.ms ?? Number.POSITIVE_INFINITY);
+    const nowMs = opts?.nowMs ?? Date.now();
+    // Occurrences more than a year old cannot block upcoming runs; they still count toward COUNT.
+    const keepFromMs = nowMs - 366 * DAY_MS;
+    const horizonMs = nowMs + ICS_RECURRENCE_HORIZON_MS;
+    let seen = 0;
+    occurrences.length = 0;
+    for (const key of iterateIcsRecurrenceKeys(start.key, rule)) {
+      const occurrence = occurrenceAt(key);
+      const ms = occurrenceMs(occurrence);
+      if (
+        ms > untilMs ||
+        ms > horizonMs ||
+        seen >= (rule.count ?? Number.POSITIVE_INFINITY) ||
+        occurrences.length >= MAX_ICS_OCCURRENCES
+      ) {
+        break;
+      }
+      seen += 1;
+      if (ms >= keepFromMs) {
+        occurrences.push(occurrence);
+      }
+    }
+  }
+  occurrences.push(
+    ...parseIcsDateList(fields.RDATE, tz).filter((value) => value.kind === start.kind),
+  );
+
+  const excluded = parseIcsDateList(fields.EXDATE, tz);
+  const isExcluded = (occurrence: IcsDateValue) =>
+    excluded.some((value) =>
+      value.kind === "time" && occurrence.kind === "time"
+        ? value.ms === occurrence.ms
+        : value.key === occurrence.key,
+    );
+  return occurrences.filter((occurrence) => !isExcluded(occurrence)).map(build);
+}
+
+function loadCalendarEvents(icsFile: string, tz: string): CalendarEvent[] {
+  const filePath = resolveUserPath(icsFile);
+  const cacheKey = `${filePath}\0${tz}`;
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch (err) {
+    throw new Error(`cron calendar file not readable: ${filePath}`, { cause: err });
+  }
+  const cached = calendarFileCache.get(cacheKey);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.events;
+  }
+  const events = parseCronIcsEvents(fs.readFileSync(filePath, "utf-8"), tz, {
+    onUnsupportedRule: (summary, rule) =>
+      log.warn(
+        `unsupported RRULE in ${filePath} ("${summary}": ${rule}); only the first occurrence is blocked`,
+      ),
+  });
+  calendarFileCache.set(cacheKey, { mtimeMs: stat.mtimeMs, size: stat.size, events });
+  return events;
+}
+
+/**
+ * Check a candidate run time against the calendar rules. Returns why the run
+ * is skipped and the earliest time at which runs may resume.
+ */
+export function findCronCalendarSkip(
+  calendar: CronCalendarRules,
+  candidateMs: number,
+  tz: string,
+): { reason: string; resumeAtMs: number } | undefined {
+  const parts = readZonedParts(tz, candidateMs);
+  const dateKey = toDateKey(parts);
+  const nextDayMs = () => startOfDateKeyMs(tz, addDaysToKey(dateKey, 1));
+
+  for (const raw of calendar.excludeDates ?? []) {
+    const range = parseCronExcludeDate(raw);
+    if (range && dateKey >= range.startKey && dateKey <= range.endKey) {
+      return {
+        reason: `excluded date ${dateKey}`,
+        resumeAtMs: startOfDateKeyMs(tz, addDaysToKey(range.endKey, 1)),
+      };
+    }
+  }
+  if (calendar.businessDaysOnly && (parts.weekday === "Sat" || parts.weekday === "Sun")) {
+    return { reason: `weekend (${parts.weekday})`, resumeAtMs: nextDayMs() };
+  }
+  if (calendar.icsFile) {
+    for (const event of loadCalendarEvents(calendar.icsFile, tz)) {
+      if (event.kind === "day" && dateKey >= event.startKey && dateKey <= event.endKey) {
+        return {
+          reason: `holiday: ${event.summary}`,
+          resumeAtMs: startOfDateKeyMs(tz, addDaysToKey(event.endKey, 1)),
+        };
+      }
+      if (event.kind === "window" && candidateMs >= event.startMs && candidateMs < event.endMs) {
+        return { reason: `blackout: ${event.summary}`, resumeAtMs: event.endMs };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Upper bound on skipped slots per lookup, so fully blocked calendars terminate. */
+const MAX_CALENDAR_SKIPS = 1_000;
+
+/**
+ * Step a schedule forward until it lands outside every calendar gap.
+ * `nextFrom` returns the schedule's next slot strictly after the given time.
+ */
+export function skipCronCalendarGaps(params: {
+  calendar: CronCalendarRules;
+  tz: string;
+  firstCandidateMs: number | undefined;
+  nextFrom: (ms: number) => number | undefined;
+}): { nextRunAtMs: number | undefined; skip?: CronCalendarSkip } {
+  let candidate = params.firstCandidateMs;
+  let skip: CronCalendarSkip | undefined;
+  for (let i = 0; i < MAX_CALENDAR_SKIPS && candidate !== undefined; i += 1) {
+    const blocked = findCronCalendarSkip(params.calendar, candidate, params.tz);
+    if (!blocked) {
+      return { nextRunAtMs: candidate, skip };
+    }
+    skip = skip
+      ? { ...skip, skippedRuns: skip.skippedRuns + 1 }
+      : { skippedAtMs: candidate, reason: blocked.reason, skippedRuns: 1 };
+    candidate = params.nextFrom(Math.max(candidate, blocked.resumeAtMs - 1));
+  }
+  return { nextRunAtMs: undefined, skip };
+}
@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  appendCronDeadLetter,
+  readCronDeadLetters,
+  readCronDeadLettersPage,
+  removeCronDeadLetter,
+  resolveCronDeadLetterPath,
+} from "./dead-letters.js";
+import type { CronDeadLetter } from "./types.js";
+
+function makeDeadLetter(jobId: string, ts: number): CronDeadLetter {
+  return {
+    id: `${jobId}:${ts}`,
+    jobId,
+    ts,
+    runAtMs: ts,
+    attempts: 3,
+    error: "overloaded",
+    errorClass: "overloaded",
+  };
+}
+
+describe("cron dead letters", () => {
+  async function withDeadLetterDir(run: (dir: string) => Promise<void>) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-dead-letters-"));
+    try {
+      await run(dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  it("resolves next to the cron store", () => {
+    const storePath = path.join(os.tmpdir(), "cron", "jobs.json");
+    expect(resolveCronDeadLetterPath(storePath)).toBe(
+      path.join(os.tmpdir(), "cron", "dead-letters.json"),
+    );
+  });
+
+  it("appends concurrently, caps entries and pages newest first", async () => {
+    await withDeadLetterDir(async (dir) => {
+      const filePath = path.join(dir, "dead-letters.json");
+      await Promise.all(
+        [1, 2, 3, 4].map((ts) =>
+          appendCronDeadLetter(filePath, makeDeadLetter(ts % 2 ? "a" : "b", ts), {
+            maxEntries: 3,
+          }),
+        ),
+      );
+
+      const all = await readCronDeadLetters(filePath);
+      expect(all.map((entry) => entry.ts)).toEqual([2, 3, 4]);
+
+      const page = await readCronDeadLettersPage(filePath, { jobId: "b", limit: 1 });
+      expect(page.entries.map((entry) => entry.id)).toEqual(["b:4"]);
+      expect(page.total).toBe(2);
+      expect(page.nextOffset).toBe(1);
+    });
+  });
+
+  it("removes entries by id", async () => {
+    await withDeadLetterDir(async (dir) => {
+      const filePath = path.join(dir, "dead-letters.json");
+      await appendCronDeadLetter(filePath, makeDeadLetter("a", 1));
+      expect((await removeCronDeadLetter(filePath, "a:1"))?.jobId).toBe("a");
+      expect(await removeCronDeadLetter(filePath, "a:1")).toBeUndefined();
+      expect(await readCronDeadLetters(filePath)).toEqual([]);
+    });
+  });
+});
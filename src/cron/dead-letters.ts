@@ -0,0 +1,134 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CronDeadLetter } from "./types.js";
+
+export const DEFAULT_CRON_DEAD_LETTER_MAX_ENTRIES = 500;
+
+export type CronDeadLetterPageResult = {
+  entries: CronDeadLetter[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  nextOffset: number | null;
+};
+
+export function resolveCronDeadLetterPath(storePath: string) {
+  return path.join(path.dirname(path.resolve(storePath)), "dead-letters.json");
+}
+
+const writesByPath = new Map<string, Promise<unknown>>();
+
+function isDeadLetter(value: unknown): value is CronDeadLetter {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const entry = value as Partial<CronDeadLetter>;
+  return (
+    typeof entry.id === "string" &&
+    entry.id.trim().length > 0 &&
+    typeof entry.jobId === "string" &&
+    entry.jobId.trim().length > 0 &&
+    typeof entry.ts === "number" &&
+    Number.isFinite(entry.ts) &&
+    typeof entry.attempts === "number" &&
+    typeof entry.errorClass === "string"
+  );
+}
+
+export async function readCronDeadLetters(filePath: string): Promise<CronDeadLetter[]> {
+  const raw = await fs.readFile(path.resolve(filePath), "utf-8").catch(() => "");
+  if (!raw.trim()) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as { entries?: unknown };
+    return Array.isArray(parsed.entries) ? parsed.entries.filter(isDeadLetter) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeCronDeadLetters(filePath: string, entries: CronDeadLetter[]) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.${crypto.randomBytes(8).toString("hex")}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify({ version: 1, entries }, null, 2), "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+/** Serialize read-modify-write cycles per file so concurrent updates do not drop entries. */
+async function updateCronDeadLetters<T>(
+  filePath: string,
+  update: (entries: CronDeadLetter[]) => { entries: CronDeadLetter[]; result: T },
+): Promise<T> {
+  const resolved = path.resolve(filePath);
+  const prev = writesByPath.get(resolved) ?? Promise.resolve();
+  const next = prev
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readCronDeadLetters(resolved);
+      const { entries, result } = update(current);
+      if (entries !== current) {
+        await writeCronDeadLetters(resolved, entries);
+      }
+      return result;
+    });
+  writesByPath.set(resolved, next);
+  try {
+    return await next;
+  } finally {
+    if (writesByPath.get(resolved) === next) {
+      writesByPath.delete(resolved);
+    }
+  }
+}
+
+export async function appendCronDeadLetter(
+  filePath: string,
+  entry: CronDeadLetter,
+  opts?: { maxEntries?: number },
+) {
+  const maxEntries = Math.max(1, opts?.maxEntries ?? DEFAULT_CRON_DEAD_LETTER_MAX_ENTRIES);
+  await updateCronDeadLetters(filePath, (entries) => {
+    const next = [...entries, entry];
+    return { entries: next.slice(Math.max(0, next.length - maxEntries)), result: undefined };
+  });
+}
+
+export async function removeCronDeadLetter(
+  filePath: string,
+  id: string,
+): Promise<CronDeadLetter | undefined> {
+  return await updateCronDeadLetters(filePath, (entries) => {
+    const removed = entries.find((entry) => entry.id === id);
+    if (!removed) {
+      return { entries, result: undefined };
+    }
+    return { entries: entries.filter((entry) => entry !== removed), result: removed };
+  });
+}
+
+export async function readCronDeadLettersPage(
+  filePath: string,
+  opts?: { jobId?: string; limit?: number; offset?: number },
+): Promise<CronDeadLetterPageResult> {
+  const limit = Math.max(1, Math.min(200, Math.floor(opts?.limit ?? 50)));
+  const jobId = opts?.jobId?.trim() || undefined;
+  const all = await readCronDeadLetters(filePath);
+  const sorted = all
+    .filter((entry) => !jobId || entry.jobId === jobId)
+    .toSorted((a, b) => b.ts - a.ts);
+  const total = sorted.length;
+  const offset = Math.max(0, Math.min(total, Math.floor(opts?.offset ?? 0)));
+  const entries = sorted.slice(offset, offset + limit);
+  const nextOffset = offset + entries.length;
+  return {
+    entries,
+    total,
+    offset,
+    limit,
+    hasMore: nextOffset < total,
+    nextOffset: nextOffset < total ? nextOffset : null,
+  };
+}
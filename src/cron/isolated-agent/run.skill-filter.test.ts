@@ -138,6 +138,10 @@ vi.mock("../../infra/outbound/deliver.js", () => ({
   deliverOutboundPayloads: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock("../../infra/usage-budget-warning.js", () => ({
+  trackUsageBudget: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock("../../infra/skills-remote.js", () => ({
   getRemoteSkillEligibility: vi.fn().mockReturnValue({}),
 }));
@@ -39,6 +39,12 @@ import {
 } from "../../config/sessions.js";
 import type { AgentDefaultsConfig } from "../../config/types.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
+import { trackUsageBudget } from "../../infra/usage-budget-warning.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStopMessage,
+  resolveUsageBudgetModel,
+} from "../../infra/usage-budgets.js";
 import { logWarn } from "../../logger.js";
 import { normalizeAgentId } from "../../routing/session-key.js";
 import {
@@ -401,6 +407,19 @@ export async function runCronIsolatedAgentTurn(params: {
   });
   const authProfileIdSource = cronSession.sessionEntry.authProfileOverrideSource;
 
+  const budgetCheck = await checkUsageBudgets({
+    cfg: params.cfg,
+    agentId,
+    channel: resolvedDelivery.channel,
+    accountId: resolvedDelivery.accountId,
+  });
+  const budgetModel = resolveUsageBudgetModel(budgetCheck, { provider, model });
+  if (!budgetModel) {
+    return withRunSession({ status: "skipped", error: formatUsageBudgetStopMessage(budgetCheck) });
+  }
+  provider = budgetModel.provider;
+  model = budgetModel.model;
+
   let runResult: Awaited<ReturnType<typeof runEmbeddedPiAgent>>;
   let fallbackProvider = provider;
   let fallbackModel = model;
@@ -508,6 +527,15 @@ export async function runCronIsolatedAgentTurn(params: {
         setCliSessionId(cronSession.sessionEntry, providerUsed, cliSessionId);
       }
     }
+    await trackUsageBudget({
+      cfg: params.cfg,
+      agentId,
+      channel: resolvedDelivery.channel,
+      accountId: resolvedDelivery.accountId,
+      provider: providerUsed,
+      model: modelUsed,
+      usage,
+    });
     if (hasNonzeroUsage(usage)) {
       const input = usage.input ?? 0;
       const output = usage.output ?? 0;
@@ -188,6 +188,66 @@ describe("normalizeCronJobCreate", () => {
     expect(normalized.deleteAfterRun).toBe(true);
   });
 
+  it("infers follow-up schedules from upstream job ids", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "follow-up",
+      enabled: true,
+      schedule: { after: [" job-a ", "job-b", "job-a"], on: "ERROR", summaryPattern: "  " },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: {
+        kind: "systemEvent",
+        text: "hi",
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.schedule).toEqual({ kind: "after", after: ["job-a", "job-b"], on: "error" });
+  });
+
+  it("trims and dedupes calendar rules", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "calendar",
+      enabled: true,
+      schedule: {
+        kind: "every",
+        everyMs: 60_000,
+        excludeDates: " 2026-12-24..2026-12-31, 2026-12-24..2026-12-31 ,",
+        icsFile: "  ~/holidays.ics ",
+        businessDaysOnly: false,
+      },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: {
+        kind: "systemEvent",
+        text: "hi",
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.schedule).toEqual({
+      kind: "every",
+      everyMs: 60_000,
+      excludeDates: ["2026-12-24..2026-12-31"],
+      icsFile: "~/holidays.ics",
+    });
+  });
+
+  it("coerces retry policy fields", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "retry",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: {
+        kind: "systemEvent",
+        text: "hi",
+      },
+      retry: { maxAttempts: "4", backoffBaseMs: -1, retryOn: ["Rate_Limit", "timeout", "timeout"] },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.retry).toEqual({ maxAttempts: 4, retryOn: ["rate-limit", "timeout"] });
+  });
+
   it("normalizes delivery mode and channel", () => {
     const normalized = normalizeCronJobCreate({
       name: "delivery",
@@ -24,7 +24,10 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,6 +53,33 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (Array.isArray(schedule.after) || typeof schedule.after === "string") {
+      next.kind = "after";
+    }
+  }
+
+  if (next.kind === "after") {
+    const afterRaw = typeof schedule.after === "string" ? [schedule.after] : schedule.after;
+    if (Array.isArray(afterRaw)) {
+      next.after = Array.from(
+        new Set(
+          afterRaw
+            .filter((id): id is string => typeof id === "string")
+            .map((id) => id.trim())
+            .filter(Boolean),
+        ),
+      );
+    }
+    if (typeof schedule.on === "string") {
+      next.on = schedule.on.trim().toLowerCase();
+    }
+    if (typeof schedule.summaryPattern === "string") {
+      const pattern = schedule.summaryPattern.trim();
+      if (pattern) {
+        next.summaryPattern = pattern;
+      } else {
+        delete next.summaryPattern;
+      }
     }
   }
 
@@ -62,6 +92,10 @@ function coerceSchedule(schedule: UnknownRecord) {
     delete next.atMs;
   }
 
+  if (next.kind === "every" || next.kind === "cron") {
+    coerceCalendarRules(schedule, next);
+  }
+
   const staggerMs = normalizeCronStaggerMs(schedule.staggerMs);
   if (staggerMs !== undefined) {
     next.staggerMs = staggerMs;
@@ -72,6 +106,39 @@ function coerceSchedule(schedule: UnknownRecord) {
   return next;
 }
 
+function coerceCalendarRules(schedule: UnknownRecord, next: UnknownRecord) {
+  const excludeRaw =
+    typeof schedule.excludeDates === "string"
+      ? schedule.excludeDates.split(",")
+      : schedule.excludeDates;
+  if (Array.isArray(excludeRaw)) {
+    const dates = Array.from(
+      new Set(
+        excludeRaw
+          .filter((date): date is string => typeof date === "string")
+          .map((date) => date.trim())
+          .filter(Boolean),
+      ),
+    );
+    if (dates.length > 0) {
+      next.excludeDates = dates;
+    } else {
+      delete next.excludeDates;
+    }
+  }
+  if (typeof schedule.icsFile === "string") {
+    const icsFile = schedule.icsFile.trim();
+    if (icsFile) {
+      next.icsFile = icsFile;
+    } else {
+      delete next.icsFile;
+    }
+  }
+  if (schedule.businessDaysOnly === false) {
+    delete next.businessDaysOnly;
+  }
+}
+
 function coercePayload(payload: UnknownRecord) {
   const next: UnknownRecord = { ...payload };
   // Back-compat: older configs used `provider` for delivery channel.
@@ -186,6 +253,33 @@ function coerceDelivery(delivery: UnknownRecord) {
   return next;
 }
 
+function coerceRetry(retry: UnknownRecord) {
+  const next: UnknownRecord = { ...retry };
+  for (const key of ["maxAttempts", "backoffBaseMs", "backoffCapMs"] as const) {
+    const raw = retry[key];
+    const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      next[key] = Math.floor(value);
+    } else {
+      delete next[key];
+    }
+  }
+  if (Array.isArray(retry.retryOn)) {
+    const classes = retry.retryOn
+      .filter((entry): entry is string => typeof entry === "string")
+      .map((entry) => entry.trim().toLowerCase().replace(/_/g, "-"))
+      .filter(Boolean);
+    if (classes.length > 0) {
+      next.retryOn = Array.from(new Set(classes));
+    } else {
+      delete next.retryOn;
+    }
+  } else if ("retryOn" in next) {
+    delete next.retryOn;
+  }
+  return next;
+}
+
 function unwrapJob(raw: UnknownRecord) {
   if (isRecord(raw.data)) {
     return raw.data;
@@ -378,6 +472,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.retry)) {
+    next.retry = coerceRetry(base.retry);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
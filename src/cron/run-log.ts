@@ -2,7 +2,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { parseByteSize } from "../cli/parse-bytes.js";
 import type { CronConfig } from "../config/types.cron.js";
-import type { CronDeliveryStatus, CronRunStatus, CronRunTelemetry } from "./types.js";
+import type { CronDeliveryStatus, CronRunRetry, CronRunStatus, CronRunTelemetry } from "./types.js";
 
 export type CronRunLogEntry = {
   ts: number;
@@ -19,6 +19,12 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  /** Chain run id shared by every step of a job chain run. */
+  chainRunId?: string;
+  /** Upstream job that triggered this run (chained follow-ups only). */
+  triggeredBy?: string;
+  /** Retry outcome of a failed run (jobs with a retry policy only). */
+  retry?: CronRunRetry;
 } & CronRunTelemetry;
 
 export type CronRunLogSortDir = "asc" | "desc";
@@ -34,6 +40,7 @@ export type ReadCronRunLogPageOptions = {
   deliveryStatuses?: CronDeliveryStatus[];
   query?: string;
   sortDir?: CronRunLogSortDir;
+  chainRunId?: string;
 };
 
 export type CronRunLogPageResult = {
@@ -296,6 +303,20 @@ function parseAllRunLogEntries(raw: string, opts?: { jobId?: string }): CronRunL
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      if (typeof obj.chainRunId === "string" && obj.chainRunId.trim().length > 0) {
+        entry.chainRunId = obj.chainRunId;
+      }
+      if (typeof obj.triggeredBy === "string" && obj.triggeredBy.trim().length > 0) {
+        entry.triggeredBy = obj.triggeredBy;
+      }
+      if (
+        obj.retry &&
+        typeof obj.retry === "object" &&
+        typeof obj.retry.attempt === "number" &&
+        typeof obj.retry.errorClass === "string"
+      ) {
+        entry.retry = obj.retry;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
@@ -309,11 +330,16 @@ function filterRunLogEntries(
   opts: {
     statuses: CronRunStatus[] | null;
     deliveryStatuses: CronDeliveryStatus[] | null;
+    chainRunId?: string;
     query: string;
     queryTextForEntry: (entry: CronRunLogEntry) => string;
   },
 ): CronRunLogEntry[] {
+  const chainRunId = opts.chainRunId?.trim() || undefined;
   return entries.filter((entry) => {
+    if (chainRunId && entry.chainRunId !== chainRunId) {
+      return false;
+    }
     if (opts.statuses && (!entry.status || !opts.statuses.includes(entry.status))) {
       return false;
     }
@@ -344,6 +370,7 @@ export async function readCronRunLogEntriesPage(
   const filtered = filterRunLogEntries(all, {
     statuses,
     deliveryStatuses,
+    chainRunId: opts?.chainRunId,
     query,
     queryTextForEntry: (entry) => [entry.summary ?? "", entry.error ?? "", entry.jobId].join(" "),
   });
@@ -398,6 +425,7 @@ export async function readCronRunLogEntriesPageAll(
   const filtered = filterRunLogEntries(all, {
     statuses,
     deliveryStatuses,
+    chainRunId: opts.chainRunId,
     query,
     queryTextForEntry: (entry) => {
       const jobName = opts.jobNameById?.[entry.jobId] ?? "";
@@ -429,3 +457,20 @@ export async function readCronRunLogEntriesPageAll(
     nextOffset: nextOffset < total ? nextOffset : null,
   };
 }
+
+/**
+ * Pick the step a failed chain run should resume from: among the latest run
+ * of each job in the chain, the earliest one that errored.
+ */
+export function findFailedCronChainStep(entries: CronRunLogEntry[]): CronRunLogEntry | undefined {
+  const latestByJob = new Map<string, CronRunLogEntry>();
+  for (const entry of entries) {
+    const existing = latestByJob.get(entry.jobId);
+    if (!existing || entry.ts >= existing.ts) {
+      latestByJob.set(entry.jobId, entry);
+    }
+  }
+  return Array.from(latestByJob.values())
+    .filter((entry) => entry.status === "error")
+    .toSorted((a, b) => a.ts - b.ts)[0];
+}
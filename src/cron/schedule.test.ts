@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { computeNextRunAtMs } from "./schedule.js";
+import { computeNextRunAtMs, computeNextRunWithCalendar } from "./schedule.js";
 
 describe("cron schedule", () => {
   it("computes next run for cron expression with timezone", () => {
@@ -13,6 +13,30 @@ describe("cron schedule", () => {
     expect(next).toBe(Date.parse("2025-12-17T17:00:00.000Z"));
   });
 
+  it("steps cron runs over weekends and excluded dates in the schedule timezone", () => {
+    // Friday, Dec 4 2026 18:00 in Tokyo (09:00Z), after that day's 09:00 slot.
+    const nowMs = Date.parse("2026-12-04T09:00:00.000Z");
+    const result = computeNextRunWithCalendar(
+      {
+        kind: "cron",
+        expr: "0 9 * * *",
+        tz: "Asia/Tokyo",
+        businessDaysOnly: true,
+        excludeDates: ["2026-12-07"],
+      },
+      nowMs,
+    );
+    // Sat, Sun and the excluded Monday are skipped -> Tuesday 09:00 JST.
+    expect(result).toEqual({
+      nextRunAtMs: Date.parse("2026-12-08T00:00:00.000Z"),
+      calendarSkip: {
+        skippedAtMs: Date.parse("2026-12-05T00:00:00.000Z"),
+        reason: "weekend (Sat)",
+        skippedRuns: 3,
+      },
+    });
+  });
+
   it("throws a clear error when cron expr is missing at runtime", () => {
     const nowMs = Date.parse("2025-12-13T00:00:00.000Z");
     expect(() =>
@@ -1,6 +1,7 @@
 import { Cron } from "croner";
+import { resolveScheduleCalendar, skipCronCalendarGaps } from "./calendar.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
-import type { CronSchedule } from "./types.js";
+import type { CronCalendarSkip, CronSchedule } from "./types.js";
 
 function resolveCronTimezone(tz?: string) {
   const trimmed = typeof tz === "string" ? tz.trim() : "";
@@ -41,6 +42,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after") {
+    // Follow-up jobs have no clock of their own; upstream runs trigger them.
+    return undefined;
+  }
+
   const exprSource = (schedule as { expr?: unknown }).expr;
   if (typeof exprSource !== "string") {
     throw new Error("invalid cron schedule: expr is required");
@@ -75,3 +81,34 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
   const retryMs = retry.getTime();
   return Number.isFinite(retryMs) && retryMs > nowMs ? retryMs : undefined;
 }
+
+/**
+ * Like `computeNextRunAtMs`, but also reports the calendar gap (excluded date,
+ * weekend, holiday, blackout) that pushed the run past earlier slots.
+ */
+export function computeNextRunWithCalendar(
+  schedule: CronSchedule,
+  nowMs: number,
+): { nextRunAtMs: number | undefined; calendarSkip?: CronCalendarSkip } {
+  return applyScheduleCalendar(schedule, computeNextRunAtMs(schedule, nowMs), (cursorMs) =>
+    computeNextRunAtMs(schedule, cursorMs),
+  );
+}
+
+/**
+ * Step a candidate run time past the schedule's calendar gaps. `nextFrom`
+ * returns the next raw slot strictly after the given time.
+ */
+export function applyScheduleCalendar(
+  schedule: CronSchedule,
+  candidateMs: number | undefined,
+  nextFrom: (cursorMs: number) => number | undefined,
+): { nextRunAtMs: number | undefined; calendarSkip?: CronCalendarSkip } {
+  const calendar = resolveScheduleCalendar(schedule);
+  if (!calendar || candidateMs === undefined) {
+    return { nextRunAtMs: candidateMs };
+  }
+  const tz = resolveCronTimezone(schedule.kind === "cron" ? schedule.tz : undefined);
+  const result = skipCronCalendarGaps({ calendar, tz, firstCandidateMs: candidateMs, nextFrom });
+  return { nextRunAtMs: result.nextRunAtMs, calendarSkip: result.skip };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from "vitest";
+import { findFailedCronChainStep } from "./run-log.js";
+import type { CronService } from "./service.js";
+import { setupCronServiceSuite, withCronServiceForTest } from "./service.test-harness.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-chains-" });
+
+async function addMainJob(cron: CronService, name: string) {
+  return cron.add({
+    name,
+    enabled: true,
+    schedule: { kind: "every", everyMs: 3_600_000 },
+    sessionTarget: "main",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "systemEvent", text: name },
+  });
+}
+
+async function addFollowUp(
+  cron: CronService,
+  name: string,
+  schedule: { after: string[]; on?: "ok" | "error" | "skipped" | "any"; summaryPattern?: string },
+) {
+  return cron.add({
+    name,
+    enabled: true,
+    schedule: { kind: "after", ...schedule },
+    sessionTarget: "main",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "systemEvent", text: name },
+  });
+}
+
+describe("CronService job chains", () => {
+  it("queues a follow-up job when the upstream run matches", async () => {
+    await withCronServiceForTest(
+      { makeStorePath, logger, cronEnabled: true },
+      async ({ cron, enqueueSystemEvent }) => {
+        const upstream = await addMainJob(cron, "fetch");
+        const follow = await addFollowUp(cron, "report", { after: [upstream.id] });
+        expect(follow.state.nextRunAtMs).toBeUndefined();
+
+        await cron.run(upstream.id, "force");
+        const queued = cron.getJob(follow.id);
+        expect(queued?.state.pendingChain?.triggeredBy).toBe(upstream.id);
+        expect(queued?.state.nextRunAtMs).toBe(Date.now());
+
+        await vi.runOnlyPendingTimersAsync();
+        await vi.waitFor(() => {
+          expect(cron.getJob(follow.id)?.state.lastStatus).toBe("ok");
+        });
+        const finished = cron.getJob(follow.id);
+        expect(enqueueSystemEvent).toHaveBeenCalledWith("report", expect.anything());
+        expect(finished?.state.pendingChain).toBeUndefined();
+        expect(finished?.state.lastChain).toEqual({
+          chainRunId: queued?.state.pendingChain?.chainRunId,
+          triggeredBy: upstream.id,
+        });
+        expect(finished?.state.nextRunAtMs).toBeUndefined();
+      },
+    );
+  });
+
+  it("skips follow-ups whose condition or summary pattern does not match", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      const upstream = await addMainJob(cron, "fetch");
+      const onError = await addFollowUp(cron, "alert", { after: [upstream.id], on: "error" });
+      const onPattern = await addFollowUp(cron, "digest", {
+        after: [upstream.id],
+        on: "any",
+        summaryPattern: "^never$",
+      });
+
+      await cron.run(upstream.id, "force");
+      expect(cron.getJob(onError.id)?.state.pendingChain).toBeUndefined();
+      expect(cron.getJob(onPattern.id)?.state.pendingChain).toBeUndefined();
+    });
+  });
+
+  it("rejects unknown upstream jobs and dependency cycles", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      await expect(addFollowUp(cron, "orphan", { after: ["missing"] })).rejects.toThrow(
+        /unknown upstream/,
+      );
+
+      const first = await addMainJob(cron, "first");
+      const second = await addFollowUp(cron, "second", { after: [first.id] });
+      await expect(
+        cron.update(first.id, { schedule: { kind: "after", after: [second.id] } }),
+      ).rejects.toThrow(/cycle/);
+    });
+  });
+
+  it("refuses to remove an upstream job while follow-ups depend on it", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      const upstream = await addMainJob(cron, "fetch");
+      const follow = await addFollowUp(cron, "report", { after: [upstream.id] });
+
+      await expect(cron.remove(upstream.id)).rejects.toThrow(/follow-up jobs/);
+      expect(cron.getJob(upstream.id)).toBeDefined();
+
+      await expect(cron.remove(follow.id)).resolves.toEqual({ ok: true, removed: true });
+      await expect(cron.remove(upstream.id)).resolves.toEqual({ ok: true, removed: true });
+    });
+  });
+
+  it("returns the connected chain graph for a job", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      const upstream = await addMainJob(cron, "fetch");
+      const follow = await addFollowUp(cron, "report", { after: [upstream.id], on: "any" });
+      await addMainJob(cron, "unrelated");
+
+      const graph = await cron.chainGraph(follow.id);
+      expect(graph.nodes.map((node) => node.id).toSorted()).toEqual(
+        [upstream.id, follow.id].toSorted(),
+      );
+      expect(graph.edges).toEqual([
+        { from: upstream.id, to: follow.id, on: "any", summaryPattern: undefined },
+      ]);
+    });
+  });
+});
+
+describe("findFailedCronChainStep", () => {
+  it("returns the earliest step whose latest run failed", () => {
+    const entries = [
+      { ts: 1, jobId: "a", action: "finished" as const, status: "ok" as const, runAtMs: 1 },
+      { ts: 2, jobId: "b", action: "finished" as const, status: "error" as const, runAtMs: 2 },
+      { ts: 3, jobId: "c", action: "finished" as const, status: "error" as const, runAtMs: 3 },
+      { ts: 4, jobId: "b", action: "finished" as const, status: "ok" as const, runAtMs: 4 },
+    ];
+    expect(findFailedCronChainStep(entries)?.jobId).toBe("c");
+    expect(findFailedCronChainStep(entries.slice(0, 2))?.jobId).toBe("b");
+    expect(findFailedCronChainStep([entries[0]])).toBeUndefined();
+  });
+});
@@ -333,3 +333,37 @@ describe("cron stagger defaults", () => {
     }
   });
 });
+
+describe("cron calendar rules", () => {
+  it("records the calendar skip behind a staggered next run", () => {
+    // Saturday, Dec 5 2026 10:30Z.
+    const now = Date.parse("2026-12-05T10:30:00.000Z");
+    const job = createJob(createMockState(now), {
+      name: "weekday-hourly",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 * * * *", tz: "UTC", businessDaysOnly: true },
+      sessionTarget: "main",
+      wakeMode: "now",
+      payload: { kind: "systemEvent", text: "tick" },
+    });
+
+    const mondayMs = Date.parse("2026-12-07T00:00:00.000Z");
+    expect(job.state.nextRunAtMs).toBeGreaterThanOrEqual(mondayMs);
+    expect(job.state.nextRunAtMs).toBeLessThan(mondayMs + DEFAULT_TOP_OF_HOUR_STAGGER_MS);
+    expect(job.state.calendarSkip).toMatchObject({ reason: "weekend (Sat)" });
+  });
+
+  it("rejects malformed excluded dates", () => {
+    const now = Date.parse("2026-12-05T10:30:00.000Z");
+    expect(() =>
+      createJob(createMockState(now), {
+        name: "bad-dates",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 60_000, excludeDates: ["12/25/2026"] },
+        sessionTarget: "main",
+        wakeMode: "now",
+        payload: { kind: "systemEvent", text: "tick" },
+      }),
+    ).toThrow("invalid cron excludeDates entry");
+  });
+});
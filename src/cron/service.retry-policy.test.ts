@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import { setupCronServiceSuite, withCronServiceForTest } from "./service.test-harness.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-retry-" });
+
+describe("CronService retry policy", () => {
+  it("retries a failing isolated run with backoff, then dead-letters it", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({
+      status: "error" as const,
+      error: "503 Service Unavailable",
+    }));
+    await withCronServiceForTest(
+      { makeStorePath, logger, cronEnabled: false, runIsolatedAgentJob },
+      async ({ cron }) => {
+        const job = await cron.add({
+          name: "flaky report",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "isolated",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "agentTurn", message: "report" },
+          delivery: { mode: "none" },
+          retry: { maxAttempts: 2, backoffBaseMs: 10_000 },
+        });
+
+        await cron.run(job.id, "force");
+        const afterFirst = cron.getJob(job.id);
+        expect(afterFirst?.state.lastRetry).toEqual({
+          attempt: 1,
+          errorClass: "overloaded",
+          retryAtMs: Date.now() + 10_000,
+        });
+        expect(afterFirst?.state.nextRunAtMs).toBe(Date.now() + 10_000);
+
+        await cron.run(job.id, "force");
+        const afterSecond = cron.getJob(job.id);
+        expect(afterSecond?.state.lastRetry).toEqual({
+          attempt: 2,
+          errorClass: "overloaded",
+          deadLettered: true,
+        });
+        expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2);
+      },
+    );
+  });
+
+  it("does not retry errors outside retryOn", async () => {
+    await withCronServiceForTest(
+      {
+        makeStorePath,
+        logger,
+        cronEnabled: false,
+        runIsolatedAgentJob: vi.fn(async () => ({ status: "error" as const, error: "boom" })),
+      },
+      async ({ cron }) => {
+        const job = await cron.add({
+          name: "strict",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "isolated",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "agentTurn", message: "report" },
+          delivery: { mode: "none" },
+          retry: { maxAttempts: 5, retryOn: ["timeout"] },
+        });
+
+        await cron.run(job.id, "force");
+        expect(cron.getJob(job.id)?.state.lastRetry).toEqual({
+          attempt: 1,
+          errorClass: "other",
+          deadLettered: true,
+        });
+      },
+    );
+  });
+
+  it("clears the retry policy when patched with null", async () => {
+    await withCronServiceForTest(
+      { makeStorePath, logger, cronEnabled: false },
+      async ({ cron }) => {
+        const job = await cron.add({
+          name: "patched",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "main",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "systemEvent", text: "tick" },
+          retry: { maxAttempts: 2 },
+        });
+        const updated = await cron.update(job.id, { retry: null });
+        expect(updated.retry).toBeUndefined();
+      },
+    );
+  });
+});
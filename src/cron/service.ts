@@ -42,8 +42,12 @@ export class CronService {
     return await ops.remove(this.state, id);
   }
 
-  async run(id: string, mode?: "due" | "force") {
-    return await ops.run(this.state, id, mode);
+  async run(id: string, mode?: "due" | "force", opts?: ops.CronRunOptions) {
+    return await ops.run(this.state, id, mode, opts);
+  }
+
+  async chainGraph(jobId?: string) {
+    return await ops.chainGraph(this.state, jobId);
   }
 
   getJob(id: string): CronJob | undefined {
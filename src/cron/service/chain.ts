@@ -0,0 +1,227 @@
+import type {
+  CronChainCondition,
+  CronChainGraph,
+  CronChainGraphEdge,
+  CronJob,
+  CronRunChain,
+  CronRunStatus,
+  CronSchedule,
+} from "../types.js";
+import type { CronServiceState } from "./state.js";
+
+type CronAfterSchedule = Extract<CronSchedule, { kind: "after" }>;
+
+const DEFAULT_CHAIN_CONDITION: CronChainCondition = "ok";
+
+function resolveAfterSchedule(job: Pick<CronJob, "schedule">): CronAfterSchedule | undefined {
+  return job.schedule.kind === "after" ? job.schedule : undefined;
+}
+
+export function resolveChainUpstreamIds(job: Pick<CronJob, "schedule">): string[] {
+  const schedule = resolveAfterSchedule(job);
+  if (!schedule || !Array.isArray(schedule.after)) {
+    return [];
+  }
+  return schedule.after.filter((id) => typeof id === "string" && id.trim().length > 0);
+}
+
+export function listDependentJobs(jobs: CronJob[], upstreamJobId: string): CronJob[] {
+  return jobs.filter((job) => resolveChainUpstreamIds(job).includes(upstreamJobId));
+}
+
+function compileSummaryPattern(pattern: string): RegExp {
+  return new RegExp(pattern, "i");
+}
+
+export function matchesChainTrigger(
+  job: Pick<CronJob, "schedule">,
+  outcome: { status: CronRunStatus; summary?: string },
+): boolean {
+  const schedule = resolveAfterSchedule(job);
+  if (!schedule) {
+    return false;
+  }
+  const condition = schedule.on ?? DEFAULT_CHAIN_CONDITION;
+  if (condition !== "any" && condition !== outcome.status) {
+    return false;
+  }
+  const pattern = schedule.summaryPattern?.trim();
+  if (!pattern) {
+    return true;
+  }
+  try {
+    return compileSummaryPattern(pattern).test(outcome.summary ?? "");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the upstream ids of a follow-up job against the current store.
+ * Rejects unknown upstream jobs, self references and dependency cycles.
+ */
+export function assertValidChainSchedule(state: CronServiceState, job: CronJob) {
+  const schedule = resolveAfterSchedule(job);
+  if (!schedule) {
+    return;
+  }
+  const upstreamIds = resolveChainUpstreamIds(job);
+  if (upstreamIds.length === 0) {
+    throw new Error('cron schedule.kind="after" requires at least one upstream job id');
+  }
+  const pattern = schedule.summaryPattern?.trim();
+  if (pattern) {
+    try {
+      compileSummaryPattern(pattern);
+    } catch (err) {
+      throw new Error(`invalid cron schedule.summaryPattern: ${String(err)}`, { cause: err });
+    }
+  }
+  const jobs = state.store?.jobs ?? [];
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  byId.set(job.id, job);
+  for (const upstreamId of upstreamIds) {
+    if (upstreamId === job.id) {
+      throw new Error("cron job cannot run after itself");
+    }
+    if (!byId.has(upstreamId)) {
+      throw new Error(`unknown upstream cron job id: ${upstreamId}`);
+    }
+  }
+
+  // Walk upstream from the job; reaching the job again means a cycle.
+  const seen = new Set<string>();
+  const stack = [...upstreamIds];
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (current === job.id) {
+      throw new Error(`cron chain cycle detected via job ${job.id}`);
+    }
+    if (seen.has(current)) {
+      continue;
+    }
+    seen.add(current);
+    const upstream = byId.get(current);
+    if (upstream) {
+      stack.push(...resolveChainUpstreamIds(upstream));
+    }
+  }
+}
+
+/**
+ * Resolve the chain membership of a run that is about to be recorded.
+ * Follow-up steps inherit the chain run id of their trigger; jobs with
+ * dependents start a new chain run rooted at themselves.
+ */
+export function resolveRunChain(
+  state: CronServiceState,
+  job: CronJob,
+  startedAt: number,
+): CronRunChain | undefined {
+  const pending = job.state.pendingChain;
+  if (pending?.chainRunId) {
+    return {
+      chainRunId: pending.chainRunId,
+      triggeredBy: pending.triggeredBy,
+    };
+  }
+  if (listDependentJobs(state.store?.jobs ?? [], job.id).length === 0) {
+    return undefined;
+  }
+  return { chainRunId: `${job.id}:${startedAt}` };
+}
+
+/**
+ * Queue follow-up jobs whose trigger matches the finished upstream run.
+ * Returns the ids of the jobs that were queued.
+ */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  job: CronJob,
+  outcome: { status: CronRunStatus; summary?: string },
+  chain: CronRunChain | undefined,
+  nowMs: number,
+): string[] {
+  if (!chain || !state.store) {
+    return [];
+  }
+  if (job.state.lastRetry?.retryAtMs !== undefined) {
+    // The run has another attempt scheduled; follow-ups wait until it settles.
+    return [];
+  }
+  const triggered: string[] = [];
+  for (const dependent of listDependentJobs(state.store.jobs, job.id)) {
+    if (!dependent.enabled || !matchesChainTrigger(dependent, outcome)) {
+      continue;
+    }
+    dependent.state.pendingChain = {
+      chainRunId: chain.chainRunId,
+      triggeredBy: job.id,
+      triggeredAtMs: nowMs,
+    };
+    dependent.state.nextRunAtMs = nowMs;
+    triggered.push(dependent.id);
+  }
+  if (triggered.length > 0) {
+    state.deps.log.info(
+      { jobId: job.id, chainRunId: chain.chainRunId, triggered },
+      "cron: queued chained follow-up jobs",
+    );
+  }
+  return triggered;
+}
+
+/**
+ * Build the dependency graph for all chains, or only the chain that
+ * contains `jobId` when given.
+ */
+export function buildCronChainGraph(jobs: CronJob[], jobId?: string): CronChainGraph {
+  const edges: CronChainGraphEdge[] = [];
+  for (const job of jobs) {
+    const schedule = resolveAfterSchedule(job);
+    if (!schedule) {
+      continue;
+    }
+    for (const upstreamId of resolveChainUpstreamIds(job)) {
+      edges.push({
+        from: upstreamId,
+        to: job.id,
+        on: schedule.on ?? DEFAULT_CHAIN_CONDITION,
+        summaryPattern: schedule.summaryPattern,
+      });
+    }
+  }
+
+  let memberIds: Set<string>;
+  if (jobId) {
+    memberIds = new Set([jobId]);
+    const stack = [jobId];
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      for (const edge of edges) {
+        const neighbour =
+          edge.from === current ? edge.to : edge.to === current ? edge.from : undefined;
+        if (neighbour && !memberIds.has(neighbour)) {
+          memberIds.add(neighbour);
+          stack.push(neighbour);
+        }
+      }
+    }
+  } else {
+    memberIds = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+  }
+
+  const nodes = jobs
+    .filter((job) => memberIds.has(job.id))
+    .map((job) => ({
+      id: job.id,
+      name: job.name,
+      enabled: job.enabled,
+      lastStatus: job.state.lastStatus,
+      lastChainRunId: job.state.lastChain?.chainRunId,
+    }));
+  return {
+    nodes,
+    edges: edges.filter((edge) => memberIds.has(edge.from) && memberIds.has(edge.to)),
+  };
+}
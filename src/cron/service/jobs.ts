@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
+import { assertValidCronCalendar } from "../calendar.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
-import { computeNextRunAtMs } from "../schedule.js";
+import { applyScheduleCalendar, computeNextRunAtMs } from "../schedule.js";
 import {
   normalizeCronStaggerMs,
   resolveCronStaggerMs,
@@ -16,6 +17,7 @@ import type {
   CronPayloadPatch,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
+import { assertValidChainSchedule } from "./chain.js";
 import {
   normalizeOptionalAgentId,
   normalizeOptionalSessionKey,
@@ -131,7 +133,23 @@ export function findJobOrThrow(state: CronServiceState, id: string) {
   return job;
 }
 
+/**
+ * Next run time of a job, stepping over calendar gaps (excluded dates,
+ * weekends, holidays, blackouts). Records the latest gap in `state.calendarSkip`.
+ */
 export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | undefined {
+  const slot = computeJobSlotAtMs(job, nowMs);
+  if (!job.enabled || (job.schedule.kind !== "every" && job.schedule.kind !== "cron")) {
+    return slot;
+  }
+  const { nextRunAtMs, calendarSkip } = applyScheduleCalendar(job.schedule, slot, (cursorMs) =>
+    computeJobSlotAtMs(job, cursorMs),
+  );
+  job.state.calendarSkip = calendarSkip;
+  return nextRunAtMs;
+}
+
+function computeJobSlotAtMs(job: CronJob, nowMs: number): number | undefined {
   if (!job.enabled) {
     return undefined;
   }
@@ -150,6 +168,10 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
     });
     return computeNextRunAtMs({ ...job.schedule, everyMs, anchorMs }, nowMs);
   }
+  if (job.schedule.kind === "after") {
+    // Follow-up jobs are only due while an upstream trigger is pending.
+    return job.state.pendingChain?.triggeredAtMs;
+  }
   if (job.schedule.kind === "at") {
     // One-shot jobs stay due until they successfully finish.
     if (job.state.lastStatus === "ok" && job.state.lastRunAtMs) {
@@ -388,12 +410,15 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidChainSchedule(state, job);
+  assertValidCronCalendar(job.schedule);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -452,6 +477,12 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (patch.delivery) {
     job.delivery = mergeCronDelivery(job.delivery, patch.delivery);
   }
+  if ("retry" in patch) {
+    job.retry = patch.retry ?? undefined;
+    if (!job.retry) {
+      job.state.lastRetry = undefined;
+    }
+  }
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
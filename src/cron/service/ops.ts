@@ -1,4 +1,11 @@
+import { assertValidCronCalendar } from "../calendar.js";
 import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
+import {
+  assertValidChainSchedule,
+  buildCronChainGraph,
+  listDependentJobs,
+  triggerDependentJobs,
+} from "./chain.js";
 import {
   applyJobPatch,
   computeJobNextRunAtMs,
@@ -53,10 +60,19 @@ function mergeManualRunSnapshotAfterReload(params: {
     state: CronJob["state"];
   } | null;
   removed: boolean;
+  /** Chained follow-up triggers queued by the run, keyed by job id. */
+  triggered?: Map<string, Pick<CronJob["state"], "pendingChain" | "nextRunAtMs">>;
 }) {
   if (!params.state.store) {
     return;
   }
+  for (const [triggeredId, triggeredState] of params.triggered ?? []) {
+    const dependent = params.state.store.jobs.find((job) => job.id === triggeredId);
+    if (dependent) {
+      dependent.state.pendingChain = triggeredState.pendingChain;
+      dependent.state.nextRunAtMs = triggeredState.nextRunAtMs;
+    }
+  }
   if (params.removed) {
     params.state.store.jobs = params.state.store.jobs.filter((job) => job.id !== params.jobId);
     return;
@@ -267,6 +283,8 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
     applyJobPatch(job, patch);
+    assertValidChainSchedule(state, job);
+    assertValidCronCalendar(job.schedule);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
       if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
@@ -322,6 +340,13 @@ export async function remove(state: CronServiceState, id: string) {
     if (!state.store) {
       return { ok: false, removed: false } as const;
     }
+    // Follow-up jobs would keep pointing at the removed upstream and never fire.
+    const dependents = listDependentJobs(state.store.jobs, id).filter((j) => j.id !== id);
+    if (dependents.length > 0) {
+      throw new Error(
+        `cron job ${id} has follow-up jobs (${dependents.map((j) => j.id).join(", ")}); remove them or change their schedule.after first`,
+      );
+    }
     state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
     const removed = (state.store.jobs.length ?? 0) !== before;
     await persist(state);
@@ -333,7 +358,17 @@ export async function remove(state: CronServiceState, id: string) {
   });
 }
 
-export async function run(state: CronServiceState, id: string, mode?: "due" | "force") {
+export type CronRunOptions = {
+  /** Re-run the job as a step of an existing chain run (chain replay). */
+  chainRunId?: string;
+};
+
+export async function run(
+  state: CronServiceState,
+  id: string,
+  mode?: "due" | "force",
+  opts?: CronRunOptions,
+) {
   const prepared = await locked(state, async () => {
     warnIfDisabled(state, "run");
     await ensureLoaded(state, { skipRecompute: true });
@@ -347,6 +382,10 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       return { ok: true, ran: false, reason: "not-due" as const };
     }
 
+    if (opts?.chainRunId) {
+      job.state.pendingChain = { chainRunId: opts.chainRunId, triggeredAtMs: now };
+    }
+
     // Reserve this run under lock, then execute outside lock so read ops
     // (`list`, `status`) stay responsive while the run is in progress.
     job.state.runningAtMs = now;
@@ -393,10 +432,13 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
     const shouldDelete = applyJobResult(state, job, {
       status: coreResult.status,
       error: coreResult.error,
+      errorKind: coreResult.errorKind,
+      summary: coreResult.summary,
       delivered: coreResult.delivered,
       startedAt,
       endedAt,
     });
+    const triggeredIds = triggerDependentJobs(state, job, coreResult, job.state.lastChain, endedAt);
 
     emit(state, {
       jobId: job.id,
@@ -415,6 +457,9 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       model: coreResult.model,
       provider: coreResult.provider,
       usage: coreResult.usage,
+      chainRunId: job.state.lastChain?.chainRunId,
+      triggeredBy: job.state.lastChain?.triggeredBy,
+      retry: coreResult.status === "error" ? job.state.lastRetry : undefined,
     });
 
     if (shouldDelete && state.store) {
@@ -433,6 +478,14 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
           state: structuredClone(job.state),
         };
     const postRunRemoved = shouldDelete;
+    const triggered = new Map(
+      (state.store?.jobs ?? [])
+        .filter((entry) => triggeredIds.includes(entry.id))
+        .map((entry) => [
+          entry.id,
+          { pendingChain: entry.state.pendingChain, nextRunAtMs: entry.state.nextRunAtMs },
+        ]),
+    );
     // Isolated Telegram send can persist target writeback directly to disk.
     // Reload before final persist so manual `cron run` keeps those changes.
     await ensureLoaded(state, { forceReload: true, skipRecompute: true });
@@ -441,6 +494,7 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       jobId,
       snapshot: postRunSnapshot,
       removed: postRunRemoved,
+      triggered,
     });
     recomputeNextRunsForMaintenance(state);
     await persist(state);
@@ -450,6 +504,17 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
   return { ok: true, ran: true } as const;
 }
 
+export async function chainGraph(state: CronServiceState, jobId?: string) {
+  return await locked(state, async () => {
+    await ensureLoadedForRead(state);
+    const jobs = state.store?.jobs ?? [];
+    if (jobId) {
+      findJobOrThrow(state, jobId);
+    }
+    return buildCronChainGraph(jobs, jobId);
+  });
+}
+
 export function wakeNow(
   state: CronServiceState,
   opts: { mode: "now" | "next-heartbeat"; text: string },
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { CronJob } from "../types.js";
+import {
+  classifyCronRunError,
+  planCronRetry,
+  resolveCronRetryDelayMs,
+  resolveCronRetryPolicy,
+} from "./retry.js";
+
+function makeJob(params: Pick<CronJob, "retry"> & { state?: CronJob["state"] }) {
+  return { retry: params.retry, state: params.state ?? {} };
+}
+
+describe("cron retry policy", () => {
+  it("classifies run errors", () => {
+    expect(classifyCronRunError({ error: "429 Too Many Requests: rate limit reached" })).toBe(
+      "rate-limit",
+    );
+    expect(classifyCronRunError({ error: "overloaded_error: Overloaded" })).toBe("overloaded");
+    expect(classifyCronRunError({ error: "cron: job execution timed out" })).toBe("timeout");
+    expect(classifyCronRunError({ error: "no route", errorKind: "delivery-target" })).toBe(
+      "delivery-target",
+    );
+    expect(classifyCronRunError({ error: "boom" })).toBe("other");
+  });
+
+  it("doubles the delay per attempt up to the cap", () => {
+    const policy = resolveCronRetryPolicy({ backoffBaseMs: 1_000, backoffCapMs: 5_000 });
+    expect([1, 2, 3, 4].map((attempt) => resolveCronRetryDelayMs(policy, attempt))).toEqual([
+      1_000, 2_000, 4_000, 5_000,
+    ]);
+  });
+
+  it("retries retryable errors until attempts run out", () => {
+    const retry = { maxAttempts: 3, backoffBaseMs: 1_000 };
+    const outcome = { status: "error" as const, error: "overloaded" };
+
+    expect(planCronRetry(makeJob({ retry }), outcome)).toEqual({
+      kind: "retry",
+      attempt: 1,
+      delayMs: 1_000,
+      errorClass: "overloaded",
+    });
+    expect(
+      planCronRetry(
+        makeJob({
+          retry,
+          state: { lastRetry: { attempt: 1, errorClass: "overloaded", retryAtMs: 10 } },
+        }),
+        outcome,
+      ),
+    ).toMatchObject({ kind: "retry", attempt: 2, delayMs: 2_000 });
+    expect(
+      planCronRetry(
+        makeJob({
+          retry,
+          state: { lastRetry: { attempt: 2, errorClass: "overloaded", retryAtMs: 10 } },
+        }),
+        outcome,
+      ),
+    ).toEqual({ kind: "dead-letter", attempts: 3, errorClass: "overloaded" });
+  });
+
+  it("dead-letters errors outside retryOn and ignores jobs without a policy", () => {
+    const outcome = { status: "error" as const, error: "boom" };
+    expect(planCronRetry(makeJob({ retry: {} }), outcome)).toEqual({
+      kind: "dead-letter",
+      attempts: 1,
+      errorClass: "other",
+    });
+    expect(planCronRetry(makeJob({ retry: undefined }), outcome)).toEqual({ kind: "none" });
+    expect(planCronRetry(makeJob({ retry: {} }), { status: "ok" })).toEqual({ kind: "none" });
+  });
+});
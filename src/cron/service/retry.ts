@@ -0,0 +1,112 @@
+import {
+  isOverloadedErrorMessage,
+  isRateLimitErrorMessage,
+  isTimeoutErrorMessage,
+  isTransientHttpError,
+} from "../../agents/pi-embedded-helpers/errors.js";
+import type {
+  CronJob,
+  CronRetryErrorClass,
+  CronRetryPolicy,
+  CronRunOutcome,
+  CronRunStatus,
+} from "../types.js";
+
+export const CRON_RETRY_ERROR_CLASSES: readonly CronRetryErrorClass[] = [
+  "overloaded",
+  "rate-limit",
+  "timeout",
+  "delivery-target",
+  "other",
+];
+
+export const DEFAULT_CRON_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_CRON_RETRY_BACKOFF_BASE_MS = 30_000;
+export const DEFAULT_CRON_RETRY_BACKOFF_CAP_MS = 15 * 60_000;
+export const DEFAULT_CRON_RETRY_ON: readonly CronRetryErrorClass[] = [
+  "overloaded",
+  "rate-limit",
+  "timeout",
+];
+
+export function classifyCronRunError(
+  outcome: Pick<CronRunOutcome, "error" | "errorKind">,
+): CronRetryErrorClass {
+  if (outcome.errorKind === "delivery-target") {
+    return "delivery-target";
+  }
+  const raw = outcome.error ?? "";
+  if (isRateLimitErrorMessage(raw)) {
+    return "rate-limit";
+  }
+  if (isOverloadedErrorMessage(raw) || isTransientHttpError(raw)) {
+    return "overloaded";
+  }
+  if (isTimeoutErrorMessage(raw)) {
+    return "timeout";
+  }
+  return "other";
+}
+
+function resolvePositiveInt(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : fallback;
+}
+
+export function resolveCronRetryPolicy(policy: CronRetryPolicy): Required<CronRetryPolicy> {
+  const backoffBaseMs = resolvePositiveInt(
+    policy.backoffBaseMs,
+    DEFAULT_CRON_RETRY_BACKOFF_BASE_MS,
+  );
+  return {
+    maxAttempts: resolvePositiveInt(policy.maxAttempts, DEFAULT_CRON_RETRY_MAX_ATTEMPTS),
+    backoffBaseMs,
+    backoffCapMs: Math.max(
+      backoffBaseMs,
+      resolvePositiveInt(policy.backoffCapMs, DEFAULT_CRON_RETRY_BACKOFF_CAP_MS),
+    ),
+    retryOn:
+      Array.isArray(policy.retryOn) && policy.retryOn.length > 0
+        ? policy.retryOn
+        : [...DEFAULT_CRON_RETRY_ON],
+  };
+}
+
+/** Delay before retry number `attempt` (1-based): base * 2^(attempt-1), capped. */
+export function resolveCronRetryDelayMs(policy: Required<CronRetryPolicy>, attempt: number) {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.backoffCapMs, policy.backoffBaseMs * 2 ** exponent);
+}
+
+export type CronRetryDecision =
+  | { kind: "none" }
+  | { kind: "retry"; attempt: number; delayMs: number; errorClass: CronRetryErrorClass }
+  | { kind: "dead-letter"; attempts: number; errorClass: CronRetryErrorClass };
+
+/**
+ * Decide what happens after a run of a job with a retry policy: schedule
+ * another attempt, or dead-letter the run once retries are exhausted (or the
+ * error class is not retryable). Jobs without a policy are left alone.
+ */
+export function planCronRetry(
+  job: Pick<CronJob, "retry" | "state">,
+  outcome: Pick<CronRunOutcome, "error" | "errorKind"> & { status: CronRunStatus },
+): CronRetryDecision {
+  if (!job.retry || outcome.status !== "error") {
+    return { kind: "none" };
+  }
+  const policy = resolveCronRetryPolicy(job.retry);
+  const errorClass = classifyCronRunError(outcome);
+  const pending = job.state.lastRetry;
+  const attemptsSoFar = (pending?.retryAtMs !== undefined ? pending.attempt : 0) + 1;
+  if (policy.retryOn.includes(errorClass) && attemptsSoFar < policy.maxAttempts) {
+    return {
+      kind: "retry",
+      attempt: attemptsSoFar,
+      delayMs: resolveCronRetryDelayMs(policy, attemptsSoFar),
+      errorClass,
+    };
+  }
+  return { kind: "dead-letter", attempts: attemptsSoFar, errorClass };
+}
@@ -6,6 +6,7 @@ import type {
   CronJobCreate,
   CronJobPatch,
   CronRunOutcome,
+  CronRunRetry,
   CronRunStatus,
   CronRunTelemetry,
   CronStoreFile,
@@ -25,6 +26,12 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Chain run id when the run was part of a job chain. */
+  chainRunId?: string;
+  /** Upstream job that triggered this run (chained follow-ups only). */
+  triggeredBy?: string;
+  /** Retry outcome of a failed run (jobs with a retry policy only). */
+  retry?: CronRunRetry;
 } & CronRunTelemetry;
 
 export type Logger = {
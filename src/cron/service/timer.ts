@@ -9,6 +9,7 @@ import type {
   CronRunStatus,
   CronRunTelemetry,
 } from "../types.js";
+import { resolveRunChain, triggerDependentJobs } from "./chain.js";
 import {
   computeJobNextRunAtMs,
   nextWakeAtMs,
@@ -16,6 +17,7 @@ import {
   resolveJobPayloadTextForMain,
 } from "./jobs.js";
 import { locked } from "./locked.js";
+import { planCronRetry } from "./retry.js";
 import type { CronEvent, CronServiceState } from "./state.js";
 import { ensureLoaded, persist } from "./store.js";
 import { DEFAULT_JOB_TIMEOUT_MS, resolveCronJobTimeoutMs } from "./timeout-policy.js";
@@ -116,8 +118,10 @@ function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): C
 
 /**
  * Apply the result of a job execution to the job's state.
- * Handles consecutive error tracking, exponential backoff, one-shot disable,
- * and nextRunAtMs computation. Returns `true` if the job should be deleted.
+ * Handles consecutive error tracking, retry policies, exponential backoff,
+ * one-shot disable, chain bookkeeping, and nextRunAtMs computation. Returns
+ * `true` if the job should be deleted. Callers queue chained follow-ups via
+ * `triggerDependentJobs`.
  */
 export function applyJobResult(
   state: CronServiceState,
@@ -125,11 +129,16 @@ export function applyJobResult(
   result: {
     status: CronRunStatus;
     error?: string;
+    errorKind?: CronRunOutcome["errorKind"];
+    summary?: string;
     delivered?: boolean;
     startedAt: number;
     endedAt: number;
   },
 ): boolean {
+  const chain = resolveRunChain(state, job, result.startedAt);
+  job.state.pendingChain = undefined;
+  job.state.lastChain = chain;
   job.state.runningAtMs = undefined;
   job.state.lastRunAtMs = result.startedAt;
   job.state.lastRunStatus = result.status;
@@ -150,6 +159,43 @@ export function applyJobResult(
     job.state.consecutiveErrors = 0;
   }
 
+  const retry = planCronRetry(job, result);
+  if (retry.kind === "retry") {
+    const retryAtMs = result.endedAt + retry.delayMs;
+    job.state.lastRetry = { attempt: retry.attempt, errorClass: retry.errorClass, retryAtMs };
+    job.state.nextRunAtMs = retryAtMs;
+    if (chain) {
+      // Keep the retry inside the chain run it belongs to.
+      job.state.pendingChain = { ...chain, triggeredAtMs: retryAtMs };
+    }
+    state.deps.log.info(
+      {
+        jobId: job.id,
+        attempt: retry.attempt,
+        errorClass: retry.errorClass,
+        retryAtMs,
+      },
+      "cron: scheduling retry",
+    );
+    return false;
+  }
+  job.state.lastRetry =
+    retry.kind === "dead-letter"
+      ? { attempt: retry.attempts, errorClass: retry.errorClass, deadLettered: true }
+      : undefined;
+  if (retry.kind === "dead-letter") {
+    state.deps.log.warn(
+      {
+        jobId: job.id,
+        jobName: job.name,
+        attempts: retry.attempts,
+        errorClass: retry.errorClass,
+        error: result.error,
+      },
+      "cron: run failed for good, moved to dead letters",
+    );
+  }
+
   const shouldDelete =
     job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
 
@@ -171,7 +217,7 @@ export function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
-    } else if (result.status === "error" && job.enabled) {
+    } else if (result.status === "error" && job.enabled && job.schedule.kind !== "after") {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
       const normalNext = computeJobNextRunAtMs(job, result.endedAt);
@@ -223,10 +269,13 @@ function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOu
   const shouldDelete = applyJobResult(state, job, {
     status: result.status,
     error: result.error,
+    errorKind: result.errorKind,
+    summary: result.summary,
     delivered: result.delivered,
     startedAt: result.startedAt,
     endedAt: result.endedAt,
   });
+  triggerDependentJobs(state, job, result, job.state.lastChain, result.endedAt);
 
   emitJobFinished(state, job, result, result.startedAt);
 
@@ -753,6 +802,7 @@ export async function executeJobCore(
   return {
     status: res.status,
     error: res.error,
+    errorKind: res.errorKind,
     summary: res.summary,
     delivered: res.delivered,
     deliveryAttempted: res.deliveryAttempted,
@@ -797,10 +847,13 @@ export async function executeJob(
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
+    errorKind: coreResult.errorKind,
+    summary: coreResult.summary,
     delivered: coreResult.delivered,
     startedAt,
     endedAt,
   });
+  triggerDependentJobs(state, job, coreResult, job.state.lastChain, endedAt);
 
   emitJobFinished(state, job, coreResult, startedAt);
 
@@ -837,6 +890,9 @@ function emitJobFinished(
     model: result.model,
     provider: result.provider,
     usage: result.usage,
+    chainRunId: job.state.lastChain?.chainRunId,
+    triggeredBy: job.state.lastChain?.triggeredBy,
+    retry: result.status === "error" ? job.state.lastRetry : undefined,
   });
 }
 
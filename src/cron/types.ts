@@ -1,14 +1,36 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
+/** Upstream outcome that triggers a follow-up (`kind: "after"`) job. */
+export type CronChainCondition = "ok" | "error" | "skipped" | "any";
+
+/** Calendar gaps that recurring schedules step over (`every` and `cron` only). */
+export type CronCalendarRules = {
+  /** Local dates to skip: `YYYY-MM-DD` or inclusive `YYYY-MM-DD..YYYY-MM-DD` ranges. */
+  excludeDates?: string[];
+  /** Local ICS file; all-day events are holidays, timed events are blackout windows. */
+  icsFile?: string;
+  /** Skip Saturdays and Sundays in the schedule timezone. */
+  businessDaysOnly?: boolean;
+};
+
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
-  | {
+  | ({ kind: "every"; everyMs: number; anchorMs?: number } & CronCalendarRules)
+  | ({
       kind: "cron";
       expr: string;
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+    } & CronCalendarRules)
+  | {
+      kind: "after";
+      /** Upstream job ids. The job runs as a follow-up whenever one of them finishes. */
+      after: string[];
+      /** Upstream run status that triggers this job (default "ok"). */
+      on?: CronChainCondition;
+      /** Optional regex the upstream run summary must match. */
+      summaryPattern?: string;
     };
 
 export type CronSessionTarget = "main" | "isolated";
@@ -45,6 +67,43 @@ export type CronRunTelemetry = {
   usage?: CronUsageSummary;
 };
 
+/** Chain membership of a single run, shared across every step of a chain run. */
+export type CronRunChain = {
+  chainRunId: string;
+  /** Upstream job whose run triggered this one (unset for the chain root). */
+  triggeredBy?: string;
+};
+
+/** Error classes a retry policy can opt into (see `classifyCronRunError`). */
+export type CronRetryErrorClass =
+  | "overloaded"
+  | "rate-limit"
+  | "timeout"
+  | "delivery-target"
+  | "other";
+
+export type CronRetryPolicy = {
+  /** Total attempts per scheduled run, including the first one (default 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on every further attempt (default 30s). */
+  backoffBaseMs?: number;
+  /** Upper bound for a single retry delay (default 15m). */
+  backoffCapMs?: number;
+  /** Error classes worth retrying (default overloaded, rate-limit, timeout). */
+  retryOn?: CronRetryErrorClass[];
+};
+
+/** Retry bookkeeping for a failed run of a job with a retry policy. */
+export type CronRunRetry = {
+  /** 1-based attempt number of the failed run. */
+  attempt: number;
+  errorClass: CronRetryErrorClass;
+  /** When the next attempt is due; unset once the run has settled. */
+  retryAtMs?: number;
+  /** Set when the run exhausted its retries and was dead-lettered. */
+  deadLettered?: boolean;
+};
+
 export type CronRunOutcome = {
   status: CronRunStatus;
   error?: string;
@@ -86,6 +145,25 @@ export type CronPayloadPatch =
       bestEffortDeliver?: boolean;
     };
 
+/** Most recent scheduled run that fell into a calendar gap. */
+export type CronCalendarSkip = {
+  /** First skipped slot. */
+  skippedAtMs: number;
+  /** Why the slot was skipped, e.g. "weekend (Sat)" or "holiday: New Year". */
+  reason: string;
+  /** Consecutive slots skipped before nextRunAtMs. */
+  skippedRuns: number;
+};
+
+/** Pending follow-up trigger for a chained job, recorded when its upstream run finished. */
+export type CronChainPending = {
+  /** Chain run id shared by every step triggered from the same root run. */
+  chainRunId: string;
+  /** Upstream job whose run triggered this step (unset for manual replays). */
+  triggeredBy?: string;
+  triggeredAtMs: number;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -106,6 +184,14 @@ export type CronJobState = {
   lastDeliveryError?: string;
   /** Whether the last run's output was delivered to the target channel. */
   lastDelivered?: boolean;
+  /** Follow-up trigger waiting to run (chained `kind: "after"` jobs only). */
+  pendingChain?: CronChainPending;
+  /** Chain membership of the most recent run, when it was part of a chain. */
+  lastChain?: CronRunChain;
+  /** Retry bookkeeping for the most recent failed run (jobs with a retry policy only). */
+  lastRetry?: CronRunRetry;
+  /** Set when calendar rules pushed nextRunAtMs past one or more scheduled slots. */
+  calendarSkip?: CronCalendarSkip;
 };
 
 export type CronJob = {
@@ -124,9 +210,43 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
   state: CronJobState;
 };
 
+export type CronChainGraphNode = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  lastStatus?: CronRunStatus;
+  lastChainRunId?: string;
+};
+
+export type CronChainGraphEdge = {
+  from: string;
+  to: string;
+  on: CronChainCondition;
+  summaryPattern?: string;
+};
+
+export type CronChainGraph = {
+  nodes: CronChainGraphNode[];
+  edges: CronChainGraphEdge[];
+};
+
+/** A run that failed for good after its retry policy gave up. */
+export type CronDeadLetter = {
+  id: string;
+  jobId: string;
+  jobName?: string;
+  ts: number;
+  runAtMs?: number;
+  attempts: number;
+  error?: string;
+  errorClass: CronRetryErrorClass;
+  chainRunId?: string;
+};
+
 export type CronStoreFile = {
   version: 1;
   jobs: CronJob[];
@@ -136,8 +256,12 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "retry">
+> & {
   payload?: CronPayloadPatch;
+  /** `null` removes the retry policy. */
+  retry?: CronRetryPolicy | null;
   delivery?: CronDeliveryPatch;
   state?: Partial<CronJobState>;
 };
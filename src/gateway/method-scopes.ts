@@ -31,6 +31,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "exec.approval.request",
     "exec.approval.waitDecision",
     "exec.approval.resolve",
+    "outbound.approval.list",
+    "outbound.approval.resolve",
   ],
   [PAIRING_SCOPE]: [
     "node.pair.request",
@@ -61,6 +63,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "agents.list",
     "agent.identity.get",
     "skills.status",
+    "secrets.status",
     "voicewake.get",
     "sessions.list",
     "sessions.preview",
@@ -71,6 +74,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.list",
     "cron.status",
     "cron.runs",
+    "cron.graph",
+    "cron.deadLetters",
     "system-presence",
     "last-heartbeat",
     "node.list",
@@ -111,10 +116,14 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.update",
     "cron.remove",
     "cron.run",
+    "cron.replay",
+    "cron.redrive",
     "sessions.patch",
     "sessions.reset",
     "sessions.delete",
     "sessions.compact",
+    "sessions.rollback",
+    "sessions.replay",
     "connect",
     "chat.inject",
     "web.login.start",
@@ -0,0 +1,79 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createDiagnosticMetrics } from "../infra/diagnostic-metrics.js";
+
+const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
+
+vi.mock("./auth.js", () => ({
+  authorizeHttpGatewayConnect: async (params: { connectAuth?: { token?: string } | null }) =>
+    params.connectAuth?.token === TEST_GATEWAY_TOKEN ? { ok: true } : { ok: false },
+}));
+
+const { handleMetricsHttpRequest } = await import("./metrics-http.js");
+
+const metrics = createDiagnosticMetrics();
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleMetricsHttpRequest(req, res, {
+      auth: { mode: "token", token: TEST_GATEWAY_TOKEN, allowTailscale: false },
+      metrics,
+    }).then((handled) => {
+      if (handled) {
+        return;
+      }
+      res.statusCode = 404;
+      res.end("not found");
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server?.once("error", reject);
+    server?.listen(0, "127.0.0.1", () => {
+      const address = server?.address() as AddressInfo | null;
+      port = address?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  if (!server) {
+    return;
+  }
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+  server = undefined;
+});
+
+async function getMetrics(opts: { token?: string; method?: string; path?: string } = {}) {
+  return await fetch(`http://127.0.0.1:${port}${opts.path ?? "/metrics"}`, {
+    method: opts.method ?? "GET",
+    headers: opts.token ? { authorization: `Bearer ${opts.token}` } : {},
+  });
+}
+
+describe("GET /metrics", () => {
+  it("requires gateway auth", async () => {
+    expect((await getMetrics()).status).toBe(401);
+    expect((await getMetrics({ token: "wrong" })).status).toBe(401);
+  });
+
+  it("serves the Prometheus text format", async () => {
+    metrics.record({ type: "queue.lane.enqueue", ts: 0, seq: 1, lane: "main", queueSize: 4 });
+    const res = await getMetrics({ token: TEST_GATEWAY_TOKEN });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/plain; version=0.0.4; charset=utf-8");
+    const body = await res.text();
+    expect(body).toContain("# TYPE openclaw_queue_depth gauge");
+    expect(body).toContain('openclaw_queue_depth{lane="main"} 4');
+  });
+
+  it("rejects other methods and ignores other paths", async () => {
+    const res = await getMetrics({ token: TEST_GATEWAY_TOKEN, method: "POST" });
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("GET");
+    expect((await getMetrics({ token: TEST_GATEWAY_TOKEN, path: "/metricsx" })).status).toBe(404);
+  });
+});
@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { type DiagnosticMetrics, PROMETHEUS_CONTENT_TYPE } from "../infra/diagnostic-metrics.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import { sendMethodNotAllowed } from "./http-common.js";
+
+type MetricsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  metrics: DiagnosticMetrics;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+const METRICS_PATH = "/metrics";
+
+export async function handleMetricsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: MetricsHttpOptions,
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
+  if (url.pathname !== METRICS_PATH) {
+    return false;
+  }
+
+  if (req.method !== "GET") {
+    sendMethodNotAllowed(res, "GET");
+    return true;
+  }
+
+  const authorized = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authorized) {
+    return true;
+  }
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+  res.setHeader("Cache-Control", "no-store");
+  res.end(opts.metrics.render());
+  return true;
+}
@@ -0,0 +1,166 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
+
+let cfg: Record<string, unknown> = {};
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeHttpGatewayConnect: async (params: { connectAuth?: { token?: string } | null }) =>
+    params.connectAuth?.token === TEST_GATEWAY_TOKEN ? { ok: true } : { ok: false },
+}));
+
+vi.mock("../logger.js", () => ({
+  logWarn: () => {},
+}));
+
+const embeddingMocks = vi.hoisted(() => ({
+  createEmbeddingProvider: vi.fn(async (options: { provider: string; model: string }) => ({
+    requestedProvider: options.provider,
+    provider: {
+      id: options.provider === "auto" ? "openai" : options.provider,
+      model: options.model || "text-embedding-3-small",
+      embedQuery: async () => [1, 0],
+      embedBatch: async (texts: string[]) => texts.map((_, index) => [index, 0.5]),
+    },
+  })),
+}));
+
+vi.mock("../memory/embeddings.js", () => ({
+  createEmbeddingProvider: embeddingMocks.createEmbeddingProvider,
+}));
+
+const { handleOpenAiEmbeddingsHttpRequest, resetOpenAiEmbeddingsProviderCache } =
+  await import("./openai-embeddings-http.js");
+
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleOpenAiEmbeddingsHttpRequest(req, res, {
+      auth: { mode: "token", token: TEST_GATEWAY_TOKEN, allowTailscale: false },
+      config: { enabled: true, maxInputs: 3 },
+    }).then((handled) => {
+      if (handled) {
+        return;
+      }
+      res.statusCode = 404;
+      res.end("not found");
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server?.once("error", reject);
+    server?.listen(0, "127.0.0.1", () => {
+      const address = server?.address() as AddressInfo | null;
+      port = address?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  if (!server) {
+    return;
+  }
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+  server = undefined;
+});
+
+beforeEach(() => {
+  cfg = {
+    agents: {
+      defaults: { memorySearch: { provider: "openai", model: "text-embedding-3-small" } },
+      list: [{ id: "main" }, { id: "quiet", memorySearch: { enabled: false } }],
+    },
+  };
+  resetOpenAiEmbeddingsProviderCache();
+  embeddingMocks.createEmbeddingProvider.mockClear();
+});
+
+async function postEmbeddings(body: unknown, token = TEST_GATEWAY_TOKEN) {
+  return await fetch(`http://127.0.0.1:${port}/v1/embeddings`, {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /v1/embeddings", () => {
+  it("embeds inputs with the agent's memory search provider", async () => {
+    const res = await postEmbeddings({ model: "openclaw:main", input: ["a", "b"] });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      object: "list",
+      data: [
+        { object: "embedding", index: 0, embedding: [0, 0.5] },
+        { object: "embedding", index: 1, embedding: [1, 0.5] },
+      ],
+      model: "openai/text-embedding-3-small",
+      usage: { prompt_tokens: 2, total_tokens: 2 },
+    });
+    expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "openai", model: "text-embedding-3-small" }),
+    );
+
+    await postEmbeddings({ model: "openclaw:main", input: "again" });
+    expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets provider/model override the agent default", async () => {
+    const res = await postEmbeddings({ model: "gemini/gemini-embedding-001", input: "hello" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ model: "gemini/gemini-embedding-001" });
+    expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: "gemini",
+        model: "gemini-embedding-001",
+        fallback: "none",
+        remote: undefined,
+      }),
+    );
+  });
+
+  it("returns base64 float32 vectors when asked", async () => {
+    const res = await postEmbeddings({ input: "x", encoding_format: "base64" });
+    const body = (await res.json()) as { data: Array<{ embedding: string }> };
+    const buf = Buffer.from(body.data[0].embedding, "base64");
+    expect(Array.from(new Float32Array(buf.buffer, buf.byteOffset, buf.byteLength / 4))).toEqual([
+      0, 0.5,
+    ]);
+  });
+
+  it("rejects bad input, too many inputs and agents without memory search", async () => {
+    expect((await postEmbeddings({ input: [1, 2, 3] })).status).toBe(400);
+    expect((await postEmbeddings({ input: ["a", "b", "c", "d"] })).status).toBe(400);
+    const disabled = await postEmbeddings({ model: "openclaw:quiet", input: "x" });
+    expect(disabled.status).toBe(400);
+    expect(await disabled.json()).toMatchObject({
+      error: { message: expect.stringContaining('agent "quiet"') },
+    });
+    expect((await postEmbeddings({ input: "x" }, "wrong")).status).toBe(401);
+  });
+
+  it("rejects unknown models and agents instead of using the default agent", async () => {
+    const unknownModel = await postEmbeddings({ model: "text-embedding-3-small", input: "x" });
+    expect(unknownModel.status).toBe(400);
+    expect(await unknownModel.json()).toMatchObject({
+      error: { message: expect.stringContaining('Unknown model "text-embedding-3-small"') },
+    });
+    expect((await postEmbeddings({ model: "openclaw:ghost", input: "x" })).status).toBe(400);
+    expect((await postEmbeddings({ model: "cohere/embed-v4", input: "x" })).status).toBe(400);
+    expect(embeddingMocks.createEmbeddingProvider).not.toHaveBeenCalled();
+  });
+
+  it("reloads providers after the cache is reset", async () => {
+    await postEmbeddings({ input: "x" });
+    resetOpenAiEmbeddingsProviderCache();
+    await postEmbeddings({ input: "x" });
+    expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledTimes(2);
+  });
+});
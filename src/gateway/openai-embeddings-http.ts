@@ -0,0 +1,252 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { listAgentIds, resolveAgentDir } from "../agents/agent-scope.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import type { GatewayHttpEmbeddingsConfig } from "../config/types.gateway.js";
+import { logWarn } from "../logger.js";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProviderId,
+  type EmbeddingProviderOptions,
+  type EmbeddingProviderResult,
+} from "../memory/embeddings.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { sendInvalidRequest, sendJson } from "./http-common.js";
+import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
+import { resolveAgentIdForRequest, resolveAgentIdFromModel } from "./http-utils.js";
+
+type OpenAiEmbeddingsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  config?: GatewayHttpEmbeddingsConfig;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+type OpenAiEmbeddingsRequest = {
+  model?: unknown;
+  input?: unknown;
+  encoding_format?: unknown;
+};
+
+const DEFAULT_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_INPUTS = 2048;
+
+const EMBEDDING_PROVIDER_IDS = new Set<string>(["openai", "local", "gemini", "voyage", "mistral"]);
+
+// embedBatch does not return token counts, so usage is estimated like the context guards do.
+const CHARS_PER_TOKEN_ESTIMATE = 4;
+
+// Providers are cheap to reuse and the local one loads a model, so keep one per
+// resolved option set until the next config reload.
+const PROVIDER_CACHE = new Map<string, Promise<EmbeddingProviderResult>>();
+
+function coerceRequest(val: unknown): OpenAiEmbeddingsRequest {
+  if (!val || typeof val !== "object") {
+    return {};
+  }
+  return val as OpenAiEmbeddingsRequest;
+}
+
+function parseInputs(input: unknown): string[] | { error: string } {
+  const values = typeof input === "string" ? [input] : input;
+  if (!Array.isArray(values) || values.length === 0) {
+    return { error: "`input` must be a string or a non-empty array of strings." };
+  }
+  if (values.some((value) => typeof value !== "string")) {
+    return { error: "Token array inputs are not supported; send `input` as text." };
+  }
+  if ((values as string[]).some((value) => value.length === 0)) {
+    return { error: "`input` entries must not be empty strings." };
+  }
+  return values as string[];
+}
+
+function parseProviderModel(raw: string): { provider: EmbeddingProviderId; model: string } | null {
+  const slash = raw.indexOf("/");
+  const provider = slash > 0 ? raw.slice(0, slash).toLowerCase() : "";
+  const model = slash > 0 ? raw.slice(slash + 1).trim() : "";
+  if (!EMBEDDING_PROVIDER_IDS.has(provider) || !model) {
+    return null;
+  }
+  return { provider: provider as EmbeddingProviderId, model };
+}
+
+/** Rejects `model` values that name neither a configured agent nor a wired provider. */
+function validateEmbeddingModel(cfg: OpenClawConfig, model: string | undefined): string | null {
+  const raw = model?.trim();
+  if (!raw) {
+    return null;
+  }
+  const agentId = resolveAgentIdFromModel(raw);
+  if (agentId) {
+    return listAgentIds(cfg).includes(normalizeAgentId(agentId))
+      ? null
+      : `Unknown agent "${agentId}" in \`model\`.`;
+  }
+  if (parseProviderModel(raw)) {
+    return null;
+  }
+  return `Unknown model "${raw}". Use "openclaw:<agentId>" or "<provider>/<model>" (providers: ${[...EMBEDDING_PROVIDER_IDS].join(", ")}).`;
+}
+
+/**
+ * `openclaw:<agentId>` (or the header) selects the agent's memory search embedding
+ * settings; `<provider>/<model>` swaps in another wired provider for one request.
+ */
+function resolveEmbeddingOptions(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  model: string | undefined;
+}): Omit<EmbeddingProviderOptions, "config"> | null {
+  const settings = resolveMemorySearchConfig(params.cfg, params.agentId);
+  if (!settings) {
+    return null;
+  }
+  const base = {
+    agentDir: resolveAgentDir(params.cfg, params.agentId),
+    provider: settings.provider,
+    remote: settings.remote
+      ? {
+          baseUrl: settings.remote.baseUrl,
+          apiKey: settings.remote.apiKey,
+          headers: settings.remote.headers,
+        }
+      : undefined,
+    model: settings.model,
+    fallback: settings.fallback,
+    local: settings.local,
+  } satisfies Omit<EmbeddingProviderOptions, "config">;
+
+  const override = params.model ? parseProviderModel(params.model.trim()) : null;
+  if (!override) {
+    return base;
+  }
+  return {
+    ...base,
+    provider: override.provider,
+    remote: override.provider === settings.provider ? base.remote : undefined,
+    model: override.model,
+    fallback: "none",
+  };
+}
+
+async function loadEmbeddingProvider(
+  cfg: OpenClawConfig,
+  options: Omit<EmbeddingProviderOptions, "config">,
+): Promise<EmbeddingProviderResult> {
+  const key = JSON.stringify(options);
+  const cached = PROVIDER_CACHE.get(key);
+  if (cached) {
+    return await cached;
+  }
+  const pending = createEmbeddingProvider({ ...options, config: cfg });
+  PROVIDER_CACHE.set(key, pending);
+  try {
+    return await pending;
+  } catch (err) {
+    PROVIDER_CACHE.delete(key);
+    throw err;
+  }
+}
+
+/** Drop cached providers so the next request picks up reloaded config and credentials. */
+export function resetOpenAiEmbeddingsProviderCache() {
+  PROVIDER_CACHE.clear();
+}
+
+function estimateInputTokens(inputs: string[]): number {
+  return inputs.reduce((sum, input) => sum + Math.ceil(input.length / CHARS_PER_TOKEN_ESTIMATE), 0);
+}
+
+function encodeEmbedding(vector: number[], format: "float" | "base64"): number[] | string {
+  if (format === "float") {
+    return vector;
+  }
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+export async function handleOpenAiEmbeddingsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiEmbeddingsHttpOptions,
+): Promise<boolean> {
+  const handled = await handleGatewayPostJsonEndpoint(req, res, {
+    pathname: "/v1/embeddings",
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+    maxBodyBytes: opts.config?.maxBodyBytes ?? DEFAULT_BODY_BYTES,
+  });
+  if (handled === false) {
+    return false;
+  }
+  if (!handled) {
+    return true;
+  }
+
+  const payload = coerceRequest(handled.body);
+  const inputs = parseInputs(payload.input);
+  if (!Array.isArray(inputs)) {
+    sendInvalidRequest(res, inputs.error);
+    return true;
+  }
+  const maxInputs = opts.config?.maxInputs ?? DEFAULT_MAX_INPUTS;
+  if (inputs.length > maxInputs) {
+    sendInvalidRequest(res, `Too many inputs: ${inputs.length} (max ${maxInputs}).`);
+    return true;
+  }
+  const encodingFormat = payload.encoding_format ?? "float";
+  if (encodingFormat !== "float" && encodingFormat !== "base64") {
+    sendInvalidRequest(res, "`encoding_format` must be `float` or `base64`.");
+    return true;
+  }
+
+  const cfg = loadConfig();
+  const model = typeof payload.model === "string" ? payload.model : undefined;
+  const modelError = validateEmbeddingModel(cfg, model);
+  if (modelError) {
+    sendInvalidRequest(res, modelError);
+    return true;
+  }
+  const agentId = resolveAgentIdForRequest({ req, model });
+  const options = resolveEmbeddingOptions({ cfg, agentId, model });
+  if (!options) {
+    sendInvalidRequest(res, `Memory search embeddings are disabled for agent "${agentId}".`);
+    return true;
+  }
+
+  try {
+    const result = await loadEmbeddingProvider(cfg, options);
+    if (!result.provider) {
+      sendJson(res, 503, {
+        error: {
+          message: result.providerUnavailableReason ?? "No embedding provider available.",
+          type: "api_error",
+        },
+      });
+      return true;
+    }
+    const vectors = await result.provider.embedBatch(inputs);
+    const promptTokens = estimateInputTokens(inputs);
+    sendJson(res, 200, {
+      object: "list",
+      data: vectors.map((vector, index) => ({
+        object: "embedding",
+        index,
+        embedding: encodeEmbedding(vector, encodingFormat),
+      })),
+      model: `${result.provider.id}/${result.provider.model}`,
+      usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+    });
+  } catch (err) {
+    logWarn(`openai-compat: embeddings failed: ${String(err)}`);
+    sendJson(res, 500, {
+      error: { message: "internal error", type: "api_error" },
+    });
+  }
+  return true;
+}
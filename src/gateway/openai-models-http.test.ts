@@ -0,0 +1,143 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
+
+let cfg: Record<string, unknown> = {};
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeHttpGatewayConnect: async (params: { connectAuth?: { token?: string } | null }) =>
+    params.connectAuth?.token === TEST_GATEWAY_TOKEN ? { ok: true } : { ok: false },
+}));
+
+vi.mock("./server-model-catalog.js", () => ({
+  loadGatewayModelCatalog: async () => [
+    {
+      provider: "anthropic",
+      id: "claude-opus-4-6",
+      name: "Claude Opus 4.6",
+      contextWindow: 200_000,
+      input: ["text", "image"],
+    },
+    { provider: "openai", id: "gpt-5-mini", name: "GPT-5 mini", contextWindow: 400_000 },
+  ],
+}));
+
+const { handleOpenAiModelsHttpRequest } = await import("./openai-models-http.js");
+
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleOpenAiModelsHttpRequest(req, res, {
+      auth: { mode: "token", token: TEST_GATEWAY_TOKEN, allowTailscale: false },
+    }).then((handled) => {
+      if (handled) {
+        return;
+      }
+      res.statusCode = 404;
+      res.end("not found");
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server?.once("error", reject);
+    server?.listen(0, "127.0.0.1", () => {
+      const address = server?.address() as AddressInfo | null;
+      port = address?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  if (!server) {
+    return;
+  }
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+  server = undefined;
+});
+
+beforeEach(() => {
+  cfg = {
+    agents: {
+      defaults: {
+        model: { primary: "anthropic/claude-opus-4-6" },
+        models: {
+          "anthropic/claude-opus-4-6": { alias: "opus" },
+          "openai/gpt-5-mini": { alias: "mini" },
+        },
+      },
+      list: [
+        { id: "main", default: true, name: "Main" },
+        { id: "ops", model: "openai/gpt-5-mini" },
+      ],
+    },
+  };
+});
+
+async function getModels(path = "/v1/models", token = TEST_GATEWAY_TOKEN) {
+  return await fetch(`http://127.0.0.1:${port}${path}`, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+describe("GET /v1/models", () => {
+  it("lists agents with their primary model and aliases", async () => {
+    const res = await getModels();
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { object: string; data: unknown[] };
+    expect(body.object).toBe("list");
+    expect(body.data).toEqual([
+      {
+        id: "openclaw:main",
+        object: "model",
+        created: 0,
+        owned_by: "openclaw",
+        agent_id: "main",
+        name: "Main",
+        default: true,
+        model: "anthropic/claude-opus-4-6",
+        model_aliases: ["opus"],
+        context_window: 200_000,
+        input: ["text", "image"],
+      },
+      {
+        id: "openclaw:ops",
+        object: "model",
+        created: 0,
+        owned_by: "openclaw",
+        agent_id: "ops",
+        default: false,
+        model: "openai/gpt-5-mini",
+        model_aliases: ["mini"],
+        context_window: 400_000,
+      },
+    ]);
+  });
+
+  it("retrieves a single agent model by id", async () => {
+    const res = await getModels("/v1/models/agent%3Aops");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: "openclaw:ops", agent_id: "ops" });
+
+    const missing = await getModels("/v1/models/openclaw:nope");
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: { code: "model_not_found" } });
+  });
+
+  it("requires the gateway token and GET", async () => {
+    expect((await getModels("/v1/models", "wrong")).status).toBe(401);
+    const post = await fetch(`http://127.0.0.1:${port}/v1/models`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${TEST_GATEWAY_TOKEN}` },
+    });
+    expect(post.status).toBe(405);
+    expect(post.headers.get("allow")).toBe("GET");
+  });
+});
@@ -0,0 +1,141 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { listAgentIds, resolveAgentConfig, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { DEFAULT_PROVIDER } from "../agents/defaults.js";
+import { findModelInCatalog, type ModelCatalogEntry } from "../agents/model-catalog.js";
+import {
+  buildModelAliasIndex,
+  modelKey,
+  resolveDefaultModelForAgent,
+} from "../agents/model-selection.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import { sendJson, sendMethodNotAllowed } from "./http-common.js";
+import { resolveAgentIdFromModel } from "./http-utils.js";
+import { loadGatewayModelCatalog } from "./server-model-catalog.js";
+
+type OpenAiModelsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+const MODELS_PATH = "/v1/models";
+
+/**
+ * OpenAI model object for one agent. The `id` is what clients pass as `model`
+ * to `/v1/chat/completions`, `/v1/responses` and `/v1/embeddings`.
+ */
+export type OpenAiModelObject = {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: "openclaw";
+  agent_id: string;
+  name?: string;
+  default: boolean;
+  /** The agent's primary model as `provider/model`. */
+  model: string;
+  /** Aliases configured for the primary model under `agents.defaults.models`. */
+  model_aliases: string[];
+  context_window?: number;
+  input?: Array<"text" | "image">;
+};
+
+export function buildOpenAiModelList(
+  cfg: OpenClawConfig,
+  catalog: ModelCatalogEntry[],
+): OpenAiModelObject[] {
+  const defaultAgentId = resolveDefaultAgentId(cfg);
+  const aliasIndex = buildModelAliasIndex({ cfg, defaultProvider: DEFAULT_PROVIDER });
+  return listAgentIds(cfg).map((agentId) => {
+    const ref = resolveDefaultModelForAgent({ cfg, agentId });
+    const entry = findModelInCatalog(catalog, ref.provider, ref.model);
+    const name = resolveAgentConfig(cfg, agentId)?.name?.trim();
+    return {
+      id: `openclaw:${agentId}`,
+      object: "model",
+      created: 0,
+      owned_by: "openclaw",
+      agent_id: agentId,
+      ...(name ? { name } : {}),
+      default: agentId === defaultAgentId,
+      model: modelKey(ref.provider, ref.model),
+      model_aliases: aliasIndex.byKey.get(modelKey(ref.provider, ref.model)) ?? [],
+      ...(entry?.contextWindow ? { context_window: entry.contextWindow } : {}),
+      ...(entry?.input ? { input: entry.input } : {}),
+    };
+  });
+}
+
+function decodeModelId(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+async function loadCatalogOrEmpty(): Promise<ModelCatalogEntry[]> {
+  try {
+    return await loadGatewayModelCatalog();
+  } catch (err) {
+    logWarn(`openai-compat: model catalog unavailable: ${String(err)}`);
+    return [];
+  }
+}
+
+export async function handleOpenAiModelsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiModelsHttpOptions,
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
+  const requestedId = url.pathname.startsWith(`${MODELS_PATH}/`)
+    ? decodeModelId(url.pathname.slice(MODELS_PATH.length + 1))
+    : undefined;
+  if (url.pathname !== MODELS_PATH && !requestedId) {
+    return false;
+  }
+
+  if (req.method !== "GET") {
+    sendMethodNotAllowed(res, "GET");
+    return true;
+  }
+
+  const authorized = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authorized) {
+    return true;
+  }
+
+  const models = buildOpenAiModelList(loadConfig(), await loadCatalogOrEmpty());
+  if (requestedId === undefined) {
+    sendJson(res, 200, { object: "list", data: models });
+    return true;
+  }
+
+  const agentId = resolveAgentIdFromModel(requestedId);
+  const model = agentId ? models.find((entry) => entry.agent_id === agentId) : undefined;
+  if (!model) {
+    sendJson(res, 404, {
+      error: {
+        message: `The model '${requestedId}' does not exist`,
+        type: "invalid_request_error",
+        code: "model_not_found",
+      },
+    });
+    return true;
+  }
+  sendJson(res, 200, model);
+  return true;
+}
@@ -76,12 +76,21 @@ import {
   ConnectParamsSchema,
   type CronAddParams,
   CronAddParamsSchema,
+  type CronDeadLetter,
+  type CronDeadLettersParams,
+  CronDeadLettersParamsSchema,
+  type CronGraphParams,
+  CronGraphParamsSchema,
   type CronJob,
   CronJobSchema,
   type CronListParams,
   CronListParamsSchema,
+  type CronRedriveParams,
+  CronRedriveParamsSchema,
   type CronRemoveParams,
   CronRemoveParamsSchema,
+  type CronReplayParams,
+  CronReplayParamsSchema,
   type CronRunLogEntry,
   type CronRunParams,
   CronRunParamsSchema,
@@ -154,6 +163,10 @@ import {
   NodePairVerifyParamsSchema,
   type NodeRenameParams,
   NodeRenameParamsSchema,
+  type OutboundApprovalListParams,
+  OutboundApprovalListParamsSchema,
+  type OutboundApprovalResolveParams,
+  OutboundApprovalResolveParamsSchema,
   type PollParams,
   PollParamsSchema,
   PROTOCOL_VERSION,
@@ -178,10 +191,14 @@ import {
   SessionsPatchParamsSchema,
   type SessionsPreviewParams,
   SessionsPreviewParamsSchema,
+  type SessionsReplayParams,
+  SessionsReplayParamsSchema,
   type SessionsResetParams,
   SessionsResetParamsSchema,
   type SessionsResolveParams,
   SessionsResolveParamsSchema,
+  type SessionsRollbackParams,
+  SessionsRollbackParamsSchema,
   type SessionsUsageParams,
   SessionsUsageParamsSchema,
   type ShutdownEvent,
@@ -301,6 +318,12 @@ export const validateSessionsDeleteParams = ajv.compile<SessionsDeleteParams>(
 export const validateSessionsCompactParams = ajv.compile<SessionsCompactParams>(
   SessionsCompactParamsSchema,
 );
+export const validateSessionsRollbackParams = ajv.compile<SessionsRollbackParams>(
+  SessionsRollbackParamsSchema,
+);
+export const validateSessionsReplayParams = ajv.compile<SessionsReplayParams>(
+  SessionsReplayParamsSchema,
+);
 export const validateSessionsUsageParams =
   ajv.compile<SessionsUsageParams>(SessionsUsageParamsSchema);
 export const validateConfigGetParams = ajv.compile<ConfigGetParams>(ConfigGetParamsSchema);
@@ -334,6 +357,12 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateCronGraphParams = ajv.compile<CronGraphParams>(CronGraphParamsSchema);
+export const validateCronReplayParams = ajv.compile<CronReplayParams>(CronReplayParamsSchema);
+export const validateCronDeadLettersParams = ajv.compile<CronDeadLettersParams>(
+  CronDeadLettersParamsSchema,
+);
+export const validateCronRedriveParams = ajv.compile<CronRedriveParams>(CronRedriveParamsSchema);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -364,6 +393,12 @@ export const validateExecApprovalRequestParams = ajv.compile<ExecApprovalRequest
 export const validateExecApprovalResolveParams = ajv.compile<ExecApprovalResolveParams>(
   ExecApprovalResolveParamsSchema,
 );
+export const validateOutboundApprovalListParams = ajv.compile<OutboundApprovalListParams>(
+  OutboundApprovalListParamsSchema,
+);
+export const validateOutboundApprovalResolveParams = ajv.compile<OutboundApprovalResolveParams>(
+  OutboundApprovalResolveParamsSchema,
+);
 export const validateExecApprovalsNodeGetParams = ajv.compile<ExecApprovalsNodeGetParams>(
   ExecApprovalsNodeGetParamsSchema,
 );
@@ -451,6 +486,8 @@ export {
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsCompactParamsSchema,
+  SessionsRollbackParamsSchema,
+  SessionsReplayParamsSchema,
   SessionsUsageParamsSchema,
   ConfigGetParamsSchema,
   ConfigSetParamsSchema,
@@ -502,6 +539,10 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronGraphParamsSchema,
+  CronReplayParamsSchema,
+  CronDeadLettersParamsSchema,
+  CronRedriveParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -600,6 +641,8 @@ export type {
   SessionsResetParams,
   SessionsDeleteParams,
   SessionsCompactParams,
+  SessionsRollbackParams,
+  SessionsReplayParams,
   SessionsUsageParams,
   CronJob,
   CronListParams,
@@ -609,10 +652,17 @@ export type {
   CronRemoveParams,
   CronRunParams,
   CronRunsParams,
+  CronGraphParams,
+  CronReplayParams,
+  CronDeadLettersParams,
+  CronRedriveParams,
+  CronDeadLetter,
   CronRunLogEntry,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
   ExecApprovalsSnapshot,
+  OutboundApprovalListParams,
+  OutboundApprovalResolveParams,
   LogsTailParams,
   LogsTailResult,
   PollParams,
@@ -26,6 +26,12 @@ const CronRunStatusSchema = Type.Union([
   Type.Literal("error"),
   Type.Literal("skipped"),
 ]);
+const CronChainConditionSchema = Type.Union([
+  Type.Literal("ok"),
+  Type.Literal("error"),
+  Type.Literal("skipped"),
+  Type.Literal("any"),
+]);
 const CronSortDirSchema = Type.Union([Type.Literal("asc"), Type.Literal("desc")]);
 const CronJobsEnabledFilterSchema = Type.Union([
   Type.Literal("all"),
@@ -87,6 +93,14 @@ const CronRunLogJobIdSchema = Type.String({
   pattern: "^[^/\\\\]+$",
 });
 
+const CronCalendarFields = {
+  excludeDates: Type.Optional(
+    Type.Array(Type.String({ pattern: "^\\d{4}-\\d{2}-\\d{2}(\\.\\.\\d{4}-\\d{2}-\\d{2})?$" })),
+  ),
+  icsFile: Type.Optional(NonEmptyString),
+  businessDaysOnly: Type.Optional(Type.Boolean()),
+};
+
 export const CronScheduleSchema = Type.Union([
   Type.Object(
     {
@@ -100,6 +114,7 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("every"),
       everyMs: Type.Integer({ minimum: 1 }),
       anchorMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      ...CronCalendarFields,
     },
     { additionalProperties: false },
   ),
@@ -109,6 +124,16 @@ export const CronScheduleSchema = Type.Union([
       expr: NonEmptyString,
       tz: Type.Optional(Type.String()),
       staggerMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      ...CronCalendarFields,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      after: Type.Array(NonEmptyString, { minItems: 1 }),
+      on: Type.Optional(CronChainConditionSchema),
+      summaryPattern: Type.Optional(Type.String()),
     },
     { additionalProperties: false },
   ),
@@ -186,6 +211,42 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+const CronRetryErrorClassSchema = Type.Union([
+  Type.Literal("overloaded"),
+  Type.Literal("rate-limit"),
+  Type.Literal("timeout"),
+  Type.Literal("delivery-target"),
+  Type.Literal("other"),
+]);
+
+export const CronRetryPolicySchema = Type.Object(
+  {
+    maxAttempts: Type.Optional(Type.Integer({ minimum: 1, maximum: 20 })),
+    backoffBaseMs: Type.Optional(Type.Integer({ minimum: 1 })),
+    backoffCapMs: Type.Optional(Type.Integer({ minimum: 1 })),
+    retryOn: Type.Optional(Type.Array(CronRetryErrorClassSchema, { minItems: 1, maxItems: 5 })),
+  },
+  { additionalProperties: false },
+);
+
+const CronRunRetrySchema = Type.Object(
+  {
+    attempt: Type.Integer({ minimum: 1 }),
+    errorClass: CronRetryErrorClassSchema,
+    retryAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    deadLettered: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+const CronRunChainSchema = Type.Object(
+  {
+    chainRunId: NonEmptyString,
+    triggeredBy: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -199,6 +260,28 @@ export const CronJobStateSchema = Type.Object(
     lastDelivered: Type.Optional(Type.Boolean()),
     lastDeliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     lastDeliveryError: Type.Optional(Type.String()),
+    pendingChain: Type.Optional(
+      Type.Object(
+        {
+          chainRunId: NonEmptyString,
+          triggeredBy: Type.Optional(NonEmptyString),
+          triggeredAtMs: Type.Integer({ minimum: 0 }),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    lastChain: Type.Optional(CronRunChainSchema),
+    lastRetry: Type.Optional(CronRunRetrySchema),
+    calendarSkip: Type.Optional(
+      Type.Object(
+        {
+          skippedAtMs: Type.Integer({ minimum: 0 }),
+          reason: Type.String(),
+          skippedRuns: Type.Integer({ minimum: 1 }),
+        },
+        { additionalProperties: false },
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -219,6 +302,7 @@ export const CronJobSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -248,6 +332,7 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
   },
   { additionalProperties: false },
 );
@@ -261,6 +346,7 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(CronWakeModeSchema),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    retry: Type.Optional(Type.Union([CronRetryPolicySchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -291,6 +377,52 @@ export const CronRunsParamsSchema = Type.Object(
     deliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     query: Type.Optional(Type.String()),
     sortDir: Type.Optional(CronSortDirSchema),
+    chainRunId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const CronGraphParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const CronReplayParamsSchema = Type.Object(
+  {
+    chainRunId: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const CronDeadLettersParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+    offset: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronRedriveParamsSchema = Type.Object(
+  {
+    deadLetterId: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const CronDeadLetterSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    jobId: NonEmptyString,
+    jobName: Type.Optional(Type.String()),
+    ts: Type.Integer({ minimum: 0 }),
+    runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    attempts: Type.Integer({ minimum: 1 }),
+    error: Type.Optional(Type.String()),
+    errorClass: CronRetryErrorClassSchema,
+    chainRunId: Type.Optional(NonEmptyString),
   },
   { additionalProperties: false },
 );
@@ -325,6 +457,9 @@ export const CronRunLogEntrySchema = Type.Object(
         { additionalProperties: false },
       ),
     ),
+    chainRunId: Type.Optional(NonEmptyString),
+    triggeredBy: Type.Optional(NonEmptyString),
+    retry: Type.Optional(CronRunRetrySchema),
     jobName: Type.Optional(Type.String()),
   },
   { additionalProperties: false },
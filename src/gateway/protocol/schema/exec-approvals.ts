@@ -129,3 +129,14 @@ export const ExecApprovalResolveParamsSchema = Type.Object(
   },
   { additionalProperties: false },
 );
+
+export const OutboundApprovalListParamsSchema = Type.Object({}, { additionalProperties: false });
+
+export const OutboundApprovalResolveParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    decision: Type.Union([Type.Literal("approve"), Type.Literal("edit"), Type.Literal("reject")]),
+    text: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
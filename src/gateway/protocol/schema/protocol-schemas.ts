@@ -61,9 +61,14 @@ import {
 } from "./config.js";
 import {
   CronAddParamsSchema,
+  CronDeadLetterSchema,
+  CronDeadLettersParamsSchema,
+  CronGraphParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
+  CronRedriveParamsSchema,
   CronRemoveParamsSchema,
+  CronReplayParamsSchema,
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
@@ -88,6 +93,8 @@ import {
   ExecApprovalsSnapshotSchema,
   ExecApprovalRequestParamsSchema,
   ExecApprovalResolveParamsSchema,
+  OutboundApprovalListParamsSchema,
+  OutboundApprovalResolveParamsSchema,
 } from "./exec-approvals.js";
 import {
   ConnectParamsSchema,
@@ -131,7 +138,9 @@ import {
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
   SessionsResetParamsSchema,
+  SessionsReplayParamsSchema,
   SessionsResolveParamsSchema,
+  SessionsRollbackParamsSchema,
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
@@ -186,6 +195,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   SessionsResetParams: SessionsResetParamsSchema,
   SessionsDeleteParams: SessionsDeleteParamsSchema,
   SessionsCompactParams: SessionsCompactParamsSchema,
+  SessionsRollbackParams: SessionsRollbackParamsSchema,
+  SessionsReplayParams: SessionsReplayParamsSchema,
   SessionsUsageParams: SessionsUsageParamsSchema,
   ConfigGetParams: ConfigGetParamsSchema,
   ConfigSetParams: ConfigSetParamsSchema,
@@ -246,6 +257,11 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRemoveParams: CronRemoveParamsSchema,
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
+  CronGraphParams: CronGraphParamsSchema,
+  CronReplayParams: CronReplayParamsSchema,
+  CronDeadLettersParams: CronDeadLettersParamsSchema,
+  CronRedriveParams: CronRedriveParamsSchema,
+  CronDeadLetter: CronDeadLetterSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
@@ -256,6 +272,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   ExecApprovalsSnapshot: ExecApprovalsSnapshotSchema,
   ExecApprovalRequestParams: ExecApprovalRequestParamsSchema,
   ExecApprovalResolveParams: ExecApprovalResolveParamsSchema,
+  OutboundApprovalListParams: OutboundApprovalListParamsSchema,
+  OutboundApprovalResolveParams: OutboundApprovalResolveParamsSchema,
   DevicePairListParams: DevicePairListParamsSchema,
   DevicePairApproveParams: DevicePairApproveParamsSchema,
   DevicePairRejectParams: DevicePairRejectParamsSchema,
@@ -108,6 +108,28 @@ export const SessionsCompactParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsRollbackParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Turns to undo (default 1). */
+    turns: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsReplayParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** `provider/model` to replay against (default: the session's model). */
+    model: Type.Optional(NonEmptyString),
+    /** First user turn to replay, 1-based (default 1). */
+    fromTurn: Type.Optional(Type.Integer({ minimum: 1 })),
+    /** Turns to replay (default 20). */
+    maxTurns: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsUsageParamsSchema = Type.Object(
   {
     /** Specific session key to analyze; if omitted returns all sessions. */
@@ -59,9 +59,14 @@ import type {
 } from "./config.js";
 import type {
   CronAddParamsSchema,
+  CronDeadLetterSchema,
+  CronDeadLettersParamsSchema,
+  CronGraphParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
+  CronRedriveParamsSchema,
   CronRemoveParamsSchema,
+  CronReplayParamsSchema,
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
@@ -84,6 +89,8 @@ import type {
   ExecApprovalsSnapshotSchema,
   ExecApprovalRequestParamsSchema,
   ExecApprovalResolveParamsSchema,
+  OutboundApprovalListParamsSchema,
+  OutboundApprovalResolveParamsSchema,
 } from "./exec-approvals.js";
 import type {
   ConnectParamsSchema,
@@ -125,6 +132,8 @@ import type {
   SessionsPreviewParamsSchema,
   SessionsResetParamsSchema,
   SessionsResolveParamsSchema,
+  SessionsRollbackParamsSchema,
+  SessionsReplayParamsSchema,
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import type { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
@@ -175,6 +184,8 @@ export type SessionsPatchParams = Static<typeof SessionsPatchParamsSchema>;
 export type SessionsResetParams = Static<typeof SessionsResetParamsSchema>;
 export type SessionsDeleteParams = Static<typeof SessionsDeleteParamsSchema>;
 export type SessionsCompactParams = Static<typeof SessionsCompactParamsSchema>;
+export type SessionsRollbackParams = Static<typeof SessionsRollbackParamsSchema>;
+export type SessionsReplayParams = Static<typeof SessionsReplayParamsSchema>;
 export type SessionsUsageParams = Static<typeof SessionsUsageParamsSchema>;
 export type ConfigGetParams = Static<typeof ConfigGetParamsSchema>;
 export type ConfigSetParams = Static<typeof ConfigSetParamsSchema>;
@@ -235,6 +246,11 @@ export type CronUpdateParams = Static<typeof CronUpdateParamsSchema>;
 export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
 export type CronRunParams = Static<typeof CronRunParamsSchema>;
 export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
+export type CronGraphParams = Static<typeof CronGraphParamsSchema>;
+export type CronReplayParams = Static<typeof CronReplayParamsSchema>;
+export type CronDeadLettersParams = Static<typeof CronDeadLettersParamsSchema>;
+export type CronRedriveParams = Static<typeof CronRedriveParamsSchema>;
+export type CronDeadLetter = Static<typeof CronDeadLetterSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
@@ -245,6 +261,8 @@ export type ExecApprovalsNodeSetParams = Static<typeof ExecApprovalsNodeSetParam
 export type ExecApprovalsSnapshot = Static<typeof ExecApprovalsSnapshotSchema>;
 export type ExecApprovalRequestParams = Static<typeof ExecApprovalRequestParamsSchema>;
 export type ExecApprovalResolveParams = Static<typeof ExecApprovalResolveParamsSchema>;
+export type OutboundApprovalListParams = Static<typeof OutboundApprovalListParamsSchema>;
+export type OutboundApprovalResolveParams = Static<typeof OutboundApprovalResolveParamsSchema>;
 export type DevicePairListParams = Static<typeof DevicePairListParamsSchema>;
 export type DevicePairApproveParams = Static<typeof DevicePairApproveParamsSchema>;
 export type DevicePairRejectParams = Static<typeof DevicePairRejectParamsSchema>;
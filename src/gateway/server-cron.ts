@@ -7,6 +7,7 @@ import {
   resolveAgentMainSessionKey,
 } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
+import { appendCronDeadLetter, resolveCronDeadLetterPath } from "../cron/dead-letters.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
 import {
   appendCronRunLog,
@@ -314,11 +315,34 @@ export function buildGatewayCronService(params: {
             model: evt.model,
             provider: evt.provider,
             usage: evt.usage,
+            chainRunId: evt.chainRunId,
+            triggeredBy: evt.triggeredBy,
+            retry: evt.retry,
           },
           runLogPrune,
         ).catch((err) => {
           cronLogger.warn({ err: String(err), logPath }, "cron: run log append failed");
         });
+        if (evt.retry?.deadLettered) {
+          const deadLetterPath = resolveCronDeadLetterPath(storePath);
+          const ts = Date.now();
+          void appendCronDeadLetter(deadLetterPath, {
+            id: `${evt.jobId}:${evt.runAtMs ?? ts}`,
+            jobId: evt.jobId,
+            jobName: job?.name,
+            ts,
+            runAtMs: evt.runAtMs,
+            attempts: evt.retry.attempt,
+            error: evt.error,
+            errorClass: evt.retry.errorClass,
+            chainRunId: evt.chainRunId,
+          }).catch((err) => {
+            cronLogger.warn(
+              { err: String(err), deadLetterPath },
+              "cron: dead letter append failed",
+            );
+          });
+        }
       }
     },
   });
@@ -16,6 +16,7 @@ import {
 } from "../canvas-host/a2ui.js";
 import type { CanvasHostHandler } from "../canvas-host/server.js";
 import { loadConfig } from "../config/config.js";
+import type { DiagnosticMetrics } from "../infra/diagnostic-metrics.js";
 import type { createSubsystemLogger } from "../logging/subsystem.js";
 import { safeEqualSecret } from "../security/secret-equal.js";
 import { handleSlackHttpRequest } from "../slack/http/index.js";
@@ -57,7 +58,10 @@ import {
 } from "./hooks.js";
 import { sendGatewayAuthFailure, setDefaultSecurityHeaders } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
+import { handleMetricsHttpRequest } from "./metrics-http.js";
+import { handleOpenAiEmbeddingsHttpRequest } from "./openai-embeddings-http.js";
 import { handleOpenAiHttpRequest } from "./openai-http.js";
+import { handleOpenAiModelsHttpRequest } from "./openai-models-http.js";
 import { handleOpenResponsesHttpRequest } from "./openresponses-http.js";
 import { GATEWAY_CLIENT_MODES, normalizeGatewayClientMode } from "./protocol/client-info.js";
 import { isProtectedPluginRoutePath } from "./security-path.js";
@@ -457,6 +461,11 @@ export function createGatewayHttpServer(opts: {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
+  /** Registry behind `GET /metrics`; the route is off when absent. */
+  diagnosticMetrics?: DiagnosticMetrics;
   strictTransportSecurityHeader?: string;
   handleHooksRequest: HooksRequestHandler;
   handlePluginRequest?: HooksRequestHandler;
@@ -474,6 +483,10 @@ export function createGatewayHttpServer(opts: {
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
+    diagnosticMetrics,
     strictTransportSecurityHeader,
     handleHooksRequest,
     handlePluginRequest,
@@ -572,6 +585,44 @@ export function createGatewayHttpServer(opts: {
           return;
         }
       }
+      if (openAiModelsEnabled) {
+        if (
+          await handleOpenAiModelsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (openAiEmbeddingsEnabled) {
+        if (
+          await handleOpenAiEmbeddingsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            config: openAiEmbeddingsConfig,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (diagnosticMetrics) {
+        if (
+          await handleMetricsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            metrics: diagnosticMetrics,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
       if (canvasHost) {
         if (isCanvasPath(requestPath)) {
           const ok = await authorizeCanvasRequest({
@@ -28,6 +28,8 @@ const BASE_METHODS = [
   "exec.approval.request",
   "exec.approval.waitDecision",
   "exec.approval.resolve",
+  "outbound.approval.list",
+  "outbound.approval.resolve",
   "wizard.start",
   "wizard.next",
   "wizard.cancel",
@@ -51,12 +53,15 @@ const BASE_METHODS = [
   "voicewake.get",
   "voicewake.set",
   "secrets.reload",
+  "secrets.status",
   "sessions.list",
   "sessions.preview",
   "sessions.patch",
   "sessions.reset",
   "sessions.delete",
   "sessions.compact",
+  "sessions.rollback",
+  "sessions.replay",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -85,6 +90,10 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "cron.graph",
+  "cron.replay",
+  "cron.deadLetters",
+  "cron.redrive",
   "system-presence",
   "system-event",
   "send",
@@ -122,5 +131,6 @@ export const GATEWAY_EVENTS = [
   "voicewake.changed",
   "exec.approval.requested",
   "exec.approval.resolved",
+  "outbound.approval.resolved",
   GATEWAY_EVENT_UPDATE_AVAILABLE,
 ];
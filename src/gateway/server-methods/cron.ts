@@ -1,5 +1,12 @@
+import {
+  readCronDeadLetters,
+  readCronDeadLettersPage,
+  removeCronDeadLetter,
+  resolveCronDeadLetterPath,
+} from "../../cron/dead-letters.js";
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
 import {
+  findFailedCronChainStep,
   readCronRunLogEntriesPage,
   readCronRunLogEntriesPageAll,
   resolveCronRunLogPath,
@@ -11,8 +18,12 @@ import {
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
+  validateCronDeadLettersParams,
+  validateCronGraphParams,
   validateCronListParams,
+  validateCronRedriveParams,
   validateCronRemoveParams,
+  validateCronReplayParams,
   validateCronRunParams,
   validateCronRunsParams,
   validateCronStatusParams,
@@ -234,6 +245,7 @@ export const cronHandlers: GatewayRequestHandlers = {
       deliveryStatus?: "delivered" | "not-delivered" | "unknown" | "not-requested";
       query?: string;
       sortDir?: "asc" | "desc";
+      chainRunId?: string;
     };
     const explicitScope = p.scope;
     const jobId = p.id ?? p.jobId;
@@ -263,6 +275,7 @@ export const cronHandlers: GatewayRequestHandlers = {
         deliveryStatus: p.deliveryStatus,
         query: p.query,
         sortDir: p.sortDir,
+        chainRunId: p.chainRunId,
         jobNameById,
       });
       respond(true, page, undefined);
@@ -292,7 +305,129 @@ export const cronHandlers: GatewayRequestHandlers = {
       deliveryStatus: p.deliveryStatus,
       query: p.query,
       sortDir: p.sortDir,
+      chainRunId: p.chainRunId,
     });
     respond(true, page, undefined);
   },
+  "cron.graph": async ({ params, respond, context }) => {
+    if (!validateCronGraphParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.graph params: ${formatValidationErrors(validateCronGraphParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { id?: string };
+    const graph = await context.cron.chainGraph(p.id);
+    respond(true, graph, undefined);
+  },
+  "cron.replay": async ({ params, respond, context }) => {
+    if (!validateCronReplayParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.replay params: ${formatValidationErrors(validateCronReplayParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { chainRunId: string };
+    const chainRuns = await readCronRunLogEntriesPageAll({
+      storePath: context.cronStorePath,
+      chainRunId: p.chainRunId,
+      limit: 200,
+      sortDir: "asc",
+    });
+    const failedStep = findFailedCronChainStep(chainRuns.entries);
+    if (!failedStep) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `cron.replay: chain run ${p.chainRunId} has no failed step`,
+        ),
+      );
+      return;
+    }
+    const result = await context.cron.run(failedStep.jobId, "force", {
+      chainRunId: p.chainRunId,
+    });
+    respond(true, { ...result, jobId: failedStep.jobId, chainRunId: p.chainRunId }, undefined);
+  },
+  "cron.deadLetters": async ({ params, respond, context }) => {
+    if (!validateCronDeadLettersParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.deadLetters params: ${formatValidationErrors(validateCronDeadLettersParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { id?: string; limit?: number; offset?: number };
+    const page = await readCronDeadLettersPage(resolveCronDeadLetterPath(context.cronStorePath), {
+      jobId: p.id,
+      limit: p.limit,
+      offset: p.offset,
+    });
+    respond(true, page, undefined);
+  },
+  "cron.redrive": async ({ params, respond, context }) => {
+    if (!validateCronRedriveParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.redrive params: ${formatValidationErrors(validateCronRedriveParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { deadLetterId: string };
+    const deadLetterPath = resolveCronDeadLetterPath(context.cronStorePath);
+    const deadLetter = (await readCronDeadLetters(deadLetterPath)).find(
+      (entry) => entry.id === p.deadLetterId,
+    );
+    if (!deadLetter) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `cron.redrive: unknown dead letter ${p.deadLetterId}`,
+        ),
+      );
+      return;
+    }
+    if (!context.cron.getJob(deadLetter.jobId)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `cron.redrive: job ${deadLetter.jobId} no longer exists`,
+        ),
+      );
+      return;
+    }
+    const result = await context.cron.run(
+      deadLetter.jobId,
+      "force",
+      deadLetter.chainRunId ? { chainRunId: deadLetter.chainRunId } : undefined,
+    );
+    if (result.ok && "ran" in result && result.ran) {
+      await removeCronDeadLetter(deadLetterPath, deadLetter.id);
+    }
+    respond(true, { ...result, jobId: deadLetter.jobId, deadLetterId: deadLetter.id }, undefined);
+  },
 };
@@ -0,0 +1,87 @@
+import { loadConfig } from "../../config/config.js";
+import {
+  listOutboundApprovals,
+  resolveOutboundApproval,
+  type OutboundApprovalDecision,
+} from "../../infra/outbound/outbound-approvals.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateOutboundApprovalListParams,
+  validateOutboundApprovalResolveParams,
+} from "../protocol/index.js";
+import type { GatewayRequestHandlers } from "./types.js";
+import { assertValidParams } from "./validation.js";
+
+export const outboundApprovalsHandlers: GatewayRequestHandlers = {
+  "outbound.approval.list": async ({ params, respond }) => {
+    if (
+      !assertValidParams(
+        params,
+        validateOutboundApprovalListParams,
+        "outbound.approval.list",
+        respond,
+      )
+    ) {
+      return;
+    }
+    try {
+      respond(true, { approvals: await listOutboundApprovals() }, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
+    }
+  },
+  "outbound.approval.resolve": async ({ params, respond, context, client }) => {
+    if (
+      !assertValidParams(
+        params,
+        validateOutboundApprovalResolveParams,
+        "outbound.approval.resolve",
+        respond,
+      )
+    ) {
+      return;
+    }
+    const p = params as { id: string; decision: OutboundApprovalDecision; text?: string };
+    if (p.decision === "edit" && !p.text?.trim()) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "text is required for decision=edit"),
+      );
+      return;
+    }
+    let resolution: Awaited<ReturnType<typeof resolveOutboundApproval>>;
+    try {
+      resolution = await resolveOutboundApproval({
+        cfg: loadConfig(),
+        id: p.id.trim(),
+        decision: p.decision,
+        text: p.text,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const code = message.startsWith("unknown or already resolved")
+        ? ErrorCodes.INVALID_REQUEST
+        : ErrorCodes.UNAVAILABLE;
+      respond(false, undefined, errorShape(code, message));
+      return;
+    }
+    const resolvedBy = client?.connect?.client?.displayName ?? client?.connect?.client?.id;
+    context.broadcast(
+      "outbound.approval.resolved",
+      { id: resolution.id, decision: resolution.decision, resolvedBy, ts: Date.now() },
+      { dropIfSlow: true },
+    );
+    respond(
+      true,
+      {
+        ok: true,
+        id: resolution.id,
+        decision: resolution.decision,
+        sent: resolution.results.length,
+      },
+      undefined,
+    );
+  },
+};
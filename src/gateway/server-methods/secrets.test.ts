@@ -5,6 +5,7 @@ describe("secrets handlers", () => {
   it("responds with warning count on successful reload", async () => {
     const handlers = createSecretsHandlers({
       reloadSecrets: vi.fn().mockResolvedValue({ warningCount: 2 }),
+      getSecretsStatus: vi.fn(),
     });
     const respond = vi.fn();
     await handlers["secrets.reload"]({
@@ -21,6 +22,7 @@ describe("secrets handlers", () => {
   it("returns unavailable when reload fails", async () => {
     const handlers = createSecretsHandlers({
       reloadSecrets: vi.fn().mockRejectedValue(new Error("reload failed")),
+      getSecretsStatus: vi.fn(),
     });
     const respond = vi.fn();
     await handlers["secrets.reload"]({
@@ -40,4 +42,37 @@ describe("secrets handlers", () => {
       }),
     );
   });
+
+  it("reports ref ages and upcoming refreshes", async () => {
+    const status = {
+      active: true,
+      degraded: false,
+      nextRefreshAt: 90_000,
+      refs: [
+        {
+          ref: "exec:vault:openai/api-key",
+          paths: ["models.providers.openai.apiKey"],
+          resolvedAt: 0,
+          ageMs: 1_000,
+          expiresAt: 120_000,
+          expiresInMs: 119_000,
+          refreshAt: 90_000,
+        },
+      ],
+    };
+    const handlers = createSecretsHandlers({
+      reloadSecrets: vi.fn(),
+      getSecretsStatus: () => status,
+    });
+    const respond = vi.fn();
+    await handlers["secrets.status"]({
+      req: { type: "req", id: "1", method: "secrets.status" },
+      params: {},
+      client: null,
+      isWebchatConnect: () => false,
+      respond,
+      context: {} as never,
+    });
+    expect(respond).toHaveBeenCalledWith(true, status);
+  });
 });
@@ -1,8 +1,15 @@
+import type { SecretsRefreshStatus } from "../../secrets/refresh.js";
 import { ErrorCodes, errorShape } from "../protocol/index.js";
 import type { GatewayRequestHandlers } from "./types.js";
 
+export type SecretsStatusResult = SecretsRefreshStatus & {
+  active: boolean;
+  degraded: boolean;
+};
+
 export function createSecretsHandlers(params: {
   reloadSecrets: () => Promise<{ warningCount: number }>;
+  getSecretsStatus: () => SecretsStatusResult;
 }): GatewayRequestHandlers {
   return {
     "secrets.reload": async ({ respond }) => {
@@ -13,5 +20,8 @@ export function createSecretsHandlers(params: {
         respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
       }
     },
+    "secrets.status": ({ respond }) => {
+      respond(true, params.getSecretsStatus());
+    },
   };
 }
@@ -253,6 +253,8 @@ export const sendHandlers: GatewayRequestHandlers = {
           gifPlayback: request.gifPlayback,
           threadId: threadId ?? null,
           deps: outboundDeps,
+          // Operator sends, and message-tool sends that already passed approvals.outbound.
+          skipApproval: true,
           mirror: providedSessionKey
             ? {
                 sessionKey: providedSessionKey,
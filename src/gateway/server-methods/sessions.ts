@@ -1,9 +1,11 @@
 import { randomUUID } from "node:crypto";
 import fs from "node:fs";
 import { getAcpSessionManager } from "../../acp/control-plane/manager.js";
-import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../../agents/agent-scope.js";
 import { clearBootstrapSnapshot } from "../../agents/bootstrap-cache.js";
 import { abortEmbeddedPiRun, waitForEmbeddedPiRunEnd } from "../../agents/pi-embedded.js";
+import { rollbackSandboxSession } from "../../agents/sandbox.js";
+import { replaySession } from "../../agents/session-replay.js";
 import { stopSubagentsForRequester } from "../../auto-reply/reply/abort.js";
 import { clearSessionQueues } from "../../auto-reply/reply/queue.js";
 import { loadConfig } from "../../config/config.js";
@@ -33,6 +35,8 @@ import {
   validateSessionsPreviewParams,
   validateSessionsResetParams,
   validateSessionsResolveParams,
+  validateSessionsReplayParams,
+  validateSessionsRollbackParams,
 } from "../protocol/index.js";
 import {
   archiveFileOnDisk,
@@ -683,4 +687,113 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       undefined,
     );
   },
+  "sessions.rollback": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsRollbackParams, "sessions.rollback", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const { entry } = loadSessionEntry(key);
+    const sessionId = entry?.sessionId;
+    if (sessionId) {
+      abortEmbeddedPiRun(sessionId);
+      const ended = await waitForEmbeddedPiRunEnd(sessionId, 15_000);
+      if (!ended) {
+        respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.UNAVAILABLE,
+            `Session ${key} is still active; try again in a moment.`,
+          ),
+        );
+        return;
+      }
+    }
+    const sessionFile = sessionId
+      ? resolveSessionTranscriptCandidates(
+          sessionId,
+          storePath,
+          entry?.sessionFile,
+          target.agentId,
+        ).find((candidate) => fs.existsSync(candidate))
+      : undefined;
+
+    try {
+      const result = await rollbackSandboxSession({
+        config: cfg,
+        sessionKey: target.canonicalKey,
+        workspaceDir: resolveAgentWorkspaceDir(cfg, target.agentId),
+        steps: p.turns ?? 1,
+        sessionFile,
+      });
+      respond(
+        true,
+        {
+          ok: true,
+          key: target.canonicalKey,
+          turns: result.turns,
+          snapshot: {
+            id: result.snapshot.id,
+            runId: result.snapshot.runId,
+            createdAt: result.snapshot.createdAtMs,
+          },
+          transcriptEntryId: result.transcriptEntryId,
+        },
+        undefined,
+      );
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, String(err)));
+    }
+  },
+  "sessions.replay": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsReplayParams, "sessions.replay", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const { entry } = loadSessionEntry(key);
+    const sessionFile = entry?.sessionId
+      ? resolveSessionTranscriptCandidates(
+          entry.sessionId,
+          storePath,
+          entry.sessionFile,
+          target.agentId,
+        ).find((candidate) => fs.existsSync(candidate))
+      : undefined;
+    if (!sessionFile) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `No transcript found for session ${key}`),
+      );
+      return;
+    }
+
+    try {
+      const result = await replaySession({
+        cfg,
+        sessionKey: target.canonicalKey,
+        sessionFile,
+        agentId: target.agentId,
+        sessionEntry: entry,
+        model: p.model,
+        fromTurn: p.fromTurn,
+        maxTurns: p.maxTurns,
+      });
+      respond(true, { ok: true, key: target.canonicalKey, ...result }, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, String(err)));
+    }
+  },
 };
@@ -18,6 +18,7 @@ import { setCommandLaneConcurrency, getTotalQueueSize } from "../process/command
 import { CommandLane } from "../process/lanes.js";
 import type { ChannelKind, GatewayReloadPlan } from "./config-reload.js";
 import { resolveHooksConfig } from "./hooks.js";
+import { resetOpenAiEmbeddingsProviderCache } from "./openai-embeddings-http.js";
 import { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import { buildGatewayCronService, type GatewayCronState } from "./server-cron.js";
 
@@ -66,6 +67,7 @@ export function createGatewayReloadHandlers(params: {
     }
 
     resetDirectoryCache();
+    resetOpenAiEmbeddingsProviderCache();
 
     if (plan.restartCron) {
       state.cronState.cron.stop();
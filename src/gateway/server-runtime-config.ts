@@ -25,6 +25,10 @@ export type GatewayRuntimeConfig = {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled: boolean;
+  openAiEmbeddingsEnabled: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
+  metricsEnabled: boolean;
   strictTransportSecurityHeader?: string;
   controlUiBasePath: string;
   controlUiRoot?: string;
@@ -44,6 +48,9 @@ export async function resolveGatewayRuntimeConfig(params: {
   controlUiEnabled?: boolean;
   openAiChatCompletionsEnabled?: boolean;
   openResponsesEnabled?: boolean;
+  openAiModelsEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  metricsEnabled?: boolean;
   auth?: GatewayAuthConfig;
   tailscale?: GatewayTailscaleConfig;
 }): Promise<GatewayRuntimeConfig> {
@@ -79,6 +86,13 @@ export async function resolveGatewayRuntimeConfig(params: {
     false;
   const openResponsesConfig = params.cfg.gateway?.http?.endpoints?.responses;
   const openResponsesEnabled = params.openResponsesEnabled ?? openResponsesConfig?.enabled ?? false;
+  const openAiModelsEnabled =
+    params.openAiModelsEnabled ?? params.cfg.gateway?.http?.endpoints?.models?.enabled ?? false;
+  const openAiEmbeddingsConfig = params.cfg.gateway?.http?.endpoints?.embeddings;
+  const openAiEmbeddingsEnabled =
+    params.openAiEmbeddingsEnabled ?? openAiEmbeddingsConfig?.enabled ?? false;
+  const metricsEnabled =
+    params.metricsEnabled ?? params.cfg.gateway?.http?.endpoints?.metrics?.enabled ?? false;
   const strictTransportSecurityConfig =
     params.cfg.gateway?.http?.securityHeaders?.strictTransportSecurity;
   const strictTransportSecurityHeader =
@@ -172,6 +186,12 @@ export async function resolveGatewayRuntimeConfig(params: {
     openResponsesConfig: openResponsesConfig
       ? { ...openResponsesConfig, enabled: openResponsesEnabled }
       : undefined,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig: openAiEmbeddingsConfig
+      ? { ...openAiEmbeddingsConfig, enabled: openAiEmbeddingsEnabled }
+      : undefined,
+    metricsEnabled,
     strictTransportSecurityHeader,
     controlUiBasePath,
     controlUiRoot,
@@ -27,6 +27,7 @@ import {
   resolveControlUiRootSync,
 } from "../infra/control-ui-assets.js";
 import { isDiagnosticsEnabled } from "../infra/diagnostic-events.js";
+import { startDiagnosticMetrics } from "../infra/diagnostic-metrics.js";
 import { logAcceptedEnvOption } from "../infra/env.js";
 import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js";
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
@@ -48,6 +49,7 @@ import { createEmptyPluginRegistry } from "../plugins/registry.js";
 import type { PluginServicesHandle } from "../plugins/services.js";
 import { getTotalQueueSize } from "../process/command-queue.js";
 import type { RuntimeEnv } from "../runtime.js";
+import { createSecretsRefreshScheduler } from "../secrets/refresh.js";
 import {
   activateSecretsRuntimeSnapshot,
   clearSecretsRuntimeSnapshot,
@@ -57,7 +59,12 @@ import {
 import { runOnboardingWizard } from "../wizard/onboarding.js";
 import { createAuthRateLimiter, type AuthRateLimiter } from "./auth-rate-limit.js";
 import { startChannelHealthMonitor } from "./channel-health-monitor.js";
-import { startGatewayConfigReloader } from "./config-reload.js";
+import {
+  buildGatewayReloadPlan,
+  diffConfigPaths,
+  startGatewayConfigReloader,
+  type GatewayReloadPlan,
+} from "./config-reload.js";
 import type { ControlUiRootState } from "./control-ui.js";
 import {
   GATEWAY_EVENT_UPDATE_AVAILABLE,
@@ -169,6 +176,21 @@ export type GatewayServerOptions = {
    * Default: config `gateway.http.endpoints.responses.enabled` (or false when absent).
    */
   openResponsesEnabled?: boolean;
+  /**
+   * If false, do not serve `GET /v1/models`.
+   * Default: config `gateway.http.endpoints.models.enabled` (or false when absent).
+   */
+  openAiModelsEnabled?: boolean;
+  /**
+   * If false, do not serve `POST /v1/embeddings`.
+   * Default: config `gateway.http.endpoints.embeddings.enabled` (or false when absent).
+   */
+  openAiEmbeddingsEnabled?: boolean;
+  /**
+   * If false, do not serve the Prometheus `GET /metrics` endpoint.
+   * Default: config `gateway.http.endpoints.metrics.enabled` (or false when absent).
+   */
+  metricsEnabled?: boolean;
   /**
    * Override gateway auth configuration (merges with config).
    */
@@ -270,6 +292,31 @@ export async function startGatewayServer(
       contextKey: code,
     });
   };
+  const markSecretsRecovered = (cfg: OpenClawConfig) => {
+    if (secretsDegraded) {
+      const recoveredMessage =
+        "Secret resolution recovered; runtime remained on last-known-good during the outage.";
+      logSecrets.info(`[SECRETS_RELOADER_RECOVERED] ${recoveredMessage}`);
+      emitSecretsStateEvent("SECRETS_RELOADER_RECOVERED", recoveredMessage, cfg);
+    }
+    secretsDegraded = false;
+  };
+  const markSecretsDegraded = (err: unknown, cfg: OpenClawConfig, notify: boolean) => {
+    const details = String(err);
+    if (!secretsDegraded) {
+      logSecrets.error(`[SECRETS_RELOADER_DEGRADED] ${details}`);
+      if (notify) {
+        emitSecretsStateEvent(
+          "SECRETS_RELOADER_DEGRADED",
+          `Secret resolution failed; runtime remains on last-known-good snapshot. ${details}`,
+          cfg,
+        );
+      }
+    } else {
+      logSecrets.warn(`[SECRETS_RELOADER_DEGRADED] ${details}`);
+    }
+    secretsDegraded = true;
+  };
   let secretsActivationTail: Promise<void> = Promise.resolve();
   const runWithSecretsActivationLock = async <T>(operation: () => Promise<T>): Promise<T> => {
     const run = secretsActivationTail.then(operation, operation);
@@ -288,35 +335,17 @@ export async function startGatewayServer(
         const prepared = await prepareSecretsRuntimeSnapshot({ config });
         if (params.activate) {
           activateSecretsRuntimeSnapshot(prepared);
+          secretsRefresh.reschedule();
         }
         for (const warning of prepared.warnings) {
           logSecrets.warn(`[${warning.code}] ${warning.message}`);
         }
-        if (secretsDegraded) {
-          const recoveredMessage =
-            "Secret resolution recovered; runtime remained on last-known-good during the outage.";
-          logSecrets.info(`[SECRETS_RELOADER_RECOVERED] ${recoveredMessage}`);
-          emitSecretsStateEvent("SECRETS_RELOADER_RECOVERED", recoveredMessage, prepared.config);
-        }
-        secretsDegraded = false;
+        markSecretsRecovered(prepared.config);
         return prepared;
       } catch (err) {
-        const details = String(err);
-        if (!secretsDegraded) {
-          logSecrets.error(`[SECRETS_RELOADER_DEGRADED] ${details}`);
-          if (params.reason !== "startup") {
-            emitSecretsStateEvent(
-              "SECRETS_RELOADER_DEGRADED",
-              `Secret resolution failed; runtime remains on last-known-good snapshot. ${details}`,
-              config,
-            );
-          }
-        } else {
-          logSecrets.warn(`[SECRETS_RELOADER_DEGRADED] ${details}`);
-        }
-        secretsDegraded = true;
+        markSecretsDegraded(err, config, params.reason !== "startup");
         if (params.reason === "startup") {
-          throw new Error(`Startup failed: required secrets are unavailable. ${details}`, {
+          throw new Error(`Startup failed: required secrets are unavailable. ${String(err)}`, {
             cause: err,
           });
         }
@@ -324,6 +353,44 @@ export async function startGatewayServer(
       }
     });
 
+  // Set once the config reloader exists; refreshed values hot-reload or restart through it.
+  let applySecretsRefreshPlan:
+    | ((plan: GatewayReloadPlan, nextConfig: OpenClawConfig) => Promise<void>)
+    | null = null;
+  const refreshRuntimeSecrets = async (refKeys: string[]) =>
+    await runWithSecretsActivationLock(async () => {
+      const active = getActiveSecretsRuntimeSnapshot();
+      if (!active) {
+        return;
+      }
+      let prepared: Awaited<ReturnType<typeof prepareSecretsRuntimeSnapshot>>;
+      try {
+        prepared = await prepareSecretsRuntimeSnapshot({
+          config: active.sourceConfig,
+          reuse: { snapshot: active, refreshKeys: new Set(refKeys) },
+        });
+      } catch (err) {
+        markSecretsDegraded(err, active.config, true);
+        throw err;
+      }
+      activateSecretsRuntimeSnapshot(prepared);
+      markSecretsRecovered(prepared.config);
+      logSecrets.info(`refreshed ${refKeys.length} expiring secret ref(s)`);
+      const changedPaths = diffConfigPaths(active.config, prepared.config);
+      if (changedPaths.length > 0 && applySecretsRefreshPlan) {
+        await applySecretsRefreshPlan(buildGatewayReloadPlan(changedPaths), prepared.config);
+      }
+    });
+  const secretsRefresh = createSecretsRefreshScheduler({
+    getSnapshot: getActiveSecretsRuntimeSnapshot,
+    refresh: refreshRuntimeSecrets,
+    onError: (err, refKeys) => {
+      logSecrets.warn(
+        `[SECRETS_REFRESH_FAILED] ${refKeys.join(", ")}: ${String(err)}; keeping previous values.`,
+      );
+    },
+  });
+
   // Fail fast before startup if required refs are unresolved.
   let cfgAtStart: OpenClawConfig;
   {
@@ -369,10 +436,6 @@ export async function startGatewayServer(
       activate: true,
     })
   ).config;
-  const diagnosticsEnabled = isDiagnosticsEnabled(cfgAtStart);
-  if (diagnosticsEnabled) {
-    startDiagnosticHeartbeat();
-  }
   setGatewaySigusr1RestartPolicy({ allowExternal: isRestartEnabled(cfgAtStart) });
   setPreRestartDeferralCheck(
     () => getTotalQueueSize() + getTotalPendingReplies() + getActiveEmbeddedRunCount(),
@@ -408,6 +471,9 @@ export async function startGatewayServer(
     controlUiEnabled: opts.controlUiEnabled,
     openAiChatCompletionsEnabled: opts.openAiChatCompletionsEnabled,
     openResponsesEnabled: opts.openResponsesEnabled,
+    openAiModelsEnabled: opts.openAiModelsEnabled,
+    openAiEmbeddingsEnabled: opts.openAiEmbeddingsEnabled,
+    metricsEnabled: opts.metricsEnabled,
     auth: opts.auth,
     tailscale: opts.tailscale,
   });
@@ -417,6 +483,10 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
+    metricsEnabled,
     strictTransportSecurityHeader,
     controlUiBasePath,
     controlUiRoot: controlUiRootOverride,
@@ -424,6 +494,12 @@ export async function startGatewayServer(
     tailscaleConfig,
     tailscaleMode,
   } = runtimeConfig;
+  const diagnosticMetrics = metricsEnabled ? startDiagnosticMetrics() : null;
+  // The heartbeat feeds the session gauges and stuck-session events /metrics reports.
+  const diagnosticHeartbeatEnabled = isDiagnosticsEnabled(cfgAtStart) || metricsEnabled;
+  if (diagnosticHeartbeatEnabled) {
+    startDiagnosticHeartbeat();
+  }
   let hooksConfig = runtimeConfig.hooksConfig;
   const canvasHostEnabled = runtimeConfig.canvasHostEnabled;
 
@@ -501,6 +577,10 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
+    diagnosticMetrics: diagnosticMetrics ?? undefined,
     strictTransportSecurityHeader,
     resolvedAuth,
     rateLimiter: authRateLimiter,
@@ -689,6 +769,11 @@ export async function startGatewayServer(
       });
       return { warningCount: prepared.warnings.length };
     },
+    getSecretsStatus: () => ({
+      active: getActiveSecretsRuntimeSnapshot() !== null,
+      degraded: secretsDegraded,
+      ...secretsRefresh.getStatus(),
+    }),
   });
 
   const canvasHostServerPort = (canvasHostServer as CanvasHostServer | null)?.port;
@@ -850,6 +935,13 @@ export async function startGatewayServer(
           logReload,
         });
 
+        applySecretsRefreshPlan = async (plan, nextConfig) => {
+          if (plan.restartGateway) {
+            requestGatewayRestart(plan, nextConfig);
+            return;
+          }
+          await applyHotReload(plan, nextConfig);
+        };
         return startGatewayConfigReloader({
           initialConfig: cfgAtStart,
           readSnapshot: readConfigFileSnapshot,
@@ -867,6 +959,7 @@ export async function startGatewayServer(
               } else {
                 clearSecretsRuntimeSnapshot();
               }
+              secretsRefresh.reschedule();
               throw err;
             }
           },
@@ -917,9 +1010,10 @@ export async function startGatewayServer(
         ctx: { port },
         onError: (err) => log.warn(`gateway_stop hook failed: ${String(err)}`),
       });
-      if (diagnosticsEnabled) {
+      if (diagnosticHeartbeatEnabled) {
         stopDiagnosticHeartbeat();
       }
+      diagnosticMetrics?.stop();
       if (skillsRefreshTimer) {
         clearTimeout(skillsRefreshTimer);
         skillsRefreshTimer = null;
@@ -928,6 +1022,7 @@ export async function startGatewayServer(
       authRateLimiter?.dispose();
       browserAuthRateLimiter.dispose();
       channelHealthMonitor?.stop();
+      secretsRefresh.stop();
       clearSecretsRuntimeSnapshot();
       await close(opts);
     },
@@ -145,6 +145,7 @@ const createStubPluginRegistry = (): PluginRegistry => ({
     },
   ],
   providers: [],
+  compactionStrategies: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
@@ -6,6 +6,8 @@ const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
 
 let cfg: Record<string, unknown> = {};
 let lastCreateOpenClawToolsContext: Record<string, unknown> | undefined;
+let createOpenClawToolsError: Error | undefined;
+const toolsInvokeInFlight = vi.hoisted(() => ({ current: 0, max: 0 }));
 
 // Perf: keep this suite pure unit. Mock heavyweight config/session modules.
 vi.mock("../config/config.js", () => ({
@@ -109,8 +111,24 @@ vi.mock("../agents/openclaw-tools.js", () => {
         required: ["mode"],
         additionalProperties: false,
       },
-      execute: async (_toolCallId: string, args: unknown) => {
+      execute: async (
+        _toolCallId: string,
+        args: unknown,
+        _signal?: AbortSignal,
+        onUpdate?: (partial: unknown) => void,
+      ) => {
         const mode = (args as { mode?: unknown })?.mode;
+        if (mode === "slow") {
+          toolsInvokeInFlight.current += 1;
+          toolsInvokeInFlight.max = Math.max(toolsInvokeInFlight.max, toolsInvokeInFlight.current);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          toolsInvokeInFlight.current -= 1;
+          return { ok: true };
+        }
+        if (mode === "progress") {
+          onUpdate?.({ step: 1 });
+          return { ok: true, done: true };
+        }
         if (mode === "input") {
           throw toolInputError("mode invalid");
         }
@@ -128,6 +146,9 @@ vi.mock("../agents/openclaw-tools.js", () => {
   return {
     createOpenClawTools: (ctx: Record<string, unknown>) => {
       lastCreateOpenClawToolsContext = ctx;
+      if (createOpenClawToolsError) {
+        throw createOpenClawToolsError;
+      }
       return tools;
     },
   };
@@ -547,3 +568,168 @@ describe("POST /tools/invoke", () => {
     expect(crashBody.error?.message).toBe("tool execution failed");
   });
 });
+
+describe("POST /tools/invoke batch mode", () => {
+  const allowTestTool = () => {
+    cfg = {
+      ...cfg,
+      agents: {
+        list: [{ id: "main", default: true, tools: { allow: ["tools_invoke_test"] } }],
+      },
+    };
+  };
+
+  it("runs invocations with a concurrency limit and reports each result", async () => {
+    allowTestTool();
+    toolsInvokeInFlight.max = 0;
+    const res = await postToolsInvoke({
+      port: sharedPort,
+      headers: gatewayAuthHeaders(),
+      body: {
+        sessionKey: "main",
+        concurrency: 2,
+        invocations: [
+          { id: "a", tool: "tools_invoke_test", args: { mode: "slow" } },
+          { id: "b", tool: "tools_invoke_test", args: { mode: "slow" } },
+          { id: "c", tool: "tools_invoke_test", args: { mode: "slow" } },
+          { id: "d", tool: "tools_invoke_test", args: { mode: "input" } },
+          { id: "e", tool: "gateway" },
+        ],
+      },
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.ok).toBe(false);
+    expect(body.results).toEqual([
+      { index: 0, id: "a", tool: "tools_invoke_test", status: 200, ok: true, result: { ok: true } },
+      { index: 1, id: "b", tool: "tools_invoke_test", status: 200, ok: true, result: { ok: true } },
+      { index: 2, id: "c", tool: "tools_invoke_test", status: 200, ok: true, result: { ok: true } },
+      {
+        index: 3,
+        id: "d",
+        tool: "tools_invoke_test",
+        status: 400,
+        ok: false,
+        error: { type: "tool_error", message: "mode invalid" },
+      },
+      {
+        index: 4,
+        id: "e",
+        tool: "gateway",
+        status: 404,
+        ok: false,
+        error: { type: "not_found", message: "Tool not available: gateway" },
+      },
+    ]);
+    expect(toolsInvokeInFlight.max).toBe(2);
+  });
+
+  it("reports tool resolution failures per invocation", async () => {
+    createOpenClawToolsError = new Error("plugin registry exploded");
+    try {
+      const res = await postToolsInvoke({
+        port: sharedPort,
+        headers: gatewayAuthHeaders(),
+        body: { invocations: [{ tool: "agents_list" }, { id: "b", tool: "agents_list" }] },
+      });
+      expect(res.status).toBe(200);
+      const failure = {
+        tool: "agents_list",
+        status: 500,
+        ok: false,
+        error: { type: "tool_error", message: "tool invocation failed" },
+      };
+      expect(await res.json()).toEqual({
+        ok: false,
+        results: [
+          { index: 0, ...failure },
+          { index: 1, id: "b", ...failure },
+        ],
+      });
+
+      const streamed = await postToolsInvoke({
+        port: sharedPort,
+        headers: { ...gatewayAuthHeaders(), accept: "text/event-stream" },
+        body: { tool: "agents_list" },
+      });
+      const text = await streamed.text();
+      expect(text).toContain("event: batch.completed");
+      expect(text.trimEnd().endsWith("data: [DONE]")).toBe(true);
+    } finally {
+      createOpenClawToolsError = undefined;
+    }
+  });
+
+  it("rejects empty or oversized batches", async () => {
+    const empty = await postToolsInvoke({
+      port: sharedPort,
+      headers: gatewayAuthHeaders(),
+      body: { invocations: [] },
+    });
+    expect(empty.status).toBe(400);
+
+    const oversized = await postToolsInvoke({
+      port: sharedPort,
+      headers: gatewayAuthHeaders(),
+      body: { invocations: Array.from({ length: 101 }, () => ({ tool: "agents_list" })) },
+    });
+    expect(oversized.status).toBe(400);
+  });
+
+  it("streams progress and results over SSE", async () => {
+    allowTestTool();
+    const res = await postToolsInvoke({
+      port: sharedPort,
+      headers: { ...gatewayAuthHeaders(), accept: "text/event-stream" },
+      body: {
+        invocations: [
+          { tool: "tools_invoke_test", args: { mode: "progress" } },
+          { tool: "tools_invoke_test", args: { mode: "crash" } },
+        ],
+        concurrency: 1,
+      },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const text = await res.text();
+    const events = text
+      .split("\n\n")
+      .filter((chunk) => chunk.startsWith("event: "))
+      .map((chunk) => {
+        const [eventLine, dataLine] = chunk.split("\n");
+        return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+      });
+    expect(events).toEqual([
+      { event: "invocation.started", data: { index: 0, tool: "tools_invoke_test" } },
+      {
+        event: "invocation.progress",
+        data: { index: 0, tool: "tools_invoke_test", update: { step: 1 } },
+      },
+      {
+        event: "invocation.completed",
+        data: {
+          index: 0,
+          tool: "tools_invoke_test",
+          status: 200,
+          ok: true,
+          result: { ok: true, done: true },
+        },
+      },
+      { event: "invocation.started", data: { index: 1, tool: "tools_invoke_test" } },
+      {
+        event: "invocation.completed",
+        data: {
+          index: 1,
+          tool: "tools_invoke_test",
+          status: 500,
+          ok: false,
+          error: { type: "tool_error", message: "tool execution failed" },
+        },
+      },
+      { event: "batch.completed", data: { ok: false, total: 2, failed: 1 } },
+    ]);
+    expect(text.trimEnd().endsWith("data: [DONE]")).toBe(true);
+  });
+});
@@ -23,6 +23,7 @@ import { getPluginToolMeta } from "../plugins/tools.js";
 import { isSubagentSessionKey } from "../routing/session-key.js";
 import { DEFAULT_GATEWAY_HTTP_TOOL_DENY } from "../security/dangerous-tools.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
+import { runTasksWithConcurrency } from "../utils/run-with-concurrency.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import { authorizeHttpGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
 import {
@@ -31,21 +32,62 @@ import {
   sendInvalidRequest,
   sendJson,
   sendMethodNotAllowed,
+  setSseHeaders,
+  writeDone,
 } from "./http-common.js";
 import { getBearerToken, getHeader } from "./http-utils.js";
 
 const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
-const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get"]);
+const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get", "memory_graph"]);
+const MAX_BATCH_INVOCATIONS = 100;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_CONCURRENCY = 16;
 
-type ToolsInvokeBody = {
+type ToolsInvokeCall = {
+  id?: unknown;
   tool?: unknown;
   action?: unknown;
   args?: unknown;
   sessionKey?: unknown;
+};
+
+type ToolsInvokeBody = ToolsInvokeCall & {
   dryRun?: unknown;
+  invocations?: unknown;
+  concurrency?: unknown;
+  stream?: unknown;
+};
+
+type ToolsInvokeError = { type: string; message: string };
+
+type ToolsInvokeOutcome = {
+  status: number;
+  body: { ok: true; result: unknown } | { ok: false; error: ToolsInvokeError };
+};
+
+/** Request-scoped inputs shared by every invocation in a (batch) request. */
+type ToolsInvokeContext = {
+  cfg: ReturnType<typeof loadConfig>;
+  messageChannel?: string;
+  accountId?: string;
+  agentTo?: string;
+  agentThreadId?: string;
+  /** Policy-filtered tool lists, built once per session key. */
+  toolsBySession: Map<string, AnyHttpTool[]>;
+};
+
+type AnyHttpTool = {
+  name: string;
+  parameters?: unknown;
+  execute?: (
+    toolCallId: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onUpdate?: (partial: unknown) => void,
+  ) => Promise<unknown>;
 };
 
-function resolveSessionKeyFromBody(body: ToolsInvokeBody): string | undefined {
+function resolveSessionKeyFromBody(body: ToolsInvokeCall): string | undefined {
   if (typeof body.sessionKey === "string" && body.sessionKey.trim()) {
     return body.sessionKey.trim();
   }
@@ -131,91 +173,12 @@ function resolveToolInputErrorStatus(err: unknown): number | null {
   return name === "ToolAuthorizationError" ? 403 : 400;
 }
 
-export async function handleToolsInvokeHttpRequest(
-  req: IncomingMessage,
-  res: ServerResponse,
-  opts: {
-    auth: ResolvedGatewayAuth;
-    maxBodyBytes?: number;
-    trustedProxies?: string[];
-    allowRealIpFallback?: boolean;
-    rateLimiter?: AuthRateLimiter;
-  },
-): Promise<boolean> {
-  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-  if (url.pathname !== "/tools/invoke") {
-    return false;
-  }
-
-  if (req.method !== "POST") {
-    sendMethodNotAllowed(res, "POST");
-    return true;
-  }
-
-  const cfg = loadConfig();
-  const token = getBearerToken(req);
-  const authResult = await authorizeHttpGatewayConnect({
-    auth: opts.auth,
-    connectAuth: token ? { token, password: token } : null,
-    req,
-    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
-    allowRealIpFallback: opts.allowRealIpFallback ?? cfg.gateway?.allowRealIpFallback,
-    rateLimiter: opts.rateLimiter,
-  });
-  if (!authResult.ok) {
-    sendGatewayAuthFailure(res, authResult);
-    return true;
-  }
-
-  const bodyUnknown = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? DEFAULT_BODY_BYTES);
-  if (bodyUnknown === undefined) {
-    return true;
+function resolveHttpTools(ctx: ToolsInvokeContext, sessionKey: string): AnyHttpTool[] {
+  const cached = ctx.toolsBySession.get(sessionKey);
+  if (cached) {
+    return cached;
   }
-  const body = (bodyUnknown ?? {}) as ToolsInvokeBody;
-
-  const toolName = typeof body.tool === "string" ? body.tool.trim() : "";
-  if (!toolName) {
-    sendInvalidRequest(res, "tools.invoke requires body.tool");
-    return true;
-  }
-
-  if (process.env.VITEST && MEMORY_TOOL_NAMES.has(toolName)) {
-    const reasons = resolveMemoryToolDisableReasons(cfg);
-    if (reasons.length > 0) {
-      const suffix = reasons.length > 0 ? ` (${reasons.join(", ")})` : "";
-      sendJson(res, 400, {
-        ok: false,
-        error: {
-          type: "invalid_request",
-          message:
-            `memory tools are disabled in tests${suffix}. ` +
-            'Enable by setting plugins.slots.memory="memory-core" (and ensure plugins.enabled is not false).',
-        },
-      });
-      return true;
-    }
-  }
-
-  const action = typeof body.action === "string" ? body.action.trim() : undefined;
-
-  const argsRaw = body.args;
-  const args =
-    argsRaw && typeof argsRaw === "object" && !Array.isArray(argsRaw)
-      ? (argsRaw as Record<string, unknown>)
-      : {};
-
-  const rawSessionKey = resolveSessionKeyFromBody(body);
-  const sessionKey =
-    !rawSessionKey || rawSessionKey === "main" ? resolveMainSessionKey(cfg) : rawSessionKey;
-
-  // Resolve message channel/account hints (optional headers) for policy inheritance.
-  const messageChannel = normalizeMessageChannel(
-    getHeader(req, "x-openclaw-message-channel") ?? "",
-  );
-  const accountId = getHeader(req, "x-openclaw-account-id")?.trim() || undefined;
-  const agentTo = getHeader(req, "x-openclaw-message-to")?.trim() || undefined;
-  const agentThreadId = getHeader(req, "x-openclaw-thread-id")?.trim() || undefined;
-
+  const { cfg, messageChannel, accountId } = ctx;
   const {
     agentId,
     globalPolicy,
@@ -238,7 +201,7 @@ export async function handleToolsInvokeHttpRequest(
   const groupPolicy = resolveGroupToolPolicy({
     config: cfg,
     sessionKey,
-    messageProvider: messageChannel ?? undefined,
+    messageProvider: messageChannel,
     accountId: accountId ?? null,
   });
   const subagentPolicy = isSubagentSessionKey(sessionKey)
@@ -248,10 +211,10 @@ export async function handleToolsInvokeHttpRequest(
   // Build tool list (core + plugin tools).
   const allTools = createOpenClawTools({
     agentSessionKey: sessionKey,
-    agentChannel: messageChannel ?? undefined,
+    agentChannel: messageChannel,
     agentAccountId: accountId,
-    agentTo,
-    agentThreadId,
+    agentTo: ctx.agentTo,
+    agentThreadId: ctx.agentThreadId,
     config: cfg,
     pluginToolAllowlist: collectExplicitAllowlist([
       profilePolicy,
@@ -297,42 +260,316 @@ export async function handleToolsInvokeHttpRequest(
     Array.isArray(gatewayToolsCfg?.deny) ? gatewayToolsCfg.deny : [],
   );
   const gatewayDenySet = new Set(gatewayDenyNames);
-  const gatewayFiltered = subagentFiltered.filter((t) => !gatewayDenySet.has(t.name));
+  const gatewayFiltered = (subagentFiltered as AnyHttpTool[]).filter(
+    (t) => !gatewayDenySet.has(t.name),
+  );
+  ctx.toolsBySession.set(sessionKey, gatewayFiltered);
+  return gatewayFiltered;
+}
+
+/**
+ * Run one invocation through the same policy pipeline as a single request.
+ * Never throws: failures come back as the status/body a single call would send.
+ */
+async function invokeHttpTool(params: {
+  ctx: ToolsInvokeContext;
+  call: ToolsInvokeCall;
+  toolCallId: string;
+  signal?: AbortSignal;
+  onUpdate?: (partial: unknown) => void;
+}): Promise<ToolsInvokeOutcome> {
+  const { ctx, call } = params;
+  const toolName = typeof call.tool === "string" ? call.tool.trim() : "";
+  if (!toolName) {
+    return {
+      status: 400,
+      body: {
+        ok: false,
+        error: { type: "invalid_request", message: "tools.invoke requires tool" },
+      },
+    };
+  }
+
+  if (process.env.VITEST && MEMORY_TOOL_NAMES.has(toolName)) {
+    const reasons = resolveMemoryToolDisableReasons(ctx.cfg);
+    if (reasons.length > 0) {
+      const suffix = reasons.length > 0 ? ` (${reasons.join(", ")})` : "";
+      return {
+        status: 400,
+        body: {
+          ok: false,
+          error: {
+            type: "invalid_request",
+            message:
+              `memory tools are disabled in tests${suffix}. ` +
+              'Enable by setting plugins.slots.memory="memory-core" (and ensure plugins.enabled is not false).',
+          },
+        },
+      };
+    }
+  }
+
+  const action = typeof call.action === "string" ? call.action.trim() : undefined;
+
+  const argsRaw = call.args;
+  const args =
+    argsRaw && typeof argsRaw === "object" && !Array.isArray(argsRaw)
+      ? (argsRaw as Record<string, unknown>)
+      : {};
+
+  const rawSessionKey = resolveSessionKeyFromBody(call);
+  const sessionKey =
+    !rawSessionKey || rawSessionKey === "main" ? resolveMainSessionKey(ctx.cfg) : rawSessionKey;
 
-  const tool = gatewayFiltered.find((t) => t.name === toolName);
+  const tool = resolveHttpTools(ctx, sessionKey).find((t) => t.name === toolName);
   if (!tool) {
-    sendJson(res, 404, {
-      ok: false,
-      error: { type: "not_found", message: `Tool not available: ${toolName}` },
-    });
-    return true;
+    return {
+      status: 404,
+      body: { ok: false, error: { type: "not_found", message: `Tool not available: ${toolName}` } },
+    };
   }
 
   try {
     const toolArgs = mergeActionIntoArgsIfSupported({
-      // oxlint-disable-next-line typescript/no-explicit-any
-      toolSchema: (tool as any).parameters,
+      toolSchema: tool.parameters,
       action,
       args,
     });
-    // oxlint-disable-next-line typescript/no-explicit-any
-    const result = await (tool as any).execute?.(`http-${Date.now()}`, toolArgs);
-    sendJson(res, 200, { ok: true, result });
+    const result = await tool.execute?.(
+      params.toolCallId,
+      toolArgs,
+      params.signal,
+      params.onUpdate,
+    );
+    return { status: 200, body: { ok: true, result } };
   } catch (err) {
     const inputStatus = resolveToolInputErrorStatus(err);
     if (inputStatus !== null) {
-      sendJson(res, inputStatus, {
+      return {
+        status: inputStatus,
+        body: {
+          ok: false,
+          error: { type: "tool_error", message: getErrorMessage(err) || "invalid tool arguments" },
+        },
+      };
+    }
+    logWarn(`tools-invoke: tool execution failed: ${String(err)}`);
+    return {
+      status: 500,
+      body: { ok: false, error: { type: "tool_error", message: "tool execution failed" } },
+    };
+  }
+}
+
+function wantsEventStream(req: IncomingMessage, body: ToolsInvokeBody): boolean {
+  if (body.stream === true) {
+    return true;
+  }
+  return (getHeader(req, "accept") ?? "").toLowerCase().includes("text/event-stream");
+}
+
+function resolveBatchConcurrency(raw: unknown): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) {
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+  return Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.floor(raw)));
+}
+
+function writeSseEvent(res: ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+type BatchItemResult = {
+  index: number;
+  id?: string;
+  tool: string;
+  status: number;
+} & ToolsInvokeOutcome["body"];
+
+/**
+ * Batch and/or streaming mode: `invocations` run with a concurrency limit, each
+ * through the single-call pipeline. JSON mode answers once with every result;
+ * SSE mode emits `invocation.started` / `invocation.progress` /
+ * `invocation.completed` per call and a closing `batch.completed`.
+ */
+async function handleToolsInvokeBatch(params: {
+  res: ServerResponse;
+  ctx: ToolsInvokeContext;
+  calls: ToolsInvokeCall[];
+  concurrency: number;
+  stream: boolean;
+}): Promise<void> {
+  const { res, ctx, calls, stream } = params;
+  const abort = new AbortController();
+  let finished = false;
+  res.on("close", () => {
+    if (!finished) {
+      abort.abort();
+    }
+  });
+  if (stream) {
+    setSseHeaders(res);
+  }
+
+  const baseCallId = `http-${Date.now()}`;
+  const tasks = calls.map((call, index) => async (): Promise<BatchItemResult> => {
+    const id = typeof call.id === "string" && call.id.trim() ? call.id.trim() : undefined;
+    const tool = typeof call.tool === "string" ? call.tool.trim() : "";
+    const meta = { index, ...(id ? { id } : {}), tool };
+    if (abort.signal.aborted) {
+      return {
+        ...meta,
+        status: 499,
         ok: false,
-        error: { type: "tool_error", message: getErrorMessage(err) || "invalid tool arguments" },
+        error: { type: "aborted", message: "request closed" },
+      };
+    }
+    if (stream) {
+      writeSseEvent(res, "invocation.started", meta);
+    }
+    let item: BatchItemResult;
+    try {
+      const outcome = await invokeHttpTool({
+        ctx,
+        call,
+        toolCallId: `${baseCallId}-${index}`,
+        signal: abort.signal,
+        onUpdate: stream
+          ? (update) => {
+              if (!abort.signal.aborted) {
+                writeSseEvent(res, "invocation.progress", { ...meta, update });
+              }
+            }
+          : undefined,
       });
+      item = { ...meta, status: outcome.status, ...outcome.body };
+    } catch (err) {
+      // Tool resolution can throw before the tool runs; keep the slot so the batch still completes.
+      logWarn(`tools-invoke: invocation ${index} failed: ${String(err)}`);
+      item = {
+        ...meta,
+        status: 500,
+        ok: false,
+        error: { type: "tool_error", message: "tool invocation failed" },
+      };
+    }
+    if (stream && !abort.signal.aborted) {
+      writeSseEvent(res, "invocation.completed", item);
+    }
+    return item;
+  });
+
+  const { results } = await runTasksWithConcurrency({ tasks, limit: params.concurrency });
+  finished = true;
+  const failed = results.filter((item) => !item.ok).length;
+  if (!stream) {
+    sendJson(res, 200, { ok: failed === 0, results });
+    return;
+  }
+  if (abort.signal.aborted) {
+    return;
+  }
+  writeSseEvent(res, "batch.completed", { ok: failed === 0, total: results.length, failed });
+  writeDone(res);
+  res.end();
+}
+
+export async function handleToolsInvokeHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: {
+    auth: ResolvedGatewayAuth;
+    maxBodyBytes?: number;
+    trustedProxies?: string[];
+    allowRealIpFallback?: boolean;
+    rateLimiter?: AuthRateLimiter;
+  },
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  if (url.pathname !== "/tools/invoke") {
+    return false;
+  }
+
+  if (req.method !== "POST") {
+    sendMethodNotAllowed(res, "POST");
+    return true;
+  }
+
+  const cfg = loadConfig();
+  const token = getBearerToken(req);
+  const authResult = await authorizeHttpGatewayConnect({
+    auth: opts.auth,
+    connectAuth: token ? { token, password: token } : null,
+    req,
+    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback ?? cfg.gateway?.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authResult.ok) {
+    sendGatewayAuthFailure(res, authResult);
+    return true;
+  }
+
+  const bodyUnknown = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? DEFAULT_BODY_BYTES);
+  if (bodyUnknown === undefined) {
+    return true;
+  }
+  const body = (bodyUnknown ?? {}) as ToolsInvokeBody;
+
+  // Resolve message channel/account hints (optional headers) for policy inheritance.
+  const ctx: ToolsInvokeContext = {
+    cfg,
+    messageChannel: normalizeMessageChannel(getHeader(req, "x-openclaw-message-channel") ?? ""),
+    accountId: getHeader(req, "x-openclaw-account-id")?.trim() || undefined,
+    agentTo: getHeader(req, "x-openclaw-message-to")?.trim() || undefined,
+    agentThreadId: getHeader(req, "x-openclaw-thread-id")?.trim() || undefined,
+    toolsBySession: new Map(),
+  };
+  const stream = wantsEventStream(req, body);
+
+  if (body.invocations !== undefined) {
+    if (!Array.isArray(body.invocations) || body.invocations.length === 0) {
+      sendInvalidRequest(res, "tools.invoke requires body.invocations to be a non-empty array");
       return true;
     }
-    logWarn(`tools-invoke: tool execution failed: ${String(err)}`);
-    sendJson(res, 500, {
-      ok: false,
-      error: { type: "tool_error", message: "tool execution failed" },
+    if (body.invocations.length > MAX_BATCH_INVOCATIONS) {
+      sendInvalidRequest(
+        res,
+        `tools.invoke accepts at most ${MAX_BATCH_INVOCATIONS} invocations per request`,
+      );
+      return true;
+    }
+    // A batch-level sessionKey applies to invocations that don't set their own.
+    const calls = (body.invocations as unknown[]).map((entry) => {
+      const call =
+        entry && typeof entry === "object" && !Array.isArray(entry)
+          ? (entry as ToolsInvokeCall)
+          : {};
+      return call.sessionKey === undefined ? { ...call, sessionKey: body.sessionKey } : call;
     });
+    await handleToolsInvokeBatch({
+      res,
+      ctx,
+      calls,
+      concurrency: resolveBatchConcurrency(body.concurrency),
+      stream,
+    });
+    return true;
+  }
+
+  const toolName = typeof body.tool === "string" ? body.tool.trim() : "";
+  if (!toolName) {
+    sendInvalidRequest(res, "tools.invoke requires body.tool");
+    return true;
+  }
+
+  if (stream) {
+    await handleToolsInvokeBatch({ res, ctx, calls: [body], concurrency: 1, stream });
+    return true;
   }
 
+  const outcome = await invokeHttpTool({ ctx, call: body, toolCallId: `http-${Date.now()}` });
+  sendJson(res, outcome.status, outcome.body);
   return true;
 }
@@ -147,6 +147,25 @@ export type DiagnosticToolLoopEvent = DiagnosticBaseEvent & {
   pairedToolName?: string;
 };
 
+export type DiagnosticSecretsRefreshErrorEvent = DiagnosticBaseEvent & {
+  type: "secrets.refresh.error";
+  refs: string[];
+  error: string;
+  retryInMs: number;
+};
+
+export type DiagnosticSandboxEgressEvent = DiagnosticBaseEvent & {
+  type: "sandbox.egress";
+  sessionKey?: string;
+  agentId?: string;
+  /** CONNECT for tunnelled HTTPS, otherwise the proxied HTTP method. */
+  method: string;
+  host: string;
+  port: number;
+  allowed: boolean;
+  reason?: string;
+};
+
 export type DiagnosticEventPayload =
   | DiagnosticUsageEvent
   | DiagnosticWebhookReceivedEvent
@@ -160,7 +179,9 @@ export type DiagnosticEventPayload =
   | DiagnosticLaneDequeueEvent
   | DiagnosticRunAttemptEvent
   | DiagnosticHeartbeatEvent
-  | DiagnosticToolLoopEvent;
+  | DiagnosticToolLoopEvent
+  | DiagnosticSecretsRefreshErrorEvent
+  | DiagnosticSandboxEgressEvent;
 
 export type DiagnosticEventInput = DiagnosticEventPayload extends infer Event
   ? Event extends DiagnosticEventPayload
@@ -192,6 +213,13 @@ export function isDiagnosticsEnabled(config?: OpenClawConfig): boolean {
   return config?.diagnostics?.enabled === true;
 }
 
+/** Emission switch for events the Prometheus `/metrics` endpoint also consumes. */
+export function isDiagnosticEventsEnabled(config?: OpenClawConfig): boolean {
+  return (
+    isDiagnosticsEnabled(config) || config?.gateway?.http?.endpoints?.metrics?.enabled === true
+  );
+}
+
 export function emitDiagnosticEvent(event: DiagnosticEventInput) {
   const state = getDiagnosticEventsState();
   if (state.dispatchDepth > 100) {
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { emitDiagnosticEvent, resetDiagnosticEventsForTest } from "./diagnostic-events.js";
+import { createDiagnosticMetrics, startDiagnosticMetrics } from "./diagnostic-metrics.js";
+
+afterEach(() => {
+  resetDiagnosticEventsForTest();
+});
+
+describe("diagnostic metrics", () => {
+  it("turns diagnostic events into labelled counters, gauges and histograms", () => {
+    const metrics = startDiagnosticMetrics();
+    emitDiagnosticEvent({
+      type: "model.usage",
+      sessionKey: "agent:ops:telegram:dm:42",
+      channel: "telegram",
+      provider: "anthropic",
+      model: "claude-opus-4-6",
+      usage: { input: 120, output: 30 },
+      costUsd: 0.25,
+      durationMs: 1_500,
+    });
+    emitDiagnosticEvent({ type: "queue.lane.enqueue", lane: "main", queueSize: 3 });
+    emitDiagnosticEvent({ type: "queue.lane.dequeue", lane: "main", queueSize: 2, waitMs: 40 });
+    emitDiagnosticEvent({
+      type: "run.attempt",
+      sessionKey: "agent:ops:main",
+      runId: "run-1",
+      attempt: 2,
+    });
+    emitDiagnosticEvent({ type: "webhook.error", channel: "telegram", error: "boom" });
+    emitDiagnosticEvent({
+      type: "session.stuck",
+      sessionKey: "agent:main:main",
+      state: "processing",
+      ageMs: 180_000,
+    });
+    emitDiagnosticEvent({
+      type: "tool.loop",
+      sessionKey: "agent:main:main",
+      toolName: "exec",
+      level: "critical",
+      action: "block",
+      detector: "generic_repeat",
+      count: 10,
+      message: "loop",
+    });
+    metrics.stop();
+    emitDiagnosticEvent({ type: "webhook.error", channel: "telegram", error: "ignored" });
+
+    const text = metrics.render();
+    const usageLabels =
+      'agent="ops",channel="telegram",provider="anthropic",model="claude-opus-4-6"';
+    expect(text).toContain("# TYPE openclaw_tokens_total counter");
+    expect(text).toContain(`openclaw_tokens_total{${usageLabels},type="input"} 120`);
+    expect(text).toContain(`openclaw_tokens_total{${usageLabels},type="output"} 30`);
+    expect(text).toContain(`openclaw_cost_usd_total{${usageLabels}} 0.25`);
+    expect(text).toContain(`openclaw_run_duration_seconds_bucket{${usageLabels},le="1"} 0`);
+    expect(text).toContain(`openclaw_run_duration_seconds_bucket{${usageLabels},le="2.5"} 1`);
+    expect(text).toContain(`openclaw_run_duration_seconds_count{${usageLabels}} 1`);
+    expect(text).toContain('openclaw_queue_depth{lane="main"} 2');
+    expect(text).toContain('openclaw_queue_wait_seconds_sum{lane="main"} 0.04');
+    expect(text).toContain('openclaw_run_attempts_total{agent="ops"} 1');
+    expect(text).toContain('openclaw_run_retries_total{agent="ops"} 1');
+    expect(text).toContain('openclaw_webhook_errors_total{channel="telegram"} 1');
+    expect(text).toContain('openclaw_sessions_stuck_total{agent="main",state="processing"} 1');
+    expect(text).toContain(
+      'openclaw_tool_loops_total{agent="main",tool="exec",detector="generic_repeat",level="critical",action="block"} 1',
+    );
+  });
+
+  it("escapes label values", () => {
+    const metrics = createDiagnosticMetrics();
+    metrics.record({
+      type: "webhook.received",
+      ts: 0,
+      seq: 1,
+      channel: 'we"ird\\chan\nnel',
+    });
+    expect(metrics.render()).toContain(
+      'openclaw_webhook_received_total{channel="we\\"ird\\\\chan\\nnel"} 1',
+    );
+  });
+});
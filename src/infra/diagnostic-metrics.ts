@@ -0,0 +1,317 @@
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { type DiagnosticEventPayload, onDiagnosticEvent } from "./diagnostic-events.js";
+
+type MetricKind = "counter" | "gauge" | "histogram";
+type Labels = Record<string, string>;
+
+type MetricSeries = {
+  labels: Labels;
+  value: number;
+  /** Histograms only: cumulative counts per bucket upper bound. */
+  bucketCounts?: number[];
+  count?: number;
+};
+
+type MetricFamily = {
+  name: string;
+  help: string;
+  kind: MetricKind;
+  buckets?: number[];
+  series: Map<string, MetricSeries>;
+};
+
+const DURATION_BUCKETS_S = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+const QUEUE_WAIT_BUCKETS_S = [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60];
+const STUCK_AGE_BUCKETS_S = [60, 120, 300, 600, 1800, 3600];
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels, extra?: [string, string]): string {
+  const pairs = Object.entries(labels);
+  if (extra) {
+    pairs.push(extra);
+  }
+  if (pairs.length === 0) {
+    return "";
+  }
+  return `{${pairs.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) {
+    return "+Inf";
+  }
+  return Number.isFinite(value) ? String(value) : "NaN";
+}
+
+/**
+ * In-memory Prometheus registry fed by diagnostic events. Series are keyed by
+ * agent/channel/provider/model (whichever the event carries) and are never
+ * expired, so cardinality follows the number of configured agents, channels
+ * and models.
+ */
+export type DiagnosticMetrics = {
+  record: (evt: DiagnosticEventPayload) => void;
+  /** Renders every series in the Prometheus text exposition format. */
+  render: () => string;
+};
+
+export function createDiagnosticMetrics(): DiagnosticMetrics {
+  const families = new Map<string, MetricFamily>();
+
+  const family = (name: string, kind: MetricKind, help: string, buckets?: number[]) => {
+    let existing = families.get(name);
+    if (!existing) {
+      existing = { name, kind, help, buckets, series: new Map() };
+      families.set(name, existing);
+    }
+    return existing;
+  };
+
+  const seriesFor = (metric: MetricFamily, labels: Labels): MetricSeries => {
+    const key = JSON.stringify(labels);
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      if (metric.kind === "histogram") {
+        series.bucketCounts = (metric.buckets ?? []).map(() => 0);
+        series.count = 0;
+      }
+      metric.series.set(key, series);
+    }
+    return series;
+  };
+
+  const inc = (name: string, help: string, labels: Labels, amount = 1) => {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return;
+    }
+    seriesFor(family(name, "counter", help), labels).value += amount;
+  };
+
+  const set = (name: string, help: string, labels: Labels, value: number) => {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    seriesFor(family(name, "gauge", help), labels).value = value;
+  };
+
+  const observe = (
+    name: string,
+    help: string,
+    buckets: number[],
+    labels: Labels,
+    value: number | undefined,
+  ) => {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return;
+    }
+    const series = seriesFor(family(name, "histogram", help, buckets), labels);
+    series.value += value;
+    series.count = (series.count ?? 0) + 1;
+    buckets.forEach((bound, index) => {
+      if (value <= bound && series.bucketCounts) {
+        series.bucketCounts[index] += 1;
+      }
+    });
+  };
+
+  const agentOf = (sessionKey?: string) =>
+    sessionKey ? resolveAgentIdFromSessionKey(sessionKey) : "unknown";
+
+  const record = (evt: DiagnosticEventPayload) => {
+    switch (evt.type) {
+      case "model.usage": {
+        const labels = {
+          agent: agentOf(evt.sessionKey),
+          channel: evt.channel ?? "unknown",
+          provider: evt.provider ?? "unknown",
+          model: evt.model ?? "unknown",
+        };
+        const tokens: Array<[string, number | undefined]> = [
+          ["input", evt.usage.input],
+          ["output", evt.usage.output],
+          ["cache_read", evt.usage.cacheRead],
+          ["cache_write", evt.usage.cacheWrite],
+        ];
+        for (const [type, amount] of tokens) {
+          if (typeof amount === "number") {
+            inc(
+              "openclaw_tokens_total",
+              "Model tokens used, by token type.",
+              { ...labels, type },
+              amount,
+            );
+          }
+        }
+        if (typeof evt.costUsd === "number") {
+          inc("openclaw_cost_usd_total", "Estimated model cost in USD.", labels, evt.costUsd);
+        }
+        observe(
+          "openclaw_run_duration_seconds",
+          "Agent run duration.",
+          DURATION_BUCKETS_S,
+          labels,
+          typeof evt.durationMs === "number" ? evt.durationMs / 1000 : undefined,
+        );
+        return;
+      }
+      case "run.attempt":
+        inc("openclaw_run_attempts_total", "Agent run attempts, including retries.", {
+          agent: agentOf(evt.sessionKey),
+        });
+        if (evt.attempt > 1) {
+          inc("openclaw_run_retries_total", "Agent run attempts after the first.", {
+            agent: agentOf(evt.sessionKey),
+          });
+        }
+        return;
+      case "queue.lane.enqueue":
+        inc("openclaw_queue_enqueued_total", "Tasks enqueued per command lane.", {
+          lane: evt.lane,
+        });
+        set(
+          "openclaw_queue_depth",
+          "Current command lane queue depth.",
+          { lane: evt.lane },
+          evt.queueSize,
+        );
+        return;
+      case "queue.lane.dequeue":
+        inc("openclaw_queue_dequeued_total", "Tasks dequeued per command lane.", {
+          lane: evt.lane,
+        });
+        set(
+          "openclaw_queue_depth",
+          "Current command lane queue depth.",
+          { lane: evt.lane },
+          evt.queueSize,
+        );
+        observe(
+          "openclaw_queue_wait_seconds",
+          "Time tasks spent waiting in a command lane.",
+          QUEUE_WAIT_BUCKETS_S,
+          { lane: evt.lane },
+          evt.waitMs / 1000,
+        );
+        return;
+      case "webhook.received":
+        inc("openclaw_webhook_received_total", "Inbound webhook updates.", {
+          channel: evt.channel,
+        });
+        return;
+      case "webhook.processed":
+        observe(
+          "openclaw_webhook_duration_seconds",
+          "Webhook processing duration.",
+          DURATION_BUCKETS_S,
+          { channel: evt.channel },
+          typeof evt.durationMs === "number" ? evt.durationMs / 1000 : undefined,
+        );
+        return;
+      case "webhook.error":
+        inc("openclaw_webhook_errors_total", "Webhook processing errors.", {
+          channel: evt.channel,
+        });
+        return;
+      case "message.queued":
+        inc("openclaw_messages_queued_total", "Inbound messages queued for an agent.", {
+          agent: agentOf(evt.sessionKey),
+          channel: evt.channel ?? "unknown",
+        });
+        return;
+      case "message.processed":
+        inc("openclaw_messages_processed_total", "Inbound messages processed, by outcome.", {
+          agent: agentOf(evt.sessionKey),
+          channel: evt.channel,
+          outcome: evt.outcome,
+        });
+        return;
+      case "session.stuck":
+        inc("openclaw_sessions_stuck_total", "Stuck session detections.", {
+          agent: agentOf(evt.sessionKey),
+          state: evt.state,
+        });
+        observe(
+          "openclaw_session_stuck_age_seconds",
+          "Age of sessions when reported stuck.",
+          STUCK_AGE_BUCKETS_S,
+          { agent: agentOf(evt.sessionKey) },
+          evt.ageMs / 1000,
+        );
+        return;
+      case "tool.loop":
+        inc("openclaw_tool_loops_total", "Tool loop detections.", {
+          agent: agentOf(evt.sessionKey),
+          tool: evt.toolName,
+          detector: evt.detector,
+          level: evt.level,
+          action: evt.action,
+        });
+        return;
+      case "diagnostic.heartbeat":
+        for (const [state, value] of [
+          ["active", evt.active],
+          ["waiting", evt.waiting],
+          ["queued", evt.queued],
+        ] as const) {
+          set("openclaw_sessions", "Sessions by state at the last heartbeat.", { state }, value);
+        }
+        return;
+      case "sandbox.egress":
+        inc("openclaw_sandbox_egress_total", "Sandbox egress proxy decisions.", {
+          agent: evt.agentId ?? agentOf(evt.sessionKey),
+          decision: evt.allowed ? "allowed" : "denied",
+        });
+        return;
+      default:
+        return;
+    }
+  };
+
+  const render = () => {
+    const lines: string[] = [];
+    const sorted = [...families.values()].toSorted((a, b) => a.name.localeCompare(b.name));
+    for (const metric of sorted) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.kind}`);
+      const series = [...metric.series.entries()]
+        .toSorted(([a], [b]) => a.localeCompare(b))
+        .map(([, entry]) => entry);
+      for (const entry of series) {
+        if (metric.kind !== "histogram") {
+          lines.push(`${metric.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+          continue;
+        }
+        (metric.buckets ?? []).forEach((bound, index) => {
+          lines.push(
+            `${metric.name}_bucket${formatLabels(entry.labels, ["le", formatValue(bound)])} ${entry.bucketCounts?.[index] ?? 0}`,
+          );
+        });
+        lines.push(
+          `${metric.name}_bucket${formatLabels(entry.labels, ["le", "+Inf"])} ${entry.count ?? 0}`,
+        );
+        lines.push(`${metric.name}_sum${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+        lines.push(`${metric.name}_count${formatLabels(entry.labels)} ${entry.count ?? 0}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  };
+
+  return { record, render };
+}
+
+/** Creates a registry and subscribes it to the diagnostic event stream. */
+export function startDiagnosticMetrics(): DiagnosticMetrics & { stop: () => void } {
+  const metrics = createDiagnosticMetrics();
+  const stop = onDiagnosticEvent(metrics.record);
+  return { ...metrics, stop };
+}
@@ -18,8 +18,9 @@ const mocks = vi.hoisted(() => ({
 }));
 const hookMocks = vi.hoisted(() => ({
   runner: {
-    hasHooks: vi.fn(() => false),
+    hasHooks: vi.fn((_hookName: string) => false),
     runMessageSent: vi.fn(async () => {}),
+    runBeforeDeliveryRoute: vi.fn(async (): Promise<unknown> => undefined),
   },
 }));
 const internalHookMocks = vi.hoisted(() => ({
@@ -30,6 +31,7 @@ const queueMocks = vi.hoisted(() => ({
   enqueueDelivery: vi.fn(async () => "mock-queue-id"),
   ackDelivery: vi.fn(async () => {}),
   failDelivery: vi.fn(async () => {}),
+  holdDelivery: vi.fn(async () => "mock-held-id"),
 }));
 const logMocks = vi.hoisted(() => ({
   warn: vi.fn(),
@@ -55,6 +57,7 @@ vi.mock("./delivery-queue.js", () => ({
   enqueueDelivery: queueMocks.enqueueDelivery,
   ackDelivery: queueMocks.ackDelivery,
   failDelivery: queueMocks.failDelivery,
+  holdDelivery: queueMocks.holdDelivery,
 }));
 vi.mock("../../logging/subsystem.js", () => ({
   createSubsystemLogger: () => {
@@ -123,6 +126,8 @@ describe("deliverOutboundPayloads", () => {
     hookMocks.runner.hasHooks.mockReturnValue(false);
     hookMocks.runner.runMessageSent.mockClear();
     hookMocks.runner.runMessageSent.mockResolvedValue(undefined);
+    hookMocks.runner.runBeforeDeliveryRoute.mockClear();
+    hookMocks.runner.runBeforeDeliveryRoute.mockResolvedValue(undefined);
     internalHookMocks.createInternalHookEvent.mockClear();
     internalHookMocks.createInternalHookEvent.mockImplementation(createInternalHookEventPayload);
     internalHookMocks.triggerInternalHook.mockClear();
@@ -132,6 +137,7 @@ describe("deliverOutboundPayloads", () => {
     queueMocks.ackDelivery.mockResolvedValue(undefined);
     queueMocks.failDelivery.mockClear();
     queueMocks.failDelivery.mockResolvedValue(undefined);
+    queueMocks.holdDelivery.mockClear();
     logMocks.warn.mockClear();
   });
 
@@ -806,6 +812,140 @@ describe("deliverOutboundPayloads", () => {
       expect.objectContaining({ channelId: "whatsapp" }),
     );
   });
+
+  describe("before_delivery_route", () => {
+    const routeHooksOnly = (hookName: string) => hookName === "before_delivery_route";
+
+    it("redirects the delivery and records the original route in the queue", async () => {
+      hookMocks.runner.hasHooks.mockImplementation(routeHooksOnly);
+      hookMocks.runner.runBeforeDeliveryRoute.mockResolvedValue({
+        target: { to: "+1999", threadId: "review" },
+      });
+      const sendWhatsApp = vi.fn().mockResolvedValue({ messageId: "w1", toJid: "jid" });
+      mocks.appendAssistantMessageToSessionTranscript.mockClear();
+
+      await deliverOutboundPayloads({
+        cfg: {},
+        channel: "whatsapp",
+        to: "+1555",
+        payloads: [{ text: "hello" }],
+        replyToId: "orig-msg",
+        mirror: { sessionKey: "agent:main:main", text: "hello" },
+        deps: { sendWhatsApp },
+        session: { key: "agent:main:main", agentId: "main" },
+      });
+
+      expect(hookMocks.runner.runBeforeDeliveryRoute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: { channel: "whatsapp", to: "+1555" },
+          content: "hello",
+          sessionKey: "agent:main:main",
+        }),
+        expect.objectContaining({ channelId: "whatsapp", conversationId: "+1555" }),
+      );
+      expect(sendWhatsApp).toHaveBeenCalledTimes(1);
+      expect(sendWhatsApp).toHaveBeenCalledWith("+1999", "hello", expect.any(Object));
+      expect(queueMocks.enqueueDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "+1999",
+          threadId: "review",
+          // The reply id and transcript mirror belong to the original chat.
+          replyToId: undefined,
+          mirror: undefined,
+          route: { original: expect.objectContaining({ channel: "whatsapp", to: "+1555" }) },
+        }),
+      );
+      expect(mocks.appendAssistantMessageToSessionTranscript).not.toHaveBeenCalled();
+    });
+
+    it("sends copies to additional targets without failing the primary delivery", async () => {
+      hookMocks.runner.hasHooks.mockImplementation(routeHooksOnly);
+      hookMocks.runner.runBeforeDeliveryRoute.mockResolvedValue({
+        additionalTargets: [
+          { channel: "telegram", to: "audit" },
+          { channel: "whatsapp", to: "+1555" },
+          { channel: "not-a-channel", to: "x" },
+        ],
+      });
+      const sendWhatsApp = vi.fn().mockResolvedValue({ messageId: "w1", toJid: "jid" });
+      const sendTelegram = vi.fn().mockRejectedValue(new Error("audit down"));
+
+      const results = await deliverOutboundPayloads({
+        cfg: {},
+        channel: "whatsapp",
+        to: "+1555",
+        payloads: [{ text: "hello" }],
+        deps: { sendWhatsApp, sendTelegram },
+      });
+
+      expect(results).toEqual([expect.objectContaining({ messageId: "w1" })]);
+      expect(sendWhatsApp).toHaveBeenCalledTimes(1);
+      expect(sendTelegram).toHaveBeenCalledWith("audit", "hello", expect.any(Object));
+      expect(queueMocks.enqueueDelivery).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ channel: "whatsapp", route: { copies: 1 } }),
+      );
+      expect(queueMocks.enqueueDelivery).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          channel: "telegram",
+          to: "audit",
+          route: { copyOf: expect.objectContaining({ channel: "whatsapp", to: "+1555" }) },
+        }),
+      );
+      expect(hookMocks.runner.runBeforeDeliveryRoute).toHaveBeenCalledTimes(1);
+      expect(logMocks.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to deliver routed copy to telegram:audit"),
+      );
+    });
+
+    it("holds the delivery instead of sending it", async () => {
+      hookMocks.runner.hasHooks.mockImplementation(routeHooksOnly);
+      hookMocks.runner.runBeforeDeliveryRoute.mockResolvedValue({
+        hold: true,
+        holdReason: "needs review",
+      });
+      const sendWhatsApp = vi.fn();
+
+      const results = await deliverOutboundPayloads({
+        cfg: {},
+        channel: "whatsapp",
+        to: "+1555",
+        payloads: [{ text: "hello" }],
+        deps: { sendWhatsApp },
+      });
+
+      expect(results).toEqual([]);
+      expect(sendWhatsApp).not.toHaveBeenCalled();
+      expect(queueMocks.enqueueDelivery).not.toHaveBeenCalled();
+      expect(queueMocks.holdDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "whatsapp",
+          to: "+1555",
+          payloads: [{ text: "hello" }],
+        }),
+        "needs review",
+      );
+    });
+
+    it("skips routing for deliveries that were already routed", async () => {
+      hookMocks.runner.hasHooks.mockImplementation(routeHooksOnly);
+      const sendWhatsApp = vi.fn().mockResolvedValue({ messageId: "w1", toJid: "jid" });
+
+      await deliverOutboundPayloads({
+        cfg: {},
+        channel: "whatsapp",
+        to: "+1999",
+        payloads: [{ text: "hello" }],
+        deps: { sendWhatsApp },
+        route: { original: { channel: "whatsapp", to: "+1555" } },
+        skipQueue: true,
+      });
+
+      expect(hookMocks.runner.runBeforeDeliveryRoute).not.toHaveBeenCalled();
+      expect(sendWhatsApp).toHaveBeenCalledWith("+1999", "hello", expect.any(Object));
+    });
+  });
 });
 
 const emptyRegistry = createTestRegistry([]);
@@ -29,8 +29,16 @@ import type { sendMessageSlack } from "../../slack/send.js";
 import type { sendMessageTelegram } from "../../telegram/send.js";
 import type { sendMessageWhatsApp } from "../../web/outbound.js";
 import { throwIfAborted } from "./abort.js";
-import { ackDelivery, enqueueDelivery, failDelivery } from "./delivery-queue.js";
+import {
+  ackDelivery,
+  enqueueDelivery,
+  failDelivery,
+  holdDelivery,
+  type DeliveryRouteRecord,
+} from "./delivery-queue.js";
+import { resolveOutboundDeliveryRoute, type OutboundRouteDecision } from "./delivery-route.js";
 import type { OutboundIdentity } from "./identity.js";
+import { holdOutboundDeliveryForApproval } from "./outbound-approvals.js";
 import type { NormalizedOutboundPayload } from "./payloads.js";
 import { normalizeReplyPayloadsForDelivery } from "./payloads.js";
 import type { OutboundSessionContext } from "./session-context.js";
@@ -225,10 +233,146 @@ type DeliverOutboundPayloadsCoreParams = {
 type DeliverOutboundPayloadsParams = DeliverOutboundPayloadsCoreParams & {
   /** @internal Skip write-ahead queue (used by crash-recovery to avoid re-enqueueing). */
   skipQueue?: boolean;
+  /** @internal Routing already applied by `before_delivery_route`; skip the hook. */
+  route?: DeliveryRouteRecord;
+  /** @internal `approvals.outbound` already ran (message tool) or an operator approved the send. */
+  skipApproval?: boolean;
 };
 
 export async function deliverOutboundPayloads(
   params: DeliverOutboundPayloadsParams,
+): Promise<OutboundDeliveryResult[]> {
+  if (!params.route) {
+    const decision = await resolveOutboundDeliveryRoute({
+      target: {
+        channel: params.channel,
+        to: params.to,
+        accountId: params.accountId,
+        threadId: params.threadId,
+      },
+      payloads: params.payloads,
+      session: params.session,
+    });
+    if (decision) {
+      return await deliverRoutedPayloads(params, decision);
+    }
+    if (await holdForOutboundApproval(params)) {
+      return [];
+    }
+  }
+  return await deliverQueuedPayloads(params);
+}
+
+/** Hold agent deliveries that `approvals.outbound` flags. Returns true when held. */
+async function holdForOutboundApproval(params: DeliverOutboundPayloadsParams): Promise<boolean> {
+  const agentId = params.session?.agentId ?? params.mirror?.agentId;
+  if (params.skipApproval || !agentId) {
+    return false;
+  }
+  const approvalId = await holdOutboundDeliveryForApproval({
+    cfg: params.cfg,
+    agentId,
+    sessionKey: params.session?.key ?? params.mirror?.sessionKey,
+    target: {
+      channel: params.channel,
+      to: params.to,
+      accountId: params.accountId,
+      threadId: params.threadId,
+    },
+    payloads: params.payloads,
+    replyToId: params.replyToId,
+    silent: params.silent,
+    mirror: params.mirror,
+  });
+  return approvalId !== null;
+}
+
+/**
+ * Point delivery params at another target. A reply id or transcript mirror only
+ * makes sense in the original chat, so both are dropped when the chat changes.
+ */
+function retargetDeliveryParams(
+  params: DeliverOutboundPayloadsParams,
+  target: OutboundRouteDecision["target"],
+): DeliverOutboundPayloadsParams {
+  const sameChat = target.channel === params.channel && target.to === params.to;
+  return {
+    ...params,
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+    replyToId: sameChat ? params.replyToId : undefined,
+    mirror: sameChat ? params.mirror : undefined,
+  };
+}
+
+/** Deliver to a plugin-chosen route: hold it, or send to the primary target and then copies. */
+async function deliverRoutedPayloads(
+  params: DeliverOutboundPayloadsParams,
+  decision: OutboundRouteDecision,
+): Promise<OutboundDeliveryResult[]> {
+  const { target } = decision;
+  const routed: DeliverOutboundPayloadsParams = {
+    ...retargetDeliveryParams(params, target),
+    route: decision.record,
+  };
+  if (decision.hold) {
+    const heldId = await holdDelivery(
+      {
+        channel: routed.channel,
+        to: routed.to,
+        accountId: routed.accountId,
+        payloads: routed.payloads,
+        threadId: routed.threadId,
+        replyToId: routed.replyToId,
+        bestEffort: routed.bestEffort,
+        gifPlayback: routed.gifPlayback,
+        silent: routed.silent,
+        mirror: routed.mirror,
+        route: { ...routed.route, heldBy: "plugin" },
+      },
+      decision.holdReason,
+    );
+    log.info(`Delivery held by plugin (${heldId}) for ${routed.channel}:${routed.to}`);
+    return [];
+  }
+  if (await holdForOutboundApproval(routed)) {
+    return [];
+  }
+  const results = await deliverQueuedPayloads(routed);
+  for (const copy of decision.copies) {
+    try {
+      const retargeted = retargetDeliveryParams(params, copy);
+      if (await holdForOutboundApproval(retargeted)) {
+        continue;
+      }
+      // Copies are extra sends: they are never mirrored into the session transcript.
+      await deliverQueuedPayloads({
+        cfg: params.cfg,
+        channel: retargeted.channel,
+        to: retargeted.to,
+        accountId: retargeted.accountId,
+        threadId: retargeted.threadId,
+        replyToId: retargeted.replyToId,
+        payloads: params.payloads,
+        identity: params.identity,
+        deps: params.deps,
+        gifPlayback: params.gifPlayback,
+        abortSignal: params.abortSignal,
+        session: params.session,
+        silent: params.silent,
+        route: { copyOf: target },
+      });
+    } catch (err) {
+      log.warn(`Failed to deliver routed copy to ${copy.channel}:${copy.to}: ${String(err)}`);
+    }
+  }
+  return results;
+}
+
+async function deliverQueuedPayloads(
+  params: DeliverOutboundPayloadsParams,
 ): Promise<OutboundDeliveryResult[]> {
   const { channel, to, payloads } = params;
 
@@ -246,6 +390,7 @@ export async function deliverOutboundPayloads(
         gifPlayback: params.gifPlayback,
         silent: params.silent,
         mirror: params.mirror,
+        route: params.route,
       }).catch(() => null); // Best-effort — don't block delivery if queue write fails.
 
   // Wrap onError to detect partial failures under bestEffort mode.
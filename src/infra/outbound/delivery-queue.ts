@@ -8,6 +8,7 @@ import type { OutboundChannel } from "./targets.js";
 
 const QUEUE_DIRNAME = "delivery-queue";
 const FAILED_DIRNAME = "failed";
+const HELD_DIRNAME = "held";
 const MAX_RETRIES = 5;
 
 /** Backoff delays in milliseconds indexed by retry count (1-based). */
@@ -25,6 +26,27 @@ type DeliveryMirrorPayload = {
   mediaUrls?: string[];
 };
 
+export type DeliveryRouteTarget = {
+  channel: Exclude<OutboundChannel, "none">;
+  to: string;
+  accountId?: string;
+  threadId?: string | number | null;
+};
+
+/** Outcome of `before_delivery_route` plugin hooks, kept with the entry for status and replay. */
+export type DeliveryRouteRecord = {
+  /** Destination before a plugin rewrote it. */
+  original?: DeliveryRouteTarget;
+  /** Primary destination when this entry is a plugin-added copy. */
+  copyOf?: DeliveryRouteTarget;
+  /** Number of extra destinations that received a copy. */
+  copies?: number;
+  heldAt?: number;
+  heldReason?: string;
+  /** What held the entry: a routing plugin, or the outbound approval policy. */
+  heldBy?: "plugin" | "policy";
+};
+
 type QueuedDeliveryPayload = {
   channel: Exclude<OutboundChannel, "none">;
   to: string;
@@ -41,6 +63,8 @@ type QueuedDeliveryPayload = {
   gifPlayback?: boolean;
   silent?: boolean;
   mirror?: DeliveryMirrorPayload;
+  /** Set once plugin routing ran; replays deliver to the stored target without re-routing. */
+  route?: DeliveryRouteRecord;
 };
 
 export interface QueuedDelivery extends QueuedDeliveryPayload {
@@ -67,6 +91,10 @@ function resolveFailedDir(stateDir?: string): string {
   return path.join(resolveQueueDir(stateDir), FAILED_DIRNAME);
 }
 
+function resolveHeldDir(stateDir?: string): string {
+  return path.join(resolveQueueDir(stateDir), HELD_DIRNAME);
+}
+
 /** Ensure the queue directory (and failed/ subdirectory) exist. */
 export async function ensureQueueDir(stateDir?: string): Promise<string> {
   const queueDir = resolveQueueDir(stateDir);
@@ -97,6 +125,7 @@ export async function enqueueDelivery(
     gifPlayback: params.gifPlayback,
     silent: params.silent,
     mirror: params.mirror,
+    route: params.route,
     retryCount: 0,
   };
   const filePath = path.join(queueDir, `${id}.json`);
@@ -107,6 +136,111 @@ export async function enqueueDelivery(
   return id;
 }
 
+/**
+ * Park a delivery that a plugin held. Held entries live in held/ so recovery
+ * never sends them; they stay there for review. Returns the entry ID.
+ */
+export async function holdDelivery(
+  params: QueuedDeliveryParams,
+  reason: string | undefined,
+  stateDir?: string,
+): Promise<string> {
+  const heldDir = resolveHeldDir(stateDir);
+  await fs.promises.mkdir(heldDir, { recursive: true, mode: 0o700 });
+  const id = generateSecureUuid();
+  const now = Date.now();
+  const entry: QueuedDelivery = {
+    ...params,
+    id,
+    enqueuedAt: now,
+    route: { ...params.route, heldAt: now, ...(reason ? { heldReason: reason } : {}) },
+    retryCount: 0,
+  };
+  const filePath = path.join(heldDir, `${id}.json`);
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(entry, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await fs.promises.rename(tmp, filePath);
+  return id;
+}
+
+/** Load deliveries held by `before_delivery_route` plugins or the outbound approval policy. */
+export async function loadHeldDeliveries(stateDir?: string): Promise<QueuedDelivery[]> {
+  return await loadQueueEntries(resolveHeldDir(stateDir));
+}
+
+/** Load one held delivery by ID, or null when it is not (or no longer) held. */
+export async function loadHeldDelivery(
+  id: string,
+  stateDir?: string,
+): Promise<QueuedDelivery | null> {
+  if (!id || id.includes("/") || id.includes("\\") || id.startsWith(".")) {
+    return null;
+  }
+  try {
+    const raw = await fs.promises.readFile(
+      path.join(resolveHeldDir(stateDir), `${id}.json`),
+      "utf-8",
+    );
+    return JSON.parse(raw) as QueuedDelivery;
+  } catch {
+    return null;
+  }
+}
+
+function resolveClaimedHeldPath(id: string, stateDir?: string): string {
+  return path.join(resolveHeldDir(stateDir), `${id}.json.sending`);
+}
+
+function isMissingFileError(err: unknown): boolean {
+  return (
+    !!err &&
+    typeof err === "object" &&
+    "code" in err &&
+    String((err as { code?: unknown }).code) === "ENOENT"
+  );
+}
+
+/**
+ * Claim a held delivery while it is being sent or dropped, hiding it from the
+ * review list. Returns false when another caller already claimed or released it.
+ */
+export async function claimHeldDelivery(id: string, stateDir?: string): Promise<boolean> {
+  try {
+    await fs.promises.rename(
+      path.join(resolveHeldDir(stateDir), `${id}.json`),
+      resolveClaimedHeldPath(id, stateDir),
+    );
+    return true;
+  } catch (err) {
+    if (isMissingFileError(err)) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/** Put a claimed held delivery back up for review (the send failed). */
+export async function restoreHeldDelivery(id: string, stateDir?: string): Promise<void> {
+  await fs.promises.rename(
+    resolveClaimedHeldPath(id, stateDir),
+    path.join(resolveHeldDir(stateDir), `${id}.json`),
+  );
+}
+
+/** Remove a claimed held delivery once it was sent or dropped. */
+export async function releaseHeldDelivery(id: string, stateDir?: string): Promise<void> {
+  try {
+    await fs.promises.unlink(resolveClaimedHeldPath(id, stateDir));
+  } catch (err) {
+    if (!isMissingFileError(err)) {
+      throw err;
+    }
+  }
+}
+
 /** Remove a successfully delivered entry from the queue. */
 export async function ackDelivery(id: string, stateDir?: string): Promise<void> {
   const filePath = path.join(resolveQueueDir(stateDir), `${id}.json`);
@@ -142,7 +276,10 @@ export async function failDelivery(id: string, error: string, stateDir?: string)
 
 /** Load all pending delivery entries from the queue directory. */
 export async function loadPendingDeliveries(stateDir?: string): Promise<QueuedDelivery[]> {
-  const queueDir = resolveQueueDir(stateDir);
+  return await loadQueueEntries(resolveQueueDir(stateDir));
+}
+
+async function loadQueueEntries(queueDir: string): Promise<QueuedDelivery[]> {
   let files: string[];
   try {
     files = await fs.promises.readdir(queueDir);
@@ -342,6 +479,7 @@ export async function recoverPendingDeliveries(opts: {
         gifPlayback: entry.gifPlayback,
         silent: entry.silent,
         mirror: entry.mirror,
+        route: entry.route,
         skipQueue: true, // Prevent re-enqueueing during recovery
       });
       await ackDelivery(entry.id, opts.stateDir);
@@ -0,0 +1,139 @@
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
+import type { PluginHookDeliveryRouteTarget } from "../../plugins/types.js";
+import {
+  isDeliverableMessageChannel,
+  normalizeMessageChannel,
+} from "../../utils/message-channel.js";
+import type { DeliveryRouteRecord, DeliveryRouteTarget } from "./delivery-queue.js";
+import type { OutboundSessionContext } from "./session-context.js";
+
+const log = createSubsystemLogger("outbound/route");
+
+export type OutboundRouteDecision = {
+  target: DeliveryRouteTarget;
+  copies: DeliveryRouteTarget[];
+  hold: boolean;
+  holdReason?: string;
+  record: DeliveryRouteRecord;
+};
+
+function normalizeRouteChannel(raw: string | undefined): DeliveryRouteTarget["channel"] | null {
+  const channel = normalizeMessageChannel(raw);
+  return channel && isDeliverableMessageChannel(channel) ? channel : null;
+}
+
+function applyTargetPatch(
+  base: DeliveryRouteTarget,
+  patch: Partial<PluginHookDeliveryRouteTarget>,
+): DeliveryRouteTarget | null {
+  const channel = patch.channel === undefined ? base.channel : normalizeRouteChannel(patch.channel);
+  const to = patch.to === undefined ? base.to : patch.to.trim();
+  if (!channel || !to) {
+    return null;
+  }
+  return {
+    channel,
+    to,
+    accountId: "accountId" in patch ? patch.accountId : base.accountId,
+    threadId: "threadId" in patch ? patch.threadId : base.threadId,
+  };
+}
+
+function routeTargetKey(target: DeliveryRouteTarget): string {
+  return [target.channel, target.to, target.accountId ?? "", target.threadId ?? ""].join("|");
+}
+
+/**
+ * Run `before_delivery_route` plugins for an outbound delivery. Returns null
+ * when no plugin is registered or none changed the route.
+ */
+export async function resolveOutboundDeliveryRoute(params: {
+  target: DeliveryRouteTarget;
+  payloads: ReplyPayload[];
+  session?: OutboundSessionContext;
+}): Promise<OutboundRouteDecision | null> {
+  const hookRunner = getGlobalHookRunner();
+  if (!hookRunner?.hasHooks("before_delivery_route")) {
+    return null;
+  }
+  const { target } = params;
+  let result;
+  try {
+    result = await hookRunner.runBeforeDeliveryRoute(
+      {
+        target: {
+          channel: target.channel,
+          to: target.to,
+          ...(target.accountId ? { accountId: target.accountId } : {}),
+          ...(target.threadId != null ? { threadId: target.threadId } : {}),
+        },
+        content: params.payloads
+          .map((payload) => payload.text ?? "")
+          .filter(Boolean)
+          .join("\n\n"),
+        mediaUrls: params.payloads.flatMap(
+          (payload) => payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []),
+        ),
+        sessionKey: params.session?.key,
+        agentId: params.session?.agentId,
+      },
+      {
+        channelId: target.channel,
+        accountId: target.accountId,
+        conversationId: target.to,
+      },
+    );
+  } catch (err) {
+    // Don't block delivery on hook failure
+    log.warn(`before_delivery_route failed: ${String(err)}`);
+    return null;
+  }
+  if (!result) {
+    return null;
+  }
+
+  let primary = target;
+  if (result.target) {
+    const rewritten = applyTargetPatch(target, result.target);
+    if (rewritten) {
+      primary = rewritten;
+    } else {
+      log.warn("before_delivery_route returned an invalid target; keeping the original route", {
+        channel: result.target.channel,
+      });
+    }
+  }
+  const seen = new Set([routeTargetKey(primary)]);
+  const copies: DeliveryRouteTarget[] = [];
+  for (const extra of result.additionalTargets ?? []) {
+    const copy = applyTargetPatch({ channel: primary.channel, to: "" }, extra);
+    if (!copy) {
+      log.warn("before_delivery_route returned an invalid additional target; skipping it", {
+        channel: extra.channel,
+      });
+      continue;
+    }
+    const key = routeTargetKey(copy);
+    if (!seen.has(key)) {
+      seen.add(key);
+      copies.push(copy);
+    }
+  }
+  const rewritten = routeTargetKey(primary) !== routeTargetKey(target);
+  const hold = result.hold === true;
+  if (!rewritten && copies.length === 0 && !hold) {
+    return null;
+  }
+  return {
+    target: primary,
+    copies,
+    hold,
+    ...(result.holdReason ? { holdReason: result.holdReason } : {}),
+    record: {
+      ...(rewritten ? { original: target } : {}),
+      ...(copies.length > 0 ? { copies: copies.length } : {}),
+    },
+  };
+}
@@ -43,11 +43,13 @@ import {
 } from "./message-action-params.js";
 import { actionHasTarget, actionRequiresTarget } from "./message-action-spec.js";
 import type { MessagePollResult, MessageSendResult } from "./message.js";
+import { holdOutboundMessage, recordOutboundContact } from "./outbound-approvals.js";
 import {
   applyCrossContextDecoration,
   buildCrossContextDecoration,
   type CrossContextDecoration,
   enforceCrossContextPolicy,
+  evaluateOutboundApprovalPolicy,
   shouldApplyCrossContextMarker,
 } from "./outbound-policy.js";
 import { executePollAction, executeSendAction } from "./outbound-send-service.js";
@@ -515,6 +517,58 @@ async function handleSendAction(ctx: ResolvedActionContext): Promise<MessageActi
   }
   const mirrorMediaUrls =
     mergedMediaUrls.length > 0 ? mergedMediaUrls : mediaUrl ? [mediaUrl] : undefined;
+  const approvalHold =
+    agentId && !dryRun
+      ? await evaluateOutboundApprovalPolicy({
+          cfg,
+          channel,
+          to,
+          accountId,
+          agentId,
+          chatType: outboundRoute?.chatType,
+          groupId: outboundRoute?.peer.id,
+          toolContext: input.toolContext,
+        })
+      : null;
+  if (agentId && approvalHold) {
+    const approvalId = await holdOutboundMessage({
+      cfg,
+      agentId,
+      target: {
+        channel,
+        to,
+        accountId: accountId ?? undefined,
+        threadId: resolvedThreadId ?? undefined,
+      },
+      payloads: [{ text: message, mediaUrls: mirrorMediaUrls }],
+      reason: approvalHold.reason,
+      replyToId,
+      silent: silent ?? undefined,
+      mirror: outboundRoute
+        ? {
+            sessionKey: outboundRoute.sessionKey,
+            agentId,
+            text: message,
+            mediaUrls: mirrorMediaUrls,
+          }
+        : undefined,
+    });
+    return {
+      kind: "send",
+      channel,
+      action,
+      to,
+      handledBy: "core",
+      payload: {
+        status: "pending_approval",
+        approvalId,
+        reason: approvalHold.reason,
+        channel,
+        to,
+      },
+      dryRun,
+    };
+  }
   throwIfAborted(abortSignal);
   const send = await executeSendAction({
     ctx: {
@@ -549,6 +603,10 @@ async function handleSendAction(ctx: ResolvedActionContext): Promise<MessageActi
     threadId: resolvedThreadId ?? undefined,
   });
 
+  if (agentId && !dryRun && cfg.approvals?.outbound?.enabled) {
+    await recordOutboundContact({ channel, to, accountId });
+  }
+
   return {
     kind: "send",
     channel,
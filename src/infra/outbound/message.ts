@@ -58,6 +58,8 @@ type MessageSendParams = {
   };
   abortSignal?: AbortSignal;
   silent?: boolean;
+  /** @internal The caller already applied `approvals.outbound`. */
+  skipApproval?: boolean;
 };
 
 export type MessageSendResult = {
@@ -232,6 +234,7 @@ export async function sendMessage(params: MessageSendParams): Promise<MessageSen
       bestEffort: params.bestEffort,
       abortSignal: params.abortSignal,
       silent: params.silent,
+      skipApproval: params.skipApproval,
       mirror: params.mirror
         ? {
             ...params.mirror,
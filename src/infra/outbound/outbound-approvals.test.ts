@@ -0,0 +1,270 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { setActivePluginRegistry } from "../../plugins/runtime.js";
+import {
+  createChannelTestPluginBase,
+  createTestRegistry,
+} from "../../test-utils/channel-plugins.js";
+import { loadHeldDeliveries } from "./delivery-queue.js";
+import {
+  holdOutboundDeliveryForApproval,
+  holdOutboundMessage,
+  isKnownOutboundContact,
+  listOutboundApprovals,
+  recordOutboundContact,
+  resolveOutboundApproval,
+} from "./outbound-approvals.js";
+import { evaluateOutboundApprovalPolicy } from "./outbound-policy.js";
+
+const deliverMocks = vi.hoisted(() => ({
+  deliverOutboundPayloads: vi.fn(async () => [{ channel: "telegram", messageId: "m1" }]),
+}));
+
+vi.mock("./deliver.js", () => ({
+  deliverOutboundPayloads: deliverMocks.deliverOutboundPayloads,
+}));
+
+function makeConfig(outbound: NonNullable<OpenClawConfig["approvals"]>["outbound"]) {
+  return { approvals: { outbound } } as OpenClawConfig;
+}
+
+let stateDir: string;
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), "openclaw-outbound-approvals-"));
+  deliverMocks.deliverOutboundPayloads.mockClear();
+});
+
+afterEach(() => {
+  setActivePluginRegistry(createTestRegistry([]));
+});
+
+describe("evaluateOutboundApprovalPolicy", () => {
+  it("does nothing unless enabled", async () => {
+    const hold = await evaluateOutboundApprovalPolicy({
+      cfg: makeConfig({ firstContact: true }),
+      channel: "telegram",
+      to: "123",
+      agentId: "main",
+      stateDir,
+    });
+    expect(hold).toBeNull();
+  });
+
+  it("holds first contact until the recipient is known", async () => {
+    const cfg = makeConfig({ enabled: true });
+    const params = { cfg, channel: "telegram", to: "123", agentId: "main", stateDir };
+    expect(await evaluateOutboundApprovalPolicy(params)).toEqual({
+      rule: "first-contact",
+      reason: "first contact",
+    });
+    await recordOutboundContact({ channel: "telegram", to: "123" }, stateDir);
+    expect(await evaluateOutboundApprovalPolicy(params)).toBeNull();
+  });
+
+  it("never holds replies in the current conversation", async () => {
+    const hold = await evaluateOutboundApprovalPolicy({
+      cfg: makeConfig({ enabled: true, allowlist: ["telegram:999"] }),
+      channel: "telegram",
+      to: "123",
+      agentId: "main",
+      toolContext: { currentChannelId: "123", currentChannelProvider: "telegram" },
+      stateDir,
+    });
+    expect(hold).toBeNull();
+  });
+
+  it("holds message-tool targets outside the allowlist", async () => {
+    const cfg = makeConfig({ enabled: true, allowlist: ["telegram:999", "slack:*"] });
+    const evaluate = (channel: string, to: string) =>
+      evaluateOutboundApprovalPolicy({ cfg, channel, to, agentId: "main", stateDir });
+    expect(await evaluate("telegram", "999")).toBeNull();
+    expect(await evaluate("slack", "C123")).toBeNull();
+    expect(await evaluate("telegram", "123")).toEqual({
+      rule: "allowlist",
+      reason: "target not in allowlist",
+    });
+  });
+
+  it("skips agents outside the agent filter", async () => {
+    const hold = await evaluateOutboundApprovalPolicy({
+      cfg: makeConfig({ enabled: true, agentFilter: ["support"] }),
+      channel: "telegram",
+      to: "123",
+      agentId: "main",
+      stateDir,
+    });
+    expect(hold).toBeNull();
+  });
+
+  it("holds groups with more members than the threshold", async () => {
+    const listGroupMembers = vi.fn(async (params: { limit?: number | null }) =>
+      Array.from({ length: params.limit ?? 0 }, (_, i) => ({ kind: "user", id: `u${i}` })),
+    );
+    setActivePluginRegistry(
+      createTestRegistry([
+        {
+          pluginId: "slack",
+          plugin: {
+            ...createChannelTestPluginBase({ id: "slack" }),
+            directory: { listGroupMembers },
+          },
+          source: "test",
+        },
+      ]),
+    );
+    await recordOutboundContact({ channel: "slack", to: "C123" }, stateDir);
+    const hold = await evaluateOutboundApprovalPolicy({
+      cfg: makeConfig({ enabled: true, groupMemberThreshold: 20 }),
+      channel: "slack",
+      to: "C123",
+      agentId: "main",
+      chatType: "channel",
+      stateDir,
+    });
+    expect(hold).toEqual({ rule: "group-size", reason: "group has more than 20 members" });
+    expect(listGroupMembers).toHaveBeenCalledWith(
+      expect.objectContaining({ groupId: "C123", limit: 21 }),
+    );
+  });
+});
+
+describe("outbound approval queue", () => {
+  async function holdSample() {
+    return await holdOutboundMessage({
+      cfg: makeConfig({ enabled: true }),
+      agentId: "main",
+      target: { channel: "telegram", to: "123" },
+      payloads: [{ text: "hello there" }],
+      reason: "first contact",
+      mirror: { sessionKey: "agent:main:telegram:direct:123", agentId: "main" },
+      stateDir,
+    });
+  }
+
+  it("lists held messages for review", async () => {
+    const id = await holdSample();
+    expect(await listOutboundApprovals(stateDir)).toEqual([
+      expect.objectContaining({
+        id,
+        channel: "telegram",
+        to: "123",
+        agentId: "main",
+        text: "hello there",
+        reason: "first contact",
+        heldBy: "policy",
+      }),
+    ]);
+  });
+
+  it("sends approved messages with routing re-run and remembers the contact", async () => {
+    const id = await holdSample();
+    const resolution = await resolveOutboundApproval({
+      cfg: makeConfig({ enabled: true }),
+      id,
+      decision: "approve",
+      stateDir,
+    });
+    expect(resolution.results).toHaveLength(1);
+    expect(deliverMocks.deliverOutboundPayloads).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "telegram",
+        to: "123",
+        payloads: [{ text: "hello there" }],
+        route: undefined,
+      }),
+    );
+    expect(await loadHeldDeliveries(stateDir)).toEqual([]);
+    expect(await isKnownOutboundContact({ channel: "telegram", to: "123" }, stateDir)).toBe(true);
+  });
+
+  it("sends the replacement text on edit", async () => {
+    const id = await holdSample();
+    await resolveOutboundApproval({
+      cfg: makeConfig({ enabled: true }),
+      id,
+      decision: "edit",
+      text: "hi, following up",
+      stateDir,
+    });
+    expect(deliverMocks.deliverOutboundPayloads).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payloads: [{ text: "hi, following up" }],
+        mirror: expect.objectContaining({ text: "hi, following up" }),
+      }),
+    );
+  });
+
+  it("keeps the message held when delivery fails", async () => {
+    const id = await holdSample();
+    const cfg = makeConfig({ enabled: true });
+    deliverMocks.deliverOutboundPayloads.mockRejectedValueOnce(new Error("network down"));
+    await expect(
+      resolveOutboundApproval({ cfg, id, decision: "approve", stateDir }),
+    ).rejects.toThrow("network down");
+    expect(await listOutboundApprovals(stateDir)).toEqual([expect.objectContaining({ id })]);
+    expect(await isKnownOutboundContact({ channel: "telegram", to: "123" }, stateDir)).toBe(false);
+
+    await resolveOutboundApproval({ cfg, id, decision: "approve", stateDir });
+    expect(await loadHeldDeliveries(stateDir)).toEqual([]);
+  });
+
+  it("drops rejected messages and refuses a second decision", async () => {
+    const id = await holdSample();
+    const cfg = makeConfig({ enabled: true });
+    await resolveOutboundApproval({ cfg, id, decision: "reject", stateDir });
+    expect(deliverMocks.deliverOutboundPayloads).not.toHaveBeenCalled();
+    await expect(
+      resolveOutboundApproval({ cfg, id, decision: "approve", stateDir }),
+    ).rejects.toThrow("unknown or already resolved");
+  });
+});
+
+describe("holdOutboundDeliveryForApproval", () => {
+  async function makeSessionConfig() {
+    const store = join(stateDir, "sessions.json");
+    await writeFile(
+      store,
+      JSON.stringify({
+        "agent:main:main": {
+          sessionId: "s1",
+          updatedAt: Date.now(),
+          lastChannel: "telegram",
+          lastTo: "555",
+        },
+      }),
+    );
+    return { ...makeConfig({ enabled: true }), session: { store } } as OpenClawConfig;
+  }
+
+  it("holds deliveries to a first contact", async () => {
+    const id = await holdOutboundDeliveryForApproval({
+      cfg: await makeSessionConfig(),
+      agentId: "main",
+      sessionKey: "agent:main:main",
+      target: { channel: "telegram", to: "123" },
+      payloads: [{ text: "daily report" }],
+      stateDir,
+    });
+    expect(id).toEqual(expect.any(String));
+    expect(await listOutboundApprovals(stateDir)).toEqual([
+      expect.objectContaining({ id, to: "123", reason: "first contact", heldBy: "policy" }),
+    ]);
+  });
+
+  it("lets replies into the session's own conversation through", async () => {
+    const id = await holdOutboundDeliveryForApproval({
+      cfg: await makeSessionConfig(),
+      agentId: "main",
+      sessionKey: "agent:main:main",
+      target: { channel: "telegram", to: "555" },
+      payloads: [{ text: "on it" }],
+      stateDir,
+    });
+    expect(id).toBeNull();
+    expect(await loadHeldDeliveries(stateDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,431 @@
+import path from "node:path";
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { resolveStateDir } from "../../config/paths.js";
+import {
+  loadSessionStore,
+  resolveAgentMainSessionKey,
+  resolveStorePath,
+} from "../../config/sessions.js";
+import type { ExecApprovalForwardTarget } from "../../config/types.approvals.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import {
+  isDeliverableMessageChannel,
+  normalizeMessageChannel,
+} from "../../utils/message-channel.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../json-files.js";
+import { enqueueSystemEvent } from "../system-events.js";
+import { deliverOutboundPayloads, type OutboundDeliveryResult } from "./deliver.js";
+import {
+  claimHeldDelivery,
+  holdDelivery,
+  loadHeldDeliveries,
+  loadHeldDelivery,
+  releaseHeldDelivery,
+  restoreHeldDelivery,
+  type DeliveryRouteTarget,
+  type QueuedDelivery,
+} from "./delivery-queue.js";
+import { evaluateOutboundApprovalPolicy } from "./outbound-policy.js";
+import { resolveOutboundSessionRoute } from "./outbound-session.js";
+import { buildOutboundSessionContext } from "./session-context.js";
+import { normalizeTargetForProvider } from "./target-normalization.js";
+import { resolveSessionDeliveryTarget } from "./targets.js";
+
+const log = createSubsystemLogger("outbound-approvals");
+
+const NOTICE_PREVIEW_CHARS = 500;
+
+export type OutboundApprovalDecision = "approve" | "edit" | "reject";
+
+/** Operator-facing view of a held delivery. */
+export type OutboundApproval = {
+  id: string;
+  channel: string;
+  to: string;
+  accountId?: string;
+  threadId?: string | number | null;
+  agentId?: string;
+  text: string;
+  mediaUrls: string[];
+  heldAt: number;
+  reason?: string;
+  heldBy: "plugin" | "policy";
+};
+
+export type OutboundApprovalResolution = {
+  id: string;
+  decision: OutboundApprovalDecision;
+  results: OutboundDeliveryResult[];
+};
+
+type ContactsFile = {
+  version: 1;
+  contacts: Record<string, { firstAt: number }>;
+};
+
+type ContactTarget = {
+  channel: string;
+  to: string;
+  accountId?: string | null;
+};
+
+const withContactsLock = createAsyncLock();
+
+function resolveContactsPath(stateDir?: string) {
+  return path.join(stateDir ?? resolveStateDir(), "outbound-approvals", "contacts.json");
+}
+
+function contactKey(target: ContactTarget): string {
+  const to = normalizeTargetForProvider(target.channel, target.to) ?? target.to.trim();
+  return `${target.channel}:${target.accountId?.trim() || "default"}:${to.toLowerCase()}`;
+}
+
+async function loadContacts(filePath: string): Promise<ContactsFile> {
+  const existing = await readJsonFile<ContactsFile>(filePath);
+  if (!existing || typeof existing.contacts !== "object" || existing.contacts === null) {
+    return { version: 1, contacts: {} };
+  }
+  return existing;
+}
+
+/** True once the agent has messaged this recipient (or an operator approved it). */
+export async function isKnownOutboundContact(
+  target: ContactTarget,
+  stateDir?: string,
+): Promise<boolean> {
+  const file = await loadContacts(resolveContactsPath(stateDir));
+  return Boolean(file.contacts[contactKey(target)]);
+}
+
+export async function recordOutboundContact(
+  target: ContactTarget,
+  stateDir?: string,
+): Promise<void> {
+  const filePath = resolveContactsPath(stateDir);
+  const key = contactKey(target);
+  await withContactsLock(async () => {
+    const file = await loadContacts(filePath);
+    if (file.contacts[key]) {
+      return;
+    }
+    file.contacts[key] = { firstAt: Date.now() };
+    await writeJsonAtomic(filePath, file);
+  });
+}
+
+function toApproval(entry: QueuedDelivery): OutboundApproval {
+  const text = entry.payloads
+    .map((payload) => payload.text)
+    .filter(Boolean)
+    .join("\n");
+  const mediaUrls = entry.payloads.flatMap(
+    (payload) => payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []),
+  );
+  return {
+    id: entry.id,
+    channel: entry.channel,
+    to: entry.to,
+    ...(entry.accountId ? { accountId: entry.accountId } : {}),
+    ...(entry.threadId != null ? { threadId: entry.threadId } : {}),
+    ...(entry.mirror?.agentId ? { agentId: entry.mirror.agentId } : {}),
+    text,
+    mediaUrls,
+    heldAt: entry.route?.heldAt ?? entry.enqueuedAt,
+    ...(entry.route?.heldReason ? { reason: entry.route.heldReason } : {}),
+    heldBy: entry.route?.heldBy ?? "plugin",
+  };
+}
+
+/** Held deliveries awaiting review, oldest first. */
+export async function listOutboundApprovals(stateDir?: string): Promise<OutboundApproval[]> {
+  const entries = await loadHeldDeliveries(stateDir);
+  return entries.map(toApproval).toSorted((a, b) => a.heldAt - b.heldAt);
+}
+
+export async function getOutboundApproval(
+  id: string,
+  stateDir?: string,
+): Promise<OutboundApproval | null> {
+  const entry = await loadHeldDelivery(id, stateDir);
+  return entry ? toApproval(entry) : null;
+}
+
+function shouldSendNotice(): boolean {
+  return !process.env.VITEST && process.env.NODE_ENV !== "test";
+}
+
+function buildNoticeText(approval: OutboundApproval): string {
+  const preview =
+    approval.text.length > NOTICE_PREVIEW_CHARS
+      ? `${approval.text.slice(0, NOTICE_PREVIEW_CHARS)}…`
+      : approval.text;
+  const media = approval.mediaUrls.length > 0 ? `\n(+${approval.mediaUrls.length} media)` : "";
+  return [
+    `✋ Outbound message held for approval${approval.reason ? ` (${approval.reason})` : ""}.`,
+    `To: ${approval.channel}:${approval.to}${approval.agentId ? ` · agent ${approval.agentId}` : ""}`,
+    `ID: ${approval.id}`,
+    "",
+    `${preview}${media}`,
+    "",
+    "Reply with:",
+    `/approve ${approval.id} approve`,
+    `/approve ${approval.id} edit <new text>`,
+    `/approve ${approval.id} reject`,
+  ].join("\n");
+}
+
+function resolveNoticeTargets(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey: string;
+}): ExecApprovalForwardTarget[] {
+  const configured = params.cfg.approvals?.outbound?.targets ?? [];
+  if (configured.length > 0) {
+    return configured;
+  }
+  const storePath = resolveStorePath(params.cfg.session?.store, { agentId: params.agentId });
+  const entry = loadSessionStore(storePath)[params.sessionKey];
+  if (!entry) {
+    return [];
+  }
+  const target = resolveSessionDeliveryTarget({ entry, requestedChannel: "last" });
+  if (!target.channel || !target.to) {
+    return [];
+  }
+  return [
+    {
+      channel: target.channel,
+      to: target.to,
+      accountId: target.accountId,
+      threadId: target.threadId,
+    },
+  ];
+}
+
+/**
+ * Tell the owner a message is waiting: the configured notice targets, else the
+ * agent main session's last route, else a main-session system event.
+ */
+async function deliverOutboundApprovalNotice(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  approval: OutboundApproval;
+}): Promise<void> {
+  if (!shouldSendNotice()) {
+    return;
+  }
+  const sessionKey = resolveAgentMainSessionKey({ cfg: params.cfg, agentId: params.agentId });
+  const text = buildNoticeText(params.approval);
+  let delivered = false;
+  for (const target of resolveNoticeTargets({ ...params, sessionKey })) {
+    const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+    if (!isDeliverableMessageChannel(channel)) {
+      continue;
+    }
+    try {
+      await deliverOutboundPayloads({
+        cfg: params.cfg,
+        channel,
+        to: target.to,
+        accountId: target.accountId,
+        threadId: target.threadId,
+        payloads: [{ text }],
+        session: buildOutboundSessionContext({ cfg: params.cfg, sessionKey }),
+      });
+      delivered = true;
+    } catch (err) {
+      log.warn(`Failed to deliver outbound approval notice: ${String(err)}`);
+    }
+  }
+  if (!delivered) {
+    enqueueSystemEvent(text, { sessionKey });
+  }
+}
+
+/** Park an outbound message for operator review and notify the owner. Returns the approval ID. */
+export async function holdOutboundMessage(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  target: DeliveryRouteTarget;
+  payloads: ReplyPayload[];
+  reason: string;
+  replyToId?: string | null;
+  silent?: boolean;
+  mirror?: QueuedDelivery["mirror"];
+  stateDir?: string;
+}): Promise<string> {
+  const id = await holdDelivery(
+    {
+      channel: params.target.channel,
+      to: params.target.to,
+      accountId: params.target.accountId,
+      threadId: params.target.threadId,
+      payloads: params.payloads,
+      replyToId: params.replyToId,
+      silent: params.silent,
+      mirror: params.mirror,
+      route: { heldBy: "policy" },
+    },
+    params.reason,
+    params.stateDir,
+  );
+  log.info(
+    `Outbound message held for approval (${id}) for ${params.target.channel}:${params.target.to}`,
+  );
+  const approval = await getOutboundApproval(id, params.stateDir);
+  if (approval) {
+    try {
+      await deliverOutboundApprovalNotice({ cfg: params.cfg, agentId: params.agentId, approval });
+    } catch (err) {
+      log.warn(`Failed to notify owner about held message ${id}: ${String(err)}`);
+    }
+  }
+  return id;
+}
+
+function isSessionConversation(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey?: string;
+  target: DeliveryRouteTarget;
+}): boolean {
+  if (!params.sessionKey) {
+    return false;
+  }
+  const storePath = resolveStorePath(params.cfg.session?.store, { agentId: params.agentId });
+  const entry = loadSessionStore(storePath)[params.sessionKey];
+  if (!entry) {
+    return false;
+  }
+  const current = resolveSessionDeliveryTarget({ entry, requestedChannel: "last" });
+  if (current.channel !== params.target.channel || !current.to) {
+    return false;
+  }
+  const normalize = (to: string) =>
+    (normalizeTargetForProvider(params.target.channel, to) ?? to.trim()).toLowerCase();
+  return normalize(current.to) === normalize(params.target.to);
+}
+
+/**
+ * Apply `approvals.outbound` to a delivery on the shared outbound path (cron,
+ * announces, plugin reroutes and copies). Replies into the session's own
+ * conversation pass. Returns the approval ID when the delivery was held.
+ */
+export async function holdOutboundDeliveryForApproval(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey?: string;
+  target: DeliveryRouteTarget;
+  payloads: ReplyPayload[];
+  replyToId?: string | null;
+  silent?: boolean;
+  mirror?: QueuedDelivery["mirror"];
+  stateDir?: string;
+}): Promise<string | null> {
+  if (!params.cfg.approvals?.outbound?.enabled || isSessionConversation(params)) {
+    return null;
+  }
+  const { target } = params;
+  const sessionRoute = await resolveOutboundSessionRoute({
+    cfg: params.cfg,
+    channel: target.channel,
+    agentId: params.agentId,
+    accountId: target.accountId,
+    target: target.to,
+  }).catch(() => null);
+  const hold = await evaluateOutboundApprovalPolicy({
+    cfg: params.cfg,
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    agentId: params.agentId,
+    chatType: sessionRoute?.chatType,
+    groupId: sessionRoute?.peer.id,
+    stateDir: params.stateDir,
+  });
+  if (!hold) {
+    return null;
+  }
+  return await holdOutboundMessage({ ...params, reason: hold.reason });
+}
+
+function applyEdit(payloads: ReplyPayload[], text: string): ReplyPayload[] {
+  const index = payloads.findIndex((payload) => payload.text);
+  if (index === -1) {
+    return [{ text }, ...payloads];
+  }
+  return payloads.map((payload, i) =>
+    i === index ? { ...payload, text } : { ...payload, text: undefined },
+  );
+}
+
+/**
+ * Approve (send as held), edit (send with replacement text) or reject (drop)
+ * a held delivery. Approved recipients become known contacts.
+ */
+export async function resolveOutboundApproval(params: {
+  cfg: OpenClawConfig;
+  id: string;
+  decision: OutboundApprovalDecision;
+  text?: string;
+  stateDir?: string;
+}): Promise<OutboundApprovalResolution> {
+  if (params.decision === "edit" && !params.text?.trim()) {
+    throw new Error("edit requires replacement text");
+  }
+  const entry = await loadHeldDelivery(params.id, params.stateDir);
+  if (!entry || !(await claimHeldDelivery(params.id, params.stateDir))) {
+    throw new Error(`unknown or already resolved outbound approval: ${params.id}`);
+  }
+  if (params.decision === "reject") {
+    await releaseHeldDelivery(params.id, params.stateDir);
+    log.info(`Outbound message ${params.id} rejected`);
+    return { id: params.id, decision: params.decision, results: [] };
+  }
+
+  const payloads =
+    params.decision === "edit" ? applyEdit(entry.payloads, params.text!.trim()) : entry.payloads;
+  // Plugin holds already ran routing; replaying it would hold the message again.
+  const route =
+    entry.route?.heldBy === "policy"
+      ? undefined
+      : { ...entry.route, heldAt: undefined, heldReason: undefined };
+  let results: OutboundDeliveryResult[];
+  try {
+    results = await deliverOutboundPayloads({
+      cfg: params.cfg,
+      channel: entry.channel,
+      to: entry.to,
+      accountId: entry.accountId,
+      threadId: entry.threadId,
+      replyToId: entry.replyToId,
+      payloads,
+      silent: entry.silent,
+      gifPlayback: entry.gifPlayback,
+      mirror: entry.mirror
+        ? {
+            ...entry.mirror,
+            text: payloads
+              .map((payload) => payload.text)
+              .filter(Boolean)
+              .join("\n"),
+          }
+        : undefined,
+      route,
+      // The held entry is the write-ahead record; it goes back up for review on failure.
+      skipQueue: true,
+      skipApproval: true,
+    });
+  } catch (err) {
+    await restoreHeldDelivery(params.id, params.stateDir);
+    throw err;
+  }
+  await releaseHeldDelivery(params.id, params.stateDir);
+  await recordOutboundContact(
+    { channel: entry.channel, to: entry.to, accountId: entry.accountId },
+    params.stateDir,
+  );
+  log.info(`Outbound message ${params.id} ${params.decision === "edit" ? "edited and " : ""}sent`);
+  return { id: params.id, decision: params.decision, results };
+}
@@ -1,16 +1,25 @@
+import { getChannelPlugin } from "../../channels/plugins/index.js";
 import type {
   ChannelId,
   ChannelMessageActionName,
   ChannelThreadingToolContext,
 } from "../../channels/plugins/types.js";
 import type { OpenClawConfig } from "../../config/config.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import { defaultRuntime } from "../../runtime.js";
 import {
   getChannelMessageAdapter,
   type CrossContextComponentsBuilder,
 } from "./channel-adapters.js";
+import { isKnownOutboundContact } from "./outbound-approvals.js";
 import { normalizeTargetForProvider } from "./target-normalization.js";
 import { formatTargetDisplay, lookupDirectoryDisplay } from "./target-resolver.js";
 
+export type OutboundApprovalHold = {
+  rule: "allowlist" | "group-size" | "first-contact";
+  reason: string;
+};
+
 export type CrossContextDecoration = {
   prefix: string;
   suffix: string;
@@ -219,3 +228,126 @@ export function applyCrossContextDecoration(params: {
   const message = `${params.decoration.prefix}${params.message}${params.decoration.suffix}`;
   return { message, usedComponents: false };
 }
+
+function matchesOutboundAllowlist(params: {
+  channel: ChannelId;
+  target: string;
+  allowlist: string[];
+}): boolean {
+  const target = normalizeTarget(params.channel, params.target);
+  for (const raw of params.allowlist) {
+    const entry = raw.trim();
+    if (entry === "*") {
+      return true;
+    }
+    const separator = entry.indexOf(":");
+    if (separator <= 0 || entry.slice(0, separator).toLowerCase() !== params.channel) {
+      continue;
+    }
+    const allowed = entry.slice(separator + 1).trim();
+    if (allowed === "*" || (allowed && normalizeTarget(params.channel, allowed) === target)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function countGroupMembers(params: {
+  cfg: OpenClawConfig;
+  channel: ChannelId;
+  groupId: string;
+  accountId?: string | null;
+  limit: number;
+}): Promise<number | null> {
+  const listGroupMembers = getChannelPlugin(params.channel)?.directory?.listGroupMembers;
+  if (!listGroupMembers) {
+    return null;
+  }
+  try {
+    const members = await listGroupMembers({
+      cfg: params.cfg,
+      accountId: params.accountId,
+      groupId: params.groupId,
+      limit: params.limit,
+      runtime: defaultRuntime,
+    });
+    return members.length;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decide whether an agent-initiated send must wait for operator approval
+ * (`approvals.outbound`). Replies in the current conversation and allowlisted
+ * targets pass; otherwise non-allowlisted message-tool targets, large groups
+ * and first contacts are held, in that order.
+ */
+export async function evaluateOutboundApprovalPolicy(params: {
+  cfg: OpenClawConfig;
+  channel: ChannelId;
+  to: string;
+  accountId?: string | null;
+  agentId?: string;
+  chatType?: "direct" | "group" | "channel";
+  /** Directory id for member lookups when it differs from `to`. */
+  groupId?: string;
+  toolContext?: ChannelThreadingToolContext;
+  stateDir?: string;
+}): Promise<OutboundApprovalHold | null> {
+  const policy = params.cfg.approvals?.outbound;
+  if (!policy?.enabled) {
+    return null;
+  }
+  if (policy.agentFilter?.length) {
+    const agentId = normalizeAgentId(params.agentId);
+    if (!policy.agentFilter.some((entry) => normalizeAgentId(entry) === agentId)) {
+      return null;
+    }
+  }
+  const currentProvider = params.toolContext?.currentChannelProvider;
+  if (
+    params.toolContext?.currentChannelId?.trim() &&
+    (!currentProvider || currentProvider === params.channel) &&
+    !isCrossContextTarget({
+      channel: params.channel,
+      target: params.to,
+      toolContext: params.toolContext,
+    })
+  ) {
+    return null;
+  }
+
+  const allowlist = policy.allowlist ?? [];
+  if (allowlist.length > 0) {
+    if (matchesOutboundAllowlist({ channel: params.channel, target: params.to, allowlist })) {
+      return null;
+    }
+    return { rule: "allowlist", reason: "target not in allowlist" };
+  }
+
+  const threshold = policy.groupMemberThreshold;
+  if (threshold && params.chatType && params.chatType !== "direct") {
+    const members = await countGroupMembers({
+      cfg: params.cfg,
+      channel: params.channel,
+      groupId: params.groupId ?? params.to,
+      accountId: params.accountId,
+      limit: threshold + 1,
+    });
+    if (members !== null && members > threshold) {
+      return { rule: "group-size", reason: `group has more than ${threshold} members` };
+    }
+  }
+
+  if (policy.firstContact !== false) {
+    const known = await isKnownOutboundContact(
+      { channel: params.channel, to: params.to, accountId: params.accountId },
+      params.stateDir,
+    );
+    if (!known) {
+      return { rule: "first-contact", reason: "first contact" };
+    }
+  }
+  return null;
+}
@@ -142,6 +142,8 @@ export async function executeSendAction(params: {
     mirror: params.ctx.mirror,
     abortSignal: params.ctx.abortSignal,
     silent: params.ctx.silent,
+    // message-action-runner already applied approvals.outbound with the tool context.
+    skipApproval: true,
   });
 
   return {
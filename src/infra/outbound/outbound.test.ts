@@ -11,8 +11,10 @@ import {
   type DeliverFn,
   enqueueDelivery,
   failDelivery,
+  holdDelivery,
   isEntryEligibleForRecoveryRetry,
   isPermanentDeliveryError,
+  loadHeldDeliveries,
   loadPendingDeliveries,
   MAX_RETRIES,
   moveToFailed,
@@ -146,6 +148,35 @@ describe("delivery-queue", () => {
     });
   });
 
+  describe("holdDelivery", () => {
+    it("parks held entries outside the recovery queue", async () => {
+      const id = await holdDelivery(
+        {
+          channel: "slack",
+          to: "#general",
+          payloads: [{ text: "hi" }],
+          route: { original: { channel: "slack", to: "#support" } },
+        },
+        "needs review",
+        tmpDir,
+      );
+
+      expect(await loadPendingDeliveries(tmpDir)).toEqual([]);
+      const held = await loadHeldDeliveries(tmpDir);
+      expect(held).toEqual([
+        expect.objectContaining({
+          id,
+          to: "#general",
+          route: {
+            original: { channel: "slack", to: "#support" },
+            heldAt: expect.any(Number),
+            heldReason: "needs review",
+          },
+        }),
+      ]);
+    });
+  });
+
   describe("isPermanentDeliveryError", () => {
     it.each([
       "No conversation reference found for user:abc",
@@ -403,6 +434,7 @@ describe("delivery-queue", () => {
             text: "a",
             mediaUrls: ["https://example.com/a.png"],
           },
+          route: { copies: 1 },
         },
         tmpDir,
       );
@@ -420,6 +452,7 @@ describe("delivery-queue", () => {
             text: "a",
             mediaUrls: ["https://example.com/a.png"],
           },
+          route: { copies: 1 },
         }),
       );
     });
@@ -0,0 +1,145 @@
+import type { NormalizedUsage } from "../agents/usage.js";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentMainSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import type { BudgetNotifyTarget } from "../config/types.budgets.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { isDeliverableMessageChannel, normalizeMessageChannel } from "../utils/message-channel.js";
+import { buildOutboundSessionContext } from "./outbound/session-context.js";
+import { resolveSessionDeliveryTarget } from "./outbound/targets.js";
+import { enqueueSystemEvent } from "./system-events.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetCrossing,
+  recordUsageBudget,
+  type UsageBudgetCrossing,
+} from "./usage-budgets.js";
+
+const log = createSubsystemLogger("usage-budget-warning");
+
+function shouldSendWarning(cfg: OpenClawConfig): boolean {
+  if (cfg.budgets?.notify?.enabled === false) {
+    return false;
+  }
+  return !process.env.VITEST && process.env.NODE_ENV !== "test";
+}
+
+function buildWarningText(params: {
+  crossings: UsageBudgetCrossing[];
+  fallbackModel?: string;
+}): string {
+  const stopped = params.crossings.some((crossing) => crossing.level === "stop");
+  const lines = params.crossings.map((crossing) => `• ${formatUsageBudgetCrossing(crossing)}`);
+  const action = !stopped
+    ? "Runs continue until the hard stop."
+    : params.fallbackModel
+      ? `Further runs use ${params.fallbackModel} until the window resets.`
+      : "Further runs are refused until the window resets.";
+  return [
+    stopped ? "⛔ Usage budget exhausted." : "⚠️ Usage budget warning.",
+    ...lines,
+    action,
+  ].join("\n");
+}
+
+function resolveOwnerTarget(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey: string;
+}): BudgetNotifyTarget | null {
+  const configured = params.cfg.budgets?.notify?.target;
+  if (configured) {
+    return configured;
+  }
+  const storePath = resolveStorePath(params.cfg.session?.store, { agentId: params.agentId });
+  const entry = loadSessionStore(storePath)[params.sessionKey];
+  if (!entry) {
+    return null;
+  }
+  const target = resolveSessionDeliveryTarget({ entry, requestedChannel: "last" });
+  if (!target.channel || !target.to) {
+    return null;
+  }
+  return {
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+  };
+}
+
+/**
+ * Tell the owner a budget threshold was crossed: the configured notify target,
+ * else the agent main session's last route, else a main-session system event.
+ */
+export async function deliverUsageBudgetWarning(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  crossings: UsageBudgetCrossing[];
+  fallbackModel?: string;
+}): Promise<void> {
+  if (params.crossings.length === 0 || !shouldSendWarning(params.cfg)) {
+    return;
+  }
+  const sessionKey = resolveAgentMainSessionKey({ cfg: params.cfg, agentId: params.agentId });
+  const text = buildWarningText(params);
+  const target = resolveOwnerTarget({ cfg: params.cfg, agentId: params.agentId, sessionKey });
+  if (!target) {
+    enqueueSystemEvent(text, { sessionKey });
+    return;
+  }
+
+  const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+  if (!isDeliverableMessageChannel(channel)) {
+    enqueueSystemEvent(text, { sessionKey });
+    return;
+  }
+
+  try {
+    const { deliverOutboundPayloads } = await import("./outbound/deliver.js");
+    await deliverOutboundPayloads({
+      cfg: params.cfg,
+      channel,
+      to: target.to,
+      accountId: target.accountId,
+      threadId: target.threadId,
+      payloads: [{ text }],
+      session: buildOutboundSessionContext({ cfg: params.cfg, sessionKey }),
+    });
+  } catch (err) {
+    log.warn(`Failed to deliver usage budget warning: ${String(err)}`);
+    enqueueSystemEvent(text, { sessionKey });
+  }
+}
+
+/** Record a finished run against its budgets and warn the owner on new crossings. */
+export async function trackUsageBudget(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  channel?: string;
+  accountId?: string;
+  provider?: string;
+  model?: string;
+  usage?: NormalizedUsage;
+}): Promise<void> {
+  try {
+    const crossings = await recordUsageBudget(params);
+    if (crossings.length === 0) {
+      return;
+    }
+    const check = crossings.some((crossing) => crossing.level === "stop")
+      ? await checkUsageBudgets(params)
+      : undefined;
+    await deliverUsageBudgetWarning({
+      cfg: params.cfg,
+      agentId: params.agentId,
+      crossings,
+      fallbackModel: check?.fallbackModel,
+    });
+  } catch (err) {
+    log.warn(`Failed to record usage budget: ${String(err)}`);
+  }
+}
@@ -0,0 +1,175 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStopMessage,
+  recordUsageBudget,
+  resolveUsageBudgetModel,
+  resolveUsageBudgetScopes,
+} from "./usage-budgets.js";
+
+const NOW = Date.UTC(2026, 2, 15, 12, 0, 0);
+
+function makeConfig(budgets: OpenClawConfig["budgets"]): OpenClawConfig {
+  return {
+    agents: { defaults: { userTimezone: "UTC" } },
+    models: {
+      providers: {
+        openai: {
+          baseUrl: "https://api.openai.com/v1",
+          models: [
+            {
+              id: "gpt-test",
+              name: "gpt-test",
+              reasoning: false,
+              input: ["text"],
+              cost: { input: 10, output: 10, cacheRead: 0, cacheWrite: 0 },
+              contextWindow: 128_000,
+              maxTokens: 4096,
+            },
+          ],
+        },
+      },
+    },
+    budgets,
+  } as OpenClawConfig;
+}
+
+async function makeBaseDir() {
+  return await mkdtemp(join(tmpdir(), "openclaw-usage-budgets-"));
+}
+
+describe("resolveUsageBudgetScopes", () => {
+  it("matches agent entries, the wildcard, and channel account keys", () => {
+    const cfg = makeConfig({
+      agents: { "*": { daily: { tokens: 10 } }, ops: { monthly: { tokens: 20 } } },
+      accounts: { telegram: { daily: { tokens: 5 } }, "slack:work": { daily: { tokens: 7 } } },
+    });
+    expect(
+      resolveUsageBudgetScopes({ cfg, agentId: "ops", channel: "slack", accountId: "work" }).map(
+        (scope) => scope.id,
+      ),
+    ).toEqual(["agent:ops", "account:slack:work"]);
+    expect(
+      resolveUsageBudgetScopes({ cfg, agentId: "main", channel: "telegram", accountId: "bot" }).map(
+        (scope) => scope.id,
+      ),
+    ).toEqual(["agent:main", "account:telegram"]);
+  });
+
+  it("returns nothing when budgets are disabled", () => {
+    const cfg = makeConfig({ enabled: false, agents: { main: { daily: { tokens: 10 } } } });
+    expect(resolveUsageBudgetScopes({ cfg, agentId: "main" })).toEqual([]);
+  });
+});
+
+describe("usage budget ledger", () => {
+  it("reports each threshold crossing once per window", async () => {
+    const baseDir = await makeBaseDir();
+    const cfg = makeConfig({ agents: { main: { daily: { tokens: 1000 } } } });
+    const record = (tokens: number) =>
+      recordUsageBudget({
+        cfg,
+        agentId: "main",
+        baseDir,
+        nowMs: NOW,
+        provider: "openai",
+        model: "gpt-test",
+        usage: { input: tokens, output: 0 },
+      });
+
+    expect(await record(500)).toEqual([]);
+    expect(await record(300)).toEqual([
+      expect.objectContaining({ window: "daily", metric: "tokens", level: "warn", used: 800 }),
+    ]);
+    expect(await record(100)).toEqual([]);
+    expect(await record(100)).toEqual([
+      expect.objectContaining({ level: "stop", used: 1000, limit: 1000 }),
+    ]);
+
+    const check = await checkUsageBudgets({ cfg, agentId: "main", baseDir, nowMs: NOW });
+    expect(check.state).toBe("stop");
+    expect(check.fallbackModel).toBeUndefined();
+    expect(formatUsageBudgetStopMessage(check)).toContain("agent main: daily tokens 1,000 / 1,000");
+  });
+
+  it("resets the daily window while the monthly total keeps accumulating", async () => {
+    const baseDir = await makeBaseDir();
+    const cfg = makeConfig({
+      agents: { main: { daily: { tokens: 100 }, monthly: { tokens: 1000 } } },
+    });
+    await recordUsageBudget({
+      cfg,
+      agentId: "main",
+      baseDir,
+      nowMs: NOW,
+      usage: { input: 100 },
+    });
+    const tomorrow = NOW + 24 * 60 * 60 * 1000;
+    expect((await checkUsageBudgets({ cfg, agentId: "main", baseDir, nowMs: NOW })).state).toBe(
+      "stop",
+    );
+    expect(
+      (await checkUsageBudgets({ cfg, agentId: "main", baseDir, nowMs: tomorrow })).state,
+    ).toBe("ok");
+
+    const crossings = await recordUsageBudget({
+      cfg,
+      agentId: "main",
+      baseDir,
+      nowMs: tomorrow,
+      usage: { input: 750 },
+    });
+    expect(crossings.map((crossing) => `${crossing.window}:${crossing.level}`)).toEqual([
+      "daily:stop",
+      "monthly:warn",
+    ]);
+  });
+
+  it("tracks estimated cost and switches to the fallback model at the hard stop", async () => {
+    const baseDir = await makeBaseDir();
+    const cfg = makeConfig({
+      stopAt: 0.9,
+      fallbackModel: "openai/gpt-mini",
+      accounts: { "telegram:bot": { monthly: { costUsd: 1 } } },
+    });
+    await recordUsageBudget({
+      cfg,
+      agentId: "main",
+      channel: "telegram",
+      accountId: "bot",
+      baseDir,
+      nowMs: NOW,
+      provider: "openai",
+      model: "gpt-test",
+      usage: { input: 50_000, output: 45_000 },
+    });
+    const check = await checkUsageBudgets({
+      cfg,
+      agentId: "main",
+      channel: "telegram",
+      accountId: "bot",
+      baseDir,
+      nowMs: NOW,
+    });
+    expect(check).toMatchObject({ state: "stop", fallbackModel: "openai/gpt-mini" });
+    expect(resolveUsageBudgetModel(check, { provider: "anthropic", model: "opus" })).toEqual({
+      provider: "openai",
+      model: "gpt-mini",
+    });
+  });
+
+  it("keeps the selected model below the hard stop", async () => {
+    const baseDir = await makeBaseDir();
+    const cfg = makeConfig({ agents: { main: { daily: { tokens: 1000 } } } });
+    const check = await checkUsageBudgets({ cfg, agentId: "main", baseDir, nowMs: NOW });
+    expect(check).toEqual({ state: "ok", crossings: [] });
+    expect(resolveUsageBudgetModel(check, { provider: "openai", model: "gpt-test" })).toEqual({
+      provider: "openai",
+      model: "gpt-test",
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import path from "node:path";
+import { resolveUserTimezone } from "../agents/date-time.js";
+import { parseModelRef } from "../agents/model-selection.js";
+import type { NormalizedUsage } from "../agents/usage.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { BudgetLimitConfig } from "../config/types.budgets.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../utils/usage-format.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+export type UsageBudgetWindow = "daily" | "monthly";
+export type UsageBudgetMetric = "tokens" | "costUsd";
+export type UsageBudgetLevel = "warn" | "stop";
+export type UsageBudgetState = "ok" | UsageBudgetLevel;
+
+export type UsageBudgetScope = {
+  /** Ledger key, e.g. "agent:main" or "account:telegram:default". */
+  id: string;
+  /** Human-readable label used in warnings. */
+  label: string;
+  limit: BudgetLimitConfig;
+};
+
+export type UsageBudgetCrossing = {
+  scope: string;
+  label: string;
+  window: UsageBudgetWindow;
+  metric: UsageBudgetMetric;
+  level: UsageBudgetLevel;
+  used: number;
+  limit: number;
+};
+
+export type UsageBudgetCheck = {
+  state: UsageBudgetState;
+  /** Model (provider/model) to use instead when state is "stop"; absent means refuse the run. */
+  fallbackModel?: string;
+  crossings: UsageBudgetCrossing[];
+};
+
+type BudgetTarget = {
+  cfg: OpenClawConfig;
+  agentId: string;
+  channel?: string;
+  accountId?: string;
+  nowMs?: number;
+  /** Overrides the state dir (tests). */
+  baseDir?: string;
+};
+
+type LedgerWindow = {
+  period: string;
+  tokens: number;
+  costUsd: number;
+  notified: UsageBudgetLevel[];
+};
+
+type LedgerScope = Partial<Record<UsageBudgetWindow, LedgerWindow>>;
+
+type BudgetLedger = {
+  version: 1;
+  scopes: Record<string, LedgerScope>;
+};
+
+const DEFAULT_WARN_AT = 0.8;
+const DEFAULT_STOP_AT = 1;
+const WINDOWS: UsageBudgetWindow[] = ["daily", "monthly"];
+const METRICS: UsageBudgetMetric[] = ["tokens", "costUsd"];
+
+const withLock = createAsyncLock();
+
+function resolveLedgerPath(baseDir?: string) {
+  const root = baseDir ?? resolveStateDir();
+  return path.join(root, "usage", "budgets.json");
+}
+
+async function loadLedger(filePath: string): Promise<BudgetLedger> {
+  const existing = await readJsonFile<BudgetLedger>(filePath);
+  if (!existing || typeof existing.scopes !== "object" || existing.scopes === null) {
+    return { version: 1, scopes: {} };
+  }
+  return existing;
+}
+
+function resolvePeriods(cfg: OpenClawConfig, nowMs: number): Record<UsageBudgetWindow, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveUserTimezone(cfg.agents?.defaults?.userTimezone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(nowMs));
+  const year = parts.find((part) => part.type === "year")?.value;
+  const month = parts.find((part) => part.type === "month")?.value;
+  const day = parts.find((part) => part.type === "day")?.value;
+  const daily =
+    year && month && day ? `${year}-${month}-${day}` : new Date(nowMs).toISOString().slice(0, 10);
+  return { daily, monthly: daily.slice(0, 7) };
+}
+
+function currentWindow(
+  scope: LedgerScope | undefined,
+  window: UsageBudgetWindow,
+  period: string,
+): LedgerWindow {
+  const existing = scope?.[window];
+  if (existing && existing.period === period) {
+    return existing;
+  }
+  return { period, tokens: 0, costUsd: 0, notified: [] };
+}
+
+function isBudgetEnabled(cfg: OpenClawConfig): boolean {
+  const budgets = cfg.budgets;
+  if (!budgets || budgets.enabled === false) {
+    return false;
+  }
+  return (
+    Object.keys(budgets.agents ?? {}).length > 0 || Object.keys(budgets.accounts ?? {}).length > 0
+  );
+}
+
+/**
+ * Budgets that apply to a run: the agent entry (or "*"), plus the channel
+ * account entry ("<channel>:<accountId>", falling back to "<channel>").
+ */
+export function resolveUsageBudgetScopes(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  channel?: string;
+  accountId?: string;
+}): UsageBudgetScope[] {
+  if (!isBudgetEnabled(params.cfg)) {
+    return [];
+  }
+  const budgets = params.cfg.budgets ?? {};
+  const scopes: UsageBudgetScope[] = [];
+  const agentId = params.agentId.trim().toLowerCase();
+  const agentLimit = budgets.agents?.[agentId] ?? budgets.agents?.["*"];
+  if (agentLimit) {
+    scopes.push({ id: `agent:${agentId}`, label: `agent ${agentId}`, limit: agentLimit });
+  }
+  const channel = params.channel?.trim().toLowerCase();
+  if (channel) {
+    const accountId = params.accountId?.trim();
+    const accountKey = accountId ? `${channel}:${accountId}` : undefined;
+    const accountLimit = accountKey ? budgets.accounts?.[accountKey] : undefined;
+    if (accountKey && accountLimit) {
+      scopes.push({ id: `account:${accountKey}`, label: accountKey, limit: accountLimit });
+    } else if (budgets.accounts?.[channel]) {
+      scopes.push({
+        id: `account:${channel}`,
+        label: channel,
+        limit: budgets.accounts[channel],
+      });
+    }
+  }
+  return scopes;
+}
+
+function resolveThresholds(cfg: OpenClawConfig, limit: BudgetLimitConfig) {
+  return {
+    warnAt: limit.warnAt ?? cfg.budgets?.warnAt ?? DEFAULT_WARN_AT,
+    stopAt: limit.stopAt ?? cfg.budgets?.stopAt ?? DEFAULT_STOP_AT,
+  };
+}
+
+function evaluateScope(params: {
+  cfg: OpenClawConfig;
+  scope: UsageBudgetScope;
+  ledger: LedgerScope | undefined;
+  periods: Record<UsageBudgetWindow, string>;
+}): UsageBudgetCrossing[] {
+  const { warnAt, stopAt } = resolveThresholds(params.cfg, params.scope.limit);
+  const crossings: UsageBudgetCrossing[] = [];
+  for (const window of WINDOWS) {
+    const ceiling = params.scope.limit[window];
+    if (!ceiling) {
+      continue;
+    }
+    const usage = currentWindow(params.ledger, window, params.periods[window]);
+    for (const metric of METRICS) {
+      const limit = ceiling[metric];
+      if (typeof limit !== "number" || limit <= 0) {
+        continue;
+      }
+      const used = usage[metric];
+      const level: UsageBudgetLevel | null =
+        used >= limit * stopAt ? "stop" : used >= limit * warnAt ? "warn" : null;
+      if (level) {
+        crossings.push({
+          scope: params.scope.id,
+          label: params.scope.label,
+          window,
+          metric,
+          level,
+          used,
+          limit,
+        });
+      }
+    }
+  }
+  return crossings;
+}
+
+/** Current budget state for a run, evaluated before the model is called. */
+export async function checkUsageBudgets(params: BudgetTarget): Promise<UsageBudgetCheck> {
+  const scopes = resolveUsageBudgetScopes(params);
+  if (scopes.length === 0) {
+    return { state: "ok", crossings: [] };
+  }
+  const ledger = await loadLedger(resolveLedgerPath(params.baseDir));
+  const periods = resolvePeriods(params.cfg, params.nowMs ?? Date.now());
+  const crossings: UsageBudgetCrossing[] = [];
+  let fallbackModel: string | undefined;
+  for (const scope of scopes) {
+    const scoped = evaluateScope({
+      cfg: params.cfg,
+      scope,
+      ledger: ledger.scopes[scope.id],
+      periods,
+    });
+    if (!fallbackModel && scoped.some((crossing) => crossing.level === "stop")) {
+      fallbackModel = scope.limit.fallbackModel ?? params.cfg.budgets?.fallbackModel;
+    }
+    crossings.push(...scoped);
+  }
+  const state: UsageBudgetState = crossings.some((crossing) => crossing.level === "stop")
+    ? "stop"
+    : crossings.length > 0
+      ? "warn"
+      : "ok";
+  return {
+    state,
+    ...(state === "stop" && fallbackModel ? { fallbackModel } : {}),
+    crossings,
+  };
+}
+
+/**
+ * Add a finished run's usage to every matching budget. Returns thresholds
+ * crossed for the first time in the current window so callers can notify once.
+ */
+export async function recordUsageBudget(
+  params: BudgetTarget & {
+    provider?: string;
+    model?: string;
+    usage?: NormalizedUsage;
+  },
+): Promise<UsageBudgetCrossing[]> {
+  const scopes = resolveUsageBudgetScopes(params);
+  const usage = params.usage;
+  if (scopes.length === 0 || !usage) {
+    return [];
+  }
+  const tokens =
+    (usage.input ?? 0) + (usage.output ?? 0) + (usage.cacheRead ?? 0) + (usage.cacheWrite ?? 0);
+  const costUsd =
+    estimateUsageCost({
+      usage,
+      cost: resolveModelCostConfig({
+        provider: params.provider,
+        model: params.model,
+        config: params.cfg,
+      }),
+    }) ?? 0;
+  if (tokens <= 0 && costUsd <= 0) {
+    return [];
+  }
+  const filePath = resolveLedgerPath(params.baseDir);
+  const periods = resolvePeriods(params.cfg, params.nowMs ?? Date.now());
+  return await withLock(async () => {
+    const ledger = await loadLedger(filePath);
+    const fresh: UsageBudgetCrossing[] = [];
+    for (const scope of scopes) {
+      const entry: LedgerScope = {};
+      for (const window of WINDOWS) {
+        const current = currentWindow(ledger.scopes[scope.id], window, periods[window]);
+        entry[window] = {
+          ...current,
+          tokens: current.tokens + tokens,
+          costUsd: current.costUsd + costUsd,
+        };
+      }
+      ledger.scopes[scope.id] = entry;
+      for (const crossing of evaluateScope({ cfg: params.cfg, scope, ledger: entry, periods })) {
+        const window = entry[crossing.window];
+        if (!window || window.notified.includes(crossing.level)) {
+          continue;
+        }
+        window.notified = [...window.notified, crossing.level];
+        fresh.push(crossing);
+      }
+    }
+    await writeJsonAtomic(filePath, ledger);
+    return fresh;
+  });
+}
+
+/** One line per crossing, e.g. "agent main: daily tokens 82,000 / 100,000 (warn)". */
+export function formatUsageBudgetCrossing(crossing: UsageBudgetCrossing): string {
+  const format = (value: number) =>
+    crossing.metric === "costUsd"
+      ? `$${value.toFixed(2)}`
+      : Math.round(value).toLocaleString("en-US");
+  const metric = crossing.metric === "costUsd" ? "cost" : "tokens";
+  return `${crossing.label}: ${crossing.window} ${metric} ${format(crossing.used)} / ${format(crossing.limit)} (${crossing.level})`;
+}
+
+/**
+ * Model to run with under the current budget state: the selected model while
+ * under the hard stop, the fallback past it, or null when the run is refused.
+ */
+export function resolveUsageBudgetModel(
+  check: UsageBudgetCheck,
+  selected: { provider: string; model: string },
+): { provider: string; model: string } | null {
+  if (check.state !== "stop") {
+    return selected;
+  }
+  const fallback = check.fallbackModel
+    ? parseModelRef(check.fallbackModel, selected.provider)
+    : null;
+  return fallback ? { provider: fallback.provider, model: fallback.model } : null;
+}
+
+export function formatUsageBudgetStopMessage(check: UsageBudgetCheck): string {
+  const stops = check.crossings.filter((crossing) => crossing.level === "stop");
+  const detail = stops.map(formatUsageBudgetCrossing).join("; ");
+  return `⚠️ Usage budget exhausted (${detail}). Try again after the budget window resets.`;
+}
@@ -292,6 +292,38 @@ export function logToolLoopAction(
   markActivity();
 }
 
+export function logSandboxEgress(params: {
+  sessionKey?: string;
+  agentId?: string;
+  method: string;
+  host: string;
+  port: number;
+  allowed: boolean;
+  reason?: string;
+}) {
+  const payload = `sandbox egress ${params.allowed ? "allowed" : "denied"}: sessionKey=${
+    params.sessionKey ?? "unknown"
+  } method=${params.method} target=${params.host}:${params.port}${
+    params.reason ? ` reason="${params.reason}"` : ""
+  }`;
+  if (params.allowed) {
+    diag.info(payload);
+  } else {
+    diag.warn(payload);
+  }
+  emitDiagnosticEvent({
+    type: "sandbox.egress",
+    sessionKey: params.sessionKey,
+    agentId: params.agentId,
+    method: params.method,
+    host: params.host,
+    port: params.port,
+    allowed: params.allowed,
+    reason: params.reason,
+  });
+  markActivity();
+}
+
 export function logActiveRuns() {
   const activeSessions = Array.from(diagnosticSessionStates.entries())
     .filter(([, s]) => s.state === "processing")
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { getDefaultRedactPatterns, redactSensitiveText } from "./redact.js";
+import { getDefaultRedactPatterns, isSensitiveFieldName, redactSensitiveText } from "./redact.js";
 
 const defaults = getDefaultRedactPatterns();
 
@@ -111,3 +111,14 @@ describe("redactSensitiveText", () => {
     expect(output).toBe(input);
   });
 });
+
+describe("isSensitiveFieldName", () => {
+  it("matches credential field and env var names only", () => {
+    for (const name of ["apiKey", "api_key", "token", "accessToken", "password", "DB_PASSWORD"]) {
+      expect(isSensitiveFieldName(name)).toBe(true);
+    }
+    for (const name of ["sessionKey", "maxTokens", "passwordHint", "keyword"]) {
+      expect(isSensitiveFieldName(name)).toBe(false);
+    }
+  });
+});
@@ -38,6 +38,10 @@ const DEFAULT_REDACT_PATTERNS: string[] = [
   String.raw`\b(\d{6,}:[A-Za-z0-9_-]{20,})\b`,
 ];
 
+// Field names whose values are credentials, mirroring the env-style and JSON patterns above.
+const SENSITIVE_ENV_NAME_RE = /^[A-Z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD)$/;
+const SENSITIVE_FIELD_NAME_RE = /(?:api[-_]?key|token|secret|password|passwd)$/i;
+
 type RedactOptions = {
   mode?: RedactSensitiveMode;
   patterns?: string[];
@@ -137,6 +141,16 @@ export function redactSensitiveText(text: string, options?: RedactOptions): stri
   return redactText(text, patterns);
 }
 
+/** True for structured field names (object keys, env var names) that hold credentials. */
+export function isSensitiveFieldName(name: string): boolean {
+  return SENSITIVE_ENV_NAME_RE.test(name) || SENSITIVE_FIELD_NAME_RE.test(name);
+}
+
+/** Mask a whole value known to be a credential, e.g. from a sensitive field. */
+export function maskSensitiveValue(value: string): string {
+  return value ? maskToken(value) : value;
+}
+
 export function redactToolDetail(detail: string): string {
   const resolved = resolveConfigRedaction();
   if (normalizeMode(resolved.mode) !== "tools") {
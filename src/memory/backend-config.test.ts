@@ -37,6 +37,38 @@ describe("resolveMemoryBackendConfig", () => {
     expect(names.has("memory-dir-main")).toBe(true);
   });
 
+  it("resolves the remote vector store backend", () => {
+    const cfg = {
+      agents: { defaults: { workspace: "/tmp/memory-test" } },
+      memory: {
+        backend: "remote",
+        remote: { url: "http://127.0.0.1:7700/", apiKey: "secret", headers: { "X-Tenant": "a" } },
+      },
+    } as OpenClawConfig;
+    expect(resolveMemoryBackendConfig({ cfg, agentId: "Ops Bot" })).toEqual({
+      backend: "remote",
+      citations: "auto",
+      remote: {
+        url: "http://127.0.0.1:7700",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Tenant": "a",
+          Authorization: "Bearer secret",
+        },
+        collection: "openclaw-ops-bot",
+        timeoutMs: 10_000,
+      },
+    });
+  });
+
+  it("falls back to builtin when the remote backend has no url", () => {
+    const cfg = {
+      agents: { defaults: { workspace: "/tmp/memory-test" } },
+      memory: { backend: "remote", remote: {} },
+    } as OpenClawConfig;
+    expect(resolveMemoryBackendConfig({ cfg, agentId: "main" }).backend).toBe("builtin");
+  });
+
   it("parses quoted qmd command paths", () => {
     const cfg = {
       agents: { defaults: { workspace: "/tmp/memory-test" } },
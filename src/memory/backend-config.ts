@@ -10,6 +10,7 @@ import type {
   MemoryQmdIndexPath,
   MemoryQmdMcporterConfig,
   MemoryQmdSearchMode,
+  MemoryRemoteVectorStoreConfig,
 } from "../config/types.memory.js";
 import { resolveUserPath } from "../utils.js";
 import { splitShellArgs } from "../utils/shell-argv.js";
@@ -18,6 +19,14 @@ export type ResolvedMemoryBackendConfig = {
   backend: MemoryBackend;
   citations: MemoryCitationsMode;
   qmd?: ResolvedQmdConfig;
+  remote?: ResolvedRemoteVectorStoreConfig;
+};
+
+export type ResolvedRemoteVectorStoreConfig = {
+  url: string;
+  headers: Record<string, string>;
+  collection: string;
+  timeoutMs: number;
 };
 
 export type ResolvedQmdCollection = {
@@ -93,6 +102,8 @@ const DEFAULT_QMD_MCPORTER: ResolvedQmdMcporterConfig = {
   startDaemon: true,
 };
 
+const DEFAULT_REMOTE_VECTOR_TIMEOUT_MS = 10_000;
+
 const DEFAULT_QMD_SCOPE: SessionSendPolicyConfig = {
   default: "deny",
   rules: [
@@ -294,12 +305,37 @@ function resolveDefaultCollections(
   }));
 }
 
+function resolveRemoteVectorStoreConfig(
+  raw: MemoryRemoteVectorStoreConfig | undefined,
+  agentId: string,
+): ResolvedRemoteVectorStoreConfig | undefined {
+  const url = raw?.url?.trim().replace(/\/+$/, "");
+  if (!url) {
+    return undefined;
+  }
+  const headers: Record<string, string> = { "Content-Type": "application/json", ...raw?.headers };
+  const apiKey = raw?.apiKey?.trim();
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return {
+    url,
+    headers,
+    collection: raw?.collection?.trim() || scopeCollectionBase("openclaw", agentId),
+    timeoutMs: resolveTimeoutMs(raw?.timeoutMs, DEFAULT_REMOTE_VECTOR_TIMEOUT_MS),
+  };
+}
+
 export function resolveMemoryBackendConfig(params: {
   cfg: OpenClawConfig;
   agentId: string;
 }): ResolvedMemoryBackendConfig {
   const backend = params.cfg.memory?.backend ?? DEFAULT_BACKEND;
   const citations = params.cfg.memory?.citations ?? DEFAULT_CITATIONS;
+  if (backend === "remote") {
+    const remote = resolveRemoteVectorStoreConfig(params.cfg.memory?.remote, params.agentId);
+    return remote ? { backend: "remote", citations, remote } : { backend: "builtin", citations };
+  }
   if (backend !== "qmd") {
     return { backend: "builtin", citations };
   }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildMemoryChunkId, locateMemoryChunk, resolveMemoryChunk } from "./chunk-ids.js";
+import { hashText } from "./internal.js";
+
+describe("memory chunk ids", () => {
+  it("derives ids from source, path and text only", () => {
+    const textHash = hashText("Ship on Friday");
+    const id = buildMemoryChunkId({ source: "memory", path: "memory/notes.md", textHash });
+    expect(id).toMatch(/^[0-9a-f]{16}$/);
+    expect(buildMemoryChunkId({ source: "memory", path: "memory/notes.md", textHash })).toBe(id);
+    expect(buildMemoryChunkId({ source: "memory", path: "memory/other.md", textHash })).not.toBe(
+      id,
+    );
+  });
+
+  it("locates chunk text nearest to the indexed lines", () => {
+    const content = ["a", "dup", "b", "c", "dup", "d"].join("\n");
+    expect(locateMemoryChunk(content, "dup", 5)).toEqual({ startLine: 5, endLine: 5 });
+    expect(locateMemoryChunk(content, "dup", 1)).toEqual({ startLine: 2, endLine: 2 });
+    expect(locateMemoryChunk(content, "b\nc")).toEqual({ startLine: 3, endLine: 4 });
+    expect(locateMemoryChunk(content, "missing")).toBeNull();
+  });
+
+  it("follows line shifts and reports stale text", () => {
+    const chunk = {
+      id: "abc",
+      path: "memory/notes.md",
+      source: "memory" as const,
+      text: "Ship on Friday",
+      startLine: 1,
+      endLine: 1,
+    };
+    expect(resolveMemoryChunk({ ...chunk, content: "# Notes\n\nShip on Friday\n" })).toEqual({
+      status: "ok",
+      ...chunk,
+      startLine: 3,
+      endLine: 3,
+    });
+    expect(resolveMemoryChunk({ ...chunk, content: "Ship on Monday\n" })).toEqual({
+      status: "stale",
+      ...chunk,
+      reason: "text changed",
+    });
+    expect(resolveMemoryChunk({ ...chunk, content: null })).toMatchObject({
+      status: "stale",
+      reason: "file removed",
+    });
+  });
+});
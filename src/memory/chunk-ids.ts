@@ -0,0 +1,198 @@
+import type { DatabaseSync } from "node:sqlite";
+import { hashText } from "./internal.js";
+import type { MemoryChunkLookup, MemorySource } from "./types.js";
+
+const CHUNK_ID_LENGTH = 16;
+
+export const CHUNK_TOMBSTONES_TABLE = "chunk_tombstones";
+const MAX_CHUNK_TOMBSTONES = 5000;
+
+/**
+ * Stable, content-addressed chunk id. It depends on the chunk text and the file
+ * it lives in, not on line numbers, so edits elsewhere in the file keep it valid.
+ */
+export function buildMemoryChunkId(params: {
+  source: MemorySource | string;
+  path: string;
+  textHash: string;
+}): string {
+  return hashText(`${params.source}:${params.path}:${params.textHash}`).slice(0, CHUNK_ID_LENGTH);
+}
+
+/**
+ * Find chunk text in the current file content. When the text occurs more than
+ * once, the occurrence closest to the indexed start line wins.
+ */
+export function locateMemoryChunk(
+  content: string,
+  text: string,
+  hintStartLine?: number,
+): { startLine: number; endLine: number } | null {
+  if (!text) {
+    return null;
+  }
+  const textLines = text.split("\n").length;
+  let best: { startLine: number; endLine: number } | null = null;
+  let from = 0;
+  while (from <= content.length) {
+    const index = content.indexOf(text, from);
+    if (index < 0) {
+      break;
+    }
+    const startLine = content.slice(0, index).split("\n").length;
+    const candidate = { startLine, endLine: startLine + textLines - 1 };
+    if (
+      !best ||
+      hintStartLine === undefined ||
+      Math.abs(startLine - hintStartLine) < Math.abs(best.startLine - hintStartLine)
+    ) {
+      best = candidate;
+    }
+    if (hintStartLine === undefined) {
+      break;
+    }
+    from = index + 1;
+  }
+  return best;
+}
+
+/** Resolve an indexed chunk against the file as it is now. */
+export function resolveMemoryChunk(params: {
+  id: string;
+  path: string;
+  source: MemorySource;
+  text: string;
+  startLine: number;
+  endLine: number;
+  /** Current file content; null when the file no longer exists. */
+  content: string | null;
+}): MemoryChunkLookup {
+  const base = { id: params.id, path: params.path, source: params.source, text: params.text };
+  if (params.content === null) {
+    return {
+      status: "stale",
+      ...base,
+      startLine: params.startLine,
+      endLine: params.endLine,
+      reason: "file removed",
+    };
+  }
+  const location = locateMemoryChunk(params.content, params.text, params.startLine);
+  if (!location) {
+    return {
+      status: "stale",
+      ...base,
+      startLine: params.startLine,
+      endLine: params.endLine,
+      reason: "text changed",
+    };
+  }
+  return { status: "ok", ...base, ...location };
+}
+
+export function ensureMemoryChunkTombstoneSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${CHUNK_TOMBSTONES_TABLE} (
+      chunk_id TEXT PRIMARY KEY,
+      path TEXT NOT NULL,
+      source TEXT NOT NULL,
+      start_line INTEGER NOT NULL,
+      end_line INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      removed_at INTEGER NOT NULL
+    );
+  `);
+}
+
+/**
+ * Remember the chunks of a path before a re-sync deletes them, so lookups by an
+ * old id can report the chunk as stale instead of missing.
+ */
+export function recordMemoryChunkTombstones(params: {
+  db: DatabaseSync;
+  path: string;
+  source: MemorySource;
+  now?: number;
+}): void {
+  params.db
+    .prepare(
+      `INSERT OR REPLACE INTO ${CHUNK_TOMBSTONES_TABLE}\n` +
+        ` (chunk_id, path, source, start_line, end_line, text, removed_at)\n` +
+        ` SELECT chunk_id, path, source, start_line, end_line, text, ? FROM chunks\n` +
+        ` WHERE path = ? AND source = ? AND chunk_id != ''`,
+    )
+    .run(params.now ?? Date.now(), params.path, params.source);
+  pruneMemoryChunkTombstones(params.db);
+}
+
+function pruneMemoryChunkTombstones(db: DatabaseSync): void {
+  db.prepare(
+    `DELETE FROM ${CHUNK_TOMBSTONES_TABLE} WHERE chunk_id NOT IN\n` +
+      ` (SELECT chunk_id FROM ${CHUNK_TOMBSTONES_TABLE} ORDER BY removed_at DESC LIMIT ?)`,
+  ).run(MAX_CHUNK_TOMBSTONES);
+}
+
+/** Carry tombstones (and chunks that disappeared) across a full reindex into a fresh database. */
+export function carryMemoryChunkTombstones(params: {
+  from: DatabaseSync;
+  to: DatabaseSync;
+  now?: number;
+}): void {
+  const rows = params.from
+    .prepare(
+      `SELECT chunk_id, path, source, start_line, end_line, text, removed_at FROM ${CHUNK_TOMBSTONES_TABLE}\n` +
+        ` UNION ALL SELECT chunk_id, path, source, start_line, end_line, text, ? FROM chunks` +
+        ` WHERE chunk_id != ''`,
+    )
+    .all(params.now ?? Date.now()) as Array<{
+    chunk_id: string;
+    path: string;
+    source: string;
+    start_line: number;
+    end_line: number;
+    text: string;
+    removed_at: number;
+  }>;
+  const current = params.to.prepare(`SELECT 1 FROM chunks WHERE chunk_id = ? LIMIT 1`);
+  const insert = params.to.prepare(
+    `INSERT OR REPLACE INTO ${CHUNK_TOMBSTONES_TABLE}\n` +
+      ` (chunk_id, path, source, start_line, end_line, text, removed_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  );
+  for (const row of rows) {
+    if (current.get(row.chunk_id)) {
+      continue;
+    }
+    insert.run(
+      row.chunk_id,
+      row.path,
+      row.source,
+      row.start_line,
+      row.end_line,
+      row.text,
+      row.removed_at,
+    );
+  }
+  pruneMemoryChunkTombstones(params.to);
+}
+
+export function findMemoryChunkTombstone(
+  db: DatabaseSync,
+  chunkId: string,
+):
+  | {
+      path: string;
+      source: MemorySource;
+      start_line: number;
+      end_line: number;
+      text: string;
+    }
+  | undefined {
+  return db
+    .prepare(
+      `SELECT path, source, start_line, end_line, text FROM ${CHUNK_TOMBSTONES_TABLE}` +
+        ` WHERE chunk_id = ? LIMIT 1`,
+    )
+    .get(chunkId) as
+    | { path: string; source: MemorySource; start_line: number; end_line: number; text: string }
+    | undefined;
+}
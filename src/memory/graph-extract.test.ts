@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractMemoryGraph,
+  listMemoryGraphQueryKeys,
+  normalizeMemoryGraphKey,
+} from "./graph-extract.js";
+
+describe("memory graph extraction", () => {
+  it("collects wikilinks, handles, and capitalized names", () => {
+    const { entities } = extractMemoryGraph(
+      "- @sam.lee reviewed [[Project Atlas|atlas]] and the Billing Service.",
+    );
+    expect(entities).toEqual([
+      { key: "sam.lee", name: "sam.lee" },
+      { key: "project atlas", name: "Project Atlas" },
+      { key: "billing service", name: "Billing Service" },
+    ]);
+  });
+
+  it("skips headings, stopwords, and transcript speaker labels", () => {
+    const { entities } = extractMemoryGraph(
+      "# Decisions\nUser: The deploy slipped.\nAssistant: We will retry Today.",
+    );
+    expect(entities).toEqual([]);
+  });
+
+  it("extracts relations from verb phrases between entities", () => {
+    const { relations } = extractMemoryGraph(
+      [
+        "Alice owns the Billing Service.",
+        "Billing Service depends on Postgres.",
+        "Bob is blocked by Alice, and Carol likes Bob.",
+      ].join("\n"),
+    );
+    expect(relations).toEqual([
+      { subject: "alice", predicate: "owns", object: "billing service" },
+      { subject: "billing service", predicate: "depends_on", object: "postgres" },
+      { subject: "bob", predicate: "blocked_by", object: "alice" },
+    ]);
+  });
+
+  it("derives lowercase query keys", () => {
+    expect(normalizeMemoryGraphKey("[[Project  Atlas]]")).toBe("project atlas");
+    const keys = listMemoryGraphQueryKeys("what does alice own in project atlas");
+    expect(keys).toContain("alice");
+    expect(keys).toContain("project atlas");
+    expect(keys).not.toContain("what");
+  });
+});
@@ -0,0 +1,253 @@
+export type MemoryGraphEntity = {
+  /** Normalized lookup key (lowercase, single-spaced). */
+  key: string;
+  /** Display name as first seen in the text. */
+  name: string;
+};
+
+export type MemoryGraphRelation = {
+  subject: string;
+  predicate: string;
+  object: string;
+};
+
+export type MemoryGraphExtraction = {
+  entities: MemoryGraphEntity[];
+  relations: MemoryGraphRelation[];
+};
+
+const MAX_ENTITIES_PER_TEXT = 32;
+const MAX_ENTITY_CHARS = 80;
+
+const WIKILINK_RE = /\[\[([^\]|\n]+)(?:\|[^\]\n]*)?\]\]/g;
+const HANDLE_RE = /(?<![\p{L}\p{N}_.])@([\p{L}\p{N}_][\p{L}\p{N}_.-]*[\p{L}\p{N}_])/gu;
+const PROPER_NOUN_RE = /(?<![\p{L}\p{N}_])\p{Lu}[\p{L}\p{N}_-]*(?:[ \t]+\p{Lu}[\p{L}\p{N}_-]*)*/gu;
+
+// Capitalized words that start sentences or label transcript turns far more
+// often than they name anything worth linking.
+const STOPWORDS = new Set([
+  "a",
+  "all",
+  "also",
+  "an",
+  "and",
+  "assistant",
+  "at",
+  "but",
+  "by",
+  "decisions",
+  "done",
+  "for",
+  "from",
+  "he",
+  "her",
+  "his",
+  "how",
+  "i",
+  "if",
+  "in",
+  "is",
+  "it",
+  "its",
+  "maybe",
+  "my",
+  "no",
+  "not",
+  "note",
+  "notes",
+  "of",
+  "ok",
+  "on",
+  "or",
+  "our",
+  "she",
+  "so",
+  "system",
+  "that",
+  "the",
+  "their",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "today",
+  "todo",
+  "tomorrow",
+  "user",
+  "we",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "will",
+  "with",
+  "yes",
+  "yesterday",
+  "you",
+  "your",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+]);
+
+// Verb phrases accepted between two entities on the same line, after leading
+// auxiliaries ("is", "has", ...) and a trailing article are stripped.
+const RELATION_PREDICATES: Array<{ pattern: string; predicate: string }> = [
+  { pattern: "blocked by", predicate: "blocked_by" },
+  { pattern: "depends on", predicate: "depends_on" },
+  { pattern: "reports to", predicate: "reports_to" },
+  { pattern: "works on", predicate: "works_on" },
+  { pattern: "works with", predicate: "works_with" },
+  { pattern: "part of", predicate: "part_of" },
+  { pattern: "belongs to", predicate: "part_of" },
+  { pattern: "owns", predicate: "owns" },
+  { pattern: "leads", predicate: "leads" },
+  { pattern: "manages", predicate: "manages" },
+  { pattern: "maintains", predicate: "maintains" },
+  { pattern: "decided", predicate: "decided" },
+  { pattern: "uses", predicate: "uses" },
+  { pattern: "replaced", predicate: "replaced" },
+  { pattern: "replaces", predicate: "replaced" },
+  { pattern: "joined", predicate: "joined" },
+  { pattern: "created", predicate: "created" },
+  { pattern: "prefers", predicate: "prefers" },
+];
+
+const RELATION_FILLER_RE =
+  /^(?:(?:is|was|has|have|had|now|also|still)\s+)*(.+?)(?:\s+(?:the|a|an))?$/;
+
+export function normalizeMemoryGraphKey(raw: string): string {
+  return raw
+    .replace(/^\[\[|\]\]$/g, "")
+    .replace(/^@/, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+type EntitySpan = MemoryGraphEntity & { start: number; end: number };
+
+function collectSpans(line: string): EntitySpan[] {
+  const spans: EntitySpan[] = [];
+  const push = (name: string, start: number, end: number) => {
+    const trimmed = name.trim().slice(0, MAX_ENTITY_CHARS);
+    const key = normalizeMemoryGraphKey(trimmed);
+    if (!key || STOPWORDS.has(key)) {
+      return;
+    }
+    spans.push({ key, name: trimmed, start, end });
+  };
+  for (const match of line.matchAll(WIKILINK_RE)) {
+    push(match[1] ?? "", match.index, match.index + match[0].length);
+  }
+  for (const match of line.matchAll(HANDLE_RE)) {
+    push(match[1] ?? "", match.index, match.index + match[0].length);
+  }
+  for (const match of line.matchAll(PROPER_NOUN_RE)) {
+    // Drop leading stopwords so "The Billing Service" becomes "Billing Service".
+    const words = match[0].split(/([ \t]+)/);
+    let offset = 0;
+    while (words.length > 1 && STOPWORDS.has(words[0].toLowerCase())) {
+      offset += words[0].length + (words[1]?.length ?? 0);
+      words.splice(0, 2);
+    }
+    push(words.join(""), match.index + offset, match.index + match[0].length);
+  }
+  // Earlier, longer spans win; wikilinks and handles already cover their text.
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: EntitySpan[] = [];
+  for (const span of spans) {
+    const last = kept[kept.length - 1];
+    if (last && span.start < last.end) {
+      continue;
+    }
+    kept.push(span);
+  }
+  return kept;
+}
+
+function matchPredicate(between: string): string | null {
+  const cleaned = between
+    .trim()
+    .replace(/^[,:;-]+|[,:;-]+$/g, "")
+    .trim()
+    .toLowerCase();
+  const body = RELATION_FILLER_RE.exec(cleaned)?.[1];
+  if (!body) {
+    return null;
+  }
+  for (const entry of RELATION_PREDICATES) {
+    if (body === entry.pattern) {
+      return entry.predicate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Heuristic entity and relation extraction for memory text. Entities are
+ * `[[wikilinks]]`, `@handles` and capitalized names; relations are known verb
+ * phrases directly between two entities on the same line.
+ */
+export function extractMemoryGraph(text: string): MemoryGraphExtraction {
+  const entities = new Map<string, MemoryGraphEntity>();
+  const relations = new Map<string, MemoryGraphRelation>();
+  for (const rawLine of text.split("\n")) {
+    // Headings label sections rather than mention things.
+    const line = rawLine.replace(/^\s*#{1,6}\s.*$/, "");
+    if (!line.trim()) {
+      continue;
+    }
+    const spans = collectSpans(line);
+    for (const span of spans) {
+      if (!entities.has(span.key) && entities.size < MAX_ENTITIES_PER_TEXT) {
+        entities.set(span.key, { key: span.key, name: span.name });
+      }
+    }
+    for (let i = 0; i + 1 < spans.length; i++) {
+      const subject = spans[i];
+      const object = spans[i + 1];
+      if (!entities.has(subject.key) || !entities.has(object.key) || subject.key === object.key) {
+        continue;
+      }
+      const predicate = matchPredicate(line.slice(subject.end, object.start));
+      if (!predicate) {
+        continue;
+      }
+      relations.set(`${subject.key}\u0000${predicate}\u0000${object.key}`, {
+        subject: subject.key,
+        predicate,
+        object: object.key,
+      });
+    }
+  }
+  return { entities: Array.from(entities.values()), relations: Array.from(relations.values()) };
+}
+
+/**
+ * Candidate entity keys for a free-text query: extracted entities plus every
+ * 1-3 word lowercase n-gram, so "what does alice own" still finds "alice".
+ */
+export function listMemoryGraphQueryKeys(query: string): string[] {
+  const keys = new Set(extractMemoryGraph(query).entities.map((entity) => entity.key));
+  const words =
+    query.toLowerCase().match(/[\p{L}\p{N}_][\p{L}\p{N}_.-]*[\p{L}\p{N}_]|[\p{L}\p{N}]/gu) ?? [];
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const key = words.slice(i, i + size).join(" ");
+      if (size === 1 && STOPWORDS.has(key)) {
+        continue;
+      }
+      keys.add(key);
+    }
+  }
+  return Array.from(keys);
+}
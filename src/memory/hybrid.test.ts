@@ -52,6 +52,52 @@ describe("memory hybrid helpers", () => {
     expect(b?.score).toBeCloseTo(0.3 * 1.0);
   });
 
+  it("mergeHybridResults adds weighted graph scores on top of the blend", async () => {
+    const merged = await mergeHybridResults({
+      vectorWeight: 0.7,
+      textWeight: 0.3,
+      graphWeight: 0.2,
+      vector: [
+        {
+          id: "a",
+          path: "memory/a.md",
+          startLine: 1,
+          endLine: 2,
+          source: "memory",
+          snippet: "vec-a",
+          vectorScore: 0.5,
+        },
+      ],
+      keyword: [],
+      graph: [
+        {
+          id: "a",
+          path: "memory/a.md",
+          startLine: 1,
+          endLine: 2,
+          source: "memory",
+          snippet: "graph-a",
+          graphScore: 1,
+        },
+        {
+          id: "c",
+          path: "memory/c.md",
+          startLine: 5,
+          endLine: 6,
+          source: "memory",
+          snippet: "graph-c",
+          graphScore: 0.5,
+        },
+      ],
+    });
+
+    const a = merged.find((r) => r.path === "memory/a.md");
+    const c = merged.find((r) => r.path === "memory/c.md");
+    expect(a?.score).toBeCloseTo(0.7 * 0.5 + 0.2);
+    expect(a?.snippet).toBe("vec-a");
+    expect(c?.score).toBeCloseTo(0.2 * 0.5);
+  });
+
   it("mergeHybridResults prefers keyword snippet when ids overlap", async () => {
     const merged = await mergeHybridResults({
       vectorWeight: 0.5,
@@ -12,6 +12,7 @@ export { type TemporalDecayConfig, DEFAULT_TEMPORAL_DECAY_CONFIG };
 
 export type HybridVectorResult = {
   id: string;
+  chunkId?: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -22,6 +23,7 @@ export type HybridVectorResult = {
 
 export type HybridKeywordResult = {
   id: string;
+  chunkId?: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -30,6 +32,17 @@ export type HybridKeywordResult = {
   textScore: number;
 };
 
+export type HybridGraphResult = {
+  id: string;
+  chunkId?: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  source: HybridSource;
+  snippet: string;
+  graphScore: number;
+};
+
 export function buildFtsQuery(raw: string): string | null {
   const tokens =
     raw
@@ -51,8 +64,11 @@ export function bm25RankToScore(rank: number): number {
 export async function mergeHybridResults(params: {
   vector: HybridVectorResult[];
   keyword: HybridKeywordResult[];
+  /** Knowledge-graph hits; their score is added on top of the vector/text blend. */
+  graph?: HybridGraphResult[];
   vectorWeight: number;
   textWeight: number;
+  graphWeight?: number;
   workspaceDir?: string;
   /** MMR configuration for diversity-aware re-ranking */
   mmr?: Partial<MMRConfig>;
@@ -62,6 +78,7 @@ export async function mergeHybridResults(params: {
   nowMs?: number;
 }): Promise<
   Array<{
+    chunkId?: string;
     path: string;
     startLine: number;
     endLine: number;
@@ -74,6 +91,7 @@ export async function mergeHybridResults(params: {
     string,
     {
       id: string;
+      chunkId?: string;
       path: string;
       startLine: number;
       endLine: number;
@@ -81,12 +99,14 @@ export async function mergeHybridResults(params: {
       snippet: string;
       vectorScore: number;
       textScore: number;
+      graphScore: number;
     }
   >();
 
   for (const r of params.vector) {
     byId.set(r.id, {
       id: r.id,
+      chunkId: r.chunkId,
       path: r.path,
       startLine: r.startLine,
       endLine: r.endLine,
@@ -94,6 +114,7 @@ export async function mergeHybridResults(params: {
       snippet: r.snippet,
       vectorScore: r.vectorScore,
       textScore: 0,
+      graphScore: 0,
     });
   }
 
@@ -107,6 +128,7 @@ export async function mergeHybridResults(params: {
     } else {
       byId.set(r.id, {
         id: r.id,
+        chunkId: r.chunkId,
         path: r.path,
         startLine: r.startLine,
         endLine: r.endLine,
@@ -114,13 +136,38 @@ export async function mergeHybridResults(params: {
         snippet: r.snippet,
         vectorScore: 0,
         textScore: r.textScore,
+        graphScore: 0,
+      });
+    }
+  }
+
+  for (const r of params.graph ?? []) {
+    const existing = byId.get(r.id);
+    if (existing) {
+      existing.graphScore = r.graphScore;
+    } else {
+      byId.set(r.id, {
+        id: r.id,
+        chunkId: r.chunkId,
+        path: r.path,
+        startLine: r.startLine,
+        endLine: r.endLine,
+        source: r.source,
+        snippet: r.snippet,
+        vectorScore: 0,
+        textScore: 0,
+        graphScore: r.graphScore,
       });
     }
   }
 
   const merged = Array.from(byId.values()).map((entry) => {
-    const score = params.vectorWeight * entry.vectorScore + params.textWeight * entry.textScore;
+    const score =
+      params.vectorWeight * entry.vectorScore +
+      params.textWeight * entry.textScore +
+      (params.graphWeight ?? 0) * entry.graphScore;
     return {
+      chunkId: entry.chunkId,
       path: entry.path,
       startLine: entry.startLine,
       endLine: entry.endLine,
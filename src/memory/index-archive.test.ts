@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffMemoryIndexFingerprint, parseMemoryIndexArchive } from "./index-archive.js";
+
+describe("memory index archive", () => {
+  const archive = {
+    kind: "openclaw.memory-index",
+    version: 1,
+    exportedAt: 1,
+    agentId: "main",
+    fingerprint: { provider: "openai", model: "text-embedding-3-small", dims: 1536 },
+    chunking: { tokens: 400, overlap: 80 },
+    sources: ["memory"],
+    files: [{ path: "MEMORY.md", source: "memory", hash: "h", mtime: 1, size: 2 }],
+    chunks: [
+      {
+        path: "MEMORY.md",
+        source: "memory",
+        startLine: 1,
+        endLine: 1,
+        hash: "c",
+        text: "hi",
+        embedding: [0.1, 0.2],
+      },
+    ],
+  };
+
+  it("parses a valid archive", () => {
+    expect(parseMemoryIndexArchive(archive)).toEqual(archive);
+  });
+
+  it("rejects foreign or malformed archives", () => {
+    expect(() => parseMemoryIndexArchive({ kind: "other" })).toThrow("Not a memory index archive");
+    expect(() => parseMemoryIndexArchive({ ...archive, version: 2 })).toThrow(
+      "Unsupported memory index archive version: 2",
+    );
+    expect(() =>
+      parseMemoryIndexArchive({
+        ...archive,
+        chunks: [{ ...archive.chunks[0], embedding: ["x"] }],
+      }),
+    ).toThrow("chunks[0] is malformed");
+  });
+
+  it("reports provider, model and dims mismatches", () => {
+    expect(
+      diffMemoryIndexFingerprint(archive.fingerprint, {
+        backend: "builtin",
+        provider: "openai",
+        model: "text-embedding-3-small",
+        vector: { enabled: true, dims: 1536 },
+      }),
+    ).toEqual([]);
+    expect(
+      diffMemoryIndexFingerprint(archive.fingerprint, {
+        backend: "builtin",
+        provider: "gemini",
+        model: "gemini-embedding-001",
+        vector: { enabled: true, dims: 768 },
+      }),
+    ).toEqual([
+      "provider openai != gemini",
+      "model text-embedding-3-small != gemini-embedding-001",
+      "dims 1536 != 768",
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import type { MemoryProviderStatus, MemorySource } from "./types.js";
+
+export const MEMORY_INDEX_ARCHIVE_KIND = "openclaw.memory-index";
+export const MEMORY_INDEX_ARCHIVE_VERSION = 1;
+
+/** Identifies the embedding space the archived vectors live in. */
+export type MemoryIndexFingerprint = {
+  provider: string;
+  model: string;
+  dims?: number;
+};
+
+export type MemoryIndexArchiveFile = {
+  path: string;
+  source: MemorySource;
+  hash: string;
+  mtime: number;
+  size: number;
+};
+
+/** Chunk text doubles as the full-text index payload; FTS rows are rebuilt from it on import. */
+export type MemoryIndexArchiveChunk = {
+  path: string;
+  source: MemorySource;
+  startLine: number;
+  endLine: number;
+  hash: string;
+  text: string;
+  embedding: number[];
+};
+
+export type MemoryIndexArchive = {
+  kind: typeof MEMORY_INDEX_ARCHIVE_KIND;
+  version: typeof MEMORY_INDEX_ARCHIVE_VERSION;
+  exportedAt: number;
+  agentId: string;
+  fingerprint: MemoryIndexFingerprint;
+  chunking: { tokens: number; overlap: number };
+  sources: MemorySource[];
+  files: MemoryIndexArchiveFile[];
+  chunks: MemoryIndexArchiveChunk[];
+};
+
+export type MemoryIndexImportResult = {
+  files: number;
+  chunks: number;
+  reembedded: number;
+  mismatches: string[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isMemorySource(value: unknown): value is MemorySource {
+  return value === "memory" || value === "sessions";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseArchiveFile(value: unknown, index: number): MemoryIndexArchiveFile {
+  if (
+    !isRecord(value) ||
+    typeof value.path !== "string" ||
+    !isMemorySource(value.source) ||
+    typeof value.hash !== "string" ||
+    !isFiniteNumber(value.mtime) ||
+    !isFiniteNumber(value.size)
+  ) {
+    throw new Error(`Invalid memory index archive: files[${index}] is malformed`);
+  }
+  return {
+    path: value.path,
+    source: value.source,
+    hash: value.hash,
+    mtime: value.mtime,
+    size: value.size,
+  };
+}
+
+function parseArchiveChunk(value: unknown, index: number): MemoryIndexArchiveChunk {
+  if (
+    !isRecord(value) ||
+    typeof value.path !== "string" ||
+    !isMemorySource(value.source) ||
+    !isFiniteNumber(value.startLine) ||
+    !isFiniteNumber(value.endLine) ||
+    typeof value.hash !== "string" ||
+    typeof value.text !== "string" ||
+    !Array.isArray(value.embedding) ||
+    !value.embedding.every(isFiniteNumber)
+  ) {
+    throw new Error(`Invalid memory index archive: chunks[${index}] is malformed`);
+  }
+  return {
+    path: value.path,
+    source: value.source,
+    startLine: value.startLine,
+    endLine: value.endLine,
+    hash: value.hash,
+    text: value.text,
+    embedding: value.embedding,
+  };
+}
+
+export function parseMemoryIndexArchive(value: unknown): MemoryIndexArchive {
+  if (!isRecord(value) || value.kind !== MEMORY_INDEX_ARCHIVE_KIND) {
+    throw new Error("Not a memory index archive");
+  }
+  if (value.version !== MEMORY_INDEX_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported memory index archive version: ${String(value.version)}`);
+  }
+  const fingerprint = value.fingerprint;
+  if (
+    !isRecord(fingerprint) ||
+    typeof fingerprint.provider !== "string" ||
+    typeof fingerprint.model !== "string" ||
+    (fingerprint.dims !== undefined && !isFiniteNumber(fingerprint.dims))
+  ) {
+    throw new Error("Invalid memory index archive: fingerprint is malformed");
+  }
+  const chunking = value.chunking;
+  if (
+    !isRecord(chunking) ||
+    !isFiniteNumber(chunking.tokens) ||
+    !isFiniteNumber(chunking.overlap)
+  ) {
+    throw new Error("Invalid memory index archive: chunking is malformed");
+  }
+  if (
+    !Array.isArray(value.sources) ||
+    !Array.isArray(value.files) ||
+    !Array.isArray(value.chunks)
+  ) {
+    throw new Error("Invalid memory index archive: missing files or chunks");
+  }
+  return {
+    kind: MEMORY_INDEX_ARCHIVE_KIND,
+    version: MEMORY_INDEX_ARCHIVE_VERSION,
+    exportedAt: isFiniteNumber(value.exportedAt) ? value.exportedAt : 0,
+    agentId: typeof value.agentId === "string" ? value.agentId : "",
+    fingerprint: {
+      provider: fingerprint.provider,
+      model: fingerprint.model,
+      ...(fingerprint.dims !== undefined ? { dims: fingerprint.dims } : {}),
+    },
+    chunking: { tokens: chunking.tokens, overlap: chunking.overlap },
+    sources: value.sources.filter(isMemorySource),
+    files: value.files.map(parseArchiveFile),
+    chunks: value.chunks.map(parseArchiveChunk),
+  };
+}
+
+/**
+ * Compare an archive fingerprint with the target index. Returns one entry per
+ * mismatch; an empty list means the archived embeddings can be used as-is.
+ */
+export function diffMemoryIndexFingerprint(
+  fingerprint: MemoryIndexFingerprint,
+  status: MemoryProviderStatus,
+): string[] {
+  const mismatches: string[] = [];
+  if (fingerprint.provider !== status.provider) {
+    mismatches.push(`provider ${fingerprint.provider} != ${status.provider}`);
+  }
+  if (status.model !== undefined && fingerprint.model !== status.model) {
+    mismatches.push(`model ${fingerprint.model} != ${status.model}`);
+  }
+  const targetDims = status.vector?.dims;
+  if (fingerprint.dims && targetDims && fingerprint.dims !== targetDims) {
+    mismatches.push(`dims ${fingerprint.dims} != ${targetDims}`);
+  }
+  return mismatches;
+}
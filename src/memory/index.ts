@@ -1,5 +1,12 @@
+export {
+  diffMemoryIndexFingerprint,
+  parseMemoryIndexArchive,
+  type MemoryIndexArchive,
+  type MemoryIndexImportResult,
+} from "./index-archive.js";
 export { MemoryIndexManager } from "./manager.js";
 export type {
+  MemoryChunkLookup,
   MemoryEmbeddingProbeResult,
   MemorySearchManager,
   MemorySearchResult,
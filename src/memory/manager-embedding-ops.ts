@@ -7,8 +7,10 @@ import {
   runOpenAiEmbeddingBatches,
 } from "./batch-openai.js";
 import { type VoyageBatchRequest, runVoyageEmbeddingBatches } from "./batch-voyage.js";
+import { buildMemoryChunkId, recordMemoryChunkTombstones } from "./chunk-ids.js";
 import { enforceEmbeddingMaxInputTokens } from "./embedding-chunk-limits.js";
 import { estimateUtf8Bytes } from "./embedding-input-limits.js";
+import type { MemoryIndexArchiveChunk, MemoryIndexArchiveFile } from "./index-archive.js";
 import {
   chunkMarkdown,
   hashText,
@@ -18,6 +20,8 @@ import {
   type MemoryFileEntry,
 } from "./internal.js";
 import { MemoryManagerSyncOps } from "./manager-sync-ops.js";
+import { deleteMemoryGraphRows, writeMemoryGraphChunk } from "./memory-graph.js";
+import type { RemoteVectorPoint } from "./remote-vector-store.js";
 import type { SessionFileEntry } from "./session-files.js";
 import type { MemorySource } from "./types.js";
 
@@ -717,6 +721,23 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
     const embeddings = this.batch.enabled
       ? await this.embedChunksWithBatch(chunks, entry, options.source)
       : await this.embedChunksInBatches(chunks);
+    const previousRemoteIds = this.remoteVectors
+      ? (
+          this.db
+            .prepare(`SELECT DISTINCT chunk_id FROM chunks WHERE path = ? AND source = ?`)
+            .all(entry.path, options.source) as Array<{ chunk_id: string }>
+        ).map((row) => row.chunk_id)
+      : [];
+    // Upsert remotely before touching SQLite so a failed upsert leaves the file
+    // unrecorded and it is retried on the next sync.
+    const remoteIds = await this.upsertRemoteVectors(
+      chunks.map((chunk, i) => ({
+        path: entry.path,
+        source: options.source,
+        chunk,
+        embedding: embeddings[i] ?? [],
+      })),
+    );
     const sample = embeddings.find((embedding) => embedding.length > 0);
     const vectorReady = sample ? await this.ensureVectorReady(sample.length) : false;
     const now = Date.now();
@@ -736,62 +757,20 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
           .run(entry.path, options.source, this.provider.model);
       } catch {}
     }
+    deleteMemoryGraphRows({ db: this.db, path: entry.path, source: options.source });
+    recordMemoryChunkTombstones({ db: this.db, path: entry.path, source: options.source, now });
     this.db
       .prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`)
       .run(entry.path, options.source);
     for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const embedding = embeddings[i] ?? [];
-      const id = hashText(
-        `${options.source}:${entry.path}:${chunk.startLine}:${chunk.endLine}:${chunk.hash}:${this.provider.model}`,
-      );
-      this.db
-        .prepare(
-          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-           ON CONFLICT(id) DO UPDATE SET
-             hash=excluded.hash,
-             model=excluded.model,
-             text=excluded.text,
-             embedding=excluded.embedding,
-             updated_at=excluded.updated_at`,
-        )
-        .run(
-          id,
-          entry.path,
-          options.source,
-          chunk.startLine,
-          chunk.endLine,
-          chunk.hash,
-          this.provider.model,
-          chunk.text,
-          JSON.stringify(embedding),
-          now,
-        );
-      if (vectorReady && embedding.length > 0) {
-        try {
-          this.db.prepare(`DELETE FROM ${VECTOR_TABLE} WHERE id = ?`).run(id);
-        } catch {}
-        this.db
-          .prepare(`INSERT INTO ${VECTOR_TABLE} (id, embedding) VALUES (?, ?)`)
-          .run(id, vectorToBlob(embedding));
-      }
-      if (this.fts.enabled && this.fts.available) {
-        this.db
-          .prepare(
-            `INSERT INTO ${FTS_TABLE} (text, id, path, source, model, start_line, end_line)\n` +
-              ` VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          )
-          .run(
-            chunk.text,
-            id,
-            entry.path,
-            options.source,
-            this.provider.model,
-            chunk.startLine,
-            chunk.endLine,
-          );
-      }
+      this.writeChunk({
+        path: entry.path,
+        source: options.source,
+        chunk: chunks[i],
+        embedding: embeddings[i] ?? [],
+        vectorReady,
+        now,
+      });
     }
     this.db
       .prepare(
@@ -803,5 +782,181 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
            size=excluded.size`,
       )
       .run(entry.path, options.source, entry.hash, entry.mtimeMs, entry.size);
+    await this.deleteRemoteVectors(previousRemoteIds.filter((id) => !remoteIds.has(id)));
+  }
+
+  private async upsertRemoteVectors(
+    entries: Array<{ path: string; source: MemorySource; chunk: MemoryChunk; embedding: number[] }>,
+  ): Promise<Set<string>> {
+    const ids = new Set<string>();
+    if (!this.remoteVectors || !this.provider) {
+      return ids;
+    }
+    const points: RemoteVectorPoint[] = [];
+    for (const entry of entries) {
+      if (entry.embedding.length === 0) {
+        continue;
+      }
+      const id = buildMemoryChunkId({
+        source: entry.source,
+        path: entry.path,
+        textHash: entry.chunk.hash,
+      });
+      ids.add(id);
+      points.push({
+        id,
+        vector: entry.embedding,
+        metadata: {
+          path: entry.path,
+          source: entry.source,
+          model: this.provider.model,
+          startLine: entry.chunk.startLine,
+          endLine: entry.chunk.endLine,
+        },
+      });
+    }
+    await this.remoteVectors.upsert(points);
+    return ids;
+  }
+
+  /**
+   * Replace the index contents with archived files and chunks. Archived vectors
+   * are used as-is unless `reembed` is set; then chunk text is embedded again
+   * with the current provider, reusing embedding cache hits.
+   */
+  protected async restoreIndexArchive(params: {
+    files: MemoryIndexArchiveFile[];
+    chunks: MemoryIndexArchiveChunk[];
+    reembed: boolean;
+  }): Promise<number> {
+    if (!this.provider) {
+      throw new Error("Memory index import requires an embedding provider");
+    }
+    const embeddings = params.reembed
+      ? await this.embedChunksInBatches(params.chunks)
+      : params.chunks.map((chunk) => chunk.embedding);
+    if (!params.reembed) {
+      this.upsertEmbeddingCache(
+        params.chunks.map((chunk) => ({ hash: chunk.hash, embedding: chunk.embedding })),
+      );
+    }
+    const sample = embeddings.find((embedding) => embedding.length > 0);
+    const vectorAvailable = sample ? await this.ensureVectorReady() : false;
+    const now = Date.now();
+    this.db.exec("BEGIN");
+    try {
+      this.resetIndex();
+      const vectorReady =
+        sample && vectorAvailable ? await this.ensureVectorReady(sample.length) : false;
+      const insertFile = this.db.prepare(
+        `INSERT INTO files (path, source, hash, mtime, size) VALUES (?, ?, ?, ?, ?)`,
+      );
+      for (const file of params.files) {
+        insertFile.run(file.path, file.source, file.hash, file.mtime, file.size);
+      }
+      for (let i = 0; i < params.chunks.length; i++) {
+        const chunk = params.chunks[i];
+        this.writeChunk({
+          path: chunk.path,
+          source: chunk.source,
+          chunk,
+          embedding: embeddings[i] ?? [],
+          vectorReady,
+          now,
+        });
+      }
+      this.db.exec("COMMIT");
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      throw err;
+    }
+    await this.upsertRemoteVectors(
+      params.chunks.map((chunk, i) => ({
+        path: chunk.path,
+        source: chunk.source,
+        chunk,
+        embedding: embeddings[i] ?? [],
+      })),
+    );
+    return params.reembed ? params.chunks.length : 0;
+  }
+
+  private writeChunk(params: {
+    path: string;
+    source: MemorySource;
+    chunk: MemoryChunk;
+    embedding: number[];
+    vectorReady: boolean;
+    now: number;
+  }): void {
+    const model = this.provider?.model ?? "fts-only";
+    const id = hashText(
+      `${params.source}:${params.path}:${params.chunk.startLine}:${params.chunk.endLine}:${params.chunk.hash}:${model}`,
+    );
+    const chunkId = buildMemoryChunkId({
+      source: params.source,
+      path: params.path,
+      textHash: params.chunk.hash,
+    });
+    this.db
+      .prepare(
+        `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at, chunk_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           hash=excluded.hash,
+           model=excluded.model,
+           text=excluded.text,
+           embedding=excluded.embedding,
+           updated_at=excluded.updated_at,
+           chunk_id=excluded.chunk_id`,
+      )
+      .run(
+        id,
+        params.path,
+        params.source,
+        params.chunk.startLine,
+        params.chunk.endLine,
+        params.chunk.hash,
+        model,
+        params.chunk.text,
+        JSON.stringify(params.embedding),
+        params.now,
+        chunkId,
+      );
+    if (params.vectorReady && params.embedding.length > 0) {
+      try {
+        this.db.prepare(`DELETE FROM ${VECTOR_TABLE} WHERE id = ?`).run(id);
+      } catch {}
+      this.db
+        .prepare(`INSERT INTO ${VECTOR_TABLE} (id, embedding) VALUES (?, ?)`)
+        .run(id, vectorToBlob(params.embedding));
+    }
+    if (this.settings.graph.enabled) {
+      writeMemoryGraphChunk({
+        db: this.db,
+        chunk: id,
+        path: params.path,
+        source: params.source,
+        text: params.chunk.text,
+      });
+    }
+    if (this.fts.enabled && this.fts.available) {
+      this.db
+        .prepare(
+          `INSERT INTO ${FTS_TABLE} (text, id, path, source, model, start_line, end_line)\n` +
+            ` VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          params.chunk.text,
+          id,
+          params.path,
+          params.source,
+          model,
+          params.chunk.startLine,
+          params.chunk.endLine,
+        );
+    }
   }
 }
@@ -9,6 +9,7 @@ export type SearchSource = string;
 
 export type SearchRowResult = {
   id: string;
+  chunkId?: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -34,7 +35,7 @@ export async function searchVector(params: {
   if (await params.ensureVectorReady(params.queryVec.length)) {
     const rows = params.db
       .prepare(
-        `SELECT c.id, c.path, c.start_line, c.end_line, c.text,\n` +
+        `SELECT c.id, c.chunk_id, c.path, c.start_line, c.end_line, c.text,\n` +
           `       c.source,\n` +
           `       vec_distance_cosine(v.embedding, ?) AS dist\n` +
           `  FROM ${params.vectorTable} v\n` +
@@ -50,6 +51,7 @@ export async function searchVector(params: {
         params.limit,
       ) as Array<{
       id: string;
+      chunk_id: string;
       path: string;
       start_line: number;
       end_line: number;
@@ -59,6 +61,7 @@ export async function searchVector(params: {
     }>;
     return rows.map((row) => ({
       id: row.id,
+      chunkId: row.chunk_id || undefined,
       path: row.path,
       startLine: row.start_line,
       endLine: row.end_line,
@@ -84,6 +87,7 @@ export async function searchVector(params: {
     .slice(0, params.limit)
     .map((entry) => ({
       id: entry.chunk.id,
+      chunkId: entry.chunk.chunkId,
       path: entry.chunk.path,
       startLine: entry.chunk.startLine,
       endLine: entry.chunk.endLine,
@@ -93,12 +97,54 @@ export async function searchVector(params: {
     }));
 }
 
+/** Join remote vector store matches back to local chunk rows (keyed by stable chunk id). */
+export function hydrateRemoteVectorMatches(params: {
+  db: DatabaseSync;
+  providerModel: string;
+  matches: Array<{ id: string; score: number }>;
+  snippetMaxChars: number;
+  sourceFilter: { sql: string; params: SearchSource[] };
+}): SearchRowResult[] {
+  if (params.matches.length === 0) {
+    return [];
+  }
+  const scores = new Map(params.matches.map((match) => [match.id, match.score]));
+  const placeholders = params.matches.map(() => "?").join(", ");
+  const rows = params.db
+    .prepare(
+      `SELECT id, chunk_id, path, start_line, end_line, text, source FROM chunks\n` +
+        ` WHERE chunk_id IN (${placeholders}) AND model = ?${params.sourceFilter.sql}`,
+    )
+    .all(...scores.keys(), params.providerModel, ...params.sourceFilter.params) as Array<{
+    id: string;
+    chunk_id: string;
+    path: string;
+    start_line: number;
+    end_line: number;
+    text: string;
+    source: SearchSource;
+  }>;
+  return rows
+    .map((row) => ({
+      id: row.id,
+      chunkId: row.chunk_id,
+      path: row.path,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      score: scores.get(row.chunk_id) ?? 0,
+      snippet: truncateUtf16Safe(row.text, params.snippetMaxChars),
+      source: row.source,
+    }))
+    .toSorted((a, b) => b.score - a.score);
+}
+
 export function listChunks(params: {
   db: DatabaseSync;
   providerModel: string;
   sourceFilter: { sql: string; params: SearchSource[] };
 }): Array<{
   id: string;
+  chunkId?: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -108,12 +154,13 @@ export function listChunks(params: {
 }> {
   const rows = params.db
     .prepare(
-      `SELECT id, path, start_line, end_line, text, embedding, source\n` +
+      `SELECT id, chunk_id, path, start_line, end_line, text, embedding, source\n` +
         `  FROM chunks\n` +
         ` WHERE model = ?${params.sourceFilter.sql}`,
     )
     .all(params.providerModel, ...params.sourceFilter.params) as Array<{
     id: string;
+    chunk_id: string;
     path: string;
     start_line: number;
     end_line: number;
@@ -124,6 +171,7 @@ export function listChunks(params: {
 
   return rows.map((row) => ({
     id: row.id,
+    chunkId: row.chunk_id || undefined,
     path: row.path,
     startLine: row.start_line,
     endLine: row.end_line,
@@ -159,6 +207,7 @@ export async function searchKeyword(params: {
   const rows = params.db
     .prepare(
       `SELECT id, path, source, start_line, end_line, text,\n` +
+        `       (SELECT chunk_id FROM chunks WHERE chunks.id = ${params.ftsTable}.id) AS chunk_id,\n` +
         `       bm25(${params.ftsTable}) AS rank\n` +
         `  FROM ${params.ftsTable}\n` +
         ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}\n` +
@@ -167,6 +216,7 @@ export async function searchKeyword(params: {
     )
     .all(ftsQuery, ...modelParams, ...params.sourceFilter.params, params.limit) as Array<{
     id: string;
+    chunk_id: string | null;
     path: string;
     source: SearchSource;
     start_line: number;
@@ -179,6 +229,7 @@ export async function searchKeyword(params: {
     const textScore = params.bm25RankToScore(row.rank);
     return {
       id: row.id,
+      chunkId: row.chunk_id || undefined,
       path: row.path,
       startLine: row.start_line,
       endLine: row.end_line,
@@ -11,6 +11,7 @@ import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.j
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
+import { carryMemoryChunkTombstones, recordMemoryChunkTombstones } from "./chunk-ids.js";
 import { DEFAULT_GEMINI_EMBEDDING_MODEL } from "./embeddings-gemini.js";
 import { DEFAULT_MISTRAL_EMBEDDING_MODEL } from "./embeddings-mistral.js";
 import { DEFAULT_OPENAI_EMBEDDING_MODEL } from "./embeddings-openai.js";
@@ -32,7 +33,9 @@ import {
   runWithConcurrency,
 } from "./internal.js";
 import { type MemoryFileEntry } from "./internal.js";
+import { deleteMemoryGraphRows } from "./memory-graph.js";
 import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import type { RemoteVectorStoreClient } from "./remote-vector-store.js";
 import type { SessionFileEntry } from "./session-files.js";
 import {
   buildSessionEntry,
@@ -51,6 +54,8 @@ type MemoryIndexMeta = {
   chunkTokens: number;
   chunkOverlap: number;
   vectorDims?: number;
+  vectorStore?: string;
+  graph?: boolean;
 };
 
 type MemorySyncProgressState = {
@@ -118,6 +123,7 @@ export abstract class MemoryManagerSyncOps {
     loadError?: string;
   } = { enabled: false, available: false };
   protected vectorReady: Promise<boolean> | null = null;
+  protected remoteVectors: RemoteVectorStoreClient | null = null;
   protected watcher: FSWatcher | null = null;
   protected watchTimer: NodeJS.Timeout | null = null;
   protected sessionWatchTimer: NodeJS.Timeout | null = null;
@@ -689,6 +695,7 @@ export abstract class MemoryManagerSyncOps {
       if (activePaths.has(stale.path)) {
         continue;
       }
+      await this.deleteRemoteVectorsForPath(stale.path, "memory");
       this.db.prepare(`DELETE FROM files WHERE path = ? AND source = ?`).run(stale.path, "memory");
       try {
         this.db
@@ -697,6 +704,8 @@ export abstract class MemoryManagerSyncOps {
           )
           .run(stale.path, "memory");
       } catch {}
+      deleteMemoryGraphRows({ db: this.db, path: stale.path, source: "memory" });
+      recordMemoryChunkTombstones({ db: this.db, path: stale.path, source: "memory" });
       this.db.prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`).run(stale.path, "memory");
       if (this.fts.enabled && this.fts.available) {
         try {
@@ -792,6 +801,7 @@ export abstract class MemoryManagerSyncOps {
       if (activePaths.has(stale.path)) {
         continue;
       }
+      await this.deleteRemoteVectorsForPath(stale.path, "sessions");
       this.db
         .prepare(`DELETE FROM files WHERE path = ? AND source = ?`)
         .run(stale.path, "sessions");
@@ -802,6 +812,8 @@ export abstract class MemoryManagerSyncOps {
           )
           .run(stale.path, "sessions");
       } catch {}
+      deleteMemoryGraphRows({ db: this.db, path: stale.path, source: "sessions" });
+      recordMemoryChunkTombstones({ db: this.db, path: stale.path, source: "sessions" });
       this.db
         .prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`)
         .run(stale.path, "sessions");
@@ -865,6 +877,8 @@ export abstract class MemoryManagerSyncOps {
       this.metaSourcesDiffer(meta, configuredSources) ||
       meta.chunkTokens !== this.settings.chunking.tokens ||
       meta.chunkOverlap !== this.settings.chunking.overlap ||
+      meta.vectorStore !== this.resolveVectorStoreKey() ||
+      Boolean(meta.graph) !== this.settings.graph.enabled ||
       (vectorReady && !meta?.vectorDims);
     try {
       if (needsFullReindex) {
@@ -1068,6 +1082,8 @@ export abstract class MemoryManagerSyncOps {
         sources: this.resolveConfiguredSourcesForMeta(),
         chunkTokens: this.settings.chunking.tokens,
         chunkOverlap: this.settings.chunking.overlap,
+        vectorStore: this.resolveVectorStoreKey(),
+        graph: this.settings.graph.enabled,
       };
       if (!nextMeta) {
         throw new Error("Failed to compute memory index metadata for reindexing.");
@@ -1079,6 +1095,11 @@ export abstract class MemoryManagerSyncOps {
 
       this.writeMeta(nextMeta);
       this.pruneEmbeddingCacheIfNeeded?.();
+      carryMemoryChunkTombstones({ from: originalDb, to: this.db });
+
+      const orphanedRemoteIds = this.remoteVectors
+        ? this.listOrphanedChunkIds(originalDb, this.db)
+        : [];
 
       this.db.close();
       originalDb.close();
@@ -1092,6 +1113,7 @@ export abstract class MemoryManagerSyncOps {
       this.vector.loadError = undefined;
       this.ensureSchema();
       this.vector.dims = nextMeta?.vectorDims;
+      await this.deleteRemoteVectors(orphanedRemoteIds);
     } catch (err) {
       try {
         this.db.close();
@@ -1139,6 +1161,8 @@ export abstract class MemoryManagerSyncOps {
       sources: this.resolveConfiguredSourcesForMeta(),
       chunkTokens: this.settings.chunking.tokens,
       chunkOverlap: this.settings.chunking.overlap,
+      vectorStore: this.resolveVectorStoreKey(),
+      graph: this.settings.graph.enabled,
     };
     if (this.vector.available && this.vector.dims) {
       nextMeta.vectorDims = this.vector.dims;
@@ -1148,9 +1172,10 @@ export abstract class MemoryManagerSyncOps {
     this.pruneEmbeddingCacheIfNeeded?.();
   }
 
-  private resetIndex() {
+  protected resetIndex() {
     this.db.exec(`DELETE FROM files`);
     this.db.exec(`DELETE FROM chunks`);
+    deleteMemoryGraphRows({ db: this.db });
     if (this.fts.enabled && this.fts.available) {
       try {
         this.db.exec(`DELETE FROM ${FTS_TABLE}`);
@@ -1161,6 +1186,51 @@ export abstract class MemoryManagerSyncOps {
     this.sessionsDirtyFiles.clear();
   }
 
+  protected resolveVectorStoreKey(): string | undefined {
+    const remote = this.remoteVectors?.config;
+    return remote ? `${remote.url}#${remote.collection}` : undefined;
+  }
+
+  private listOrphanedChunkIds(previousDb: DatabaseSync, nextDb: DatabaseSync): string[] {
+    const next = new Set(
+      (
+        nextDb.prepare(`SELECT DISTINCT chunk_id FROM chunks`).all() as Array<{ chunk_id: string }>
+      ).map((row) => row.chunk_id),
+    );
+    return (
+      previousDb.prepare(`SELECT DISTINCT chunk_id FROM chunks`).all() as Array<{
+        chunk_id: string;
+      }>
+    )
+      .map((row) => row.chunk_id)
+      .filter((id) => id && !next.has(id));
+  }
+
+  protected async deleteRemoteVectorsForPath(pathname: string, source: MemorySource) {
+    if (!this.remoteVectors) {
+      return;
+    }
+    const rows = this.db
+      .prepare(`SELECT DISTINCT chunk_id FROM chunks WHERE path = ? AND source = ?`)
+      .all(pathname, source) as Array<{ chunk_id: string }>;
+    await this.deleteRemoteVectors(rows.map((row) => row.chunk_id));
+  }
+
+  // Orphaned remote vectors are harmless (queries join back to local chunks), so
+  // cleanup failures are logged rather than failing the sync.
+  protected async deleteRemoteVectors(ids: string[]) {
+    const filtered = ids.filter(Boolean);
+    if (!this.remoteVectors || filtered.length === 0) {
+      return;
+    }
+    try {
+      await this.remoteVectors.delete(filtered);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.warn(`remote vector store cleanup failed: ${message}`);
+    }
+  }
+
   protected readMeta(): MemoryIndexMeta | null {
     const row = this.db.prepare(`SELECT value FROM meta WHERE key = ?`).get(META_KEY) as
       | { value: string }
@@ -1184,7 +1254,7 @@ export abstract class MemoryManagerSyncOps {
       .run(META_KEY, value);
   }
 
-  private resolveConfiguredSourcesForMeta(): MemorySource[] {
+  protected resolveConfiguredSourcesForMeta(): MemorySource[] {
     const normalized = Array.from(this.sources)
       .filter((source): source is MemorySource => source === "memory" || source === "sessions")
       .toSorted();
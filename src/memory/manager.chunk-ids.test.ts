@@ -0,0 +1,115 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexManager } from "./index.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+
+vi.mock("./embeddings.js", () => {
+  return {
+    createEmbeddingProvider: async () => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: "mock-embed",
+        embedQuery: async () => [1, 0, 0],
+        embedBatch: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+      },
+    }),
+  };
+});
+
+describe("memory chunk ids", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-chunk-ids-"));
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Ship the release on Friday.");
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("returns chunk ids from search and resolves them after edits", async () => {
+    const cfg = {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+    manager = await createMemoryManagerOrThrow(cfg);
+    await manager.sync({ force: true });
+
+    const [hit] = await manager.search("release", { minScore: 0 });
+    expect(hit?.chunkId).toMatch(/^[0-9a-f]{16}$/);
+    const chunkId = hit?.chunkId ?? "";
+
+    const memoryPath = path.join(workspaceDir, "MEMORY.md");
+    await fs.writeFile(memoryPath, "# Plans\n\nShip the release on Friday.");
+    await expect(manager.getChunk(chunkId)).resolves.toMatchObject({
+      status: "ok",
+      path: "MEMORY.md",
+      startLine: 3,
+      endLine: 3,
+      text: "Ship the release on Friday.",
+    });
+
+    await fs.writeFile(memoryPath, "Ship the release on Monday.");
+    await expect(manager.getChunk(chunkId)).resolves.toMatchObject({
+      status: "stale",
+      text: "Ship the release on Friday.",
+      reason: "text changed",
+    });
+    await expect(manager.getChunk("0000000000000000")).resolves.toEqual({
+      status: "missing",
+      id: "0000000000000000",
+    });
+  });
+
+  it("reports chunks replaced by a re-sync as stale", async () => {
+    const cfg = {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+    manager = await createMemoryManagerOrThrow(cfg);
+    await manager.sync({ force: true });
+    const [hit] = await manager.search("release", { minScore: 0 });
+    const chunkId = hit?.chunkId ?? "";
+
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Ship the release on Monday.");
+    await manager.sync({ force: true });
+
+    await expect(manager.getChunk(chunkId)).resolves.toMatchObject({
+      status: "stale",
+      id: chunkId,
+      path: "MEMORY.md",
+      text: "Ship the release on Friday.",
+      reason: "text changed",
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexManager } from "./index.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+
+vi.mock("./embeddings.js", () => {
+  return {
+    createEmbeddingProvider: async () => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: "mock-embed",
+        embedQuery: async () => [1, 0, 0],
+        embedBatch: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+      },
+    }),
+  };
+});
+
+describe("memory knowledge graph", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  function buildConfig(graph: { enabled: boolean; weight?: number }): OpenClawConfig {
+    return {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+            query: { minScore: 0, hybrid: { enabled: true } },
+            graph,
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+  }
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-graph-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"), { recursive: true });
+    await fs.writeFile(
+      path.join(workspaceDir, "memory", "team.md"),
+      "Alice owns the Billing Service.\nAlice reports to Dana.",
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "memory", "infra.md"),
+      "Billing Service depends on Postgres.",
+    );
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("walks relation neighbours with supporting chunk ids", async () => {
+    manager = await createMemoryManagerOrThrow(buildConfig({ enabled: true }));
+    await manager.sync({ force: true });
+
+    const lookup = await manager.graphNeighbors("alice");
+    expect(lookup).toMatchObject({ entity: "alice", name: "Alice", found: true, mentions: 1 });
+    expect(lookup.neighbors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          entity: "billing service",
+          relation: "owns",
+          direction: "out",
+          depth: 1,
+          chunkIds: [expect.stringMatching(/^[0-9a-f]{16}$/)],
+        }),
+        expect.objectContaining({ entity: "dana", relation: "reports_to", direction: "out" }),
+      ]),
+    );
+
+    const deep = await manager.graphNeighbors("Alice", { depth: 2 });
+    expect(deep.neighbors).toContainEqual(
+      expect.objectContaining({
+        entity: "postgres",
+        relation: "depends_on",
+        via: "billing service",
+        depth: 2,
+      }),
+    );
+    await expect(manager.graphNeighbors("nobody")).resolves.toMatchObject({ found: false });
+  });
+
+  it("boosts chunks about entities named in the query", async () => {
+    manager = await createMemoryManagerOrThrow(buildConfig({ enabled: true, weight: 0.5 }));
+    await manager.sync({ force: true });
+
+    const results = await manager.search("who is on call for postgres");
+    expect(results[0]?.path).toBe("memory/infra.md");
+    expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 0);
+  });
+
+  it("drops graph rows when files change and refuses lookups when disabled", async () => {
+    manager = await createMemoryManagerOrThrow(buildConfig({ enabled: true }));
+    await manager.sync({ force: true });
+    await fs.writeFile(path.join(workspaceDir, "memory", "team.md"), "Alice leads Payments.");
+    (manager as unknown as { dirty: boolean }).dirty = true;
+    await manager.sync();
+
+    const lookup = await manager.graphNeighbors("alice");
+    expect(lookup.neighbors.map((entry) => entry.entity)).toEqual(["payments"]);
+    await manager.close();
+
+    manager = await createMemoryManagerOrThrow(buildConfig({ enabled: false }));
+    await expect(manager.graphNeighbors("alice")).rejects.toThrow(/graph is disabled/);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexManager } from "./index.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+
+const embedBatch = vi.fn(async (texts: string[]) => texts.map(() => [1, 0, 0]));
+
+vi.mock("./embeddings.js", () => {
+  return {
+    createEmbeddingProvider: async () => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: "mock-embed",
+        embedQuery: async () => [1, 0, 0],
+        embedBatch,
+      },
+    }),
+  };
+});
+
+describe("memory index export/import", () => {
+  let workspaceDir: string;
+  const managers: MemoryIndexManager[] = [];
+
+  function buildConfig(storeName: string): OpenClawConfig {
+    return {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, storeName), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+  }
+
+  async function openManager(storeName: string) {
+    const manager = await createMemoryManagerOrThrow(buildConfig(storeName));
+    managers.push(manager);
+    return manager;
+  }
+
+  beforeEach(async () => {
+    embedBatch.mockClear();
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-archive-"));
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Deploys happen on Tuesdays.");
+  });
+
+  afterEach(async () => {
+    for (const manager of managers.splice(0)) {
+      await manager.close();
+    }
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("restores an exported index without re-embedding", async () => {
+    const source = await openManager("source.sqlite");
+    await source.sync({ force: true });
+    const archive = await source.exportIndex();
+    expect(archive.fingerprint).toEqual({ provider: "mock", model: "mock-embed", dims: 3 });
+    expect(archive.chunks).toHaveLength(1);
+
+    const target = await openManager("target.sqlite");
+    embedBatch.mockClear();
+    const result = await target.importIndex(archive);
+    expect(result).toEqual({ files: 1, chunks: 1, reembedded: 0, mismatches: [] });
+    expect(embedBatch).not.toHaveBeenCalled();
+    expect(target.status()).toMatchObject({ files: 1, chunks: 1 });
+
+    const [hit] = await target.search("Tuesdays", { minScore: 0 });
+    expect(hit?.path).toBe("MEMORY.md");
+
+    // The imported file hashes match disk, so the follow-up sync embeds nothing.
+    await target.sync();
+    expect(embedBatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses a fingerprint mismatch unless asked to re-embed", async () => {
+    const source = await openManager("source.sqlite");
+    await source.sync({ force: true });
+    const archive = await source.exportIndex();
+    const foreign = {
+      ...archive,
+      fingerprint: { ...archive.fingerprint, model: "other-embed" },
+    };
+
+    const target = await openManager("target.sqlite");
+    await expect(target.importIndex(foreign)).rejects.toThrow(
+      "does not match this agent's embeddings: model other-embed != mock-embed",
+    );
+
+    embedBatch.mockClear();
+    const result = await target.importIndex(foreign, { reembed: true });
+    expect(result).toMatchObject({
+      chunks: 1,
+      reembedded: 1,
+      mismatches: ["model other-embed != mock-embed"],
+    });
+    expect(embedBatch).toHaveBeenCalledWith(["Deploys happen on Tuesdays."]);
+  });
+});
@@ -0,0 +1,163 @@
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexManager } from "./index.js";
+import { cosineSimilarity } from "./internal.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+
+vi.mock("./embeddings.js", () => {
+  return {
+    createEmbeddingProvider: async () => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: "mock-embed",
+        embedQuery: async (text: string) => (text.includes("deploy") ? [1, 0, 0] : [0, 1, 0]),
+        embedBatch: async (texts: string[]) =>
+          texts.map((text) => (text.includes("deploy") ? [1, 0, 0] : [0, 1, 0])),
+      },
+    }),
+  };
+});
+
+type StandInPoint = { id: string; vector: number[]; metadata: { model: string; source: string } };
+
+// Minimal in-memory implementation of the remote vector store HTTP contract.
+function startStandInStore() {
+  const collections = new Map<string, Map<string, StandInPoint>>();
+  const requests: Array<{ op: string; body: Record<string, unknown> }> = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const op = (req.url ?? "").replace(/^\//, "");
+      const body = JSON.parse(raw) as Record<string, unknown>;
+      requests.push({ op, body });
+      const name = String(body.collection);
+      const points = collections.get(name) ?? new Map<string, StandInPoint>();
+      collections.set(name, points);
+      let payload: unknown = {};
+      if (op === "upsert") {
+        for (const point of body.points as StandInPoint[]) {
+          points.set(point.id, point);
+        }
+      } else if (op === "delete") {
+        for (const id of body.ids as string[]) {
+          points.delete(id);
+        }
+      } else if (op === "query") {
+        const filter = body.filter as { model: string; sources: string[] };
+        payload = {
+          matches: [...points.values()]
+            .filter(
+              (point) =>
+                point.metadata.model === filter.model &&
+                filter.sources.includes(point.metadata.source),
+            )
+            .map((point) => ({
+              id: point.id,
+              score: cosineSimilarity(body.vector as number[], point.vector),
+            }))
+            .toSorted((a, b) => b.score - a.score)
+            .slice(0, Number(body.limit)),
+        };
+      } else {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(payload));
+    });
+  });
+  return new Promise<{
+    url: string;
+    collections: typeof collections;
+    requests: typeof requests;
+    close: () => Promise<void>;
+  }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        collections,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe("memory remote vector store backend", () => {
+  let workspaceDir: string;
+  let store: Awaited<ReturnType<typeof startStandInStore>>;
+  let manager: MemoryIndexManager | null = null;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-remote-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"));
+    await fs.writeFile(path.join(workspaceDir, "memory", "ops.md"), "We deploy on Tuesdays.");
+    await fs.writeFile(path.join(workspaceDir, "memory", "food.md"), "Lunch is at noon.");
+    store = await startStandInStore();
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    await store.close();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("upserts, queries and deletes vectors by chunk id", async () => {
+    const cfg = {
+      memory: { backend: "remote", remote: { url: store.url, collection: "test" } },
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite") },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+            query: { hybrid: { enabled: false } },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+    manager = await createMemoryManagerOrThrow(cfg);
+    await manager.sync({ force: true });
+
+    expect(manager.status()).toMatchObject({
+      backend: "remote",
+      vector: { enabled: false },
+      custom: { remoteVectorStore: { url: store.url, collection: "test" } },
+    });
+    expect(store.collections.get("test")?.size).toBe(2);
+
+    const [hit] = await manager.search("when do we deploy", { minScore: 0.5 });
+    expect(hit).toMatchObject({ path: "memory/ops.md", score: 1 });
+    expect(store.requests.find((request) => request.op === "query")?.body.filter).toEqual({
+      model: "mock-embed",
+      sources: ["memory"],
+    });
+
+    const staleIds = [...(store.collections.get("test")?.keys() ?? [])];
+    await fs.rm(path.join(workspaceDir, "memory", "food.md"));
+    await fs.writeFile(path.join(workspaceDir, "memory", "ops.md"), "We deploy on Fridays.");
+    (manager as unknown as { dirty: boolean }).dirty = true;
+    await manager.sync({ reason: "test" });
+
+    // The removed file and the replaced chunk are deleted remotely; only the new chunk remains.
+    const remaining = [...(store.collections.get("test")?.keys() ?? [])];
+    expect(remaining).toHaveLength(1);
+    expect(staleIds).not.toContain(remaining[0]);
+    const [updated] = await manager.search("when do we deploy", { minScore: 0.5 });
+    expect(updated).toMatchObject({ path: "memory/ops.md", chunkId: remaining[0] });
+  });
+});
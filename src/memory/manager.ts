@@ -7,6 +7,11 @@ import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  resolveMemoryBackendConfig,
+  type ResolvedRemoteVectorStoreConfig,
+} from "./backend-config.js";
+import { findMemoryChunkTombstone, resolveMemoryChunk } from "./chunk-ids.js";
 import {
   createEmbeddingProvider,
   type EmbeddingProvider,
@@ -18,12 +23,24 @@ import {
 } from "./embeddings.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
-import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
+import {
+  diffMemoryIndexFingerprint,
+  MEMORY_INDEX_ARCHIVE_KIND,
+  MEMORY_INDEX_ARCHIVE_VERSION,
+  type MemoryIndexArchive,
+  type MemoryIndexArchiveFile,
+  type MemoryIndexImportResult,
+} from "./index-archive.js";
+import { isMemoryPath, normalizeExtraMemoryPaths, parseEmbedding } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
-import { searchKeyword, searchVector } from "./manager-search.js";
+import { hydrateRemoteVectorMatches, searchKeyword, searchVector } from "./manager-search.js";
+import { queryMemoryGraphNeighbors, searchMemoryGraph } from "./memory-graph.js";
 import { extractKeywords } from "./query-expansion.js";
+import { RemoteVectorStoreClient } from "./remote-vector-store.js";
 import type {
+  MemoryChunkLookup,
   MemoryEmbeddingProbeResult,
+  MemoryGraphLookup,
   MemoryProviderStatus,
   MemorySearchManager,
   MemorySearchResult,
@@ -35,6 +52,8 @@ const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
 const EMBEDDING_CACHE_TABLE = "embedding_cache";
 const BATCH_FAILURE_LIMIT = 2;
+const GRAPH_MAX_DEPTH = 3;
+const GRAPH_MAX_NEIGHBORS = 100;
 
 const log = createSubsystemLogger("memory");
 
@@ -111,7 +130,9 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       return null;
     }
     const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
-    const key = `${agentId}:${workspaceDir}:${JSON.stringify(settings)}`;
+    const backend = resolveMemoryBackendConfig({ cfg, agentId });
+    const remoteVectorStore = backend.backend === "remote" ? backend.remote : undefined;
+    const key = `${agentId}:${workspaceDir}:${JSON.stringify(settings)}:${JSON.stringify(remoteVectorStore ?? null)}`;
     const existing = INDEX_CACHE.get(key);
     if (existing) {
       return existing;
@@ -132,6 +153,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       workspaceDir,
       settings,
       providerResult,
+      remoteVectorStore,
       purpose: params.purpose,
     });
     INDEX_CACHE.set(key, manager);
@@ -145,6 +167,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     workspaceDir: string;
     settings: ResolvedMemorySearchConfig;
     providerResult: EmbeddingProviderResult;
+    remoteVectorStore?: ResolvedRemoteVectorStoreConfig;
     purpose?: "default" | "status";
   }) {
     super();
@@ -171,8 +194,12 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     };
     this.fts = { enabled: params.settings.query.hybrid.enabled, available: false };
     this.ensureSchema();
+    this.remoteVectors = params.remoteVectorStore
+      ? new RemoteVectorStoreClient(params.remoteVectorStore)
+      : null;
     this.vector = {
-      enabled: params.settings.store.vector.enabled,
+      // A remote vector store replaces sqlite-vec; the chunk table still backs FTS and fallback.
+      enabled: params.settings.store.vector.enabled && !this.remoteVectors,
       available: null,
       extensionPath: params.settings.store.vector.extensionPath,
     };
@@ -280,11 +307,15 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
     }
 
+    const graphResults = this.settings.graph.enabled ? this.searchGraph(cleaned, candidates) : [];
+
     const merged = await this.mergeHybridResults({
       vector: vectorResults,
       keyword: keywordResults,
+      graph: graphResults,
       vectorWeight: hybrid.vectorWeight,
       textWeight: hybrid.textWeight,
+      graphWeight: this.settings.graph.weight,
       mmr: hybrid.mmr,
       temporalDecay: hybrid.temporalDecay,
     });
@@ -300,6 +331,26 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!this.provider) {
       return [];
     }
+    if (this.remoteVectors) {
+      try {
+        const matches = await this.remoteVectors.query({
+          vector: queryVec,
+          limit,
+          model: this.provider.model,
+          sources: Array.from(this.sources),
+        });
+        return hydrateRemoteVectorMatches({
+          db: this.db,
+          providerModel: this.provider.model,
+          matches,
+          snippetMaxChars: SNIPPET_MAX_CHARS,
+          sourceFilter: this.buildSourceFilter(),
+        }).map((entry) => entry as MemorySearchResult & { id: string });
+      } catch (err) {
+        log.warn(`remote vector store query failed: ${String(err)}`);
+        throw err;
+      }
+    }
     const results = await searchVector({
       db: this.db,
       vectorTable: VECTOR_TABLE,
@@ -342,17 +393,42 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return results.map((entry) => entry as MemorySearchResult & { id: string; textScore: number });
   }
 
+  private searchGraph(
+    query: string,
+    limit: number,
+  ): Array<MemorySearchResult & { id: string; graphScore: number }> {
+    if (!this.provider) {
+      return [];
+    }
+    try {
+      return searchMemoryGraph({
+        db: this.db,
+        query,
+        providerModel: this.provider.model,
+        limit,
+        snippetMaxChars: SNIPPET_MAX_CHARS,
+        sources: Array.from(this.sources),
+      }).map((entry) => entry as MemorySearchResult & { id: string; graphScore: number });
+    } catch (err) {
+      log.warn(`memory graph search failed: ${String(err)}`);
+      return [];
+    }
+  }
+
   private mergeHybridResults(params: {
     vector: Array<MemorySearchResult & { id: string }>;
     keyword: Array<MemorySearchResult & { id: string; textScore: number }>;
+    graph?: Array<MemorySearchResult & { id: string; graphScore: number }>;
     vectorWeight: number;
     textWeight: number;
+    graphWeight?: number;
     mmr?: { enabled: boolean; lambda: number };
     temporalDecay?: { enabled: boolean; halfLifeDays: number };
   }): Promise<MemorySearchResult[]> {
     return mergeHybridResults({
       vector: params.vector.map((r) => ({
         id: r.id,
+        chunkId: r.chunkId,
         path: r.path,
         startLine: r.startLine,
         endLine: r.endLine,
@@ -362,6 +438,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       })),
       keyword: params.keyword.map((r) => ({
         id: r.id,
+        chunkId: r.chunkId,
         path: r.path,
         startLine: r.startLine,
         endLine: r.endLine,
@@ -369,8 +446,19 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         snippet: r.snippet,
         textScore: r.textScore,
       })),
+      graph: params.graph?.map((r) => ({
+        id: r.id,
+        chunkId: r.chunkId,
+        path: r.path,
+        startLine: r.startLine,
+        endLine: r.endLine,
+        source: r.source,
+        snippet: r.snippet,
+        graphScore: r.graphScore,
+      })),
       vectorWeight: params.vectorWeight,
       textWeight: params.textWeight,
+      graphWeight: params.graphWeight,
       mmr: params.mmr,
       temporalDecay: params.temporalDecay,
       workspaceDir: this.workspaceDir,
@@ -467,6 +555,196 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return { text: slice.join("\n"), path: relPath };
   }
 
+  async getChunk(id: string): Promise<MemoryChunkLookup> {
+    const chunkId = id.trim();
+    const row = chunkId
+      ? (this.db
+          .prepare(
+            `SELECT path, source, start_line, end_line, text FROM chunks WHERE chunk_id = ? LIMIT 1`,
+          )
+          .get(chunkId) as
+          | {
+              path: string;
+              source: MemorySource;
+              start_line: number;
+              end_line: number;
+              text: string;
+            }
+          | undefined)
+      : undefined;
+    // Chunks replaced by a re-sync keep a tombstone so their old ids report as stale.
+    const tombstone = row
+      ? undefined
+      : chunkId
+        ? findMemoryChunkTombstone(this.db, chunkId)
+        : undefined;
+    const found = row ?? tombstone;
+    if (!found) {
+      return { status: "missing", id: chunkId };
+    }
+    const indexed = {
+      id: chunkId,
+      path: found.path,
+      source: found.source,
+      text: found.text,
+      startLine: found.start_line,
+      endLine: found.end_line,
+    };
+    if (found.source !== "memory") {
+      // Session chunks are extracted from transcripts, so there is no raw text to re-check.
+      return tombstone
+        ? { status: "stale", ...indexed, reason: "transcript re-indexed" }
+        : { status: "ok", ...indexed };
+    }
+    let content: string | null;
+    try {
+      content = await fs.readFile(path.resolve(this.workspaceDir, found.path), "utf-8");
+    } catch (err) {
+      if (!isFileMissingError(err)) {
+        throw err;
+      }
+      content = null;
+    }
+    return resolveMemoryChunk({ ...indexed, content });
+  }
+
+  /** Entities linked to `entity` in the memory graph, up to `depth` hops away. */
+  async graphNeighbors(
+    entity: string,
+    opts?: { depth?: number; limit?: number },
+  ): Promise<MemoryGraphLookup> {
+    if (!this.settings.graph.enabled) {
+      throw new Error("Memory graph is disabled (set memorySearch.graph.enabled)");
+    }
+    return queryMemoryGraphNeighbors({
+      db: this.db,
+      entity,
+      depth: Math.max(1, Math.min(GRAPH_MAX_DEPTH, Math.floor(opts?.depth ?? 1))),
+      limit: Math.max(1, Math.min(GRAPH_MAX_NEIGHBORS, Math.floor(opts?.limit ?? 20))),
+      sources: Array.from(this.sources),
+    });
+  }
+
+  /** Snapshot the index (files, chunks and embeddings) into a portable archive. */
+  async exportIndex(): Promise<MemoryIndexArchive> {
+    const meta = this.readMeta();
+    if (!meta) {
+      throw new Error("Memory index has not been built yet");
+    }
+    const files = this.db
+      .prepare(`SELECT path, source, hash, mtime, size FROM files ORDER BY path`)
+      .all() as MemoryIndexArchiveFile[];
+    const rows = this.db
+      .prepare(
+        `SELECT path, source, start_line, end_line, hash, text, embedding FROM chunks\n` +
+          ` WHERE model = ? ORDER BY path, start_line`,
+      )
+      .all(meta.model) as Array<{
+      path: string;
+      source: MemorySource;
+      start_line: number;
+      end_line: number;
+      hash: string;
+      text: string;
+      embedding: string;
+    }>;
+    const chunks = rows.map((row) => ({
+      path: row.path,
+      source: row.source,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      hash: row.hash,
+      text: row.text,
+      embedding: parseEmbedding(row.embedding),
+    }));
+    const dims =
+      meta.vectorDims ?? chunks.find((chunk) => chunk.embedding.length > 0)?.embedding.length;
+    return {
+      kind: MEMORY_INDEX_ARCHIVE_KIND,
+      version: MEMORY_INDEX_ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      agentId: this.agentId,
+      fingerprint: { provider: meta.provider, model: meta.model, ...(dims ? { dims } : {}) },
+      chunking: { tokens: meta.chunkTokens, overlap: meta.chunkOverlap },
+      sources: meta.sources ?? ["memory"],
+      files,
+      chunks,
+    };
+  }
+
+  /**
+   * Replace the index with an exported archive. A provider/model/dims mismatch
+   * is refused unless `reembed` is set, which embeds the archived chunk text
+   * again with this agent's provider instead of using the archived vectors.
+   */
+  async importIndex(
+    archive: MemoryIndexArchive,
+    opts?: { reembed?: boolean },
+  ): Promise<MemoryIndexImportResult> {
+    const pending = this.syncing;
+    if (pending) {
+      try {
+        await pending;
+      } catch {}
+    }
+    const run = this.runImport(archive, opts?.reembed === true);
+    // Park the import in the sync slot so watcher/interval syncs wait for it.
+    this.syncing = run
+      .then(
+        () => undefined,
+        () => undefined,
+      )
+      .finally(() => {
+        this.syncing = null;
+      });
+    return await run;
+  }
+
+  private async runImport(
+    archive: MemoryIndexArchive,
+    reembed: boolean,
+  ): Promise<MemoryIndexImportResult> {
+    if (!this.provider) {
+      throw new Error("Memory index import requires an embedding provider");
+    }
+    const { tokens, overlap } = this.settings.chunking;
+    if (archive.chunking.tokens !== tokens || archive.chunking.overlap !== overlap) {
+      throw new Error(
+        `Memory index archive chunking (${archive.chunking.tokens}/${archive.chunking.overlap}) ` +
+          `does not match this agent (${tokens}/${overlap})`,
+      );
+    }
+    await this.ensureVectorReady();
+    const mismatches = diffMemoryIndexFingerprint(archive.fingerprint, this.status());
+    if (mismatches.length > 0 && !reembed) {
+      throw new Error(
+        `Memory index archive does not match this agent's embeddings: ${mismatches.join(", ")}`,
+      );
+    }
+    const files = archive.files.filter((file) => this.sources.has(file.source));
+    const chunks = archive.chunks.filter((chunk) => this.sources.has(chunk.source));
+    const reembedded = await this.restoreIndexArchive({
+      files,
+      chunks,
+      reembed: mismatches.length > 0,
+    });
+    this.writeMeta({
+      model: this.provider.model,
+      provider: this.provider.id,
+      providerKey: this.providerKey,
+      sources: this.resolveConfiguredSourcesForMeta(),
+      chunkTokens: tokens,
+      chunkOverlap: overlap,
+      vectorStore: this.resolveVectorStoreKey(),
+      graph: this.settings.graph.enabled,
+      ...(this.vector.available && this.vector.dims ? { vectorDims: this.vector.dims } : {}),
+    });
+    this.pruneEmbeddingCacheIfNeeded();
+    // Reconcile against the files on this host on the next sync; unchanged hashes are skipped.
+    this.dirty = this.sources.has("memory");
+    return { files: files.length, chunks: chunks.length, reembedded, mismatches };
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
@@ -518,7 +796,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       : { provider: "none", model: undefined };
 
     return {
-      backend: "builtin",
+      backend: this.remoteVectors ? "remote" : "builtin",
       files: files?.c ?? 0,
       chunks: chunks?.c ?? 0,
       dirty: this.dirty || this.sessionsDirty,
@@ -571,6 +849,14 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       custom: {
         searchMode,
         providerUnavailableReason: this.providerUnavailableReason,
+        ...(this.remoteVectors
+          ? {
+              remoteVectorStore: {
+                url: this.remoteVectors.config.url,
+                collection: this.remoteVectors.config.collection,
+              },
+            }
+          : {}),
       },
     };
   }
@@ -0,0 +1,365 @@
+import type { DatabaseSync } from "node:sqlite";
+import { truncateUtf16Safe } from "../utils.js";
+import {
+  extractMemoryGraph,
+  listMemoryGraphQueryKeys,
+  normalizeMemoryGraphKey,
+} from "./graph-extract.js";
+import type { SearchRowResult, SearchSource } from "./manager-search.js";
+import type { MemoryGraphLookup, MemoryGraphNeighbor } from "./types.js";
+
+export const GRAPH_MENTIONS_TABLE = "graph_mentions";
+export const GRAPH_RELATIONS_TABLE = "graph_relations";
+
+const CO_MENTIONED = "co_mentioned";
+const MAX_CHUNK_IDS_PER_LINK = 3;
+const NEIGHBOR_CHUNK_WEIGHT = 0.5;
+
+type SourceFilter = { sql: string; params: SearchSource[] };
+
+function buildSourceFilter(sources: SearchSource[], alias?: string): SourceFilter {
+  if (sources.length === 0) {
+    return { sql: "", params: [] };
+  }
+  const column = alias ? `${alias}.source` : "source";
+  return { sql: ` AND ${column} IN (${sources.map(() => "?").join(", ")})`, params: sources };
+}
+
+export function ensureMemoryGraphSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${GRAPH_MENTIONS_TABLE} (
+      entity TEXT NOT NULL,
+      name TEXT NOT NULL,
+      chunk TEXT NOT NULL,
+      path TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'memory'
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${GRAPH_RELATIONS_TABLE} (
+      subject TEXT NOT NULL,
+      predicate TEXT NOT NULL,
+      object TEXT NOT NULL,
+      chunk TEXT NOT NULL,
+      path TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'memory'
+    );
+  `);
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_graph_mentions_entity ON ${GRAPH_MENTIONS_TABLE}(entity);`,
+  );
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_graph_mentions_chunk ON ${GRAPH_MENTIONS_TABLE}(chunk);`);
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_graph_mentions_path ON ${GRAPH_MENTIONS_TABLE}(path, source);`,
+  );
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_graph_relations_subject ON ${GRAPH_RELATIONS_TABLE}(subject);`,
+  );
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_graph_relations_object ON ${GRAPH_RELATIONS_TABLE}(object);`,
+  );
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_graph_relations_path ON ${GRAPH_RELATIONS_TABLE}(path, source);`,
+  );
+}
+
+/** Extract entities and relations from one chunk and record them against its row id. */
+export function writeMemoryGraphChunk(params: {
+  db: DatabaseSync;
+  chunk: string;
+  path: string;
+  source: SearchSource;
+  text: string;
+}): void {
+  const { entities, relations } = extractMemoryGraph(params.text);
+  if (entities.length === 0) {
+    return;
+  }
+  const insertMention = params.db.prepare(
+    `INSERT INTO ${GRAPH_MENTIONS_TABLE} (entity, name, chunk, path, source) VALUES (?, ?, ?, ?, ?)`,
+  );
+  for (const entity of entities) {
+    insertMention.run(entity.key, entity.name, params.chunk, params.path, params.source);
+  }
+  const insertRelation = params.db.prepare(
+    `INSERT INTO ${GRAPH_RELATIONS_TABLE} (subject, predicate, object, chunk, path, source)\n` +
+      ` VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+  for (const relation of relations) {
+    insertRelation.run(
+      relation.subject,
+      relation.predicate,
+      relation.object,
+      params.chunk,
+      params.path,
+      params.source,
+    );
+  }
+}
+
+export function deleteMemoryGraphRows(params: {
+  db: DatabaseSync;
+  path?: string;
+  source?: SearchSource;
+}): void {
+  for (const table of [GRAPH_MENTIONS_TABLE, GRAPH_RELATIONS_TABLE]) {
+    if (params.path === undefined) {
+      params.db.exec(`DELETE FROM ${table}`);
+    } else {
+      params.db
+        .prepare(`DELETE FROM ${table} WHERE path = ? AND source = ?`)
+        .run(params.path, params.source ?? "memory");
+    }
+  }
+}
+
+function splitChunkIds(raw: string | null): string[] {
+  return (raw ?? "").split(",").filter(Boolean).slice(0, MAX_CHUNK_IDS_PER_LINK);
+}
+
+function listDirectNeighbors(params: {
+  db: DatabaseSync;
+  entity: string;
+  limit: number;
+  sources: SearchSource[];
+}): Array<Omit<MemoryGraphNeighbor, "name" | "via" | "depth">> {
+  const filter = buildSourceFilter(params.sources, "r");
+  const relationRows = (direction: "out" | "in") => {
+    const [self, other] = direction === "out" ? ["subject", "object"] : ["object", "subject"];
+    return (
+      params.db
+        .prepare(
+          `SELECT r.${other} AS entity, r.predicate AS relation,\n` +
+            `       COUNT(DISTINCT r.chunk) AS weight,\n` +
+            `       GROUP_CONCAT(DISTINCT c.chunk_id) AS chunk_ids\n` +
+            `  FROM ${GRAPH_RELATIONS_TABLE} r\n` +
+            `  JOIN chunks c ON c.id = r.chunk\n` +
+            ` WHERE r.${self} = ?${filter.sql}\n` +
+            ` GROUP BY r.${other}, r.predicate`,
+        )
+        .all(params.entity, ...filter.params) as Array<{
+        entity: string;
+        relation: string;
+        weight: number;
+        chunk_ids: string | null;
+      }>
+    ).map((row) => ({
+      entity: row.entity,
+      relation: row.relation,
+      direction,
+      weight: row.weight,
+      chunkIds: splitChunkIds(row.chunk_ids),
+    }));
+  };
+  const related = [...relationRows("out"), ...relationRows("in")];
+  const linked = new Set(related.map((entry) => entry.entity));
+  const mentionFilter = buildSourceFilter(params.sources, "m");
+  const coMentioned = (
+    params.db
+      .prepare(
+        `SELECT o.entity AS entity, COUNT(DISTINCT o.chunk) AS weight,\n` +
+          `       GROUP_CONCAT(DISTINCT c.chunk_id) AS chunk_ids\n` +
+          `  FROM ${GRAPH_MENTIONS_TABLE} m\n` +
+          `  JOIN ${GRAPH_MENTIONS_TABLE} o ON o.chunk = m.chunk AND o.entity <> m.entity\n` +
+          `  JOIN chunks c ON c.id = m.chunk\n` +
+          ` WHERE m.entity = ?${mentionFilter.sql}\n` +
+          ` GROUP BY o.entity\n` +
+          ` ORDER BY weight DESC\n` +
+          ` LIMIT ?`,
+      )
+      .all(params.entity, ...mentionFilter.params, params.limit) as Array<{
+      entity: string;
+      weight: number;
+      chunk_ids: string | null;
+    }>
+  )
+    .filter((row) => !linked.has(row.entity))
+    .map((row) => ({
+      entity: row.entity,
+      relation: CO_MENTIONED,
+      direction: "both" as const,
+      weight: row.weight,
+      chunkIds: splitChunkIds(row.chunk_ids),
+    }));
+  // Explicit relations rank ahead of co-mentions with the same support.
+  return [...related, ...coMentioned]
+    .toSorted(
+      (a, b) =>
+        b.weight - a.weight ||
+        Number(a.relation === CO_MENTIONED) - Number(b.relation === CO_MENTIONED),
+    )
+    .slice(0, params.limit);
+}
+
+function resolveEntityNames(db: DatabaseSync, keys: string[]): Map<string, string> {
+  if (keys.length === 0) {
+    return new Map();
+  }
+  const placeholders = keys.map(() => "?").join(", ");
+  const rows = db
+    .prepare(
+      `SELECT entity, MIN(name) AS name FROM ${GRAPH_MENTIONS_TABLE}\n` +
+        ` WHERE entity IN (${placeholders}) GROUP BY entity`,
+    )
+    .all(...keys) as Array<{ entity: string; name: string }>;
+  return new Map(rows.map((row) => [row.entity, row.name]));
+}
+
+/** Walk relations and co-mentions outward from an entity, breadth first. */
+export function queryMemoryGraphNeighbors(params: {
+  db: DatabaseSync;
+  entity: string;
+  depth: number;
+  limit: number;
+  sources: SearchSource[];
+}): MemoryGraphLookup {
+  const entity = normalizeMemoryGraphKey(params.entity);
+  const mentionFilter = buildSourceFilter(params.sources, "m");
+  const mentions = entity
+    ? (
+        params.db
+          .prepare(
+            `SELECT COUNT(DISTINCT m.chunk) AS count FROM ${GRAPH_MENTIONS_TABLE} m\n` +
+              ` WHERE m.entity = ?${mentionFilter.sql}`,
+          )
+          .get(entity, ...mentionFilter.params) as { count: number }
+      ).count
+    : 0;
+  if (mentions === 0) {
+    return { entity, found: false, mentions: 0, neighbors: [] };
+  }
+  const neighbors: Array<Omit<MemoryGraphNeighbor, "name">> = [];
+  const visited = new Set([entity]);
+  let frontier = [entity];
+  for (let depth = 1; depth <= params.depth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const via of frontier) {
+      const remaining = params.limit - neighbors.length;
+      if (remaining <= 0) {
+        break;
+      }
+      for (const entry of listDirectNeighbors({
+        db: params.db,
+        entity: via,
+        limit: remaining,
+        sources: params.sources,
+      })) {
+        if (visited.has(entry.entity) || neighbors.length >= params.limit) {
+          continue;
+        }
+        visited.add(entry.entity);
+        next.push(entry.entity);
+        neighbors.push({ ...entry, via, depth });
+      }
+    }
+    frontier = next;
+  }
+  const names = resolveEntityNames(params.db, [entity, ...neighbors.map((entry) => entry.entity)]);
+  return {
+    entity,
+    name: names.get(entity),
+    found: true,
+    mentions,
+    neighbors: neighbors.map((entry) => ({
+      ...entry,
+      name: names.get(entry.entity) ?? entry.entity,
+    })),
+  };
+}
+
+/**
+ * Graph retrieval signal for hybrid search. Entities named in the query score
+ * their chunks fully; their one-hop relation neighbours score at half weight.
+ */
+export function searchMemoryGraph(params: {
+  db: DatabaseSync;
+  query: string;
+  providerModel: string;
+  limit: number;
+  snippetMaxChars: number;
+  sources: SearchSource[];
+}): Array<SearchRowResult & { graphScore: number }> {
+  const sourceFilter = buildSourceFilter(params.sources);
+  const keys = listMemoryGraphQueryKeys(params.query);
+  if (keys.length === 0 || params.limit <= 0) {
+    return [];
+  }
+  const keyPlaceholders = keys.map(() => "?").join(", ");
+  const seeds = (
+    params.db
+      .prepare(
+        `SELECT DISTINCT entity FROM ${GRAPH_MENTIONS_TABLE}\n` +
+          ` WHERE entity IN (${keyPlaceholders})${sourceFilter.sql}`,
+      )
+      .all(...keys, ...sourceFilter.params) as Array<{ entity: string }>
+  ).map((row) => row.entity);
+  if (seeds.length === 0) {
+    return [];
+  }
+  const seedPlaceholders = seeds.map(() => "?").join(", ");
+  const neighbors = (
+    params.db
+      .prepare(
+        `SELECT object AS entity FROM ${GRAPH_RELATIONS_TABLE} WHERE subject IN (${seedPlaceholders})${sourceFilter.sql}\n` +
+          `UNION\n` +
+          `SELECT subject AS entity FROM ${GRAPH_RELATIONS_TABLE} WHERE object IN (${seedPlaceholders})${sourceFilter.sql}`,
+      )
+      .all(...seeds, ...sourceFilter.params, ...seeds, ...sourceFilter.params) as Array<{
+      entity: string;
+    }>
+  )
+    .map((row) => row.entity)
+    .filter((entity) => !seeds.includes(entity));
+  const seedSet = new Set(seeds);
+  const entities = [...seeds, ...neighbors];
+  const entityPlaceholders = entities.map(() => "?").join(", ");
+  const mentionRows = params.db
+    .prepare(
+      `SELECT entity, chunk FROM ${GRAPH_MENTIONS_TABLE}\n` +
+        ` WHERE entity IN (${entityPlaceholders})${sourceFilter.sql}`,
+    )
+    .all(...entities, ...sourceFilter.params) as Array<{ entity: string; chunk: string }>;
+  const raw = new Map<string, number>();
+  for (const row of mentionRows) {
+    const weight = seedSet.has(row.entity) ? 1 : NEIGHBOR_CHUNK_WEIGHT;
+    raw.set(row.chunk, (raw.get(row.chunk) ?? 0) + weight);
+  }
+  const top = Array.from(raw.entries())
+    .toSorted((a, b) => b[1] - a[1])
+    .slice(0, params.limit);
+  const max = top[0]?.[1] ?? 0;
+  if (max <= 0) {
+    return [];
+  }
+  const chunkPlaceholders = top.map(() => "?").join(", ");
+  const rows = params.db
+    .prepare(
+      `SELECT id, chunk_id, path, start_line, end_line, text, source FROM chunks\n` +
+        ` WHERE id IN (${chunkPlaceholders}) AND model = ?${sourceFilter.sql}`,
+    )
+    .all(...top.map(([chunk]) => chunk), params.providerModel, ...sourceFilter.params) as Array<{
+    id: string;
+    chunk_id: string;
+    path: string;
+    start_line: number;
+    end_line: number;
+    text: string;
+    source: SearchSource;
+  }>;
+  return rows
+    .map((row) => {
+      const graphScore = (raw.get(row.id) ?? 0) / max;
+      return {
+        id: row.id,
+        chunkId: row.chunk_id || undefined,
+        path: row.path,
+        startLine: row.start_line,
+        endLine: row.end_line,
+        score: graphScore,
+        graphScore,
+        snippet: truncateUtf16Safe(row.text, params.snippetMaxChars),
+        source: row.source,
+      };
+    })
+    .toSorted((a, b) => b.graphScore - a.graphScore);
+}
@@ -1,4 +1,6 @@
 import type { DatabaseSync } from "node:sqlite";
+import { buildMemoryChunkId, ensureMemoryChunkTombstoneSchema } from "./chunk-ids.js";
+import { ensureMemoryGraphSchema } from "./memory-graph.js";
 
 export function ensureMemoryIndexSchema(params: {
   db: DatabaseSync;
@@ -32,7 +34,8 @@ export function ensureMemoryIndexSchema(params: {
       model TEXT NOT NULL,
       text TEXT NOT NULL,
       embedding TEXT NOT NULL,
-      updated_at INTEGER NOT NULL
+      updated_at INTEGER NOT NULL,
+      chunk_id TEXT NOT NULL DEFAULT ''
     );
   `);
   params.db.exec(`
@@ -50,6 +53,8 @@ export function ensureMemoryIndexSchema(params: {
   params.db.exec(
     `CREATE INDEX IF NOT EXISTS idx_embedding_cache_updated_at ON ${params.embeddingCacheTable}(updated_at);`,
   );
+  ensureMemoryGraphSchema(params.db);
+  ensureMemoryChunkTombstoneSchema(params.db);
 
   let ftsAvailable = false;
   let ftsError: string | undefined;
@@ -76,12 +81,32 @@ export function ensureMemoryIndexSchema(params: {
 
   ensureColumn(params.db, "files", "source", "TEXT NOT NULL DEFAULT 'memory'");
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
+  ensureColumn(params.db, "chunks", "chunk_id", "TEXT NOT NULL DEFAULT ''");
+  backfillChunkIds(params.db);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
+  params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_chunk_id ON chunks(chunk_id);`);
 
   return { ftsAvailable, ...(ftsError ? { ftsError } : {}) };
 }
 
+// Indexes built before stable chunk ids existed get them derived from stored columns.
+function backfillChunkIds(db: DatabaseSync): void {
+  const rows = db
+    .prepare(`SELECT id, path, source, hash FROM chunks WHERE chunk_id = ''`)
+    .all() as Array<{ id: string; path: string; source: string; hash: string }>;
+  if (rows.length === 0) {
+    return;
+  }
+  const update = db.prepare(`UPDATE chunks SET chunk_id = ? WHERE id = ?`);
+  for (const row of rows) {
+    update.run(
+      buildMemoryChunkId({ source: row.source, path: row.path, textHash: row.hash }),
+      row.id,
+    );
+  }
+}
+
 function ensureColumn(
   db: DatabaseSync,
   table: "files" | "chunks",
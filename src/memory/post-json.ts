@@ -8,6 +8,7 @@ export async function postJson<T>(params: {
   body: unknown;
   errorPrefix: string;
   attachStatus?: boolean;
+  timeoutMs?: number;
   parse: (payload: unknown) => T | Promise<T>;
 }): Promise<T> {
   return await withRemoteHttpResponse({
@@ -17,6 +18,7 @@ export async function postJson<T>(params: {
       method: "POST",
       headers: params.headers,
       body: JSON.stringify(params.body),
+      ...(params.timeoutMs ? { signal: AbortSignal.timeout(params.timeoutMs) } : {}),
     },
     onResponse: async (res) => {
       if (!res.ok) {
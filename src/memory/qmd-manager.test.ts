@@ -869,6 +869,7 @@ describe("QmdMemoryManager", () => {
       manager.search("remember", { sessionKey: "agent:main:slack:dm:u123" }),
     ).resolves.toEqual([
       {
+        chunkId: expect.any(String),
         path: "MEMORY.md",
         startLine: 1,
         endLine: 1,
@@ -2084,6 +2085,7 @@ describe("QmdMemoryManager", () => {
         score: 1,
         snippet: "@@ -5,2\nremember this\nnext line",
         source: "memory",
+        chunkId: expect.any(String),
       },
     ]);
 
@@ -2158,6 +2160,7 @@ describe("QmdMemoryManager", () => {
         score: 0.9,
         snippet: "@@ -3,1\nworkspace hit",
         source: "memory",
+        chunkId: expect.any(String),
       },
     ]);
     await manager.close();
@@ -7,7 +7,9 @@ import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { buildMemoryChunkId, resolveMemoryChunk } from "./chunk-ids.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
+import { hashText } from "./internal.js";
 import { deriveQmdScopeChannel, deriveQmdScopeChatType, isQmdScopeAllowed } from "./qmd-scope.js";
 import {
   listSessionFilesForAgent,
@@ -16,6 +18,7 @@ import {
 } from "./session-files.js";
 import { requireNodeSqlite } from "./sqlite.js";
 import type {
+  MemoryChunkLookup,
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
   MemorySearchManager,
@@ -43,6 +46,7 @@ const QMD_EMBED_BACKOFF_BASE_MS = 60_000;
 const QMD_EMBED_BACKOFF_MAX_MS = 60 * 60 * 1000;
 const HAN_SCRIPT_RE = /[\u3400-\u9fff]/u;
 const QMD_BM25_HAN_KEYWORD_LIMIT = 12;
+const QMD_CITED_CHUNK_LIMIT = 500;
 
 let qmdEmbedQueueTail: Promise<void> = Promise.resolve();
 
@@ -180,6 +184,11 @@ export class QmdMemoryManager implements MemorySearchManager {
     }
   >();
   private readonly maxQmdOutputChars = MAX_QMD_OUTPUT_CHARS;
+  // QMD keeps no chunk table of ours, so chunk ids resolve against recent search hits.
+  private readonly citedChunks = new Map<
+    string,
+    { path: string; source: MemorySource; text: string; startLine: number; endLine: number }
+  >();
   private readonly sessionExporter: SessionExporterConfig | null;
   private updateTimer: NodeJS.Timeout | null = null;
   private pendingUpdate: Promise<void> | null = null;
@@ -732,7 +741,14 @@ export class QmdMemoryManager implements MemorySearchManager {
       if (score < minScore) {
         continue;
       }
+      const chunkId = this.rememberCitedChunk({
+        path: doc.rel,
+        source: doc.source,
+        text: this.extractSnippetBody(entry.snippet ?? ""),
+        ...lines,
+      });
       results.push({
+        chunkId,
         path: doc.rel,
         startLine: lines.startLine,
         endLine: lines.endLine,
@@ -796,6 +812,20 @@ export class QmdMemoryManager implements MemorySearchManager {
     return { text: slice.join("\n"), path: relPath };
   }
 
+  async getChunk(id: string): Promise<MemoryChunkLookup> {
+    const chunkId = id.trim();
+    const cited = this.citedChunks.get(chunkId);
+    if (!cited) {
+      return { status: "missing", id: chunkId };
+    }
+    const full = await this.readFullText(this.resolveReadPath(cited.path));
+    return resolveMemoryChunk({
+      id: chunkId,
+      ...cited,
+      content: full.missing ? null : full.text,
+    });
+  }
+
   status(): MemoryProviderStatus {
     const counts = this.readCounts();
     return {
@@ -1496,6 +1526,38 @@ export class QmdMemoryManager implements MemorySearchManager {
     return null;
   }
 
+  private extractSnippetBody(snippet: string): string {
+    if (!SNIPPET_HEADER_RE.test(snippet)) {
+      return snippet;
+    }
+    const newline = snippet.indexOf("\n");
+    return newline >= 0 ? snippet.slice(newline + 1) : "";
+  }
+
+  private rememberCitedChunk(chunk: {
+    path: string;
+    source: MemorySource;
+    text: string;
+    startLine: number;
+    endLine: number;
+  }): string {
+    const chunkId = buildMemoryChunkId({
+      source: chunk.source,
+      path: chunk.path,
+      textHash: hashText(chunk.text),
+    });
+    this.citedChunks.delete(chunkId);
+    this.citedChunks.set(chunkId, chunk);
+    while (this.citedChunks.size > QMD_CITED_CHUNK_LIMIT) {
+      const oldest = this.citedChunks.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.citedChunks.delete(oldest);
+    }
+    return chunkId;
+  }
+
   private extractSnippetLines(snippet: string): { startLine: number; endLine: number } {
     const match = SNIPPET_HEADER_RE.exec(snippet);
     if (match) {
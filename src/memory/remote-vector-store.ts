@@ -0,0 +1,93 @@
+import type { SsrFPolicy } from "../infra/net/ssrf.js";
+import type { ResolvedRemoteVectorStoreConfig } from "./backend-config.js";
+import { postJson } from "./post-json.js";
+import { buildRemoteBaseUrlPolicy } from "./remote-http.js";
+import type { MemorySource } from "./types.js";
+
+const UPSERT_BATCH_SIZE = 256;
+const DELETE_BATCH_SIZE = 1000;
+
+/** Vector point keyed by the stable memory chunk id. */
+export type RemoteVectorPoint = {
+  id: string;
+  vector: number[];
+  metadata: {
+    path: string;
+    source: MemorySource;
+    model: string;
+    startLine: number;
+    endLine: number;
+  };
+};
+
+export type RemoteVectorMatch = {
+  id: string;
+  /** Cosine similarity; higher is closer. */
+  score: number;
+};
+
+/**
+ * Client for the remote vector store HTTP contract:
+ * - `POST <url>/upsert` `{ collection, points: RemoteVectorPoint[] }`
+ * - `POST <url>/query` `{ collection, vector, limit, filter: { model, sources } }`
+ *   → `{ matches: RemoteVectorMatch[] }`
+ * - `POST <url>/delete` `{ collection, ids }`
+ */
+export class RemoteVectorStoreClient {
+  readonly config: ResolvedRemoteVectorStoreConfig;
+  private readonly ssrfPolicy?: SsrFPolicy;
+
+  constructor(config: ResolvedRemoteVectorStoreConfig) {
+    this.config = config;
+    this.ssrfPolicy = buildRemoteBaseUrlPolicy(config.url);
+  }
+
+  async upsert(points: RemoteVectorPoint[]): Promise<void> {
+    const unique = [...new Map(points.map((point) => [point.id, point])).values()];
+    for (let start = 0; start < unique.length; start += UPSERT_BATCH_SIZE) {
+      await this.post("upsert", { points: unique.slice(start, start + UPSERT_BATCH_SIZE) });
+    }
+  }
+
+  async query(params: {
+    vector: number[];
+    limit: number;
+    model: string;
+    sources: MemorySource[];
+  }): Promise<RemoteVectorMatch[]> {
+    const payload = await this.post("query", {
+      vector: params.vector,
+      limit: params.limit,
+      filter: { model: params.model, sources: params.sources },
+    });
+    const matches = (payload as { matches?: unknown } | null)?.matches;
+    if (!Array.isArray(matches)) {
+      throw new Error("remote vector store query: response is missing matches");
+    }
+    return matches.filter(
+      (match): match is RemoteVectorMatch =>
+        Boolean(match) &&
+        typeof (match as RemoteVectorMatch).id === "string" &&
+        Number.isFinite((match as RemoteVectorMatch).score),
+    );
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const unique = [...new Set(ids)];
+    for (let start = 0; start < unique.length; start += DELETE_BATCH_SIZE) {
+      await this.post("delete", { ids: unique.slice(start, start + DELETE_BATCH_SIZE) });
+    }
+  }
+
+  private async post(op: "upsert" | "query" | "delete", body: object): Promise<unknown> {
+    return await postJson({
+      url: `${this.config.url}/${op}`,
+      headers: this.config.headers,
+      ssrfPolicy: this.ssrfPolicy,
+      body: { collection: this.config.collection, ...body },
+      errorPrefix: `remote vector store ${op} failed`,
+      timeoutMs: this.config.timeoutMs,
+      parse: (payload) => payload,
+    });
+  }
+}
@@ -120,6 +120,17 @@ class FallbackMemoryManager implements MemorySearchManager {
     throw new Error(this.lastError ?? "memory read unavailable");
   }
 
+  async getChunk(id: string) {
+    if (!this.primaryFailed) {
+      return await this.deps.primary.getChunk(id);
+    }
+    const fallback = await this.ensureFallback();
+    if (fallback) {
+      return await fallback.getChunk(id);
+    }
+    throw new Error(this.lastError ?? "memory read unavailable");
+  }
+
   status() {
     if (!this.primaryFailed) {
       return this.deps.primary.status();
@@ -1,6 +1,10 @@
+import type { MemoryIndexArchive, MemoryIndexImportResult } from "./index-archive.js";
+
 export type MemorySource = "memory" | "sessions";
 
 export type MemorySearchResult = {
+  /** Stable content-addressed chunk id; resolve it with `MemorySearchManager.getChunk`. */
+  chunkId?: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -10,6 +14,45 @@ export type MemorySearchResult = {
   citation?: string;
 };
 
+/**
+ * A chunk resolved by id. "ok" carries the chunk's current lines; "stale" means
+ * the file changed and no longer contains the text that was indexed.
+ */
+export type MemoryChunkLookup =
+  | {
+      status: "ok" | "stale";
+      id: string;
+      path: string;
+      source: MemorySource;
+      startLine: number;
+      endLine: number;
+      text: string;
+      reason?: string;
+    }
+  | { status: "missing"; id: string };
+
+export type MemoryGraphNeighbor = {
+  entity: string;
+  name: string;
+  /** Relation predicate (e.g. "owns"), or "co_mentioned" for entities sharing a chunk. */
+  relation: string;
+  direction: "out" | "in" | "both";
+  /** Entity this neighbour was reached from; the queried entity at depth 1. */
+  via: string;
+  depth: number;
+  /** Number of chunks supporting the link. */
+  weight: number;
+  chunkIds: string[];
+};
+
+export type MemoryGraphLookup = {
+  entity: string;
+  name?: string;
+  found: boolean;
+  mentions: number;
+  neighbors: MemoryGraphNeighbor[];
+};
+
 export type MemoryEmbeddingProbeResult = {
   ok: boolean;
   error?: string;
@@ -22,7 +65,7 @@ export type MemorySyncProgressUpdate = {
 };
 
 export type MemoryProviderStatus = {
-  backend: "builtin" | "qmd";
+  backend: "builtin" | "qmd" | "remote";
   provider: string;
   model?: string;
   requestedProvider?: string;
@@ -68,12 +111,22 @@ export interface MemorySearchManager {
     from?: number;
     lines?: number;
   }): Promise<{ text: string; path: string }>;
+  getChunk(id: string): Promise<MemoryChunkLookup>;
   status(): MemoryProviderStatus;
   sync?(params?: {
     reason?: string;
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  graphNeighbors?(
+    entity: string,
+    opts?: { depth?: number; limit?: number },
+  ): Promise<MemoryGraphLookup>;
+  exportIndex?(): Promise<MemoryIndexArchive>;
+  importIndex?(
+    archive: MemoryIndexArchive,
+    opts?: { reembed?: boolean },
+  ): Promise<MemoryIndexImportResult>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
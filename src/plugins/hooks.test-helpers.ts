@@ -20,6 +20,7 @@ export function createMockPluginRegistry(
     cliRegistrars: [],
     services: [],
     providers: [],
+    compactionStrategies: [],
     commands: [],
   } as unknown as PluginRegistry;
 }
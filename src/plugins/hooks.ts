@@ -18,6 +18,8 @@ import type {
   PluginHookBeforePromptBuildEvent,
   PluginHookBeforePromptBuildResult,
   PluginHookBeforeCompactionEvent,
+  PluginHookBeforeDeliveryRouteEvent,
+  PluginHookBeforeDeliveryRouteResult,
   PluginHookLlmInputEvent,
   PluginHookLlmOutputEvent,
   PluginHookBeforeResetEvent,
@@ -70,6 +72,8 @@ export type {
   PluginHookMessageReceivedEvent,
   PluginHookMessageSendingEvent,
   PluginHookMessageSendingResult,
+  PluginHookBeforeDeliveryRouteEvent,
+  PluginHookBeforeDeliveryRouteResult,
   PluginHookMessageSentEvent,
   PluginHookToolContext,
   PluginHookBeforeToolCallEvent,
@@ -172,6 +176,17 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     return next;
   };
 
+  const mergeBeforeDeliveryRoute = (
+    acc: PluginHookBeforeDeliveryRouteResult | undefined,
+    next: PluginHookBeforeDeliveryRouteResult,
+  ): PluginHookBeforeDeliveryRouteResult => ({
+    // Higher-priority rewrites win; copies from every handler are kept.
+    target: acc?.target ?? next.target,
+    additionalTargets: [...(acc?.additionalTargets ?? []), ...(next.additionalTargets ?? [])],
+    hold: Boolean(acc?.hold || next.hold),
+    holdReason: acc?.holdReason ?? next.holdReason,
+  });
+
   const handleHookError = (params: {
     hookName: PluginHookName;
     pluginId: string;
@@ -406,6 +421,23 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     );
   }
 
+  /**
+   * Run before_delivery_route hook.
+   * Allows plugins to redirect, copy, or hold an outbound delivery.
+   * Runs sequentially.
+   */
+  async function runBeforeDeliveryRoute(
+    event: PluginHookBeforeDeliveryRouteEvent,
+    ctx: PluginHookMessageContext,
+  ): Promise<PluginHookBeforeDeliveryRouteResult | undefined> {
+    return runModifyingHook<"before_delivery_route", PluginHookBeforeDeliveryRouteResult>(
+      "before_delivery_route",
+      event,
+      ctx,
+      mergeBeforeDeliveryRoute,
+    );
+  }
+
   /**
    * Run message_sent hook.
    * Runs in parallel (fire-and-forget).
@@ -727,6 +759,7 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     // Message hooks
     runMessageReceived,
     runMessageSending,
+    runBeforeDeliveryRoute,
     runMessageSent,
     // Tool hooks
     runBeforeToolCall,
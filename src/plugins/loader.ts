@@ -172,6 +172,7 @@ function createPluginRecord(params: {
     hookNames: [],
     channelIds: [],
     providerIds: [],
+    compactionStrategyIds: [],
     gatewayMethods: [],
     cliCommands: [],
     services: [],
@@ -1,4 +1,5 @@
 import path from "node:path";
+import type { CompactionStrategy } from "../agents/compaction-strategies.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
 import type { ChannelDock } from "../channels/dock.js";
 import type { ChannelPlugin } from "../channels/plugins/types.js";
@@ -75,6 +76,15 @@ export type PluginProviderRegistration = {
   source: string;
 };
 
+// Built-in strategies from agents/compaction-strategies.ts; plugins cannot replace them.
+const BUILTIN_COMPACTION_STRATEGY_IDS = new Set(["summary", "structured-notes"]);
+
+export type PluginCompactionStrategyRegistration = {
+  pluginId: string;
+  strategy: CompactionStrategy;
+  source: string;
+};
+
 export type PluginHookRegistration = {
   pluginId: string;
   entry: HookEntry;
@@ -110,6 +120,7 @@ export type PluginRecord = {
   hookNames: string[];
   channelIds: string[];
   providerIds: string[];
+  compactionStrategyIds: string[];
   gatewayMethods: string[];
   cliCommands: string[];
   services: string[];
@@ -128,6 +139,7 @@ export type PluginRegistry = {
   typedHooks: TypedPluginHookRegistration[];
   channels: PluginChannelRegistration[];
   providers: PluginProviderRegistration[];
+  compactionStrategies: PluginCompactionStrategyRegistration[];
   gatewayHandlers: GatewayRequestHandlers;
   httpHandlers: PluginHttpRegistration[];
   httpRoutes: PluginHttpRouteRegistration[];
@@ -151,6 +163,7 @@ export function createEmptyPluginRegistry(): PluginRegistry {
     typedHooks: [],
     channels: [],
     providers: [],
+    compactionStrategies: [],
     gatewayHandlers: {},
     httpHandlers: [],
     httpRoutes: [],
@@ -386,6 +399,35 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     });
   };
 
+  const registerCompactionStrategy = (record: PluginRecord, strategy: CompactionStrategy) => {
+    const id = typeof strategy?.id === "string" ? strategy.id.trim().toLowerCase() : "";
+    if (!id || typeof strategy.summarize !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "compaction strategy registration missing id or summarize()",
+      });
+      return;
+    }
+    const existing = registry.compactionStrategies.find((entry) => entry.strategy.id === id);
+    if (BUILTIN_COMPACTION_STRATEGY_IDS.has(id) || existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `compaction strategy already registered: ${id} (${existing?.pluginId ?? "core"})`,
+      });
+      return;
+    }
+    record.compactionStrategyIds.push(id);
+    registry.compactionStrategies.push({
+      pluginId: record.id,
+      strategy: { ...strategy, id },
+      source: record.source,
+    });
+  };
+
   const registerCli = (
     record: PluginRecord,
     registrar: OpenClawPluginCliRegistrar,
@@ -493,6 +535,7 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
       registerHttpRoute: (params) => registerHttpRoute(record, params),
       registerChannel: (registration) => registerChannel(record, registration),
       registerProvider: (provider) => registerProvider(record, provider),
+      registerCompactionStrategy: (strategy) => registerCompactionStrategy(record, strategy),
       registerGatewayMethod: (method, handler) => registerGatewayMethod(record, method, handler),
       registerCli: (registrar, opts) => registerCli(record, registrar, opts),
       registerService: (service) => registerService(record, service),
@@ -509,6 +552,7 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     registerTool,
     registerChannel,
     registerProvider,
+    registerCompactionStrategy,
     registerGatewayMethod,
     registerCli,
     registerService,
@@ -2,6 +2,7 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { Command } from "commander";
 import type { AuthProfileCredential, OAuthCredential } from "../agents/auth-profiles/types.js";
+import type { CompactionStrategy } from "../agents/compaction-strategies.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
 import type { ReplyPayload } from "../auto-reply/types.js";
 import type { ChannelDock } from "../channels/dock.js";
@@ -268,6 +269,11 @@ export type OpenClawPluginApi = {
   registerCli: (registrar: OpenClawPluginCliRegistrar, opts?: { commands?: string[] }) => void;
   registerService: (service: OpenClawPluginService) => void;
   registerProvider: (provider: ProviderPlugin) => void;
+  /**
+   * Register a compaction strategy selectable via `compaction.strategy`.
+   * Runs alongside the `before_compaction`/`after_compaction` hooks.
+   */
+  registerCompactionStrategy: (strategy: CompactionStrategy) => void;
   /**
    * Register a custom command that bypasses the LLM agent.
    * Plugin commands are processed before built-in commands and before agent invocation.
@@ -308,6 +314,7 @@ export type PluginHookName =
   | "before_reset"
   | "message_received"
   | "message_sending"
+  | "before_delivery_route"
   | "message_sent"
   | "before_tool_call"
   | "after_tool_call"
@@ -461,6 +468,34 @@ export type PluginHookMessageSendingResult = {
   cancel?: boolean;
 };
 
+// before_delivery_route hook
+export type PluginHookDeliveryRouteTarget = {
+  channel: string;
+  to: string;
+  accountId?: string;
+  threadId?: string | number;
+};
+
+export type PluginHookBeforeDeliveryRouteEvent = {
+  /** Destination resolved by core routing. */
+  target: PluginHookDeliveryRouteTarget;
+  /** Text of all payloads in this delivery, joined with blank lines. */
+  content: string;
+  mediaUrls: string[];
+  sessionKey?: string;
+  agentId?: string;
+};
+
+export type PluginHookBeforeDeliveryRouteResult = {
+  /** Replace fields of the primary destination (e.g. redirect to a review thread). */
+  target?: Partial<PluginHookDeliveryRouteTarget>;
+  /** Extra destinations that receive a copy (e.g. an audit channel). */
+  additionalTargets?: PluginHookDeliveryRouteTarget[];
+  /** Keep the delivery in the queue's held/ directory instead of sending it. */
+  hold?: boolean;
+  holdReason?: string;
+};
+
 // message_sent hook
 export type PluginHookMessageSentEvent = {
   to: string;
@@ -697,6 +732,13 @@ export type PluginHookHandlerMap = {
     event: PluginHookMessageSendingEvent,
     ctx: PluginHookMessageContext,
   ) => Promise<PluginHookMessageSendingResult | void> | PluginHookMessageSendingResult | void;
+  before_delivery_route: (
+    event: PluginHookBeforeDeliveryRouteEvent,
+    ctx: PluginHookMessageContext,
+  ) =>
+    | Promise<PluginHookBeforeDeliveryRouteResult | void>
+    | PluginHookBeforeDeliveryRouteResult
+    | void;
   message_sent: (
     event: PluginHookMessageSentEvent,
     ctx: PluginHookMessageContext,
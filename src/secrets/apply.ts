@@ -18,9 +18,15 @@ import {
   resolveValidatedTargetPathSegments,
 } from "./plan.js";
 import { listKnownSecretEnvVarNames } from "./provider-env-vars.js";
-import { resolveSecretRefValue } from "./resolve.js";
+import { resolveSecretRefValue, type SecretRefResolveCache } from "./resolve.js";
 import { prepareSecretsRuntimeSnapshot } from "./runtime.js";
 import { isNonEmptyString, isRecord, writeTextFileAtomic } from "./shared.js";
+import {
+  readVaultFileSecrets,
+  sealVaultSecrets,
+  serializeVaultFileDocument,
+} from "./vault-file.js";
+import { prepareVaultFileUnlock, resolveVaultFileProvider } from "./vault.js";
 
 type FileSnapshot = {
   existed: boolean;
@@ -41,6 +47,7 @@ type ProjectedState = {
   authStoreByPath: Map<string, Record<string, unknown>>;
   authJsonByPath: Map<string, Record<string, unknown>>;
   envRawByPath: Map<string, string>;
+  vaultWrites: ApplyWrite[];
   changedFiles: Set<string>;
   warnings: string[];
 };
@@ -287,7 +294,17 @@ async function projectPlanState(params: {
   const warnings: string[] = [];
   const scrubbedValues = new Set<string>();
   const providerTargets = new Set<string>();
+  const vaultValuesByProvider = new Map<string, Record<string, string>>();
   const configPath = resolveUserPath(snapshot.path);
+  // Plaintext values targeted at a vault-file ref move into the vault instead of being dropped.
+  const stageVaultValue = (target: SecretsPlanTarget, previous: unknown) => {
+    if (target.ref.source !== "vault-file" || !isNonEmptyString(previous)) {
+      return;
+    }
+    const staged = vaultValuesByProvider.get(target.ref.provider) ?? {};
+    staged[target.ref.id] = previous;
+    vaultValuesByProvider.set(target.ref.provider, staged);
+  };
 
   const providerConfigChanged = applyProviderPlanMutations({
     config: nextConfig,
@@ -305,6 +322,7 @@ async function projectPlanState(params: {
       if (isNonEmptyString(previous)) {
         scrubbedValues.add(previous.trim());
       }
+      stageVaultValue(target, previous);
       const refPathSegments = resolveGoogleChatRefPathSegments(targetPathSegments);
       const wroteRef = setByPathSegments(nextConfig, refPathSegments, target.ref);
       const deletedLegacy = deleteByPathSegments(nextConfig, targetPathSegments);
@@ -318,6 +336,7 @@ async function projectPlanState(params: {
     if (isNonEmptyString(previous)) {
       scrubbedValues.add(previous.trim());
     }
+    stageVaultValue(target, previous);
     const wroteRef = setByPathSegments(nextConfig, targetPathSegments, target.ref);
     if (wroteRef) {
       changedFiles.add(configPath);
@@ -430,7 +449,38 @@ async function projectPlanState(params: {
     }
   }
 
-  const cache = {};
+  const cache: SecretRefResolveCache = {};
+  const vaultWrites: ApplyWrite[] = [];
+  for (const [providerAlias, staged] of vaultValuesByProvider.entries()) {
+    const vault = resolveVaultFileProvider(nextConfig, providerAlias);
+    const { unlock, keyFileToCreate } = await prepareVaultFileUnlock({
+      target: vault,
+      env: params.env,
+    });
+    const current = readVaultFileSecrets(vault.vaultPath, unlock, { allowMissing: true });
+    const next = { ...current, ...staged };
+    // Preflight below resolves against the projected vault contents.
+    cache.vaultSecretsByProvider ??= new Map();
+    cache.vaultSecretsByProvider.set(providerAlias, Promise.resolve(next));
+    if (isDeepStrictEqual(current, next)) {
+      continue;
+    }
+    if (keyFileToCreate) {
+      vaultWrites.push({
+        path: keyFileToCreate.path,
+        content: keyFileToCreate.content,
+        mode: 0o600,
+      });
+      changedFiles.add(keyFileToCreate.path);
+    }
+    vaultWrites.push({
+      path: vault.vaultPath,
+      content: serializeVaultFileDocument(sealVaultSecrets(next, unlock)),
+      mode: 0o600,
+    });
+    changedFiles.add(vault.vaultPath);
+  }
+
   for (const target of params.plan.targets) {
     const resolved = await resolveSecretRefValue(target.ref, {
       config: nextConfig,
@@ -459,6 +509,7 @@ async function projectPlanState(params: {
   await prepareSecretsRuntimeSnapshot({
     config: nextConfig,
     env: params.env,
+    cache,
     loadAuthStore: (agentDir?: string) => {
       const storePath = resolveUserPath(resolveAuthStorePath(agentDir));
       const override = authStoreLookup.get(storePath);
@@ -478,6 +529,7 @@ async function projectPlanState(params: {
     authStoreByPath,
     authJsonByPath,
     envRawByPath,
+    vaultWrites,
     changedFiles,
     warnings,
   };
@@ -550,6 +602,10 @@ export async function runSecretsApply(params: {
 
   capture(projected.configPath);
   const writes: ApplyWrite[] = [];
+  for (const write of projected.vaultWrites) {
+    capture(write.path);
+    writes.push(write);
+  }
   for (const [pathname, value] of projected.authStoreByPath.entries()) {
     capture(pathname);
     writes.push(toJsonWrite(pathname, value));
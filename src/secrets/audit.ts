@@ -16,6 +16,7 @@ import {
   type SecretRefResolveCache,
 } from "./resolve.js";
 import { isNonEmptyString, isRecord } from "./shared.js";
+import { listVaultMigrationCandidates } from "./vault.js";
 
 export type SecretsAuditCode =
   | "PLAINTEXT_FOUND"
@@ -33,6 +34,8 @@ export type SecretsAuditFinding = {
   message: string;
   provider?: string;
   profileId?: string;
+  /** Plaintext value that `secrets apply --to-vault` can move into a vault-file provider. */
+  vaultCandidate?: boolean;
 };
 
 export type SecretsAuditStatus = "clean" | "findings" | "unresolved";
@@ -46,6 +49,7 @@ export type SecretsAuditReport = {
     unresolvedRefCount: number;
     shadowedRefCount: number;
     legacyResidueCount: number;
+    vaultCandidateCount: number;
   };
   findings: SecretsAuditFinding[];
 };
@@ -306,6 +310,25 @@ function collectConfigSecrets(params: {
   }
 }
 
+function markVaultCandidates(params: {
+  config: OpenClawConfig;
+  configPath: string;
+  collector: AuditCollector;
+}): void {
+  const candidatePaths = new Set(
+    listVaultMigrationCandidates(params.config).map((candidate) => candidate.path),
+  );
+  for (const finding of params.collector.findings) {
+    if (
+      finding.code === "PLAINTEXT_FOUND" &&
+      finding.file === params.configPath &&
+      candidatePaths.has(finding.jsonPath)
+    ) {
+      finding.vaultCandidate = true;
+    }
+  }
+}
+
 function collectAuthStorePaths(config: OpenClawConfig, stateDir: string): string[] {
   const paths = new Set<string>();
   // Scope default auth store discovery to the provided stateDir instead of
@@ -633,6 +656,7 @@ function summarizeFindings(findings: SecretsAuditFinding[]): SecretsAuditReport[
     unresolvedRefCount: findings.filter((entry) => entry.code === "REF_UNRESOLVED").length,
     shadowedRefCount: findings.filter((entry) => entry.code === "REF_SHADOWED").length,
     legacyResidueCount: findings.filter((entry) => entry.code === "LEGACY_RESIDUE").length,
+    vaultCandidateCount: findings.filter((entry) => entry.vaultCandidate).length,
   };
 }
 
@@ -668,6 +692,7 @@ export async function runSecretsAudit(
         configPath,
         collector,
       });
+      markVaultCandidates({ config, configPath, collector });
       for (const authStorePath of collectAuthStorePaths(config, stateDir)) {
         collectAuthStoreSecrets({
           authStorePath,
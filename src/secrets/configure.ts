@@ -9,6 +9,7 @@ import { createSecretsConfigIO } from "./config-io.js";
 import { type SecretsApplyPlan } from "./plan.js";
 import { resolveDefaultSecretProviderAlias } from "./ref-contract.js";
 import { isRecord } from "./shared.js";
+import { toVaultSecretId } from "./vault.js";
 
 type ConfigureCandidate = {
   type: "models.providers.apiKey" | "skills.entries.apiKey" | "channels.googlechat.serviceAccount";
@@ -121,6 +122,9 @@ function providerHint(provider: SecretProviderConfig): string {
   if (provider.source === "file") {
     return `file (${provider.mode ?? "json"})`;
   }
+  if (provider.source === "vault-file") {
+    return `vault-file (${provider.keyFile ? "key file" : `passphrase $${provider.passphraseEnv}`})`;
+  }
   return `exec (${provider.jsonOnly === false ? "json+text" : "json"})`;
 }
 
@@ -200,6 +204,9 @@ function toSourceChoices(config: OpenClawConfig): Array<{ value: SecretRefSource
   if (hasSource("exec")) {
     choices.push({ value: "exec", label: "exec" });
   }
+  if (hasSource("vault-file")) {
+    choices.push({ value: "vault-file", label: "vault-file" });
+  }
   return choices;
 }
 
@@ -242,6 +249,7 @@ async function promptProviderSource(initial?: SecretRefSource): Promise<SecretRe
         { value: "env", label: "env" },
         { value: "file", label: "file" },
         { value: "exec", label: "exec" },
+        { value: "vault-file", label: "vault-file (encrypted local vault)" },
       ],
       initialValue: initial,
     }),
@@ -356,6 +364,69 @@ async function promptFileProvider(
   };
 }
 
+async function promptVaultFileProvider(
+  base?: Extract<SecretProviderConfig, { source: "vault-file" }>,
+): Promise<Extract<SecretProviderConfig, { source: "vault-file" }>> {
+  const validateAbsolutePath = (value: string | undefined) => {
+    const trimmed = String(value ?? "").trim();
+    if (!trimmed) {
+      return "Required";
+    }
+    if (!isAbsolutePathValue(trimmed)) {
+      return "Must be an absolute path";
+    }
+    return undefined;
+  };
+  const vaultPath = assertNoCancel(
+    await text({
+      message: "Vault file path (absolute)",
+      initialValue: base?.path ?? "",
+      validate: validateAbsolutePath,
+    }),
+    "Secrets configure cancelled.",
+  );
+  const unlock = assertNoCancel(
+    await select({
+      message: "Unlock with",
+      options: [
+        { value: "keyFile", label: "key file", hint: "generated on first write if missing" },
+        { value: "passphraseEnv", label: "passphrase from env var" },
+      ],
+      initialValue: base?.passphraseEnv ? "passphraseEnv" : "keyFile",
+    }),
+    "Secrets configure cancelled.",
+  );
+  if (unlock === "passphraseEnv") {
+    const envName = assertNoCancel(
+      await text({
+        message: "Passphrase env var",
+        initialValue: base?.passphraseEnv ?? "OPENCLAW_VAULT_PASSPHRASE",
+        validate: (value) =>
+          ENV_NAME_PATTERN.test(String(value ?? "").trim()) ? undefined : "Invalid env name",
+      }),
+      "Secrets configure cancelled.",
+    );
+    return {
+      source: "vault-file",
+      path: String(vaultPath).trim(),
+      passphraseEnv: String(envName).trim(),
+    };
+  }
+  const keyFile = assertNoCancel(
+    await text({
+      message: "Key file path (absolute)",
+      initialValue: base?.keyFile ?? "",
+      validate: validateAbsolutePath,
+    }),
+    "Secrets configure cancelled.",
+  );
+  return {
+    source: "vault-file",
+    path: String(vaultPath).trim(),
+    keyFile: String(keyFile).trim(),
+  };
+}
+
 async function parseArgsInput(rawValue: string): Promise<string[] | undefined> {
   const trimmed = rawValue.trim();
   if (!trimmed) {
@@ -562,6 +633,9 @@ async function promptProviderConfig(
   if (source === "file") {
     return await promptFileProvider(current?.source === "file" ? current : undefined);
   }
+  if (source === "vault-file") {
+    return await promptVaultFileProvider(current?.source === "vault-file" ? current : undefined);
+  }
   return await promptExecProvider(current?.source === "exec" ? current : undefined);
 }
 
@@ -805,6 +879,10 @@ export async function runSecretsConfigureInteractive(
       const id = assertNoCancel(
         await text({
           message: "Secret id",
+          // Plaintext values move into the vault on apply, so suggest an id for them.
+          ...(source === "vault-file"
+            ? { initialValue: toVaultSecretId(candidate.pathSegments) }
+            : {}),
           validate: (value) => (String(value ?? "").trim().length > 0 ? undefined : "Required"),
         }),
         "Secrets configure cancelled.",
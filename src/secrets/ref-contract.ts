@@ -7,6 +7,7 @@ import {
 const FILE_SECRET_REF_SEGMENT_PATTERN = /^(?:[^~]|~0|~1)*$/;
 
 export const SINGLE_VALUE_FILE_REF_ID = "value";
+export const VAULT_FILE_SECRET_REF_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:/-]{0,255}$/;
 
 export type SecretRefDefaultsCarrier = {
   secrets?: {
@@ -33,7 +34,9 @@ export function resolveDefaultSecretProviderAlias(
       ? config.secrets?.defaults?.env
       : source === "file"
         ? config.secrets?.defaults?.file
-        : config.secrets?.defaults?.exec;
+        : source === "exec"
+          ? config.secrets?.defaults?.exec
+          : undefined;
   if (configured?.trim()) {
     return configured.trim();
   }
@@ -64,3 +67,7 @@ export function isValidFileSecretRefId(value: string): boolean {
     .split("/")
     .every((segment) => FILE_SECRET_REF_SEGMENT_PATTERN.test(segment));
 }
+
+export function isValidVaultFileSecretRefId(value: string): boolean {
+  return VAULT_FILE_SECRET_REF_ID_PATTERN.test(value);
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { onDiagnosticEvent, type DiagnosticEventPayload } from "../infra/diagnostic-events.js";
+import { createSecretsRefreshScheduler, listDueSecretRefKeys } from "./refresh.js";
+import type { PreparedSecretsRuntimeSnapshot, SecretRefRuntimeState } from "./runtime.js";
+
+function makeSnapshot(
+  refs: Array<Pick<SecretRefRuntimeState, "key" | "resolvedAt" | "expiresAt">>,
+  sourceConfig: OpenClawConfig = {},
+): PreparedSecretsRuntimeSnapshot {
+  return {
+    sourceConfig,
+    config: {},
+    authStores: [],
+    warnings: [],
+    refs: refs.map((state) => ({
+      ...state,
+      ref: { source: "exec", provider: "vault", id: state.key.split(":")[2] ?? "" },
+      paths: [`models.providers.${state.key}.apiKey`],
+    })),
+    resolvedValues: new Map(),
+  };
+}
+
+describe("secrets refresh scheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refreshes before expiry, or halfway through short lifetimes", () => {
+    const snapshot = makeSnapshot([
+      { key: "exec:vault:long", resolvedAt: 0, expiresAt: 600_000 },
+      { key: "exec:vault:short", resolvedAt: 0, expiresAt: 20_000 },
+      { key: "env:default:STATIC", resolvedAt: 0 },
+    ]);
+    expect(listDueSecretRefKeys(snapshot, 9_999)).toEqual([]);
+    expect(listDueSecretRefKeys(snapshot, 10_000)).toEqual(["exec:vault:short"]);
+    expect(listDueSecretRefKeys(snapshot, 570_000)).toEqual([
+      "exec:vault:long",
+      "exec:vault:short",
+    ]);
+  });
+
+  it("re-resolves due refs on a timer and re-arms from the new snapshot", async () => {
+    let snapshot = makeSnapshot([
+      { key: "exec:vault:token", resolvedAt: 0, expiresAt: 120_000 },
+      { key: "env:default:STATIC", resolvedAt: 0 },
+    ]);
+    const refresh = vi.fn(async (refKeys: string[]) => {
+      snapshot = makeSnapshot([
+        { key: "exec:vault:token", resolvedAt: Date.now(), expiresAt: Date.now() + 120_000 },
+        { key: "env:default:STATIC", resolvedAt: 0 },
+      ]);
+      expect(refKeys).toEqual(["exec:vault:token"]);
+    });
+    const scheduler = createSecretsRefreshScheduler({ getSnapshot: () => snapshot, refresh });
+    scheduler.reschedule();
+    expect(scheduler.getStatus()).toMatchObject({
+      nextRefreshAt: 90_000,
+      refs: [
+        { ref: "exec:vault:token", ageMs: 0, expiresInMs: 120_000, refreshAt: 90_000 },
+        { ref: "env:default:STATIC", ageMs: 0 },
+      ],
+    });
+
+    await vi.advanceTimersByTimeAsync(89_999);
+    expect(refresh).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus()).toMatchObject({ lastRefreshAt: 90_000, nextRefreshAt: 180_000 });
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(200_000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("emits a diagnostic event and retries when a refresh fails", async () => {
+    const snapshot = makeSnapshot([{ key: "exec:vault:token", resolvedAt: 0, expiresAt: 60_000 }], {
+      secrets: { resolution: { refreshLeadSeconds: 10, refreshRetrySeconds: 5 } },
+    });
+    const events: DiagnosticEventPayload[] = [];
+    const unsubscribe = onDiagnosticEvent((evt) => events.push(evt));
+    const onError = vi.fn();
+    const refresh = vi
+      .fn<(refKeys: string[]) => Promise<void>>()
+      .mockRejectedValueOnce(new Error("vault unreachable"))
+      .mockResolvedValue(undefined);
+    const scheduler = createSecretsRefreshScheduler({
+      getSnapshot: () => snapshot,
+      refresh,
+      onError,
+    });
+    scheduler.reschedule();
+
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), ["exec:vault:token"]);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "secrets.refresh.error",
+        refs: ["exec:vault:token"],
+        error: "vault unreachable",
+        retryInMs: 5_000,
+      }),
+    );
+    expect(scheduler.getStatus().lastError).toEqual({
+      message: "vault unreachable",
+      at: 50_000,
+      refs: ["exec:vault:token"],
+      retryAt: 55_000,
+    });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus().lastError).toBeUndefined();
+    scheduler.stop();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,196 @@
+import type { OpenClawConfig } from "../config/config.js";
+import { emitDiagnosticEvent } from "../infra/diagnostic-events.js";
+import type { PreparedSecretsRuntimeSnapshot } from "./runtime.js";
+
+const DEFAULT_REFRESH_LEAD_SECONDS = 30;
+const DEFAULT_REFRESH_RETRY_SECONDS = 30;
+// setTimeout clamps larger delays to 1ms.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export type SecretRefStatus = {
+  ref: string;
+  paths: string[];
+  resolvedAt: number;
+  ageMs: number;
+  expiresAt?: number;
+  expiresInMs?: number;
+  refreshAt?: number;
+};
+
+export type SecretsRefreshStatus = {
+  refs: SecretRefStatus[];
+  nextRefreshAt?: number;
+  lastRefreshAt?: number;
+  lastError?: { message: string; at: number; refs: string[]; retryAt: number };
+};
+
+export type SecretsRefreshScheduler = {
+  /** Re-arms the timer from the active snapshot and clears any pending retry. */
+  reschedule: () => void;
+  stop: () => void;
+  getStatus: () => SecretsRefreshStatus;
+};
+
+function resolveRefreshTimings(config: OpenClawConfig): { leadMs: number; retryMs: number } {
+  const resolution = config.secrets?.resolution;
+  return {
+    leadMs: (resolution?.refreshLeadSeconds ?? DEFAULT_REFRESH_LEAD_SECONDS) * 1000,
+    retryMs: (resolution?.refreshRetrySeconds ?? DEFAULT_REFRESH_RETRY_SECONDS) * 1000,
+  };
+}
+
+function refreshAtFor(expiresAt: number, resolvedAt: number, leadMs: number): number {
+  // Short-lived refs refresh halfway through their lifetime rather than immediately.
+  return Math.max(expiresAt - leadMs, resolvedAt + (expiresAt - resolvedAt) / 2);
+}
+
+/** Ref keys whose refresh time has passed. */
+export function listDueSecretRefKeys(
+  snapshot: PreparedSecretsRuntimeSnapshot,
+  now: number,
+): string[] {
+  const { leadMs } = resolveRefreshTimings(snapshot.sourceConfig);
+  return snapshot.refs
+    .filter(
+      (state) =>
+        state.expiresAt !== undefined &&
+        refreshAtFor(state.expiresAt, state.resolvedAt, leadMs) <= now,
+    )
+    .map((state) => state.key);
+}
+
+export function describeSecretRefStates(
+  snapshot: PreparedSecretsRuntimeSnapshot,
+  now: number,
+): SecretRefStatus[] {
+  const { leadMs } = resolveRefreshTimings(snapshot.sourceConfig);
+  return snapshot.refs.map((state) => ({
+    ref: state.key,
+    paths: [...state.paths],
+    resolvedAt: state.resolvedAt,
+    ageMs: Math.max(0, now - state.resolvedAt),
+    ...(state.expiresAt !== undefined
+      ? {
+          expiresAt: state.expiresAt,
+          expiresInMs: state.expiresAt - now,
+          refreshAt: refreshAtFor(state.expiresAt, state.resolvedAt, leadMs),
+        }
+      : {}),
+  }));
+}
+
+/**
+ * Keeps refs with a TTL fresh: one timer fires at the earliest refresh time,
+ * `refresh` re-resolves the due refs and activates the result. Failures retry
+ * after `secrets.resolution.refreshRetrySeconds` and emit a diagnostic event.
+ */
+export function createSecretsRefreshScheduler(params: {
+  getSnapshot: () => PreparedSecretsRuntimeSnapshot | null;
+  refresh: (refKeys: string[]) => Promise<void>;
+  onError?: (err: unknown, refKeys: string[]) => void;
+  now?: () => number;
+}): SecretsRefreshScheduler {
+  const now = params.now ?? Date.now;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let running = false;
+  let retryAt: number | undefined;
+  let nextRefreshAt: number | undefined;
+  let lastRefreshAt: number | undefined;
+  let lastError: SecretsRefreshStatus["lastError"];
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const arm = () => {
+    clearTimer();
+    nextRefreshAt = undefined;
+    if (stopped || running) {
+      return;
+    }
+    const snapshot = params.getSnapshot();
+    if (!snapshot) {
+      return;
+    }
+    const current = now();
+    let dueAt = retryAt;
+    if (dueAt === undefined) {
+      for (const state of describeSecretRefStates(snapshot, current)) {
+        if (state.refreshAt !== undefined && (dueAt === undefined || state.refreshAt < dueAt)) {
+          dueAt = state.refreshAt;
+        }
+      }
+    }
+    if (dueAt === undefined) {
+      return;
+    }
+    nextRefreshAt = dueAt;
+    timer = setTimeout(
+      () => {
+        timer = null;
+        void run();
+      },
+      Math.min(Math.max(0, dueAt - current), MAX_TIMER_DELAY_MS),
+    );
+    timer.unref?.();
+  };
+
+  const run = async () => {
+    const snapshot = params.getSnapshot();
+    if (stopped || !snapshot) {
+      return;
+    }
+    const refKeys = listDueSecretRefKeys(snapshot, now());
+    if (refKeys.length === 0 && retryAt === undefined) {
+      arm();
+      return;
+    }
+    running = true;
+    try {
+      await params.refresh(refKeys);
+      retryAt = undefined;
+      lastError = undefined;
+      lastRefreshAt = now();
+    } catch (err) {
+      const { retryMs } = resolveRefreshTimings(snapshot.sourceConfig);
+      const message = err instanceof Error ? err.message : String(err);
+      retryAt = now() + retryMs;
+      lastError = { message, at: now(), refs: refKeys, retryAt };
+      emitDiagnosticEvent({
+        type: "secrets.refresh.error",
+        refs: refKeys,
+        error: message,
+        retryInMs: retryMs,
+      });
+      params.onError?.(err, refKeys);
+    } finally {
+      running = false;
+      arm();
+    }
+  };
+
+  return {
+    reschedule: () => {
+      retryAt = undefined;
+      arm();
+    },
+    stop: () => {
+      stopped = true;
+      clearTimer();
+      nextRefreshAt = undefined;
+    },
+    getStatus: () => {
+      const snapshot = params.getSnapshot();
+      return {
+        refs: snapshot ? describeSecretRefStates(snapshot, now()) : [],
+        ...(nextRefreshAt !== undefined ? { nextRefreshAt } : {}),
+        ...(lastRefreshAt !== undefined ? { lastRefreshAt } : {}),
+        ...(lastError ? { lastError: { ...lastError, refs: [...lastError.refs] } } : {}),
+      };
+    },
+  };
+}
@@ -3,7 +3,12 @@ import os from "node:os";
 import path from "node:path";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import type { OpenClawConfig } from "../config/config.js";
-import { resolveSecretRefString, resolveSecretRefValue } from "./resolve.js";
+import {
+  resolveSecretRefString,
+  resolveSecretRefValue,
+  resolveSecretRefValues,
+  type SecretRefResolveCache,
+} from "./resolve.js";
 
 async function writeSecureFile(filePath: string, content: string, mode = 0o600): Promise<void> {
   await fs.mkdir(path.dirname(filePath), { recursive: true });
@@ -112,6 +117,56 @@ describe("secret ref resolver", () => {
     expect(value).toBe("value:openai/api-key");
   });
 
+  it("records exec ttlSeconds per id, falling back to the provider ttl", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-secrets-resolve-exec-ttl-"));
+    cleanupRoots.push(root);
+    const scriptPath = path.join(root, "resolver.mjs");
+    await writeSecureFile(
+      scriptPath,
+      [
+        "#!/usr/bin/env node",
+        "import fs from 'node:fs';",
+        "const req = JSON.parse(fs.readFileSync(0, 'utf8'));",
+        "const values = Object.fromEntries((req.ids ?? []).map((id) => [id, `value:${id}`]));",
+        "process.stdout.write(JSON.stringify({ protocolVersion: 1, values, ttlSeconds: { short: 90, bad: -1 } }));",
+      ].join("\n"),
+      0o700,
+    );
+
+    const cache: SecretRefResolveCache = {};
+    const resolved = await resolveSecretRefValues(
+      [
+        { source: "exec", provider: "execmain", id: "short" },
+        { source: "exec", provider: "execmain", id: "bad" },
+        { source: "exec", provider: "execmain", id: "long" },
+      ],
+      {
+        config: {
+          secrets: {
+            providers: {
+              execmain: {
+                source: "exec",
+                command: scriptPath,
+                passEnv: ["PATH"],
+                ttlSeconds: 3600,
+              },
+            },
+          },
+        },
+        cache,
+      },
+    );
+    expect(resolved.get("exec:execmain:short")).toBe("value:short");
+    expect(Object.fromEntries(cache.ttlSecondsByRefKey ?? [])).toEqual({
+      "exec:execmain:short": 90,
+      "exec:execmain:bad": 3600,
+      "exec:execmain:long": 3600,
+    });
+  });
+
   it("supports non-JSON single-value exec output when jsonOnly is false", async () => {
     if (process.platform === "win32") {
       return;
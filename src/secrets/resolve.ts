@@ -8,6 +8,7 @@ import type {
   SecretProviderConfig,
   SecretRef,
   SecretRefSource,
+  VaultFileSecretProviderConfig,
 } from "../config/types.secrets.js";
 import { inspectPathPermissions, safeStat } from "../security/audit-fs.js";
 import { isPathInside } from "../security/scan-paths.js";
@@ -20,6 +21,7 @@ import {
   secretRefKey,
 } from "./ref-contract.js";
 import { isNonEmptyString, isRecord, normalizePositiveInt } from "./shared.js";
+import { readVaultFileSecrets, type VaultFileUnlock } from "./vault-file.js";
 
 const DEFAULT_PROVIDER_CONCURRENCY = 4;
 const DEFAULT_MAX_REFS_PER_PROVIDER = 512;
@@ -35,6 +37,9 @@ const WINDOWS_UNC_PATH_PATTERN = /^\\\\[^\\]+\\[^\\]+/;
 export type SecretRefResolveCache = {
   resolvedByRefKey?: Map<string, Promise<unknown>>;
   filePayloadByProvider?: Map<string, Promise<unknown>>;
+  vaultSecretsByProvider?: Map<string, Promise<Record<string, string>>>;
+  /** Filled by resolution: refs whose provider reported a lifetime. */
+  ttlSecondsByRefKey?: Map<string, number>;
 };
 
 type ResolveSecretRefOptions = {
@@ -51,6 +56,11 @@ type ResolutionLimits = {
 
 type ProviderResolutionOutput = Map<string, unknown>;
 
+type ProviderResolution = {
+  values: ProviderResolutionOutput;
+  ttlSecondsById?: Map<string, number>;
+};
+
 function isAbsolutePathname(value: string): boolean {
   return (
     path.isAbsolute(value) ||
@@ -300,6 +310,76 @@ async function resolveFileRefs(params: {
   return resolved;
 }
 
+/** Loads the key material for a vault-file provider (key file or passphrase env var). */
+export async function resolveVaultFileUnlock(params: {
+  providerName: string;
+  providerConfig: VaultFileSecretProviderConfig;
+  env?: NodeJS.ProcessEnv;
+}): Promise<VaultFileUnlock> {
+  if (params.providerConfig.keyFile) {
+    const keyFilePath = await assertSecurePath({
+      targetPath: resolveUserPath(params.providerConfig.keyFile),
+      label: `secrets.providers.${params.providerName}.keyFile`,
+    });
+    return { keyFile: await fs.readFile(keyFilePath) };
+  }
+  const envName = params.providerConfig.passphraseEnv;
+  if (!envName) {
+    throw new Error(`Vault file provider "${params.providerName}" needs keyFile or passphraseEnv.`);
+  }
+  const passphrase = params.env?.[envName] ?? process.env[envName];
+  if (!isNonEmptyString(passphrase)) {
+    throw new Error(`Vault passphrase environment variable "${envName}" is missing or empty.`);
+  }
+  return { passphrase };
+}
+
+async function readVaultFileProviderSecrets(params: {
+  providerName: string;
+  providerConfig: VaultFileSecretProviderConfig;
+  env: NodeJS.ProcessEnv;
+  cache?: SecretRefResolveCache;
+}): Promise<Record<string, string>> {
+  const cacheKey = params.providerName;
+  const cache = params.cache;
+  if (cache?.vaultSecretsByProvider?.has(cacheKey)) {
+    return await (cache.vaultSecretsByProvider.get(cacheKey) as Promise<Record<string, string>>);
+  }
+  const readPromise = (async () => {
+    // The payload is encrypted, so only ownership and write access matter here.
+    const vaultPath = await assertSecurePath({
+      targetPath: resolveUserPath(params.providerConfig.path),
+      label: `secrets.providers.${params.providerName}.path`,
+      allowReadableByOthers: true,
+    });
+    const unlock = await resolveVaultFileUnlock(params);
+    return readVaultFileSecrets(vaultPath, unlock);
+  })();
+  if (cache) {
+    cache.vaultSecretsByProvider ??= new Map();
+    cache.vaultSecretsByProvider.set(cacheKey, readPromise);
+  }
+  return await readPromise;
+}
+
+async function resolveVaultFileRefs(params: {
+  refs: SecretRef[];
+  providerName: string;
+  providerConfig: VaultFileSecretProviderConfig;
+  env: NodeJS.ProcessEnv;
+  cache?: SecretRefResolveCache;
+}): Promise<ProviderResolutionOutput> {
+  const secrets = await readVaultFileProviderSecrets(params);
+  const resolved = new Map<string, unknown>();
+  for (const ref of params.refs) {
+    if (!Object.prototype.hasOwnProperty.call(secrets, ref.id)) {
+      throw new Error(`Vault file provider "${params.providerName}" has no secret "${ref.id}".`);
+    }
+    resolved.set(ref.id, secrets[ref.id]);
+  }
+  return resolved;
+}
+
 type ExecRunResult = {
   stdout: string;
   stderr: string;
@@ -414,7 +494,7 @@ function parseExecValues(params: {
   ids: string[];
   stdout: string;
   jsonOnly: boolean;
-}): Record<string, unknown> {
+}): { values: Record<string, unknown>; ttlSeconds: Record<string, number> } {
   const trimmed = params.stdout.trim();
   if (!trimmed) {
     throw new Error(`Exec provider "${params.providerName}" returned empty stdout.`);
@@ -425,7 +505,7 @@ function parseExecValues(params: {
     try {
       parsed = JSON.parse(trimmed) as unknown;
     } catch {
-      return { [params.ids[0]]: trimmed };
+      return { values: { [params.ids[0]]: trimmed }, ttlSeconds: {} };
     }
   } else {
     try {
@@ -437,7 +517,7 @@ function parseExecValues(params: {
 
   if (!isRecord(parsed)) {
     if (!params.jsonOnly && params.ids.length === 1 && typeof parsed === "string") {
-      return { [params.ids[0]]: parsed };
+      return { values: { [params.ids[0]]: parsed }, ttlSeconds: {} };
     }
     throw new Error(`Exec provider "${params.providerName}" response must be an object.`);
   }
@@ -449,7 +529,9 @@ function parseExecValues(params: {
     throw new Error(`Exec provider "${params.providerName}" response missing "values".`);
   }
   const responseErrors = isRecord(parsed.errors) ? parsed.errors : null;
+  const responseTtls = isRecord(parsed.ttlSeconds) ? parsed.ttlSeconds : null;
   const out: Record<string, unknown> = {};
+  const ttlSeconds: Record<string, number> = {};
   for (const id of params.ids) {
     if (responseErrors && id in responseErrors) {
       const entry = responseErrors[id];
@@ -464,8 +546,12 @@ function parseExecValues(params: {
       throw new Error(`Exec provider "${params.providerName}" response missing id "${id}".`);
     }
     out[id] = responseValues[id];
+    const ttl = responseTtls?.[id];
+    if (typeof ttl === "number" && Number.isFinite(ttl) && ttl > 0) {
+      ttlSeconds[id] = ttl;
+    }
   }
-  return out;
+  return { values: out, ttlSeconds };
 }
 
 async function resolveExecRefs(params: {
@@ -474,7 +560,7 @@ async function resolveExecRefs(params: {
   providerConfig: ExecSecretProviderConfig;
   env: NodeJS.ProcessEnv;
   limits: ResolutionLimits;
-}): Promise<ProviderResolutionOutput> {
+}): Promise<ProviderResolution> {
   const ids = [...new Set(params.refs.map((ref) => ref.id))];
   if (ids.length > params.limits.maxRefsPerProvider) {
     throw new Error(
@@ -550,17 +636,22 @@ async function resolveExecRefs(params: {
     );
   }
 
-  const values = parseExecValues({
+  const parsed = parseExecValues({
     providerName: params.providerName,
     ids,
     stdout: result.stdout,
     jsonOnly,
   });
   const resolved = new Map<string, unknown>();
+  const ttlSecondsById = new Map<string, number>();
   for (const id of ids) {
-    resolved.set(id, values[id]);
+    resolved.set(id, parsed.values[id]);
+    const ttl = parsed.ttlSeconds[id] ?? params.providerConfig.ttlSeconds;
+    if (ttl !== undefined) {
+      ttlSecondsById.set(id, ttl);
+    }
   }
-  return resolved;
+  return { values: resolved, ttlSecondsById };
 }
 
 async function resolveProviderRefs(params: {
@@ -570,22 +661,24 @@ async function resolveProviderRefs(params: {
   providerConfig: SecretProviderConfig;
   options: ResolveSecretRefOptions;
   limits: ResolutionLimits;
-}): Promise<ProviderResolutionOutput> {
+}): Promise<ProviderResolution> {
   if (params.providerConfig.source === "env") {
-    return await resolveEnvRefs({
+    const values = await resolveEnvRefs({
       refs: params.refs,
       providerName: params.providerName,
       providerConfig: params.providerConfig,
       env: params.options.env ?? process.env,
     });
+    return { values };
   }
   if (params.providerConfig.source === "file") {
-    return await resolveFileRefs({
+    const values = await resolveFileRefs({
       refs: params.refs,
       providerName: params.providerName,
       providerConfig: params.providerConfig,
       cache: params.options.cache,
     });
+    return { values };
   }
   if (params.providerConfig.source === "exec") {
     return await resolveExecRefs({
@@ -596,6 +689,16 @@ async function resolveProviderRefs(params: {
       limits: params.limits,
     });
   }
+  if (params.providerConfig.source === "vault-file") {
+    const values = await resolveVaultFileRefs({
+      refs: params.refs,
+      providerName: params.providerName,
+      providerConfig: params.providerConfig,
+      env: params.options.env ?? process.env,
+      cache: params.options.cache,
+    });
+    return { values };
+  }
   throw new Error(
     `Unsupported secret provider source "${String((params.providerConfig as { source?: unknown }).source)}".`,
   );
@@ -633,14 +736,14 @@ export async function resolveSecretRefValues(
   }
 
   const tasks = [...grouped.values()].map(
-    (group) => async (): Promise<{ group: typeof group; values: ProviderResolutionOutput }> => {
+    (group) => async (): Promise<{ group: typeof group; resolution: ProviderResolution }> => {
       if (group.refs.length > limits.maxRefsPerProvider) {
         throw new Error(
           `Secret provider "${group.providerName}" exceeded maxRefsPerProvider (${limits.maxRefsPerProvider}).`,
         );
       }
       const providerConfig = resolveConfiguredProvider(group.refs[0], options.config);
-      const values = await resolveProviderRefs({
+      const resolution = await resolveProviderRefs({
         refs: group.refs,
         source: group.source,
         providerName: group.providerName,
@@ -648,7 +751,7 @@ export async function resolveSecretRefValues(
         options,
         limits,
       });
-      return { group, values };
+      return { group, resolution };
     },
   );
 
@@ -664,12 +767,17 @@ export async function resolveSecretRefValues(
   const resolved = new Map<string, unknown>();
   for (const result of taskResults.results) {
     for (const ref of result.group.refs) {
-      if (!result.values.has(ref.id)) {
+      if (!result.resolution.values.has(ref.id)) {
         throw new Error(
           `Secret provider "${result.group.providerName}" did not return id "${ref.id}".`,
         );
       }
-      resolved.set(secretRefKey(ref), result.values.get(ref.id));
+      resolved.set(secretRefKey(ref), result.resolution.values.get(ref.id));
+      const ttl = result.resolution.ttlSecondsById?.get(ref.id);
+      if (ttl !== undefined && options.cache) {
+        options.cache.ttlSecondsByRefKey ??= new Map();
+        options.cache.ttlSecondsByRefKey.set(secretRefKey(ref), ttl);
+      }
     }
   }
   return resolved;
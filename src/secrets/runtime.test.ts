@@ -267,4 +267,61 @@ describe("secrets runtime snapshot", () => {
       await fs.rm(root, { recursive: true, force: true });
     }
   });
+
+  it("tracks ref expiry and re-resolves only refreshed refs when reusing a snapshot", async () => {
+    const config: OpenClawConfig = {
+      models: {
+        providers: {
+          openai: {
+            baseUrl: "https://api.openai.com/v1",
+            apiKey: { source: "env", provider: "default", id: "OPENAI_API_KEY" },
+            models: [],
+          },
+        },
+      },
+      skills: {
+        entries: {
+          "review-pr": {
+            enabled: true,
+            apiKey: { source: "env", provider: "default", id: "REVIEW_SKILL_API_KEY" },
+          },
+        },
+      },
+    };
+    const loadAuthStore = () => ({ version: 1, profiles: {} });
+
+    const first = await prepareSecretsRuntimeSnapshot({
+      config,
+      env: { OPENAI_API_KEY: "sk-old", REVIEW_SKILL_API_KEY: "sk-skill-old" },
+      agentDirs: ["/tmp/openclaw-agent-main"],
+      loadAuthStore,
+      cache: { ttlSecondsByRefKey: new Map([["env:default:OPENAI_API_KEY", 60]]) },
+      now: 1_000,
+    });
+    expect(first.refs).toEqual([
+      {
+        key: "env:default:OPENAI_API_KEY",
+        ref: { source: "env", provider: "default", id: "OPENAI_API_KEY" },
+        paths: ["models.providers.openai.apiKey"],
+        resolvedAt: 1_000,
+        expiresAt: 61_000,
+      },
+      expect.objectContaining({ key: "env:default:REVIEW_SKILL_API_KEY", resolvedAt: 1_000 }),
+    ]);
+
+    const refreshed = await prepareSecretsRuntimeSnapshot({
+      config: first.sourceConfig,
+      env: { OPENAI_API_KEY: "sk-new", REVIEW_SKILL_API_KEY: "sk-skill-new" },
+      agentDirs: ["/tmp/openclaw-agent-main"],
+      loadAuthStore,
+      reuse: { snapshot: first, refreshKeys: new Set(["env:default:OPENAI_API_KEY"]) },
+      now: 40_000,
+    });
+    expect(refreshed.config.models?.providers?.openai?.apiKey).toBe("sk-new");
+    expect(refreshed.config.skills?.entries?.["review-pr"]?.apiKey).toBe("sk-skill-old");
+    expect(refreshed.refs.map((state) => [state.key, state.resolvedAt])).toEqual([
+      ["env:default:OPENAI_API_KEY", 40_000],
+      ["env:default:REVIEW_SKILL_API_KEY", 1_000],
+    ]);
+  });
 });
@@ -25,11 +25,23 @@ export type SecretResolverWarning = {
   message: string;
 };
 
+/** Resolution bookkeeping for one ref (shared by every path that uses it). */
+export type SecretRefRuntimeState = {
+  key: string;
+  ref: SecretRef;
+  paths: string[];
+  resolvedAt: number;
+  expiresAt?: number;
+};
+
 export type PreparedSecretsRuntimeSnapshot = {
   sourceConfig: OpenClawConfig;
   config: OpenClawConfig;
   authStores: Array<{ agentDir: string; store: AuthProfileStore }>;
   warnings: SecretResolverWarning[];
+  refs: SecretRefRuntimeState[];
+  /** Resolved values by ref key, so a refresh can keep refs that are still fresh. */
+  resolvedValues: Map<string, unknown>;
 };
 
 type ProviderLike = {
@@ -86,6 +98,8 @@ function cloneSnapshot(snapshot: PreparedSecretsRuntimeSnapshot): PreparedSecret
       store: structuredClone(entry.store),
     })),
     warnings: snapshot.warnings.map((warning) => ({ ...warning })),
+    refs: snapshot.refs.map((state) => ({ ...state, paths: [...state.paths] })),
+    resolvedValues: structuredClone(snapshot.resolvedValues),
   };
 }
 
@@ -341,6 +355,37 @@ function applyAssignments(params: {
   }
 }
 
+function buildRefStates(params: {
+  assignments: SecretAssignment[];
+  resolvedAt: number;
+  ttlSecondsByRefKey: Map<string, number> | undefined;
+  previous: Map<string, SecretRefRuntimeState>;
+}): SecretRefRuntimeState[] {
+  const states = new Map<string, SecretRefRuntimeState>();
+  for (const assignment of params.assignments) {
+    const key = secretRefKey(assignment.ref);
+    const existing = states.get(key);
+    if (existing) {
+      existing.paths.push(assignment.path);
+      continue;
+    }
+    const previous = params.previous.get(key);
+    if (previous) {
+      states.set(key, { ...previous, ref: assignment.ref, paths: [assignment.path] });
+      continue;
+    }
+    const ttlSeconds = params.ttlSecondsByRefKey?.get(key);
+    states.set(key, {
+      key,
+      ref: assignment.ref,
+      paths: [assignment.path],
+      resolvedAt: params.resolvedAt,
+      ...(ttlSeconds !== undefined ? { expiresAt: params.resolvedAt + ttlSeconds * 1000 } : {}),
+    });
+  }
+  return [...states.values()];
+}
+
 function collectCandidateAgentDirs(config: OpenClawConfig): string[] {
   const dirs = new Set<string>();
   dirs.add(resolveUserPath(resolveOpenClawAgentDir()));
@@ -355,13 +400,20 @@ export async function prepareSecretsRuntimeSnapshot(params: {
   env?: NodeJS.ProcessEnv;
   agentDirs?: string[];
   loadAuthStore?: (agentDir?: string) => AuthProfileStore;
+  cache?: SecretRefResolveCache;
+  /**
+   * Keep values from a previous snapshot instead of resolving them again,
+   * except for the ref keys listed in `refreshKeys`.
+   */
+  reuse?: { snapshot: PreparedSecretsRuntimeSnapshot; refreshKeys: ReadonlySet<string> };
+  now?: number;
 }): Promise<PreparedSecretsRuntimeSnapshot> {
   const sourceConfig = structuredClone(params.config);
   const resolvedConfig = structuredClone(params.config);
   const context: ResolverContext = {
     sourceConfig,
     env: params.env ?? process.env,
-    cache: {},
+    cache: params.cache ?? {},
     warnings: [],
     assignments: [],
   };
@@ -387,24 +439,52 @@ export async function prepareSecretsRuntimeSnapshot(params: {
     authStores.push({ agentDir, store });
   }
 
+  const resolvedAt = params.now ?? Date.now();
+  const reusedStates = new Map<string, SecretRefRuntimeState>();
+  const resolved = new Map<string, unknown>();
+  if (params.reuse) {
+    const previousStates = new Map(params.reuse.snapshot.refs.map((state) => [state.key, state]));
+    for (const [key, value] of params.reuse.snapshot.resolvedValues) {
+      const previous = previousStates.get(key);
+      if (previous && !params.reuse.refreshKeys.has(key)) {
+        reusedStates.set(key, previous);
+        resolved.set(key, value);
+      }
+    }
+  }
+
   if (context.assignments.length > 0) {
-    const refs = context.assignments.map((assignment) => assignment.ref);
-    const resolved = await resolveSecretRefValues(refs, {
+    const refs = context.assignments
+      .map((assignment) => assignment.ref)
+      .filter((ref) => !resolved.has(secretRefKey(ref)));
+    const fresh = await resolveSecretRefValues(refs, {
       config: sourceConfig,
       env: context.env,
       cache: context.cache,
     });
+    for (const [key, value] of fresh) {
+      resolved.set(key, value);
+    }
     applyAssignments({
       assignments: context.assignments,
       resolved,
     });
   }
 
+  const refs = buildRefStates({
+    assignments: context.assignments,
+    resolvedAt,
+    ttlSecondsByRefKey: context.cache.ttlSecondsByRefKey,
+    previous: reusedStates,
+  });
+  const usedKeys = new Set(refs.map((state) => state.key));
   return {
     sourceConfig,
     config: resolvedConfig,
     authStores,
     warnings: context.warnings,
+    refs,
+    resolvedValues: new Map([...resolved].filter(([key]) => usedKeys.has(key))),
   };
 }
 
@@ -0,0 +1,176 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { isRecord, writeTextFileAtomic } from "./shared.js";
+
+export type VaultFileUnlock = { keyFile: Buffer } | { passphrase: string };
+
+type VaultFileKdf =
+  | { name: "scrypt"; salt: string; N: number; r: number; p: number }
+  | { name: "hkdf-sha256"; salt: string };
+
+export type VaultFileDocument = {
+  version: 1;
+  cipher: "aes-256-gcm";
+  kdf: VaultFileKdf;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+const VAULT_FILE_AAD = Buffer.from("openclaw-vault-file:v1", "utf8");
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 } as const;
+const SCRYPT_MAX_MEM = 64 * 1024 * 1024;
+const MIN_KEY_FILE_BYTES = 16;
+
+function normalizeKeyFileBytes(keyFile: Buffer): Buffer {
+  // Editors like to append a newline to key files; ignore it so the key stays stable.
+  let end = keyFile.byteLength;
+  while (end > 0 && (keyFile[end - 1] === 0x0a || keyFile[end - 1] === 0x0d)) {
+    end -= 1;
+  }
+  const trimmed = keyFile.subarray(0, end);
+  if (trimmed.byteLength < MIN_KEY_FILE_BYTES) {
+    throw new Error(`Vault key file must contain at least ${MIN_KEY_FILE_BYTES} bytes.`);
+  }
+  return trimmed;
+}
+
+function deriveVaultKey(unlock: VaultFileUnlock, kdf: VaultFileKdf): Buffer {
+  const salt = Buffer.from(kdf.salt, "base64");
+  if ("keyFile" in unlock) {
+    if (kdf.name !== "hkdf-sha256") {
+      throw new Error("Vault file is passphrase-protected but a key file was provided.");
+    }
+    return Buffer.from(
+      crypto.hkdfSync("sha256", normalizeKeyFileBytes(unlock.keyFile), salt, VAULT_FILE_AAD, 32),
+    );
+  }
+  if (kdf.name !== "scrypt") {
+    throw new Error("Vault file is key-file-protected but a passphrase was provided.");
+  }
+  return crypto.scryptSync(unlock.passphrase.normalize("NFKC"), salt, 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: SCRYPT_MAX_MEM,
+  });
+}
+
+/** Encrypts `secrets` under a fresh salt and IV. */
+export function sealVaultSecrets(
+  secrets: Record<string, string>,
+  unlock: VaultFileUnlock,
+): VaultFileDocument {
+  const salt = crypto.randomBytes(16).toString("base64");
+  const kdf: VaultFileKdf =
+    "keyFile" in unlock
+      ? { name: "hkdf-sha256", salt }
+      : { name: "scrypt", salt, ...SCRYPT_PARAMS };
+  const key = deriveVaultKey(unlock, kdf);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(VAULT_FILE_AAD);
+  const plaintext = Buffer.from(JSON.stringify({ secrets }), "utf8");
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    version: 1,
+    cipher: "aes-256-gcm",
+    kdf,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function openVaultDocument(
+  document: VaultFileDocument,
+  unlock: VaultFileUnlock,
+): Record<string, string> {
+  const key = deriveVaultKey(unlock, document.kdf);
+  let plaintext: Buffer;
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(document.iv, "base64"),
+    );
+    decipher.setAAD(VAULT_FILE_AAD);
+    decipher.setAuthTag(Buffer.from(document.tag, "base64"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(document.data, "base64")),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error("Vault file could not be decrypted (wrong key or modified file).");
+  }
+  const parsed = JSON.parse(plaintext.toString("utf8")) as unknown;
+  if (!isRecord(parsed) || !isRecord(parsed.secrets)) {
+    throw new Error("Vault file payload is malformed.");
+  }
+  const secrets: Record<string, string> = {};
+  for (const [id, value] of Object.entries(parsed.secrets)) {
+    if (typeof value === "string") {
+      secrets[id] = value;
+    }
+  }
+  return secrets;
+}
+
+export function parseVaultFileDocument(raw: string): VaultFileDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    throw new Error("Vault file is not valid JSON.");
+  }
+  const kdf = isRecord(parsed) ? parsed.kdf : undefined;
+  const kdfOk =
+    isRecord(kdf) &&
+    typeof kdf.salt === "string" &&
+    (kdf.name === "hkdf-sha256" ||
+      (kdf.name === "scrypt" &&
+        typeof kdf.N === "number" &&
+        typeof kdf.r === "number" &&
+        typeof kdf.p === "number"));
+  if (
+    !isRecord(parsed) ||
+    parsed.version !== 1 ||
+    parsed.cipher !== "aes-256-gcm" ||
+    !kdfOk ||
+    typeof parsed.iv !== "string" ||
+    typeof parsed.tag !== "string" ||
+    typeof parsed.data !== "string"
+  ) {
+    throw new Error("Vault file has an unsupported format.");
+  }
+  return parsed as VaultFileDocument;
+}
+
+export function serializeVaultFileDocument(document: VaultFileDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/** Reads and decrypts a vault file. A missing file reads as empty when `allowMissing` is set. */
+export function readVaultFileSecrets(
+  pathname: string,
+  unlock: VaultFileUnlock,
+  options?: { allowMissing?: boolean },
+): Record<string, string> {
+  if (options?.allowMissing && !fs.existsSync(pathname)) {
+    return {};
+  }
+  return openVaultDocument(parseVaultFileDocument(fs.readFileSync(pathname, "utf8")), unlock);
+}
+
+export function writeVaultFileSecrets(
+  pathname: string,
+  secrets: Record<string, string>,
+  unlock: VaultFileUnlock,
+): void {
+  writeTextFileAtomic(pathname, serializeVaultFileDocument(sealVaultSecrets(secrets, unlock)));
+}
+
+/** Random key file contents (base64 text, so it survives copy/paste). */
+export function generateVaultKeyFileContent(): string {
+  return `${crypto.randomBytes(32).toString("base64")}\n`;
+}
@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { runSecretsApply } from "./apply.js";
+import { runSecretsAudit } from "./audit.js";
+import { openVaultDocument, readVaultFileSecrets, sealVaultSecrets } from "./vault-file.js";
+import {
+  buildVaultMigrationPlan,
+  runSecretsVaultGet,
+  runSecretsVaultRotate,
+  runSecretsVaultSet,
+} from "./vault.js";
+
+describe("vault-file format", () => {
+  it("round-trips secrets and rejects the wrong key or a modified file", () => {
+    const document = sealVaultSecrets({ "openai/api-key": "sk-vault" }, { passphrase: "hunter22" });
+    expect(JSON.stringify(document)).not.toContain("sk-vault");
+    expect(openVaultDocument(document, { passphrase: "hunter22" })).toEqual({
+      "openai/api-key": "sk-vault",
+    });
+    expect(() => openVaultDocument(document, { passphrase: "wrong" })).toThrow(
+      /could not be decrypted/,
+    );
+    const tampered = { ...document, data: Buffer.from("x").toString("base64") };
+    expect(() => openVaultDocument(tampered, { passphrase: "hunter22" })).toThrow(
+      /could not be decrypted/,
+    );
+    expect(() => openVaultDocument(document, { keyFile: Buffer.alloc(32, 1) })).toThrow(
+      /passphrase-protected/,
+    );
+  });
+});
+
+describe("secrets vault", () => {
+  let rootDir = "";
+  let stateDir = "";
+  let configPath = "";
+  let vaultPath = "";
+  let keyFilePath = "";
+  let envPath = "";
+  let env: NodeJS.ProcessEnv;
+
+  const writeConfig = async (config: Record<string, unknown>) => {
+    await fs.writeFile(configPath, `${JSON.stringify(config, null, 2)}\n`, "utf8");
+  };
+  const readConfig = async () =>
+    JSON.parse(await fs.readFile(configPath, "utf8")) as OpenClawConfig;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-secrets-vault-"));
+    stateDir = path.join(rootDir, ".openclaw");
+    configPath = path.join(stateDir, "openclaw.json");
+    vaultPath = path.join(stateDir, "vault.json");
+    keyFilePath = path.join(stateDir, "vault.key");
+    envPath = path.join(stateDir, ".env");
+    env = {
+      OPENCLAW_STATE_DIR: stateDir,
+      OPENCLAW_CONFIG_PATH: configPath,
+      VAULT_PASSPHRASE: "correct horse battery staple",
+    };
+    await fs.mkdir(stateDir, { recursive: true });
+    await writeConfig({
+      secrets: {
+        providers: {
+          local: { source: "vault-file", path: vaultPath, keyFile: keyFilePath },
+        },
+      },
+      models: {
+        providers: {
+          openai: {
+            baseUrl: "https://api.openai.com/v1",
+            api: "openai-completions",
+            apiKey: "sk-openai-plaintext",
+            models: [{ id: "gpt-5", name: "gpt-5" }],
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("creates the vault and key file on first set, then reads the secret back", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    const first = await runSecretsVaultSet({ id: "slack/bot-token", value: "xoxb-1", env });
+    expect(first).toMatchObject({ provider: "local", created: true, keyFile: keyFilePath });
+    expect((await fs.stat(keyFilePath)).mode & 0o777).toBe(0o600);
+    expect(await fs.readFile(vaultPath, "utf8")).not.toContain("xoxb-1");
+
+    const second = await runSecretsVaultSet({ id: "slack/bot-token", value: "xoxb-2", env });
+    expect(second.created).toBe(false);
+    expect(second.keyFile).toBeUndefined();
+    await expect(runSecretsVaultGet({ id: "slack/bot-token", env })).resolves.toEqual({
+      provider: "local",
+      id: "slack/bot-token",
+      value: "xoxb-2",
+    });
+    await expect(runSecretsVaultGet({ id: "missing", env })).rejects.toThrow(
+      'Vault file provider "local" has no secret "missing".',
+    );
+  });
+
+  it("rotates the vault onto a passphrase and updates the provider config", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    await runSecretsVaultSet({ id: "a", value: "one", env });
+    const result = await runSecretsVaultRotate({ newPassphraseEnv: "VAULT_PASSPHRASE", env });
+    expect(result).toMatchObject({ provider: "local", secretCount: 1, configUpdated: true });
+    expect((await readConfig()).secrets?.providers?.local).toEqual({
+      source: "vault-file",
+      path: vaultPath,
+      passphraseEnv: "VAULT_PASSPHRASE",
+    });
+    expect(readVaultFileSecrets(vaultPath, { passphrase: "correct horse battery staple" })).toEqual(
+      { a: "one" },
+    );
+    await expect(runSecretsVaultGet({ id: "a", env })).resolves.toMatchObject({ value: "one" });
+  });
+
+  it("flags plaintext config secrets and moves them into the vault on apply", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    await fs.writeFile(envPath, "OPENAI_API_KEY=sk-openai-plaintext\nUNRELATED=value\n", "utf8");
+
+    const report = await runSecretsAudit({ env });
+    expect(report.summary.vaultCandidateCount).toBe(1);
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({
+        code: "PLAINTEXT_FOUND",
+        jsonPath: "models.providers.openai.apiKey",
+        vaultCandidate: true,
+      }),
+    );
+
+    const plan = buildVaultMigrationPlan({ config: await readConfig() });
+    expect(plan.targets).toEqual([
+      expect.objectContaining({
+        path: "models.providers.openai.apiKey",
+        ref: { source: "vault-file", provider: "local", id: "models/providers/openai/apiKey" },
+      }),
+    ]);
+
+    const dryRun = await runSecretsApply({ plan, env, write: false });
+    expect(dryRun.changedFiles).toEqual(
+      expect.arrayContaining([configPath, vaultPath, keyFilePath]),
+    );
+    await expect(fs.stat(vaultPath)).rejects.toThrow();
+
+    await runSecretsApply({ plan, env, write: true });
+    expect((await readConfig()).models?.providers?.openai?.apiKey).toEqual({
+      source: "vault-file",
+      provider: "local",
+      id: "models/providers/openai/apiKey",
+    });
+    await expect(
+      runSecretsVaultGet({ id: "models/providers/openai/apiKey", env }),
+    ).resolves.toMatchObject({ value: "sk-openai-plaintext" });
+    expect(await fs.readFile(envPath, "utf8")).toBe("UNRELATED=value\n");
+
+    const after = await runSecretsAudit({ env });
+    expect(after.summary).toMatchObject({ plaintextCount: 0, unresolvedRefCount: 0 });
+  });
+});
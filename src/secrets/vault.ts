@@ -0,0 +1,356 @@
+import fs from "node:fs";
+import type { OpenClawConfig } from "../config/config.js";
+import { coerceSecretRef, type VaultFileSecretProviderConfig } from "../config/types.secrets.js";
+import { resolveUserPath } from "../utils.js";
+import { createSecretsConfigIO } from "./config-io.js";
+import type { SecretsApplyPlan, SecretsPlanTarget } from "./plan.js";
+import { isValidVaultFileSecretRefId } from "./ref-contract.js";
+import { resolveSecretRefString, resolveVaultFileUnlock } from "./resolve.js";
+import { isNonEmptyString, isRecord, writeTextFileAtomic } from "./shared.js";
+import {
+  generateVaultKeyFileContent,
+  readVaultFileSecrets,
+  type VaultFileUnlock,
+  writeVaultFileSecrets,
+} from "./vault-file.js";
+
+export type VaultFileProviderTarget = {
+  alias: string;
+  providerConfig: VaultFileSecretProviderConfig;
+  vaultPath: string;
+};
+
+export type VaultMigrationCandidate = Omit<SecretsPlanTarget, "ref"> & {
+  pathSegments: string[];
+  /** Suggested vault secret id, derived from the config path. */
+  id: string;
+};
+
+const ENV_NAME_PATTERN = /^[A-Z][A-Z0-9_]{0,127}$/;
+
+/** Picks the named vault-file provider, or the first one configured. */
+export function resolveVaultFileProvider(
+  config: OpenClawConfig,
+  alias?: string,
+): VaultFileProviderTarget {
+  const providers = config.secrets?.providers ?? {};
+  const wanted = alias?.trim();
+  const entry = wanted
+    ? ([wanted, providers[wanted]] as const)
+    : Object.entries(providers).find(([, provider]) => provider?.source === "vault-file");
+  if (!entry || !entry[1]) {
+    throw new Error(
+      wanted
+        ? `Secret provider "${wanted}" is not configured.`
+        : 'No vault-file secret provider is configured (add one under secrets.providers with source "vault-file").',
+    );
+  }
+  const [providerAlias, providerConfig] = entry;
+  if (providerConfig.source !== "vault-file") {
+    throw new Error(
+      `Secret provider "${providerAlias}" has source "${providerConfig.source}", not "vault-file".`,
+    );
+  }
+  return {
+    alias: providerAlias,
+    providerConfig,
+    vaultPath: resolveUserPath(providerConfig.path),
+  };
+}
+
+/**
+ * Loads the vault key material. When neither the vault nor its key file exist yet,
+ * a fresh key is generated and returned for the caller to write.
+ */
+export async function prepareVaultFileUnlock(params: {
+  target: VaultFileProviderTarget;
+  env?: NodeJS.ProcessEnv;
+}): Promise<{ unlock: VaultFileUnlock; keyFileToCreate?: { path: string; content: string } }> {
+  const keyFile = params.target.providerConfig.keyFile;
+  if (keyFile) {
+    const keyFilePath = resolveUserPath(keyFile);
+    if (!fs.existsSync(keyFilePath)) {
+      if (fs.existsSync(params.target.vaultPath)) {
+        throw new Error(`Vault key file is missing: ${keyFilePath}`);
+      }
+      const content = generateVaultKeyFileContent();
+      return {
+        unlock: { keyFile: Buffer.from(content, "utf8") },
+        keyFileToCreate: { path: keyFilePath, content },
+      };
+    }
+  }
+  return {
+    unlock: await resolveVaultFileUnlock({
+      providerName: params.target.alias,
+      providerConfig: params.target.providerConfig,
+      env: params.env,
+    }),
+  };
+}
+
+async function readConfigForVault(env: NodeJS.ProcessEnv) {
+  const io = createSecretsConfigIO({ env });
+  const { snapshot, writeOptions } = await io.readConfigFileSnapshotForWrite();
+  if (!snapshot.valid) {
+    throw new Error("Cannot use the secrets vault: config is invalid.");
+  }
+  return { io, config: snapshot.config, writeOptions };
+}
+
+function assertVaultSecretId(id: string): string {
+  const trimmed = id.trim();
+  if (!isValidVaultFileSecretRefId(trimmed)) {
+    throw new Error(
+      `Invalid vault secret id "${id}" (must match /^[A-Za-z0-9][A-Za-z0-9._:/-]{0,255}$/).`,
+    );
+  }
+  return trimmed;
+}
+
+export async function runSecretsVaultSet(params: {
+  id: string;
+  value: string;
+  provider?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<{ provider: string; path: string; id: string; created: boolean; keyFile?: string }> {
+  const env = params.env ?? process.env;
+  const id = assertVaultSecretId(params.id);
+  if (!isNonEmptyString(params.value)) {
+    throw new Error("Secret value is empty.");
+  }
+  const { config } = await readConfigForVault(env);
+  const target = resolveVaultFileProvider(config, params.provider);
+  const { unlock, keyFileToCreate } = await prepareVaultFileUnlock({ target, env });
+  const secrets = readVaultFileSecrets(target.vaultPath, unlock, { allowMissing: true });
+  const created = !Object.prototype.hasOwnProperty.call(secrets, id);
+  secrets[id] = params.value;
+  if (keyFileToCreate) {
+    writeTextFileAtomic(keyFileToCreate.path, keyFileToCreate.content);
+  }
+  writeVaultFileSecrets(target.vaultPath, secrets, unlock);
+  return {
+    provider: target.alias,
+    path: target.vaultPath,
+    id,
+    created,
+    ...(keyFileToCreate ? { keyFile: keyFileToCreate.path } : {}),
+  };
+}
+
+export async function runSecretsVaultGet(params: {
+  id: string;
+  provider?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<{ provider: string; id: string; value: string }> {
+  const env = params.env ?? process.env;
+  const id = assertVaultSecretId(params.id);
+  const { config } = await readConfigForVault(env);
+  const target = resolveVaultFileProvider(config, params.provider);
+  const value = await resolveSecretRefString(
+    { source: "vault-file", provider: target.alias, id },
+    { config, env },
+  );
+  return { provider: target.alias, id, value };
+}
+
+/**
+ * Re-encrypts the vault under a fresh salt and IV. With `newKeyFile` or
+ * `newPassphraseEnv` the vault moves to new key material and the provider
+ * config is updated to match.
+ */
+export async function runSecretsVaultRotate(params: {
+  provider?: string;
+  newKeyFile?: string;
+  newPassphraseEnv?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<{
+  provider: string;
+  path: string;
+  secretCount: number;
+  configUpdated: boolean;
+  keyFile?: string;
+}> {
+  const env = params.env ?? process.env;
+  const newKeyFile = params.newKeyFile?.trim();
+  const newPassphraseEnv = params.newPassphraseEnv?.trim();
+  if (newKeyFile && newPassphraseEnv) {
+    throw new Error("Use either --new-key-file or --new-passphrase-env, not both.");
+  }
+  if (newPassphraseEnv && !ENV_NAME_PATTERN.test(newPassphraseEnv)) {
+    throw new Error(`Invalid env var name: ${newPassphraseEnv}`);
+  }
+  const { io, config, writeOptions } = await readConfigForVault(env);
+  const target = resolveVaultFileProvider(config, params.provider);
+  if (!fs.existsSync(target.vaultPath)) {
+    throw new Error(`Vault file does not exist yet: ${target.vaultPath}`);
+  }
+  const currentUnlock = await resolveVaultFileUnlock({
+    providerName: target.alias,
+    providerConfig: target.providerConfig,
+    env,
+  });
+  const secrets = readVaultFileSecrets(target.vaultPath, currentUnlock);
+
+  let nextProviderConfig: VaultFileSecretProviderConfig = target.providerConfig;
+  if (newKeyFile) {
+    nextProviderConfig = {
+      source: "vault-file",
+      path: target.providerConfig.path,
+      keyFile: newKeyFile,
+    };
+  } else if (newPassphraseEnv) {
+    nextProviderConfig = {
+      source: "vault-file",
+      path: target.providerConfig.path,
+      passphraseEnv: newPassphraseEnv,
+    };
+  }
+  let unlock: VaultFileUnlock;
+  let keyFileToCreate: { path: string; content: string } | undefined;
+  const newKeyFilePath = newKeyFile ? resolveUserPath(newKeyFile) : undefined;
+  if (newKeyFilePath && !fs.existsSync(newKeyFilePath)) {
+    const content = generateVaultKeyFileContent();
+    unlock = { keyFile: Buffer.from(content, "utf8") };
+    keyFileToCreate = { path: newKeyFilePath, content };
+  } else {
+    unlock = await resolveVaultFileUnlock({
+      providerName: target.alias,
+      providerConfig: nextProviderConfig,
+      env,
+    });
+  }
+  const configUpdated =
+    nextProviderConfig.keyFile !== target.providerConfig.keyFile ||
+    nextProviderConfig.passphraseEnv !== target.providerConfig.passphraseEnv;
+
+  const previousVault = fs.readFileSync(target.vaultPath, "utf8");
+  if (keyFileToCreate) {
+    writeTextFileAtomic(keyFileToCreate.path, keyFileToCreate.content);
+  }
+  writeVaultFileSecrets(target.vaultPath, secrets, unlock);
+  if (configUpdated) {
+    const nextConfig = structuredClone(config);
+    nextConfig.secrets ??= {};
+    nextConfig.secrets.providers = {
+      ...nextConfig.secrets.providers,
+      [target.alias]: nextProviderConfig,
+    };
+    try {
+      await io.writeConfigFile(nextConfig, writeOptions);
+    } catch (err) {
+      // Keep the vault readable with the key material the config still points at.
+      writeTextFileAtomic(target.vaultPath, previousVault);
+      if (keyFileToCreate) {
+        fs.rmSync(keyFileToCreate.path, { force: true });
+      }
+      throw new Error(`Vault rotation failed: ${String(err)}`, { cause: err });
+    }
+  }
+  return {
+    provider: target.alias,
+    path: target.vaultPath,
+    secretCount: Object.keys(secrets).length,
+    configUpdated,
+    ...(keyFileToCreate ? { keyFile: keyFileToCreate.path } : {}),
+  };
+}
+
+/** Maps a config path to a vault id, e.g. `models/providers/openai/apiKey`. */
+export function toVaultSecretId(pathSegments: string[]): string {
+  const id = pathSegments
+    .map((segment) => segment.replace(/[^A-Za-z0-9._:-]/g, "_"))
+    .join("/")
+    .replace(/^[^A-Za-z0-9]+/, "");
+  return id.slice(0, 256);
+}
+
+function isPlaintextSecretString(value: unknown, config: OpenClawConfig): value is string {
+  return isNonEmptyString(value) && !coerceSecretRef(value, config.secrets?.defaults);
+}
+
+/** Plaintext string secrets in openclaw.json that `secrets apply --to-vault` can move. */
+export function listVaultMigrationCandidates(config: OpenClawConfig): VaultMigrationCandidate[] {
+  const out: VaultMigrationCandidate[] = [];
+  const push = (candidate: Omit<VaultMigrationCandidate, "path" | "id">) => {
+    out.push({
+      ...candidate,
+      path: candidate.pathSegments.join("."),
+      id: toVaultSecretId(candidate.pathSegments),
+    });
+  };
+
+  const providers = config.models?.providers as Record<string, unknown> | undefined;
+  for (const [providerId, provider] of Object.entries(providers ?? {})) {
+    if (isRecord(provider) && isPlaintextSecretString(provider.apiKey, config)) {
+      push({
+        type: "models.providers.apiKey",
+        pathSegments: ["models", "providers", providerId, "apiKey"],
+        providerId,
+      });
+    }
+  }
+
+  const entries = config.skills?.entries as Record<string, unknown> | undefined;
+  for (const [entryId, entry] of Object.entries(entries ?? {})) {
+    if (isRecord(entry) && isPlaintextSecretString(entry.apiKey, config)) {
+      push({
+        type: "skills.entries.apiKey",
+        pathSegments: ["skills", "entries", entryId, "apiKey"],
+      });
+    }
+  }
+
+  const googlechat = config.channels?.googlechat as Record<string, unknown> | undefined;
+  if (isRecord(googlechat)) {
+    if (
+      !googlechat.serviceAccountRef &&
+      isPlaintextSecretString(googlechat.serviceAccount, config)
+    ) {
+      push({
+        type: "channels.googlechat.serviceAccount",
+        pathSegments: ["channels", "googlechat", "serviceAccount"],
+      });
+    }
+    for (const [accountId, account] of Object.entries(
+      isRecord(googlechat.accounts) ? googlechat.accounts : {},
+    )) {
+      if (
+        isRecord(account) &&
+        !account.serviceAccountRef &&
+        isPlaintextSecretString(account.serviceAccount, config)
+      ) {
+        push({
+          type: "channels.googlechat.serviceAccount",
+          pathSegments: ["channels", "googlechat", "accounts", accountId, "serviceAccount"],
+          accountId,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+/** Builds an apply plan that moves every plaintext candidate into the vault. */
+export function buildVaultMigrationPlan(params: {
+  config: OpenClawConfig;
+  provider?: string;
+}): SecretsApplyPlan {
+  const target = resolveVaultFileProvider(params.config, params.provider);
+  return {
+    version: 1,
+    protocolVersion: 1,
+    generatedAt: new Date().toISOString(),
+    generatedBy: "openclaw secrets apply --to-vault",
+    targets: listVaultMigrationCandidates(params.config).map(({ id, ...candidate }) => ({
+      ...candidate,
+      ref: { source: "vault-file", provider: target.alias, id },
+    })),
+    // Only the config values move; auth-profile credentials are left for `secrets configure`.
+    options: {
+      scrubEnv: true,
+      scrubAuthProfilesForProviderTargets: false,
+      scrubLegacyAuthJson: false,
+    },
+  };
+}
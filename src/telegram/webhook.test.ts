@@ -3,6 +3,7 @@ import { once } from "node:events";
 import { request } from "node:http";
 import { setTimeout as sleep } from "node:timers/promises";
 import { describe, expect, it, vi } from "vitest";
+import { onDiagnosticEvent, type DiagnosticEventPayload } from "../infra/diagnostic-events.js";
 import { startTelegramWebhook } from "./webhook.js";
 
 const handlerSpy = vi.hoisted(() => vi.fn((..._args: unknown[]): unknown => undefined));
@@ -294,6 +295,39 @@ describe("startTelegramWebhook", () => {
     abort.abort();
   });
 
+  it("emits webhook diagnostics while /metrics is served", async () => {
+    const events: DiagnosticEventPayload[] = [];
+    const unsubscribe = onDiagnosticEvent((event) => events.push(event));
+    const abort = new AbortController();
+    const { server } = await startTelegramWebhook({
+      token: "tok",
+      secret: "secret",
+      accountId: "opie",
+      config: { gateway: { http: { endpoints: { metrics: { enabled: true } } } } },
+      port: 0,
+      abortSignal: abort.signal,
+      path: "/hook",
+    });
+    try {
+      const addr = server.address();
+      if (!addr || typeof addr === "string") {
+        throw new Error("no addr");
+      }
+      const response = await postWebhookJson({
+        url: `http://127.0.0.1:${addr.port}/hook`,
+        payload: JSON.stringify({ update_id: 2, message: { text: "hello" } }),
+        secret: "secret",
+      });
+      expect(response.status).toBe(200);
+      expect(events.map((event) => event.type)).toEqual(
+        expect.arrayContaining(["webhook.received", "webhook.processed"]),
+      );
+    } finally {
+      unsubscribe();
+      abort.abort();
+    }
+  });
+
   it("rejects startup when webhook secret is missing", async () => {
     await expect(
       startTelegramWebhook({
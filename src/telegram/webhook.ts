@@ -1,7 +1,7 @@
 import { createServer } from "node:http";
 import { webhookCallback } from "grammy";
 import type { OpenClawConfig } from "../config/config.js";
-import { isDiagnosticsEnabled } from "../infra/diagnostic-events.js";
+import { isDiagnosticEventsEnabled } from "../infra/diagnostic-events.js";
 import { formatErrorMessage } from "../infra/errors.js";
 import { readJsonBodyWithLimit } from "../infra/http-body.js";
 import {
@@ -100,7 +100,7 @@ export async function startTelegramWebhook(opts: {
     );
   }
   const runtime = opts.runtime ?? defaultRuntime;
-  const diagnosticsEnabled = isDiagnosticsEnabled(opts.config);
+  const diagnosticsEnabled = isDiagnosticEventsEnabled(opts.config);
   const bot = createTelegramBot({
     token: opts.token,
     runtime,
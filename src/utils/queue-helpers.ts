@@ -85,6 +85,8 @@ export function applyQueueDropPolicy<T>(params: {
   queue: QueueState<T>;
   summarize: (item: T) => string;
   summaryLimit?: number;
+  /** Picks and removes overflow items; defaults to the oldest. */
+  drop?: (items: T[], count: number) => T[];
 }): boolean {
   const cap = params.queue.cap;
   if (cap <= 0 || params.queue.items.length < cap) {
@@ -94,7 +96,9 @@ export function applyQueueDropPolicy<T>(params: {
     return false;
   }
   const dropCount = params.queue.items.length - cap + 1;
-  const dropped = params.queue.items.splice(0, dropCount);
+  const dropped = params.drop
+    ? params.drop(params.queue.items, dropCount)
+    : params.queue.items.splice(0, dropCount);
   if (params.queue.dropPolicy === "summarize") {
     for (const item of dropped) {
       params.queue.droppedCount += 1;
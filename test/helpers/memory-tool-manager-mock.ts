@@ -11,10 +11,12 @@ let readFileImpl: (params: MemoryReadParams) => Promise<MemoryReadResult> = asyn
   text: "",
   path: params.relPath,
 });
+let getChunkImpl: (id: string) => Promise<unknown> = async (id) => ({ status: "missing", id });
 
 const stubManager = {
   search: vi.fn(async () => await searchImpl()),
   readFile: vi.fn(async (params: MemoryReadParams) => await readFileImpl(params)),
+  getChunk: vi.fn(async (id: string) => await getChunkImpl(id)),
   status: () => ({
     backend,
     files: 1,
@@ -51,6 +53,10 @@ export function setMemoryReadFileImpl(
   readFileImpl = next;
 }
 
+export function setMemoryGetChunkImpl(next: (id: string) => Promise<unknown>): void {
+  getChunkImpl = next;
+}
+
 export function resetMemoryToolMockState(overrides?: {
   backend?: MemoryBackend;
   searchImpl?: SearchImpl;
@@ -61,5 +67,6 @@ export function resetMemoryToolMockState(overrides?: {
   readFileImpl =
     overrides?.readFileImpl ??
     (async (params: MemoryReadParams) => ({ text: "", path: params.relPath }));
+  getChunkImpl = async (id) => ({ status: "missing", id });
   vi.clearAllMocks();
 }